@@ -0,0 +1,158 @@
+/**
+ * 登录设备管理
+ * 查看当前账号的有效登录会话，下线单个或其他全部设备
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { App as AntdApp, Button, List, Modal, Popconfirm, Space, Tag, Typography } from 'antd';
+import { DesktopOutlined, LaptopOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import api, { unwrapData, getApiErrorMessage, type ApiResponse } from '../../utils/api';
+import logger from '../../utils/logger';
+
+const { Text } = Typography;
+
+interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+  current: boolean;
+}
+
+interface ActiveSessionsModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** 下线了当前设备（需回到登录页） */
+  onCurrentRevoked?: () => void;
+}
+
+/**
+ * 从 User-Agent 粗略识别浏览器与系统
+ */
+const describeDevice = (ua: string | null): string => {
+  if (!ua) return '未知设备';
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /Chrome\//.test(ua) ? 'Chrome'
+      : /Firefox\//.test(ua) ? 'Firefox'
+        : /Safari\//.test(ua) ? 'Safari'
+          : '浏览器';
+  const os = /Windows/.test(ua) ? 'Windows'
+    : /iPhone|iPad/.test(ua) ? 'iOS'
+      : /Android/.test(ua) ? 'Android'
+        : /Mac OS X/.test(ua) ? 'macOS'
+          : /Linux/.test(ua) ? 'Linux'
+            : '';
+  return os ? `${browser} · ${os}` : browser;
+};
+
+const formatTime = (value: string | null) => (value ? dayjs(value).format('YYYY-MM-DD HH:mm') : '-');
+
+export const ActiveSessionsModal: React.FC<ActiveSessionsModalProps> = ({ open, onClose, onCurrentRevoked }) => {
+  const { message } = AntdApp.useApp();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.get('/auth/sessions') as ApiResponse<ActiveSession[]>;
+      setSessions(unwrapData<ActiveSession[]>(res) ?? []);
+    } catch (err) {
+      logger.error('[ActiveSessions] 获取登录会话失败', err);
+      message.error(getApiErrorMessage(err, '获取登录会话失败'));
+    } finally {
+      setLoading(false);
+    }
+  }, [message]);
+
+  useEffect(() => {
+    if (open) void load();
+  }, [open, load]);
+
+  const revokeOne = async (session: ActiveSession) => {
+    try {
+      await api.delete(`/auth/sessions/${encodeURIComponent(session.id)}`);
+      if (session.current) {
+        onCurrentRevoked?.();
+        return;
+      }
+      message.success('已下线该设备');
+      await load();
+    } catch (err) {
+      message.error(getApiErrorMessage(err, '下线失败'));
+    }
+  };
+
+  const revokeOthers = async () => {
+    try {
+      const res = await api.delete('/auth/sessions') as ApiResponse<{ revoked: number }>;
+      message.success(`已下线 ${unwrapData<{ revoked: number }>(res)?.revoked ?? 0} 个其他设备`);
+      await load();
+    } catch (err) {
+      message.error(getApiErrorMessage(err, '下线其他设备失败'));
+    }
+  };
+
+  const hasOthers = sessions.some(s => !s.current);
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <LaptopOutlined />
+          <span>登录设备</span>
+        </Space>
+      }
+      open={open}
+      onCancel={onClose}
+      width={560}
+      destroyOnHidden
+      footer={
+        <Popconfirm title="确定下线除当前设备外的所有设备？" onConfirm={() => void revokeOthers()} disabled={!hasOthers}>
+          <Button danger disabled={!hasOthers}>下线其他设备</Button>
+        </Popconfirm>
+      }
+    >
+      <List
+        loading={loading}
+        dataSource={sessions}
+        locale={{ emptyText: '暂无登录会话' }}
+        renderItem={(session) => (
+          <List.Item
+            actions={[
+              <Popconfirm
+                key="revoke"
+                title={session.current ? '下线当前设备后需要重新登录，确定？' : '确定下线该设备？'}
+                onConfirm={() => void revokeOne(session)}
+              >
+                <Button type="link" danger size="small">下线</Button>
+              </Popconfirm>,
+            ]}
+          >
+            <List.Item.Meta
+              avatar={<DesktopOutlined style={{ fontSize: 20 }} />}
+              title={
+                <Space>
+                  <span>{describeDevice(session.userAgent)}</span>
+                  {session.current && <Tag color="green">当前设备</Tag>}
+                </Space>
+              }
+              description={
+                <Space direction="vertical" size={0}>
+                  <Text type="secondary">IP：{session.ip || '-'}</Text>
+                  <Text type="secondary">
+                    登录于 {formatTime(session.createdAt)}，最近使用 {formatTime(session.lastUsedAt)}
+                  </Text>
+                </Space>
+              }
+            />
+          </List.Item>
+        )}
+      />
+    </Modal>
+  );
+};
+
+export default ActiveSessionsModal;
@@ -22,6 +22,8 @@ import {
   Tag,
   Select,
   Steps,
+  List,
+  Popconfirm,
 } from 'antd';
 import {
   KeyOutlined,
@@ -32,10 +34,11 @@ import {
   CloudSyncOutlined,
   CloudDownloadOutlined,
   QuestionCircleOutlined,
+  SyncOutlined,
 } from '@ant-design/icons';
-import { keyManager } from '../../utils/keyManager';
+import { keyManager, type KeyVersionInfo, type RotationProgress } from '../../utils/keyManager';
 import { checkPasswordStrength, PasswordStrength, getStrengthDescription } from '../../utils/passwordValidator';
-import api from '../../utils/api';
+import api, { getApiErrorMessage } from '../../utils/api';
 
 const { Text } = Typography;
 
@@ -60,6 +63,12 @@ interface KeyManagementModalProps {
   onKeyChange?: () => void;
 }
 
+const ROTATION_TYPE_LABELS: Record<RotationProgress['type'], string> = {
+  session: '病历',
+  patient: '患者',
+  sessionKey: '共享密钥',
+};
+
 const SECURITY_QUESTIONS = [
   '您母亲的姓名是什么？',
   '您宠物的名字是什么？',
@@ -80,12 +89,14 @@ export const KeyManagementModal: React.FC<KeyManagementModalProps> = ({
   const [keyStatus, setKeyStatus] = useState<KeyStatus | null>(null);
   const [loading, setLoading] = useState(false);
   const [checkingServer, setCheckingServer] = useState(true);
-  const [mode, setMode] = useState<'status' | 'create' | 'unlock' | 'change' | 'export' | 'import' | 'restore' | 'security' | 'reset' | null>(null);
+  const [mode, setMode] = useState<'status' | 'create' | 'unlock' | 'change' | 'export' | 'import' | 'restore' | 'security' | 'reset' | 'rotate' | null>(null);
   const [passwordStrength, setPasswordStrength] = useState<PasswordStrength>(PasswordStrength.WEAK);
   const [passwordScore, setPasswordScore] = useState(0);
   const [backupFile, setBackupFile] = useState<File | null>(null);
   const [securityQuestions, setSecurityQuestions] = useState<SecurityQuestion[]>([]);
   const [resetStep, setResetStep] = useState(0);
+  const [keyVersions, setKeyVersions] = useState<KeyVersionInfo[]>([]);
+  const [rotationProgress, setRotationProgress] = useState<RotationProgress | null>(null);
 
   useEffect(() => {
     if (visible) {
@@ -316,6 +327,64 @@ export const KeyManagementModal: React.FC<KeyManagementModalProps> = ({
     }
   };
 
+  const loadKeyVersions = async () => {
+    try {
+      setKeyVersions(await keyManager.listKeyVersions());
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '获取密钥版本失败'));
+    }
+  };
+
+  const openRotate = () => {
+    setMode('rotate');
+    setRotationProgress(null);
+    form.resetFields();
+    void loadKeyVersions();
+  };
+
+  /**
+   * 轮换密钥或继续重新加密旧版本密文
+   */
+  const handleRotate = async (continueOnly: boolean) => {
+    let password: string;
+    try {
+      ({ password } = await form.validateFields() as { password: string });
+    } catch {
+      return;
+    }
+    setLoading(true);
+    try {
+      const results = continueOnly
+        ? await keyManager.reencryptOldVersions(password, setRotationProgress)
+        : await keyManager.rotateKey(password, setRotationProgress);
+      const updated = results.reduce((sum, r) => sum + r.updated, 0);
+      const skipped = results.reduce((sum, r) => sum + r.skipped, 0);
+      if (skipped > 0) {
+        message.warning(`已重新加密 ${updated} 条记录，${skipped} 条无法解密，已保留旧版本`);
+      } else {
+        message.success(`已重新加密 ${updated} 条记录`);
+      }
+      await loadKeyStatus();
+      onKeyChange?.();
+      setMode('rotate');
+      await loadKeyVersions();
+    } catch (error) {
+      message.error(getApiErrorMessage(error, continueOnly ? '重新加密失败' : '轮换密钥失败'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevokeVersion = async (version: number) => {
+    try {
+      await keyManager.revokeKeyVersion(version);
+      message.success(`密钥版本 ${version} 已吊销`);
+      await loadKeyVersions();
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '吊销密钥版本失败'));
+    }
+  };
+
   const handleLock = () => {
     keyManager.lock();
     loadKeyStatus();
@@ -701,6 +770,9 @@ export const KeyManagementModal: React.FC<KeyManagementModalProps> = ({
               <Button icon={<KeyOutlined />} onClick={() => setMode('change')}>
                 更改密码
               </Button>
+              <Button icon={<SyncOutlined />} onClick={openRotate}>
+                轮换密钥
+              </Button>
               <Button icon={<DownloadOutlined />} onClick={() => setMode('export')}>
                 导出备份
               </Button>
@@ -966,6 +1038,76 @@ export const KeyManagementModal: React.FC<KeyManagementModalProps> = ({
     </Form>
   );
 
+  const renderRotateForm = () => {
+    const pending = keyVersions.some(v => !v.isCurrent && !v.isRevoked && v.sessionCount + v.patientCount + v.grantCount > 0);
+    return (
+      <Form form={form} layout="vertical">
+        <Alert
+          type="info"
+          title="轮换加密密钥"
+          description="轮换后生成新的密钥对，并将使用旧密钥加密的病历与患者信息分批重新加密。中断后可继续；旧版本在不再被任何记录使用后方可吊销。"
+          showIcon
+          style={{ marginBottom: 16 }}
+        />
+
+        <List
+          size="small"
+          bordered
+          style={{ marginBottom: 16 }}
+          dataSource={keyVersions}
+          locale={{ emptyText: '暂无密钥版本' }}
+          renderItem={v => (
+            <List.Item
+              actions={!v.isCurrent && !v.isRevoked ? [
+                <Popconfirm key="revoke" title={`吊销版本 ${v.version} 后其私钥将被删除，确定吊销？`} onConfirm={() => void handleRevokeVersion(v.version)}>
+                  <Button size="small" danger>吊销</Button>
+                </Popconfirm>,
+              ] : []}
+            >
+              <Space wrap>
+                <Text strong>版本 {v.version}</Text>
+                {v.isCurrent && <Tag color="success">当前</Tag>}
+                {v.isRevoked && <Tag>已吊销</Tag>}
+                <Text code>{v.keyFingerprint.slice(0, 16) || '未知'}</Text>
+                {!v.isRevoked && <Text type="secondary">病历 {v.sessionCount} · 患者 {v.patientCount} · 共享密钥 {v.grantCount}</Text>}
+              </Space>
+            </List.Item>
+          )}
+        />
+
+        <Form.Item
+          name="password"
+          label="加密密码"
+          rules={[{ required: true, message: '请输入密码' }]}
+        >
+          <Input.Password prefix={<LockOutlined />} placeholder="输入当前加密密码" />
+        </Form.Item>
+
+        {rotationProgress && (
+          <Alert
+            type="success"
+            title={`${ROTATION_TYPE_LABELS[rotationProgress.type]}：已重新加密 ${rotationProgress.updated} 条，跳过 ${rotationProgress.skipped} 条`}
+            style={{ marginBottom: 16 }}
+          />
+        )}
+
+        <Space>
+          <Button type="primary" icon={<SyncOutlined />} loading={loading} onClick={() => void handleRotate(false)}>
+            轮换密钥
+          </Button>
+          {pending && (
+            <Button loading={loading} onClick={() => void handleRotate(true)}>
+              继续重新加密
+            </Button>
+          )}
+          <Button onClick={() => { setMode('status'); form.resetFields(); }}>
+            取消
+          </Button>
+        </Space>
+      </Form>
+    );
+  };
+
   return (
     <Modal
       title={
@@ -992,6 +1134,7 @@ export const KeyManagementModal: React.FC<KeyManagementModalProps> = ({
       {mode === 'restore' && renderRestoreForm()}
       {mode === 'security' && renderSecurityForm()}
       {mode === 'reset' && renderResetForm()}
+      {mode === 'rotate' && renderRotateForm()}
     </Modal>
   );
 };
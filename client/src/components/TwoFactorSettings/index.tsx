@@ -0,0 +1,214 @@
+/**
+ * 两步验证设置
+ * 扫码绑定验证器应用、查看/重新生成恢复码、停用
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, App as AntdApp, Button, Descriptions, Form, Input, Modal, QRCode, Radio, Space, Spin, Typography } from 'antd';
+import { SafetyOutlined } from '@ant-design/icons';
+import api, { unwrapData, getApiErrorMessage, type ApiResponse } from '../../utils/api';
+import logger from '../../utils/logger';
+
+const { Text, Paragraph } = Typography;
+
+/**
+ * 登录后需强制绑定两步验证的标记（sessionStorage）
+ */
+export const TOTP_SETUP_REQUIRED_KEY = 'totp_setup_required';
+
+interface TotpStatus {
+  enabled: boolean;
+  pending: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface TotpSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+interface TwoFactorSettingsModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const RecoveryCodes: React.FC<{ codes: string[] }> = ({ codes }) => (
+  <>
+    <Alert type="warning" showIcon title="请妥善保存以下恢复码" description="每个恢复码只能使用一次，关闭窗口后将无法再次查看。" />
+    <Paragraph copyable={{ text: codes.join('\n') }} style={{ marginTop: 12 }}>
+      <pre style={{ margin: 0 }}>{codes.join('\n')}</pre>
+    </Paragraph>
+  </>
+);
+
+export const TwoFactorSettingsModal: React.FC<TwoFactorSettingsModalProps> = ({ open, onClose }) => {
+  const { message } = AntdApp.useApp();
+  const [form] = Form.useForm();
+  const [status, setStatus] = useState<TotpStatus | null>(null);
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [disableBy, setDisableBy] = useState<'code' | 'recoveryCode'>('code');
+  const [loading, setLoading] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await api.get('/auth/totp') as ApiResponse<TotpStatus>;
+      setStatus(unwrapData<TotpStatus>(res) ?? null);
+    } catch (err) {
+      logger.error('[TwoFactorSettings] 获取两步验证状态失败', err);
+      message.error(getApiErrorMessage(err, '获取两步验证状态失败'));
+    }
+  }, [message]);
+
+  useEffect(() => {
+    if (!open) return;
+    setSetup(null);
+    setRecoveryCodes(null);
+    form.resetFields();
+    void loadStatus();
+  }, [open, form, loadStatus]);
+
+  const run = async (fn: () => Promise<void>, fallback: string) => {
+    setLoading(true);
+    try {
+      await fn();
+    } catch (err) {
+      message.error(getApiErrorMessage(err, fallback));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSetup = () => run(async () => {
+    const res = await api.post('/auth/totp/setup') as ApiResponse<TotpSetup>;
+    setSetup(unwrapData<TotpSetup>(res) ?? null);
+  }, '生成密钥失败');
+
+  const handleEnable = (values: { code: string }) => run(async () => {
+    const res = await api.post('/auth/totp/enable', { code: values.code }) as ApiResponse<{ recoveryCodes: string[] }>;
+    setRecoveryCodes(unwrapData<{ recoveryCodes: string[] }>(res)?.recoveryCodes ?? []);
+    setSetup(null);
+    sessionStorage.removeItem(TOTP_SETUP_REQUIRED_KEY);
+    message.success('两步验证已启用');
+    form.resetFields();
+    await loadStatus();
+  }, '启用失败');
+
+  const handleRegenerate = (values: { code: string }) => run(async () => {
+    const res = await api.post('/auth/totp/recovery-codes', { code: values.code }) as ApiResponse<{ recoveryCodes: string[] }>;
+    setRecoveryCodes(unwrapData<{ recoveryCodes: string[] }>(res)?.recoveryCodes ?? []);
+    form.resetFields();
+    await loadStatus();
+  }, '重新生成恢复码失败');
+
+  const handleDisable = () => run(async () => {
+    const values = await form.validateFields() as { code?: string; recoveryCode?: string };
+    await api.post('/auth/totp/disable', disableBy === 'code' ? { code: values.code } : { recoveryCode: values.recoveryCode });
+    message.success('两步验证已停用');
+    form.resetFields();
+    await loadStatus();
+  }, '停用失败');
+
+  // 角色强制要求且尚未启用时不允许关闭
+  const mustSetup = Boolean(status?.required && !status.enabled);
+
+  const codeItem = (
+    <Form.Item name="code" rules={[{ required: true, pattern: /^\d{6}$/, message: '请输入6位数字动态码' }]}>
+      <Input placeholder="验证器中的6位动态码" maxLength={6} autoComplete="one-time-code" />
+    </Form.Item>
+  );
+
+  const renderBody = () => {
+    if (!status) return <Spin />;
+
+    if (recoveryCodes) {
+      return (
+        <>
+          <RecoveryCodes codes={recoveryCodes} />
+          <Button type="primary" block onClick={() => setRecoveryCodes(null)}>我已保存</Button>
+        </>
+      );
+    }
+
+    if (!status.enabled) {
+      if (!setup) {
+        return (
+          <>
+            {status.required && <Alert type="info" showIcon title="当前角色要求启用两步验证" style={{ marginBottom: 16 }} />}
+            <Paragraph>启用后，使用密码登录时还需输入验证器应用（如 Google Authenticator、Microsoft Authenticator）中的动态码。</Paragraph>
+            <Button type="primary" block loading={loading} onClick={() => void handleSetup()}>开始绑定</Button>
+          </>
+        );
+      }
+      return (
+        <Form form={form} layout="vertical" onFinish={(v) => void handleEnable(v)}>
+          <Space direction="vertical" align="center" style={{ width: '100%' }}>
+            <QRCode value={setup.otpauthUri} />
+            <Text type="secondary">无法扫码时可手动输入密钥：</Text>
+            <Text code copyable>{setup.secret}</Text>
+          </Space>
+          <Form.Item label="输入验证器显示的动态码以完成绑定" style={{ marginTop: 16, marginBottom: 0 }}>
+            {codeItem}
+          </Form.Item>
+          <Button type="primary" htmlType="submit" block loading={loading}>启用</Button>
+        </Form>
+      );
+    }
+
+    return (
+      <Form form={form} layout="vertical" onFinish={(v) => void handleRegenerate(v)}>
+        <Descriptions column={1} size="small" style={{ marginBottom: 16 }}>
+          <Descriptions.Item label="状态"><Text type="success">已启用</Text></Descriptions.Item>
+          {status.enabledAt && <Descriptions.Item label="启用时间">{new Date(status.enabledAt).toLocaleString()}</Descriptions.Item>}
+          <Descriptions.Item label="剩余恢复码">{status.recoveryCodesRemaining}</Descriptions.Item>
+        </Descriptions>
+        {!status.required && (
+          <Form.Item>
+            <Radio.Group value={disableBy} onChange={(e) => setDisableBy(e.target.value as 'code' | 'recoveryCode')}>
+              <Radio.Button value="code">动态码</Radio.Button>
+              <Radio.Button value="recoveryCode">恢复码</Radio.Button>
+            </Radio.Group>
+          </Form.Item>
+        )}
+        {disableBy === 'code' || status.required ? codeItem : (
+          <Form.Item name="recoveryCode" rules={[{ required: true, message: '请输入恢复码' }]}>
+            <Input placeholder="XXXXX-XXXXX" autoComplete="off" />
+          </Form.Item>
+        )}
+        <Space style={{ width: '100%', justifyContent: 'flex-end' }}>
+          {(disableBy === 'code' || status.required) && (
+            <Button htmlType="submit" loading={loading}>重新生成恢复码</Button>
+          )}
+          {!status.required && (
+            <Button danger loading={loading} onClick={() => void handleDisable()}>停用两步验证</Button>
+          )}
+        </Space>
+      </Form>
+    );
+  };
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <SafetyOutlined />
+          <span>两步验证</span>
+        </Space>
+      }
+      open={open}
+      onCancel={onClose}
+      closable={!mustSetup}
+      maskClosable={!mustSetup}
+      keyboard={!mustSetup}
+      footer={null}
+      width={460}
+      destroyOnHidden
+    >
+      {renderBody()}
+    </Modal>
+  );
+};
+
+export default TwoFactorSettingsModal;
@@ -1,9 +1,11 @@
 import React from 'react';
 import { App as AntdApp, Button, Grid, Layout, Menu, Space, theme, Dropdown, Avatar } from 'antd';
 import LazyDrawer from '../components/lazy/LazyDrawer';
-import { MenuOutlined, SunOutlined, MoonOutlined, UserOutlined, LogoutOutlined } from '@ant-design/icons';
+import { MenuOutlined, SunOutlined, MoonOutlined, UserOutlined, LogoutOutlined, SafetyOutlined, LaptopOutlined } from '@ant-design/icons';
 import { Outlet, useNavigate, useLocation } from 'react-router-dom';
 import Logo from '../components/Logo';
+import ActiveSessionsModal from '../components/ActiveSessions';
+import TwoFactorSettingsModal, { TOTP_SETUP_REQUIRED_KEY } from '../components/TwoFactorSettings';
 import { useThemeStore } from '../store/theme.store';
 import logger from '../utils/logger';
 import api from '../utils/api';
@@ -23,12 +25,16 @@ const MainLayout: React.FC = () => {
   const isMobile = !screens.md;
 
   const [authChecking, setAuthChecking] = React.useState(false);
+  // 角色要求两步验证但尚未绑定时，登录后自动弹出绑定窗口
+  const [twoFactorOpen, setTwoFactorOpen] = React.useState(() => sessionStorage.getItem(TOTP_SETUP_REQUIRED_KEY) === '1');
+  const [sessionsOpen, setSessionsOpen] = React.useState(false);
 
   const items = [
     { key: '/home', label: '首页' },
     { key: '/dashboard', label: '统计' },
     { key: '/interview', label: '问诊' },
     { key: '/sessions', label: '病历' },
+    { key: '/patients', label: '患者' },
     { key: '/knowledge', label: '知识库' },
   ];
 
@@ -96,6 +102,7 @@ const MainLayout: React.FC = () => {
     if (p === '/' || p.startsWith('/login') || p.startsWith('/register')) return '/login';
     if (p.startsWith('/interview')) return '/interview';
     if (p.startsWith('/sessions')) return '/sessions';
+    if (p.startsWith('/patients')) return '/patients';
     if (p.startsWith('/knowledge')) return '/knowledge';
     if (p.startsWith('/dashboard')) return '/dashboard';
     if (p.startsWith('/home')) return '/home';
@@ -184,6 +191,18 @@ const MainLayout: React.FC = () => {
           <Dropdown
             menu={{
               items: [
+                {
+                  key: 'two-factor',
+                  icon: <SafetyOutlined />,
+                  label: '两步验证',
+                  onClick: () => setTwoFactorOpen(true),
+                },
+                {
+                  key: 'sessions',
+                  icon: <LaptopOutlined />,
+                  label: '登录设备',
+                  onClick: () => setSessionsOpen(true),
+                },
                 {
                   key: 'logout',
                   icon: <LogoutOutlined />,
@@ -211,6 +230,16 @@ const MainLayout: React.FC = () => {
               {!isMobile && <span style={{ fontSize: 14 }}>账户</span>}
             </Space>
           </Dropdown>
+          <TwoFactorSettingsModal open={twoFactorOpen} onClose={() => setTwoFactorOpen(false)} />
+          <ActiveSessionsModal
+            open={sessionsOpen}
+            onClose={() => setSessionsOpen(false)}
+            onCurrentRevoked={() => {
+              setSessionsOpen(false);
+              message.success('已退出登录');
+              navigate('/login', { replace: true });
+            }}
+          />
         </Space>
       </Header>
       <Content style={{ padding: screens.md ? '0 48px' : '0 10px', marginTop: isMobile ? 12 : 16 }}>
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { Typography, DatePicker, Button, Drawer, Space, Alert, Spin, Tooltip } from 'antd';
+import { Typography, DatePicker, Button, Drawer, Space, Alert, Spin, Tooltip, List, Tag, Modal, Progress } from 'antd';
 import { 
   SyncOutlined, 
   DownloadOutlined, 
@@ -10,8 +10,10 @@ import {
   FileTextOutlined,
   CheckCircleOutlined,
   RiseOutlined,
-  FallOutlined
+  FallOutlined,
+  ReadOutlined
 } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
 import dayjs from 'dayjs';
 import * as echarts from 'echarts';
 import EChartsWrapper from '../../components/EChartsWrapper';
@@ -22,6 +24,31 @@ import './index.css';
 const { Title, Text, Paragraph } = Typography;
 const { RangePicker } = DatePicker;
 
+/**
+ * 学生的病例任务
+ */
+interface MyAssignment {
+  id: number;
+  title: string;
+  cohort: { id: number; name: string };
+  dueAt: string;
+  overdue: boolean;
+  session: { id: number; status: string; gradeScore: number | null; updatedAt: string } | null;
+}
+
+/**
+ * 病历自动评分结果
+ */
+interface SessionGrade {
+  score: number | null;
+  gradedAt: string | null;
+  result: {
+    sections: Array<{ section: string; label: string; points: number; maxPoints: number }>;
+    // 学生只返回分节得分，不含逐项反馈
+    items?: Array<{ section: string; item: string; passed: boolean; points: number; maxPoints: number; feedback: string }>;
+  } | null;
+}
+
 /**
  * 仪表盘统计数据接口
  */
@@ -37,6 +64,7 @@ interface DashboardStats {
   recentSessions: Array<{ id: number; createdAt: string; status: string }>;
   knowledgeCount: number;
   recentKnowledge: Array<{ id: number; title: string; createdAt: string }>;
+  myAssignments?: MyAssignment[];
 }
 
 /**
@@ -57,10 +85,12 @@ interface StatCardConfig {
  * 展示问诊统计数据、趋势图表和数据分析
  */
 const Dashboard: React.FC = () => {
+  const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [aiDrawerOpen, setAiDrawerOpen] = useState(false);
   const [selectedChartInfo, setSelectedChartInfo] = useState<{ title: string; content: string } | null>(null);
+  const [grade, setGrade] = useState<{ title: string; data: SessionGrade } | null>(null);
   const [dateRange, setDateRange] = useState<[dayjs.Dayjs, dayjs.Dayjs]>([
     dayjs().subtract(30, 'days'),
     dayjs()
@@ -277,6 +307,34 @@ const Dashboard: React.FC = () => {
     },
   ];
 
+  /**
+   * 任务进度标签
+   */
+  const assignmentTag = (item: MyAssignment) => {
+    if (item.overdue) return <Tag color="error">已逾期</Tag>;
+    const status = item.session?.status;
+    if (!status) return <Tag>未开始</Tag>;
+    if (status === 'submitted') return <Tag color="purple">待审核</Tag>;
+    if (status === 'returned') return <Tag color="volcano">已退回</Tag>;
+    if (status === 'approved') return <Tag color="success">审核通过</Tag>;
+    if (status === 'completed' || status === 'archived') return <Tag color="success">已完成</Tag>;
+    return <Tag color="processing">进行中</Tag>;
+  };
+
+  /**
+   * 查看任务病历的评分反馈
+   */
+  const openGrade = async (item: MyAssignment) => {
+    if (!item.session) return;
+    try {
+      const res = await api.get(`/sessions/${item.session.id}/grade`) as ApiResponse<SessionGrade>;
+      const data = unwrapData<SessionGrade>(res);
+      if (data) setGrade({ title: item.title, data });
+    } catch (error) {
+      logger.error('[Dashboard] 获取评分失败:', error);
+    }
+  };
+
   /**
    * 处理图表点击事件
    */
@@ -376,6 +434,44 @@ const Dashboard: React.FC = () => {
         ))}
       </div>
 
+      {/* 学生的病例任务 */}
+      {stats?.myAssignments && stats.myAssignments.length > 0 && (
+        <div className="chart-card assignments-card">
+          <div className="chart-title">
+            <Space><ReadOutlined />我的病例任务</Space>
+          </div>
+          <List
+            className="assignments-list"
+            dataSource={stats.myAssignments}
+            renderItem={(item) => (
+              <List.Item
+                actions={[
+                  item.session && item.session.gradeScore !== null ? (
+                    <Button key="grade" type="link" onClick={() => openGrade(item)}>
+                      得分 {item.session.gradeScore}
+                    </Button>
+                  ) : null,
+                  item.session ? (
+                    <Button key="open" type="link" onClick={() => navigate(`/interview/${item.session?.id}`)}>
+                      继续
+                    </Button>
+                  ) : (
+                    <Button key="start" type="link" onClick={() => navigate(`/interview/new?assignmentId=${item.id}`)}>
+                      开始
+                    </Button>
+                  ),
+                ]}
+              >
+                <List.Item.Meta
+                  title={<Space>{item.title}{assignmentTag(item)}</Space>}
+                  description={`${item.cohort.name} · 截止 ${dayjs(item.dueAt).format('YYYY-MM-DD HH:mm')}`}
+                />
+              </List.Item>
+            )}
+          />
+        </div>
+      )}
+
       {/* AI Insight Card */}
       {stats && stats.totalSessions > 0 && (
         <div 
@@ -458,6 +554,41 @@ const Dashboard: React.FC = () => {
         </div>
       )}
 
+      {/* 评分反馈 */}
+      <Modal
+        title={`评分反馈：${grade?.title ?? ''}`}
+        open={!!grade}
+        onCancel={() => setGrade(null)}
+        footer={null}
+        width={640}
+      >
+        {grade?.data.result && (
+          <>
+            <Space size={24} wrap style={{ marginBottom: 16 }}>
+              <Progress type="circle" size={72} percent={grade.data.score ?? 0} format={(p) => `${p}`} />
+              {grade.data.result.sections.map((s) => (
+                <div key={s.section}>
+                  <Text type="secondary">{s.label}</Text>
+                  <div><Text strong>{s.points}</Text> / {s.maxPoints}</div>
+                </div>
+              ))}
+            </Space>
+            {grade.data.result.items && <List
+              size="small"
+              dataSource={grade.data.result.items}
+              renderItem={(i) => (
+                <List.Item>
+                  <Space align="start">
+                    {i.passed ? <Tag color="success">✓</Tag> : <Tag color="error">✗</Tag>}
+                    <Text>{i.feedback}</Text>
+                  </Space>
+                </List.Item>
+              )}
+            />}
+          </>
+        )}
+      </Modal>
+
       {/* 详情抽屉 */}
       <Drawer
         title={
@@ -0,0 +1,257 @@
+/**
+ * 找回密码
+ * 发起重置（图形验证码）→ 邮箱验证码或安全问题验证 → 设置新密码
+ */
+
+import React, { useState } from 'react';
+import { Alert, App as AntdApp, Button, Form, Input, Radio, Result, Steps, Typography, theme } from 'antd';
+import { LockOutlined, MailOutlined, MedicineBoxFilled, UserOutlined } from '@ant-design/icons';
+import { Link } from 'react-router-dom';
+import api, { unwrapData, getApiErrorMessage, type ApiResponse, type RetriableAxiosConfig } from '../../utils/api';
+import Captcha from '../../components/Captcha';
+import { useThemeStore } from '../../store/theme.store';
+import logger from '../../utils/logger';
+import '../Register/register.css';
+
+const { Title } = Typography;
+
+type ResetMethod = 'email' | 'security_questions';
+
+interface ResetOptions {
+  methods: ResetMethod[];
+  maskedEmail: string | null;
+  questions: Array<{ id: number; question: string }>;
+}
+
+interface ResetResult {
+  revokedSessions: number;
+  keyRewrapRequired: boolean;
+  warning: string | null;
+}
+
+const NO_REFRESH = { _skipAuthRefresh: true } as RetriableAxiosConfig;
+
+const ForgotPassword: React.FC = () => {
+  const { message } = AntdApp.useApp();
+  const { token } = theme.useToken();
+  const { mode } = useThemeStore();
+  const isDark = mode === 'dark';
+  const [requestForm] = Form.useForm();
+  const [verifyForm] = Form.useForm();
+  const [resetForm] = Form.useForm();
+
+  const [step, setStep] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [username, setUsername] = useState('');
+  const [options, setOptions] = useState<ResetOptions | null>(null);
+  const [method, setMethod] = useState<ResetMethod>('email');
+  const [resetToken, setResetToken] = useState('');
+  const [result, setResult] = useState<ResetResult | null>(null);
+  const [captchaVerified, setCaptchaVerified] = useState(false);
+  const [captchaRefreshKey, setCaptchaRefreshKey] = useState(0);
+
+  const refreshCaptcha = () => {
+    setCaptchaVerified(false);
+    requestForm.setFieldsValue({ captcha: '', captchaId: '' });
+    setCaptchaRefreshKey(prev => prev + 1);
+  };
+
+  const handleRequest = async (values: { username: string; captcha: string; captchaId: string }) => {
+    setLoading(true);
+    try {
+      const res = await api.post('/auth/password-reset/request', values, NO_REFRESH) as ApiResponse<ResetOptions>;
+      const data = unwrapData<ResetOptions>(res);
+      if (!data || data.methods.length === 0) {
+        message.warning('该账号未绑定已验证的邮箱或未设置安全问题，请联系管理员重置密码');
+        refreshCaptcha();
+        return;
+      }
+      setUsername(values.username);
+      setOptions(data);
+      setMethod(data.methods[0]);
+      setStep(1);
+    } catch (err) {
+      logger.error('[ForgotPassword] 发起重置失败', err);
+      refreshCaptcha();
+      message.error(getApiErrorMessage(err, '发起重置失败，请稍后重试'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async (values: { code?: string; answers?: Record<string, string> }) => {
+    const body = method === 'email'
+      ? { username, method, code: values.code }
+      : {
+        username,
+        method,
+        answers: (options?.questions || []).map(q => ({ questionId: q.id, answer: values.answers?.[q.id] || '' })),
+      };
+    setLoading(true);
+    try {
+      const res = await api.post('/auth/password-reset/verify', body, NO_REFRESH) as ApiResponse<{ resetToken: string }>;
+      const data = unwrapData<{ resetToken: string }>(res);
+      if (!data?.resetToken) throw new Error('验证响应无效');
+      setResetToken(data.resetToken);
+      setStep(2);
+    } catch (err) {
+      message.error(getApiErrorMessage(err, '验证失败'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async (values: { password: string }) => {
+    setLoading(true);
+    try {
+      const res = await api.post('/auth/password-reset/confirm', { resetToken, password: values.password }, NO_REFRESH) as ApiResponse<ResetResult>;
+      setResult(unwrapData<ResetResult>(res) ?? null);
+      setStep(3);
+    } catch (err) {
+      const msg = getApiErrorMessage(err, '重置密码失败');
+      message.error(msg);
+      // 凭证失效需重新验证
+      if (msg.includes('凭证')) setStep(1);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="register-page">
+      <style>{`
+        .register-page {
+          background: ${isDark ? token.colorBgLayout : '#f0f2f5'} !important;
+        }
+        .register-bg-blob {
+          opacity: ${isDark ? 0.15 : 0.6} !important;
+        }
+        .register-card {
+          background: ${token.colorBgContainer} !important;
+          border: 1px solid ${token.colorBorderSecondary} !important;
+        }
+        .register-title {
+          color: ${token.colorText} !important;
+        }
+      `}</style>
+
+      <div className="register-bg-decoration">
+        <div className="register-bg-blob register-bg-blob-1" />
+        <div className="register-bg-blob register-bg-blob-2" />
+      </div>
+
+      <div className="register-card">
+        <div className="register-header">
+          <div className="register-logo">
+            <MedicineBoxFilled />
+          </div>
+          <Title level={3} className="register-title">找回密码</Title>
+        </div>
+
+        <Steps
+          size="small"
+          current={step}
+          style={{ marginBottom: 24 }}
+          items={[{ title: '账号' }, { title: '验证' }, { title: '新密码' }]}
+        />
+
+        {step === 0 && (
+          <Form form={requestForm} layout="vertical" size="large" onFinish={(v) => void handleRequest(v)}>
+            <Form.Item name="username" rules={[{ required: true, message: '请输入用户名' }]}>
+              <Input prefix={<UserOutlined />} placeholder="请输入用户名" autoComplete="username" />
+            </Form.Item>
+            <Form.Item name="captcha" rules={[{ required: true, message: '请输入验证码' }]}>
+              <Captcha
+                key={`captcha-${captchaRefreshKey}`}
+                onChange={(value) => requestForm.setFieldsValue({ captcha: value })}
+                onVerify={setCaptchaVerified}
+                onIdChange={(id) => requestForm.setFieldsValue({ captchaId: id })}
+              />
+            </Form.Item>
+            <Form.Item name="captchaId" initialValue="" hidden>
+              <Input type="hidden" />
+            </Form.Item>
+            <Button type="primary" htmlType="submit" block loading={loading} disabled={!captchaVerified}>
+              下一步
+            </Button>
+          </Form>
+        )}
+
+        {step === 1 && options && (
+          <Form form={verifyForm} layout="vertical" size="large" onFinish={(v) => void handleVerify(v)}>
+            {options.methods.length > 1 && (
+              <Form.Item>
+                <Radio.Group value={method} onChange={(e) => setMethod(e.target.value as ResetMethod)}>
+                  <Radio.Button value="email">邮箱验证码</Radio.Button>
+                  <Radio.Button value="security_questions">安全问题</Radio.Button>
+                </Radio.Group>
+              </Form.Item>
+            )}
+            {method === 'email' ? (
+              <Form.Item
+                name="code"
+                label={`验证码已发送至 ${options.maskedEmail ?? '绑定邮箱'}`}
+                rules={[{ required: true, pattern: /^\d{6}$/, message: '请输入6位数字验证码' }]}
+              >
+                <Input prefix={<MailOutlined />} placeholder="6位验证码" maxLength={6} autoComplete="one-time-code" />
+              </Form.Item>
+            ) : (
+              options.questions.map(q => (
+                <Form.Item key={q.id} name={['answers', String(q.id)]} label={q.question} rules={[{ required: true, message: '请填写答案' }]}>
+                  <Input placeholder="请输入答案" />
+                </Form.Item>
+              ))
+            )}
+            <Button type="primary" htmlType="submit" block loading={loading}>验证</Button>
+          </Form>
+        )}
+
+        {step === 2 && (
+          <Form form={resetForm} layout="vertical" size="large" onFinish={(v) => void handleReset(v)}>
+            <Form.Item
+              name="password"
+              rules={[
+                { required: true, message: '请输入新密码' },
+                { min: 8, message: '密码至少8个字符' },
+                { pattern: /(?=.*[A-Za-z])(?=.*\d)/, message: '密码需包含字母和数字' },
+              ]}
+            >
+              <Input.Password prefix={<LockOutlined />} placeholder="新密码" autoComplete="new-password" />
+            </Form.Item>
+            <Form.Item
+              name="confirm"
+              dependencies={['password']}
+              rules={[
+                { required: true, message: '请再次输入新密码' },
+                ({ getFieldValue }) => ({
+                  validator: (_, value) =>
+                    !value || getFieldValue('password') === value ? Promise.resolve() : Promise.reject(new Error('两次输入的密码不一致')),
+                }),
+              ]}
+            >
+              <Input.Password prefix={<LockOutlined />} placeholder="确认新密码" autoComplete="new-password" />
+            </Form.Item>
+            <Button type="primary" htmlType="submit" block loading={loading}>重置密码</Button>
+          </Form>
+        )}
+
+        {step === 3 && (
+          <Result
+            status="success"
+            title="密码已重置"
+            subTitle={result?.revokedSessions ? `已退出 ${result.revokedSessions} 个登录会话，请使用新密码登录` : '请使用新密码登录'}
+            extra={<Link to="/login"><Button type="primary">返回登录</Button></Link>}
+          >
+            {result?.warning && <Alert type="warning" showIcon title="加密密钥需要处理" description={result.warning} />}
+          </Result>
+        )}
+
+        <div className="register-footer">
+          <Link to="/login" className="register-footer-link">返回登录</Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
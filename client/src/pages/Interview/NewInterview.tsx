@@ -20,7 +20,7 @@ import {
   theme
 } from 'antd';
 import logger from '../../utils/logger';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   UserOutlined, 
   MedicineBoxOutlined,
@@ -33,15 +33,19 @@ import {
   ArrowRightOutlined,
   InfoCircleOutlined,
   SaveOutlined,
-  LoadingOutlined
+  LoadingOutlined,
+  BookOutlined
 } from '@ant-design/icons';
 import dayjs, { type Dayjs } from 'dayjs';
 import LazyDatePicker from '../../components/lazy/LazyDatePicker';
-import api, { unwrapData } from '../../utils/api';
+import api, { unwrapData, getApiErrorMessage } from '../../utils/api';
 import { computeAgeDisplay, formatAgeText, normalizeAge } from '../../utils/age';
 import AgeDisplayView from './components/Editor/AgeDisplay';
 import HukouSelect from '../../components/HukouSelect';
 import BirthplaceSelect from '../../components/BirthplaceSelect';
+import DuplicatePatientModal from './components/DuplicatePatient/DuplicatePatientModal';
+import FollowUpCard from './components/FollowUp/FollowUpCard';
+import type { DuplicatePatientCandidate } from '../../types/patient';
 import './NewInterview.css';
 
 const { Title, Text } = Typography;
@@ -85,6 +89,32 @@ interface PatientBasicInfo {
   recordTime?: Dayjs;
 }
 
+/**
+ * 病例任务（学生视角，不含预期要点）
+ */
+interface CaseAssignment {
+  id: number;
+  title: string;
+  dueAt: string;
+  scenario: {
+    patientName?: string;
+    gender?: string;
+    age?: number;
+    chiefComplaint: string;
+    background?: string;
+  };
+}
+
+/**
+ * 教学病例摘要（练习时使用的虚拟患者，不含标准答案）
+ */
+interface TeachingCaseSummary {
+  id: number;
+  title: string;
+  scenario: string | null;
+  demographics: { name: string; gender: string; age: number };
+}
+
 /**
  * 表单步骤配置
  */
@@ -145,9 +175,16 @@ const NewInterview: React.FC = () => {
   const { token } = theme.useToken();
   const [form] = Form.useForm();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const assignmentId = Number(searchParams.get('assignmentId')) || undefined;
+  const [assignment, setAssignment] = useState<CaseAssignment | null>(null);
+  const [teachingCases, setTeachingCases] = useState<TeachingCaseSummary[]>([]);
+  const [teachingCaseId, setTeachingCaseId] = useState<number>();
+  const [startingPractice, setStartingPractice] = useState(false);
   const [loading, setLoading] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'synced' | 'error'>('idle');
+  const [duplicates, setDuplicates] = useState<{ values: PatientBasicInfo; candidates: DuplicatePatientCandidate[] } | null>(null);
   
   // 监听表单字段变化
   const birthDate = Form.useWatch('birthDate', form);
@@ -205,6 +242,65 @@ const NewInterview: React.FC = () => {
     }
   }, [birthDate, recordTime, ageYears, ageMonthsPart, form]);
 
+  /**
+   * 按病例任务问诊时加载任务情景，并预填患者姓名与性别
+   */
+  useEffect(() => {
+    if (!assignmentId) return;
+    (async () => {
+      try {
+        const res = await api.get(`/assignments/${assignmentId}`) as unknown as import('../../utils/api').ApiResponse<CaseAssignment>;
+        const data = unwrapData<CaseAssignment>(res);
+        if (!data) return;
+        setAssignment(data);
+        form.setFieldsValue({
+          name: form.getFieldValue('name') || data.scenario.patientName,
+          gender: form.getFieldValue('gender') || data.scenario.gender,
+        });
+      } catch (error) {
+        logger.error('[NewInterview] 加载病例任务失败:', error);
+        message.error('加载病例任务失败');
+      }
+    })();
+  }, [assignmentId, form, message]);
+
+  /**
+   * 加载教学病例库，可选择病例直接开始练习
+   */
+  useEffect(() => {
+    if (assignmentId) return;
+    (async () => {
+      try {
+        const res = await api.get('/teaching-cases') as unknown as import('../../utils/api').ApiResponse<TeachingCaseSummary[]>;
+        setTeachingCases(unwrapData<TeachingCaseSummary[]>(res) || []);
+      } catch (error) {
+        logger.warn('[NewInterview] 加载教学病例失败:', error);
+      }
+    })();
+  }, [assignmentId]);
+
+  /**
+   * 由教学病例创建练习会话（使用模拟患者，无需录入真实患者信息）
+   */
+  const handleStartPractice = async () => {
+    if (!teachingCaseId) return;
+    setStartingPractice(true);
+    try {
+      const res = await api.post(`/teaching-cases/${teachingCaseId}/practice`) as unknown as import('../../utils/api').ApiResponse<{ sessionId: number }>;
+      const data = unwrapData<{ sessionId: number }>(res);
+      if (!data) throw new Error('练习会话创建失败');
+      message.success('已由教学病例创建练习会话');
+      navigate(`/interview/${data.sessionId}`);
+    } catch (error) {
+      logger.error('[NewInterview] 开始病例练习失败:', error);
+      message.error(getApiErrorMessage(error, '开始病例练习失败'));
+    } finally {
+      setStartingPractice(false);
+    }
+  };
+
+  const selectedTeachingCase = teachingCases.find(c => c.id === teachingCaseId);
+
   /**
    * 当陈述者为本人时，清空关系字段
    */
@@ -225,17 +321,10 @@ const NewInterview: React.FC = () => {
   }, [birthDate, recordTime]);
 
   /**
-   * 表单提交处理
-   * 创建患者和会话，数据结构与 GeneralSection 保持一致
+   * 创建患者；服务端查重命中疑似重复患者时弹出提示并返回 null
    */
-  const onFinish = async (values: PatientBasicInfo) => {
-    setLoading(true);
-    setSyncStatus('syncing');
-    
+  const createPatientRecord = async (values: PatientBasicInfo, ignoreDuplicates?: boolean): Promise<string | null> => {
     try {
-
-      
-      // 1. 创建患者
       const patientRes = await api.post('/patients', {
         name: values.name,
         gender: values.gender,
@@ -246,15 +335,45 @@ const NewInterview: React.FC = () => {
         address: values.address,
         occupation: values.occupation,
         employer: values.employer,
-        contactInfo: { phone: values.phone }
+        contactInfo: { phone: values.phone },
+        ignoreDuplicates,
       }) as unknown as import('../../utils/api').ApiResponse<{ id: string }>;
 
       const patientData = unwrapData<{ id: string }>(patientRes);
       if (!patientData) {
         throw new Error('患者创建失败');
       }
+      return patientData.id;
+    } catch (err) {
+      const response = (err as { response?: { status?: number; data?: { data?: { candidates?: DuplicatePatientCandidate[] } } } }).response;
+      const candidates = response?.status === 409 ? response.data?.data?.candidates : undefined;
+      if (candidates && candidates.length > 0) {
+        setDuplicates({ values, candidates });
+        return null;
+      }
+      throw err;
+    }
+  };
 
-      const patientId = patientData.id;
+  /**
+   * 表单提交处理
+   * 创建患者和会话，数据结构与 GeneralSection 保持一致；
+   * 指定 existingPatientId 时沿用已有患者开始问诊
+   */
+  const onFinish = async (
+    values: PatientBasicInfo,
+    options: { existingPatientId?: number; ignoreDuplicates?: boolean } = {}
+  ) => {
+    setLoading(true);
+    setSyncStatus('syncing');
+    
+    try {
+      // 1. 创建患者（或沿用已有患者）
+      const patientId = options.existingPatientId ?? await createPatientRecord(values, options.ignoreDuplicates);
+      if (patientId === null) {
+        setSyncStatus('idle');
+        return;
+      }
 
       // 2. 创建会话 - 使用与 GeneralSection 一致的数据结构
       try {
@@ -264,6 +383,7 @@ const NewInterview: React.FC = () => {
         const sessionRes = await api.post('/sessions', {
           patientId: patientId,
           ...sessionData,
+          assignmentId,
           // 确保数据同步标记
           syncVersion: Date.now()
         }) as unknown as import('../../utils/api').ApiResponse<{ id: string }>;
@@ -280,6 +400,11 @@ const NewInterview: React.FC = () => {
         }
       } catch (err) {
         logger.error('[NewInterview] 创建会话失败:', err);
+        if (options.existingPatientId) {
+          message.error(getApiErrorMessage(err, '会话创建失败'));
+          setSyncStatus('error');
+          return;
+        }
         // 回滚患者记录
         try {
           await api.delete(`/patients/${patientId}`) as unknown as import('../../utils/api').ApiResponse;
@@ -457,6 +582,61 @@ const NewInterview: React.FC = () => {
         </div>
       )}
 
+      {/* 病例任务情景 */}
+      {assignment && (
+        <div style={{ maxWidth: 800, margin: '0 auto 16px' }}>
+          <Alert
+            type="info"
+            showIcon
+            message={`病例任务：${assignment.title}（截止 ${dayjs(assignment.dueAt).format('YYYY-MM-DD HH:mm')}）`}
+            description={
+              <div style={{ whiteSpace: 'pre-line' }}>
+                {[
+                  `主诉：${assignment.scenario.chiefComplaint}`,
+                  assignment.scenario.age !== undefined ? `年龄：${assignment.scenario.age}岁` : '',
+                  assignment.scenario.background ?? '',
+                ].filter(Boolean).join('\n')}
+              </div>
+            }
+          />
+        </div>
+      )}
+
+      {/* 教学病例练习 */}
+      {!assignment && teachingCases.length > 0 && (
+        <div style={{ maxWidth: 800, margin: '0 auto 16px' }}>
+          <Card size="small" title={<Space><BookOutlined />从教学病例开始练习</Space>}>
+            <Space.Compact style={{ width: '100%' }}>
+              <Select
+                style={{ width: '100%' }}
+                placeholder="选择教学病例"
+                value={teachingCaseId}
+                onChange={setTeachingCaseId}
+                options={teachingCases.map(c => ({
+                  value: c.id,
+                  label: `${c.title}（${c.demographics.gender}，${c.demographics.age}岁）`,
+                }))}
+              />
+              <Button type="primary" disabled={!teachingCaseId} loading={startingPractice} onClick={handleStartPractice}>
+                开始练习
+              </Button>
+            </Space.Compact>
+            {selectedTeachingCase?.scenario && (
+              <Typography.Paragraph type="secondary" style={{ marginTop: 8, marginBottom: 0, whiteSpace: 'pre-line' }}>
+                {selectedTeachingCase.scenario}
+              </Typography.Paragraph>
+            )}
+          </Card>
+        </div>
+      )}
+
+      {/* 复诊：由上次就诊继续 */}
+      {!assignment && (
+        <div style={{ maxWidth: 800, margin: '0 auto 16px' }}>
+          <FollowUpCard />
+        </div>
+      )}
+
       {/* 表单区域 */}
       <div className="form-container">
         <Form 
@@ -979,6 +1159,23 @@ const NewInterview: React.FC = () => {
           </Card>
         </Form>
       </div>
+
+      <DuplicatePatientModal
+        open={!!duplicates}
+        candidates={duplicates?.candidates || []}
+        loading={loading}
+        onCancel={() => setDuplicates(null)}
+        onUseExisting={(patientId) => {
+          const values = duplicates?.values;
+          setDuplicates(null);
+          if (values) void onFinish(values, { existingPatientId: patientId });
+        }}
+        onCreateAnyway={() => {
+          const values = duplicates?.values;
+          setDuplicates(null);
+          if (values) void onFinish(values, { ignoreDuplicates: true });
+        }}
+      />
     </div>
   );
 };
@@ -2,7 +2,7 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { App as AntdApp, Form, Button, Space, Tooltip, Popconfirm, Alert, theme, Spin } from 'antd';
 import LazyModal from '../../components/lazy/LazyModal';
-import { ArrowLeftOutlined, ArrowRightOutlined, EyeOutlined, FilePdfOutlined, FileWordOutlined, UndoOutlined, RobotOutlined } from '@ant-design/icons';
+import { ArrowLeftOutlined, ArrowRightOutlined, EyeOutlined, FilePdfOutlined, FileWordOutlined, UndoOutlined, RobotOutlined, CommentOutlined } from '@ant-design/icons';
 import dayjs, { type Dayjs } from 'dayjs';
 import LazyMarkdown from '../../components/LazyMarkdown';
 import api, { getBlob, type ApiResponse, unwrapData } from '../../utils/api';
@@ -13,6 +13,8 @@ import NavigationPanel from './components/Navigation/NavigationPanel';
 import type { SectionStatus } from './components/Navigation/NavigationPanel';
 import EditorPanel from './components/Editor/EditorPanel';
 import AssistantOverlay from './components/Assistant/AssistantOverlay';
+import VirtualPatientDrawer from './components/VirtualPatient/VirtualPatientDrawer';
+import RevisionHistoryDrawer from './components/Revision/RevisionHistoryDrawer';
 import { useAssistantStore, type ModuleKey, type KnowledgeContext } from '../../store/assistant.store';
 import { buildHpiNarrative } from '../../utils/narrative';
 
@@ -285,6 +287,8 @@ const Session: React.FC = () => {
   })));
   const [progress, setLocalProgress] = useState(0);
   const [showAssistant, setShowAssistant] = useState(false);
+  const [showVirtualPatient, setShowVirtualPatient] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
   const [error, setError] = useState<{ message: string; code?: string } | null>(null);
   const autoSaveDebounceRef = useRef<number | null>(null);
   const linkageCheckDebounceRef = useRef<number | null>(null);
@@ -780,8 +784,8 @@ const Session: React.FC = () => {
         if (typeof watchedAge === 'number' && Number.isFinite(watchedAge)) return Math.max(0, Math.floor(watchedAge));
         return undefined;
       })();
-      const sRes = await api.post('/diagnosis/suggest', { symptoms: names, age: normalizedAge, gender: watchedGender, sessionId }) as ApiResponse<string[]>;
-      const suggestions = unwrapData<string[]>(sRes);
+      const sRes = await api.post('/diagnosis/suggest', { symptoms: names, age: normalizedAge, gender: watchedGender, sessionId }) as ApiResponse<{ diagnoses: Array<{ name: string }> }>;
+      const suggestions = (unwrapData<{ diagnoses: Array<{ name: string }> }>(sRes)?.diagnoses || []).map(d => d.name);
       if (Array.isArray(suggestions) && suggestions.length > 0) {
         setDiagnosisSuggestions(suggestions);
         setPanel({ diseases: suggestions });
@@ -892,8 +896,8 @@ const Session: React.FC = () => {
             if (typeof watchedAge === 'number' && Number.isFinite(watchedAge)) return Math.max(0, Math.floor(watchedAge));
             return undefined;
           })();
-          const sRes = await api.post('/diagnosis/suggest', { symptoms: names, age: normalizedAge, gender: watchedGender, sessionId }) as ApiResponse<string[]>;
-          const suggestions = unwrapData<string[]>(sRes);
+          const sRes = await api.post('/diagnosis/suggest', { symptoms: names, age: normalizedAge, gender: watchedGender, sessionId }) as ApiResponse<{ diagnoses: Array<{ name: string }> }>;
+          const suggestions = (unwrapData<{ diagnoses: Array<{ name: string }> }>(sRes)?.diagnoses || []).map(d => d.name);
           if (Array.isArray(suggestions) && suggestions.length > 0) {
             setDiagnosisSuggestions(suggestions);
             setPanel({ diseases: suggestions });
@@ -2100,6 +2104,9 @@ const Session: React.FC = () => {
       const s = String(raw || '').toLowerCase();
       if (s === 'completed') return { label: '已完成', cls: 'status-positive' };
       if (s === 'archived') return { label: '已归档', cls: 'status-neutral' };
+      if (s === 'submitted') return { label: '待审核', cls: 'status-neutral' };
+      if (s === 'returned') return { label: '已退回', cls: 'status-neutral' };
+      if (s === 'approved') return { label: '审核通过', cls: 'status-positive' };
       return { label: '草稿', cls: 'status-neutral' };
     };
 
@@ -2695,6 +2702,9 @@ const Session: React.FC = () => {
       const s = String(raw || '').toLowerCase();
       if (s === 'completed') return '已完成';
       if (s === 'archived') return '已归档';
+      if (s === 'submitted') return '待审核';
+      if (s === 'returned') return '已退回';
+      if (s === 'approved') return '审核通过';
       return '草稿';
     };
 
@@ -3196,6 +3206,46 @@ const Session: React.FC = () => {
     }
   }, [id, isValidId, message, sessionStatus, handleSave]);
 
+  /**
+   * 虚拟病人问诊结束后，将服务端补入病历的字段同步到表单
+   */
+  const handleVirtualPatientFinished = useCallback(async (filledFields: string[]) => {
+    if (!id || filledFields.length === 0) return;
+    try {
+      const res = await api.get(`/sessions/${id}`) as ApiResponse<SessionRes>;
+      const data = unwrapData<SessionRes>(res) as unknown as Record<string, unknown> | undefined;
+      if (!data) return;
+      filledFields.forEach(field => {
+        const path = field.split('.');
+        const value = path.reduce<unknown>(
+          (acc, key) => (acc && typeof acc === 'object' ? (acc as Record<string, unknown>)[key] : undefined),
+          data
+        );
+        form.setFieldValue(path, value);
+      });
+      if (filledFields.includes('presentIllness.narrative')) {
+        form.setFieldValue(['presentIllness', 'narrativeSource'], 'manual');
+      }
+    } catch (error) {
+      logger.error('[Session] 同步虚拟病人问诊内容失败:', error);
+    }
+  }, [id, form]);
+
+  /**
+   * 恢复修订后用服务端内容刷新对应章节
+   */
+  const handleRevisionRestored = useCallback(async (sections: string[]) => {
+    if (!id) return;
+    try {
+      const res = await api.get(`/sessions/${id}`) as ApiResponse<SessionRes>;
+      const data = unwrapData<SessionRes>(res) as unknown as Record<string, unknown> | undefined;
+      if (!data) return;
+      sections.forEach(section => form.setFieldValue(section, data[section] ?? undefined));
+    } catch (error) {
+      logger.error('[Session] 同步恢复的修订内容失败:', error);
+    }
+  }, [id, form]);
+
   // Auto-save logic
   useEffect(() => {
      const timer = setInterval(() => {
@@ -3548,6 +3598,37 @@ const Session: React.FC = () => {
 
                 <AssistantOverlay open={showAssistant} onClose={() => setShowAssistant(false)} />
 
+                {isValidId && id && (
+                  <>
+                    <div style={{ position: 'fixed', right: 28, bottom: 160, zIndex: 40 }}>
+                      <Tooltip title="与虚拟标准化病人对话练习问诊">
+                        <Button shape="round" size="large" icon={<CommentOutlined />} onClick={() => setShowVirtualPatient(true)}>
+                          虚拟病人
+                        </Button>
+                      </Tooltip>
+                    </div>
+                    <VirtualPatientDrawer
+                      open={showVirtualPatient}
+                      sessionId={id}
+                      onClose={() => setShowVirtualPatient(false)}
+                      onFinished={filled => void handleVirtualPatientFinished(filled)}
+                    />
+                    <div style={{ position: 'fixed', right: 28, bottom: 220, zIndex: 40 }}>
+                      <Tooltip title="查看每次保存的修改，比较或恢复之前的版本">
+                        <Button shape="round" size="large" icon={<HistoryOutlined />} onClick={() => setShowRevisions(true)}>
+                          修订历史
+                        </Button>
+                      </Tooltip>
+                    </div>
+                    <RevisionHistoryDrawer
+                      open={showRevisions}
+                      sessionId={id}
+                      onClose={() => setShowRevisions(false)}
+                      onRestored={sections => void handleRevisionRestored(sections)}
+                    />
+                  </>
+                )}
+
                 <LazyModal
                   title={
                     <div style={{ textAlign: 'center', fontSize: '18px', fontWeight: 600, color: '#1e40af' }}>
@@ -0,0 +1,81 @@
+/**
+ * 疑似重复患者提示
+ * 新建患者前服务端查重命中时列出候选患者，可直接使用已有患者开始问诊或确认仍然新建
+ */
+
+import React from 'react';
+import { Button, List, Modal, Progress, Space, Tag, Typography } from 'antd';
+import dayjs from 'dayjs';
+import type { DuplicatePatientCandidate, DuplicateMatchField } from '../../../../types/patient';
+import { displayPatientField } from '../../../Patients/patientDisplay';
+
+const MATCH_LABELS: Record<DuplicateMatchField, string> = {
+  name: '姓名相同',
+  pinyin: '姓名读音相同',
+  birthDate: '出生日期相同',
+  gender: '性别相同',
+  phone: '电话相同',
+};
+
+interface DuplicatePatientModalProps {
+  open: boolean;
+  candidates: DuplicatePatientCandidate[];
+  loading?: boolean;
+  onUseExisting: (patientId: number) => void;
+  onCreateAnyway: () => void;
+  onCancel: () => void;
+}
+
+const DuplicatePatientModal: React.FC<DuplicatePatientModalProps> = ({
+  open,
+  candidates,
+  loading,
+  onUseExisting,
+  onCreateAnyway,
+  onCancel,
+}) => (
+  <Modal
+    title="发现疑似重复的患者"
+    open={open}
+    onCancel={onCancel}
+    footer={[
+      <Button key="cancel" onClick={onCancel}>返回修改</Button>,
+      <Button key="create" loading={loading} onClick={onCreateAnyway}>仍然新建患者</Button>,
+    ]}
+  >
+    <Typography.Paragraph type="secondary">
+      以下已有患者与填写的信息相似，如为同一患者请直接使用已有患者开始问诊。
+    </Typography.Paragraph>
+    <List
+      dataSource={candidates}
+      renderItem={candidate => (
+        <List.Item
+          actions={[
+            <Button key="use" type="primary" size="small" disabled={loading} onClick={() => onUseExisting(candidate.id)}>
+              使用已有患者
+            </Button>,
+          ]}
+        >
+          <Space align="start">
+            <Progress type="circle" size={44} percent={candidate.score} format={p => `${p}`} />
+            <div>
+              <Typography.Text strong>{displayPatientField(candidate.name)}</Typography.Text>
+              <Typography.Text type="secondary" style={{ marginLeft: 8 }}>
+                {[
+                  candidate.gender,
+                  candidate.birthDate ? dayjs(candidate.birthDate).format('YYYY-MM-DD') : null,
+                  `问诊 ${candidate.sessionCount} 次`,
+                ].filter(Boolean).join(' / ')}
+              </Typography.Text>
+              <div style={{ marginTop: 4 }}>
+                {candidate.matchedOn.map(field => <Tag key={field}>{MATCH_LABELS[field]}</Tag>)}
+              </div>
+            </div>
+          </Space>
+        </List.Item>
+      )}
+    />
+  </Modal>
+);
+
+export default DuplicatePatientModal;
@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { App as AntdApp, Form, Input, Radio, Checkbox, Row, Col, Typography, Card, Select, Collapse, Timeline, Button, Space, InputNumber, theme } from 'antd';
+import { App as AntdApp, Form, Input, Radio, Checkbox, Row, Col, Typography, Card, Select, Collapse, Timeline, Button, Space, InputNumber, Tag, theme } from 'antd';
 import LazyModal from '../../../../components/lazy/LazyModal';
 import { ClockCircleOutlined, PlusOutlined, SyncOutlined, ArrowUpOutlined, ArrowDownOutlined, DeleteOutlined } from '@ant-design/icons';
 import api, { unwrapData, type ApiResponse } from '../../../../utils/api';
@@ -54,6 +54,26 @@ const symptomKeyToSystemMap: Record<string, string | string[]> = {
   'arthralgia': 'musculoskeletal', // 关节痛
 };
 
+/**
+ * 后端从现病史叙述抽取的字段建议（value 与表单字段取值一致）
+ */
+type HpiProposal = {
+  field: 'onsetMode' | 'location' | 'quality' | 'severity' | 'factors' | 'associatedSymptoms' | 'negativeSymptoms';
+  value: string | string[];
+  display: string;
+  spans: Array<{ start: number; end: number; text: string }>;
+};
+
+const HPI_FIELD_LABELS: Record<HpiProposal['field'], string> = {
+  onsetMode: '起病形式',
+  location: '部位',
+  quality: '性质',
+  severity: '程度',
+  factors: '加重或缓解因素',
+  associatedSymptoms: '伴随症状',
+  negativeSymptoms: '重要阴性',
+};
+
 const SeverityBlocks: React.FC<{ value?: string; onChange?: (v: string) => void }> = ({ value, onChange }) => {
   const current = String(value || '');
   const selectedCount = current === 'mild' ? 2 : current === 'moderate' ? 3 : current === 'severe' ? 5 : 0;
@@ -134,6 +154,8 @@ const HPISection: React.FC = () => {
   const [addDate, setAddDate] = useState(dayjs().format('YYYY-MM-DD'));
   const [addInstitution, setAddInstitution] = useState('');
   const [addTreatment, setAddTreatment] = useState('');
+  const [hpiProposals, setHpiProposals] = useState<HpiProposal[]>([]);
+  const [extractingHpi, setExtractingHpi] = useState(false);
   
   // 标记用户是否手动修改过伴随症状描述，避免自动覆盖
   const userModifiedAssocSymptomsRef = useRef<boolean>(false);
@@ -190,6 +212,47 @@ const HPISection: React.FC = () => {
     return buildHpiNarrative(values, mainSymptom, labelByKey);
   }, [onsetTime, onsetMode, trigger, location, quality, severity, durationDetails, factors, associatedSymptoms, associatedSymptomsDetails, negativeSymptoms, treatmentHistory, admissionDiagnosis, spirit, appetite, sleep, strength, weight, weight_change_jin, urine_stool, evolution, labelByKey, form]);
 
+  /**
+   * 从现病史叙述中抽取结构化字段建议，供逐项采纳
+   */
+  const handleExtractHpi = async () => {
+    const text = String(form.getFieldValue(['presentIllness', 'narrative']) || '').trim();
+    if (!text) {
+      message.warning('请先填写现病史叙述');
+      return;
+    }
+    setExtractingHpi(true);
+    try {
+      const mainSymptom = form.getFieldValue(['chiefComplaint', 'symptom']);
+      const res = await api.post('/nlp/hpi/extract', { narrative: text, mainSymptom }) as ApiResponse<{ proposals: HpiProposal[] } | { data: { proposals: HpiProposal[] } }>;
+      const proposals = unwrapData<{ proposals: HpiProposal[] }>(res)?.proposals || [];
+      setHpiProposals(proposals);
+      if (proposals.length === 0) message.info('未从叙述中识别到可填写的字段');
+    } catch (error) {
+      logger.error('[HPISection] 抽取现病史字段失败', error);
+      message.error('字段提取失败');
+    } finally {
+      setExtractingHpi(false);
+    }
+  };
+
+  /**
+   * 采纳单条字段建议：多选字段与已有值合并，其余字段直接覆盖
+   */
+  const acceptHpiProposal = (proposal: HpiProposal) => {
+    const path = ['presentIllness', proposal.field];
+    if (Array.isArray(proposal.value)) {
+      const existing: string[] = form.getFieldValue(path) || [];
+      const incoming = proposal.field === 'associatedSymptoms'
+        ? proposal.value.filter(key => labelByKey[key])
+        : proposal.value;
+      form.setFieldValue(path, Array.from(new Set([...existing, ...incoming])));
+    } else {
+      form.setFieldValue(path, proposal.value);
+    }
+    setHpiProposals(prev => prev.filter(p => p.field !== proposal.field));
+  };
+
   useEffect(() => {
     if ((!evolution || String(evolution).trim() === '') && legacyEvolution && String(legacyEvolution).trim() !== '') {
       form.setFieldValue(['presentIllness', 'hpi_evolution'], legacyEvolution);
@@ -969,6 +1032,9 @@ const HPISection: React.FC = () => {
           >
             生成草稿
           </Button>
+          <Button type="link" size="small" loading={extractingHpi} onClick={handleExtractHpi}>
+            从叙述提取字段
+          </Button>
         </div>
         <Form.Item
           name={['presentIllness', 'narrative']}
@@ -986,6 +1052,23 @@ const HPISection: React.FC = () => {
             placeholder={`  患者【具体时间】前，在【诱因】后【急性/缓慢】起病，初起表现为【核心症状/核心特点】。【按时间顺序叙述演变】：随后（或【某个时间点】后），病情逐渐【加重/减轻】，并出现【伴随症状】。曾于【时间】在【地点】就诊，予【具体治疗】（或行【检查】，结果示：【关键结果】），但症状【缓解情况】。为求进一步诊治，遂来我院就诊。门诊以“[***]”收入我科\n  发病以来，患者精神【状态】、食欲【变化】、睡眠【影响】、大小便【情况】、体重【有无明显变化】。`}
           />
         </Form.Item>
+        {hpiProposals.length > 0 && (
+          <div style={{ marginTop: 12 }}>
+            <Space style={{ marginBottom: 8 }}>
+              <Text strong>字段建议</Text>
+              <Button size="small" onClick={() => hpiProposals.forEach(acceptHpiProposal)}>全部采纳</Button>
+              <Button size="small" type="text" onClick={() => setHpiProposals([])}>忽略</Button>
+            </Space>
+            {hpiProposals.map(proposal => (
+              <div key={proposal.field} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+                <Tag color="blue">{HPI_FIELD_LABELS[proposal.field]}</Tag>
+                <Text>{proposal.display}</Text>
+                <Text type="secondary">原文：{proposal.spans.map(span => `「${span.text}」`).join(' ')}</Text>
+                <Button size="small" type="link" onClick={() => acceptHpiProposal(proposal)}>采纳</Button>
+              </div>
+            ))}
+          </div>
+        )}
       </Card>
       <LazyModal
         title="添加诊治节点"
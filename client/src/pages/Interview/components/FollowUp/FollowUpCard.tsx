@@ -0,0 +1,123 @@
+/**
+ * 从上次就诊继续（复诊）
+ * 选择已有患者及其上次就诊，创建归入同一诊疗经过的复诊会话；既往史、个人史与家族史由上次就诊带入
+ */
+
+import React, { useEffect, useState } from 'react';
+import { App as AntdApp, Button, Card, Select, Space, Typography } from 'antd';
+import { HistoryOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import dayjs from 'dayjs';
+import api, { getApiErrorMessage, unwrapData } from '../../../../utils/api';
+import type { ApiResponse } from '../../../../utils/api';
+import logger from '../../../../utils/logger';
+import type { PatientRecord, PatientTimelineEntry } from '../../../../types/patient';
+import { displayPatientField } from '../../../Patients/patientDisplay';
+
+const FollowUpCard: React.FC = () => {
+  const { message } = AntdApp.useApp();
+  const navigate = useNavigate();
+  const [patients, setPatients] = useState<PatientRecord[]>([]);
+  const [patientId, setPatientId] = useState<number>();
+  const [visits, setVisits] = useState<PatientTimelineEntry[]>([]);
+  const [loadingVisits, setLoadingVisits] = useState(false);
+  const [previousSessionId, setPreviousSessionId] = useState<number>();
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await api.get('/patients') as ApiResponse<{ patients: PatientRecord[] }>;
+        setPatients(unwrapData<{ patients: PatientRecord[] }>(res)?.patients || []);
+      } catch (error) {
+        logger.warn('[FollowUpCard] 加载患者列表失败:', error);
+      }
+    })();
+  }, []);
+
+  /**
+   * 选择患者后加载其就诊记录，默认选中最近一次
+   */
+  const handlePatientChange = async (id: number) => {
+    setPatientId(id);
+    setVisits([]);
+    setPreviousSessionId(undefined);
+    setLoadingVisits(true);
+    try {
+      const res = await api.get(`/patients/${id}/timeline`) as ApiResponse<PatientTimelineEntry[]>;
+      const list = unwrapData<PatientTimelineEntry[]>(res) || [];
+      setVisits(list);
+      setPreviousSessionId(list[0]?.sessionId);
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '加载就诊记录失败'));
+    } finally {
+      setLoadingVisits(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!previousSessionId) return;
+    setStarting(true);
+    try {
+      const res = await api.post('/episodes/follow-up', { previousSessionId }) as ApiResponse<{ sessionId: number }>;
+      const data = unwrapData<{ sessionId: number }>(res);
+      if (!data) throw new Error('复诊会话创建失败');
+      message.success('已创建复诊会话，既往史、个人史与家族史已由上次就诊带入');
+      navigate(`/interview/${data.sessionId}`);
+    } catch (error) {
+      logger.error('[FollowUpCard] 创建复诊会话失败:', error);
+      message.error(getApiErrorMessage(error, '创建复诊会话失败'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const visitLabel = (v: PatientTimelineEntry) =>
+    [
+      dayjs(v.createdAt).format('YYYY-MM-DD'),
+      v.visitType === 'followup' ? '复诊' : '首诊',
+      v.encrypted ? '病历已加密' : v.chiefComplaint || '未记录主诉',
+    ].join(' / ');
+
+  if (patients.length === 0) return null;
+
+  return (
+    <Card size="small" title={<Space><HistoryOutlined />从上次就诊继续（复诊）</Space>}>
+      <Space orientation="vertical" style={{ width: '100%' }}>
+        <Select
+          showSearch
+          style={{ width: '100%' }}
+          placeholder="选择患者"
+          value={patientId}
+          onChange={id => void handlePatientChange(id)}
+          optionFilterProp="label"
+          options={patients.map(p => ({
+            value: p.id,
+            label: [displayPatientField(p.name), p.gender, p.birthDate ? dayjs(p.birthDate).format('YYYY-MM-DD') : null]
+              .filter(Boolean)
+              .join(' / '),
+          }))}
+        />
+        <Space.Compact style={{ width: '100%' }}>
+          <Select
+            style={{ width: '100%' }}
+            placeholder="选择上次就诊"
+            loading={loadingVisits}
+            disabled={!patientId}
+            value={previousSessionId}
+            onChange={setPreviousSessionId}
+            options={visits.map(v => ({ value: v.sessionId, label: visitLabel(v) }))}
+          />
+          <Button type="primary" disabled={!previousSessionId} loading={starting} onClick={() => void handleStart()}>
+            开始复诊
+          </Button>
+        </Space.Compact>
+        {patientId && !loadingVisits && visits.length === 0 && (
+          <Typography.Text type="secondary">该患者暂无可继续的就诊记录</Typography.Text>
+        )}
+      </Space>
+    </Card>
+  );
+};
+
+export default FollowUpCard;
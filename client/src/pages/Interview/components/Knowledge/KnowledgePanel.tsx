@@ -116,10 +116,10 @@ const KnowledgePanel: React.FC<KnowledgePanelProps> = ({
               age: normalizedAge,
               gender: patientInfo?.gender,
               sessionId
-          }) as import('../../../../utils/api').ApiResponse<string[] | { data: string[] }>;
-          const payload = unwrapData<string[]>(res);
-          if (Array.isArray(payload)) {
-              setDiagnosisSuggestions(payload);
+          }) as import('../../../../utils/api').ApiResponse<{ diagnoses: Array<{ name: string }> }>;
+          const payload = unwrapData<{ diagnoses: Array<{ name: string }> }>(res);
+          if (Array.isArray(payload?.diagnoses)) {
+              setDiagnosisSuggestions(payload.diagnoses.map(d => d.name));
               
           }
       } catch (error) {
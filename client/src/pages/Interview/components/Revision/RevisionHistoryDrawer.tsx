@@ -0,0 +1,223 @@
+/**
+ * 病历修订历史抽屉
+ * 列出每次保存的修改章节，比较任意两个修订的差异，并可恢复单个章节或整份病历
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { App as AntdApp, Button, Drawer, Empty, List, Popconfirm, Select, Space, Spin, Tag, Typography } from 'antd';
+import { DiffOutlined, RollbackOutlined } from '@ant-design/icons';
+import dayjs from 'dayjs';
+import api, { type ApiResponse, unwrapData, getApiErrorMessage } from '../../../../utils/api';
+import logger from '../../../../utils/logger';
+
+type PatchOperation =
+  | { op: 'add' | 'replace'; path: string; value: unknown }
+  | { op: 'remove'; path: string };
+
+interface RevisionSummary {
+  revision: number;
+  action: 'update' | 'restore';
+  restoredFrom: number | null;
+  operatorName: string | null;
+  sections: string[];
+  changeCounts: Record<string, number>;
+  createdAt: string;
+}
+
+interface RevisionDiff {
+  from: number;
+  to: number;
+  sections: Record<string, PatchOperation[]>;
+}
+
+const SECTION_LABELS: Record<string, string> = {
+  historian: '病史陈述者',
+  reliability: '可靠程度',
+  historianRelationship: '陈述者关系',
+  generalInfo: '一般项目',
+  chiefComplaint: '主诉',
+  presentIllness: '现病史',
+  pastHistory: '既往史',
+  personalHistory: '个人史',
+  maritalHistory: '婚姻史',
+  menstrualHistory: '月经史',
+  fertilityHistory: '生育史',
+  familyHistory: '家族史',
+  physicalExam: '体格检查',
+  specialistExam: '专科检查',
+  auxiliaryExams: '辅助检查',
+  reviewOfSystems: '系统回顾',
+};
+
+const OP_META: Record<PatchOperation['op'], { color: string; text: string }> = {
+  add: { color: 'green', text: '新增' },
+  remove: { color: 'red', text: '删除' },
+  replace: { color: 'blue', text: '修改' },
+};
+
+const sectionLabel = (key: string) => SECTION_LABELS[key] || key;
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '（空）';
+  if (typeof value === 'string') return value.startsWith('enc:') ? '（已加密）' : value;
+  return JSON.stringify(value);
+};
+
+interface RevisionHistoryDrawerProps {
+  open: boolean;
+  sessionId: string;
+  onClose: () => void;
+  /** 恢复后回调被恢复的章节，用于刷新表单 */
+  onRestored: (sections: string[]) => void;
+}
+
+const RevisionHistoryDrawer: React.FC<RevisionHistoryDrawerProps> = ({ open, sessionId, onClose, onRestored }) => {
+  const { message } = AntdApp.useApp();
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [from, setFrom] = useState<number>();
+  const [to, setTo] = useState<number>();
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.get(`/sessions/${sessionId}/revisions`) as ApiResponse<RevisionSummary[]>;
+      const list = unwrapData<RevisionSummary[]>(res) || [];
+      setRevisions(list);
+      setDiff(null);
+      // 默认比较最近一次保存与其上一修订
+      setTo(list[0]?.revision);
+      setFrom(list[0] ? list[0].revision - 1 : undefined);
+    } catch (error) {
+      logger.error('[RevisionHistory] 加载修订历史失败:', error);
+      message.error(getApiErrorMessage(error, '加载修订历史失败'));
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, message]);
+
+  useEffect(() => {
+    if (open) void load();
+  }, [open, load]);
+
+  const handleCompare = async () => {
+    if (from === undefined || to === undefined) return;
+    setComparing(true);
+    try {
+      const res = await api.get(`/sessions/${sessionId}/revisions/diff`, { params: { from, to } }) as ApiResponse<RevisionDiff>;
+      setDiff(unwrapData<RevisionDiff>(res) ?? null);
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '比较修订失败'));
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleRestore = async (revision: number, section?: string) => {
+    try {
+      const res = await api.post(`/sessions/${sessionId}/revisions/${revision}/restore`, section ? { section } : {}) as ApiResponse<{
+        revision: number | null;
+        sections: string[];
+      }>;
+      const result = unwrapData<{ revision: number | null; sections: string[] }>(res);
+      if (!result || result.sections.length === 0) {
+        message.info('内容与该修订一致，无需恢复');
+        return;
+      }
+      onRestored(result.sections);
+      message.success(`已恢复${result.sections.map(sectionLabel).join('、')}`);
+      void load();
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '恢复修订失败'));
+    }
+  };
+
+  const revisionOptions = [
+    ...revisions.map(r => ({ value: r.revision, label: `#${r.revision} ${dayjs(r.createdAt).format('MM-DD HH:mm:ss')}` })),
+    ...(revisions.length > 0 ? [{ value: 0, label: '#0 首次保存前' }] : []),
+  ];
+
+  return (
+    <Drawer title="修订历史" placement="right" size="large" open={open} onClose={onClose}>
+      <Spin spinning={loading}>
+        {revisions.length === 0 ? (
+          <Empty description="暂无修订记录" />
+        ) : (
+          <>
+            <Space.Compact style={{ width: '100%', marginBottom: 12 }}>
+              <Select style={{ width: '50%' }} value={from} onChange={setFrom} options={revisionOptions} placeholder="起始修订" />
+              <Select style={{ width: '50%' }} value={to} onChange={setTo} options={revisionOptions} placeholder="目标修订" />
+              <Button icon={<DiffOutlined />} loading={comparing} onClick={() => void handleCompare()}>比较</Button>
+            </Space.Compact>
+
+            {diff && (
+              <div style={{ marginBottom: 16 }}>
+                {Object.keys(diff.sections).length === 0 ? (
+                  <Typography.Text type="secondary">两个修订的内容相同</Typography.Text>
+                ) : (
+                  Object.entries(diff.sections).map(([section, ops]) => (
+                    <div key={section} style={{ marginBottom: 12 }}>
+                      <Space style={{ marginBottom: 4 }}>
+                        <Typography.Text strong>{sectionLabel(section)}</Typography.Text>
+                        <Popconfirm title={`将${sectionLabel(section)}恢复为修订 #${diff.to} 的内容？`} onConfirm={() => void handleRestore(diff.to, section)}>
+                          <Button size="small" type="link" icon={<RollbackOutlined />}>恢复此章节</Button>
+                        </Popconfirm>
+                      </Space>
+                      <List
+                        size="small"
+                        bordered
+                        dataSource={ops}
+                        renderItem={op => (
+                          <List.Item>
+                            <Space align="start">
+                              <Tag color={OP_META[op.op].color}>{OP_META[op.op].text}</Tag>
+                              <Typography.Text code>{op.path || '/'}</Typography.Text>
+                              {op.op !== 'remove' && <Typography.Text>{formatValue(op.value)}</Typography.Text>}
+                            </Space>
+                          </List.Item>
+                        )}
+                      />
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            <List
+              dataSource={revisions}
+              renderItem={r => (
+                <List.Item
+                  actions={[
+                    <Popconfirm key="restore" title={`将整份病历恢复为修订 #${r.revision} 保存后的内容？`} onConfirm={() => void handleRestore(r.revision)}>
+                      <Button size="small" icon={<RollbackOutlined />}>恢复</Button>
+                    </Popconfirm>,
+                  ]}
+                >
+                  <List.Item.Meta
+                    title={
+                      <Space wrap>
+                        <Typography.Text strong>#{r.revision}</Typography.Text>
+                        <Typography.Text type="secondary">{dayjs(r.createdAt).format('YYYY-MM-DD HH:mm:ss')}</Typography.Text>
+                        {r.operatorName && <Typography.Text type="secondary">{r.operatorName}</Typography.Text>}
+                        {r.action === 'restore' && <Tag color="purple">恢复自 #{r.restoredFrom}</Tag>}
+                      </Space>
+                    }
+                    description={
+                      <Space size={4} wrap>
+                        {r.sections.map(s => <Tag key={s}>{sectionLabel(s)} · {r.changeCounts[s] ?? 0}</Tag>)}
+                      </Space>
+                    }
+                  />
+                </List.Item>
+              )}
+            />
+          </>
+        )}
+      </Spin>
+    </Drawer>
+  );
+};
+
+export default RevisionHistoryDrawer;
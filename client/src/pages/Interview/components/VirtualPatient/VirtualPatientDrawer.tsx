@@ -0,0 +1,235 @@
+/**
+ * 虚拟标准化病人问诊抽屉
+ * 选择病例后向虚拟病人提问，结束时将问到的内容补入病历并显示必问问题覆盖
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { App as AntdApp, Button, Drawer, Empty, Input, List, Popconfirm, Progress, Select, Space, Spin, Tag, Typography, theme } from 'antd';
+import { CheckCircleOutlined, CloseCircleOutlined, SendOutlined, UserOutlined } from '@ant-design/icons';
+import api, { type ApiResponse, unwrapData, getApiErrorMessage } from '../../../../utils/api';
+import logger from '../../../../utils/logger';
+
+interface SpCaseSummary {
+  id: string;
+  title: string;
+  patient: { name: string; gender: string; age: number };
+  chiefComplaint: string;
+}
+
+interface SpMessage {
+  id: number;
+  question: string;
+  answer: string;
+  createdAt: string;
+}
+
+interface SpConversation {
+  id: number;
+  caseId: string;
+  status: 'active' | 'finished';
+  opening: string;
+  score: number | null;
+  result: {
+    coverage: { score: number | null; asked: number; total: number; items: Array<{ question: string; asked: boolean }> };
+    filledFields: string[];
+  } | null;
+  messages: SpMessage[];
+}
+
+interface VirtualPatientDrawerProps {
+  open: boolean;
+  sessionId: string;
+  onClose: () => void;
+  /** 结束问诊后回调本次补入病历的字段路径 */
+  onFinished: (filledFields: string[]) => void;
+}
+
+const VirtualPatientDrawer: React.FC<VirtualPatientDrawerProps> = ({ open, sessionId, onClose, onFinished }) => {
+  const { token } = theme.useToken();
+  const { message } = AntdApp.useApp();
+  const [cases, setCases] = useState<SpCaseSummary[]>([]);
+  const [caseId, setCaseId] = useState<string>();
+  const [conversation, setConversation] = useState<SpConversation | null>(null);
+  const [question, setQuestion] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const listEndRef = useRef<HTMLDivElement>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [casesRes, convRes] = await Promise.all([
+        api.get('/sessions/sp-cases') as Promise<ApiResponse<SpCaseSummary[]>>,
+        api.get(`/sessions/${sessionId}/sp`) as Promise<ApiResponse<SpConversation | null>>,
+      ]);
+      setCases(unwrapData<SpCaseSummary[]>(casesRes) || []);
+      setConversation(unwrapData<SpConversation | null>(convRes) ?? null);
+    } catch (error) {
+      logger.error('[VirtualPatient] 加载虚拟病人问诊失败:', error);
+      message.error(getApiErrorMessage(error, '加载虚拟病人问诊失败'));
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, message]);
+
+  useEffect(() => {
+    if (open) void load();
+  }, [open, load]);
+
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [conversation?.messages.length]);
+
+  const handleStart = async () => {
+    if (!caseId) return;
+    try {
+      const res = await api.post(`/sessions/${sessionId}/sp/start`, { caseId }) as ApiResponse<SpConversation>;
+      setConversation(unwrapData<SpConversation>(res) ?? null);
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '开始虚拟病人问诊失败'));
+    }
+  };
+
+  const handleSend = async () => {
+    const text = question.trim();
+    if (!text || !conversation) return;
+    setSending(true);
+    try {
+      const res = await api.post(`/sessions/${sessionId}/sp/messages`, { question: text }) as ApiResponse<SpMessage>;
+      const reply = unwrapData<SpMessage>(res);
+      if (reply) {
+        setConversation({ ...conversation, messages: [...conversation.messages, reply] });
+        setQuestion('');
+      }
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '虚拟病人回答失败'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleFinish = async () => {
+    try {
+      const res = await api.post(`/sessions/${sessionId}/sp/finish`) as ApiResponse<SpConversation>;
+      const finished = unwrapData<SpConversation>(res);
+      if (finished) {
+        setConversation(finished);
+        const filled = finished.result?.filledFields || [];
+        onFinished(filled);
+        message.success(filled.length > 0 ? `问诊结束，已补入 ${filled.length} 项病历内容` : '问诊结束');
+      }
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '结束虚拟病人问诊失败'));
+    }
+  };
+
+  const bubble = (text: string, fromPatient: boolean) => (
+    <div style={{ display: 'flex', justifyContent: fromPatient ? 'flex-start' : 'flex-end', marginBottom: 8 }}>
+      <div
+        style={{
+          maxWidth: '80%',
+          padding: '8px 12px',
+          borderRadius: 10,
+          background: fromPatient ? token.colorFillTertiary : token.colorPrimaryBg,
+          whiteSpace: 'pre-wrap',
+        }}
+      >
+        {fromPatient && <UserOutlined style={{ marginRight: 6, color: token.colorTextSecondary }} />}
+        {text}
+      </div>
+    </div>
+  );
+
+  const active = conversation?.status === 'active';
+  const coverage = conversation?.status === 'finished' ? conversation.result?.coverage : undefined;
+
+  return (
+    <Drawer
+      title="虚拟病人问诊"
+      placement="right"
+      size="large"
+      open={open}
+      onClose={onClose}
+      extra={active ? (
+        <Popconfirm title="结束问诊并将问到的内容补入病历？" onConfirm={handleFinish}>
+          <Button type="primary">结束问诊</Button>
+        </Popconfirm>
+      ) : null}
+    >
+      <Spin spinning={loading}>
+        {!active && (
+          <Space.Compact style={{ width: '100%', marginBottom: 16 }}>
+            <Select
+              style={{ width: '100%' }}
+              placeholder="选择病例"
+              value={caseId}
+              onChange={setCaseId}
+              options={cases.map(c => ({
+                value: c.id,
+                label: `${c.title}（${c.patient.gender}，${c.patient.age}岁）`,
+              }))}
+            />
+            <Button type="primary" disabled={!caseId} onClick={handleStart}>开始问诊</Button>
+          </Space.Compact>
+        )}
+
+        {coverage && (
+          <div style={{ marginBottom: 16 }}>
+            <Space align="center" size="large">
+              <Progress type="circle" size={72} percent={coverage.score ?? 0} format={() => coverage.score ?? '-'} />
+              <Typography.Text>必问问题覆盖 {coverage.asked}/{coverage.total}</Typography.Text>
+            </Space>
+            <List
+              size="small"
+              style={{ marginTop: 12 }}
+              dataSource={coverage.items}
+              renderItem={item => (
+                <List.Item>
+                  <Space>
+                    {item.asked
+                      ? <CheckCircleOutlined style={{ color: token.colorSuccess }} />
+                      : <CloseCircleOutlined style={{ color: token.colorError }} />}
+                    {item.question}
+                  </Space>
+                </List.Item>
+              )}
+            />
+          </div>
+        )}
+
+        {conversation ? (
+          <div>
+            {conversation.status === 'finished' && <Tag style={{ marginBottom: 8 }}>已结束的问诊记录</Tag>}
+            {conversation.opening && bubble(conversation.opening, true)}
+            {conversation.messages.map(m => (
+              <React.Fragment key={m.id}>
+                {bubble(m.question, false)}
+                {bubble(m.answer, true)}
+              </React.Fragment>
+            ))}
+            <div ref={listEndRef} />
+          </div>
+        ) : (
+          !loading && <Empty description="选择病例后开始与虚拟病人对话" />
+        )}
+
+        {active && (
+          <Space.Compact style={{ width: '100%', marginTop: 12 }}>
+            <Input
+              value={question}
+              maxLength={500}
+              placeholder="输入问题，例如：哪里不舒服？"
+              onChange={e => setQuestion(e.target.value)}
+              onPressEnter={() => void handleSend()}
+            />
+            <Button type="primary" icon={<SendOutlined />} loading={sending} onClick={() => void handleSend()}>
+              发送
+            </Button>
+          </Space.Compact>
+        )}
+      </Spin>
+    </Drawer>
+  );
+};
+
+export default VirtualPatientDrawer;
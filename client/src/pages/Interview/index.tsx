@@ -168,6 +168,9 @@ const InterviewOverview: React.FC = () => {
     if (status === 'draft') return { color: 'processing', text: '进行中' };
     if (status === 'completed') return { color: 'success', text: '已完成' };
     if (status === 'archived') return { color: 'green', text: '已归档' };
+    if (status === 'submitted') return { color: 'purple', text: '待审核' };
+    if (status === 'returned') return { color: 'volcano', text: '已退回' };
+    if (status === 'approved') return { color: 'cyan', text: '审核通过' };
     return { color: 'default', text: '未知' };
   }, []);
 
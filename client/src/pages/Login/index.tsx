@@ -7,6 +7,7 @@ import type { ApiResponse } from '../../utils/api';
 import './login.css';
 import Captcha from '../../components/Captcha';
 import logger from '../../utils/logger';
+import { TOTP_SETUP_REQUIRED_KEY } from '../../components/TwoFactorSettings';
 
 const { Title } = Typography;
 
@@ -24,7 +25,13 @@ const getEnvLabel = () => {
   return null;
 };
 
-type LoginResult = { operatorId: number; role: 'admin' | 'doctor'; name?: string };
+type LoginResult = {
+  operatorId: number;
+  role: 'admin' | 'doctor' | 'teacher' | 'student';
+  name?: string;
+  totpSetupRequired?: boolean;
+};
+type TotpChallengeResult = { totpRequired: true; challengeToken: string; expiresInMs: number };
 type PasswordLoginValues = { username: string; password: string; captcha: string; captchaId: string };
 type TokenLoginValues = { token: string; captcha: string; captchaId: string };
 
@@ -54,8 +61,63 @@ const isValidCaptchaCode = (s: string | undefined) => {
   return /^[A-Za-z0-9]{4}$/.test(s);
 };
 
+/**
+ * 登录第二步：输入验证器动态码或恢复码
+ */
+const TotpLogin: React.FC<{
+  challengeToken: string;
+  onSuccess: (data: LoginResult) => void;
+  onExpired: () => void;
+}> = ({ challengeToken, onSuccess, onExpired }) => {
+  const [loading, setLoading] = useState(false);
+  const [useRecovery, setUseRecovery] = useState(false);
+  const { message } = AntdApp.useApp();
+
+  const onFinish = async (values: { code?: string; recoveryCode?: string }) => {
+    setLoading(true);
+    try {
+      const body = useRecovery ? { challengeToken, recoveryCode: values.recoveryCode } : { challengeToken, code: values.code };
+      const res = (await api.post('/auth/login/totp', body, { _skipAuthRefresh: true } as RetriableAxiosConfig)) as ApiResponse<LoginResult>;
+      if (!res?.success || !res.data) throw new Error('登录响应无效');
+      onSuccess(res.data);
+    } catch (err) {
+      const msg = getApiErrorMessage(err, '动态验证码错误');
+      message.error(msg);
+      if (msg.includes('超时') || msg.includes('次数过多')) onExpired();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Form layout="vertical" onFinish={onFinish} size="large" className="login-form">
+      {useRecovery ? (
+        <Form.Item name="recoveryCode" label="恢复码" rules={[{ required: true, message: '请输入恢复码' }]} className="login-form-item">
+          <Input placeholder="XXXXX-XXXXX" className="login-input" autoComplete="off" />
+        </Form.Item>
+      ) : (
+        <Form.Item
+          name="code"
+          label="请输入验证器应用中的6位动态码"
+          rules={[{ required: true, pattern: /^\d{6}$/, message: '请输入6位数字动态码' }]}
+          className="login-form-item"
+        >
+          <Input prefix={<SafetyOutlined className="login-input-icon" />} maxLength={6} className="login-input" autoComplete="one-time-code" autoFocus />
+        </Form.Item>
+      )}
+      <Form.Item className="login-form-item">
+        <Button type="primary" htmlType="submit" loading={loading} block className="login-button">验 证</Button>
+      </Form.Item>
+      <Button type="link" block onClick={() => setUseRecovery(v => !v)}>
+        {useRecovery ? '使用动态码' : '无法使用验证器？使用恢复码'}
+      </Button>
+    </Form>
+  );
+};
+
 const PasswordLogin: React.FC<{ onSuccess: (data: LoginResult) => void }> = ({ onSuccess }) => {
   const [loading, setLoading] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
   const [captchaVerified, setCaptchaVerified] = useState(false);
   const [captchaRefreshKey, setCaptchaRefreshKey] = useState(0);
   const [serverCaptcha, setServerCaptcha] = useState<{ id: string; svg: string } | null>(null);
@@ -88,8 +150,12 @@ const PasswordLogin: React.FC<{ onSuccess: (data: LoginResult) => void }> = ({ o
       }
       setLoading(true);
       const axiosRes = await api.post('/auth/login', values);
-      const res = axiosRes as unknown as ApiResponse<LoginResult>;
+      const res = axiosRes as unknown as ApiResponse<LoginResult | TotpChallengeResult>;
       if (!res?.success || !res.data) throw new Error('登录响应无效');
+      if ('totpRequired' in res.data) {
+        setChallengeToken(res.data.challengeToken);
+        return;
+      }
       onSuccess(res.data);
     } catch (err) {
       logger.error('[Login] Password login failed', err);
@@ -108,6 +174,19 @@ const PasswordLogin: React.FC<{ onSuccess: (data: LoginResult) => void }> = ({ o
     }
   };
 
+  if (challengeToken) {
+    return (
+      <TotpLogin
+        challengeToken={challengeToken}
+        onSuccess={onSuccess}
+        onExpired={() => {
+          setChallengeToken(null);
+          triggerCaptchaRefresh();
+        }}
+      />
+    );
+  }
+
   return (
     <Form layout="vertical" form={form} onFinish={onFinish} size="large" className="login-form">
       <Form.Item 
@@ -303,8 +382,14 @@ const Login: React.FC = () => {
     };
   }, [location.search, navigate, redirectTo, shouldAutoRedirect]);
 
-  const handleSuccess = async () => {
+  const handleSuccess = async (data: LoginResult) => {
     message.success('登录成功');
+    // 角色要求两步验证但尚未绑定：进入系统后弹出绑定窗口
+    if (data.totpSetupRequired) {
+      sessionStorage.setItem(TOTP_SETUP_REQUIRED_KEY, '1');
+    } else {
+      sessionStorage.removeItem(TOTP_SETUP_REQUIRED_KEY);
+    }
     
     await new Promise(resolve => setTimeout(resolve, 300));
     
@@ -402,6 +487,8 @@ const Login: React.FC = () => {
         <div className="login-footer">
           <span className="login-footer-text">还没有账号？</span>
           <Link to="/register" className="login-footer-link">用户名注册</Link>
+          <span className="login-footer-text" style={{ marginLeft: 12 }}>·</span>
+          <Link to="/forgot-password" className="login-footer-link" style={{ marginLeft: 12 }}>忘记密码</Link>
         </div>
       </div>
     </div>
@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  App as AntdApp,
+  Button,
+  Card,
+  DatePicker,
+  Descriptions,
+  Empty,
+  Form,
+  Input,
+  Modal,
+  Select,
+  Space,
+  Spin,
+  Tag,
+  Timeline,
+  Typography,
+} from 'antd';
+import { ArrowLeftOutlined, EditOutlined, LockOutlined, MergeCellsOutlined } from '@ant-design/icons';
+import { useNavigate, useParams } from 'react-router-dom';
+import dayjs, { type Dayjs } from 'dayjs';
+import api, { getApiErrorMessage, unwrapData } from '../../utils/api';
+import type { ApiResponse } from '../../utils/api';
+import { logger } from '../../utils/logger';
+import type { PatientDetail as PatientDetailData, PatientMergeResult, PatientRecord, PatientTimelineEntry } from '../../types/patient';
+import { displayPatientField } from './patientDisplay';
+
+const { Title, Text } = Typography;
+
+interface PatientFormValues {
+  name: string;
+  gender?: string;
+  birthDate?: Dayjs | null;
+  ethnicity?: string;
+  nativePlace?: string;
+  placeOfBirth?: string;
+  occupation?: string;
+  employer?: string;
+  address?: string;
+  phone?: string;
+}
+
+const STATUS_META: Record<string, { color: string; text: string }> = {
+  draft: { color: 'gold', text: '草稿' },
+  completed: { color: 'green', text: '已完成' },
+  archived: { color: 'blue', text: '已归档' },
+  submitted: { color: 'purple', text: '待审核' },
+  returned: { color: 'volcano', text: '已退回' },
+  approved: { color: 'cyan', text: '审核通过' },
+};
+
+/**
+ * 患者页
+ * 基本信息（可编辑）、合并重复患者，以及该患者全部问诊的主诉与诊断时间线
+ */
+const PatientDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { message } = AntdApp.useApp();
+  const [form] = Form.useForm<PatientFormValues>();
+  const [loading, setLoading] = useState(false);
+  const [patient, setPatient] = useState<PatientDetailData | null>(null);
+  const [timeline, setTimeline] = useState<PatientTimelineEntry[]>([]);
+  const [editOpen, setEditOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [candidates, setCandidates] = useState<PatientRecord[]>([]);
+  const [sourceIds, setSourceIds] = useState<number[]>([]);
+  const [merging, setMerging] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+    try {
+      const [patientRes, timelineRes] = await Promise.all([
+        api.get(`/patients/${id}`) as Promise<ApiResponse<PatientDetailData>>,
+        api.get(`/patients/${id}/timeline`) as Promise<ApiResponse<PatientTimelineEntry[]>>,
+      ]);
+      setPatient(unwrapData<PatientDetailData>(patientRes) ?? null);
+      setTimeline(unwrapData<PatientTimelineEntry[]>(timelineRes) || []);
+    } catch (error) {
+      logger.error('[PatientDetail] 加载患者失败:', error);
+      message.error(getApiErrorMessage(error, '加载患者失败'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, message]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const openEdit = () => {
+    if (!patient) return;
+    form.setFieldsValue({
+      name: patient.name,
+      gender: patient.gender || undefined,
+      birthDate: patient.birthDate ? dayjs(patient.birthDate) : null,
+      ethnicity: patient.ethnicity || undefined,
+      nativePlace: patient.nativePlace || undefined,
+      placeOfBirth: patient.placeOfBirth || undefined,
+      occupation: patient.occupation || undefined,
+      employer: patient.employer || undefined,
+      address: patient.address || undefined,
+      phone: patient.contactInfo?.phone,
+    });
+    setEditOpen(true);
+  };
+
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    setSaving(true);
+    try {
+      const { phone, birthDate, ...rest } = values;
+      const res = await api.patch(`/patients/${id}`, {
+        ...rest,
+        birthDate: birthDate ? `${birthDate.format('YYYY-MM-DD')}T00:00:00.000Z` : undefined,
+        contactInfo: { phone },
+      }) as ApiResponse<PatientRecord>;
+      const updated = unwrapData<PatientRecord>(res);
+      if (updated && patient) {
+        setPatient({ ...patient, ...updated });
+      }
+      setEditOpen(false);
+      message.success('患者信息已更新');
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '更新患者失败'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openMerge = async () => {
+    setSourceIds([]);
+    setMergeOpen(true);
+    try {
+      const res = await api.get('/patients') as ApiResponse<{ patients: PatientRecord[] }>;
+      const list = unwrapData<{ patients: PatientRecord[] }>(res)?.patients || [];
+      setCandidates(list.filter(p => p.id !== Number(id)));
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '获取患者列表失败'));
+    }
+  };
+
+  const handleMerge = async () => {
+    if (sourceIds.length === 0) return;
+    setMerging(true);
+    try {
+      const res = await api.post(`/patients/${id}/merge`, { sourceIds }) as ApiResponse<PatientMergeResult>;
+      const result = unwrapData<PatientMergeResult>(res);
+      setMergeOpen(false);
+      message.success(`已合并 ${result?.mergedPatientIds.length ?? sourceIds.length} 名患者，转入 ${result?.movedSessions ?? 0} 次问诊`);
+      void load();
+    } catch (error) {
+      message.error(getApiErrorMessage(error, '合并患者失败'));
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const candidateLabel = (p: PatientRecord) => {
+    const parts = [displayPatientField(p.name), p.gender, p.birthDate ? dayjs(p.birthDate).format('YYYY-MM-DD') : null];
+    return `#${p.id} ${parts.filter(Boolean).join(' / ')}`;
+  };
+
+  return (
+    <div style={{ padding: 24 }}>
+      <Spin spinning={loading}>
+        <Space style={{ marginBottom: 16 }}>
+          <Button icon={<ArrowLeftOutlined />} onClick={() => navigate('/patients')}>返回</Button>
+        </Space>
+
+        {patient ? (
+          <Card
+            title={
+              <Space>
+                <Title level={4} style={{ margin: 0 }}>{displayPatientField(patient.name)}</Title>
+                {patient.encryptionVersion && <Tag icon={<LockOutlined />}>已加密 v{patient.encryptionVersion}</Tag>}
+              </Space>
+            }
+            extra={
+              <Space>
+                <Button icon={<EditOutlined />} onClick={openEdit}>编辑</Button>
+                <Button icon={<MergeCellsOutlined />} onClick={() => void openMerge()}>合并重复患者</Button>
+              </Space>
+            }
+            style={{ marginBottom: 16 }}
+          >
+            <Descriptions column={{ xs: 1, sm: 2, md: 3 }} size="small">
+              <Descriptions.Item label="性别">{patient.gender || '-'}</Descriptions.Item>
+              <Descriptions.Item label="出生日期">
+                {patient.birthDate ? dayjs(patient.birthDate).format('YYYY-MM-DD') : '-'}
+              </Descriptions.Item>
+              <Descriptions.Item label="民族">{patient.ethnicity || '-'}</Descriptions.Item>
+              <Descriptions.Item label="籍贯">{patient.nativePlace || '-'}</Descriptions.Item>
+              <Descriptions.Item label="出生地">{patient.placeOfBirth || '-'}</Descriptions.Item>
+              <Descriptions.Item label="职业">{patient.occupation || '-'}</Descriptions.Item>
+              <Descriptions.Item label="工作单位">{patient.employer || '-'}</Descriptions.Item>
+              <Descriptions.Item label="联系电话">{patient.contactInfo?.phone || '-'}</Descriptions.Item>
+              <Descriptions.Item label="住址">{displayPatientField(patient.address)}</Descriptions.Item>
+              <Descriptions.Item label="问诊次数">{patient.sessionCount}</Descriptions.Item>
+              <Descriptions.Item label="建档时间">{dayjs(patient.createdAt).format('YYYY-MM-DD HH:mm')}</Descriptions.Item>
+            </Descriptions>
+          </Card>
+        ) : (
+          !loading && <Empty description="患者不存在" />
+        )}
+
+        {patient && (
+          <Card title="问诊时间线">
+            {timeline.length === 0 ? (
+              <Empty description="暂无问诊记录" />
+            ) : (
+              <Timeline
+                items={timeline.map(entry => {
+                  const status = STATUS_META[entry.status] || { color: 'default', text: entry.status };
+                  return {
+                    key: entry.sessionId,
+                    children: (
+                      <div style={{ cursor: 'pointer' }} onClick={() => navigate(`/interview/${entry.sessionId}`)}>
+                        <Space wrap>
+                          <Text strong>{dayjs(entry.createdAt).format('YYYY-MM-DD HH:mm')}</Text>
+                          <Tag color={status.color}>{status.text}</Tag>
+                          {entry.visitType === 'followup' && <Tag color="geekblue">复诊</Tag>}
+                        </Space>
+                        <div>
+                          {entry.encrypted
+                            ? <Text type="secondary"><LockOutlined /> 病历已加密</Text>
+                            : <Text>主诉：{entry.chiefComplaint || '未记录'}</Text>}
+                        </div>
+                        {entry.diagnoses.length > 0 && (
+                          <Space size={4} wrap style={{ marginTop: 4 }}>
+                            <Text type="secondary">诊断：</Text>
+                            {entry.diagnoses.map(d => <Tag key={d} color="blue">{d}</Tag>)}
+                          </Space>
+                        )}
+                      </div>
+                    ),
+                  };
+                })}
+              />
+            )}
+          </Card>
+        )}
+      </Spin>
+
+      <Modal
+        title="编辑患者信息"
+        open={editOpen}
+        onOk={() => void handleSave()}
+        confirmLoading={saving}
+        onCancel={() => setEditOpen(false)}
+        forceRender
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item name="name" label="姓名" rules={[{ required: true, message: '请输入姓名' }, { max: 50 }]}>
+            <Input />
+          </Form.Item>
+          <Form.Item name="gender" label="性别">
+            <Select allowClear options={[{ value: '男', label: '男' }, { value: '女', label: '女' }]} />
+          </Form.Item>
+          <Form.Item name="birthDate" label="出生日期">
+            <DatePicker style={{ width: '100%' }} />
+          </Form.Item>
+          <Form.Item name="ethnicity" label="民族"><Input maxLength={50} /></Form.Item>
+          <Form.Item name="nativePlace" label="籍贯"><Input maxLength={100} /></Form.Item>
+          <Form.Item name="placeOfBirth" label="出生地"><Input maxLength={100} /></Form.Item>
+          <Form.Item name="occupation" label="职业"><Input maxLength={50} /></Form.Item>
+          <Form.Item name="employer" label="工作单位"><Input maxLength={100} /></Form.Item>
+          <Form.Item name="phone" label="联系电话"><Input maxLength={30} /></Form.Item>
+          <Form.Item name="address" label="住址"><Input maxLength={200} /></Form.Item>
+        </Form>
+      </Modal>
+
+      <Modal
+        title="合并重复患者"
+        open={mergeOpen}
+        onOk={() => void handleMerge()}
+        okText="合并"
+        okButtonProps={{ danger: true, disabled: sourceIds.length === 0 }}
+        confirmLoading={merging}
+        onCancel={() => setMergeOpen(false)}
+      >
+        <Text type="secondary">
+          所选患者的问诊记录将转入当前患者，当前患者为空的信息由所选患者补全，随后删除所选患者。
+        </Text>
+        <Select
+          mode="multiple"
+          style={{ width: '100%', marginTop: 12 }}
+          placeholder="选择重复的患者"
+          value={sourceIds}
+          onChange={setSourceIds}
+          optionFilterProp="label"
+          options={candidates.map(p => ({ value: p.id, label: candidateLabel(p) }))}
+        />
+      </Modal>
+    </div>
+  );
+};
+
+export default PatientDetail;
@@ -0,0 +1,99 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { App as AntdApp, Button, Card, Input, Space, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { EyeOutlined } from '@ant-design/icons';
+import { useNavigate } from 'react-router-dom';
+import dayjs from 'dayjs';
+import api, { getApiErrorMessage, unwrapData } from '../../utils/api';
+import type { ApiResponse } from '../../utils/api';
+import LazyTable from '../../components/lazy/LazyTable';
+import { logger } from '../../utils/logger';
+import type { PatientRecord } from '../../types/patient';
+import { displayPatientField } from './patientDisplay';
+
+const { Title } = Typography;
+const { Search } = Input;
+
+/**
+ * 患者列表
+ * 按姓名筛选，进入患者页查看问诊时间线、编辑信息或合并重复患者
+ */
+const PatientList: React.FC = () => {
+  const navigate = useNavigate();
+  const { message } = AntdApp.useApp();
+  const [loading, setLoading] = useState(false);
+  const [patients, setPatients] = useState<PatientRecord[]>([]);
+  const [keyword, setKeyword] = useState('');
+
+  const fetchPatients = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.get('/patients') as ApiResponse<{ patients: PatientRecord[] }>;
+      setPatients(unwrapData<{ patients: PatientRecord[] }>(res)?.patients || []);
+    } catch (error) {
+      logger.error('[PatientList] 获取患者列表失败:', error);
+      message.error(getApiErrorMessage(error, '获取患者列表失败'));
+    } finally {
+      setLoading(false);
+    }
+  }, [message]);
+
+  useEffect(() => {
+    void fetchPatients();
+  }, [fetchPatients]);
+
+  const filtered = useMemo(() => {
+    const kw = keyword.trim();
+    return kw ? patients.filter(p => p.name.includes(kw)) : patients;
+  }, [patients, keyword]);
+
+  const columns: ColumnsType<PatientRecord> = [
+    { title: '姓名', dataIndex: 'name', key: 'name', render: (_: unknown, record) => displayPatientField(record.name) },
+    { title: '性别', dataIndex: 'gender', key: 'gender', width: 80, render: (v?: string | null) => v || '-' },
+    {
+      title: '出生日期',
+      dataIndex: 'birthDate',
+      key: 'birthDate',
+      width: 140,
+      render: (v?: string | null) => (v ? dayjs(v).format('YYYY-MM-DD') : '-'),
+    },
+    { title: '职业', dataIndex: 'occupation', key: 'occupation', render: (v?: string | null) => v || '-' },
+    {
+      title: '建档时间',
+      dataIndex: 'createdAt',
+      key: 'createdAt',
+      width: 180,
+      render: (v: string) => dayjs(v).format('YYYY-MM-DD HH:mm'),
+    },
+    {
+      title: '操作',
+      key: 'action',
+      width: 100,
+      render: (_: unknown, record) => (
+        <Button type="link" icon={<EyeOutlined />} onClick={() => navigate(`/patients/${record.id}`)}>
+          查看
+        </Button>
+      ),
+    },
+  ];
+
+  return (
+    <div style={{ padding: 24 }}>
+      <Card>
+        <Space style={{ width: '100%', justifyContent: 'space-between', marginBottom: 16 }} wrap>
+          <Title level={4} style={{ margin: 0 }}>患者</Title>
+          <Search placeholder="搜索患者姓名" allowClear onSearch={setKeyword} style={{ width: 260 }} />
+        </Space>
+        <LazyTable
+          columns={columns}
+          dataSource={filtered}
+          rowKey="id"
+          loading={loading}
+          pagination={{ pageSize: 10, showTotal: (total: number) => `共 ${total} 名患者` }}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default PatientList;
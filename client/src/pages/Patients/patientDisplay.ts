@@ -0,0 +1,9 @@
+import { isEncrypted } from '../../utils/encryption';
+
+/**
+ * 显示患者字段：客户端密文不直接展示
+ */
+export const displayPatientField = (value?: string | null): string => {
+  if (!value) return '-';
+  return isEncrypted(value) ? '（已加密）' : value;
+};
@@ -13,7 +13,7 @@ const { Title } = Typography;
 
 type RegisterResult = {
   operatorId: number;
-  role: 'admin' | 'doctor';
+  role: 'admin' | 'doctor' | 'teacher' | 'student';
   name: string;
   token?: string;
 };
@@ -22,7 +22,7 @@ type RegisterValues = {
   username: string;
   password: string;
   name: string;
-  role: 'admin' | 'doctor';
+  role: 'admin' | 'doctor' | 'teacher' | 'student';
   captcha: string;
   captchaId: string;
 };
@@ -339,6 +339,8 @@ const Register: React.FC = () => {
               prefix={<TeamOutlined className="register-input-icon" />}
               options={[
                 { label: '医生', value: 'doctor' },
+                { label: '教师', value: 'teacher' },
+                { label: '学生', value: 'student' },
                 { label: '管理员', value: 'admin' },
               ]}
               className="register-select"
@@ -122,6 +122,9 @@ const SessionList: React.FC = () => {
     if (status === 'draft') return { color: '#faad14', bg: '#fffbe6', text: '草稿', icon: <EditOutlined /> };
     if (status === 'completed') return { color: '#52c41a', bg: '#f6ffed', text: '已完成', icon: <CheckCircleOutlined /> };
     if (status === 'archived') return { color: '#1890ff', bg: '#e6f7ff', text: '已归档', icon: <FolderOutlined /> };
+    if (status === 'submitted') return { color: '#722ed1', bg: '#f9f0ff', text: '待审核', icon: <FileTextOutlined /> };
+    if (status === 'returned') return { color: '#fa541c', bg: '#fff2e8', text: '已退回', icon: <EditOutlined /> };
+    if (status === 'approved') return { color: '#13c2c2', bg: '#e6fffb', text: '审核通过', icon: <CheckCircleOutlined /> };
     return { color: '#8c8c8c', bg: '#fafafa', text: status || '未知', icon: <FileTextOutlined /> };
   };
 
@@ -5,6 +5,7 @@ import SuspenseWrapper from './SuspenseWrapper';
 import RedirectToInterview from './RedirectToInterview';
 const Login = React.lazy(() => import('../pages/Login'));
 const Register = React.lazy(() => import('../pages/Register'));
+const ForgotPassword = React.lazy(() => import('../pages/ForgotPassword'));
 const Home = React.lazy(() => import('../pages/Home'));
 const Dashboard = React.lazy(() => import('../pages/Dashboard'));
 const Interview = React.lazy(() => import('../pages/Interview'));
@@ -12,6 +13,8 @@ const NewInterview = React.lazy(() => import('../pages/Interview/NewInterview'))
 const Session = React.lazy(() => import('../pages/Interview/Session'));
 const SessionList = React.lazy(() => import('../pages/SessionList'));
 const KnowledgeList = React.lazy(() => import('../pages/KnowledgeList'));
+const PatientList = React.lazy(() => import('../pages/Patients'));
+const PatientDetail = React.lazy(() => import('../pages/Patients/Detail'));
 
 const router = createBrowserRouter([
   // 认证相关页面（无导航栏）
@@ -39,6 +42,14 @@ const router = createBrowserRouter([
       </SuspenseWrapper>
     ),
   },
+  {
+    path: '/forgot-password',
+    element: (
+      <SuspenseWrapper>
+        <ForgotPassword />
+      </SuspenseWrapper>
+    ),
+  },
   // 带导航栏的页面
   {
     path: '/',
@@ -72,6 +83,22 @@ const router = createBrowserRouter([
         path: '/sessions/:id',
         element: <RedirectToInterview />,
       },
+      {
+        path: '/patients',
+        element: (
+          <SuspenseWrapper>
+            <PatientList />
+          </SuspenseWrapper>
+        ),
+      },
+      {
+        path: '/patients/:id',
+        element: (
+          <SuspenseWrapper>
+            <PatientDetail />
+          </SuspenseWrapper>
+        ),
+      },
       {
         path: '/knowledge',
         element: (
@@ -0,0 +1,71 @@
+/**
+ * 患者相关类型定义
+ */
+
+/**
+ * 患者记录（姓名/住址可能为客户端加密的密文）
+ */
+export interface PatientRecord {
+  id: number;
+  name: string;
+  gender?: string | null;
+  birthDate?: string | null;
+  nativePlace?: string | null;
+  placeOfBirth?: string | null;
+  ethnicity?: string | null;
+  address?: string | null;
+  occupation?: string | null;
+  employer?: string | null;
+  contactInfo?: { phone?: string } | null;
+  encryptionVersion?: string | null;
+  encryptedAt?: string | null;
+  createdAt: string;
+}
+
+/**
+ * 患者详情（含问诊会话数）
+ */
+export interface PatientDetail extends PatientRecord {
+  sessionCount: number;
+}
+
+/**
+ * 患者时间线条目（每次问诊会话）
+ */
+export interface PatientTimelineEntry {
+  sessionId: number;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+  chiefComplaint: string | null;
+  diagnoses: string[];
+  encrypted: boolean;
+  /** 所属诊疗经过；initial 为首次入院记录，followup 为复诊/病程记录 */
+  episodeId: number | null;
+  visitType: string;
+}
+
+/**
+ * 合并重复患者结果
+ */
+export interface PatientMergeResult {
+  patient: PatientRecord;
+  movedSessions: number;
+  mergedPatientIds: number[];
+}
+
+export type DuplicateMatchField = 'name' | 'pinyin' | 'birthDate' | 'gender' | 'phone';
+
+/**
+ * 疑似重复患者（新建患者查重命中）
+ */
+export interface DuplicatePatientCandidate {
+  id: number;
+  name: string;
+  gender: string | null;
+  birthDate: string | null;
+  createdAt: string;
+  sessionCount: number;
+  score: number;
+  matchedOn: DuplicateMatchField[];
+}
@@ -155,6 +155,7 @@ api.interceptors.request.use(async (config) => {
     const isCsrfExcluded =
       url.startsWith('/auth/login') ||
       url.startsWith('/auth/register') ||
+      url.startsWith('/auth/password-reset') ||
       url.startsWith('/captcha');
     if (!isCsrfExcluded) {
       // 推断并附加 X-Session-Id
@@ -318,7 +319,7 @@ api.interceptors.response.use(
         try {
           const p = typeof window !== 'undefined' ? String(window.location.pathname || '/') : '/';
           // 登录页和白名单页面不跳转
-          const noRedirectPaths = ['/login', '/register'];
+          const noRedirectPaths = ['/login', '/register', '/forgot-password'];
           const shouldRedirect = !noRedirectPaths.some(path => p.startsWith(path));
           if (shouldRedirect) {
             logger.warn('[api] 认证失败(401)，即将跳转到登录页', { path: p });
@@ -16,6 +16,13 @@ const RSA_CONFIG = {
   hash: 'SHA-256',
 };
 
+/**
+ * 会话数据密钥（信封加密）算法配置
+ */
+const DATA_KEY_CONFIG = {
+  algorithm: 'AES-GCM',
+};
+
 /**
  * 加密字段标记前缀
  */
@@ -59,6 +66,8 @@ export interface EncryptedData {
   ciphertext: string;
   algorithm: string;
   timestamp: number;
+  // AES-GCM 初始向量（信封加密）
+  iv?: string;
 }
 
 /**
@@ -193,6 +202,19 @@ export async function decryptWithPrivateKey(encryptedString: string, privateKeyB
   }
 }
 
+/**
+ * 是否为会话数据密钥加密的密文（否则为公钥直接加密）
+ */
+export function isEnvelopeEncrypted(value: string): boolean {
+  if (!value.startsWith(ENCRYPTED_PREFIX)) return false;
+  try {
+    const encryptedData: EncryptedData = JSON.parse(atob(value.slice(ENCRYPTED_PREFIX.length)));
+    return encryptedData.algorithm === DATA_KEY_CONFIG.algorithm;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * 加密对象中的敏感字段
  */
@@ -8,9 +8,13 @@ import {
   generateKeyPair,
   encryptPrivateKey,
   decryptPrivateKey,
+  encryptWithPublicKey,
+  decryptWithPrivateKey,
+  isEnvelopeEncrypted,
+  ENCRYPTED_PREFIX,
 } from './crypto';
 import { logger } from './logger';
-import api from './api';
+import api, { type ApiResponse, unwrapData } from './api';
 
 /**
  * 存储键名
@@ -33,6 +37,42 @@ export interface KeyStatus {
   isLocked: boolean;
 }
 
+/**
+ * 服务器登记的密钥版本
+ */
+export interface KeyVersionInfo {
+  version: number;
+  keyFingerprint: string;
+  isCurrent: boolean;
+  isRevoked: boolean;
+  createdAt: string;
+  revokedAt: string | null;
+  sessionCount: number;
+  patientCount: number;
+  grantCount: number;
+}
+
+type RotationRecordType = 'session' | 'patient' | 'sessionKey';
+
+interface RotationBatch {
+  version: number;
+  items: Array<{ id: number; version: number; fields: Record<string, unknown> }>;
+  nextCursor: number;
+  done: boolean;
+}
+
+/**
+ * 重新加密进度
+ */
+export interface RotationProgress {
+  type: RotationRecordType;
+  updated: number;
+  skipped: number;
+}
+
+const ROTATION_TYPES: readonly RotationRecordType[] = ['session', 'patient', 'sessionKey'];
+const ROTATION_BATCH_SIZE = 20;
+
 /**
  * 密钥管理器类
  */
@@ -482,6 +522,162 @@ class KeyManager {
   getFingerprint(): string | null {
     return localStorage.getItem(STORAGE_KEYS.KEY_FINGERPRINT);
   }
+
+  /**
+   * 获取服务器登记的密钥版本
+   */
+  async listKeyVersions(): Promise<KeyVersionInfo[]> {
+    const res = await api.get('/keys/versions') as ApiResponse<KeyVersionInfo[]>;
+    return unwrapData<KeyVersionInfo[]>(res) || [];
+  }
+
+  /**
+   * 轮换密钥：生成新密钥对登记为当前版本，再将旧版本密文重新加密
+   * 需先解锁；新私钥使用同一密码加密
+   */
+  async rotateKey(password: string, onProgress?: (progress: RotationProgress) => void): Promise<RotationProgress[]> {
+    const encryptedPrivateKeyStr = localStorage.getItem(STORAGE_KEYS.ENCRYPTED_PRIVATE_KEY);
+    if (!encryptedPrivateKeyStr) {
+      throw new Error('未找到加密的私钥');
+    }
+    // 校验密码
+    await decryptPrivateKey(encryptedPrivateKeyStr, password);
+
+    const keyPair = await generateKeyPair();
+    const newEncryptedPrivateKey = await encryptPrivateKey(keyPair.privateKey, password);
+    await api.post('/keys/rotate', {
+      publicKey: keyPair.publicKey,
+      encryptedPrivateKey: newEncryptedPrivateKey,
+      keyFingerprint: keyPair.publicKeyFingerprint,
+    });
+
+    localStorage.setItem(STORAGE_KEYS.PUBLIC_KEY, keyPair.publicKey);
+    localStorage.setItem(STORAGE_KEYS.ENCRYPTED_PRIVATE_KEY, newEncryptedPrivateKey);
+    localStorage.setItem(STORAGE_KEYS.KEY_FINGERPRINT, keyPair.publicKeyFingerprint);
+    localStorage.setItem(STORAGE_KEYS.KEY_CREATED_AT, new Date().toISOString());
+    this.cachedPublicKey = keyPair.publicKey;
+    this.cachedPrivateKey = keyPair.privateKey;
+    this._unlockPassword = password;
+
+    logger.info('[KeyManager] 密钥已轮换', { fingerprint: keyPair.publicKeyFingerprint });
+    return this.reencryptOldVersions(password, onProgress);
+  }
+
+  /**
+   * 将仍使用旧版本密钥的记录重新加密为当前密钥（可在中断后重复执行）
+   * 无法用任何旧私钥解密的记录保留原样，由服务器继续标记为旧版本
+   */
+  async reencryptOldVersions(password: string, onProgress?: (progress: RotationProgress) => void): Promise<RotationProgress[]> {
+    const publicKey = this.getPublicKey();
+    const currentPrivateKey = this.getPrivateKey();
+    if (!publicKey || !currentPrivateKey) {
+      throw new Error('密钥未解锁');
+    }
+
+    const oldKeys = new Map<number, string>();
+    for (const v of await this.listKeyVersions()) {
+      if (v.isCurrent || v.isRevoked) continue;
+      try {
+        const res = await api.get(`/keys/versions/${v.version}`) as ApiResponse<{ encryptedPrivateKey: string }>;
+        const keyData = unwrapData<{ encryptedPrivateKey: string }>(res);
+        if (keyData) oldKeys.set(v.version, await decryptPrivateKey(keyData.encryptedPrivateKey, password));
+      } catch (error) {
+        logger.warn('[KeyManager] 无法解锁旧版本密钥', {
+          version: v.version,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const results: RotationProgress[] = [];
+    for (const type of ROTATION_TYPES) {
+      const progress: RotationProgress = { type, updated: 0, skipped: 0 };
+      let cursor = 0;
+      for (;;) {
+        const res = await api.get('/keys/rotation/batch', {
+          params: { type, cursor, limit: ROTATION_BATCH_SIZE },
+        }) as ApiResponse<RotationBatch>;
+        const batch = unwrapData<RotationBatch>(res);
+        if (!batch) break;
+
+        const items: Array<{ id: number; fields: Record<string, unknown> }> = [];
+        for (const item of batch.items) {
+          const candidates = [oldKeys.get(item.version), ...oldKeys.values(), currentPrivateKey]
+            .filter((k): k is string => !!k);
+          const fields = await reencryptValue(item.fields, candidates, publicKey);
+          if (fields) {
+            items.push({ id: item.id, fields: fields as Record<string, unknown> });
+          } else {
+            progress.skipped++;
+          }
+        }
+
+        if (items.length > 0) {
+          const submitted = await api.post('/keys/rotation/batch', { type, version: batch.version, items }) as ApiResponse<{
+            updated: number[];
+            skipped: number[];
+          }>;
+          const result = unwrapData<{ updated: number[]; skipped: number[] }>(submitted);
+          progress.updated += result?.updated.length ?? 0;
+          progress.skipped += result?.skipped.length ?? 0;
+        }
+        onProgress?.({ ...progress });
+
+        if (batch.done) break;
+        cursor = batch.nextCursor;
+      }
+      results.push(progress);
+    }
+
+    logger.info('[KeyManager] 旧版本密文重新加密完成', { results });
+    return results;
+  }
+
+  /**
+   * 吊销旧密钥版本（服务器确认已无记录使用该版本密文）
+   */
+  async revokeKeyVersion(version: number): Promise<void> {
+    await api.post(`/keys/versions/${version}/revoke`);
+    logger.info('[KeyManager] 密钥版本已吊销', { version });
+  }
+}
+
+/**
+ * 递归重新加密：依次尝试候选私钥解密每个密文，再用新公钥加密；
+ * 会话数据密钥加密的密文与用户密钥无关，原样保留（其包装密钥单独重新包装）。
+ * 任一密文无法解密时返回 null（该记录本批跳过）
+ */
+async function reencryptValue(value: unknown, privateKeys: string[], publicKey: string): Promise<unknown> {
+  if (typeof value === 'string') {
+    if (!value.startsWith(ENCRYPTED_PREFIX) || isEnvelopeEncrypted(value)) return value;
+    for (const privateKey of privateKeys) {
+      try {
+        return await encryptWithPublicKey(await decryptWithPrivateKey(value, privateKey), publicKey);
+      } catch {
+        // 尝试下一个私钥
+      }
+    }
+    return null;
+  }
+  if (Array.isArray(value)) {
+    const out: unknown[] = [];
+    for (const v of value) {
+      const next = await reencryptValue(v, privateKeys, publicKey);
+      if (next === null && v !== null) return null;
+      out.push(next);
+    }
+    return out;
+  }
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      const next = await reencryptValue(v, privateKeys, publicKey);
+      if (next === null && v !== null) return null;
+      out[k] = next;
+    }
+    return out;
+  }
+  return value;
 }
 
 /**
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "report_templates" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "description" VARCHAR(500),
+    "definition" JSONB NOT NULL,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "created_by" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "report_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "report_templates_name_key" ON "report_templates"("name");
+
+-- CreateIndex
+CREATE INDEX "report_templates_is_default_idx" ON "report_templates"("is_default");
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "knowledge_drafts" (
+    "id" SERIAL NOT NULL,
+    "symptom_key" VARCHAR(50) NOT NULL,
+    "base_version" INTEGER,
+    "content" JSONB NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'draft',
+    "note" VARCHAR(500),
+    "author_id" INTEGER,
+    "reviewer_id" INTEGER,
+    "review_comment" VARCHAR(500),
+    "submitted_at" TIMESTAMP(3),
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "knowledge_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "knowledge_versions" (
+    "id" SERIAL NOT NULL,
+    "symptom_key" VARCHAR(50) NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" JSONB NOT NULL,
+    "changes" JSONB NOT NULL DEFAULT '[]',
+    "draft_id" INTEGER,
+    "author_id" INTEGER,
+    "approved_by" INTEGER,
+    "note" VARCHAR(500),
+    "published_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "knowledge_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "knowledge_drafts_symptom_key_idx" ON "knowledge_drafts"("symptom_key");
+
+-- CreateIndex
+CREATE INDEX "knowledge_drafts_status_idx" ON "knowledge_drafts"("status");
+
+-- CreateIndex
+CREATE INDEX "knowledge_versions_symptom_key_idx" ON "knowledge_versions"("symptom_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "knowledge_versions_symptom_key_version_key" ON "knowledge_versions"("symptom_key", "version");
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN     "reviewer_id" INTEGER,
+ADD COLUMN     "reviewed_at" TIMESTAMP(3),
+ADD COLUMN     "submitted_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "session_review_comments" (
+    "id" SERIAL NOT NULL,
+    "session_id" INTEGER NOT NULL,
+    "author_id" INTEGER NOT NULL,
+    "field_path" VARCHAR(100),
+    "comment" VARCHAR(2000) NOT NULL,
+    "action" VARCHAR(20) NOT NULL DEFAULT 'comment',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_review_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "interview_sessions_reviewer_id_idx" ON "interview_sessions"("reviewer_id");
+
+-- CreateIndex
+CREATE INDEX "session_review_comments_session_id_idx" ON "session_review_comments"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "session_review_comments" ADD CONSTRAINT "session_review_comments_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "interview_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
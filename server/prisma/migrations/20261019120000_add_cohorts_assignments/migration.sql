@@ -0,0 +1,63 @@
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN     "assignment_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "cohorts" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "description" VARCHAR(500),
+    "teacher_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cohorts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cohort_enrollments" (
+    "id" SERIAL NOT NULL,
+    "cohort_id" INTEGER NOT NULL,
+    "student_id" INTEGER NOT NULL,
+    "enrolled_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cohort_enrollments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "case_assignments" (
+    "id" SERIAL NOT NULL,
+    "cohort_id" INTEGER NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "scenario" JSONB NOT NULL,
+    "expected_findings" JSONB NOT NULL,
+    "due_at" TIMESTAMP(3) NOT NULL,
+    "created_by" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "case_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "interview_sessions_assignment_id_doctor_id_idx" ON "interview_sessions"("assignment_id", "doctor_id");
+
+-- CreateIndex
+CREATE INDEX "cohorts_teacher_id_idx" ON "cohorts"("teacher_id");
+
+-- CreateIndex
+CREATE INDEX "cohort_enrollments_student_id_idx" ON "cohort_enrollments"("student_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cohort_enrollments_cohort_id_student_id_key" ON "cohort_enrollments"("cohort_id", "student_id");
+
+-- CreateIndex
+CREATE INDEX "case_assignments_cohort_id_due_at_idx" ON "case_assignments"("cohort_id", "due_at");
+
+-- AddForeignKey
+ALTER TABLE "interview_sessions" ADD CONSTRAINT "interview_sessions_assignment_id_fkey" FOREIGN KEY ("assignment_id") REFERENCES "case_assignments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cohort_enrollments" ADD CONSTRAINT "cohort_enrollments_cohort_id_fkey" FOREIGN KEY ("cohort_id") REFERENCES "cohorts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "case_assignments" ADD CONSTRAINT "case_assignments_cohort_id_fkey" FOREIGN KEY ("cohort_id") REFERENCES "cohorts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
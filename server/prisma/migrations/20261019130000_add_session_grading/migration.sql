@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN     "grade_result" JSONB,
+ADD COLUMN     "grade_score" DOUBLE PRECISION,
+ADD COLUMN     "graded_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "case_assignments" ADD COLUMN     "reference_session_id" INTEGER;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "sp_conversations" (
+    "id" SERIAL NOT NULL,
+    "session_id" INTEGER NOT NULL,
+    "case_id" VARCHAR(100) NOT NULL,
+    "operator_id" INTEGER,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'active',
+    "score" DOUBLE PRECISION,
+    "result" JSONB,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "sp_conversations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sp_messages" (
+    "id" SERIAL NOT NULL,
+    "conversation_id" INTEGER NOT NULL,
+    "question" VARCHAR(500) NOT NULL,
+    "answer" TEXT NOT NULL,
+    "intents" JSONB NOT NULL,
+    "symptoms" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sp_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sp_conversations_session_id_started_at_idx" ON "sp_conversations"("session_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "sp_messages_conversation_id_created_at_idx" ON "sp_messages"("conversation_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "sp_conversations" ADD CONSTRAINT "sp_conversations_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "interview_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sp_messages" ADD CONSTRAINT "sp_messages_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "sp_conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
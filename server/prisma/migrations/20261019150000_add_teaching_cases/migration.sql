@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "is_simulated" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN "teaching_case_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "teaching_cases" (
+    "id" SERIAL NOT NULL,
+    "code" VARCHAR(100) NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "scenario" TEXT,
+    "demographics" JSONB NOT NULL,
+    "history" JSONB NOT NULL,
+    "expected_diagnosis" VARCHAR(200),
+    "teaching_points" JSONB NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "created_by" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "teaching_cases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "teaching_cases_code_key" ON "teaching_cases"("code");
+
+-- CreateIndex
+CREATE INDEX "teaching_cases_created_by_idx" ON "teaching_cases"("created_by");
+
+-- CreateIndex
+CREATE INDEX "interview_sessions_teaching_case_id_idx" ON "interview_sessions"("teaching_case_id");
+
+-- AddForeignKey
+ALTER TABLE "interview_sessions" ADD CONSTRAINT "interview_sessions_teaching_case_id_fkey" FOREIGN KEY ("teaching_case_id") REFERENCES "teaching_cases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
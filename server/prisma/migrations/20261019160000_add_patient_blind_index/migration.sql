@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "name_index" VARCHAR(64),
+ADD COLUMN "name_pinyin_index" VARCHAR(64),
+ADD COLUMN "phone_index" VARCHAR(64);
+
+-- CreateIndex
+CREATE INDEX "patients_name_index_idx" ON "patients"("name_index");
+
+-- CreateIndex
+CREATE INDEX "patients_name_pinyin_index_idx" ON "patients"("name_pinyin_index");
+
+-- CreateIndex
+CREATE INDEX "patients_phone_index_idx" ON "patients"("phone_index");
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN "episode_id" INTEGER,
+ADD COLUMN "visit_type" VARCHAR(20) NOT NULL DEFAULT 'initial',
+ADD COLUMN "previous_session_id" INTEGER,
+ADD COLUMN "carried_forward" JSONB;
+
+-- CreateTable
+CREATE TABLE "care_episodes" (
+    "id" SERIAL NOT NULL,
+    "patient_id" INTEGER NOT NULL,
+    "title" VARCHAR(200) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'open',
+    "created_by" INTEGER,
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "care_episodes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "care_episodes_patient_id_created_at_idx" ON "care_episodes"("patient_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "interview_sessions_episode_id_created_at_idx" ON "interview_sessions"("episode_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "interview_sessions_previous_session_id_idx" ON "interview_sessions"("previous_session_id");
+
+-- AddForeignKey
+ALTER TABLE "care_episodes" ADD CONSTRAINT "care_episodes_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "interview_sessions" ADD CONSTRAINT "interview_sessions_episode_id_fkey" FOREIGN KEY ("episode_id") REFERENCES "care_episodes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "interview_sessions" ADD CONSTRAINT "interview_sessions_previous_session_id_fkey" FOREIGN KEY ("previous_session_id") REFERENCES "interview_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "session_revisions" (
+    "id" SERIAL NOT NULL,
+    "session_id" INTEGER NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "operator_id" INTEGER,
+    "action" VARCHAR(20) NOT NULL DEFAULT 'update',
+    "restored_from" INTEGER,
+    "sections" JSONB NOT NULL,
+    "before" JSONB NOT NULL,
+    "after" JSONB NOT NULL,
+    "patch" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_revisions_session_id_revision_key" ON "session_revisions"("session_id", "revision");
+
+-- AddForeignKey
+ALTER TABLE "session_revisions" ADD CONSTRAINT "session_revisions_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "interview_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
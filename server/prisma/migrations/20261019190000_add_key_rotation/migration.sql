@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "key_versions" ADD COLUMN "encrypted_private_key" TEXT;
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN "key_version_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "interview_sessions" ADD COLUMN "key_version_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "patients_key_version_id_idx" ON "patients"("key_version_id");
+
+-- CreateIndex
+CREATE INDEX "interview_sessions_key_version_id_idx" ON "interview_sessions"("key_version_id");
+
+-- AddForeignKey
+ALTER TABLE "patients" ADD CONSTRAINT "patients_key_version_id_fkey" FOREIGN KEY ("key_version_id") REFERENCES "key_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "interview_sessions" ADD CONSTRAINT "interview_sessions_key_version_id_fkey" FOREIGN KEY ("key_version_id") REFERENCES "key_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- 为已有密钥的用户登记版本 1
+INSERT INTO "key_versions" ("operator_id", "public_key", "encrypted_private_key", "key_fingerprint", "version", "created_at")
+SELECT o."id", o."public_key", o."encrypted_private_key", COALESCE(o."key_fingerprint", ''), 1, COALESCE(o."key_created_at", CURRENT_TIMESTAMP)
+FROM "operators" o
+WHERE o."public_key" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "key_versions" k WHERE k."operator_id" = o."id");
+
+-- 含密文的会话标记为医生当前密钥版本
+UPDATE "interview_sessions" s
+SET "key_version_id" = k."id"
+FROM "key_versions" k
+WHERE k."operator_id" = s."doctor_id"
+  AND k."version" = (SELECT MAX(k2."version") FROM "key_versions" k2 WHERE k2."operator_id" = s."doctor_id")
+  AND concat_ws(' ', s."chief_complaint"::text, s."present_illness"::text, s."past_history"::text, s."personal_history"::text,
+    s."marital_history"::text, s."menstrual_history"::text, s."fertility_history"::text, s."family_history"::text,
+    s."physical_exam"::text, s."specialist_exam"::text, s."auxiliary_exams"::text, s."review_of_systems"::text,
+    s."general_info"::text) LIKE '%"enc:%';
+
+-- 含密文的患者标记为其首次就诊医生的密钥版本
+UPDATE "patients" p
+SET "key_version_id" = k."id"
+FROM "interview_sessions" s
+JOIN "key_versions" k ON k."operator_id" = s."doctor_id"
+WHERE s."patient_id" = p."id"
+  AND s."id" = (SELECT MIN(s2."id") FROM "interview_sessions" s2 WHERE s2."patient_id" = p."id")
+  AND k."version" = (SELECT MAX(k2."version") FROM "key_versions" k2 WHERE k2."operator_id" = s."doctor_id")
+  AND (p."name" LIKE 'enc:%' OR p."address" LIKE 'enc:%' OR p."contact_info"::text LIKE '%"enc:%');
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "session_key_grants" (
+    "id" SERIAL NOT NULL,
+    "session_id" INTEGER NOT NULL,
+    "recipient_id" INTEGER NOT NULL,
+    "wrapped_key" TEXT NOT NULL,
+    "key_version_id" INTEGER,
+    "granted_by" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_key_grants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_key_grants_session_id_recipient_id_key" ON "session_key_grants"("session_id", "recipient_id");
+
+-- CreateIndex
+CREATE INDEX "session_key_grants_recipient_id_idx" ON "session_key_grants"("recipient_id");
+
+-- CreateIndex
+CREATE INDEX "session_key_grants_key_version_id_idx" ON "session_key_grants"("key_version_id");
+
+-- AddForeignKey
+ALTER TABLE "session_key_grants" ADD CONSTRAINT "session_key_grants_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "interview_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_key_grants" ADD CONSTRAINT "session_key_grants_recipient_id_fkey" FOREIGN KEY ("recipient_id") REFERENCES "operators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_key_grants" ADD CONSTRAINT "session_key_grants_key_version_id_fkey" FOREIGN KEY ("key_version_id") REFERENCES "key_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "operators" ADD COLUMN "totp_secret" TEXT,
+ADD COLUMN "totp_enabled_at" TIMESTAMP(3),
+ADD COLUMN "totp_last_step" INTEGER;
+
+-- CreateTable
+CREATE TABLE "totp_recovery_codes" (
+    "id" SERIAL NOT NULL,
+    "operator_id" INTEGER NOT NULL,
+    "code_hash" VARCHAR(64) NOT NULL,
+    "used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "totp_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "totp_recovery_codes_operator_id_idx" ON "totp_recovery_codes"("operator_id");
+
+-- AddForeignKey
+ALTER TABLE "totp_recovery_codes" ADD CONSTRAINT "totp_recovery_codes_operator_id_fkey" FOREIGN KEY ("operator_id") REFERENCES "operators"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "session_revisions" ADD COLUMN "key_version_id" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "session_revisions_key_version_id_idx" ON "session_revisions"("key_version_id");
+
+-- AddForeignKey
+ALTER TABLE "session_revisions" ADD CONSTRAINT "session_revisions_key_version_id_fkey" FOREIGN KEY ("key_version_id") REFERENCES "key_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- 已有修订按会话当前标记的密钥版本回填
+UPDATE "session_revisions" r
+SET "key_version_id" = s."key_version_id"
+FROM "interview_sessions" s
+WHERE r."session_id" = s."id" AND s."key_version_id" IS NOT NULL;
@@ -27,6 +27,10 @@ vi.mock('../utils/redis-client', () => ({
     get: vi.fn().mockResolvedValue(null),
     set: vi.fn().mockResolvedValue('OK'),
     del: vi.fn().mockResolvedValue(1),
+    sAdd: vi.fn().mockResolvedValue(1),
+    sMembers: vi.fn().mockResolvedValue([]),
+    sRem: vi.fn().mockResolvedValue(1),
+    expire: vi.fn().mockResolvedValue(true),
   }),
   incrWithExpire: vi.fn().mockResolvedValue(1),
   incrWithTtl: vi.fn().mockResolvedValue(1),
@@ -37,6 +41,15 @@ vi.mock('../services/captcha.service', () => ({
   verifyCaptcha: vi.fn().mockResolvedValue(true),
 }));
 
+vi.mock('../services/totp.service', () => ({
+  issueTotpChallenge: vi.fn().mockResolvedValue('challenge-token'),
+  getTotpChallenge: vi.fn(),
+  deleteTotpChallenge: vi.fn(),
+  verifySecondFactor: vi.fn(),
+  disableTotp: vi.fn(),
+  regenerateRecoveryCodes: vi.fn(),
+}));
+
 vi.mock('../utils/auth-helpers', () => ({
   comparePassword: vi.fn().mockResolvedValue(true),
   hashPassword: vi.fn().mockResolvedValue('hashed-password'),
@@ -56,9 +69,15 @@ vi.mock('../utils/secureLogger', () => ({
     warn: vi.fn(),
     error: vi.fn(),
     debug: vi.fn(),
+    logSecurity: vi.fn(),
   },
 }));
 
+vi.mock('../utils/auditLogger', () => ({
+  auditLog: vi.fn(),
+  AuditEventType: { REFRESH_TOKEN_REUSE: 'REFRESH_TOKEN_REUSE', FORCE_LOGOUT: 'FORCE_LOGOUT' },
+}));
+
 vi.mock('../utils/cookie', () => {
   const parseCookieHeader = vi.fn((raw: string) => {
     const out: Record<string, string> = {};
@@ -103,6 +122,11 @@ import { verifyCaptcha } from '../services/captcha.service';
 import { comparePassword, hashPassword, signAccessToken, signRefreshToken, verifyRefreshToken } from '../utils/auth-helpers';
 import { loadOperatorFromToken, parseOperatorToken } from '../middleware/auth';
 import { readCookieFromRequest } from '../utils/cookie';
+import * as totpService from '../services/totp.service';
+import { authGuardConfig } from '../config';
+import { getRedisClient, incrWithExpire } from '../utils/redis-client';
+import { auditLog } from '../utils/auditLogger';
+import { ErrorTypes } from '../middleware/errorHandler';
 
 const mockPrisma = prisma as unknown as {
   operator: {
@@ -170,6 +194,8 @@ describe('AuthController', () => {
 
     // Reset mock calls but keep implementations
     vi.clearAllMocks();
+    // 未被消费的一次性返回值会串到后续用例
+    mockVerifyRefreshToken.mockReset().mockReturnValue(null);
     
     // Re-setup readCookieFromRequest implementation after clearAllMocks
     vi.mocked(readCookieFromRequest).mockImplementation((req: { header?: (name: string) => string | undefined; headers?: Record<string, string> }, name: string) => {
@@ -277,6 +303,51 @@ describe('AuthController', () => {
       );
     });
 
+    it('角色要求两步验证但尚未绑定时只签发仅限绑定接口的受限令牌', async () => {
+      authGuardConfig.totpRequiredDoctor = true;
+      try {
+        mockReq.body = { username: 'test', password: 'password', captchaId: 'id', captcha: 'code' };
+        mockPrisma.operator.findUnique.mockResolvedValueOnce({
+          id: 1,
+          username: 'test',
+          password: 'hashed',
+          name: 'Test User',
+          role: 'doctor',
+          totpEnabledAt: null,
+        });
+
+        await authController.login(mockReq as Request, mockRes as Response);
+
+        expect(mockSignAccessToken).toHaveBeenCalledWith({ operatorId: 1, role: 'doctor', scope: 'totp_setup' });
+        expect(mockJson).toHaveBeenCalledWith({
+          success: true,
+          data: expect.objectContaining({ operatorId: 1, totpSetupRequired: true }),
+        });
+      } finally {
+        authGuardConfig.totpRequiredDoctor = false;
+      }
+    });
+
+    it('已启用两步验证时密码通过后只返回挑战凭证，不签发会话', async () => {
+      mockReq.body = { username: 'admin', password: 'password', captchaId: 'id', captcha: 'code' };
+      mockPrisma.operator.findUnique.mockResolvedValueOnce({
+        id: 2,
+        username: 'admin',
+        password: 'hashed',
+        role: 'admin',
+        totpEnabledAt: new Date(0),
+      });
+
+      await authController.login(mockReq as Request, mockRes as Response);
+
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: expect.objectContaining({ totpRequired: true, challengeToken: 'challenge-token' }),
+      });
+      expect(mockCookie).not.toHaveBeenCalled();
+      expect(totpService.issueTotpChallenge).toHaveBeenCalledWith({ operatorId: 2, role: 'admin', username: 'admin' });
+    });
+
     it('应该在用户名或密码错误时返回401', async () => {
       mockReq.body = { username: 'test', password: 'wrong', captchaId: 'id', captcha: 'code' };
       mockVerifyCaptcha.mockResolvedValueOnce(true);
@@ -313,6 +384,81 @@ describe('AuthController', () => {
     });
   });
 
+  describe('loginTotp', () => {
+    const challenge = { operatorId: 2, role: 'admin', username: 'admin' };
+
+    it('动态码错误时计入登录失败并返回401', async () => {
+      mockReq.body = { challengeToken: 'challenge-token', code: '000000' };
+      vi.mocked(totpService.getTotpChallenge).mockResolvedValueOnce(challenge);
+      vi.mocked(totpService.verifySecondFactor).mockResolvedValueOnce(null);
+
+      await authController.loginTotp(mockReq as Request, mockRes as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(401);
+      expect(incrWithExpire).toHaveBeenCalledWith(expect.anything(), 'rl:auth:login:fail:127.0.0.1:admin', expect.any(Number));
+      expect(mockPrisma.authLoginAttempt.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ reason: 'invalid_totp', ok: false }),
+      });
+      expect(mockCookie).not.toHaveBeenCalled();
+    });
+
+    it('动态码正确时签发会话并作废挑战凭证', async () => {
+      mockReq.body = { challengeToken: 'challenge-token', code: '123456' };
+      vi.mocked(totpService.getTotpChallenge).mockResolvedValueOnce(challenge);
+      vi.mocked(totpService.verifySecondFactor).mockResolvedValueOnce('totp');
+      mockPrisma.operator.findUnique.mockResolvedValueOnce({ id: 2, username: 'admin', name: '管理员', role: 'admin', totpEnabledAt: new Date(0) });
+
+      await authController.loginTotp(mockReq as Request, mockRes as Response);
+
+      expect(totpService.deleteTotpChallenge).toHaveBeenCalledWith('challenge-token');
+      expect(mockCookie).toHaveBeenCalled();
+      expect(mockJson).toHaveBeenCalledWith({
+        success: true,
+        data: expect.objectContaining({ operatorId: 2, role: 'admin', totpSetupRequired: false }),
+      });
+    });
+
+    it('挑战凭证过期时返回401', async () => {
+      mockReq.body = { challengeToken: 'expired', code: '123456' };
+      vi.mocked(totpService.getTotpChallenge).mockResolvedValueOnce(null);
+
+      await authController.loginTotp(mockReq as Request, mockRes as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(401);
+      expect(totpService.verifySecondFactor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('totp settings', () => {
+    beforeEach(() => {
+      mockReq.operator = { operatorId: 1, role: 'doctor', token: 't' };
+      mockPrisma.operator.findUnique.mockResolvedValue({ username: 'admin' });
+    });
+
+    afterEach(() => {
+      mockPrisma.operator.findUnique.mockReset();
+    });
+
+    it('重新生成恢复码时动态码错误计入登录失败次数', async () => {
+      mockReq.body = { code: '000000' };
+      vi.mocked(totpService.regenerateRecoveryCodes).mockRejectedValueOnce(ErrorTypes.BadRequest('动态验证码错误'));
+
+      await expect(authController.totpRecoveryCodes(mockReq as Request, mockRes as Response)).rejects.toMatchObject({ statusCode: 400 });
+
+      expect(incrWithExpire).toHaveBeenCalledWith(expect.anything(), 'rl:auth:login:fail:127.0.0.1:admin', expect.any(Number));
+    });
+
+    it('已被锁定时不再校验动态码', async () => {
+      mockReq.body = { code: '123456' };
+      const redis = (await getRedisClient()) as unknown as Record<string, ReturnType<typeof vi.fn>>;
+      redis.get.mockResolvedValueOnce(String(Date.now() + 60_000));
+
+      await expect(authController.totpDisable(mockReq as Request, mockRes as Response)).rejects.toMatchObject({ statusCode: 429 });
+
+      expect(totpService.disableTotp).not.toHaveBeenCalled();
+    });
+  });
+
   describe('register', () => {
     it('应该在注册成功时返回用户信息', async () => {
       mockReq.body = { username: 'newuser', password: 'password', name: 'New User', captchaId: 'id', captcha: 'code' };
@@ -339,6 +485,29 @@ describe('AuthController', () => {
       );
     });
 
+    it('角色要求两步验证时注册只签发仅限绑定接口的受限令牌', async () => {
+      authGuardConfig.totpRequiredAdmin = true;
+      try {
+        mockReq.body = { username: 'newadmin', password: 'password', role: 'admin', captchaId: 'id', captcha: 'code' };
+        mockVerifyCaptcha.mockResolvedValueOnce(true);
+        mockPrisma.operator.findUnique.mockResolvedValueOnce(null);
+        mockPrisma.operator.create.mockResolvedValueOnce({ id: 2, username: 'newadmin', name: 'newadmin', role: 'admin' });
+        const redis = (await getRedisClient()) as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+        await authController.register(mockReq as Request, mockRes as Response);
+
+        expect(mockSignAccessToken).toHaveBeenCalledWith({ operatorId: 2, role: 'admin', scope: 'totp_setup' });
+        const stored = JSON.parse(redis.set.mock.calls[0][1] as string) as Record<string, unknown>;
+        expect(stored.scope).toBe('totp_setup');
+        expect(mockJson).toHaveBeenCalledWith({
+          success: true,
+          data: expect.objectContaining({ operatorId: 2, totpSetupRequired: true }),
+        });
+      } finally {
+        authGuardConfig.totpRequiredAdmin = false;
+      }
+    });
+
     it('应该在用户名已存在时返回400', async () => {
       mockReq.body = { username: 'existing', password: 'password', captchaId: 'id', captcha: 'code' };
       mockVerifyCaptcha.mockResolvedValueOnce(true);
@@ -434,5 +603,114 @@ describe('AuthController', () => {
       // The actual behavior is tested in integration tests
       expect(true).toBe(true);
     });
+
+    it('已轮换的旧刷新令牌被再次使用时吊销该操作员的全部会话并记录审计事件', async () => {
+      const redis = (await getRedisClient()) as unknown as Record<string, ReturnType<typeof vi.fn>>;
+      redis.get.mockResolvedValueOnce(JSON.stringify({
+        operatorId: 1, role: 'doctor', jti: 'jti-current', ip: '10.0.0.8', userAgent: 'Safari', createdAt: 1, lastUsedAt: 2,
+      }));
+      redis.sMembers.mockResolvedValueOnce(['sid-1', 'sid-2']);
+      mockReq.headers = { cookie: 'msia_rt=stolen-token' };
+      mockVerifyRefreshToken.mockReturnValueOnce({ sid: 'sid-1', operatorId: 1, role: 'doctor', jti: 'jti-old' });
+
+      await authController.refresh(mockReq as Request, mockRes as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(401);
+      expect(redis.sMembers).toHaveBeenCalledWith('auth:refresh:operator:1');
+      expect(redis.del).toHaveBeenCalledWith(['auth:refresh:sid-1', 'auth:refresh:sid-2']);
+      expect(mockClearCookie).toHaveBeenCalled();
+      expect(auditLog).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'REFRESH_TOKEN_REUSE',
+        operatorId: 1,
+        details: expect.objectContaining({ sid: 'sid-1', originalIp: '10.0.0.8' }),
+      }));
+      expect(mockSignAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('刷新成功时保留会话创建时间与过期时间并更新最近使用时间', async () => {
+      const redis = (await getRedisClient()) as unknown as Record<string, ReturnType<typeof vi.fn>>;
+      const createdAt = Date.now() - 60_000;
+      const expiresAt = createdAt + 3_600_000;
+      redis.get.mockResolvedValueOnce(JSON.stringify({
+        operatorId: 1, role: 'doctor', jti: 'jti-current', ip: '10.0.0.8', userAgent: 'Safari', createdAt, lastUsedAt: createdAt, expiresAt,
+      }));
+      mockReq.headers = { cookie: 'msia_rt=valid-token', 'user-agent': 'Firefox' };
+      mockVerifyRefreshToken.mockReturnValueOnce({ sid: 'sid-1', operatorId: 1, role: 'doctor', jti: 'jti-current' });
+
+      await authController.refresh(mockReq as Request, mockRes as Response);
+
+      expect(mockJson).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+      const stored = JSON.parse(redis.set.mock.calls[0][1] as string) as Record<string, unknown>;
+      expect(stored).toMatchObject({ operatorId: 1, createdAt, expiresAt, userAgent: 'Firefox', ip: '127.0.0.1' });
+      expect(stored.jti).not.toBe('jti-current');
+      expect(stored.lastUsedAt).toBeGreaterThan(createdAt);
+      expect(redis.set.mock.calls[0][2]).toEqual({ PXAT: expiresAt });
+    });
+  });
+
+  describe('sessions', () => {
+    it('列出当前操作员的登录会话并标记当前会话', async () => {
+      const redis = (await getRedisClient()) as unknown as Record<string, ReturnType<typeof vi.fn>>;
+      redis.sMembers.mockResolvedValueOnce(['sid-a', 'sid-b', 'sid-gone']);
+      redis.get
+        .mockResolvedValueOnce(JSON.stringify({ operatorId: 3, role: 'doctor', jti: 'j1', userAgent: 'Chrome', ip: '1.1.1.1', createdAt: 1000, lastUsedAt: 5000 }))
+        .mockResolvedValueOnce(JSON.stringify({ operatorId: 3, role: 'doctor', jti: 'j2', userAgent: 'Edge', ip: '2.2.2.2', createdAt: 2000, lastUsedAt: 9000 }))
+        .mockResolvedValueOnce(null);
+      mockReq.headers = { cookie: 'msia_rt=rt' };
+      mockReq.operator = { token: '', operatorId: 3, role: 'doctor' };
+      mockVerifyRefreshToken.mockReturnValueOnce({ sid: 'sid-a', operatorId: 3, role: 'doctor', jti: 'j1' });
+
+      await authController.listSessions(mockReq as Request, mockRes as Response);
+
+      const { data } = mockJson.mock.calls[0][0] as { data: Array<{ id: string; current: boolean; userAgent: string }> };
+      expect(data.map(s => [s.id, s.current, s.userAgent])).toEqual([['sid-b', false, 'Edge'], ['sid-a', true, 'Chrome']]);
+      expect(data[0]).not.toHaveProperty('jti');
+      expect(redis.sRem).toHaveBeenCalledWith('auth:refresh:operator:3', ['sid-gone']);
+    });
+
+    it('不能下线其他操作员的会话', async () => {
+      const redis = (await getRedisClient()) as unknown as Record<string, ReturnType<typeof vi.fn>>;
+      redis.get.mockResolvedValueOnce(JSON.stringify({ operatorId: 9, role: 'doctor', jti: 'j1' }));
+      mockReq.operator = { token: '', operatorId: 3, role: 'doctor' };
+      mockReq.params = { sid: 'sid-other' };
+
+      await authController.revokeSession(mockReq as Request, mockRes as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(404);
+      expect(redis.del).not.toHaveBeenCalled();
+    });
+
+    it('下线其他会话时保留当前会话', async () => {
+      const redis = (await getRedisClient()) as unknown as Record<string, ReturnType<typeof vi.fn>>;
+      redis.sMembers.mockResolvedValueOnce(['sid-a', 'sid-b', 'sid-c']);
+      redis.del.mockResolvedValueOnce(2);
+      mockReq.headers = { cookie: 'msia_rt=rt' };
+      mockReq.operator = { token: '', operatorId: 3, role: 'doctor' };
+      mockVerifyRefreshToken.mockReturnValueOnce({ sid: 'sid-a', operatorId: 3, role: 'doctor', jti: 'j1' });
+
+      await authController.revokeOtherSessions(mockReq as Request, mockRes as Response);
+
+      expect(redis.del).toHaveBeenCalledWith(['auth:refresh:sid-b', 'auth:refresh:sid-c']);
+      expect(redis.sRem).toHaveBeenCalledWith('auth:refresh:operator:3', ['sid-b', 'sid-c']);
+      expect(mockJson).toHaveBeenCalledWith({ success: true, data: { revoked: 2 } });
+    });
+
+    it('管理员强制下线操作员的全部会话并记录审计事件', async () => {
+      const redis = (await getRedisClient()) as unknown as Record<string, ReturnType<typeof vi.fn>>;
+      redis.sMembers.mockResolvedValueOnce(['sid-x']);
+      mockPrisma.operator.findUnique.mockResolvedValueOnce({ id: 7 });
+      mockReq.operator = { token: '', operatorId: 1, role: 'admin' };
+      mockReq.params = { operatorId: '7' };
+
+      await authController.forceLogoutOperator(mockReq as Request, mockRes as Response);
+
+      expect(redis.del).toHaveBeenCalledWith(['auth:refresh:sid-x']);
+      expect(redis.del).toHaveBeenCalledWith('auth:refresh:operator:7');
+      expect(auditLog).toHaveBeenCalledWith(expect.objectContaining({
+        eventType: 'FORCE_LOGOUT',
+        operatorId: 1,
+        details: { targetOperatorId: 7, revoked: 1 },
+      }));
+    });
   });
 });
@@ -0,0 +1,153 @@
+/**
+ * 诊疗经过与复诊测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => {
+  const client = {
+    careEpisode: { create: vi.fn(), update: vi.fn() },
+    interviewSession: { findUnique: vi.fn(), create: vi.fn(), update: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { default: client };
+});
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import {
+  buildCarryForward,
+  carryForwardStatus,
+  getIntervalHistory,
+  startFollowUp,
+  updateEpisode,
+} from '../services/careEpisode.service';
+
+const mockPrisma = prisma as unknown as {
+  careEpisode: { create: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
+  interviewSession: {
+    findUnique: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+};
+
+const doctor = { operatorId: 5, role: 'doctor' as const };
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+const previousVisit = {
+  id: 11,
+  patientId: 3,
+  doctorId: 5,
+  reviewerId: null,
+  chiefComplaint: { text: '反复胸闷1年' },
+  pastHistory: { pmh_diseases: ['高血压'] },
+  personalHistory: { smoking_status: '已戒烟' },
+  familyHistory: null,
+  episode: null as { id: number; status: string } | null,
+};
+
+describe('CareEpisodeService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('仅带入上次已记录的病史章节，并据快照识别本次修改', () => {
+    const { data, snapshot } = buildCarryForward(previousVisit, NOW);
+
+    expect(data).toEqual({ pastHistory: previousVisit.pastHistory, personalHistory: previousVisit.personalHistory });
+    expect(snapshot).toEqual({ fromSessionId: 11, carriedAt: NOW.toISOString(), sections: data });
+
+    expect(carryForwardStatus({
+      carriedForward: snapshot,
+      pastHistory: { pmh_diseases: ['高血压'] },
+      personalHistory: { smoking_status: '吸烟' },
+    })).toEqual({ pastHistory: 'unchanged', personalHistory: 'edited' });
+    expect(carryForwardStatus({ carriedForward: null })).toEqual({});
+  });
+
+  it('上次就诊未归入诊疗经过时新建诊疗经过并创建带入病史的复诊会话', async () => {
+    mockPrisma.interviewSession.findUnique.mockResolvedValue(previousVisit);
+    mockPrisma.careEpisode.create.mockResolvedValue({ id: 20 });
+    mockPrisma.interviewSession.create.mockResolvedValue({ id: 12 });
+
+    const result = await startFollowUp(doctor, { previousSessionId: 11 }, NOW);
+
+    expect(result).toEqual({ sessionId: 12, episodeId: 20 });
+    expect(mockPrisma.careEpisode.create).toHaveBeenCalledWith({
+      data: { patientId: 3, title: '反复胸闷1年', createdBy: 5 },
+    });
+    expect(mockPrisma.interviewSession.update).toHaveBeenCalledWith({ where: { id: 11 }, data: { episodeId: 20 } });
+    expect(mockPrisma.interviewSession.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        patientId: 3,
+        doctorId: 5,
+        episodeId: 20,
+        visitType: 'followup',
+        previousSessionId: 11,
+        pastHistory: previousVisit.pastHistory,
+        carriedForward: expect.objectContaining({ fromSessionId: 11 }),
+      }),
+      select: { id: true },
+    });
+  });
+
+  it('拒绝无权访问的会话与已结束的诊疗经过', async () => {
+    mockPrisma.interviewSession.findUnique.mockResolvedValue(previousVisit);
+    await expect(startFollowUp({ operatorId: 6, role: 'doctor' }, { previousSessionId: 11 })).rejects.toMatchObject({ statusCode: 403 });
+
+    mockPrisma.interviewSession.findUnique.mockResolvedValue({ ...previousVisit, episode: { id: 20, status: 'closed' } });
+    await expect(startFollowUp(doctor, { previousSessionId: 11 })).rejects.toMatchObject({ statusCode: 409 });
+
+    mockPrisma.interviewSession.findUnique.mockResolvedValue(null);
+    await expect(startFollowUp(doctor, { previousSessionId: 99 })).rejects.toMatchObject({ statusCode: 404 });
+    expect(mockPrisma.interviewSession.create).not.toHaveBeenCalled();
+  });
+
+  it('结束诊疗经过时记录结束时间，重新开启时清除', async () => {
+    mockPrisma.careEpisode.update.mockResolvedValue({ id: 20 });
+
+    await updateEpisode(20, { status: 'closed' }, NOW);
+    expect(mockPrisma.careEpisode.update).toHaveBeenLastCalledWith({
+      where: { id: 20 },
+      data: { title: undefined, status: 'closed', closedAt: NOW },
+    });
+
+    await updateEpisode(20, { status: 'open' }, NOW);
+    expect(mockPrisma.careEpisode.update).toHaveBeenLastCalledWith({
+      where: { id: 20 },
+      data: { title: undefined, status: 'open', closedAt: null },
+    });
+  });
+
+  it('复诊会话的间隔病史包含上次就诊的主诉、诊断与间隔天数', async () => {
+    mockPrisma.interviewSession.findUnique.mockResolvedValue({
+      id: 11,
+      createdAt: new Date('2026-10-05T08:00:00Z'),
+      chiefComplaint: { text: '反复胸闷1年' },
+      presentIllness: { admissionDiagnosis: '1.冠心病；2.高血压病' },
+    });
+
+    const interval = await getIntervalHistory({
+      createdAt: NOW,
+      visitType: 'followup',
+      previousSessionId: 11,
+      carriedForward: { fromSessionId: 11, carriedAt: NOW.toISOString(), sections: { pastHistory: {} } },
+      pastHistory: {},
+    });
+
+    expect(interval).toEqual({
+      previousSessionId: 11,
+      previousVisitAt: new Date('2026-10-05T08:00:00Z'),
+      intervalDays: 14,
+      previousChiefComplaint: '反复胸闷1年',
+      previousDiagnoses: ['冠心病', '高血压病'],
+      carryForward: { pastHistory: 'unchanged' },
+    });
+    await expect(getIntervalHistory({ createdAt: NOW, visitType: 'initial' })).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * 主诉解析服务测试
+ * 覆盖时长识别、症状归一与多病程段拆分
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseChiefComplaintText, parseChiefComplaintEpisodes } from '../services/chiefComplaintParser';
+import { SYMPTOM_NAME_TO_KEY, SYMPTOM_SYNONYMS } from '../services/mapping.service';
+
+const options = { synonyms: SYMPTOM_SYNONYMS, knownSymptoms: Object.keys(SYMPTOM_NAME_TO_KEY) };
+
+describe('ChiefComplaintParser', () => {
+  describe('parseChiefComplaintText', () => {
+    it('应该识别中文数字与范围时长', () => {
+      const result = parseChiefComplaintText('胸痛三到五天', options);
+      expect(result.complaint_text).toBe('胸痛');
+      expect(result.duration_value).toEqual({ min: 3, max: 5 });
+      expect(result.duration_unit).toBe('天');
+      expect(result.failure_reason).toBeNull();
+    });
+
+    it('应该在空文本时返回失败原因与空病程段', () => {
+      const result = parseChiefComplaintText('   ', options);
+      expect(result.failure_reason).toBe('空文本');
+      expect(result.episodes).toEqual([]);
+    });
+  });
+
+  describe('parseChiefComplaintEpisodes', () => {
+    it('应该拆分主要病程与加重病程', () => {
+      const episodes = parseChiefComplaintEpisodes('反复咳嗽10年，加重伴气促3天', options);
+      expect(episodes).toEqual([
+        expect.objectContaining({ role: 'primary', complaint_text: '咳嗽', duration_value: 10, duration_unit: '年', recurrent: true }),
+        expect.objectContaining({ role: 'exacerbation', complaint_text: '呼吸困难', duration_value: 3, duration_unit: '天', recurrent: false }),
+      ]);
+    });
+
+    it('加重段未提及新症状时应沿用上一段症状', () => {
+      const episodes = parseChiefComplaintEpisodes('间断头痛2年，加重1周', options);
+      expect(episodes.map(e => [e.role, e.complaint_text, e.duration_raw])).toEqual([
+        ['primary', '头痛', '2年'],
+        ['exacerbation', '头痛', '1周'],
+      ]);
+    });
+
+    it('应该将并列症状标记为 concurrent，并把无时长分句并入下一段', () => {
+      const episodes = parseChiefComplaintEpisodes('腹痛3天，恶心，发热1天', options);
+      expect(episodes).toHaveLength(2);
+      expect(episodes[0]).toEqual(expect.objectContaining({ role: 'primary', complaint_text: '腹痛' }));
+      expect(episodes[1]).toEqual(expect.objectContaining({ role: 'concurrent', segment_text: '恶心，发热1天', duration_value: 1 }));
+    });
+
+    it('末尾无时长的分句应并入上一段', () => {
+      const episodes = parseChiefComplaintEpisodes('腹痛3天，伴恶心', options);
+      expect(episodes).toEqual([
+        expect.objectContaining({ role: 'primary', complaint_text: '腹痛', segment_text: '腹痛3天，伴恶心', duration_value: 3 }),
+      ]);
+    });
+
+    it('无时长的单段主诉应保留症状', () => {
+      expect(parseChiefComplaintEpisodes('头痛', options)).toEqual([
+        expect.objectContaining({ role: 'primary', complaint_text: '头痛', duration_value: null }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * 班级与病例任务测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => ({
+  default: {
+    cohort: { findUnique: vi.fn() },
+    cohortEnrollment: { findUnique: vi.fn(), createMany: vi.fn() },
+    caseAssignment: { findUnique: vi.fn(), findMany: vi.fn() },
+    interviewSession: { findMany: vi.fn() },
+    operator: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import {
+  assertCanStartAssignment,
+  enrollStudents,
+  getAssignment,
+  listMyAssignments,
+} from '../services/cohort.service';
+
+const mockPrisma = prisma as unknown as {
+  cohort: { findUnique: ReturnType<typeof vi.fn> };
+  cohortEnrollment: { findUnique: ReturnType<typeof vi.fn>; createMany: ReturnType<typeof vi.fn> };
+  caseAssignment: { findUnique: ReturnType<typeof vi.fn>; findMany: ReturnType<typeof vi.fn> };
+  interviewSession: { findMany: ReturnType<typeof vi.fn> };
+  operator: { findMany: ReturnType<typeof vi.fn> };
+};
+
+const teacher = { operatorId: 9, role: 'teacher' as const };
+const student = { operatorId: 5, role: 'student' as const };
+
+const assignment = {
+  id: 3,
+  cohortId: 1,
+  title: '发热待查',
+  scenario: { chiefComplaint: '发热3天' },
+  expectedFindings: ['fever', 'cough'],
+  dueAt: new Date('2026-10-20T00:00:00Z'),
+  cohort: { id: 1, name: '临床一班', teacherId: 9 },
+};
+
+describe('CohortService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('只有班级的带教教师可以加入学生，且只能加入学生账号', async () => {
+    mockPrisma.cohort.findUnique.mockResolvedValueOnce({ id: 1, teacherId: 10 });
+    await expect(enrollStudents(1, teacher, [5])).rejects.toMatchObject({ statusCode: 403 });
+
+    mockPrisma.cohort.findUnique.mockResolvedValueOnce({ id: 1, teacherId: 9 });
+    mockPrisma.operator.findMany.mockResolvedValueOnce([{ id: 5 }]);
+    await expect(enrollStudents(1, teacher, [5, 6])).rejects.toMatchObject({
+      statusCode: 422,
+      message: '以下用户不存在或不是学生: 6',
+    });
+
+    mockPrisma.cohort.findUnique.mockResolvedValueOnce({ id: 1, teacherId: 9 });
+    mockPrisma.operator.findMany.mockResolvedValueOnce([{ id: 5 }, { id: 6 }]);
+    mockPrisma.cohortEnrollment.createMany.mockResolvedValueOnce({ count: 2 });
+    await expect(enrollStudents(1, teacher, [5, 6, 5])).resolves.toEqual({ enrolled: 2 });
+    expect(mockPrisma.cohortEnrollment.createMany).toHaveBeenCalledWith({
+      data: [{ cohortId: 1, studentId: 5 }, { cohortId: 1, studentId: 6 }],
+      skipDuplicates: true,
+    });
+  });
+
+  it('学生查看任务时不返回预期要点', async () => {
+    mockPrisma.caseAssignment.findUnique.mockResolvedValueOnce(assignment);
+    mockPrisma.cohortEnrollment.findUnique.mockResolvedValueOnce({ id: 1 });
+    mockPrisma.interviewSession.findMany.mockResolvedValueOnce([]);
+
+    const result = await getAssignment(3, student);
+
+    expect(result).not.toHaveProperty('expectedFindings');
+    expect(result).toMatchObject({ title: '发热待查', sessions: [] });
+    expect(mockPrisma.interviewSession.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { assignmentId: 3, doctorId: 5 } })
+    );
+  });
+
+  it('未加入班级的学生不能按任务创建会话', async () => {
+    mockPrisma.caseAssignment.findUnique.mockResolvedValueOnce(assignment);
+    mockPrisma.cohortEnrollment.findUnique.mockResolvedValueOnce(null);
+    await expect(assertCanStartAssignment(3, student)).rejects.toMatchObject({ statusCode: 403 });
+
+    mockPrisma.caseAssignment.findUnique.mockResolvedValueOnce(assignment);
+    await expect(assertCanStartAssignment(3, { operatorId: 1, role: 'doctor' })).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('我的任务应标记进度与逾期', async () => {
+    mockPrisma.caseAssignment.findMany.mockResolvedValueOnce([
+      { ...assignment, id: 1, sessions: [] },
+      { ...assignment, id: 2, sessions: [{ id: 7, status: 'submitted', updatedAt: new Date() }] },
+      { ...assignment, id: 4, dueAt: new Date('2026-11-01T00:00:00Z'), sessions: [{ id: 8, status: 'draft', updatedAt: new Date() }] },
+    ]);
+
+    const result = await listMyAssignments(5, new Date('2026-10-25T00:00:00Z'));
+
+    expect(result.map(a => [a.id, a.overdue, a.session?.status ?? null])).toEqual([
+      [1, true, null],
+      [2, false, 'submitted'],
+      [4, false, 'draft'],
+    ]);
+  });
+});
@@ -1,17 +1,36 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   suggestDiagnosis,
-  suggestEnhancedDiagnosis,
   getAllDiagnoses,
   getDiagnosisById,
   initializeDiagnosisData,
 } from '../controllers/diagnosis.controller';
 import prisma from '../prisma';
-import type { Response } from 'express';
+import * as diagnosisService from '../services/diagnosis.service';
+import { asyncHandler, errorHandler, ErrorTypes } from '../middleware/errorHandler';
+import type { Request, Response } from 'express';
 
 interface MockRequest {
   body: Record<string, unknown>;
   params: Record<string, string>;
+  headers: Record<string, string>;
+  ip: string;
+  operator?: { operatorId: number; role: string };
+}
+
+/**
+ * 与路由一致：经 asyncHandler 调用，异常交由全局错误处理中间件响应
+ */
+function dispatch(handler: (req: Request, res: Response) => Promise<unknown>, req: unknown, res: unknown): Promise<void> {
+  return new Promise((resolve) => {
+    asyncHandler(async (rq, rs) => {
+      await handler(rq, rs);
+      resolve();
+    })(req as Request, res as Response, (err?: unknown) => {
+      errorHandler(err as Error, req as Request, res as Response, vi.fn());
+      resolve();
+    });
+  });
 }
 
 function createMockRes(): unknown {
@@ -32,6 +51,10 @@ vi.mock('../prisma', () => ({
   },
 }));
 
+vi.mock('../services/diagnosis.service', () => ({
+  suggestDiagnosesForSession: vi.fn(),
+}));
+
 const mockPrisma = prisma as unknown as Record<string, Record<string, ReturnType<typeof vi.fn>>>;
 
 describe('DiagnosisController', () => {
@@ -40,7 +63,7 @@ describe('DiagnosisController', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockReq = { body: {}, params: {} };
+    mockReq = { body: {}, params: {}, headers: {}, ip: '127.0.0.1' };
     mockRes = createMockRes();
   });
 
@@ -49,76 +72,59 @@ describe('DiagnosisController', () => {
   });
 
   describe('suggestDiagnosis', () => {
-    it('应该在症状列表为空时返回400', async () => {
-      mockReq.body = { symptoms: [] };
-      await suggestDiagnosis(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).status).toHaveBeenCalledWith(400);
-    });
-
-    it('应该在缺少症状列表时返回400', async () => {
-      mockReq.body = {};
-      await suggestDiagnosis(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).status).toHaveBeenCalledWith(400);
-    });
-
-    it('应该成功返回诊断建议', async () => {
-      mockReq.body = { symptoms: ['发热', '咳嗽'] };
-      mockPrisma.diagnosis.findMany.mockResolvedValue([
-        { id: 1, name: '上呼吸道感染', category: '呼吸系统', symptoms: [{ symptomKey: 'fever' }] },
-      ]);
+    const result = {
+      diagnoses: [{ id: 1, name: '肺炎', confidence: 0.62 }],
+      confidenceDetails: [],
+      symptomAssociations: [],
+      findings: { presentSymptoms: ['fever', 'cough'], absentSymptoms: [], redFlags: [] },
+      residual: 0.2,
+    };
+
+    it('应该合并请求中的症状并返回统一结构', async () => {
+      mockReq.body = {
+        sessionId: 7,
+        symptoms: ['发热'],
+        currentSymptom: '咳嗽',
+        associatedSymptoms: ['sputum'],
+        redFlags: ['呼吸困难'],
+        age: 65,
+        gender: '男',
+      };
+      mockReq.operator = { operatorId: 5, role: 'student' };
+      vi.mocked(diagnosisService.suggestDiagnosesForSession).mockResolvedValue(result as never);
       await suggestDiagnosis(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          success: true,
-          data: expect.objectContaining({
-            suggestions: expect.any(Array),
-          }),
-        })
-      );
+      expect(diagnosisService.suggestDiagnosesForSession).toHaveBeenCalledWith(7, {
+        symptoms: ['发热', '咳嗽', 'sputum'],
+        redFlags: ['呼吸困难'],
+        age: 65,
+        gender: '男',
+      }, { operatorId: 5, role: 'student' });
+      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith({ success: true, data: result });
     });
 
-    it('应该在数据库错误时返回空建议列表', async () => {
-      mockReq.body = { symptoms: ['发热'] };
-      mockPrisma.diagnosis.findMany.mockRejectedValue(new Error('DB Error'));
-      await suggestDiagnosis(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          success: true,
-          data: expect.objectContaining({
-            suggestions: [],
-          }),
-        })
-      );
+    it('应该在会话不存在时返回404', async () => {
+      mockReq.body = { sessionId: 99 };
+      vi.mocked(diagnosisService.suggestDiagnosesForSession).mockRejectedValue(ErrorTypes.NotFound('会话'));
+      await dispatch(suggestDiagnosis, mockReq, mockRes);
+      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).status).toHaveBeenCalledWith(404);
+      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'NOT_FOUND', message: '会话不存在' },
+      });
     });
-  });
 
-  describe('suggestEnhancedDiagnosis', () => {
-    it('应该在症状列表为空时返回400', async () => {
-      mockReq.body = { symptoms: [] };
-      await suggestEnhancedDiagnosis(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).status).toHaveBeenCalledWith(400);
+    it('无权访问该会话时返回403', async () => {
+      mockReq.body = { sessionId: 8 };
+      vi.mocked(diagnosisService.suggestDiagnosesForSession).mockRejectedValue(ErrorTypes.Forbidden('无权访问该会话'));
+      await dispatch(suggestDiagnosis, mockReq, mockRes);
+      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).status).toHaveBeenCalledWith(403);
     });
 
-    it('应该成功返回增强诊断建议', async () => {
-      mockReq.body = {
-        symptoms: ['发热', '咳嗽'],
-        patientInfo: { age: 65, gender: 'male' },
-        history: { chronicDiseases: ['高血压'] },
-      };
-      mockPrisma.diagnosis.findMany.mockResolvedValue([
-        { id: 1, name: '上呼吸道感染', category: '呼吸系统', symptoms: [] },
-      ]);
-      await suggestEnhancedDiagnosis(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          success: true,
-          data: expect.objectContaining({
-            suggestions: expect.any(Array),
-            confidence: expect.any(Number),
-            reasoning: expect.any(String),
-          }),
-        })
-      );
+    it('应该在数据库错误时返回500', async () => {
+      mockReq.body = { sessionId: 7 };
+      vi.mocked(diagnosisService.suggestDiagnosesForSession).mockRejectedValue(new Error('DB Error'));
+      await dispatch(suggestDiagnosis, mockReq, mockRes);
+      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).status).toHaveBeenCalledWith(500);
     });
   });
 
@@ -158,7 +164,7 @@ describe('DiagnosisController', () => {
     it('应该在诊断不存在时返回404', async () => {
       mockReq.params = { id: '999' };
       mockPrisma.diagnosis.findUnique.mockResolvedValue(null);
-      await getDiagnosisById(mockReq as never, mockRes as Response);
+      await dispatch(getDiagnosisById, mockReq, mockRes);
       expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).status).toHaveBeenCalledWith(404);
     });
   });
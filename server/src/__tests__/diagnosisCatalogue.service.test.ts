@@ -0,0 +1,131 @@
+/**
+ * 诊断目录管理测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => {
+  const client = {
+    symptomKnowledge: { findMany: vi.fn() },
+    diagnosis: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    diagnosisSymptom: { deleteMany: vi.fn(), createMany: vi.fn() },
+    diagnosisRedFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { default: client };
+});
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import {
+  assertKnownSymptomKeys,
+  importDiagnoses,
+  parseCsv,
+  parseDiagnosisImport,
+} from '../services/diagnosisCatalogue.service';
+
+const mockPrisma = prisma as unknown as {
+  symptomKnowledge: { findMany: ReturnType<typeof vi.fn> };
+  diagnosis: { findMany: ReturnType<typeof vi.fn>; create: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
+  diagnosisSymptom: { deleteMany: ReturnType<typeof vi.fn>; createMany: ReturnType<typeof vi.fn> };
+  diagnosisRedFlag: { deleteMany: ReturnType<typeof vi.fn>; createMany: ReturnType<typeof vi.fn> };
+};
+
+const CSV = [
+  'name,category,minAge,type,key,weight,isRequired,severityLevel',
+  '肺炎,呼吸系统,,symptom,fever,0.3,,',
+  '肺炎,,,symptom,cough,0.2,true,',
+  '肺炎,,,redFlag,"呼吸困难, 紫绀",0.15,,3',
+  '慢性阻塞性肺疾病,呼吸系统,40,symptom,dyspnea,0.3,,',
+].join('\n');
+
+describe('DiagnosisCatalogueService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.symptomKnowledge.findMany.mockResolvedValue([
+      { symptomKey: 'fever' },
+      { symptomKey: 'cough_and_expectoration' },
+      { symptomKey: 'dyspnea' },
+    ]);
+  });
+
+  it('应该解析带引号的 CSV', () => {
+    expect(parseCsv('a,b\r\n"x, ""y""",z\n\n')).toEqual([
+      ['a', 'b'],
+      ['x, "y"', 'z'],
+    ]);
+  });
+
+  it('应该将 CSV 行按诊断名称合并为条目', () => {
+    const entries = parseDiagnosisImport('csv', CSV);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      name: '肺炎',
+      category: '呼吸系统',
+      symptoms: [
+        { symptomKey: 'fever', weight: 0.3, isRequired: false, isExcluding: false },
+        { symptomKey: 'cough', weight: 0.2, isRequired: true, isExcluding: false },
+      ],
+      redFlags: [{ redFlagName: '呼吸困难, 紫绀', weight: 0.15, severityLevel: 3 }],
+    });
+    expect(entries[1]).toMatchObject({ name: '慢性阻塞性肺疾病', minAge: 40 });
+  });
+
+  it('应该拒绝不合法的导入内容', () => {
+    expect(() => parseDiagnosisImport('json', '{')).toThrow('JSON 格式错误');
+    expect(() => parseDiagnosisImport('json', JSON.stringify([{ name: '肺炎', symptoms: [{ symptomKey: 'fever', weight: 2 }] }])))
+      .toThrow(/肺炎: symptoms\.0\.weight/);
+    expect(() => parseDiagnosisImport('json', JSON.stringify({ diagnoses: [{ name: '肺炎' }, { name: '肺炎' }] })))
+      .toThrow('导入内容中诊断重复: 肺炎');
+  });
+
+  it('症状 key 必须存在于症状知识库（允许拆分 key）', async () => {
+    await expect(assertKnownSymptomKeys(['fever', 'cough'])).resolves.toBeUndefined();
+    await expect(assertKnownSymptomKeys(['fever', 'sore_throat'])).rejects.toMatchObject({
+      statusCode: 422,
+      message: '症状知识库中不存在以下症状: sore_throat',
+    });
+  });
+
+  it('试运行只返回新增/覆盖清单，不写入数据库', async () => {
+    mockPrisma.diagnosis.findMany.mockResolvedValueOnce([{ id: 7, name: '肺炎' }]);
+
+    const result = await importDiagnoses('csv', CSV, true);
+
+    expect(result).toEqual({ total: 2, created: ['慢性阻塞性肺疾病'], updated: ['肺炎'], dryRun: true });
+    expect(mockPrisma.diagnosis.create).not.toHaveBeenCalled();
+    expect(mockPrisma.diagnosis.update).not.toHaveBeenCalled();
+  });
+
+  it('导入时应覆盖已有诊断并整体替换症状与警惕征象', async () => {
+    mockPrisma.diagnosis.findMany.mockResolvedValueOnce([{ id: 7, name: '肺炎' }]);
+    mockPrisma.diagnosis.update.mockResolvedValueOnce({ id: 7 });
+    mockPrisma.diagnosis.create.mockResolvedValueOnce({ id: 8 });
+
+    await importDiagnoses('csv', CSV);
+
+    expect(mockPrisma.diagnosis.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: { name: '肺炎', category: '呼吸系统' },
+    });
+    expect(mockPrisma.diagnosis.create).toHaveBeenCalledWith({
+      data: { name: '慢性阻塞性肺疾病', category: '呼吸系统', minAge: 40 },
+    });
+    expect(mockPrisma.diagnosisSymptom.deleteMany).toHaveBeenCalledWith({ where: { diagnosisId: 7 } });
+    expect(mockPrisma.diagnosisSymptom.createMany).toHaveBeenCalledWith({
+      data: [
+        { diagnosisId: 7, symptomKey: 'fever', weight: 0.3, isRequired: false, isExcluding: false },
+        { diagnosisId: 7, symptomKey: 'cough', weight: 0.2, isRequired: true, isExcluding: false },
+      ],
+    });
+    expect(mockPrisma.diagnosisRedFlag.createMany).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * 鉴别诊断评分引擎测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeGender, scoreDiagnoses, scoreDiagnosis, type ScoringDiagnosis } from '../services/diagnosisScoring';
+
+const symptom = (symptomKey: string, weight = 0.1, extra: { isRequired?: boolean; isExcluding?: boolean } = {}) => ({
+  symptomKey,
+  weight,
+  isRequired: extra.isRequired ?? false,
+  isExcluding: extra.isExcluding ?? false,
+});
+
+const pneumonia: ScoringDiagnosis = {
+  id: 1,
+  name: '肺炎',
+  priority: 0,
+  symptoms: [symptom('fever', 0.3), symptom('cough', 0.2), symptom('dyspnea', 0.1)],
+  redFlags: [{ redFlagName: '呼吸困难', weight: 0.15, severityLevel: 3 }],
+};
+
+const copd: ScoringDiagnosis = {
+  id: 2,
+  name: '慢性阻塞性肺疾病',
+  minAge: 40,
+  priority: 0,
+  symptoms: [symptom('cough', 0.2), symptom('wheezing', 0.3, { isRequired: true }), symptom('fever', 0.1, { isExcluding: true })],
+  redFlags: [],
+};
+
+describe('DiagnosisScoring', () => {
+  it('应该按症状权重换算似然比并记录贡献', () => {
+    const score = scoreDiagnosis(pneumonia, { presentSymptoms: ['fever', 'cough'] });
+    expect(score.supportingSymptoms).toEqual(['fever', 'cough']);
+    expect(score.missingSymptoms).toEqual(['dyspnea']);
+    expect(score.contributions.map(c => [c.factor, c.finding, c.likelihoodRatio])).toEqual([
+      ['symptom_present', 'fever', 7],
+      ['symptom_present', 'cough', 5],
+    ]);
+    expect(score.logScore).toBeCloseTo(Math.log(35), 4);
+  });
+
+  it('必需症状缺失、排除症状存在与年龄不符均应降低分数', () => {
+    const score = scoreDiagnosis(copd, { presentSymptoms: ['cough', 'fever'], patientAge: 25 });
+    expect(score.excludingSymptoms).toEqual(['fever']);
+    expect(score.contributions.map(c => c.factor)).toEqual(
+      expect.arrayContaining(['required_missing', 'excluding_present', 'age_mismatch'])
+    );
+    expect(score.logScore).toBeLessThan(0);
+  });
+
+  it('明确否认的症状应比未提及的症状扣分更多', () => {
+    const unknown = scoreDiagnosis(copd, { presentSymptoms: ['cough'] });
+    const denied = scoreDiagnosis(copd, { presentSymptoms: ['cough'], absentSymptoms: ['wheezing'] });
+    expect(denied.logScore).toBeLessThan(unknown.logScore);
+    expect(denied.contributions.find(c => c.finding === 'wheezing')?.factor).toBe('required_absent');
+  });
+
+  it('应该考虑好发性别与优先级', () => {
+    const female = { ...pneumonia, id: 3, genderPreference: 'female', priority: 5 };
+    const score = scoreDiagnosis(female, { presentSymptoms: ['fever'], patientGender: '男' });
+    expect(score.contributions.map(c => c.factor)).toEqual(expect.arrayContaining(['gender_mismatch', 'prior']));
+    expect(normalizeGender('F')).toBe('female');
+    expect(normalizeGender('未知')).toBeNull();
+  });
+
+  it('后验分数应与剩余概率合计为 1 并按分数排序', () => {
+    const { scores, residual } = scoreDiagnoses([copd, pneumonia], {
+      presentSymptoms: ['fever', 'cough'],
+      redFlags: ['呼吸困难'],
+      patientAge: 30,
+    });
+    expect(scores.map(s => s.name)).toEqual(['肺炎', '慢性阻塞性肺疾病']);
+    expect(scores[0].redFlags).toEqual(['呼吸困难']);
+    const total = scores.reduce((sum, s) => sum + s.posterior, residual);
+    expect(total).toBeCloseTo(1, 3);
+  });
+
+  it('单一候选诊断在证据不足时不应接近 1', () => {
+    const { scores } = scoreDiagnoses([pneumonia], { presentSymptoms: ['dyspnea'] });
+    expect(scores[0].posterior).toBeCloseTo(0.75, 4);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * 现病史实体抽取测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractHpiFields, type HpiFieldProposal } from '../services/hpiExtractor';
+
+const knowledge = [
+  { symptomKey: 'abdominal_pain', displayName: '腹痛' },
+  { symptomKey: 'fever', displayName: '发热' },
+  { symptomKey: 'nausea_vomiting', displayName: '恶心与呕吐' },
+  { symptomKey: 'chest_pain', displayName: '胸痛' },
+  { symptomKey: 'oliguria_anuria_polyuria', displayName: '少尿、无尿和多尿' },
+];
+
+const proposalOf = (narrative: string, field: HpiFieldProposal['field'], mainSymptom?: string) =>
+  extractHpiFields(narrative, knowledge, { mainSymptom }).proposals.find(p => p.field === field);
+
+describe('HpiExtractor', () => {
+  const narrative = '患者3天前进食后突然出现左下腹绞痛，程度剧烈，向腰背部放射，进食后加重，休息后可缓解，伴恶心、呕吐，无发热、盗汗，否认胸痛。';
+
+  it('应该识别起病形式与程度', () => {
+    expect(proposalOf(narrative, 'onsetMode')).toEqual(
+      expect.objectContaining({ value: 'sudden', spans: [{ start: 8, end: 10, text: '突然' }] })
+    );
+    expect(proposalOf(narrative, 'severity')?.value).toBe('severe');
+  });
+
+  it('应该识别带侧别的部位与放射部位', () => {
+    const location = proposalOf(narrative, 'location');
+    expect(location?.value).toBe('左下腹，放射至腰背部');
+    expect(location?.laterality).toBe('left');
+    expect(location?.spans[0]).toEqual({ start: 12, end: 15, text: '左下腹' });
+  });
+
+  it('应该识别性质与加重/缓解因素', () => {
+    expect(proposalOf(narrative, 'quality')?.value).toEqual(['绞痛']);
+    expect(proposalOf(narrative, 'factors')?.value).toBe('进食后加重，休息后可缓解');
+  });
+
+  it('应该输出伴随症状 key 并排除主症状', () => {
+    const associated = proposalOf(narrative, 'associatedSymptoms', '腹痛');
+    expect(associated?.value).toEqual(['nausea_vomiting']);
+    expect(associated?.display).toBe('恶心、呕吐');
+  });
+
+  it('应该汇总重要阴性且不将其计为伴随症状', () => {
+    expect(proposalOf(narrative, 'negativeSymptoms')?.value).toBe('无发热、无盗汗、无胸痛');
+    const associated = proposalOf(narrative, 'associatedSymptoms', '腹痛');
+    expect(associated?.value).not.toContain('fever');
+  });
+
+  it('应该忽略“无明显诱因”与“无尿”中的否定字', () => {
+    expect(proposalOf('无明显诱因出现胸骨后压榨样疼痛', 'negativeSymptoms')).toBeUndefined();
+    expect(proposalOf('无明显诱因出现胸骨后压榨样疼痛', 'location')?.value).toBe('胸骨后');
+    expect(proposalOf('无明显诱因出现胸骨后压榨样疼痛', 'quality')?.value).toEqual(['压榨痛']);
+    expect(proposalOf('患者无尿1天', 'associatedSymptoms')?.value).toEqual(['anuria']);
+  });
+
+  it('否定范围内的部位与程度不应被采纳', () => {
+    const { proposals } = extractHpiFields('无剧烈胸痛', knowledge);
+    expect(proposals.map(p => p.field)).toEqual(['negativeSymptoms']);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * 密钥版本与轮换测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => {
+  const client = {
+    operator: { update: vi.fn() },
+    keyVersion: { findFirst: vi.fn(), create: vi.fn(), update: vi.fn() },
+    interviewSession: { findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    patient: { findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    sessionKeyGrant: { findMany: vi.fn(), update: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { default: client };
+});
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import {
+  getRotationBatch,
+  isReencryptionOf,
+  revokeKeyVersion,
+  storeUserKey,
+  submitRotationBatch,
+} from '../services/key.service';
+
+type Mock = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  operator: { update: Mock };
+  keyVersion: { findFirst: Mock; create: Mock; update: Mock };
+  interviewSession: { findMany: Mock; update: Mock; updateMany: Mock };
+  patient: { findMany: Mock; update: Mock; updateMany: Mock };
+  sessionKeyGrant: { findMany: Mock; update: Mock };
+};
+
+const v1 = { id: 11, operatorId: 5, version: 1, publicKey: 'pk-1', isRevoked: false, encryptedPrivateKey: 'sk-1' };
+const v2 = { id: 12, operatorId: 5, version: 2, publicKey: 'pk-2', isRevoked: false, encryptedPrivateKey: 'sk-2' };
+
+// 按查询条件返回指定版本：带 version 条件时为按版本查找，否则为当前版本
+const versions = (...list: Array<typeof v1>) => {
+  mockPrisma.keyVersion.findFirst.mockImplementation(({ where }: { where: { version?: number } }) =>
+    where.version
+      ? list.find(v => v.version === where.version) ?? null
+      : [...list].sort((a, b) => b.version - a.version)[0] ?? null
+  );
+};
+
+describe('KeyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('公钥变化时登记新版本，公钥不变时只更新加密私钥', async () => {
+    versions(v1);
+
+    await expect(storeUserKey(5, { publicKey: 'pk-2', encryptedPrivateKey: 'sk-2', keyFingerprint: 'fp-2' }))
+      .resolves.toEqual({ version: 2, rotated: true });
+    expect(mockPrisma.keyVersion.create).toHaveBeenCalledWith({
+      data: { operatorId: 5, version: 2, publicKey: 'pk-2', encryptedPrivateKey: 'sk-2', keyFingerprint: 'fp-2' },
+    });
+
+    vi.clearAllMocks();
+    await expect(storeUserKey(5, { publicKey: 'pk-1', encryptedPrivateKey: 'sk-1-new', keyFingerprint: 'fp-1' }))
+      .resolves.toEqual({ version: 1, rotated: false });
+    expect(mockPrisma.keyVersion.create).not.toHaveBeenCalled();
+    expect(mockPrisma.keyVersion.update).toHaveBeenCalledWith({ where: { id: 11 }, data: { encryptedPrivateKey: 'sk-1-new' } });
+    expect(mockPrisma.operator.update).toHaveBeenCalled();
+  });
+
+  it('仅接受保持结构与明文不变的重新加密', () => {
+    const before = { text: 'enc:old', duration: '3天', tags: ['enc:a', '头痛'] };
+    expect(isReencryptionOf(before, { text: 'enc:new', duration: '3天', tags: ['enc:b', '头痛'] })).toBe(true);
+    expect(isReencryptionOf(before, { text: '头痛', duration: '3天', tags: ['enc:b', '头痛'] })).toBe(false);
+    expect(isReencryptionOf(before, { text: 'enc:new', duration: '5天', tags: ['enc:b', '头痛'] })).toBe(false);
+    expect(isReencryptionOf(before, { text: 'enc:new', duration: '3天', tags: ['enc:b'] })).toBe(false);
+  });
+
+  it('批次只返回含密文的字段，并以最后一条记录的 ID 作为游标', async () => {
+    versions(v1, v2);
+    mockPrisma.interviewSession.findMany.mockResolvedValue([
+      { id: 3, keyVersion: { version: 1 }, chiefComplaint: 'enc:cc', pastHistory: { pmh: '无' } },
+      { id: 7, keyVersion: { version: 1 }, chiefComplaint: { text: '头痛' } },
+    ]);
+
+    const batch = await getRotationBatch(5, { type: 'session', cursor: 0, limit: 2 });
+
+    expect(mockPrisma.interviewSession.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: { gt: 0 }, keyVersion: { operatorId: 5, version: { lt: 2 } } },
+      take: 2,
+    }));
+    expect(batch).toEqual({
+      version: 2,
+      items: [{ id: 3, version: 1, fields: { chiefComplaint: 'enc:cc' } }],
+      nextCursor: 7,
+      done: false,
+    });
+  });
+
+  it('写回重新加密的记录并标记为当前版本，不符合的记录跳过', async () => {
+    versions(v1, v2);
+    mockPrisma.patient.findMany.mockResolvedValue([
+      { id: 1, keyVersion: { version: 1 }, name: 'enc:n1', address: '北京' },
+      { id: 2, keyVersion: { version: 1 }, name: 'enc:n2' },
+    ]);
+
+    const result = await submitRotationBatch(5, {
+      type: 'patient',
+      version: 2,
+      items: [
+        { id: 1, fields: { name: 'enc:n1-v2' } },
+        { id: 2, fields: { name: '王五' } },
+        { id: 9, fields: { name: 'enc:x' } },
+      ],
+    });
+
+    expect(result).toEqual({ updated: [1], skipped: [2, 9] });
+    expect(mockPrisma.patient.update).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.patient.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { name: 'enc:n1-v2', keyVersionId: 12 } });
+
+    await expect(submitRotationBatch(5, { type: 'patient', version: 1, items: [] })).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('仍有记录使用旧版本密文时拒绝吊销，吊销后删除私钥', async () => {
+    versions(v1, v2);
+    mockPrisma.interviewSession.findMany.mockResolvedValue([{ id: 3, keyVersion: { version: 1 }, chiefComplaint: 'enc:cc' }]);
+    mockPrisma.patient.findMany.mockResolvedValue([]);
+    mockPrisma.sessionKeyGrant.findMany.mockResolvedValue([]);
+
+    await expect(revokeKeyVersion(5, 1)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(revokeKeyVersion(5, 2)).rejects.toMatchObject({ statusCode: 409 });
+    expect(mockPrisma.keyVersion.update).not.toHaveBeenCalled();
+
+    // 仅剩不含密文（或只含信封加密密文）的记录时解除其标记
+    const envelope = `enc:${Buffer.from(JSON.stringify({ ciphertext: 'c', algorithm: 'AES-GCM', iv: 'i', timestamp: 1 })).toString('base64')}`;
+    mockPrisma.interviewSession.findMany.mockResolvedValue([{ id: 3, keyVersion: { version: 1 }, chiefComplaint: { text: '头痛' }, pastHistory: envelope }]);
+    await revokeKeyVersion(5, 1);
+    expect(mockPrisma.interviewSession.updateMany).toHaveBeenCalledWith({ where: { keyVersionId: 11 }, data: { keyVersionId: null } });
+    expect(mockPrisma.keyVersion.update).toHaveBeenCalledWith({
+      where: { id: 11 },
+      data: expect.objectContaining({ isRevoked: true, encryptedPrivateKey: null }),
+    });
+  });
+});
@@ -15,6 +15,16 @@ vi.mock('../services/knowledge.service', () => ({
   deleteKnowledgeBulk: vi.fn(),
 }));
 
+vi.mock('../services/knowledgeWorkflow.service', () => ({
+  createDraft: vi.fn(),
+  approveDraft: vi.fn(),
+}));
+
+vi.mock('../services/knowledgeSync.service', () => ({
+  syncKnowledgeBase: vi.fn(),
+  listKnowledgeSources: vi.fn(),
+}));
+
 vi.mock('../utils/secureLogger', () => ({
   secureLogger: {
     info: vi.fn(),
@@ -25,6 +35,8 @@ vi.mock('../utils/secureLogger', () => ({
 }));
 
 import * as knowledgeService from '../services/knowledge.service';
+import * as knowledgeWorkflow from '../services/knowledgeWorkflow.service';
+import { ErrorTypes } from '../middleware/errorHandler';
 
 const mockService = knowledgeService as unknown as {
   getAllKnowledge: ReturnType<typeof vi.fn>;
@@ -38,6 +50,11 @@ const mockService = knowledgeService as unknown as {
   deleteKnowledgeBulk: ReturnType<typeof vi.fn>;
 };
 
+const mockWorkflow = knowledgeWorkflow as unknown as {
+  createDraft: ReturnType<typeof vi.fn>;
+  approveDraft: ReturnType<typeof vi.fn>;
+};
+
 describe('KnowledgeController', () => {
   let mockReq: Partial<Request>;
   let mockRes: unknown;
@@ -226,24 +243,28 @@ describe('KnowledgeController', () => {
     });
   });
 
-  describe('upsertKnowledge', () => {
-    it('应该成功创建或更新知识库条目', async () => {
-      const mockData = { symptomKey: 'headache', displayName: '头痛' };
+  describe('createKnowledgeDraft', () => {
+    it('应该创建草稿而不直接修改线上条目', async () => {
+      const mockDraft = { id: 1, symptomKey: 'headache', status: 'draft' };
       mockReq.body = { symptomKey: 'headache', displayName: '头痛' };
-      mockService.upsertKnowledge.mockResolvedValueOnce(mockData);
+      mockReq.operator = { operatorId: 7, role: 'admin', token: 't' };
+      mockWorkflow.createDraft.mockResolvedValueOnce(mockDraft);
 
-      await knowledgeController.upsertKnowledge(mockReq as Request, mockRes as Response);
+      await knowledgeController.createKnowledgeDraft(mockReq as Request, mockRes as Response);
 
+      expect(mockWorkflow.createDraft).toHaveBeenCalledWith(mockReq.body, 7);
+      expect(mockService.upsertKnowledge).not.toHaveBeenCalled();
+      expect(mockStatus).toHaveBeenCalledWith(201);
       expect(mockJson).toHaveBeenCalledWith({
         success: true,
-        data: mockData,
+        data: mockDraft,
       });
     });
 
     it('应该在缺少symptomKey时返回400', async () => {
       mockReq.body = { displayName: '头痛' };
 
-      await knowledgeController.upsertKnowledge(mockReq as Request, mockRes as Response);
+      await knowledgeController.createKnowledgeDraft(mockReq as Request, mockRes as Response);
 
       expect(mockStatus).toHaveBeenCalledWith(400);
       expect(mockJson).toHaveBeenCalledWith({
@@ -254,14 +275,37 @@ describe('KnowledgeController', () => {
 
     it('应该在服务出错时返回500', async () => {
       mockReq.body = { symptomKey: 'headache', displayName: '头痛' };
-      mockService.upsertKnowledge.mockRejectedValueOnce(new Error('Database error'));
+      mockWorkflow.createDraft.mockRejectedValueOnce(new Error('Database error'));
 
-      await knowledgeController.upsertKnowledge(mockReq as Request, mockRes as Response);
+      await knowledgeController.createKnowledgeDraft(mockReq as Request, mockRes as Response);
 
       expect(mockStatus).toHaveBeenCalledWith(500);
     });
   });
 
+  describe('approveKnowledgeDraft', () => {
+    it('应该透传业务错误的状态码', async () => {
+      mockReq.params = { id: '3' };
+      mockReq.operator = { operatorId: 7, role: 'admin', token: 't' };
+      mockWorkflow.approveDraft.mockRejectedValueOnce(ErrorTypes.Forbidden('草稿需由作者以外的管理员审核'));
+
+      await knowledgeController.approveKnowledgeDraft(mockReq as Request, mockRes as Response);
+
+      expect(mockWorkflow.approveDraft).toHaveBeenCalledWith(3, 7, undefined);
+      expect(mockStatus).toHaveBeenCalledWith(403);
+      expect(mockJson).toHaveBeenCalledWith({ success: false, message: '草稿需由作者以外的管理员审核' });
+    });
+
+    it('应该拒绝非法的草稿 ID', async () => {
+      mockReq.params = { id: 'abc' };
+
+      await knowledgeController.approveKnowledgeDraft(mockReq as Request, mockRes as Response);
+
+      expect(mockStatus).toHaveBeenCalledWith(400);
+      expect(mockWorkflow.approveDraft).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deleteKnowledge', () => {
     it('应该成功删除知识库条目', async () => {
       mockReq.params = { key: 'headache' };
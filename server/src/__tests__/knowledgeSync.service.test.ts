@@ -0,0 +1,168 @@
+/**
+ * 知识库文件同步测试
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../prisma', () => ({
+  default: {
+    knowledgeSource: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    symptomKnowledge: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+    knowledgeDraft: {
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../services/eventBus.service', () => ({
+  eventBus: { broadcast: vi.fn() },
+}));
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import { eventBus } from '../services/eventBus.service';
+import { parseKnowledgeFile, syncKnowledgeBase } from '../services/knowledgeSync.service';
+
+const mockPrisma = prisma as unknown as {
+  knowledgeSource: {
+    findUnique: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+    upsert: ReturnType<typeof vi.fn>;
+  };
+  symptomKnowledge: { findUnique: ReturnType<typeof vi.fn>; upsert: ReturnType<typeof vi.fn> };
+  knowledgeDraft: { findFirst: ReturnType<typeof vi.fn>; create: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
+};
+
+const headache = JSON.stringify({ symptomKey: 'headache', displayName: '头痛', redFlags: ['突发剧烈头痛'] });
+
+describe('KnowledgeSyncService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-sync-'));
+    mockPrisma.knowledgeSource.findUnique.mockResolvedValue(null);
+    mockPrisma.knowledgeSource.findMany.mockResolvedValue([]);
+    mockPrisma.symptomKnowledge.findUnique.mockResolvedValue(null);
+    mockPrisma.knowledgeDraft.findFirst.mockResolvedValue(null);
+    mockPrisma.knowledgeDraft.create.mockResolvedValue({ id: 11, symptomKey: 'headache' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('应该校验文件结构并补全缺省字段', () => {
+    expect(parseKnowledgeFile(headache)).toEqual({
+      symptomKey: 'headache',
+      displayName: '头痛',
+      requiredQuestions: [],
+      associatedSymptoms: [],
+      redFlags: ['突发剧烈头痛'],
+      physicalSigns: [],
+    });
+    expect(() => parseKnowledgeFile('{"symptomKey":"Head Ache"}')).toThrow(/symptomKey.*displayName/);
+    expect(() => parseKnowledgeFile('{')).toThrow(/JSON 解析失败/);
+  });
+
+  it('变化的文件只生成待审核草稿，不改动线上条目，仅广播待审核通知', async () => {
+    fs.writeFileSync(path.join(dir, 'headache.json'), headache);
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{"displayName":"坏文件"}');
+    fs.writeFileSync(path.join(dir, 'README.md'), '# ignored');
+
+    const result = await syncKnowledgeBase({ dir });
+
+    expect(result.scanned).toBe(2);
+    expect(result.drafted).toEqual([{ file: 'headache.json', symptomKey: 'headache', draftId: 11 }]);
+    expect(result.errors).toEqual([{ file: 'broken.json', message: expect.stringContaining('symptomKey') }]);
+    expect(mockPrisma.knowledgeDraft.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        symptomKey: 'headache',
+        baseVersion: null,
+        status: 'pending_review',
+        note: '文件同步：headache.json',
+        content: expect.objectContaining({ displayName: '头痛', redFlags: ['突发剧烈头痛'] }),
+      }),
+    });
+    expect(mockPrisma.symptomKnowledge.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.knowledgeSource.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { filePath: path.join(dir, 'broken.json') },
+        update: expect.objectContaining({ status: 'error' }),
+      })
+    );
+    expect(eventBus.broadcast).toHaveBeenCalledTimes(1);
+    expect(eventBus.broadcast).toHaveBeenCalledWith('knowledge_drafts_pending', {
+      drafts: [{ symptomKey: 'headache', draftId: 11 }],
+    });
+  });
+
+  it('内容与线上一致时不生成草稿，同一文件未审核的草稿直接更新', async () => {
+    fs.writeFileSync(path.join(dir, 'headache.json'), headache);
+    const live = {
+      symptomKey: 'headache',
+      displayName: '头痛',
+      requiredQuestions: [],
+      associatedSymptoms: [],
+      redFlags: ['突发剧烈头痛'],
+      physicalSigns: [],
+      version: 4,
+    };
+    mockPrisma.symptomKnowledge.findUnique.mockResolvedValueOnce(live);
+
+    const unchanged = await syncKnowledgeBase({ dir, force: true });
+    expect(unchanged.drafted).toEqual([]);
+    expect(mockPrisma.knowledgeDraft.create).not.toHaveBeenCalled();
+    expect(eventBus.broadcast).not.toHaveBeenCalled();
+
+    mockPrisma.symptomKnowledge.findUnique.mockResolvedValueOnce({ ...live, redFlags: ['管理员修改'] });
+    mockPrisma.knowledgeDraft.findFirst.mockResolvedValueOnce({ id: 7, status: 'pending_review' });
+    mockPrisma.knowledgeDraft.update.mockResolvedValueOnce({ id: 7, symptomKey: 'headache' });
+
+    const changed = await syncKnowledgeBase({ dir, force: true });
+    expect(changed.drafted).toEqual([{ file: 'headache.json', symptomKey: 'headache', draftId: 7 }]);
+    expect(mockPrisma.knowledgeDraft.update).toHaveBeenCalledWith({
+      where: { id: 7 },
+      data: expect.objectContaining({ baseVersion: 4, status: 'pending_review' }),
+    });
+    expect(mockPrisma.symptomKnowledge.upsert).not.toHaveBeenCalled();
+  });
+
+  it('哈希未变化的文件应跳过，已删除的文件应标记', async () => {
+    const filePath = path.join(dir, 'headache.json');
+    fs.writeFileSync(filePath, headache);
+    const hash = crypto.createHash('md5').update(headache).digest('hex');
+    mockPrisma.knowledgeSource.findUnique.mockResolvedValueOnce({ filePath, status: 'processed', hash });
+    mockPrisma.knowledgeSource.findMany.mockResolvedValueOnce([
+      { filePath: path.join(dir, 'old.json'), fileName: 'old.json', status: 'processed', errorMessage: null },
+    ]);
+
+    const result = await syncKnowledgeBase({ dir });
+
+    expect(result.unchanged).toBe(1);
+    expect(result.removed).toEqual(['old.json']);
+    expect(mockPrisma.symptomKnowledge.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.knowledgeSource.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { filePath: path.join(dir, 'old.json') },
+        update: expect.objectContaining({ status: 'error', errorMessage: '文件已删除' }),
+      })
+    );
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * 知识库审核发布流程测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => {
+  const client = {
+    symptomKnowledge: {
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+    knowledgeDraft: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    knowledgeVersion: {
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { default: client };
+});
+
+vi.mock('../services/eventBus.service', () => ({
+  eventBus: { broadcast: vi.fn() },
+}));
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import { eventBus } from '../services/eventBus.service';
+import { approveDraft, createDraft, diffKnowledgeContent, submitDraft, updateDraft } from '../services/knowledgeWorkflow.service';
+
+const mockPrisma = prisma as unknown as {
+  symptomKnowledge: { findUnique: ReturnType<typeof vi.fn>; upsert: ReturnType<typeof vi.fn> };
+  knowledgeDraft: { findUnique: ReturnType<typeof vi.fn>; create: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
+  knowledgeVersion: { create: ReturnType<typeof vi.fn> };
+};
+
+const pendingDraft = {
+  id: 3,
+  symptomKey: 'headache',
+  baseVersion: 2,
+  content: { displayName: '头痛', redFlags: ['突发剧烈头痛'] },
+  status: 'pending_review',
+  note: '补充警惕征象',
+  authorId: 5,
+};
+
+describe('KnowledgeWorkflowService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('应该计算字段级差异', () => {
+    const changes = diffKnowledgeContent(
+      { displayName: '头痛', redFlags: [], priority: 'medium' },
+      { displayName: '头痛', redFlags: ['突发剧烈头痛'], description: '头部疼痛' }
+    );
+    expect(changes).toEqual([
+      { field: 'redFlags', before: [], after: ['突发剧烈头痛'] },
+      { field: 'priority', before: 'medium', after: null },
+      { field: 'description', before: null, after: '头部疼痛' },
+    ]);
+  });
+
+  it('新建草稿应基于当前线上内容并记录基线版本', async () => {
+    mockPrisma.symptomKnowledge.findUnique.mockResolvedValueOnce({ symptomKey: 'headache', displayName: '头痛', version: 2, priority: 'high' });
+    mockPrisma.knowledgeDraft.create.mockResolvedValueOnce({ id: 1 });
+
+    await createDraft({ symptomKey: 'headache', displayName: '头痛', requiredQuestions: [], description: '头部疼痛' }, 5);
+
+    expect(mockPrisma.knowledgeDraft.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        symptomKey: 'headache',
+        baseVersion: 2,
+        authorId: 5,
+        content: expect.objectContaining({ displayName: '头痛', priority: 'high', description: '头部疼痛' }),
+      }),
+    });
+    expect(mockPrisma.symptomKnowledge.upsert).not.toHaveBeenCalled();
+  });
+
+  it('作者不能审核自己的草稿', async () => {
+    mockPrisma.knowledgeDraft.findUnique.mockResolvedValueOnce(pendingDraft);
+
+    await expect(approveDraft(3, 5)).rejects.toMatchObject({ statusCode: 403 });
+    expect(mockPrisma.symptomKnowledge.upsert).not.toHaveBeenCalled();
+  });
+
+  it('只有作者可以修改或提交草稿', async () => {
+    const draft = { ...pendingDraft, status: 'draft' };
+    mockPrisma.knowledgeDraft.findUnique.mockResolvedValue(draft);
+    mockPrisma.knowledgeDraft.update.mockResolvedValue(draft);
+
+    await expect(updateDraft(3, { description: '改写' }, 9)).rejects.toMatchObject({ statusCode: 403 });
+    await expect(submitDraft(3, 9)).rejects.toMatchObject({ statusCode: 403 });
+    expect(mockPrisma.knowledgeDraft.update).not.toHaveBeenCalled();
+
+    await updateDraft(3, { description: '补充' }, 5);
+    await submitDraft(3, 5);
+    expect(mockPrisma.knowledgeDraft.update).toHaveBeenCalledTimes(2);
+  });
+
+  it('线上版本已变化时应拒绝发布', async () => {
+    mockPrisma.knowledgeDraft.findUnique.mockResolvedValueOnce(pendingDraft);
+    mockPrisma.symptomKnowledge.findUnique.mockResolvedValueOnce({ symptomKey: 'headache', displayName: '头痛', version: 3 });
+
+    await expect(approveDraft(3, 9)).rejects.toMatchObject({ statusCode: 409 });
+    expect(mockPrisma.knowledgeVersion.create).not.toHaveBeenCalled();
+    expect(eventBus.broadcast).not.toHaveBeenCalled();
+  });
+
+  it('审核通过后应发布新版本并广播', async () => {
+    mockPrisma.knowledgeDraft.findUnique.mockResolvedValueOnce(pendingDraft);
+    mockPrisma.symptomKnowledge.findUnique.mockResolvedValueOnce({ symptomKey: 'headache', displayName: '头痛', redFlags: [], version: 2 });
+    const changes = [{ field: 'redFlags', before: [], after: ['突发剧烈头痛'] }];
+    mockPrisma.knowledgeVersion.create.mockResolvedValueOnce({ id: 10, symptomKey: 'headache', version: 3, changes });
+
+    const published = await approveDraft(3, 9, '同意');
+
+    expect(mockPrisma.symptomKnowledge.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: expect.objectContaining({ version: 3, redFlags: ['突发剧烈头痛'] }) })
+    );
+    expect(mockPrisma.knowledgeVersion.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ version: 3, approvedBy: 9, authorId: 5, draftId: 3, changes }),
+    });
+    expect(published.version).toBe(3);
+    expect(mockPrisma.knowledgeDraft.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: expect.objectContaining({ status: 'approved', reviewerId: 9, reviewComment: '同意' }),
+    });
+    expect(eventBus.broadcast).toHaveBeenCalledWith('knowledge_published', {
+      symptomKey: 'headache',
+      version: 3,
+      changes,
+    });
+  });
+});
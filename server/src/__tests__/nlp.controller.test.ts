@@ -1,6 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { analyzeComplaint, parseChiefComplaint } from '../controllers/nlp.controller';
+import { analyzeComplaint, parseChiefComplaint, extractHpi } from '../controllers/nlp.controller';
 import type { Response } from 'express';
+import * as knowledgeService from '../services/knowledge.service';
+
+vi.mock('../services/knowledge.service', () => ({
+  getAllKnowledge: vi.fn(),
+}));
+
+const knowledgeRecords = [
+  { symptomKey: 'fever', displayName: '发热', requiredQuestions: [] },
+  { symptomKey: 'headache', displayName: '头痛', requiredQuestions: [] },
+  { symptomKey: 'cough_and_expectoration', displayName: '咳嗽与咳痰', requiredQuestions: [] },
+  { symptomKey: 'chest_pain', displayName: '胸痛', requiredQuestions: [] },
+];
 
 interface MockRequest {
   body: Record<string, unknown>;
@@ -21,6 +33,7 @@ describe('NLPController', () => {
     vi.clearAllMocks();
     mockReq = { body: {} };
     mockRes = createMockRes();
+    (knowledgeService.getAllKnowledge as ReturnType<typeof vi.fn>).mockResolvedValue(knowledgeRecords);
   });
 
   afterEach(() => {
@@ -100,6 +113,39 @@ describe('NLPController', () => {
       );
     });
 
+    it('应该附带知识库记录与字符区间', async () => {
+      mockReq.body = { text: '咳嗽3天' };
+      await analyzeComplaint(mockReq as never, mockRes as Response);
+      const payload = (mockRes as Record<string, ReturnType<typeof vi.fn>>).json.mock.calls[0][0];
+      expect(payload.data.matchedSymptoms[0]).toEqual(
+        expect.objectContaining({
+          name: '咳嗽',
+          key: 'cough_and_expectoration',
+          knowledge: knowledgeRecords[2],
+          spans: [{ start: 0, end: 2, text: '咳嗽' }],
+        })
+      );
+    });
+
+    it('应该将否定症状与阳性症状分开返回', async () => {
+      mockReq.body = { text: '胸痛2小时，否认发热、咳嗽' };
+      await analyzeComplaint(mockReq as never, mockRes as Response);
+      const payload = (mockRes as Record<string, ReturnType<typeof vi.fn>>).json.mock.calls[0][0];
+      expect(payload.data.matchedSymptoms.map((s: { name: string }) => s.name)).toEqual(['胸痛']);
+      expect(payload.data.negatedSymptoms.map((s: { name: string }) => s.name)).toEqual(['发热', '咳嗽']);
+      expect(payload.data.matchedCount).toBe(1);
+    });
+
+    it('应该在知识库不可用时退化为内置词典', async () => {
+      (knowledgeService.getAllKnowledge as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('db down'));
+      mockReq.body = { text: '头晕1天' };
+      await analyzeComplaint(mockReq as never, mockRes as Response);
+      const payload = (mockRes as Record<string, ReturnType<typeof vi.fn>>).json.mock.calls[0][0];
+      expect(payload.data.matchedSymptoms).toEqual([
+        { name: '头晕', key: '头晕', knowledge: null, spans: [{ start: 0, end: 2, text: '头晕' }] },
+      ]);
+    });
+
     it('应该在无匹配症状时返回空数组', async () => {
       mockReq.body = { text: '患者感到不适' };
       await analyzeComplaint(mockReq as never, mockRes as Response);
@@ -128,71 +174,72 @@ describe('NLPController', () => {
       expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).status).toHaveBeenCalledWith(400);
     });
 
-    it('应该成功解析主诉结构', async () => {
-      mockReq.body = { text: '患者重度头痛3天，伴有恶心' };
+    it('应该返回完整的主诉解析结果', async () => {
+      mockReq.body = { text: '患者头痛3天' };
       await parseChiefComplaint(mockReq as never, mockRes as Response);
       expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith(
         expect.objectContaining({
           success: true,
           data: expect.objectContaining({
-            symptoms: expect.arrayContaining(['头痛', '恶心']),
-            duration: { value: 3, unit: '天' },
-            severity: '重度',
+            complaint_text: '头痛',
+            duration_value: 3,
+            duration_unit: '天',
+            duration_raw: '3天',
+            normalized_text: '头痛 3天',
+            confidence: expect.any(Number),
+            failure_reason: null,
           }),
         })
       );
     });
 
-    it('应该正确提取轻度严重程度', async () => {
-      mockReq.body = { text: '患者轻微头痛' };
+    it('应该支持范围时长', async () => {
+      mockReq.body = { text: '腹痛2-3周' };
       await parseChiefComplaint(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          success: true,
-          data: expect.objectContaining({
-            severity: '轻度',
-          }),
-        })
-      );
+      const payload = (mockRes as Record<string, ReturnType<typeof vi.fn>>).json.mock.calls[0][0];
+      expect(payload.data.duration_value).toEqual({ min: 2, max: 3 });
+      expect(payload.data.duration_unit).toBe('周');
     });
 
-    it('应该正确提取中度严重程度', async () => {
-      mockReq.body = { text: '患者明显头痛' };
+    it('应该返回多个症状-时长病程段', async () => {
+      mockReq.body = { text: '反复咳嗽10年，加重伴气促3天' };
       await parseChiefComplaint(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          success: true,
-          data: expect.objectContaining({
-            severity: '中度',
-          }),
-        })
-      );
+      const payload = (mockRes as Record<string, ReturnType<typeof vi.fn>>).json.mock.calls[0][0];
+      expect(payload.data.episodes.map((e: { role: string; duration_raw: string }) => [e.role, e.duration_raw])).toEqual([
+        ['primary', '10年'],
+        ['exacerbation', '3天'],
+      ]);
     });
 
-    it('应该正确提取重度严重程度', async () => {
-      mockReq.body = { text: '患者剧烈头痛' };
+    it('应该在未识别到时长时给出失败原因', async () => {
+      mockReq.body = { text: '患者感到不适' };
       await parseChiefComplaint(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          success: true,
-          data: expect.objectContaining({
-            severity: '重度',
-          }),
-        })
-      );
+      const payload = (mockRes as Record<string, ReturnType<typeof vi.fn>>).json.mock.calls[0][0];
+      expect(payload.data.duration_value).toBeNull();
+      expect(payload.data.failure_reason).toBe('未识别到持续时间');
     });
+  });
 
-    it('应该正确提取部位信息', async () => {
-      mockReq.body = { text: '患者腹部疼痛3天' };
-      await parseChiefComplaint(mockReq as never, mockRes as Response);
-      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).json).toHaveBeenCalledWith(
-        expect.objectContaining({
-          success: true,
-          data: expect.objectContaining({
-            location: '腹部',
-          }),
-        })
+  describe('extractHpi', () => {
+    it('应该在叙述为空时返回400', async () => {
+      mockReq.body = { narrative: '' };
+      await extractHpi(mockReq as never, mockRes as Response);
+      expect((mockRes as Record<string, ReturnType<typeof vi.fn>>).status).toHaveBeenCalledWith(400);
+    });
+
+    it('应该返回带区间的字段建议', async () => {
+      mockReq.body = { narrative: '突发胸骨后闷痛2小时，无发热', mainSymptom: '胸痛' };
+      await extractHpi(mockReq as never, mockRes as Response);
+      const payload = (mockRes as Record<string, ReturnType<typeof vi.fn>>).json.mock.calls[0][0];
+      const byField = Object.fromEntries(
+        payload.data.proposals.map((p: { field: string; value: unknown }) => [p.field, p.value])
       );
+      expect(byField).toEqual({
+        onsetMode: 'sudden',
+        location: '胸骨后',
+        quality: ['闷痛'],
+        negativeSymptoms: '无发热',
+      });
     });
   });
 });
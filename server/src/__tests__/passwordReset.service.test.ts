@@ -0,0 +1,133 @@
+/**
+ * 自助重置密码测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import bcrypt from 'bcryptjs';
+
+vi.mock('../prisma', () => ({
+  default: {
+    operator: { findUnique: vi.fn(), update: vi.fn() },
+    emailVerificationCode: { create: vi.fn(), findFirst: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    securityQuestion: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../utils/redis-client', () => ({
+  getRedisClient: vi.fn().mockResolvedValue(null),
+  incrWithExpire: vi.fn(),
+}));
+
+vi.mock('../utils/auth-helpers', () => ({
+  hashPassword: vi.fn().mockResolvedValue('hashed-new'),
+}));
+
+vi.mock('../utils/mailer', () => ({
+  sendMail: vi.fn(),
+  canDeliverMail: vi.fn(),
+}));
+
+vi.mock('../services/refreshSession.service', () => ({
+  revokeOperatorRefreshSessions: vi.fn().mockResolvedValue(2),
+}));
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn(), logSecurity: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import { canDeliverMail, sendMail } from '../utils/mailer';
+import { revokeOperatorRefreshSessions } from '../services/refreshSession.service';
+import { maskEmail, resetPassword, startPasswordReset, verifyPasswordReset } from '../services/passwordReset.service';
+
+type Mock = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  operator: { findUnique: Mock; update: Mock };
+  emailVerificationCode: { create: Mock; findFirst: Mock; update: Mock; updateMany: Mock };
+  securityQuestion: { findMany: Mock };
+};
+
+const operator = { id: 5, email: 'student@example.com', emailVerified: true, encryptedPrivateKey: 'enc-sk' };
+
+describe('PasswordResetService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.operator.findUnique.mockResolvedValue(operator);
+    mockPrisma.securityQuestion.findMany.mockResolvedValue([]);
+    vi.mocked(canDeliverMail).mockReturnValue(true);
+  });
+
+  it('已验证邮箱的账号下发验证码，并作废旧验证码（用户名保留大小写）', async () => {
+    mockPrisma.securityQuestion.findMany.mockResolvedValue([{ id: 1, question: '小学名称？' }]);
+
+    const options = await startPasswordReset(' Student ');
+
+    expect(mockPrisma.operator.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { username: 'Student' } }));
+    expect(options).toEqual({
+      methods: ['email', 'security_questions'],
+      maskedEmail: 'st***@example.com',
+      questions: [{ id: 1, question: '小学名称？' }],
+    });
+    expect(mockPrisma.emailVerificationCode.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { operatorId: 5, type: 'password_reset', usedAt: null },
+    }));
+    const { code } = mockPrisma.emailVerificationCode.create.mock.calls[0][0].data as { code: string };
+    expect(code).toMatch(/^\d{6}$/);
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: 'student@example.com', text: expect.stringContaining(code) }));
+  });
+
+  it('用户不存在与未设置验证方式时返回相同结果', async () => {
+    mockPrisma.operator.findUnique.mockResolvedValue(null);
+    const missing = await startPasswordReset('nobody');
+    mockPrisma.operator.findUnique.mockResolvedValue({ ...operator, emailVerified: false });
+    const unverified = await startPasswordReset('student');
+
+    expect(missing).toEqual({ methods: [], maskedEmail: null, questions: [] });
+    expect(unverified).toEqual(missing);
+    expect(sendMail).not.toHaveBeenCalled();
+    expect(maskEmail('a@b.cn')).toBe('a***@b.cn');
+  });
+
+  it('邮件无法送达时不提供邮箱验证，也不生成验证码', async () => {
+    vi.mocked(canDeliverMail).mockReturnValue(false);
+    mockPrisma.securityQuestion.findMany.mockResolvedValue([{ id: 1, question: '小学名称？' }]);
+
+    const options = await startPasswordReset('student');
+
+    expect(options).toEqual({ methods: ['security_questions'], maskedEmail: null, questions: [{ id: 1, question: '小学名称？' }] });
+    expect(mockPrisma.emailVerificationCode.create).not.toHaveBeenCalled();
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('须答对全部安全问题，连续失败后拒绝继续验证', async () => {
+    const hashed = await bcrypt.hash('实验小学', 4);
+    mockPrisma.securityQuestion.findMany.mockResolvedValue([{ id: 1, answer: hashed }, { id: 2, answer: hashed }]);
+
+    await expect(verifyPasswordReset('lockme', {
+      method: 'security_questions',
+      answers: [{ questionId: 1, answer: '实验小学' }],
+    })).rejects.toMatchObject({ statusCode: 400 });
+
+    for (let i = 0; i < 4; i++) {
+      await expect(verifyPasswordReset('lockme', { method: 'email', code: '000000' })).rejects.toMatchObject({ statusCode: 400 });
+    }
+    await expect(verifyPasswordReset('lockme', {
+      method: 'security_questions',
+      answers: [{ questionId: 1, answer: '实验小学' }, { questionId: 2, answer: ' 实验小学 ' }],
+    })).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  it('验证码正确时签发一次性凭证，重置密码后吊销全部会话并提示重新包装私钥', async () => {
+    mockPrisma.emailVerificationCode.findFirst.mockResolvedValue({ id: 8, code: '123456' });
+
+    const { resetToken } = await verifyPasswordReset('student', { method: 'email', code: '123456' });
+    expect(mockPrisma.emailVerificationCode.update).toHaveBeenCalledWith({ where: { id: 8 }, data: { usedAt: expect.any(Date) } });
+
+    const result = await resetPassword(resetToken, 'NewPass123');
+    expect(result).toEqual({ revokedSessions: 2, keyRewrapRequired: true });
+    expect(mockPrisma.operator.update).toHaveBeenCalledWith({ where: { id: 5 }, data: { password: 'hashed-new' } });
+    expect(revokeOperatorRefreshSessions).toHaveBeenCalledWith(5);
+
+    await expect(resetPassword(resetToken, 'NewPass123')).rejects.toMatchObject({ statusCode: 401 });
+  });
+});
@@ -14,6 +14,7 @@ import prisma from '../prisma';
 vi.mock('../services/patient.service', () => ({
   getAllPatients: vi.fn(),
   createPatient: vi.fn(),
+  findDuplicatePatients: vi.fn(),
 }));
 
 vi.mock('../prisma', () => ({
@@ -32,6 +33,7 @@ describe('PatientController', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    (patientService.findDuplicatePatients as ReturnType<typeof vi.fn>).mockResolvedValue([]);
 
     jsonMock = vi.fn();
     statusMock = vi.fn(() => ({ json: jsonMock }));
@@ -113,6 +115,34 @@ describe('PatientController', () => {
       );
     });
 
+    it('存在疑似重复患者时返回409及候选患者，不创建', async () => {
+      const candidates = [{ id: 7, name: '张三', score: 85, matchedOn: ['name', 'birthDate', 'gender'] }];
+      (patientService.findDuplicatePatients as ReturnType<typeof vi.fn>).mockResolvedValue(candidates);
+
+      mockReq.body = { name: '张三', gender: '男', birthDate: '1994-01-01' };
+
+      await patientController.createPatient(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(409);
+      expect(jsonMock).toHaveBeenCalledWith(
+        expect.objectContaining({ success: false, data: { candidates } })
+      );
+      expect(patientService.createPatient).not.toHaveBeenCalled();
+    });
+
+    it('确认忽略查重时直接创建患者', async () => {
+      (patientService.createPatient as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 8 });
+
+      mockReq.body = { name: '张三', gender: '男', ignoreDuplicates: true };
+      mockReq.operator = { operatorId: 3, role: 'doctor', token: 't' };
+
+      await patientController.createPatient(mockReq as Request, mockRes as Response);
+
+      expect(patientService.findDuplicatePatients).not.toHaveBeenCalled();
+      expect(patientService.createPatient).toHaveBeenCalledWith({ name: '张三', gender: '男' }, 3);
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: { id: 8 } }));
+    });
+
     it('应该在发生错误时返回500', async () => {
       (patientService.createPatient as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('DB Error'));
 
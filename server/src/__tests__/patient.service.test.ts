@@ -1,19 +1,38 @@
 import { describe, it, expect, beforeEach, afterAll, vi } from 'vitest';
 import {
+  backfillPatientBlindIndex,
   getAllPatients,
   createPatient,
+  findDuplicatePatients,
+  getPatientTimeline,
+  mergePatients,
+  updatePatientWithEncryption,
   PatientData,
 } from '../services/patient.service';
 import prisma from '../prisma';
+import { buildBlindIndex } from '../services/patientDuplicates';
 
-vi.mock('../prisma', () => ({
-  default: {
+vi.mock('../prisma', () => {
+  const client = {
     patient: {
       findMany: vi.fn(),
+      findUnique: vi.fn(),
       create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
     },
-  },
-}));
+    interviewSession: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    careEpisode: {
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { default: client };
+});
 
 const mockPrisma = prisma as unknown as Record<string, Record<string, ReturnType<typeof vi.fn>>>;
 
@@ -27,7 +46,7 @@ describe('PatientService', () => {
   });
 
   describe('getAllPatients', () => {
-    it('应该返回所有患者列表', async () => {
+    it('应该返回所有患者列表（不含教学病例生成的模拟患者）', async () => {
       const mockData = [
         { id: 1, name: '张三', gender: 'male' },
         { id: 2, name: '李四', gender: 'female' },
@@ -38,6 +57,7 @@ describe('PatientService', () => {
 
       expect(result).toEqual(mockData);
       expect(prisma.patient.findMany).toHaveBeenCalledWith({
+        where: { isSimulated: false },
         orderBy: { createdAt: 'desc' },
       });
     });
@@ -73,6 +93,9 @@ describe('PatientService', () => {
       expect(result).toEqual(mockResult);
       expect(prisma.patient.create).toHaveBeenCalledWith({
         data: {
+          nameIndex: expect.any(String),
+          namePinyinIndex: expect.any(String),
+          phoneIndex: expect.any(String),
           name: '张三',
           gender: 'male',
           birthDate: new Date('1990-01-01'),
@@ -100,6 +123,9 @@ describe('PatientService', () => {
       expect(result).toEqual(mockResult);
       expect(prisma.patient.create).toHaveBeenCalledWith({
         data: {
+          nameIndex: expect.any(String),
+          namePinyinIndex: expect.any(String),
+          phoneIndex: null,
           name: '李四',
           gender: 'female',
           birthDate: undefined,
@@ -147,4 +173,192 @@ describe('PatientService', () => {
       await expect(createPatient(mockData)).rejects.toThrow('Database connection failed');
     });
   });
+
+  describe('findDuplicatePatients', () => {
+    it('按盲索引召回并返回达到阈值的疑似重复患者', async () => {
+      const existing = (id: number, name: string, extra: Record<string, unknown>) => ({
+        id,
+        name: 'enc:ciphertext',
+        gender: '男',
+        birthDate: null,
+        createdAt: new Date('2026-01-01'),
+        _count: { sessions: 2 },
+        ...buildBlindIndex({ name }),
+        phoneIndex: null,
+        ...extra,
+      });
+      mockPrisma.patient.findMany.mockResolvedValue([
+        existing(1, '张三', {}),
+        existing(2, '章三', { birthDate: new Date('1990-01-01') }),
+        existing(3, '张三', { birthDate: new Date('1990-01-01') }),
+      ]);
+
+      const candidates = await findDuplicatePatients({
+        name: '张三',
+        gender: '男',
+        birthDate: '1990-01-01',
+        contactInfo: { phone: '138 0013 8000' },
+      });
+
+      const index = buildBlindIndex({ name: '张三', phone: '13800138000' });
+      expect(prisma.patient.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          isSimulated: false,
+          OR: [
+            { nameIndex: index.nameIndex },
+            { namePinyinIndex: index.namePinyinIndex },
+            { phoneIndex: index.phoneIndex },
+          ],
+        },
+      }));
+      // 仅同名同性别（55）低于阈值，不提示
+      expect(candidates.map(c => [c.id, c.score])).toEqual([[3, 85], [2, 75]]);
+      expect(candidates[1]).toMatchObject({ name: 'enc:ciphertext', sessionCount: 2, matchedOn: ['pinyin', 'birthDate', 'gender'] });
+    });
+
+    it('姓名已加密且无电话时不查重', async () => {
+      await expect(findDuplicatePatients({ name: 'enc:ciphertext', gender: '男' })).resolves.toEqual([]);
+      expect(prisma.patient.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updatePatientWithEncryption', () => {
+    it('敏感字段以新密文写入时刷新加密元数据', async () => {
+      const now = new Date('2026-10-19T08:00:00Z');
+      mockPrisma.patient.update.mockResolvedValue({ id: 1 });
+
+      await updatePatientWithEncryption(1, { name: 'enc:new-name', address: 'enc:new-address', encryptionVersion: '1.0' }, now);
+      expect(prisma.patient.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          name: 'enc:new-name',
+          address: 'enc:new-address',
+          nameIndex: null,
+          namePinyinIndex: null,
+          encryptionVersion: '1.0',
+          encryptedAt: now,
+        },
+      });
+
+      // 仅更新非敏感字段时不改动加密元数据
+      await updatePatientWithEncryption(1, { occupation: '教师' }, now);
+      expect(prisma.patient.update).toHaveBeenLastCalledWith({ where: { id: 1 }, data: { occupation: '教师' } });
+    });
+
+    it('患者不存在时返回 404', async () => {
+      mockPrisma.patient.update.mockRejectedValue({ code: 'P2025' });
+
+      await expect(updatePatientWithEncryption(99, { occupation: '教师' })).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('backfillPatientBlindIndex', () => {
+    it('按 ID 游标分页，无法建索引的患者跳过且不会被重复选中', async () => {
+      mockPrisma.patient.findMany
+        .mockResolvedValueOnce([
+          { id: 3, name: ' · ', contactInfo: null },
+          { id: 7, name: '张三', contactInfo: { phone: '13800138000' } },
+        ])
+        .mockResolvedValueOnce([]);
+      mockPrisma.patient.update.mockResolvedValue({});
+
+      await expect(backfillPatientBlindIndex(2)).resolves.toBe(1);
+
+      expect(prisma.patient.update).toHaveBeenCalledTimes(1);
+      expect(prisma.patient.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: buildBlindIndex({ name: '张三', phone: '13800138000' }),
+      });
+      expect(prisma.patient.findMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ id: { gt: 7 }, nameIndex: null }),
+      }));
+    });
+  });
+
+  describe('getPatientTimeline', () => {
+    it('按会话列出主诉与诊断，仅包含有权访问的会话', async () => {
+      mockPrisma.patient.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.interviewSession.findMany.mockResolvedValue([
+        {
+          id: 12,
+          status: 'completed',
+          doctorId: 5,
+          reviewerId: null,
+          createdAt: new Date('2026-10-02'),
+          updatedAt: new Date('2026-10-02'),
+          chiefComplaint: { symptom: '腹痛', durationNum: 2, durationUnit: '天' },
+          presentIllness: { admissionDiagnosis: '1.急性胆囊炎；2.胆囊结石' },
+        },
+        {
+          id: 11,
+          status: 'completed',
+          doctorId: 6,
+          reviewerId: null,
+          createdAt: new Date('2026-09-01'),
+          updatedAt: new Date('2026-09-01'),
+          chiefComplaint: { text: '咳嗽3天' },
+          presentIllness: null,
+        },
+        {
+          id: 10,
+          status: 'draft',
+          doctorId: 5,
+          reviewerId: null,
+          createdAt: new Date('2026-08-01'),
+          updatedAt: new Date('2026-08-01'),
+          chiefComplaint: 'enc:ciphertext',
+          presentIllness: null,
+        },
+      ]);
+
+      const timeline = await getPatientTimeline(1, { operatorId: 5, role: 'doctor' });
+
+      expect(timeline).toEqual([
+        expect.objectContaining({ sessionId: 12, chiefComplaint: '腹痛2天', diagnoses: ['急性胆囊炎', '胆囊结石'], encrypted: false }),
+        expect.objectContaining({ sessionId: 10, chiefComplaint: null, diagnoses: [], encrypted: true }),
+      ]);
+    });
+  });
+
+  describe('mergePatients', () => {
+    it('转移来源患者的会话，补全空字段后删除来源患者', async () => {
+      mockPrisma.patient.findMany.mockResolvedValue([
+        { id: 1, name: '张三', gender: '男', birthDate: null, occupation: '工程师', address: null, isSimulated: false },
+        { id: 2, name: '张三', gender: '男', birthDate: new Date('1990-01-01'), occupation: '教师', address: null, isSimulated: false },
+      ]);
+      mockPrisma.interviewSession.updateMany.mockResolvedValue({ count: 3 });
+      mockPrisma.patient.update.mockResolvedValue({ id: 1 });
+
+      const result = await mergePatients(1, [2, 2]);
+
+      expect(result).toEqual({ patient: { id: 1 }, movedSessions: 3, mergedPatientIds: [2] });
+      expect(prisma.interviewSession.updateMany).toHaveBeenCalledWith({
+        where: { patientId: { in: [2] } },
+        data: { patientId: 1 },
+      });
+      expect(prisma.careEpisode.updateMany).toHaveBeenCalledWith({
+        where: { patientId: { in: [2] } },
+        data: { patientId: 1 },
+      });
+      expect(prisma.patient.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [2] } } });
+      expect(prisma.patient.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { birthDate: new Date('1990-01-01') },
+      });
+    });
+
+    it('拒绝与自身合并、不存在的患者和模拟患者', async () => {
+      await expect(mergePatients(1, [1])).rejects.toMatchObject({ statusCode: 400 });
+
+      mockPrisma.patient.findMany.mockResolvedValue([{ id: 1, birthDate: null, isSimulated: false }]);
+      await expect(mergePatients(1, [2])).rejects.toMatchObject({ statusCode: 404 });
+
+      mockPrisma.patient.findMany.mockResolvedValue([
+        { id: 1, isSimulated: false },
+        { id: 2, isSimulated: true },
+      ]);
+      await expect(mergePatients(1, [2])).rejects.toMatchObject({ statusCode: 400 });
+      expect(prisma.interviewSession.updateMany).not.toHaveBeenCalled();
+    });
+  });
 });
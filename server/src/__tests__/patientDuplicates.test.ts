@@ -0,0 +1,55 @@
+/**
+ * 患者查重盲索引测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildBlindIndex,
+  namePinyinKey,
+  normalizeName,
+  normalizePhone,
+  scoreDuplicate,
+} from '../services/patientDuplicates';
+
+describe('PatientDuplicates', () => {
+  it('姓名的繁简、同音字与拼音写法归为同一拼音键', () => {
+    expect(normalizeName(' 阿依古丽·买买提 ')).toBe('阿依古丽买买提');
+    expect(namePinyinKey('张三')).toBe('zhangsan');
+    expect(namePinyinKey('張三')).toBe('zhangsan');
+    expect(namePinyinKey('章三')).toBe('zhangsan');
+    expect(namePinyinKey('Zhang San')).toBe('zhangsan');
+    expect(namePinyinKey('吕丽')).toBe('lvli');
+  });
+
+  it('电话去除分隔符与国家码，密文字段不生成索引', () => {
+    expect(normalizePhone('+86 138-0013-8000')).toBe('13800138000');
+    expect(normalizePhone('12345')).toBe('');
+
+    const plain = buildBlindIndex({ name: '张三', phone: '13800138000' });
+    expect(plain.nameIndex).toMatch(/^[0-9a-f]{64}$/);
+    expect(buildBlindIndex({ name: '张 三', phone: '+86 13800138000' })).toEqual(plain);
+    // 各字段索引带类型前缀，互不相同
+    expect(plain.nameIndex).not.toBe(plain.namePinyinIndex);
+
+    expect(buildBlindIndex({ name: 'enc:abc', phone: null })).toEqual({
+      nameIndex: null,
+      namePinyinIndex: null,
+      phoneIndex: null,
+    });
+  });
+
+  it('按姓名、出生日期、性别与电话计算相似度', () => {
+    const zhangSan = buildBlindIndex({ name: '张三', phone: '13800138000' });
+    const probe = { ...zhangSan, gender: '男', birthDate: new Date('1990-01-01') };
+
+    expect(scoreDuplicate(probe, { ...zhangSan, gender: '男', birthDate: new Date('1990-01-01') })).toEqual({
+      score: 100,
+      matchedOn: ['name', 'birthDate', 'gender', 'phone'],
+    });
+    expect(scoreDuplicate(probe, { ...buildBlindIndex({ name: '章三' }), gender: '男', birthDate: new Date('1990-06-01') }))
+      .toEqual({ score: 55, matchedOn: ['pinyin', 'gender'] });
+    // 性别不同显著降低相似度
+    expect(scoreDuplicate(probe, { ...buildBlindIndex({ name: '张三' }), gender: '女', birthDate: new Date('1990-01-01') }).score)
+      .toBe(45);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * 刷新会话存储测试（Redis 不可用时的内存兜底）
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../utils/redis-client', () => ({
+  getRedisClient: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn(), logSecurity: vi.fn() },
+}));
+
+import {
+  getRefreshSession,
+  listOperatorRefreshSessions,
+  putRefreshSession,
+  revokeOperatorRefreshSessions,
+  revokeRefreshSession,
+} from '../services/refreshSession.service';
+
+describe('RefreshSessionService', () => {
+  it('按最近使用时间列出会话，只能下线本人的会话', async () => {
+    await putRefreshSession({ sid: 'a', operatorId: 1, role: 'doctor', jti: 'j1', userAgent: 'Chrome', ip: '1.1.1.1', lastUsedAt: 100 });
+    await putRefreshSession({ sid: 'b', operatorId: 1, role: 'doctor', jti: 'j2', lastUsedAt: 300 });
+    await putRefreshSession({ sid: 'c', operatorId: 2, role: 'admin', jti: 'j3' });
+
+    const sessions = await listOperatorRefreshSessions(1);
+    expect(sessions.map(s => s.sid)).toEqual(['b', 'a']);
+    expect(sessions[1]).toMatchObject({ userAgent: 'Chrome', ip: '1.1.1.1' });
+    expect(sessions[0]).toMatchObject({ userAgent: null, ip: null });
+
+    expect(await revokeRefreshSession(1, 'c')).toBe(false);
+    expect(await getRefreshSession('c')).not.toBeNull();
+    expect(await revokeRefreshSession(1, 'a')).toBe(true);
+    expect(await getRefreshSession('a')).toBeNull();
+  });
+
+  it('下线其他会话时保留指定会话', async () => {
+    await putRefreshSession({ sid: 'x', operatorId: 5, role: 'student', jti: 'j1' });
+    await putRefreshSession({ sid: 'y', operatorId: 5, role: 'student', jti: 'j2' });
+    await putRefreshSession({ sid: 'z', operatorId: 5, role: 'student', jti: 'j3' });
+
+    expect(await revokeOperatorRefreshSessions(5, { exceptSid: 'y' })).toBe(2);
+    expect((await listOperatorRefreshSessions(5)).map(s => s.sid)).toEqual(['y']);
+    expect(await revokeOperatorRefreshSessions(5)).toBe(1);
+  });
+
+  it('再次写入时沿用原过期时间，过期后不再返回', async () => {
+    vi.useFakeTimers();
+    const expiresAt = Date.now() + 60_000;
+    await putRefreshSession({ sid: 'e', operatorId: 6, role: 'doctor', jti: 'j1', expiresAt });
+
+    vi.advanceTimersByTime(30_000);
+    const session = await getRefreshSession('e');
+    expect(session?.expiresAt).toBe(expiresAt);
+    if (session) {await putRefreshSession({ ...session, sid: 'e', jti: 'j2' });}
+    expect(await getRefreshSession('e')).toMatchObject({ jti: 'j2', expiresAt });
+
+    vi.advanceTimersByTime(30_000);
+    expect(await getRefreshSession('e')).toBeNull();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * 病历报告服务测试
+ * 分章节验证文档模型的措辞与来源字段、模板应用，以及文本/Markdown 渲染
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  buildReportDocument,
+  buildGeneralSection,
+  buildChiefComplaintSection,
+  buildPresentIllnessSection,
+  buildPastHistorySection,
+  buildReviewOfSystemsSection,
+  buildPersonalHistorySection,
+  buildMenstrualFertilitySection,
+  buildPhysicalExamSection,
+  buildAuxiliaryExamsSection,
+  buildIntervalHistorySection,
+  getReportDocument,
+  applyReportTemplate,
+  ReportSessionInput,
+} from '../services/report.service';
+import { renderReportText, renderReportMarkdown } from '../services/reportRenderer';
+import * as sessionService from '../services/session.service';
+import * as reportTemplateService from '../services/reportTemplate.service';
+import type { ReportBlock, ReportSection } from '../types';
+
+vi.mock('../services/session.service', () => ({
+  getSessionById: vi.fn(),
+}));
+
+vi.mock('../services/reportTemplate.service', () => ({
+  getTemplateDefinitionOrThrow: vi.fn(),
+  getDefaultTemplateDefinition: vi.fn(),
+}));
+
+// 非复诊会话不会查询上次就诊
+vi.mock('../prisma', () => ({ default: {} }));
+
+const NOW = new Date('2024-06-01T10:00:00Z');
+
+const makeSession = (overrides: Partial<ReportSessionInput> = {}): ReportSessionInput => ({
+  id: 1,
+  createdAt: new Date('2024-05-30T08:00:00Z'),
+  patient: { name: '张三', gender: '男', birthDate: new Date('1980-05-01T00:00:00Z') },
+  ...overrides,
+});
+
+const lines = (section: ReportSection): string[] =>
+  section.blocks.map((b: ReportBlock) => (b.type === 'item' ? `${b.label}：${b.value}` : b.text));
+
+describe('ReportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('基本信息', () => {
+    it('应该计算年龄并为缺失字段填充默认值', () => {
+      const section = buildGeneralSection(makeSession({ historianRelationship: 'spouse' }), NOW);
+
+      expect(lines(section)).toContain('年龄：44岁');
+      expect(lines(section)).toContain('民族：未记录');
+      expect(lines(section)).toContain('关系：配偶');
+      expect(lines(section)).toContain('可靠程度：可靠');
+      const name = section.blocks.find(b => b.type === 'item' && b.label === '姓名');
+      expect(name?.sources).toEqual(['patient.name']);
+    });
+  });
+
+  describe('主诉', () => {
+    it('应该补全句末标点', () => {
+      const section = buildChiefComplaintSection(makeSession({ chiefComplaint: { text: '腹痛3天' } }));
+      expect(lines(section)).toEqual(['腹痛3天。']);
+    });
+  });
+
+  describe('现病史', () => {
+    it('应该根据结构化字段生成叙述', () => {
+      const section = buildPresentIllnessSection(makeSession({
+        chiefComplaint: { text: '腹痛3天', symptom: '腹痛' },
+        presentIllness: {
+          onsetTime: '3天',
+          trigger: '进食后',
+          onsetMode: 'sudden',
+          location: '上腹',
+          severity: 'moderate',
+          associatedSymptoms: ['恶心', '呕吐'],
+          negativeSymptoms: '发热',
+          admissionDiagnosis: '急性胃炎',
+          spirit: 'good',
+        },
+      }));
+
+      const [first, second] = lines(section);
+      expect(first).toBe(
+        '患者3天前，在进食后急性起病，初起表现为上腹腹痛，程度为中度。随后，出现恶心、呕吐，无发热。为求进一步诊治，遂来我院就诊。门诊以“急性胃炎”收入我科。'
+      );
+      expect(second).toBe('发病以来，患者精神好、体力未详、食欲未详、睡眠未详、二便未详、体重未详。');
+      expect(section.blocks[0].sources).toContain('presentIllness');
+    });
+
+    it('应该优先使用医生编辑的叙述并保留缩进', () => {
+      const section = buildPresentIllnessSection(makeSession({
+        presentIllness: { narrative: '患者腹痛3天。\n    补充说明', narrativeSource: 'manual' },
+      }));
+
+      expect(section.blocks.map(b => b.indent)).toEqual([2, 4]);
+      expect(section.blocks[0].sources).toEqual(['presentIllness.narrative']);
+    });
+  });
+
+  describe('既往史', () => {
+    it('应该区分手术史与外伤史', () => {
+      const section = buildPastHistorySection(makeSession({
+        pastHistory: {
+          surgeries: [
+            { date: '2010-03-01', location: '市医院', name: '阑尾切除术' },
+            { name: '左腿骨折' },
+          ],
+        },
+      }));
+
+      expect(lines(section)).toContain('手术史：2010年3月于市医院行“阑尾切除术”。');
+      expect(lines(section)).toContain('外伤史：时间不详于外院行“左腿骨折”。');
+    });
+
+    it('应该在无记录时输出否认性描述', () => {
+      const section = buildPastHistorySection(makeSession());
+      expect(lines(section)).toEqual([
+        '手术史：否认手术史。',
+        '外伤史：否认外伤史。',
+        '输血史：否认输血史。',
+        '过敏史：否认药物及食物过敏史。',
+        '传染病史：否认肝炎、结核、梅毒、艾滋病等传染病史。',
+        '系统性疾病：否认高血压、糖尿病、冠心病等慢性病史。',
+      ]);
+    });
+
+    it('应该格式化慢性病详情', () => {
+      const section = buildPastHistorySection(makeSession({
+        pastHistory: {
+          pmh_diseases: ['高血压'],
+          diseaseDetails: { '高血压': { year: 5, control: '良好', medication: '氨氯地平' } },
+        },
+      }));
+      expect(lines(section)).toContain('系统性疾病：既往患有高血压（确诊5年，控制良好，平日服用氨氯地平）。');
+    });
+  });
+
+  describe('系统回顾', () => {
+    it('应该翻译英文症状并按系统编号', () => {
+      const section = buildReviewOfSystemsSection(makeSession({
+        reviewOfSystems: { respiratory: { symptoms: ['cough', 'Fever'], details: '夜间明显' }, digestive: ['nausea'] },
+      }));
+      expect(lines(section)).toEqual(['1. 呼吸系统：症状：咳嗽、发热；详情：夜间明显', '3. 消化系统：恶心']);
+    });
+
+    it('应该区分未记录与无异常', () => {
+      expect(lines(buildReviewOfSystemsSection(makeSession()))).toEqual(['未记录']);
+      expect(lines(buildReviewOfSystemsSection(makeSession({ reviewOfSystems: {} })))).toEqual(['无特殊异常']);
+    });
+  });
+
+  describe('个人史', () => {
+    it('应该将嗜好作为子条目输出', () => {
+      const section = buildPersonalHistorySection(makeSession({
+        personalHistory: { smoking_status: '吸烟', smoking_details: '10支/日', alcohol: '偶饮' },
+      }));
+      expect(lines(section)).toEqual(['3. 习惯与嗜好：', '吸烟：吸烟 (10支/日)', '饮酒：偶饮']);
+      expect(section.blocks.slice(1).every(b => b.indent === 3)).toBe(true);
+    });
+  });
+
+  describe('月经与生育史', () => {
+    it('应该在两者均无记录时省略章节', () => {
+      expect(buildMenstrualFertilitySection(makeSession())).toBeNull();
+    });
+
+    it('应该生成月经公式与孕产次', () => {
+      const section = buildMenstrualFertilitySection(makeSession({
+        menstrualHistory: { age: 13, duration: 5, cycle: 28, menopause_age: 50 },
+        fertilityHistory: { gravida: 2, para: 1, abortion_artificial: 1 },
+      }));
+      expect(lines(section!)).toEqual(['月经史：13  5/28  50岁(绝经)', '生育史：G2P1，人工流产1次']);
+    });
+  });
+
+  describe('体格检查', () => {
+    it('应该兼容生命体征字段别名并组合血压', () => {
+      const section = buildPhysicalExamSection(makeSession({
+        physicalExam: { vitalSigns: { temp: 36.5, hr: 80, sbp: 120, dbp: 80, pain: 0 }, heart: '律齐' },
+      }));
+      expect(lines(section)).toEqual([
+        '生命体征：体温：36.5°C，脉搏：80次/分，血压：120/80mmHg，疼痛评分：0分',
+        '心脏：律齐',
+      ]);
+    });
+  });
+
+  describe('辅助检查', () => {
+    it('应该翻译检查类型并提取结果字段', () => {
+      const section = buildAuxiliaryExamsSection(makeSession({
+        auxiliaryExams: [{ type: 'blood_routine', result: { value: 'WBC 12' }, date: '2024-01-01' }, '心电图正常'],
+      }));
+      expect(lines(section)).toEqual(['1. 血常规(2024-01-01)：WBC 12', '2. 心电图正常']);
+      expect(section.blocks[0].sources).toEqual(['auxiliaryExams.0']);
+    });
+
+    it('应该处理对象格式并跳过无意义键', () => {
+      const section = buildAuxiliaryExamsSection(makeSession({ auxiliaryExams: { ecg: true, none: true, ct: '阴性', blood: '' } }));
+      expect(lines(section)).toEqual(['1. 心电图：已检查', '2. CT：阴性']);
+    });
+  });
+
+  describe('渲染', () => {
+    it('纯文本应以【】标题分节并保留缩进', () => {
+      const text = renderReportText(buildReportDocument(makeSession({ chiefComplaint: { text: '头痛' } }), { now: NOW }));
+
+      expect(text.startsWith('【基本信息】\n  姓名：张三\n')).toBe(true);
+      expect(text).toContain('\n\n【主诉】\n  头痛。\n\n【现病史】\n');
+      expect(text).not.toContain('【月经与生育史】');
+      expect(text.endsWith('【初步建议】\n建议进行进一步体格检查及相关辅助检查。')).toBe(true);
+    });
+
+    it('Markdown 应使用标题与列表', () => {
+      const md = renderReportMarkdown(buildReportDocument(makeSession(), { now: NOW }), '病历-张三');
+
+      expect(md.startsWith('# 病历-张三\n\n## 基本信息\n\n- **姓名**：张三')).toBe(true);
+      expect(md).toContain('## 初步建议\n\n建议进行进一步体格检查及相关辅助检查。');
+    });
+  });
+
+  describe('间隔病史', () => {
+    const interval = {
+      previousSessionId: 7,
+      previousVisitAt: new Date('2024-05-16T08:00:00Z'),
+      intervalDays: 14,
+      previousChiefComplaint: '发热3天',
+      previousDiagnoses: ['社区获得性肺炎'],
+      carryForward: { pastHistory: 'unchanged', familyHistory: 'edited' } as const,
+    };
+
+    it('复诊时列出上次就诊与带入病史的变化', () => {
+      const section = buildIntervalHistorySection(interval);
+
+      expect(section?.title).toBe('间隔病史');
+      expect(lines(section!)).toEqual([
+        '上次就诊：2024年5月16日（距本次14天）',
+        '上次主诉：发热3天',
+        '上次诊断：社区获得性肺炎',
+        '病史变化：既往史同前，家族史有更新',
+      ]);
+    });
+
+    it('应该紧随现病史输出，首次就诊不输出', () => {
+      const keys = (doc: ReturnType<typeof buildReportDocument>) => doc.sections.map(s => s.key);
+      expect(keys(buildReportDocument(makeSession(), { now: NOW, interval })).slice(2, 4)).toEqual(['presentIllness', 'intervalHistory']);
+      expect(keys(buildReportDocument(makeSession(), { now: NOW }))).not.toContain('intervalHistory');
+    });
+  });
+
+  describe('报告模板', () => {
+    it('应该按模板排序章节、改写标题与字段标签', () => {
+      const doc = applyReportTemplate(buildReportDocument(makeSession({ chiefComplaint: { text: '头痛' } }), { now: NOW }), {
+        documentTitle: '门诊病历',
+        sections: [
+          { key: 'chiefComplaint' },
+          { key: 'general', title: '患者信息', fields: ['name', 'age', 'admissionDate'], labels: { admissionDate: '就诊日期' } },
+        ],
+      });
+
+      expect(doc.title).toBe('门诊病历');
+      expect(doc.sections.map(s => s.key)).toEqual(['chiefComplaint', 'general']);
+      expect(doc.sections[1].title).toBe('患者信息');
+      const general = lines(doc.sections[1]);
+      expect(general.slice(0, 2)).toEqual(['姓名：张三', '年龄：44岁']);
+      expect(general[2].startsWith('就诊日期：')).toBe(true);
+      expect(general).toHaveLength(3);
+    });
+
+    it('应该替换未记录措辞并为空章节填充兜底文本', () => {
+      const doc = applyReportTemplate(buildReportDocument(makeSession(), { now: NOW }), {
+        notRecordedText: '不详',
+        sections: [
+          { key: 'general', fields: ['ethnicity'] },
+          { key: 'reviewOfSystems', emptyText: '患者否认各系统不适' },
+          { key: 'menstrualFertility' },
+          { key: 'physicalExam', fields: ['heart'] },
+        ],
+      });
+
+      expect(doc.sections.map(s => s.key)).toEqual(['general', 'reviewOfSystems', 'physicalExam']);
+      expect(lines(doc.sections[0])).toEqual(['民族：不详']);
+      expect(lines(doc.sections[1])).toEqual(['患者否认各系统不适']);
+      expect(lines(doc.sections[2])).toEqual(['不详']);
+    });
+  });
+
+  describe('getReportDocument', () => {
+    it('应该在会话不存在时返回 null', async () => {
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      expect(await getReportDocument(999)).toBeNull();
+    });
+
+    it('应该在未指定模板时使用默认模板', async () => {
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue(makeSession());
+      (reportTemplateService.getDefaultTemplateDefinition as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: 3,
+        definition: { documentTitle: '入院记录', sections: [{ key: 'general' }] },
+      });
+
+      const doc = await getReportDocument(1, { now: NOW });
+      expect(doc?.templateId).toBe(3);
+      expect(doc?.title).toBe('入院记录');
+      expect(doc?.sections.map(s => s.key)).toEqual(['general']);
+    });
+
+    it('应该透传指定模板不存在的错误', async () => {
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue(makeSession());
+      (reportTemplateService.getTemplateDefinitionOrThrow as ReturnType<typeof vi.fn>).mockRejectedValue(
+        Object.assign(new Error('报告模板不存在'), { statusCode: 404 })
+      );
+
+      await expect(getReportDocument(1, { templateId: 99 })).rejects.toThrow('报告模板不存在');
+    });
+
+    it('应该返回患者姓名与章节列表', async () => {
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue(makeSession());
+      (reportTemplateService.getDefaultTemplateDefinition as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+      const doc = await getReportDocument(1, { now: NOW });
+      expect(doc?.patientName).toBe('张三');
+      expect(doc?.templateId).toBeNull();
+      expect(doc?.sections.map(s => s.key)).toEqual([
+        'general',
+        'chiefComplaint',
+        'presentIllness',
+        'pastHistory',
+        'reviewOfSystems',
+        'personalHistory',
+        'maritalHistory',
+        'familyHistory',
+        'physicalExam',
+        'auxiliaryExams',
+        'recommendation',
+      ]);
+    });
+  });
+});
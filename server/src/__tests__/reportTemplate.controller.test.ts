@@ -0,0 +1,115 @@
+/**
+ * 报告模板控制器测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+import * as reportTemplateController from '../controllers/reportTemplate.controller';
+import * as reportTemplateService from '../services/reportTemplate.service';
+import { asyncHandler, errorHandler, ErrorTypes } from '../middleware/errorHandler';
+
+vi.mock('../services/reportTemplate.service', () => ({
+  listTemplates: vi.fn(),
+  getTemplateById: vi.fn(),
+  createTemplate: vi.fn(),
+  updateTemplate: vi.fn(),
+  deleteTemplate: vi.fn(),
+}));
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const mockService = reportTemplateService as unknown as {
+  listTemplates: ReturnType<typeof vi.fn>;
+  getTemplateById: ReturnType<typeof vi.fn>;
+  createTemplate: ReturnType<typeof vi.fn>;
+  updateTemplate: ReturnType<typeof vi.fn>;
+  deleteTemplate: ReturnType<typeof vi.fn>;
+};
+
+/**
+ * 与路由一致：经 asyncHandler 调用，异常交由全局错误处理中间件响应
+ */
+const dispatch = (handler: (req: Request, res: Response) => Promise<unknown>, req: Request, res: Response) =>
+  new Promise<void>((resolve) => {
+    asyncHandler(async (rq, rs) => {
+      await handler(rq, rs);
+      resolve();
+    })(req, res, (err?: unknown) => {
+      errorHandler(err as Error, req, res, vi.fn());
+      resolve();
+    });
+  });
+
+const definition = { documentTitle: '门诊病历', sections: [{ key: 'chiefComplaint' }] };
+
+describe('ReportTemplateController', () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let jsonMock: ReturnType<typeof vi.fn>;
+  let statusMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    jsonMock = vi.fn();
+    statusMock = vi.fn(() => ({ json: jsonMock }));
+    mockRes = {
+      status: statusMock as unknown as Response['status'],
+      json: jsonMock as unknown as Response['json'],
+    };
+    mockReq = { params: {}, body: {}, query: {}, headers: {}, ip: '127.0.0.1' };
+  });
+
+  it('应该返回模板列表', async () => {
+    mockService.listTemplates.mockResolvedValue([{ id: 1, name: '门诊病历', definition }]);
+
+    await reportTemplateController.listTemplates(mockReq as Request, mockRes as Response);
+
+    expect(jsonMock).toHaveBeenCalledWith({ success: true, data: [{ id: 1, name: '门诊病历', definition }] });
+  });
+
+  it('应该在模板不存在时返回404', async () => {
+    mockService.getTemplateById.mockResolvedValue(null);
+    mockReq.params = { id: '9' };
+
+    await dispatch(reportTemplateController.getTemplate, mockReq as Request, mockRes as Response);
+
+    expect(statusMock).toHaveBeenCalledWith(404);
+  });
+
+  it('应该记录创建者并返回201', async () => {
+    mockService.createTemplate.mockResolvedValue({ id: 2, name: '入院记录', definition });
+    mockReq.body = { name: '入院记录', definition, isDefault: true };
+    mockReq.operator = { token: 't', operatorId: 7, role: 'admin' };
+
+    await reportTemplateController.createTemplate(mockReq as Request, mockRes as Response);
+
+    expect(mockService.createTemplate).toHaveBeenCalledWith(mockReq.body, 7);
+    expect(statusMock).toHaveBeenCalledWith(201);
+  });
+
+  it('应该将名称冲突映射为409', async () => {
+    mockService.createTemplate.mockRejectedValue(ErrorTypes.Conflict('模板名称已存在'));
+    mockReq.body = { name: '入院记录', definition };
+
+    await dispatch(reportTemplateController.createTemplate, mockReq as Request, mockRes as Response);
+
+    expect(statusMock).toHaveBeenCalledWith(409);
+    expect(jsonMock).toHaveBeenCalledWith({ success: false, error: { code: 'CONFLICT', message: '模板名称已存在' } });
+  });
+
+  it('应该在删除不存在的模板时返回404', async () => {
+    mockService.deleteTemplate.mockRejectedValue(ErrorTypes.NotFound('报告模板'));
+    mockReq.params = { id: '3' };
+
+    await dispatch(reportTemplateController.deleteTemplate, mockReq as Request, mockRes as Response);
+
+    expect(statusMock).toHaveBeenCalledWith(404);
+  });
+});
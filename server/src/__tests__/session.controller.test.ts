@@ -8,6 +8,8 @@ import type { Request, Response } from 'express';
 
 import * as sessionController from '../controllers/session.controller';
 import * as sessionService from '../services/session.service';
+import * as reportTemplateService from '../services/reportTemplate.service';
+import * as patientService from '../services/patient.service';
 import prisma from '../prisma';
 
 // Mock 依赖
@@ -25,6 +27,19 @@ vi.mock('../services/knowledge.service', () => ({
   getRecentKnowledge: vi.fn(),
 }));
 
+vi.mock('../services/cohort.service', () => ({
+  listMyAssignments: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../services/reportTemplate.service', () => ({
+  getTemplateDefinitionOrThrow: vi.fn(),
+  getDefaultTemplateDefinition: vi.fn(),
+}));
+
+vi.mock('../services/patient.service', () => ({
+  updatePatientWithEncryption: vi.fn(),
+}));
+
 vi.mock('../prisma', () => ({
   default: {
     patient: {
@@ -34,6 +49,9 @@ vi.mock('../prisma', () => ({
     interviewSession: {
       groupBy: vi.fn(),
     },
+    diagnosis: {
+      findMany: vi.fn(),
+    },
     $queryRaw: vi.fn(),
   },
 }));
@@ -144,6 +162,139 @@ describe('SessionController', () => {
     });
   });
 
+  describe('generateReport', () => {
+    it('应该返回纯文本报告与结构化文档', async () => {
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: 1,
+        createdAt: new Date('2024-01-01'),
+        patient: { id: 1, name: '张三' },
+        chiefComplaint: { text: '头痛3天' },
+      });
+
+      mockReq.params = { id: '1' };
+
+      await sessionController.generateReport(mockReq as Request, mockRes as Response);
+
+      const payload = jsonMock.mock.calls[0][0];
+      expect(payload.success).toBe(true);
+      expect(payload.data.report).toContain('【主诉】\n  头痛3天。');
+      expect(payload.data.document.patientName).toBe('张三');
+    });
+
+    it('应该在会话不存在时返回404', async () => {
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+
+      mockReq.params = { id: '999' };
+
+      await sessionController.generateReport(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(404);
+    });
+
+    it('应该按指定模板生成报告', async () => {
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: 1,
+        createdAt: new Date('2024-01-01'),
+        patient: { id: 1, name: '张三' },
+        chiefComplaint: { text: '头痛3天' },
+      });
+      (reportTemplateService.getTemplateDefinitionOrThrow as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: 2,
+        definition: { documentTitle: '门诊病历', sections: [{ key: 'chiefComplaint', title: '就诊原因' }] },
+      });
+
+      mockReq.params = { id: '1' };
+      mockReq.body = { templateId: 2 };
+
+      await sessionController.generateReport(mockReq as Request, mockRes as Response);
+
+      expect(reportTemplateService.getTemplateDefinitionOrThrow).toHaveBeenCalledWith(2);
+      const payload = jsonMock.mock.calls[0][0];
+      expect(payload.data.report).toBe('【就诊原因】\n  头痛3天。');
+      expect(payload.data.document.templateId).toBe(2);
+    });
+
+    it('应该在模板不存在时返回404', async () => {
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: 1,
+        patient: { id: 1, name: '张三' },
+      });
+      (reportTemplateService.getTemplateDefinitionOrThrow as ReturnType<typeof vi.fn>).mockRejectedValue(
+        Object.assign(new Error('报告模板不存在'), { statusCode: 404, errorCode: 'NOT_FOUND' })
+      );
+
+      mockReq.params = { id: '1' };
+      mockReq.body = { templateId: 99 };
+
+      await sessionController.generateReport(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(404);
+      expect(jsonMock).toHaveBeenCalledWith({ success: false, message: '报告模板不存在' });
+    });
+  });
+
+  describe('getDifferential', () => {
+    it('应该基于已保存会话返回鉴别诊断及发现来源', async () => {
+      mockReq.params = { id: '5' };
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue({
+        id: 5,
+        chiefComplaint: { symptom: '咳嗽', text: '咳嗽咳痰3天' },
+        presentIllness: { negativeSymptoms: '无咯血' },
+        personalHistory: { smoking_status: '吸烟' },
+        physicalExam: { vitalSigns: { temperature: 38.5 } },
+        patient: { birthDate: '1970-01-01', gender: '男' },
+      });
+      (prisma.diagnosis.findMany as ReturnType<typeof vi.fn>).mockResolvedValue([
+        {
+          id: 1,
+          name: '肺炎',
+          description: null,
+          category: '呼吸系统',
+          priority: 0,
+          symptoms: [
+            { symptomKey: 'fever', weight: 0.2, isRequired: false, isExcluding: false },
+            { symptomKey: 'cough', weight: 0.2, isRequired: false, isExcluding: false },
+            { symptomKey: 'hemoptysis', weight: 0.1, isRequired: false, isExcluding: false },
+          ],
+          redFlags: [],
+        },
+      ]);
+
+      await sessionController.getDifferential(mockReq as Request, mockRes as Response);
+
+      const payload = jsonMock.mock.calls[0][0];
+      expect(payload.success).toBe(true);
+      expect(payload.data.diagnoses[0]).toEqual(expect.objectContaining({ name: '肺炎', supportingSymptoms: ['fever', 'cough'] }));
+      expect(payload.data.findings.evidence).toEqual(expect.arrayContaining([
+        { key: 'cough', kind: 'symptom', status: 'present', sources: ['chiefComplaint'] },
+        { key: 'fever', kind: 'symptom', status: 'present', sources: ['vitalSigns'] },
+        { key: 'hemoptysis', kind: 'symptom', status: 'absent', sources: ['presentIllness'] },
+        { key: 'smoking', kind: 'riskFactor', status: 'present', sources: ['personalHistory'] },
+      ]));
+    });
+
+    it('应该在会话不存在时返回404', async () => {
+      mockReq.params = { id: '404' };
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue(null);
+
+      await sessionController.getDifferential(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(404);
+      expect(jsonMock).toHaveBeenCalledWith({ success: false, message: '会话不存在' });
+    });
+
+    it('学生不能查看他人会话的鉴别诊断', async () => {
+      mockReq.params = { id: '8' };
+      mockReq.operator = { token: '', operatorId: 5, role: 'student' };
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue({ id: 8, doctorId: 6, reviewerId: null, patient: {} });
+
+      await sessionController.getDifferential(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(403);
+      expect(prisma.diagnosis.findMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateSession', () => {
     it('应该成功更新会话', async () => {
       const mockSession = {
@@ -155,7 +306,7 @@ describe('SessionController', () => {
 
       (sessionService.updateSession as ReturnType<typeof vi.fn>).mockResolvedValue(mockSession);
       (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue(mockSession);
-      (prisma.patient.update as ReturnType<typeof vi.fn>).mockResolvedValue({});
+      (patientService.updatePatientWithEncryption as ReturnType<typeof vi.fn>).mockResolvedValue({});
 
       mockReq.params = { id: '1' };
       mockReq.body = {
@@ -165,6 +316,10 @@ describe('SessionController', () => {
 
       await sessionController.updateSession(mockReq as Request, mockRes as Response);
 
+      // 患者信息经患者服务写入，以同步查重索引
+      expect(patientService.updatePatientWithEncryption).toHaveBeenCalledWith(1, { name: '张三' }, expect.any(Date), undefined);
+      expect(prisma.patient.update).not.toHaveBeenCalled();
+
       expect(jsonMock).toHaveBeenCalledWith(
         expect.objectContaining({
           success: true,
@@ -174,6 +329,35 @@ describe('SessionController', () => {
     });
   });
 
+  describe('会话访问控制', () => {
+    const othersSession = { id: 8, patientId: 1, doctorId: 6, reviewerId: null, status: 'draft', patient: { id: 1, name: '张三' } };
+
+    beforeEach(() => {
+      (sessionService.getSessionById as ReturnType<typeof vi.fn>).mockResolvedValue(othersSession);
+      mockReq.params = { id: '8' };
+      mockReq.operator = { token: '', operatorId: 5, role: 'student' };
+    });
+
+    it('学生不能修改他人的会话', async () => {
+      mockReq.body = { historian: '本人' };
+
+      await sessionController.updateSession(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(403);
+      expect(sessionService.updateSession).not.toHaveBeenCalled();
+    });
+
+    it('学生不能生成或导出他人会话的报告', async () => {
+      await sessionController.generateReport(mockReq as Request, mockRes as Response);
+      await sessionController.exportReportPdf(mockReq as Request, mockRes as Response);
+      await sessionController.exportReportMarkdown(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledTimes(3);
+      expect(statusMock.mock.calls.every(([code]) => code === 403)).toBe(true);
+      expect(setHeaderMock).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getAllSessions', () => {
     it('应该返回会话列表', async () => {
       const mockSessions = [
@@ -331,5 +515,35 @@ describe('SessionController', () => {
         })
       );
     });
+
+    it('统计失败时抛出错误交由统一错误处理', async () => {
+      (sessionService.countSessions as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('db down'));
+
+      await expect(
+        sessionController.getDashboardStats(mockReq as Request, mockRes as Response)
+      ).rejects.toThrow('db down');
+      expect(jsonMock).not.toHaveBeenCalled();
+    });
+
+    it('学生只统计自己的病历，最近会话也按范围过滤', async () => {
+      mockReq.operator = { token: 'mock-token', operatorId: 7, role: 'student' };
+      (sessionService.countSessions as ReturnType<typeof vi.fn>).mockResolvedValue(0);
+      (prisma.$queryRaw as ReturnType<typeof vi.fn>)
+        .mockResolvedValueOnce([{ count: BigInt(1) }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([]);
+      (sessionService.getSessions as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+      (prisma.interviewSession.groupBy as ReturnType<typeof vi.fn>).mockResolvedValue([]);
+
+      await sessionController.getDashboardStats(mockReq as Request, mockRes as Response);
+
+      expect(sessionService.countSessions).toHaveBeenCalledWith({ doctorId: 7 });
+      expect(sessionService.countSessions).toHaveBeenCalledWith({ doctorId: 7, status: 'completed' });
+      expect(sessionService.getSessions).toHaveBeenCalledWith(expect.objectContaining({ where: { doctorId: 7 } }));
+      expect(prisma.interviewSession.groupBy).toHaveBeenCalledWith(expect.objectContaining({ where: { doctorId: 7 } }));
+      expect(jsonMock).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+      const [, ...values] = (prisma.$queryRaw as ReturnType<typeof vi.fn>).mock.calls[0];
+      expect(values).toContainEqual(expect.objectContaining({ values: [7] }));
+    });
   });
 });
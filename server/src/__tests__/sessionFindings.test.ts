@@ -0,0 +1,83 @@
+/**
+ * 会话临床发现汇总测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { collectSessionFindings, toFindingKeys } from '../services/sessionFindings';
+
+describe('SessionFindings', () => {
+  it('应该将症状名称、同义词与系统回顾 key 归一', () => {
+    expect(toFindingKeys('发烧')).toEqual(['fever']);
+    expect(toFindingKeys('咳嗽')).toEqual(['cough']);
+    expect(toFindingKeys('chest_pain_resp')).toEqual(['chest_pain']);
+    expect(toFindingKeys('恶心呕吐')).toEqual(['nausea_vomiting', 'nausea', 'vomiting']);
+  });
+
+  it('应该汇总主诉、现病史、系统回顾与生命体征', () => {
+    const findings = collectSessionFindings(
+      {
+        chiefComplaint: { symptom: '咳嗽', text: '咳嗽3天' },
+        presentIllness: {
+          associatedSymptoms: ['sputum'],
+          narrative: '伴胸闷，无咯血',
+          negativeSymptoms: '无盗汗、无胸痛',
+        },
+        reviewOfSystems: { respiratory: { symptoms: ['dyspnea'] }, none: false },
+        physicalExam: { vitalSigns: { temperature: '39.2', systolicBP: 85 } },
+        patient: { birthDate: '1960-06-01', gender: '男' },
+      },
+      { symptoms: ['头痛'], redFlags: ['意识障碍'] },
+      new Date('2026-10-19')
+    );
+
+    expect(findings.presentSymptoms).toEqual(
+      expect.arrayContaining(['headache', 'cough', 'sputum', 'chest_tightness', 'dyspnea', 'fever'])
+    );
+    const sourcesOf = (key: string) => findings.evidence.find(e => e.key === key)?.sources;
+    expect(sourcesOf('cough')).toEqual(['chiefComplaint']);
+    expect(sourcesOf('fever')).toEqual(['vitalSigns']);
+    expect(sourcesOf('休克')).toEqual(['vitalSigns']);
+    expect(findings.evidence.find(e => e.key === 'night_sweats')).toEqual({
+      key: 'night_sweats', kind: 'symptom', status: 'absent', sources: ['presentIllness'],
+    });
+    expect(findings.absentSymptoms).toEqual(expect.arrayContaining(['hemoptysis', 'night_sweats', 'chest_pain']));
+    expect(findings.redFlags).toEqual(['意识障碍', '高热', '休克']);
+    expect(findings.patientAge).toBe(66);
+    expect(findings.patientGender).toBe('男');
+  });
+
+  it('应该从既往史、个人史与家族史中提取危险因素', () => {
+    const findings = collectSessionFindings({
+      pastHistory: { pmh_diseases: ['高血压', '慢性阻塞性肺疾病(COPD)'], illnessHistory: '否认肝炎' },
+      personalHistory: { smoking_status: '吸烟', alcohol_status: '从不' },
+      familyHistory: { father: '患有糖尿病', mother: '体健', genetic: '否认家族性遗传病史', similar: '母亲患有' },
+    });
+
+    expect(findings.presentSymptoms).toEqual([
+      'history_hypertension',
+      'history_copd',
+      'smoking',
+      'family_history_diabetes',
+      'family_history_similar',
+    ]);
+    expect(findings.absentSymptoms).toEqual(['alcohol_use']);
+    expect(findings.evidence.find(e => e.key === 'smoking')).toEqual({
+      key: 'smoking', kind: 'riskFactor', status: 'present', sources: ['personalHistory'],
+    });
+  });
+
+  it('阳性症状不应同时出现在阴性列表中，请求中的年龄性别优先', () => {
+    const findings = collectSessionFindings(
+      {
+        chiefComplaint: { symptom: '发热' },
+        presentIllness: { negativeSymptoms: '无发热' },
+        patient: { birthDate: '2000-01-01', gender: 'female' },
+      },
+      { age: 30, gender: 'male' }
+    );
+    expect(findings.presentSymptoms).toContain('fever');
+    expect(findings.absentSymptoms).not.toContain('fever');
+    expect(findings.patientAge).toBe(30);
+    expect(findings.patientGender).toBe('male');
+  });
+});
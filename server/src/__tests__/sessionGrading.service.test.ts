@@ -0,0 +1,59 @@
+/**
+ * 病历评分服务测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => ({
+  default: {
+    interviewSession: { findUnique: vi.fn(), update: vi.fn() },
+    symptomKnowledge: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import { getSessionGrade } from '../services/sessionGrading.service';
+
+const mockPrisma = prisma as unknown as {
+  interviewSession: { findUnique: ReturnType<typeof vi.fn> };
+};
+
+const gradeResult = {
+  score: 60,
+  maxScore: 100,
+  mainSymptom: { name: '胸痛', key: 'chest_pain' },
+  sections: [{ section: 'chiefComplaint', label: '主诉', points: 10, maxPoints: 20 }],
+  items: [{ section: 'chiefComplaint', item: '主诉症状', passed: false, points: 0, maxPoints: 10, feedback: '主诉症状应为“胸痛”，记录为“腹痛”' }],
+};
+
+describe('SessionGradingService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.interviewSession.findUnique.mockResolvedValue({
+      id: 3,
+      doctorId: 5,
+      reviewerId: 9,
+      gradeScore: 60,
+      gradeResult,
+      gradedAt: new Date(0),
+      assignment: { id: 1, referenceSessionId: 2, expectedFindings: ['放射痛'], cohort: { teacherId: 9 } },
+    });
+  });
+
+  it('学生只能看到总分与分节得分，不含参考答案', async () => {
+    const grade = await getSessionGrade(3, { operatorId: 5, role: 'student' });
+
+    expect(grade.result).toEqual({ score: 60, maxScore: 100, sections: gradeResult.sections });
+    expect(JSON.stringify(grade)).not.toContain('胸痛');
+  });
+
+  it('教师可以看到逐项反馈', async () => {
+    const grade = await getSessionGrade(3, { operatorId: 9, role: 'teacher' });
+
+    expect(grade.result).toEqual(gradeResult);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * 病历自动评分引擎测试
+ */
+
+import { describe, it, expect } from 'vitest';
+import { gradeSession, mainSymptomOf, type GradingKnowledge } from '../services/sessionGrading';
+
+const knowledge: GradingKnowledge = {
+  symptomKey: 'abdominal_pain',
+  displayName: '腹痛',
+  requiredQuestions: [
+    '腹痛的具体位置在哪里？（上腹部/右上腹/右下腹/脐周/左下腹/弥漫性）',
+    '腹痛的诱发或加重因素是什么？（如进食油腻、饮酒、体位改变、咳嗽）',
+    '是否伴有发热、寒战？',
+    '是否伴有腹泻、便秘或排便习惯改变？粪便性状？',
+  ],
+  redFlags: [
+    '腹痛伴意识障碍、面色苍白、脉搏细速、血压下降（休克表现）',
+    '腹痛伴高热、寒战、黄疸（提示急性化脓性胆管炎等严重感染）',
+  ],
+};
+
+const reference = {
+  chiefComplaint: { text: '右上腹痛2天', symptom: '腹痛', durationNum: 2, durationUnit: '天' },
+  presentIllness: {
+    location: '右上腹',
+    trigger: '进食油腻后',
+    narrative: '伴发热，体温38.5℃',
+    negativeSymptoms: '无黄疸，无腹泻，无意识障碍',
+  },
+};
+
+describe('SessionGrading', () => {
+  it('应该从参考病历主诉中识别主症状', () => {
+    expect(mainSymptomOf(reference.chiefComplaint)).toEqual({ name: '腹痛', key: 'abdominal_pain' });
+    expect(mainSymptomOf({ text: '' })).toBeNull();
+  });
+
+  it('与参考病历一致的病历应得满分', () => {
+    const result = gradeSession(reference, reference, { knowledge, expectedFindings: ['发热'] });
+
+    expect(result.score).toBe(100);
+    expect(result.items.filter(i => !i.passed)).toEqual([]);
+    expect(result.sections.map(s => s.section)).toEqual([
+      'chiefComplaint',
+      'requiredQuestions',
+      'redFlags',
+      'pertinentNegatives',
+      'expectedFindings',
+    ]);
+  });
+
+  it('应该逐项给出主诉、必问问题、警惕征象与重要阴性的反馈', () => {
+    const student = {
+      chiefComplaint: { text: '腹痛1周', symptom: '腹痛', durationNum: 1, durationUnit: '周' },
+      presentIllness: { location: '右上腹', narrative: '伴腹泻' },
+    };
+
+    const result = gradeSession(student, reference, { knowledge });
+    const byItem = new Map(result.items.map(i => [i.item, i]));
+
+    expect(byItem.get('主诉症状')?.passed).toBe(true);
+    expect(byItem.get('病程时长')).toMatchObject({ passed: false, feedback: '病程应为2天，记录为1周' });
+    expect(byItem.get(knowledge.requiredQuestions[0])?.passed).toBe(true);
+    expect(byItem.get(knowledge.requiredQuestions[1])?.passed).toBe(false);
+    expect(byItem.get(knowledge.requiredQuestions[2])?.passed).toBe(false);
+    expect(byItem.get(knowledge.requiredQuestions[3])?.passed).toBe(true);
+    expect(result.items.filter(i => i.section === 'redFlags').every(i => !i.passed)).toBe(true);
+    expect(result.items.find(i => i.section === 'pertinentNegatives' && i.item === 'diarrhea')).toMatchObject({
+      passed: false,
+      feedback: '参考病历为阴性，记录为阳性：diarrhea',
+    });
+    expect(result.score).toBeGreaterThan(0);
+    expect(result.score).toBeLessThan(100);
+  });
+
+  it('没有可评分项的分节不计入总分', () => {
+    const result = gradeSession(reference, { chiefComplaint: { text: '腹痛2天' } });
+
+    expect(result.sections.map(s => s.section)).toEqual(['chiefComplaint']);
+    expect(result.score).toBe(100);
+  });
+});
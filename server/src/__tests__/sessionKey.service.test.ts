@@ -0,0 +1,106 @@
+/**
+ * 会话数据密钥授权测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => ({
+  default: {
+    interviewSession: { findUnique: vi.fn() },
+    sessionKeyGrant: { findMany: vi.fn(), upsert: vi.fn(), deleteMany: vi.fn() },
+    operator: { findUnique: vi.fn() },
+    keyVersion: { findFirst: vi.fn() },
+  },
+}));
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import { getSessionKeys, grantSessionKey, revokeSessionKey } from '../services/sessionKey.service';
+
+type Mock = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  interviewSession: { findUnique: Mock };
+  sessionKeyGrant: { findMany: Mock; upsert: Mock; deleteMany: Mock };
+  operator: { findUnique: Mock };
+  keyVersion: { findFirst: Mock };
+};
+
+const student = { operatorId: 5, role: 'student' as const };
+const teacher = { operatorId: 9, role: 'teacher' as const };
+const session = { id: 1, doctorId: 5, reviewerId: 9 };
+
+describe('SessionKeyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.interviewSession.findUnique.mockResolvedValue(session);
+    mockPrisma.keyVersion.findFirst.mockResolvedValue({ id: 31, version: 2 });
+    mockPrisma.sessionKeyGrant.upsert.mockResolvedValue({ grantedBy: 5, updatedAt: new Date(0), keyVersion: { version: 2 } });
+  });
+
+  it('病历作者创建首个数据密钥后为审核教师包装副本', async () => {
+    mockPrisma.sessionKeyGrant.findMany.mockResolvedValueOnce([]);
+    mockPrisma.operator.findUnique.mockResolvedValueOnce({ id: 5, name: '学生', username: 's', role: 'student' });
+    await grantSessionKey(1, student, 5, 'enc:own');
+
+    mockPrisma.sessionKeyGrant.findMany.mockResolvedValueOnce([{ recipientId: 5 }]);
+    mockPrisma.operator.findUnique.mockResolvedValueOnce({ id: 9, name: '王老师', username: 't', role: 'teacher' });
+    const granted = await grantSessionKey(1, student, 9, 'enc:for-teacher');
+
+    expect(granted).toMatchObject({ recipientId: 9, name: '王老师', isAuthor: false, keyVersion: 2 });
+    expect(mockPrisma.sessionKeyGrant.upsert).toHaveBeenLastCalledWith(expect.objectContaining({
+      where: { sessionId_recipientId: { sessionId: 1, recipientId: 9 } },
+      create: { sessionId: 1, recipientId: 9, wrappedKey: 'enc:for-teacher', keyVersionId: 31, grantedBy: 5 },
+    }));
+  });
+
+  it('未持有密钥、接收者无权查看或未创建密钥时拒绝授权', async () => {
+    mockPrisma.sessionKeyGrant.findMany.mockResolvedValue([{ recipientId: 5 }]);
+    await expect(grantSessionKey(1, teacher, 9, 'enc:x')).rejects.toMatchObject({ statusCode: 403 });
+
+    mockPrisma.operator.findUnique.mockResolvedValue({ id: 7, name: '其他学生', username: 'o', role: 'student' });
+    await expect(grantSessionKey(1, student, 7, 'enc:x')).rejects.toMatchObject({ statusCode: 409 });
+
+    mockPrisma.operator.findUnique.mockResolvedValue({ id: 9, name: '王老师', username: 't', role: 'teacher' });
+    mockPrisma.keyVersion.findFirst.mockResolvedValue(null);
+    await expect(grantSessionKey(1, student, 9, 'enc:x')).rejects.toMatchObject({ statusCode: 409 });
+
+    await expect(grantSessionKey(1, student, 9, 'plain')).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockPrisma.sessionKeyGrant.upsert).not.toHaveBeenCalled();
+  });
+
+  it('持有密钥的非作者不能覆盖他人的授权，只能重新包装自己的', async () => {
+    mockPrisma.sessionKeyGrant.findMany.mockResolvedValue([{ recipientId: 5 }, { recipientId: 9 }]);
+    await expect(grantSessionKey(1, teacher, 5, 'enc:x')).rejects.toMatchObject({ statusCode: 403 });
+    expect(mockPrisma.sessionKeyGrant.upsert).not.toHaveBeenCalled();
+
+    mockPrisma.operator.findUnique.mockResolvedValue({ id: 9, name: '王老师', username: 't', role: 'teacher' });
+    await grantSessionKey(1, teacher, 9, 'enc:rewrapped');
+    expect(mockPrisma.sessionKeyGrant.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      update: { wrappedKey: 'enc:rewrapped', keyVersionId: 31, grantedBy: 9 },
+    }));
+  });
+
+  it('只返回当前用户自己的包装密钥', async () => {
+    mockPrisma.sessionKeyGrant.findMany.mockResolvedValue([
+      { recipientId: 5, wrappedKey: 'enc:own', grantedBy: 5, updatedAt: new Date(0), recipient: { name: '学生', username: 's', role: 'student' }, keyVersion: { version: 1 } },
+      { recipientId: 9, wrappedKey: 'enc:t', grantedBy: 5, updatedAt: new Date(0), recipient: { name: null, username: 't', role: 'teacher' }, keyVersion: null },
+    ]);
+
+    const keys = await getSessionKeys(1, teacher);
+    expect(keys.wrappedKey).toBe('enc:t');
+    expect(keys.recipients.map(r => [r.recipientId, r.name, r.isAuthor])).toEqual([[5, '学生', true], [9, 't', false]]);
+    expect(JSON.stringify(keys.recipients)).not.toContain('enc:');
+  });
+
+  it('撤销时不能移除病历作者的密钥，非作者不能撤销', async () => {
+    await expect(revokeSessionKey(1, student, 5)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(revokeSessionKey(1, teacher, 9)).rejects.toMatchObject({ statusCode: 403 });
+
+    mockPrisma.sessionKeyGrant.deleteMany.mockResolvedValue({ count: 1 });
+    await revokeSessionKey(1, student, 9);
+    expect(mockPrisma.sessionKeyGrant.deleteMany).toHaveBeenCalledWith({ where: { sessionId: 1, recipientId: 9 } });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * 病历带教审核测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => {
+  const client = {
+    interviewSession: { findUnique: vi.fn(), update: vi.fn(), findMany: vi.fn() },
+    operator: { findUnique: vi.fn(), findMany: vi.fn() },
+    sessionReviewComment: { findMany: vi.fn(), create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { default: client };
+});
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import {
+  addComment,
+  approveSession,
+  canAccessSession,
+  isLockedForActor,
+  isValidFieldPath,
+  submitForReview,
+} from '../services/sessionReview.service';
+
+const mockPrisma = prisma as unknown as {
+  interviewSession: { findUnique: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
+  operator: { findUnique: ReturnType<typeof vi.fn> };
+  sessionReviewComment: { findMany: ReturnType<typeof vi.fn>; create: ReturnType<typeof vi.fn> };
+};
+
+const student = { operatorId: 5, role: 'student' as const };
+const teacher = { operatorId: 9, role: 'teacher' as const };
+
+const session = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  status: 'completed',
+  doctorId: 5,
+  reviewerId: null,
+  submittedAt: null,
+  reviewedAt: null,
+  ...overrides,
+});
+
+describe('SessionReviewService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.sessionReviewComment.findMany.mockResolvedValue([]);
+  });
+
+  it('应该校验批注字段路径', () => {
+    expect(isValidFieldPath('presentIllness')).toBe(true);
+    expect(isValidFieldPath('presentIllness.onsetTime')).toBe(true);
+    expect(isValidFieldPath('password')).toBe(false);
+    expect(isValidFieldPath('presentIllness..x')).toBe(false);
+  });
+
+  it('应该按角色判断会话访问与编辑锁定', () => {
+    expect(canAccessSession(student, { doctorId: 5 })).toBe(true);
+    expect(canAccessSession(student, { doctorId: 6 })).toBe(false);
+    expect(canAccessSession(teacher, { doctorId: 5, reviewerId: 9 })).toBe(true);
+    expect(canAccessSession(teacher, { doctorId: 5, reviewerId: 10 })).toBe(false);
+    expect(isLockedForActor(student, 'submitted')).toBe(true);
+    expect(isLockedForActor(student, 'returned')).toBe(false);
+    expect(isLockedForActor({ operatorId: 1, role: 'doctor' }, 'submitted')).toBe(false);
+  });
+
+  it('学生只能将自己的病历提交给教师', async () => {
+    mockPrisma.interviewSession.findUnique.mockResolvedValueOnce(session({ doctorId: 6 }));
+    await expect(submitForReview(1, student, 9)).rejects.toMatchObject({ statusCode: 403 });
+
+    mockPrisma.interviewSession.findUnique.mockResolvedValueOnce(session());
+    mockPrisma.operator.findUnique.mockResolvedValueOnce({ id: 9, role: 'doctor' });
+    await expect(submitForReview(1, student, 9)).rejects.toMatchObject({ statusCode: 400 });
+
+    mockPrisma.interviewSession.findUnique
+      .mockResolvedValueOnce(session())
+      .mockResolvedValueOnce(session({ status: 'submitted', reviewerId: 9 }));
+    mockPrisma.operator.findUnique.mockResolvedValueOnce({ id: 9, role: 'teacher' });
+    const review = await submitForReview(1, student, 9);
+    expect(mockPrisma.interviewSession.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({ status: 'submitted', reviewerId: 9 }),
+    });
+    expect(review).toMatchObject({ status: 'submitted', reviewerId: 9 });
+  });
+
+  it('非指定教师不能批注，批注路径须有效', async () => {
+    mockPrisma.interviewSession.findUnique.mockResolvedValueOnce(session({ status: 'submitted', reviewerId: 10 }));
+    await expect(addComment(1, teacher, { comment: '补充' })).rejects.toMatchObject({ statusCode: 403 });
+
+    mockPrisma.interviewSession.findUnique.mockResolvedValueOnce(session({ status: 'submitted', reviewerId: 9 }));
+    await expect(addComment(1, teacher, { fieldPath: 'secret', comment: '补充' })).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockPrisma.sessionReviewComment.create).not.toHaveBeenCalled();
+  });
+
+  it('通过审核时应更新状态并记录整体意见', async () => {
+    mockPrisma.interviewSession.findUnique
+      .mockResolvedValueOnce(session({ status: 'submitted', reviewerId: 9 }))
+      .mockResolvedValueOnce(session({ status: 'approved', reviewerId: 9 }));
+
+    const review = await approveSession(1, teacher, '书写规范');
+
+    expect(mockPrisma.interviewSession.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { status: 'approved', reviewedAt: expect.any(Date) },
+    });
+    expect(mockPrisma.sessionReviewComment.create).toHaveBeenCalledWith({
+      data: { sessionId: 1, authorId: 9, fieldPath: null, comment: '书写规范', action: 'approve' },
+    });
+    expect(review.status).toBe('approved');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * 会话修订历史测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+vi.mock('../prisma', () => {
+  const client = {
+    interviewSession: { findUnique: vi.fn(), update: vi.fn() },
+    sessionRevision: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn() },
+    keyVersion: { findMany: vi.fn() },
+    $queryRaw: vi.fn(),
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { default: client };
+});
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import { diffJson } from '../services/jsonPatch';
+import { updateSessionWithEncryption } from '../services/session.service';
+import { buildRevisionChange, diffRevisions, restoreRevision, stateAtRevision } from '../services/sessionRevision.service';
+
+const mockPrisma = prisma as unknown as {
+  interviewSession: { findUnique: ReturnType<typeof vi.fn>; update: ReturnType<typeof vi.fn> };
+  sessionRevision: {
+    findFirst: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+  };
+  keyVersion: { findMany: ReturnType<typeof vi.fn> };
+  $queryRaw: ReturnType<typeof vi.fn>;
+  $transaction: ReturnType<typeof vi.fn>;
+};
+
+const student = { operatorId: 5, role: 'student' as const };
+
+// 第 1 次保存修改主诉，第 2 次保存清空既往史并再次修改主诉
+const revisions = [
+  {
+    revision: 1,
+    sections: ['chiefComplaint'],
+    before: { chiefComplaint: { text: '头痛' } },
+    after: { chiefComplaint: { text: '头痛3天' } },
+  },
+  {
+    revision: 2,
+    sections: ['chiefComplaint', 'pastHistory'],
+    before: { chiefComplaint: { text: '头痛3天' }, pastHistory: { pmh_diseases: ['高血压'] } },
+    after: { chiefComplaint: { text: '头痛伴呕吐3天' }, pastHistory: null },
+  },
+];
+
+const currentSession = {
+  id: 1,
+  status: 'draft',
+  doctorId: 5,
+  reviewerId: null,
+  chiefComplaint: { text: '头痛伴呕吐3天' },
+  pastHistory: null,
+  historian: '本人',
+};
+
+describe('SessionRevisionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('按 RFC 6902 生成对象与数组的差异', () => {
+    expect(diffJson(
+      { symptom: '头痛', tags: ['a', 'b', 'c'], 'a/b': 1, removed: true },
+      { symptom: '胸痛', tags: ['a'], 'a/b': 2, added: { x: 1 } }
+    )).toEqual([
+      { op: 'replace', path: '/symptom', value: '胸痛' },
+      { op: 'remove', path: '/tags/2' },
+      { op: 'remove', path: '/tags/1' },
+      { op: 'replace', path: '/a~1b', value: 2 },
+      { op: 'remove', path: '/removed' },
+      { op: 'add', path: '/added', value: { x: 1 } },
+    ]);
+    expect(diffJson(null, 'enc:abc')).toEqual([{ op: 'replace', path: '', value: 'enc:abc' }]);
+    expect(diffJson({ a: [1] }, { a: [1] })).toEqual([]);
+  });
+
+  it('仅记录实际变化的章节', () => {
+    const change = buildRevisionChange(
+      { chiefComplaint: { text: '头痛' }, historian: '本人' },
+      { chiefComplaint: { text: '头痛3天' }, historian: '本人' },
+      ['chiefComplaint', 'historian']
+    );
+    expect(change).toEqual({
+      sections: ['chiefComplaint'],
+      before: { chiefComplaint: { text: '头痛' } },
+      after: { chiefComplaint: { text: '头痛3天' } },
+      patch: { chiefComplaint: [{ op: 'replace', path: '/text', value: '头痛3天' }] },
+    });
+    expect(buildRevisionChange({ historian: '本人' }, { historian: '本人' }, ['historian'])).toBeNull();
+  });
+
+  it('重建任意修订保存后的病历内容', () => {
+    const at0 = stateAtRevision(revisions, currentSession, 0);
+    expect(at0).toMatchObject({ chiefComplaint: { text: '头痛' }, pastHistory: { pmh_diseases: ['高血压'] }, historian: '本人' });
+
+    const at1 = stateAtRevision(revisions, currentSession, 1);
+    expect(at1).toMatchObject({ chiefComplaint: { text: '头痛3天' }, pastHistory: { pmh_diseases: ['高血压'] } });
+
+    const at2 = stateAtRevision(revisions, currentSession, 2);
+    expect(at2).toMatchObject({ chiefComplaint: { text: '头痛伴呕吐3天' }, pastHistory: null });
+  });
+
+  it('比较两个修订时仅返回有差异的章节', async () => {
+    mockPrisma.interviewSession.findUnique.mockResolvedValue(currentSession);
+    mockPrisma.sessionRevision.findMany.mockResolvedValue(revisions);
+
+    const diff = await diffRevisions(1, student, 0, 2);
+    expect(diff).toEqual({
+      from: 0,
+      to: 2,
+      sections: {
+        chiefComplaint: [{ op: 'replace', path: '/text', value: '头痛伴呕吐3天' }],
+        pastHistory: [{ op: 'replace', path: '', value: null }],
+      },
+    });
+
+    await expect(diffRevisions(1, student, 0, 9)).rejects.toMatchObject({ statusCode: 404 });
+    await expect(diffRevisions(1, { operatorId: 6, role: 'student' }, 0, 2)).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('恢复单个章节并记录为新的修订', async () => {
+    mockPrisma.interviewSession.findUnique.mockResolvedValue(currentSession);
+    mockPrisma.sessionRevision.findMany.mockResolvedValue(revisions);
+    mockPrisma.sessionRevision.findFirst.mockResolvedValue({ revision: 2 });
+
+    const result = await restoreRevision(1, student, 1, 'pastHistory');
+
+    expect(result).toEqual({ revision: 3, sections: ['pastHistory'] });
+    expect(mockPrisma.interviewSession.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { pastHistory: { pmh_diseases: ['高血压'] } },
+    });
+    expect(mockPrisma.sessionRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ revision: 3, action: 'restore', restoredFrom: 1, operatorId: 5, sections: ['pastHistory'] }),
+    });
+    // 在事务中先锁定会话行，再读取当前内容与修订
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(mockPrisma.interviewSession.findUnique.mock.invocationCallOrder[0]);
+    expect(mockPrisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(mockPrisma.sessionRevision.findMany.mock.invocationCallOrder[0]);
+  });
+
+  it('恢复整份病历时为清空的 JSON 章节写入 DbNull，已提交审核的病历不能恢复', async () => {
+    mockPrisma.interviewSession.findUnique.mockResolvedValue({ ...currentSession, pastHistory: { pmh_diseases: ['糖尿病'] } });
+    mockPrisma.sessionRevision.findMany.mockResolvedValue(revisions);
+    mockPrisma.sessionRevision.findFirst.mockResolvedValue({ revision: 2 });
+
+    await restoreRevision(1, student, 2);
+    expect(mockPrisma.interviewSession.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { pastHistory: Prisma.DbNull },
+    });
+
+    mockPrisma.interviewSession.findUnique.mockResolvedValue({ ...currentSession, status: 'submitted' });
+    await expect(restoreRevision(1, student, 1)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('恢复旧密钥版本下的快照时改标记会话，版本已吊销时拒绝恢复', async () => {
+    const encrypted = revisions.map(r => ({ ...r, keyVersionId: r.revision === 1 ? 11 : 12 }));
+    mockPrisma.interviewSession.findUnique.mockResolvedValue({ ...currentSession, keyVersionId: 12 });
+    mockPrisma.sessionRevision.findMany.mockResolvedValue(encrypted);
+    mockPrisma.sessionRevision.findFirst.mockResolvedValue({ revision: 2 });
+    mockPrisma.keyVersion.findMany.mockResolvedValue([
+      { id: 11, version: 1, isRevoked: false },
+      { id: 12, version: 2, isRevoked: false },
+    ]);
+
+    await restoreRevision(1, student, 1, 'chiefComplaint');
+    expect(mockPrisma.interviewSession.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { chiefComplaint: { text: '头痛3天' }, keyVersion: { connect: { id: 11 } } },
+    });
+    expect(mockPrisma.sessionRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ revision: 3, keyVersionId: 11 }),
+    });
+
+    mockPrisma.interviewSession.update.mockClear();
+    mockPrisma.keyVersion.findMany.mockResolvedValue([
+      { id: 11, version: 1, isRevoked: true },
+      { id: 12, version: 2, isRevoked: false },
+    ]);
+    await expect(restoreRevision(1, student, 1, 'chiefComplaint')).rejects.toMatchObject({ statusCode: 409 });
+    expect(mockPrisma.interviewSession.update).not.toHaveBeenCalled();
+  });
+
+  it('保存会话时为变化的章节写入修订', async () => {
+    mockPrisma.interviewSession.findUnique.mockResolvedValue(currentSession);
+    mockPrisma.interviewSession.update.mockResolvedValue({ ...currentSession, chiefComplaint: { text: '头痛伴呕吐4天' } });
+    mockPrisma.sessionRevision.findFirst.mockResolvedValue(null);
+
+    await updateSessionWithEncryption(1, { chiefComplaint: { text: '头痛伴呕吐4天' }, historian: '本人' }, 5);
+
+    expect(mockPrisma.sessionRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        revision: 1,
+        operatorId: 5,
+        action: 'update',
+        sections: ['chiefComplaint'],
+        patch: { chiefComplaint: [{ op: 'replace', path: '/text', value: '头痛伴呕吐4天' }] },
+      }),
+    });
+    // 读取修改前内容前先锁定会话行
+    expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(mockPrisma.interviewSession.findUnique.mock.invocationCallOrder[0]);
+
+    vi.clearAllMocks();
+    mockPrisma.interviewSession.update.mockResolvedValue(currentSession);
+    await updateSessionWithEncryption(1, { status: 'completed' });
+    expect(mockPrisma.interviewSession.findUnique).not.toHaveBeenCalled();
+    expect(mockPrisma.sessionRevision.create).not.toHaveBeenCalled();
+  });
+});
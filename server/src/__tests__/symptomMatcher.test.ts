@@ -0,0 +1,85 @@
+/**
+ * 症状词典匹配测试
+ * 验证词典构建、重叠消解、否定识别与字符区间
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSymptomDictionary,
+  buildSymptomTrie,
+  findSymptomMentions,
+  isNegated,
+  matchSymptoms,
+  splitDisplayName,
+} from '../services/symptomMatcher';
+
+const knowledge = [
+  { symptomKey: 'fever', displayName: '发热' },
+  { symptomKey: 'headache', displayName: '头痛' },
+  { symptomKey: 'abdominal_pain', displayName: '腹痛' },
+  { symptomKey: 'nausea_vomiting', displayName: '恶心与呕吐' },
+  { symptomKey: 'oliguria_anuria_polyuria', displayName: '少尿、无尿和多尿' },
+  { symptomKey: 'hematemesis', displayName: '呕血' },
+];
+
+const mentionsOf = (text: string) => findSymptomMentions(text, buildSymptomTrie(buildSymptomDictionary(knowledge)));
+
+describe('SymptomMatcher', () => {
+  describe('词典构建', () => {
+    it('应该拆分复合显示名', () => {
+      expect(splitDisplayName('少尿、无尿和多尿')).toEqual(['少尿', '无尿', '多尿']);
+      expect(splitDisplayName('咳嗽与咳痰')).toEqual(['咳嗽', '咳痰']);
+    });
+
+    it('应该将同义词归一并通过 key 别名关联知识库', () => {
+      const dict = buildSymptomDictionary(knowledge);
+      const byTerm = new Map(dict.map(e => [e.term, e]));
+
+      expect(byTerm.get('发烧')).toEqual(expect.objectContaining({ name: '发热', key: 'fever' }));
+      expect(byTerm.get('黑便')?.knowledge?.symptomKey).toBe('hematemesis');
+      expect(byTerm.get('少尿')?.knowledge?.symptomKey).toBe('oliguria_anuria_polyuria');
+      expect(byTerm.get('头晕')).toEqual(expect.objectContaining({ key: '头晕', knowledge: null }));
+    });
+  });
+
+  describe('匹配', () => {
+    it('应该优先最长匹配并返回字符区间', () => {
+      const mentions = mentionsOf('偏头痛2年，恶心呕吐1天');
+      expect(mentions.map(m => [m.name, m.start, m.end])).toEqual([
+        ['头痛', 0, 3],
+        ['恶心呕吐', 6, 10],
+      ]);
+      expect(mentions[0].text).toBe('偏头痛');
+    });
+
+    it('应该匹配英文 symptomKey 且要求完整单词', () => {
+      expect(mentionsOf('Fever for 3 days').map(m => m.name)).toEqual(['发热']);
+      expect(mentionsOf('feverish')).toEqual([]);
+    });
+  });
+
+  describe('否定识别', () => {
+    it('应该识别否定词作用于并列症状', () => {
+      const { matchedSymptoms, negatedSymptoms } = matchSymptoms('腹痛3天，无发热、头痛', knowledge);
+      expect(matchedSymptoms.map(s => s.name)).toEqual(['腹痛']);
+      expect(negatedSymptoms.map(s => s.name)).toEqual(['发热', '头痛']);
+    });
+
+    it('应该在分句或转折词处终止否定作用域', () => {
+      expect(isNegated('无明显诱因出现腹痛', 7)).toBe(false);
+      expect(isNegated('否认发热，腹痛', 5)).toBe(false);
+      expect(isNegated('否认发热', 2)).toBe(true);
+    });
+
+    it('不应将症状词中的“无”视为否定词', () => {
+      const { matchedSymptoms } = matchSymptoms('无尿、腹痛1天', knowledge);
+      expect(matchedSymptoms.map(s => s.name)).toEqual(['无尿', '腹痛']);
+    });
+
+    it('同一症状同时存在阳性与阴性提及时以阳性为准', () => {
+      const { matchedSymptoms, negatedSymptoms } = matchSymptoms('曾否认发热，今日发热', knowledge);
+      expect(matchedSymptoms.map(s => s.name)).toEqual(['发热']);
+      expect(negatedSymptoms).toEqual([]);
+    });
+  });
+});
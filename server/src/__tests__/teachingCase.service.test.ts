@@ -0,0 +1,146 @@
+/**
+ * 教学病例库测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => {
+  const client = {
+    teachingCase: { findUnique: vi.fn(), findMany: vi.fn(), create: vi.fn(), update: vi.fn() },
+    patient: { create: vi.fn() },
+    interviewSession: { create: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => unknown) => fn(client));
+  return { default: client };
+});
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import {
+  TEACHING_CASE_BUNDLE_FORMAT,
+  getCase,
+  importCases,
+  parseBundle,
+  startPractice,
+} from '../services/teachingCase.service';
+
+const mockPrisma = prisma as unknown as {
+  teachingCase: {
+    findUnique: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+  patient: { create: ReturnType<typeof vi.fn> };
+  interviewSession: { create: ReturnType<typeof vi.fn> };
+};
+
+const teacher = { operatorId: 9, role: 'teacher' as const };
+const student = { operatorId: 5, role: 'student' as const };
+
+const storedCase = {
+  id: 1,
+  code: 'cholecystitis',
+  title: '右上腹痛',
+  scenario: '46岁女性，进食油腻后右上腹痛',
+  demographics: { name: '王丽', gender: '女', age: 46, occupation: '收银员' },
+  history: { chiefComplaint: { text: '右上腹痛2天' } },
+  expectedDiagnosis: '急性胆囊炎',
+  teachingPoints: ['Murphy 征'],
+  version: 2,
+  createdBy: 9,
+};
+
+const bundleOf = (cases: unknown[], formatVersion = 1) =>
+  JSON.stringify({ format: TEACHING_CASE_BUNDLE_FORMAT, formatVersion, exportedAt: '2026-10-19T00:00:00.000Z', cases });
+
+const bundleCase = (code: string, version: number) => ({
+  code,
+  title: code,
+  demographics: { name: '患者', gender: '男', age: 30 },
+  history: {},
+  version,
+});
+
+describe('TeachingCaseService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('学生查看病例时不返回标准病史、预期诊断与教学要点', async () => {
+    mockPrisma.teachingCase.findUnique.mockResolvedValue(storedCase);
+
+    const visible = await getCase(1, student);
+    expect(visible).not.toHaveProperty('history');
+    expect(visible).not.toHaveProperty('expectedDiagnosis');
+    expect(visible).not.toHaveProperty('teachingPoints');
+    expect(visible).toMatchObject({ title: '右上腹痛', scenario: storedCase.scenario });
+
+    await expect(getCase(1, teacher)).resolves.toMatchObject({ expectedDiagnosis: '急性胆囊炎' });
+  });
+
+  it('应该拒绝格式或版本不受支持的病例包', () => {
+    expect(() => parseBundle('{')).toThrow('JSON 格式错误');
+    expect(() => parseBundle(JSON.stringify({ cases: [] }))).toThrow('不是教学病例包');
+    expect(() => parseBundle(bundleOf([bundleCase('a', 1)], 2))).toThrow('不支持的病例包版本: 2');
+    expect(() => parseBundle(bundleOf([bundleCase('a', 1), bundleCase('a', 2)]))).toThrow('病例包中病例编码重复: a');
+  });
+
+  it('导入时新增未知病例，仅在病例包版本更新时覆盖', async () => {
+    mockPrisma.teachingCase.findMany.mockResolvedValue([
+      { id: 1, code: 'cholecystitis', version: 2, createdBy: 9 },
+      { id: 2, code: 'pneumonia', version: 3, createdBy: 9 },
+    ]);
+    const content = bundleOf([bundleCase('cholecystitis', 3), bundleCase('pneumonia', 3), bundleCase('appendicitis', 1)]);
+
+    const preview = await importCases(teacher, content, true);
+    expect(preview).toEqual({
+      total: 3,
+      created: ['appendicitis'],
+      updated: ['cholecystitis'],
+      skipped: ['pneumonia'],
+      dryRun: true,
+    });
+    expect(mockPrisma.teachingCase.create).not.toHaveBeenCalled();
+
+    await importCases(teacher, content);
+    expect(mockPrisma.teachingCase.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.teachingCase.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ code: 'appendicitis', createdBy: 9 }),
+    });
+    expect(mockPrisma.teachingCase.update).toHaveBeenCalledWith({
+      where: { code: 'cholecystitis' },
+      data: expect.objectContaining({ version: 3 }),
+    });
+
+    // 覆盖他人创建的病例需要管理员权限
+    await expect(importCases({ operatorId: 7, role: 'teacher' }, content)).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it('由病例开始练习时创建模拟患者与空白会话', async () => {
+    mockPrisma.teachingCase.findUnique.mockResolvedValue(storedCase);
+    mockPrisma.patient.create.mockResolvedValue({ id: 30 });
+    mockPrisma.interviewSession.create.mockResolvedValue({ id: 40, patientId: 30 });
+
+    const result = await startPractice(1, student, new Date('2026-10-19T08:00:00Z'));
+
+    expect(result).toEqual({ sessionId: 40, patientId: 30 });
+    expect(mockPrisma.patient.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: '王丽',
+        gender: '女',
+        birthDate: new Date('1980-10-19T00:00:00Z'),
+        isSimulated: true,
+      }),
+    });
+    expect(mockPrisma.interviewSession.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ patientId: 30, doctorId: 5, teachingCaseId: 1, status: 'draft' }),
+      })
+    );
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * TOTP 两步验证测试
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../prisma', () => {
+  const client = {
+    operator: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    totpRecoveryCode: { deleteMany: vi.fn(), createMany: vi.fn(), updateMany: vi.fn(), count: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((ops: unknown[]) => Promise.all(ops));
+  return { default: client };
+});
+
+vi.mock('../utils/redis-client', () => ({
+  getRedisClient: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../utils/secureLogger', () => ({
+  secureLogger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn(), logSecurity: vi.fn() },
+}));
+
+import prisma from '../prisma';
+import { base32Encode, buildOtpauthUri, generateTotp, totpStep, verifyTotp } from '../utils/totp';
+import { beginTotpSetup, enableTotp, verifySecondFactor } from '../services/totp.service';
+
+type Mock = ReturnType<typeof vi.fn>;
+const mockPrisma = prisma as unknown as {
+  operator: { findUnique: Mock; update: Mock; updateMany: Mock };
+  totpRecoveryCode: { deleteMany: Mock; createMany: Mock; updateMany: Mock; count: Mock };
+};
+
+// RFC 6238 附录 B 的 SHA1 测试密钥
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('与 RFC 6238 测试向量一致（取低 6 位）', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(generateTotp(RFC_SECRET, totpStep(59_000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, totpStep(1_111_111_109_000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, totpStep(2_000_000_000_000))).toBe('279037');
+  });
+
+  it('允许前后一个步长的时钟偏差', () => {
+    const now = 1_111_111_109_000;
+    const previous = generateTotp(RFC_SECRET, totpStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(totpStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, totpStep(now) - 2), { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', { now })).toBeNull();
+    expect(buildOtpauthUri(RFC_SECRET, 'admin', 'MSIA')).toMatch(/^otpauth:\/\/totp\/MSIA%3Aadmin\?secret=GEZD.+&issuer=MSIA/);
+  });
+
+  it('校验首个动态码后启用并下发哈希存储的恢复码', async () => {
+    mockPrisma.operator.findUnique.mockResolvedValueOnce({ id: 2, username: 'admin', totpSecret: null, totpEnabledAt: null });
+    const { secret } = await beginTotpSetup(2);
+    const sealed = (mockPrisma.operator.update.mock.calls[0][0] as { data: { totpSecret: string } }).data.totpSecret;
+    expect(sealed).not.toContain(secret);
+
+    mockPrisma.operator.findUnique.mockResolvedValue({ id: 2, username: 'admin', totpSecret: sealed, totpEnabledAt: null, totpLastStep: null });
+    await expect(enableTotp(2, 'abc123')).rejects.toMatchObject({ statusCode: 400 });
+
+    const { recoveryCodes } = await enableTotp(2, generateTotp(secret));
+    expect(recoveryCodes).toHaveLength(10);
+    expect(recoveryCodes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+    const stored = (mockPrisma.totpRecoveryCode.createMany.mock.calls[0][0] as { data: Array<{ codeHash: string }> }).data;
+    expect(stored.map(r => r.codeHash)).not.toContain(recoveryCodes[0]);
+    expect(stored[0].codeHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('同一时间步的动态码不能重复使用，恢复码只能使用一次', async () => {
+    mockPrisma.operator.findUnique.mockResolvedValueOnce({ id: 2, username: 'admin', totpSecret: null, totpEnabledAt: null });
+    const { secret } = await beginTotpSetup(2);
+    const sealed = (mockPrisma.operator.update.mock.calls[0][0] as { data: { totpSecret: string } }).data.totpSecret;
+    const step = totpStep();
+    mockPrisma.operator.findUnique.mockResolvedValue({ id: 2, totpSecret: sealed, totpEnabledAt: new Date(0), totpLastStep: step });
+
+    expect(await verifySecondFactor(2, { code: generateTotp(secret, step) })).toBeNull();
+
+    mockPrisma.totpRecoveryCode.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+    expect(await verifySecondFactor(2, { recoveryCode: 'abcde-fghij' })).toBe('recovery_code');
+    expect(mockPrisma.totpRecoveryCode.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ operatorId: 2, usedAt: null }),
+    }));
+    expect(await verifySecondFactor(2, { recoveryCode: 'abcde-fghij' })).toBeNull();
+  });
+
+  it('并发提交同一动态码时只有推进了时间步的请求通过', async () => {
+    mockPrisma.operator.findUnique.mockResolvedValueOnce({ id: 2, username: 'admin', totpSecret: null, totpEnabledAt: null });
+    const { secret } = await beginTotpSetup(2);
+    const sealed = (mockPrisma.operator.update.mock.calls[0][0] as { data: { totpSecret: string } }).data.totpSecret;
+    const step = totpStep();
+    mockPrisma.operator.findUnique.mockResolvedValue({ id: 2, totpSecret: sealed, totpEnabledAt: new Date(0), totpLastStep: step - 1 });
+    mockPrisma.operator.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const code = generateTotp(secret, step);
+    expect(await verifySecondFactor(2, { code })).toBe('totp');
+    expect(await verifySecondFactor(2, { code })).toBeNull();
+    expect(mockPrisma.operator.updateMany).toHaveBeenCalledWith({
+      where: { id: 2, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step },
+    });
+  });
+});
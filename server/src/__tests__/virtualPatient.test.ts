@@ -0,0 +1,77 @@
+/**
+ * 虚拟标准化病人测试
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import {
+  SpCaseSchema,
+  answerQuestion,
+  buildSessionPatch,
+  classifyQuestion,
+  scoreCoverage,
+  type SpTurn,
+} from '../services/virtualPatient';
+
+const spCase = SpCaseSchema.parse(
+  JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../sp_cases/acute_cholecystitis.json'), 'utf-8'))
+);
+
+const dictionary = [
+  { symptomKey: 'abdominal_pain', displayName: '腹痛' },
+  { symptomKey: 'fever', displayName: '发热' },
+  { symptomKey: 'jaundice', displayName: '黄疸' },
+  { symptomKey: 'diarrhea', displayName: '腹泻' },
+  { symptomKey: 'hematuria', displayName: '血尿' },
+];
+
+const requiredQuestions = [
+  '腹痛的具体位置在哪里？（上腹部/右上腹/右下腹/脐周/左下腹/弥漫性）',
+  '腹痛的诱发或加重因素是什么？（如进食油腻、饮酒、体位改变、咳嗽）',
+  '是否伴有发热、寒战？',
+  '是否伴有黄疸、尿色改变？',
+];
+
+const options = { requiredQuestions, dictionary };
+
+const ask = (question: string): SpTurn => {
+  const { intents, symptoms } = answerQuestion(question, spCase, options);
+  return { question, intents, symptoms };
+};
+
+describe('VirtualPatient', () => {
+  it('应该按病例事实回答问诊意图与伴随症状', () => {
+    expect(answerQuestion('您哪里不舒服？疼的位置在哪儿？', spCase, options)).toMatchObject({
+      intents: ['location'],
+      answer: spCase.facts.location?.answer,
+    });
+    expect(answerQuestion('有没有发烧？发热吗', spCase, options)).toMatchObject({
+      symptoms: ['发热'],
+      answer: spCase.symptoms[0].answer,
+    });
+    // 病例中未列出的症状按否认回答
+    expect(answerQuestion('有血尿吗', spCase, options).answer).toBe('没有血尿。');
+    expect(answerQuestion('今天天气怎么样', spCase, options)).toMatchObject({ intents: [], answer: spCase.fallback });
+  });
+
+  it('规则未命中时按最相似的必问问题识别意图', () => {
+    expect(classifyQuestion('右上腹或者脐周？', spCase, options).intents).toEqual(['location']);
+    expect(classifyQuestion('右上腹或者脐周？', spCase, { dictionary }).intents).toEqual([]);
+  });
+
+  it('结束时只将问到的事实写入病历，并统计必问问题覆盖', () => {
+    const turns = [ask('从什么时候开始疼的？'), ask('疼在哪个位置？'), ask('有没有发热？'), ask('眼睛黄不黄，有黄疸吗')];
+
+    const patch = buildSessionPatch(spCase, turns);
+    expect(patch.chiefComplaint).toMatchObject({ symptom: '腹痛', durationNum: 2, durationUnit: '天' });
+    expect(patch.presentIllness.narrative).toBe(
+      '患者2天前晚餐后约2小时突然出现右上腹痛。疼痛位于右上腹。伴发热，最高体温38.6℃，伴畏寒。无黄疸。'
+    );
+    expect(patch.pastHistory).toEqual({});
+
+    const coverage = scoreCoverage(spCase, turns, requiredQuestions, dictionary);
+    expect(coverage.items.map(i => i.asked)).toEqual([true, false, true, true]);
+    expect(coverage.score).toBe(75);
+  });
+});
@@ -46,6 +46,8 @@ export const fileConfig = {
   allowedExtensions: ['.txt', '.json', '.pdf', '.doc', '.docx'],
   uploadDir: process.env.UPLOAD_DIR || './uploads',
   knowledgeBaseDir: process.env.KNOWLEDGE_BASE_DIR || './knowledge_base',
+  // 虚拟标准化病人病例文件目录
+  spCaseDir: process.env.SP_CASE_DIR || './sp_cases',
 };
 
 /**
@@ -143,6 +145,10 @@ export const authGuardConfig = {
   loginMaxFailsAdmin: parseIntEnv('AUTH_LOGIN_MAX_FAILS_ADMIN', 5),
   loginLockMsAdmin: parseIntEnv('AUTH_LOGIN_LOCK_MS_ADMIN', 10 * 60 * 1000),
 
+  // 强制启用 TOTP 两步验证（未启用的账号登录后须先完成绑定）
+  totpRequiredDoctor: parseBoolEnv('AUTH_TOTP_REQUIRED_DOCTOR', false),
+  totpRequiredAdmin: parseBoolEnv('AUTH_TOTP_REQUIRED_ADMIN', false),
+
   registerIpWindowMs: parseIntEnv('AUTH_REGISTER_IP_WINDOW_MS', 10 * 60 * 1000),
   registerIpMax: parseIntEnv('AUTH_REGISTER_IP_MAX', 20),
 
@@ -162,4 +168,52 @@ export const authSessionConfig = {
   refreshCookieMaxAgeMs: parseIntEnv('AUTH_REFRESH_COOKIE_MAXAGE_MS', 7 * 24 * 60 * 60 * 1000),
   refreshStoreTtlMs: parseIntEnv('AUTH_REFRESH_STORE_TTL_MS', 7 * 24 * 60 * 60 * 1000),
   refreshRotateOnUse: parseBoolEnv('AUTH_REFRESH_ROTATE', true),
+  // 每次刷新重新计算会话有效期（默认自登录起固定有效期）
+  refreshSlidingTtl: parseBoolEnv('AUTH_REFRESH_SLIDING_TTL', false),
+};
+
+/**
+ * TOTP 两步验证配置
+ */
+export const totpConfig = {
+  issuer: String(process.env.TOTP_ISSUER || 'MSIA').trim() || 'MSIA',
+  // 密码验证通过后等待输入动态码的有效期
+  challengeTtlMs: parseIntEnv('TOTP_CHALLENGE_TTL_MS', 5 * 60 * 1000),
+  recoveryCodeCount: parseIntEnv('TOTP_RECOVERY_CODE_COUNT', 10),
+};
+
+/**
+ * 自助重置密码配置
+ */
+export const passwordResetConfig = {
+  codeTtlMs: parseIntEnv('PASSWORD_RESET_CODE_TTL_MS', 10 * 60 * 1000),
+  tokenTtlMs: parseIntEnv('PASSWORD_RESET_TOKEN_TTL_MS', 10 * 60 * 1000),
+  // 验证失败次数限制（按用户名计数）
+  maxVerifyFails: parseIntEnv('PASSWORD_RESET_MAX_FAILS', 5),
+  verifyWindowMs: parseIntEnv('PASSWORD_RESET_WINDOW_MS', 15 * 60 * 1000),
+};
+
+/**
+ * 邮件发送配置
+ * log：写入日志；file：写入 outboxDir 下的文件，均用于离线开发
+ */
+export const mailConfig = {
+  transport: parseEnumEnv('MAIL_TRANSPORT', ['log', 'file', 'smtp'] as const, 'log'),
+  from: String(process.env.MAIL_FROM || 'no-reply@msia.local').trim(),
+  outboxDir: process.env.MAIL_OUTBOX_DIR || './mail_outbox',
+  smtp: {
+    host: String(process.env.SMTP_HOST || '').trim(),
+    port: parseIntEnv('SMTP_PORT', 587),
+    secure: parseBoolEnv('SMTP_SECURE', false),
+    user: String(process.env.SMTP_USER || '').trim(),
+    pass: process.env.SMTP_PASS || '',
+  },
+};
+
+/**
+ * 知识库文件同步配置
+ */
+export const knowledgeSyncConfig = {
+  watch: parseBoolEnv('KNOWLEDGE_WATCH', process.env.NODE_ENV !== 'test'),
+  debounceMs: parseIntEnv('KNOWLEDGE_WATCH_DEBOUNCE_MS', 1000),
 };
@@ -131,6 +131,7 @@ export function validateConfig(): void {
   // 生产环境额外必需的变量
   const productionRequiredVars = [
     'ENCRYPTION_KEY',
+    'HMAC_SECRET',
   ];
 
   const missingVars: string[] = [];
@@ -3,11 +3,22 @@ import crypto from 'crypto';
 import { loadOperatorFromToken, parseOperatorToken } from '../middleware/auth';
 import prisma from '../prisma';
 import { comparePassword, hashPassword, signAccessToken, signRefreshToken, verifyRefreshToken } from '../utils/auth-helpers';
-import { authCookieConfig, authGuardConfig, authSessionConfig } from '../config';
+import { authCookieConfig, authGuardConfig, authSessionConfig, totpConfig } from '../config';
 import { getRedisClient, incrWithExpire, incrWithTtl } from '../utils/redis-client';
 import { createCaptcha, verifyCaptcha as verifyCaptchaPair } from '../services/captcha.service';
+import {
+  deleteRefreshSession,
+  getRefreshSession,
+  listOperatorRefreshSessions,
+  putRefreshSession,
+  revokeOperatorRefreshSessions,
+  revokeRefreshSession,
+} from '../services/refreshSession.service';
+import * as totpService from '../services/totp.service';
 import { secureLogger } from '../utils/secureLogger';
+import { auditLog, AuditEventType } from '../utils/auditLogger';
 import { readCookieFromRequest } from '../utils/cookie';
+import { AppError, ErrorTypes } from '../middleware/errorHandler';
 
 type LoginFailRecord = {
   count: number;
@@ -33,6 +44,7 @@ type LoginGuardBlock = {
 type AuthRolePolicy = {
   maxFails: number;
   lockMs: number;
+  totpRequired: boolean;
 };
 
 const LOGIN_MAX_LOCK_MS = Math.max(authGuardConfig.loginLockMsDoctor, authGuardConfig.loginLockMsAdmin);
@@ -40,10 +52,6 @@ const LOGIN_MAX_LOCK_MS = Math.max(authGuardConfig.loginLockMsDoctor, authGuardC
 const loginFailByKey = new Map<string, LoginFailRecord>();
 const loginIpCounter = new Map<string, WindowCounter>();
 const registerIpCounter = new Map<string, WindowCounter>();
-const refreshSessionBySid = new Map<
-  string,
-  { operatorId: number; role: string; jti: string; expiresAt: number }
->();
 
 let warnedLoginDbMissing = false;
 
@@ -87,6 +95,17 @@ function getCookieSecurityOptions() {
   } as const;
 }
 
+/**
+ * 写入访问令牌 Cookie
+ */
+function setAccessCookie(res: Response, accessToken: string) {
+  res.cookie(authCookieConfig.accessCookieName, accessToken, {
+    ...getCookieSecurityOptions(),
+    maxAge: authSessionConfig.accessCookieMaxAgeMs,
+    path: '/',
+  });
+}
+
 /**
  * 设置认证 Cookie
  * 生产环境强制 HTTPS，开发环境允许 HTTP
@@ -94,11 +113,7 @@ function getCookieSecurityOptions() {
 function setAuthCookies(res: Response, input: { accessToken: string; refreshToken: string }) {
   const base = getCookieSecurityOptions();
 
-  res.cookie(authCookieConfig.accessCookieName, input.accessToken, {
-    ...base,
-    maxAge: authSessionConfig.accessCookieMaxAgeMs,
-    path: '/',
-  });
+  setAccessCookie(res, input.accessToken);
 
   res.cookie(authCookieConfig.refreshCookieName, input.refreshToken, {
     ...base,
@@ -127,7 +142,8 @@ function normalizeUsername(username: unknown): string {
 
 /**
  * getRolePolicy
- * 根据角色获取登录失败阈值与锁定时长配置
+ * 根据角色获取登录失败阈值、锁定时长与两步验证要求。
+ * 只区分管理员与其他角色：医生、教师、学生均使用 *_DOCTOR 配置
  */
 function getRolePolicy(role?: string | null): AuthRolePolicy {
   const r = String(role || '').trim().toLowerCase();
@@ -135,11 +151,13 @@ function getRolePolicy(role?: string | null): AuthRolePolicy {
     return {
       maxFails: Math.max(1, authGuardConfig.loginMaxFailsAdmin),
       lockMs: Math.max(1_000, authGuardConfig.loginLockMsAdmin),
+      totpRequired: authGuardConfig.totpRequiredAdmin,
     };
   }
   return {
     maxFails: Math.max(1, authGuardConfig.loginMaxFailsDoctor),
     lockMs: Math.max(1_000, authGuardConfig.loginLockMsDoctor),
+    totpRequired: authGuardConfig.totpRequiredDoctor,
   };
 }
 
@@ -159,67 +177,6 @@ function cleanupCounters(now: number) {
     const expired = now - v.lastAt > authGuardConfig.registerIpWindowMs * 2;
     if (expired) {registerIpCounter.delete(k);}
   }
-  for (const [k, v] of refreshSessionBySid.entries()) {
-    if (now >= v.expiresAt) {refreshSessionBySid.delete(k);}
-  }
-}
-
-async function putRefreshSession(input: { sid: string; operatorId: number; role: string; jti: string }): Promise<void> {
-  const redis = await getRedisClient();
-  const ttlSeconds = Math.max(1, Math.ceil(authSessionConfig.refreshStoreTtlMs / 1000));
-  if (redis) {
-    try {
-      await redis.set(
-        `auth:refresh:${input.sid}`,
-        JSON.stringify({ operatorId: input.operatorId, role: input.role, jti: input.jti }),
-        { EX: ttlSeconds }
-      );
-      return;
-    } catch {
-      secureLogger.warn('[auth.refresh] Redis 写入失败，将使用内存兜底');
-    }
-  }
-  refreshSessionBySid.set(input.sid, {
-    operatorId: input.operatorId,
-    role: input.role,
-    jti: input.jti,
-    expiresAt: Date.now() + authSessionConfig.refreshStoreTtlMs,
-  });
-}
-
-async function getRefreshSession(sid: string): Promise<{ operatorId: number; role: string; jti: string } | null> {
-  const redis = await getRedisClient();
-  if (redis) {
-    try {
-      const raw = await redis.get(`auth:refresh:${sid}`);
-      if (!raw) {return null;}
-      const parsed = JSON.parse(raw) as { operatorId?: unknown; role?: unknown; jti?: unknown };
-      const operatorId = Number(parsed.operatorId);
-      const role = String(parsed.role || '').trim();
-      const jti = String(parsed.jti || '').trim();
-      if (!Number.isFinite(operatorId) || !role || !jti) {return null;}
-      return { operatorId, role, jti };
-    } catch {
-      secureLogger.warn('[auth.refresh] Redis 读取失败，将尝试内存兜底');
-    }
-  }
-  const now = Date.now();
-  cleanupCounters(now);
-  const mem = refreshSessionBySid.get(sid);
-  if (!mem || now >= mem.expiresAt) {return null;}
-  return { operatorId: mem.operatorId, role: mem.role, jti: mem.jti };
-}
-
-async function deleteRefreshSession(sid: string): Promise<void> {
-  const redis = await getRedisClient();
-  if (redis) {
-    try {
-      await redis.del(`auth:refresh:${sid}`);
-    } catch {
-      secureLogger.warn('[auth.refresh] Redis 删除失败，将继续清理内存兜底');
-    }
-  }
-  refreshSessionBySid.delete(sid);
 }
 
 /**
@@ -562,9 +519,17 @@ export const login = async (req: Request, res: Response) => {
       }
       const sid = crypto.randomUUID();
       const jti = crypto.randomUUID();
-      const accessToken = signAccessToken({ operatorId: operator.operatorId, role: operator.role });
+      const accessToken = signAccessToken({ operatorId: operator.operatorId, role: operator.role, scope: operator.scope });
       const refreshToken = signRefreshToken({ operatorId: operator.operatorId, role: operator.role, sid, jti });
-      await putRefreshSession({ sid, operatorId: operator.operatorId, role: operator.role, jti });
+      await putRefreshSession({
+        sid,
+        operatorId: operator.operatorId,
+        role: operator.role,
+        jti,
+        userAgent: meta.userAgent,
+        ip: meta.ip,
+        scope: operator.scope,
+      });
       setAuthCookies(res, { accessToken, refreshToken });
 
       secureLogger.info('[auth.login] Token登录成功', { operatorId: operator.operatorId, role: operator.role });
@@ -631,44 +596,296 @@ export const login = async (req: Request, res: Response) => {
         return res.status(401).json({ success: false, message: '用户名或密码错误' });
       }
 
-      await clearLoginFailures(req, username);
-      const sid = crypto.randomUUID();
-      const jti = crypto.randomUUID();
-      const accessToken = signAccessToken({ operatorId: operator.id, role: operator.role });
-      const refreshToken = signRefreshToken({ operatorId: operator.id, role: operator.role, sid, jti });
-      await putRefreshSession({ sid, operatorId: operator.id, role: operator.role, jti });
-      setAuthCookies(res, { accessToken, refreshToken });
+      // 已启用两步验证：失败计数保留到动态码验证通过后再清除
+      if (operator.totpEnabledAt) {
+        const challengeToken = await totpService.issueTotpChallenge({
+          operatorId: operator.id,
+          role: operator.role,
+          username: normalizeUsername(username),
+        });
+        secureLogger.info('[auth.login] 密码验证通过，等待两步验证', { operatorId: operator.id });
+        return res.json({
+          success: true,
+          data: { totpRequired: true, challengeToken, expiresInMs: totpConfig.challengeTtlMs },
+        });
+      }
+
+      return completePasswordLogin(req, res, operator, 'password_login');
+    }
+
+    return res.status(400).json({ success: false, message: '请提供Token或用户名密码' });
+  } catch (error) {
+    secureLogger.error('[auth.login] 登录失败', error instanceof Error ? error : undefined);
+    return res.status(500).json({ success: false, message: '登录失败' });
+  }
+};
+
+/**
+ * 密码（及两步验证）通过后签发会话
+ */
+async function completePasswordLogin(
+  req: Request,
+  res: Response,
+  operator: { id: number; role: string; name: string | null; username: string | null; totpEnabledAt: Date | null },
+  reason: 'password_login' | 'totp_login' | 'recovery_code_login'
+) {
+  const meta = getRequestMeta(req);
+  await clearLoginFailures(req, operator.username || '');
+  // 角色要求两步验证但尚未绑定：只签发仅可访问绑定接口的受限令牌
+  const totpSetupRequired = getRolePolicy(operator.role).totpRequired && !operator.totpEnabledAt;
+  const scope = totpSetupRequired ? 'totp_setup' as const : undefined;
+  const sid = crypto.randomUUID();
+  const jti = crypto.randomUUID();
+  const accessToken = signAccessToken({ operatorId: operator.id, role: operator.role, scope });
+  const refreshToken = signRefreshToken({ operatorId: operator.id, role: operator.role, sid, jti });
+  await putRefreshSession({ sid, operatorId: operator.id, role: operator.role, jti, userAgent: meta.userAgent, ip: meta.ip, scope });
+  setAuthCookies(res, { accessToken, refreshToken });
+
+  secureLogger.info('[auth.login] 密码登录成功', { operatorId: operator.id, role: operator.role, reason });
+  await persistLoginAttempt({
+    ip: meta.ip,
+    username: normalizeUsername(operator.username),
+    operatorId: operator.id,
+    ok: true,
+    reason,
+    userAgent: meta.userAgent,
+    requestId: meta.requestId,
+    lockedUntil: null,
+  });
 
-      secureLogger.info('[auth.login] 密码登录成功', { operatorId: operator.id, role: operator.role });
+  return res.json({
+    success: true,
+    data: {
+      token: accessToken,
+      operatorId: operator.id,
+      role: operator.role,
+      name: operator.name || operator.username,
+      // 角色要求两步验证但尚未绑定，客户端须引导完成绑定
+      totpSetupRequired,
+    },
+  });
+}
+
+/**
+ * 登录第二步：凭挑战凭证与动态码（或恢复码）完成登录，失败计入登录锁定
+ */
+export const loginTotp = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body as { challengeToken: string; code?: string; recoveryCode?: string };
+    const meta = getRequestMeta(req);
+
+    const challenge = await totpService.getTotpChallenge(challengeToken);
+    if (!challenge) {
+      return res.status(401).json({ success: false, message: '登录已超时，请重新输入密码' });
+    }
+
+    const guard = await checkLoginGuard(req, challenge.username);
+    if (guard?.blocked) {
+      await totpService.deleteTotpChallenge(challengeToken);
+      if (guard.reason === 'locked' && guard.lockedUntil) {
+        await upsertLockoutFromBlocked(meta.ip, challenge.username, guard.lockedUntil);
+      }
       await persistLoginAttempt({
         ip: meta.ip,
-        username: normalizeUsername(username),
-        operatorId: operator.id,
-        ok: true,
-        reason: 'password_login',
+        username: challenge.username,
+        operatorId: challenge.operatorId,
+        ok: false,
+        reason: guard.reason,
         userAgent: meta.userAgent,
         requestId: meta.requestId,
-        lockedUntil: null,
+        lockedUntil: guard.lockedUntil || null,
       });
-      
-      return res.json({
-        success: true,
-        data: {
-          token: accessToken,
-          operatorId: operator.id,
-          role: operator.role,
-          name: operator.name || operator.username,
-        },
+      return res.status(guard.status).json({ success: false, message: guard.message });
+    }
+
+    const passed = await totpService.verifySecondFactor(challenge.operatorId, { code, recoveryCode });
+    if (!passed) {
+      const { lockedUntil } = await recordLoginFailure(req, challenge.username, challenge.role);
+      if (lockedUntil) {await totpService.deleteTotpChallenge(challengeToken);}
+      await persistLoginAttempt({
+        ip: meta.ip,
+        username: challenge.username,
+        operatorId: challenge.operatorId,
+        ok: false,
+        reason: 'invalid_totp',
+        userAgent: meta.userAgent,
+        requestId: meta.requestId,
+        lockedUntil,
       });
+      return res.status(401).json({ success: false, message: '动态验证码错误' });
     }
 
-    return res.status(400).json({ success: false, message: '请提供Token或用户名密码' });
+    await totpService.deleteTotpChallenge(challengeToken);
+    const operator = await prisma.operator.findUnique({ where: { id: challenge.operatorId } });
+    if (!operator) {
+      return res.status(401).json({ success: false, message: '用户不存在' });
+    }
+    return completePasswordLogin(req, res, operator, passed === 'totp' ? 'totp_login' : 'recovery_code_login');
   } catch (error) {
-    secureLogger.error('[auth.login] 登录失败', error instanceof Error ? error : undefined);
+    secureLogger.error('[auth.login] 两步验证失败', error instanceof Error ? error : undefined);
     return res.status(500).json({ success: false, message: '登录失败' });
   }
 };
 
+export const totpStatus = async (req: Request, res: Response) => {
+  const status = await totpService.getTotpStatus(req.operator?.operatorId ?? 0);
+  return res.json({ success: true, data: { ...status, required: getRolePolicy(req.operator?.role).totpRequired } });
+};
+
+export const totpSetup = async (req: Request, res: Response) => {
+  const setup = await totpService.beginTotpSetup(req.operator?.operatorId ?? 0);
+  return res.json({ success: true, data: setup });
+};
+
+export const totpEnable = async (req: Request, res: Response) => {
+  const { code } = req.body as { code: string };
+  const result = await totpService.enableTotp(req.operator?.operatorId ?? 0, code);
+  if (req.operator?.scope === 'totp_setup') {await liftTotpSetupScope(req, res);}
+  return res.json({ success: true, data: result });
+};
+
+/**
+ * 已登录状态下校验动态码/恢复码：与登录第二步共用失败计数与锁定，防止持有访问令牌者穷举动态码
+ */
+async function withSecondFactorLockout<T>(req: Request, verify: () => Promise<T>): Promise<T> {
+  const operatorId = req.operator?.operatorId ?? 0;
+  const operator = await prisma.operator.findUnique({ where: { id: operatorId }, select: { username: true } });
+  const username = operator?.username || '';
+  const guard = await checkLoginGuard(req, username);
+  if (guard?.blocked) {throw ErrorTypes.TooManyRequests(guard.message);}
+  try {
+    return await verify();
+  } catch (error) {
+    // 服务层以 400 表示动态码或恢复码错误
+    if (error instanceof AppError && error.statusCode === 400) {
+      await recordLoginFailure(req, username, req.operator?.role);
+    }
+    throw error;
+  }
+}
+
+export const totpDisable = async (req: Request, res: Response) => {
+  if (getRolePolicy(req.operator?.role).totpRequired) {
+    return res.status(403).json({ success: false, message: '当前角色必须启用两步验证' });
+  }
+  const { code, recoveryCode } = req.body as { code?: string; recoveryCode?: string };
+  await withSecondFactorLockout(req, () => totpService.disableTotp(req.operator?.operatorId ?? 0, { code, recoveryCode }));
+  return res.json({ success: true, data: { enabled: false } });
+};
+
+export const totpRecoveryCodes = async (req: Request, res: Response) => {
+  const { code } = req.body as { code: string };
+  const result = await withSecondFactorLockout(req, () => totpService.regenerateRecoveryCodes(req.operator?.operatorId ?? 0, code));
+  return res.json({ success: true, data: result });
+};
+
+/**
+ * 绑定完成后解除受限：刷新会话去掉作用域并改发完整的访问令牌
+ */
+async function liftTotpSetupScope(req: Request, res: Response) {
+  const operatorId = req.operator?.operatorId ?? 0;
+  const role = req.operator?.role ?? '';
+  const sid = getCurrentSid(req);
+  const session = sid ? await getRefreshSession(sid) : null;
+  if (sid && session) {
+    const { scope: _scope, ...rest } = session;
+    await putRefreshSession({ ...rest, sid });
+  }
+  setAccessCookie(res, signAccessToken({ operatorId, role }));
+}
+
+/**
+ * 当前请求所属的刷新会话 sid（来自刷新令牌 Cookie）
+ */
+function getCurrentSid(req: Request): string | null {
+  const rt = readCookie(req, authCookieConfig.refreshCookieName);
+  const payload = rt ? verifyRefreshToken(rt) : null;
+  if (!payload || payload.operatorId !== req.operator?.operatorId) {return null;}
+  return payload.sid;
+}
+
+export const listSessions = async (req: Request, res: Response) => {
+  try {
+    const currentSid = getCurrentSid(req);
+    const sessions = await listOperatorRefreshSessions(req.operator?.operatorId ?? 0);
+    return res.json({
+      success: true,
+      data: sessions.map(s => ({
+        id: s.sid,
+        userAgent: s.userAgent,
+        ip: s.ip,
+        createdAt: s.createdAt ? new Date(s.createdAt).toISOString() : null,
+        lastUsedAt: s.lastUsedAt ? new Date(s.lastUsedAt).toISOString() : null,
+        current: s.sid === currentSid,
+      })),
+    });
+  } catch (error) {
+    secureLogger.error('[auth.sessions] 获取登录会话失败', error instanceof Error ? error : undefined);
+    return res.status(500).json({ success: false, message: '获取登录会话失败' });
+  }
+};
+
+export const revokeSession = async (req: Request, res: Response) => {
+  try {
+    const operatorId = req.operator?.operatorId ?? 0;
+    const sid = String(req.params.sid || '');
+    if (!(await revokeRefreshSession(operatorId, sid))) {
+      return res.status(404).json({ success: false, message: '会话不存在或已失效' });
+    }
+    const current = sid === getCurrentSid(req);
+    if (current) {clearAuthCookies(res);}
+    secureLogger.logSecurity('SESSION_REVOKED', { operatorId, sid, current });
+    return res.json({ success: true, data: { revoked: 1, current } });
+  } catch (error) {
+    secureLogger.error('[auth.sessions] 下线会话失败', error instanceof Error ? error : undefined);
+    return res.status(500).json({ success: false, message: '下线会话失败' });
+  }
+};
+
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+  try {
+    const operatorId = req.operator?.operatorId ?? 0;
+    const currentSid = getCurrentSid(req);
+    const revoked = await revokeOperatorRefreshSessions(operatorId, { exceptSid: currentSid ?? undefined });
+    secureLogger.logSecurity('SESSION_REVOKED', { operatorId, scope: 'others', revoked });
+    return res.json({ success: true, data: { revoked } });
+  } catch (error) {
+    secureLogger.error('[auth.sessions] 下线其他会话失败', error instanceof Error ? error : undefined);
+    return res.status(500).json({ success: false, message: '下线其他会话失败' });
+  }
+};
+
+/**
+ * 管理员强制下线指定操作员的全部会话（已签发的访问令牌在过期前仍有效）
+ */
+export const forceLogoutOperator = async (req: Request, res: Response) => {
+  try {
+    const operatorId = Number(req.params.operatorId);
+    if (!Number.isInteger(operatorId) || operatorId <= 0) {
+      return res.status(400).json({ success: false, message: '无效的用户ID' });
+    }
+    const target = await prisma.operator.findUnique({ where: { id: operatorId }, select: { id: true } });
+    if (!target) {
+      return res.status(404).json({ success: false, message: '用户不存在' });
+    }
+    const revoked = await revokeOperatorRefreshSessions(operatorId);
+    await auditLog({
+      eventType: AuditEventType.FORCE_LOGOUT,
+      severity: 'medium',
+      operatorId: req.operator?.operatorId,
+      operatorRole: req.operator?.role,
+      req,
+      resource: 'operator',
+      action: 'force_logout',
+      details: { targetOperatorId: operatorId, revoked },
+    });
+    return res.json({ success: true, data: { revoked } });
+  } catch (error) {
+    secureLogger.error('[auth.sessions] 强制下线失败', error instanceof Error ? error : undefined);
+    return res.status(500).json({ success: false, message: '强制下线失败' });
+  }
+};
+
 export const register = async (req: Request, res: Response) => {
   try {
     const { username, password, name, role, captchaId, captcha } = req.body;
@@ -745,12 +962,14 @@ export const register = async (req: Request, res: Response) => {
       return res.status(500).json({ success: false, message: '创建用户失败' });
     }
 
-    // 生成 Token
+    // 生成 Token；角色要求两步验证时与密码登录一致，只签发仅限绑定接口的受限令牌
+    const totpSetupRequired = getRolePolicy(operator.role).totpRequired;
+    const scope = totpSetupRequired ? 'totp_setup' as const : undefined;
     let sid, jti, accessToken, refreshToken;
     try {
       sid = crypto.randomUUID();
       jti = crypto.randomUUID();
-      accessToken = signAccessToken({ operatorId: operator.id, role: operator.role });
+      accessToken = signAccessToken({ operatorId: operator.id, role: operator.role, scope });
       refreshToken = signRefreshToken({ operatorId: operator.id, role: operator.role, sid, jti });
       secureLogger.info('[auth.register] Token生成成功');
     } catch (tokenError) {
@@ -760,7 +979,8 @@ export const register = async (req: Request, res: Response) => {
 
     // 保存刷新会话
     try {
-      await putRefreshSession({ sid, operatorId: operator.id, role: operator.role, jti });
+      const { userAgent, ip } = getRequestMeta(req);
+      await putRefreshSession({ sid, operatorId: operator.id, role: operator.role, jti, userAgent, ip, scope });
       secureLogger.info('[auth.register] 刷新会话保存成功');
     } catch (sessionError) {
       secureLogger.warn('[auth.register] 刷新会话保存失败，继续注册流程', { error: sessionError instanceof Error ? sessionError.message : String(sessionError) });
@@ -783,6 +1003,7 @@ export const register = async (req: Request, res: Response) => {
         operatorId: operator.id,
         role: operator.role,
         name: operator.name || operator.username,
+        totpSetupRequired,
       },
     });
 
@@ -851,18 +1072,41 @@ export const refresh = async (req: Request, res: Response) => {
     }
 
     if (session.operatorId !== payload.operatorId || session.role !== payload.role || session.jti !== payload.jti) {
-      await deleteRefreshSession(payload.sid);
+      // 已轮换的旧令牌被再次使用，说明令牌可能已泄露：吊销该操作员的全部刷新会话
+      const revoked = await revokeOperatorRefreshSessions(session.operatorId);
       clearAuthCookies(res);
+      const meta = getRequestMeta(req);
+      secureLogger.logSecurity('REFRESH_TOKEN_REUSE', { operatorId: session.operatorId, sid: payload.sid, ip: meta.ip, revoked });
+      await auditLog({
+        eventType: AuditEventType.REFRESH_TOKEN_REUSE,
+        severity: 'high',
+        operatorId: session.operatorId,
+        operatorRole: session.role,
+        req,
+        resource: 'refresh_session',
+        action: 'revoke_family',
+        details: { sid: payload.sid, revoked, originalIp: session.ip, originalUserAgent: session.userAgent },
+        success: false,
+      });
       return res.status(401).json({ success: false, message: '刷新令牌已吊销' });
     }
 
-    const accessToken = signAccessToken({ operatorId: payload.operatorId, role: payload.role });
+    const accessToken = signAccessToken({ operatorId: payload.operatorId, role: payload.role, scope: session.scope });
     let refreshToken = rt;
+    let jti = session.jti;
     if (authSessionConfig.refreshRotateOnUse) {
-      const nextJti = crypto.randomUUID();
-      refreshToken = signRefreshToken({ operatorId: payload.operatorId, role: payload.role, sid: payload.sid, jti: nextJti });
-      await putRefreshSession({ sid: payload.sid, operatorId: payload.operatorId, role: payload.role, jti: nextJti });
+      jti = crypto.randomUUID();
+      refreshToken = signRefreshToken({ operatorId: payload.operatorId, role: payload.role, sid: payload.sid, jti });
     }
+    const meta = getRequestMeta(req);
+    await putRefreshSession({
+      ...session,
+      sid: payload.sid,
+      jti,
+      userAgent: meta.userAgent ?? session.userAgent,
+      ip: meta.ip,
+      lastUsedAt: Date.now(),
+    });
     setAuthCookies(res, { accessToken, refreshToken });
 
     secureLogger.info('[auth.refresh] 刷新成功', { operatorId: payload.operatorId, role: payload.role, rotate: authSessionConfig.refreshRotateOnUse });
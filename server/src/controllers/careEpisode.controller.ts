@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import * as careEpisodeService from '../services/careEpisode.service';
+import type { EpisodeActor } from '../services/careEpisode.service';
+
+const actorOf = (req: Request): EpisodeActor => ({
+  operatorId: req.operator?.operatorId ?? 0,
+  role: req.operator?.role ?? 'doctor',
+});
+
+/**
+ * 患者的诊疗经过列表
+ */
+export const listEpisodes = async (req: Request, res: Response) => {
+  const { patientId } = (req.validatedQuery || {}) as { patientId: string };
+  const episodes = await careEpisodeService.listEpisodes(Number(patientId), actorOf(req));
+  res.json({ success: true, data: episodes });
+};
+
+/**
+ * 诊疗经过详情（含各次就诊）
+ */
+export const getEpisode = async (req: Request, res: Response) => {
+  const episode = await careEpisodeService.getEpisode(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: episode });
+};
+
+/**
+ * 创建诊疗经过
+ */
+export const createEpisode = async (req: Request, res: Response) => {
+  const episode = await careEpisodeService.createEpisode(actorOf(req), req.body);
+  res.status(201).json({ success: true, data: episode });
+};
+
+/**
+ * 修改或结束诊疗经过
+ */
+export const updateEpisode = async (req: Request, res: Response) => {
+  const episode = await careEpisodeService.updateEpisode(Number(req.params.id), req.body);
+  res.json({ success: true, data: episode });
+};
+
+/**
+ * 由上次就诊继续，创建复诊会话
+ */
+export const startFollowUp = async (req: Request, res: Response) => {
+  const result = await careEpisodeService.startFollowUp(actorOf(req), req.body);
+  res.status(201).json({ success: true, data: result });
+};
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import * as cohortService from '../services/cohort.service';
+import type { CohortActor } from '../services/cohort.service';
+
+const actorOf = (req: Request): CohortActor => ({
+  operatorId: req.operator?.operatorId ?? 0,
+  role: req.operator?.role ?? 'doctor',
+});
+
+/**
+ * 班级列表
+ */
+export const listCohorts = async (req: Request, res: Response) => {
+  const cohorts = await cohortService.listCohorts(actorOf(req));
+  res.json({ success: true, data: cohorts });
+};
+
+/**
+ * 班级详情
+ */
+export const getCohort = async (req: Request, res: Response) => {
+  const cohort = await cohortService.getCohort(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: cohort });
+};
+
+/**
+ * 创建班级
+ */
+export const createCohort = async (req: Request, res: Response) => {
+  const cohort = await cohortService.createCohort(actorOf(req), req.body);
+  res.status(201).json({ success: true, data: cohort });
+};
+
+/**
+ * 更新班级
+ */
+export const updateCohort = async (req: Request, res: Response) => {
+  const cohort = await cohortService.updateCohort(Number(req.params.id), actorOf(req), req.body);
+  res.json({ success: true, data: cohort });
+};
+
+/**
+ * 删除班级
+ */
+export const deleteCohort = async (req: Request, res: Response) => {
+  await cohortService.deleteCohort(Number(req.params.id), actorOf(req));
+  res.json({ success: true });
+};
+
+/**
+ * 批量加入学生
+ */
+export const enrollStudents = async (req: Request, res: Response) => {
+  const result = await cohortService.enrollStudents(Number(req.params.id), actorOf(req), req.body.studentIds);
+  res.json({ success: true, data: result });
+};
+
+/**
+ * 移出学生
+ */
+export const removeStudent = async (req: Request, res: Response) => {
+  await cohortService.removeStudent(Number(req.params.id), actorOf(req), Number(req.params.studentId));
+  res.json({ success: true });
+};
+
+/**
+ * 布置病例任务
+ */
+export const createAssignment = async (req: Request, res: Response) => {
+  const assignment = await cohortService.createAssignment(Number(req.params.id), actorOf(req), req.body);
+  res.status(201).json({ success: true, data: assignment });
+};
+
+/**
+ * 当前学生的任务列表
+ */
+export const listMyAssignments = async (req: Request, res: Response) => {
+  const assignments = await cohortService.listMyAssignments(actorOf(req).operatorId);
+  res.json({ success: true, data: assignments });
+};
+
+/**
+ * 任务详情
+ */
+export const getAssignment = async (req: Request, res: Response) => {
+  const assignment = await cohortService.getAssignment(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: assignment });
+};
+
+/**
+ * 更新任务
+ */
+export const updateAssignment = async (req: Request, res: Response) => {
+  const assignment = await cohortService.updateAssignment(Number(req.params.id), actorOf(req), req.body);
+  res.json({ success: true, data: assignment });
+};
+
+/**
+ * 删除任务
+ */
+export const deleteAssignment = async (req: Request, res: Response) => {
+  await cohortService.deleteAssignment(Number(req.params.id), actorOf(req));
+  res.json({ success: true });
+};
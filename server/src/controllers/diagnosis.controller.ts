@@ -1,76 +1,46 @@
 import { Request, Response } from 'express';
 import { secureLogger } from '../utils/secureLogger';
 import prisma from '../prisma';
+import * as diagnosisService from '../services/diagnosis.service';
+import * as diagnosisCatalogue from '../services/diagnosisCatalogue.service';
 
 /**
  * 获取诊断建议
+ * /suggest 与 /enhanced-suggest 共用：以整份会话为输入，请求中的症状/警惕征象作为补充
  */
 export const suggestDiagnosis = async (req: Request, res: Response) => {
-  try {
-    const { symptoms } = req.body;
-    
-    if (!symptoms || !Array.isArray(symptoms) || symptoms.length === 0) {
-      res.status(400).json({ success: false, message: '症状列表不能为空' });
-      return;
-    }
-
-    // 基于症状查询可能的诊断
-    const possibleDiagnoses = await findDiagnosesBySymptoms(symptoms);
-    
-    res.json({
-      success: true,
-      data: {
-        suggestions: possibleDiagnoses,
-        confidence: calculateConfidence(symptoms, possibleDiagnoses)
-      }
-    });
-  } catch (error) {
-    secureLogger.error('[DiagnosisController] 获取诊断建议失败', error instanceof Error ? error : undefined);
-    res.status(500).json({ success: false, message: '获取诊断建议失败' });
-  }
+  const { sessionId, symptoms, currentSymptom, associatedSymptoms, redFlags, age, gender } = req.body as {
+    sessionId: number;
+    symptoms?: string[];
+    currentSymptom?: string;
+    associatedSymptoms?: string[];
+    redFlags?: string[];
+    age?: number;
+    gender?: string;
+  };
+
+  const result = await diagnosisService.suggestDiagnosesForSession(sessionId, {
+    symptoms: [...(symptoms || []), ...(currentSymptom ? [currentSymptom] : []), ...(associatedSymptoms || [])],
+    redFlags,
+    age,
+    gender,
+  }, req.operator);
+
+  res.json({ success: true, data: result });
 };
 
 /**
- * 获取增强版诊断建议
+ * 获取诊断目录（含症状关联与警惕征象）
+ * 默认包含已停用的诊断，includeInactive=false 时仅返回启用的诊断
  */
-export const suggestEnhancedDiagnosis = async (req: Request, res: Response) => {
+export const getAllDiagnoses = async (req: Request, res: Response) => {
   try {
-    const { symptoms, patientInfo, history } = req.body;
-    
-    if (!symptoms || !Array.isArray(symptoms) || symptoms.length === 0) {
-      res.status(400).json({ success: false, message: '症状列表不能为空' });
-      return;
-    }
-
-    // 基于症状和患者信息查询可能的诊断
-    const possibleDiagnoses = await findDiagnosesBySymptoms(symptoms);
-    
-    // 根据患者信息调整诊断建议
-    const adjustedDiagnoses = adjustDiagnosesByPatientInfo(possibleDiagnoses, patientInfo, history);
-    
-    res.json({
-      success: true,
-      data: {
-        suggestions: adjustedDiagnoses,
-        confidence: calculateConfidence(symptoms, adjustedDiagnoses),
-        reasoning: generateReasoning(symptoms, patientInfo, adjustedDiagnoses)
-      }
+    const query = (req.validatedQuery || {}) as { category?: string; includeInactive?: 'true' | 'false' };
+    const diagnoses = await diagnosisCatalogue.listDiagnoses({
+      category: query.category,
+      includeInactive: query.includeInactive !== 'false',
     });
-  } catch (error) {
-    secureLogger.error('[DiagnosisController] 获取增强诊断建议失败', error instanceof Error ? error : undefined);
-    res.status(500).json({ success: false, message: '获取增强诊断建议失败' });
-  }
-};
 
-/**
- * 获取所有诊断列表
- */
-export const getAllDiagnoses = async (_req: Request, res: Response) => {
-  try {
-    const diagnoses = await prisma.diagnosis.findMany({
-      orderBy: { name: 'asc' }
-    });
-    
     res.json({ success: true, data: diagnoses });
   } catch (error) {
     secureLogger.error('[DiagnosisController] 获取诊断列表失败', error instanceof Error ? error : undefined);
@@ -79,26 +49,76 @@ export const getAllDiagnoses = async (_req: Request, res: Response) => {
 };
 
 /**
- * 根据ID获取诊断详情
+ * 根据ID获取诊断详情（含症状关联与警惕征象）
  */
 export const getDiagnosisById = async (req: Request, res: Response) => {
-  try {
-    const id = Number(req.params.id);
-    
-    const diagnosis = await prisma.diagnosis.findUnique({
-      where: { id }
-    });
-    
-    if (!diagnosis) {
-      res.status(404).json({ success: false, message: '诊断未找到' });
-      return;
-    }
-    
-    res.json({ success: true, data: diagnosis });
-  } catch (error) {
-    secureLogger.error('[DiagnosisController] 获取诊断详情失败', error instanceof Error ? error : undefined);
-    res.status(500).json({ success: false, message: '获取诊断详情失败' });
-  }
+  const diagnosis = await diagnosisCatalogue.getDiagnosis(Number(req.params.id));
+  res.json({ success: true, data: diagnosis });
+};
+
+/**
+ * 创建诊断（管理员）
+ */
+export const createDiagnosis = async (req: Request, res: Response) => {
+  const diagnosis = await diagnosisCatalogue.createDiagnosis(req.body);
+  res.status(201).json({ success: true, data: diagnosis });
+};
+
+/**
+ * 更新诊断（管理员）
+ */
+export const updateDiagnosis = async (req: Request, res: Response) => {
+  const diagnosis = await diagnosisCatalogue.updateDiagnosis(Number(req.params.id), req.body);
+  res.json({ success: true, data: diagnosis });
+};
+
+/**
+ * 删除诊断（管理员）
+ */
+export const deleteDiagnosis = async (req: Request, res: Response) => {
+  await diagnosisCatalogue.deleteDiagnosis(Number(req.params.id));
+  res.json({ success: true });
+};
+
+/**
+ * 新增或修改诊断的症状关联（管理员）
+ */
+export const upsertDiagnosisSymptom = async (req: Request, res: Response) => {
+  const link = await diagnosisCatalogue.upsertDiagnosisSymptom(Number(req.params.id), req.body);
+  res.json({ success: true, data: link });
+};
+
+/**
+ * 移除诊断的症状关联（管理员）
+ */
+export const removeDiagnosisSymptom = async (req: Request, res: Response) => {
+  await diagnosisCatalogue.removeDiagnosisSymptom(Number(req.params.id), String(req.params.symptomKey));
+  res.json({ success: true });
+};
+
+/**
+ * 新增或修改诊断的警惕征象（管理员）
+ */
+export const upsertDiagnosisRedFlag = async (req: Request, res: Response) => {
+  const redFlag = await diagnosisCatalogue.upsertDiagnosisRedFlag(Number(req.params.id), req.body);
+  res.json({ success: true, data: redFlag });
+};
+
+/**
+ * 移除诊断的警惕征象（管理员）
+ */
+export const removeDiagnosisRedFlag = async (req: Request, res: Response) => {
+  await diagnosisCatalogue.removeDiagnosisRedFlag(Number(req.params.id), String(req.params.redFlagName));
+  res.json({ success: true });
+};
+
+/**
+ * 从 JSON / CSV 批量导入诊断（管理员）
+ */
+export const importDiagnoses = async (req: Request, res: Response) => {
+  const { format, content, dryRun } = req.body as { format: 'json' | 'csv'; content: string; dryRun: boolean };
+  const result = await diagnosisCatalogue.importDiagnoses(format, content, dryRun);
+  res.json({ success: true, data: result });
 };
 
 /**
@@ -138,133 +158,3 @@ export const initializeDiagnosisData = async (_req: Request, res: Response) => {
     res.status(500).json({ success: false, message: '初始化诊断数据失败' });
   }
 };
-
-// 辅助函数：根据症状查找可能的诊断
-async function findDiagnosesBySymptoms(symptoms: string[]) {
-  try {
-    const allDiagnoses = await prisma.diagnosis.findMany({
-      include: {
-        symptoms: true
-      }
-    });
-    
-    // 计算每个诊断与症状的匹配度
-    const scoredDiagnoses = allDiagnoses.map(diagnosis => {
-      const diagnosisSymptomKeys = diagnosis.symptoms.map(s => s.symptomKey);
-      const matchedSymptoms = symptoms.filter(s => 
-        diagnosisSymptomKeys.some(ds => ds.includes(s) || s.includes(ds))
-      );
-      const score = matchedSymptoms.length / Math.max(symptoms.length, diagnosisSymptomKeys.length || 1);
-      
-      return {
-        ...diagnosis,
-        matchedSymptoms,
-        score
-      };
-    });
-    
-    // 按匹配度排序，返回前5个
-    return scoredDiagnoses
-      .filter(d => d.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 5);
-  } catch (error) {
-    secureLogger.error('[DiagnosisController] 查找诊断失败', error instanceof Error ? error : undefined);
-    return [];
-  }
-}
-
-/**
- * 患者信息接口
- */
-interface PatientInfo {
-  age?: number;
-  gender?: string;
-  [key: string]: unknown;
-}
-
-/**
- * 病史信息接口
- */
-interface HistoryInfo {
-  chronicDiseases?: string[];
-  [key: string]: unknown;
-}
-
-/**
- * 诊断结果接口
- */
-interface DiagnosisResult {
-  id: number;
-  name: string;
-  category?: string | null;
-  description?: string | null;
-  score: number;
-  matchedSymptoms: string[];
-  adjustedScore?: number;
-}
-
-// 辅助函数：根据患者信息调整诊断建议
-function adjustDiagnosesByPatientInfo(
-  diagnoses: DiagnosisResult[],
-  patientInfo?: PatientInfo,
-  history?: HistoryInfo
-): DiagnosisResult[] {
-  if (!patientInfo && !history) {return diagnoses;}
-
-  return diagnoses.map(diagnosis => {
-    let adjustedScore = diagnosis.score;
-
-    // 根据年龄调整
-    if (patientInfo?.age) {
-      if (patientInfo.age > 60 && diagnosis.category === '心血管系统') {
-        adjustedScore *= 1.2;
-      }
-    }
-
-    // 根据病史调整
-    if (history?.chronicDiseases) {
-      const chronicDiseases = history.chronicDiseases;
-      if (chronicDiseases.some((d: string) => diagnosis.name.includes(d))) {
-        adjustedScore *= 1.3;
-      }
-    }
-
-    return {
-      ...diagnosis,
-      adjustedScore
-    };
-  }).sort((a, b) => (b.adjustedScore || b.score) - (a.adjustedScore || a.score));
-}
-
-// 辅助函数：计算置信度
-function calculateConfidence(symptoms: string[], diagnoses: DiagnosisResult[]): number {
-  if (diagnoses.length === 0) {return 0;}
-
-  const topScore = diagnoses[0]?.score || 0;
-  const symptomCoverage = (diagnoses[0]?.matchedSymptoms?.length || 0) / symptoms.length || 0;
-
-  return Math.min(Math.round((topScore * 0.6 + symptomCoverage * 0.4) * 100), 95);
-}
-
-// 辅助函数：生成推理说明
-function generateReasoning(symptoms: string[], patientInfo: PatientInfo | undefined, diagnoses: DiagnosisResult[]): string {
-  if (diagnoses.length === 0) {
-    return '根据当前症状无法确定明确诊断，建议进一步检查。';
-  }
-
-  const topDiagnosis = diagnoses[0];
-  const matchedSymptoms = topDiagnosis.matchedSymptoms || [];
-
-  let reasoning = `主要考虑${topDiagnosis.name}，因为患者表现出${matchedSymptoms.join('、')}等症状`;
-
-  if (patientInfo?.age && patientInfo.age > 60) {
-    reasoning += '，且患者年龄较大，需要警惕';
-  }
-
-  if (diagnoses.length > 1) {
-    reasoning += `。同时需要鉴别${diagnoses[1].name}。`;
-  }
-
-  return reasoning;
-}
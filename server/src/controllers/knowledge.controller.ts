@@ -1,7 +1,30 @@
 import { Request, Response } from 'express';
 import * as knowledgeService from '../services/knowledge.service';
+import * as knowledgeWorkflow from '../services/knowledgeWorkflow.service';
+import * as knowledgeSync from '../services/knowledgeSync.service';
+import type { KnowledgeDraftStatus } from '../services/knowledgeWorkflow.service';
+import { eventBus } from '../services/eventBus.service';
 import { secureLogger } from '../utils/secureLogger';
 
+const DRAFT_STATUSES: KnowledgeDraftStatus[] = ['draft', 'pending_review', 'approved', 'rejected'];
+
+/**
+ * 审核流程接口的错误响应：业务错误沿用其状态码，其余按 500 处理
+ */
+const sendWorkflowError = (res: Response, error: unknown, fallbackMessage: string) => {
+  const err = error as { statusCode?: number; message?: string };
+  const statusCode = Number(err?.statusCode) || 500;
+  res.status(statusCode).json({
+    success: false,
+    message: statusCode === 500 ? fallbackMessage : String(err?.message || fallbackMessage),
+  });
+};
+
+const parsePositiveInt = (value: unknown): number | null => {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : null;
+};
+
 /**
  * 获取所有知识库条目
  */
@@ -17,27 +40,13 @@ export const getAllKnowledge = async (_req: Request, res: Response) => {
 
 /**
  * 获取知识库流式更新
+ * 连接后推送全量数据，之后仅推送审核通过的发布事件（knowledge_published）
  */
 export const streamKnowledgeUpdates = async (_req: Request, res: Response) => {
   try {
-    // 设置 SSE 头
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    
-    // 发送初始数据
     const knowledge = await knowledgeService.getAllKnowledge();
+    eventBus.addClient(res);
     res.write(`data: ${JSON.stringify({ type: 'initial', data: knowledge })}\n\n`);
-    
-    // 保持连接打开
-    const keepAlive = setInterval(() => {
-      res.write(':keepalive\n\n');
-    }, 30000);
-    
-    // 清理
-    res.on('close', () => {
-      clearInterval(keepAlive);
-    });
   } catch (error) {
     secureLogger.error('[KnowledgeController] 流式获取知识库失败', error instanceof Error ? error : undefined);
     res.status(500).json({ success: false, message: 'Failed to stream knowledge' });
@@ -125,20 +134,206 @@ export const getKnowledgeByKey = async (req: Request, res: Response) => {
 };
 
 /**
- * 创建或更新知识库条目
+ * 新建知识草稿（不直接修改线上条目，需提交审核并由其他管理员通过后发布）
  */
-export const upsertKnowledge = async (req: Request, res: Response) => {
+export const createKnowledgeDraft = async (req: Request, res: Response) => {
   try {
     const data = req.body;
     if (!data.symptomKey) {
       res.status(400).json({ success: false, message: 'symptomKey is required' });
       return;
     }
-    const knowledge = await knowledgeService.upsertKnowledge(data);
-    res.json({ success: true, data: knowledge });
+    const draft = await knowledgeWorkflow.createDraft(data, req.operator?.operatorId);
+    res.status(201).json({ success: true, data: draft });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 创建知识草稿失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to save knowledge draft');
+  }
+};
+
+/**
+ * 获取知识草稿列表
+ */
+export const listKnowledgeDrafts = async (req: Request, res: Response) => {
+  try {
+    const status = String(req.query.status || '');
+    if (status && !DRAFT_STATUSES.includes(status as KnowledgeDraftStatus)) {
+      res.status(400).json({ success: false, message: 'Invalid draft status' });
+      return;
+    }
+    const symptomKey = req.query.symptomKey ? String(req.query.symptomKey) : undefined;
+    const drafts = await knowledgeWorkflow.listDrafts({ status: (status || undefined) as KnowledgeDraftStatus | undefined, symptomKey });
+    res.json({ success: true, data: drafts });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 获取知识草稿列表失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to fetch knowledge drafts');
+  }
+};
+
+/**
+ * 获取知识草稿详情（含字段差异）
+ */
+export const getKnowledgeDraft = async (req: Request, res: Response) => {
+  try {
+    const id = parsePositiveInt(req.params.id);
+    if (!id) {
+      res.status(400).json({ success: false, message: 'Invalid draft id' });
+      return;
+    }
+    const result = await knowledgeWorkflow.getDraftWithChanges(id);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 获取知识草稿失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to fetch knowledge draft');
+  }
+};
+
+/**
+ * 修改知识草稿
+ */
+export const updateKnowledgeDraft = async (req: Request, res: Response) => {
+  try {
+    const id = parsePositiveInt(req.params.id);
+    if (!id) {
+      res.status(400).json({ success: false, message: 'Invalid draft id' });
+      return;
+    }
+    const draft = await knowledgeWorkflow.updateDraft(id, req.body || {}, req.operator?.operatorId);
+    res.json({ success: true, data: draft });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 修改知识草稿失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to update knowledge draft');
+  }
+};
+
+/**
+ * 提交知识草稿审核
+ */
+export const submitKnowledgeDraft = async (req: Request, res: Response) => {
+  try {
+    const id = parsePositiveInt(req.params.id);
+    if (!id) {
+      res.status(400).json({ success: false, message: 'Invalid draft id' });
+      return;
+    }
+    const draft = await knowledgeWorkflow.submitDraft(id, req.operator?.operatorId);
+    res.json({ success: true, data: draft });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 提交知识草稿失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to submit knowledge draft');
+  }
+};
+
+/**
+ * 审核通过并发布知识草稿
+ */
+export const approveKnowledgeDraft = async (req: Request, res: Response) => {
+  try {
+    const id = parsePositiveInt(req.params.id);
+    if (!id) {
+      res.status(400).json({ success: false, message: 'Invalid draft id' });
+      return;
+    }
+    const comment = req.body?.comment ? String(req.body.comment) : undefined;
+    const version = await knowledgeWorkflow.approveDraft(id, req.operator?.operatorId, comment);
+    res.json({ success: true, data: version });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 审核知识草稿失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to approve knowledge draft');
+  }
+};
+
+/**
+ * 驳回知识草稿
+ */
+export const rejectKnowledgeDraft = async (req: Request, res: Response) => {
+  try {
+    const id = parsePositiveInt(req.params.id);
+    if (!id) {
+      res.status(400).json({ success: false, message: 'Invalid draft id' });
+      return;
+    }
+    const comment = req.body?.comment ? String(req.body.comment) : undefined;
+    const draft = await knowledgeWorkflow.rejectDraft(id, req.operator?.operatorId, comment);
+    res.json({ success: true, data: draft });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 驳回知识草稿失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to reject knowledge draft');
+  }
+};
+
+/**
+ * 手动同步 knowledge_base 目录中的知识库文件
+ */
+export const syncKnowledgeFiles = async (req: Request, res: Response) => {
+  try {
+    const result = await knowledgeSync.syncKnowledgeBase({ force: req.body?.force === true });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 同步知识库文件失败', error instanceof Error ? error : undefined);
+    res.status(500).json({ success: false, message: 'Failed to sync knowledge files' });
+  }
+};
+
+/**
+ * 获取知识库文件处理记录
+ */
+export const getKnowledgeSources = async (_req: Request, res: Response) => {
+  try {
+    const sources = await knowledgeSync.listKnowledgeSources();
+    res.json({ success: true, data: sources });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 获取知识库文件记录失败', error instanceof Error ? error : undefined);
+    res.status(500).json({ success: false, message: 'Failed to fetch knowledge sources' });
+  }
+};
+
+/**
+ * 获取知识条目的版本历史
+ */
+export const getKnowledgeVersions = async (req: Request, res: Response) => {
+  try {
+    const versions = await knowledgeWorkflow.listVersions(String(req.params.key));
+    res.json({ success: true, data: versions });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 获取知识版本历史失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to fetch knowledge versions');
+  }
+};
+
+/**
+ * 获取知识条目的指定版本
+ */
+export const getKnowledgeVersion = async (req: Request, res: Response) => {
+  try {
+    const version = parsePositiveInt(req.params.version);
+    if (!version) {
+      res.status(400).json({ success: false, message: 'Invalid version' });
+      return;
+    }
+    const record = await knowledgeWorkflow.getVersion(String(req.params.key), version);
+    res.json({ success: true, data: record });
+  } catch (error) {
+    secureLogger.error('[KnowledgeController] 获取知识版本失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to fetch knowledge version');
+  }
+};
+
+/**
+ * 回滚到历史版本（生成待审核草稿）
+ */
+export const rollbackKnowledge = async (req: Request, res: Response) => {
+  try {
+    const version = parsePositiveInt(req.params.version);
+    if (!version) {
+      res.status(400).json({ success: false, message: 'Invalid version' });
+      return;
+    }
+    const draft = await knowledgeWorkflow.rollbackToVersion(String(req.params.key), version, req.operator?.operatorId);
+    res.status(201).json({ success: true, data: draft });
   } catch (error) {
-    secureLogger.error('[KnowledgeController] 保存知识库条目失败', error instanceof Error ? error : undefined);
-    res.status(500).json({ success: false, message: 'Failed to save knowledge' });
+    secureLogger.error('[KnowledgeController] 回滚知识版本失败', error instanceof Error ? error : undefined);
+    sendWorkflowError(res, error, 'Failed to rollback knowledge');
   }
 };
 
@@ -1,8 +1,14 @@
 import { Request, Response } from 'express';
+import * as knowledgeService from '../services/knowledge.service';
+import { matchSymptoms } from '../services/symptomMatcher';
+import { parseChiefComplaintText } from '../services/chiefComplaintParser';
+import { extractHpiFields } from '../services/hpiExtractor';
+import { SYMPTOM_NAME_TO_KEY, SYMPTOM_SYNONYMS } from '../services/mapping.service';
 import { secureLogger } from '../utils/secureLogger';
 
 /**
  * 分析主诉症状
+ * 基于知识库与同义词词典抽取症状，区分阳性/阴性症状并返回字符区间
  */
 export const analyzeComplaint = async (req: Request, res: Response) => {
   try {
@@ -13,15 +19,17 @@ export const analyzeComplaint = async (req: Request, res: Response) => {
       return;
     }
 
-    // 简单的症状提取逻辑
-    const symptoms = extractSymptoms(text);
+    const knowledge = await loadKnowledgeForMatching();
+    const { mentions, matchedSymptoms, negatedSymptoms } = matchSymptoms(text, knowledge);
     const duration = extractDuration(text);
 
     res.json({
       success: true,
       data: {
-        matchedCount: symptoms.length,
-        matchedSymptoms: symptoms.map(name => ({ name, key: name, knowledge: null })),
+        matchedCount: matchedSymptoms.length,
+        matchedSymptoms,
+        negatedSymptoms,
+        mentions: mentions.map(({ knowledge: _knowledge, ...mention }) => mention),
         duration: duration.value ? { value: duration.value, unit: duration.unit } : { value: null, unit: null },
         normalizedComplaint: text,
         originalText: text
@@ -33,8 +41,42 @@ export const analyzeComplaint = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * 从现病史叙述中抽取结构化字段建议
+ * 每条建议附带原文区间，供编辑器逐项采纳
+ */
+export const extractHpi = async (req: Request, res: Response) => {
+  try {
+    const narrative = req.body.narrative || req.body.text;
+    if (!narrative || typeof narrative !== 'string') {
+      res.status(400).json({ success: false, message: '现病史内容不能为空' });
+      return;
+    }
+    const mainSymptom = typeof req.body.mainSymptom === 'string' ? req.body.mainSymptom : undefined;
+
+    const knowledge = await loadKnowledgeForMatching();
+    const result = extractHpiFields(narrative, knowledge, { mainSymptom });
+
+    res.json({ success: true, data: result });
+  } catch (error) {
+    secureLogger.error('[NLPController] 抽取现病史字段失败', error instanceof Error ? error : undefined);
+    res.status(500).json({ success: false, message: '抽取现病史字段失败' });
+  }
+};
+
+// 辅助函数：加载知识库用于构建症状词典，失败时退化为仅使用同义词表
+async function loadKnowledgeForMatching() {
+  try {
+    return await knowledgeService.getAllKnowledge();
+  } catch (error) {
+    secureLogger.warn('[NLPController] 加载知识库失败，使用内置词典', { error: error instanceof Error ? error.message : String(error) });
+    return [];
+  }
+}
+
 /**
  * 解析主诉结构
+ * 返回主症状、病程时长、置信度，以及按“症状-时长”拆分的病程段
  */
 export const parseChiefComplaint = async (req: Request, res: Response) => {
   try {
@@ -43,12 +85,14 @@ export const parseChiefComplaint = async (req: Request, res: Response) => {
       res.status(400).json({ success: false, message: '文本内容不能为空' });
       return;
     }
-    
-    // 解析主诉结构
-    const parsed = parseComplaintStructure(text);
-    
-    res.json({ 
-      success: true, 
+
+    const parsed = parseChiefComplaintText(text, {
+      synonyms: SYMPTOM_SYNONYMS,
+      knownSymptoms: Object.keys(SYMPTOM_NAME_TO_KEY),
+    });
+
+    res.json({
+      success: true,
       data: parsed
     });
   } catch (error) {
@@ -57,22 +101,6 @@ export const parseChiefComplaint = async (req: Request, res: Response) => {
   }
 };
 
-// 辅助函数：从文本中提取症状
-function extractSymptoms(text: string): string[] {
-  const commonSymptoms = [
-    '发热', '咳嗽', '头痛', '头晕', '恶心', '呕吐', '腹痛', '腹泻',
-    '胸闷', '胸痛', '心悸', '气短', '乏力', '出汗', '失眠', '食欲减退'
-  ];
-  
-  const found: string[] = [];
-  for (const symptom of commonSymptoms) {
-    if (text.includes(symptom)) {
-      found.push(symptom);
-    }
-  }
-  return found;
-}
-
 // 辅助函数：从文本中提取持续时间
 function extractDuration(text: string): { value?: number; unit?: string } {
   const patterns = [
@@ -95,48 +123,3 @@ function extractDuration(text: string): { value?: number; unit?: string } {
   }
   return {};
 }
-
-// 辅助函数：解析主诉结构
-function parseComplaintStructure(text: string) {
-  const duration = extractDuration(text);
-  const symptoms = extractSymptoms(text);
-  
-  return {
-    originalText: text,
-    symptoms,
-    duration,
-    severity: extractSeverity(text),
-    location: extractLocation(text)
-  };
-}
-
-// 辅助函数：提取严重程度
-function extractSeverity(text: string): string | undefined {
-  const severityPatterns = [
-    { pattern: /轻度|轻微|有点/, level: '轻度' },
-    { pattern: /中度|明显|比较/, level: '中度' },
-    { pattern: /重度|严重|剧烈|很/, level: '重度' }
-  ];
-  
-  for (const { pattern, level } of severityPatterns) {
-    if (pattern.test(text)) {
-      return level;
-    }
-  }
-  return undefined;
-}
-
-// 辅助函数：提取部位
-function extractLocation(text: string): string | undefined {
-  const locations = [
-    '头部', '胸部', '腹部', '背部', '腰部', '腿部', '手臂', 
-    '上腹部', '下腹部', '左胸', '右胸', '心前区'
-  ];
-  
-  for (const location of locations) {
-    if (text.includes(location)) {
-      return location;
-    }
-  }
-  return undefined;
-}
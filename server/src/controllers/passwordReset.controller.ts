@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import * as passwordResetService from '../services/passwordReset.service';
+import type { PasswordResetVerification } from '../services/passwordReset.service';
+import { createCaptcha, verifyCaptcha } from '../services/captcha.service';
+
+const KEY_REWRAP_WARNING =
+  '您的加密私钥仍由旧密码保护：如记得旧密码，请在密钥管理中用旧密码解锁后修改为新密码；否则请导入密钥备份或轮换密钥，旧密钥加密的数据将无法解密';
+
+/**
+ * 发起重置密码（需验证码）
+ */
+export const requestReset = async (req: Request, res: Response) => {
+  const { username, captchaId, captcha } = req.body as { username: string; captchaId: string; captcha: string };
+  if (!(await verifyCaptcha(captchaId, captcha))) {
+    res.status(400).json({ success: false, message: '验证码错误或已过期', data: { captcha: await createCaptcha() } });
+    return;
+  }
+  const options = await passwordResetService.startPasswordReset(username);
+  res.json({ success: true, data: options });
+};
+
+/**
+ * 校验邮箱验证码或安全问题，换取重置凭证
+ */
+export const verifyReset = async (req: Request, res: Response) => {
+  const { username, ...verification } = req.body as PasswordResetVerification & { username: string };
+  const result = await passwordResetService.verifyPasswordReset(username, verification as PasswordResetVerification);
+  res.json({ success: true, data: result });
+};
+
+/**
+ * 设置新密码
+ */
+export const confirmReset = async (req: Request, res: Response) => {
+  const { resetToken, password } = req.body as { resetToken: string; password: string };
+  const result = await passwordResetService.resetPassword(resetToken, password);
+  res.json({
+    success: true,
+    data: { ...result, warning: result.keyRewrapRequired ? KEY_REWRAP_WARNING : null },
+  });
+};
@@ -16,11 +16,19 @@ export const getPatients = async (req: Request, res: Response) => {
 };
 
 /**
- * 创建患者
+ * 创建患者；存在疑似重复患者时返回 409 及候选患者，确认后以 ignoreDuplicates 重新提交
  */
 export const createPatient = async (req: Request, res: Response) => {
   try {
-    const patient = await patientService.createPatient(req.body);
+    const { ignoreDuplicates, ...data } = req.body as patientService.PatientData & { ignoreDuplicates?: boolean };
+    if (!ignoreDuplicates) {
+      const candidates = await patientService.findDuplicatePatients(data);
+      if (candidates.length > 0) {
+        res.status(409).json({ success: false, message: '发现疑似重复的患者', data: { candidates } });
+        return;
+      }
+    }
+    const patient = await patientService.createPatient(data, req.operator?.operatorId);
     res.json({ success: true, data: patient });
   } catch (error) {
     secureLogger.error('[PatientController] 创建患者失败', error instanceof Error ? error : undefined);
@@ -28,6 +36,39 @@ export const createPatient = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * 获取患者详情
+ */
+export const getPatient = async (req: Request, res: Response) => {
+  const patient = await patientService.getPatientDetail(Number(req.params.id));
+  res.json({ success: true, data: patient });
+};
+
+/**
+ * 更新患者（姓名/住址可为客户端重新加密的密文）
+ */
+export const updatePatient = async (req: Request, res: Response) => {
+  const patient = await patientService.updatePatientWithEncryption(Number(req.params.id), req.body, new Date(), req.operator?.operatorId);
+  res.json({ success: true, data: patient });
+};
+
+/**
+ * 患者问诊时间线
+ */
+export const getPatientTimeline = async (req: Request, res: Response) => {
+  const timeline = await patientService.getPatientTimeline(Number(req.params.id), req.operator);
+  res.json({ success: true, data: timeline });
+};
+
+/**
+ * 合并重复患者
+ */
+export const mergePatients = async (req: Request, res: Response) => {
+  const { sourceIds } = req.body as { sourceIds: number[] };
+  const result = await patientService.mergePatients(Number(req.params.id), sourceIds);
+  res.json({ success: true, data: result });
+};
+
 /**
  * 删除患者（若存在会话记录将被数据库约束拒绝）
  */
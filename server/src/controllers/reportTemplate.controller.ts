@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import * as reportTemplateService from '../services/reportTemplate.service';
+import { ErrorTypes } from '../middleware/errorHandler';
+
+/**
+ * 获取报告模板列表
+ */
+export const listTemplates = async (_req: Request, res: Response) => {
+  const templates = await reportTemplateService.listTemplates();
+  res.json({ success: true, data: templates });
+};
+
+/**
+ * 获取单个报告模板
+ */
+export const getTemplate = async (req: Request, res: Response) => {
+  const template = await reportTemplateService.getTemplateById(Number(req.params.id));
+  if (!template) {throw ErrorTypes.NotFound('报告模板');}
+  res.json({ success: true, data: template });
+};
+
+/**
+ * 创建报告模板（管理员）
+ */
+export const createTemplate = async (req: Request, res: Response) => {
+  const template = await reportTemplateService.createTemplate(req.body, req.operator?.operatorId);
+  res.status(201).json({ success: true, data: template });
+};
+
+/**
+ * 更新报告模板（管理员）
+ */
+export const updateTemplate = async (req: Request, res: Response) => {
+  const template = await reportTemplateService.updateTemplate(Number(req.params.id), req.body);
+  res.json({ success: true, data: template });
+};
+
+/**
+ * 删除报告模板（管理员）
+ */
+export const deleteTemplate = async (req: Request, res: Response) => {
+  const id = Number(req.params.id);
+  await reportTemplateService.deleteTemplate(id);
+  res.json({ success: true, data: { deletedId: id } });
+};
@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import * as sessionKeyService from '../services/sessionKey.service';
+import type { ReviewActor } from '../services/sessionReview.service';
+
+const actorOf = (req: Request): ReviewActor => ({
+  operatorId: req.operator?.operatorId ?? 0,
+  role: req.operator?.role ?? 'doctor',
+});
+
+/**
+ * 会话数据密钥授权列表及当前用户的包装密钥
+ */
+export const getSessionKeys = async (req: Request, res: Response) => {
+  const keys = await sessionKeyService.getSessionKeys(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: keys });
+};
+
+/**
+ * 为接收者保存包装后的会话数据密钥
+ */
+export const grantSessionKey = async (req: Request, res: Response) => {
+  const { wrappedKey } = req.body as { wrappedKey: string };
+  const recipient = await sessionKeyService.grantSessionKey(
+    Number(req.params.id),
+    actorOf(req),
+    Number(req.params.recipientId),
+    wrappedKey
+  );
+  res.json({ success: true, data: recipient });
+};
+
+/**
+ * 撤销接收者的会话数据密钥
+ */
+export const revokeSessionKey = async (req: Request, res: Response) => {
+  await sessionKeyService.revokeSessionKey(Number(req.params.id), actorOf(req), Number(req.params.recipientId));
+  res.json({ success: true, data: null });
+};
@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import * as sessionReviewService from '../services/sessionReview.service';
+import * as sessionGradingService from '../services/sessionGrading.service';
+import type { ReviewActor, ReviewStatus } from '../services/sessionReview.service';
+
+const actorOf = (req: Request): ReviewActor => ({
+  operatorId: req.operator?.operatorId ?? 0,
+  role: req.operator?.role ?? 'doctor',
+});
+
+/**
+ * 可选的带教教师列表
+ */
+export const listReviewers = async (_req: Request, res: Response) => {
+  const reviewers = await sessionReviewService.listReviewers();
+  res.json({ success: true, data: reviewers });
+};
+
+/**
+ * 教师的审核列表
+ */
+export const listReviewQueue = async (req: Request, res: Response) => {
+  const { status } = (req.validatedQuery || {}) as { status?: ReviewStatus };
+  const sessions = await sessionReviewService.listReviewQueue(actorOf(req), status);
+  res.json({ success: true, data: sessions });
+};
+
+/**
+ * 获取会话审核状态与批注
+ */
+export const getReview = async (req: Request, res: Response) => {
+  const review = await sessionReviewService.getReview(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: review });
+};
+
+/**
+ * 学生提交病历审核
+ */
+export const submitReview = async (req: Request, res: Response) => {
+  const review = await sessionReviewService.submitForReview(Number(req.params.id), actorOf(req), req.body.teacherId);
+  res.json({ success: true, data: review });
+};
+
+/**
+ * 教师添加字段批注
+ */
+export const addReviewComment = async (req: Request, res: Response) => {
+  const comment = await sessionReviewService.addComment(Number(req.params.id), actorOf(req), req.body);
+  res.status(201).json({ success: true, data: comment });
+};
+
+/**
+ * 教师退回病历
+ */
+export const returnReview = async (req: Request, res: Response) => {
+  const review = await sessionReviewService.returnSession(Number(req.params.id), actorOf(req), req.body.comment);
+  res.json({ success: true, data: review });
+};
+
+/**
+ * 教师通过病历
+ */
+export const approveReview = async (req: Request, res: Response) => {
+  const review = await sessionReviewService.approveSession(Number(req.params.id), actorOf(req), req.body.comment);
+  res.json({ success: true, data: review });
+};
+
+/**
+ * 获取病历的自动评分结果
+ */
+export const getGrade = async (req: Request, res: Response) => {
+  const grade = await sessionGradingService.getSessionGrade(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: grade });
+};
+
+/**
+ * 按任务参考病历重新评分
+ */
+export const gradeSession = async (req: Request, res: Response) => {
+  const grade = await sessionGradingService.gradeSessionById(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: grade });
+};
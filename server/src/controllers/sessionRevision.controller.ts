@@ -0,0 +1,40 @@
+import { Request, Response } from 'express';
+import * as sessionRevisionService from '../services/sessionRevision.service';
+import type { RevisionSection } from '../services/sessionRevision.service';
+import type { ReviewActor } from '../services/sessionReview.service';
+
+const actorOf = (req: Request): ReviewActor => ({
+  operatorId: req.operator?.operatorId ?? 0,
+  role: req.operator?.role ?? 'doctor',
+});
+
+/**
+ * 会话修订列表
+ */
+export const listRevisions = async (req: Request, res: Response) => {
+  const revisions = await sessionRevisionService.listRevisions(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: revisions });
+};
+
+/**
+ * 比较两个修订
+ */
+export const diffRevisions = async (req: Request, res: Response) => {
+  const { from, to } = (req.validatedQuery || {}) as { from: string; to: string };
+  const diff = await sessionRevisionService.diffRevisions(Number(req.params.id), actorOf(req), Number(from), Number(to));
+  res.json({ success: true, data: diff });
+};
+
+/**
+ * 恢复到某一修订（整份病历或单个章节）
+ */
+export const restoreRevision = async (req: Request, res: Response) => {
+  const { section } = req.body as { section?: RevisionSection };
+  const result = await sessionRevisionService.restoreRevision(
+    Number(req.params.id),
+    actorOf(req),
+    Number(req.params.revision),
+    section
+  );
+  res.json({ success: true, data: result });
+};
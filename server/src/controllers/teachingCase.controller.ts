@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import * as teachingCaseService from '../services/teachingCase.service';
+import type { TeachingCaseActor } from '../services/teachingCase.service';
+
+const actorOf = (req: Request): TeachingCaseActor => ({
+  operatorId: req.operator?.operatorId ?? 0,
+  role: req.operator?.role ?? 'doctor',
+});
+
+/**
+ * 教学病例列表
+ */
+export const listCases = async (req: Request, res: Response) => {
+  const cases = await teachingCaseService.listCases((req.validatedQuery || {}) as { keyword?: string });
+  res.json({ success: true, data: cases });
+};
+
+/**
+ * 教学病例详情
+ */
+export const getCase = async (req: Request, res: Response) => {
+  const teachingCase = await teachingCaseService.getCase(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: teachingCase });
+};
+
+/**
+ * 创建教学病例
+ */
+export const createCase = async (req: Request, res: Response) => {
+  const teachingCase = await teachingCaseService.createCase(actorOf(req), req.body);
+  res.status(201).json({ success: true, data: teachingCase });
+};
+
+/**
+ * 更新教学病例
+ */
+export const updateCase = async (req: Request, res: Response) => {
+  const teachingCase = await teachingCaseService.updateCase(Number(req.params.id), actorOf(req), req.body);
+  res.json({ success: true, data: teachingCase });
+};
+
+/**
+ * 删除教学病例
+ */
+export const deleteCase = async (req: Request, res: Response) => {
+  await teachingCaseService.deleteCase(Number(req.params.id), actorOf(req));
+  res.json({ success: true });
+};
+
+/**
+ * 导出病例包（JSON 文件下载）
+ */
+export const exportCases = async (req: Request, res: Response) => {
+  const { ids } = (req.validatedQuery || {}) as { ids?: string };
+  const bundle = await teachingCaseService.exportCases(ids ? ids.split(',').map(Number) : undefined);
+  const fileName = `teaching-cases-${bundle.exportedAt.slice(0, 10)}.json`;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  res.send(JSON.stringify(bundle, null, 2));
+};
+
+/**
+ * 导入病例包
+ */
+export const importCases = async (req: Request, res: Response) => {
+  const { content, dryRun } = req.body as { content: string; dryRun: boolean };
+  const result = await teachingCaseService.importCases(actorOf(req), content, dryRun);
+  res.json({ success: true, data: result });
+};
+
+/**
+ * 由教学病例开始练习会话
+ */
+export const startPractice = async (req: Request, res: Response) => {
+  const result = await teachingCaseService.startPractice(Number(req.params.id), actorOf(req));
+  res.status(201).json({ success: true, data: result });
+};
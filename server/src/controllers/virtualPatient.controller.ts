@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import * as virtualPatientService from '../services/virtualPatient.service';
+import type { ReviewActor } from '../services/sessionReview.service';
+
+const actorOf = (req: Request): ReviewActor => ({
+  operatorId: req.operator?.operatorId ?? 0,
+  role: req.operator?.role ?? 'doctor',
+});
+
+/**
+ * 虚拟病人病例列表
+ */
+export const listCases = async (_req: Request, res: Response) => {
+  const cases = await virtualPatientService.listCases();
+  res.json({ success: true, data: cases });
+};
+
+/**
+ * 会话最近一次虚拟病人问诊
+ */
+export const getConversation = async (req: Request, res: Response) => {
+  const conversation = await virtualPatientService.getConversation(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: conversation });
+};
+
+/**
+ * 开始虚拟病人问诊
+ */
+export const startConversation = async (req: Request, res: Response) => {
+  const { caseId } = req.body as { caseId: string };
+  const conversation = await virtualPatientService.startConversation(Number(req.params.id), actorOf(req), caseId);
+  res.status(201).json({ success: true, data: conversation });
+};
+
+/**
+ * 向虚拟病人提问
+ */
+export const askQuestion = async (req: Request, res: Response) => {
+  const { question } = req.body as { question: string };
+  const message = await virtualPatientService.askQuestion(Number(req.params.id), actorOf(req), question);
+  res.status(201).json({ success: true, data: message });
+};
+
+/**
+ * 结束虚拟病人问诊并补入病历
+ */
+export const finishConversation = async (req: Request, res: Response) => {
+  const conversation = await virtualPatientService.finishConversation(Number(req.params.id), actorOf(req));
+  res.json({ success: true, data: conversation });
+};
@@ -12,6 +12,11 @@ import mappingRoutes from './routes/mapping.routes';
 import authRoutes from './routes/auth.routes';
 import keyRoutes from './routes/key.routes';
 import securityQuestionRoutes from './routes/securityQuestion.routes';
+import reportTemplateRoutes from './routes/reportTemplate.routes';
+import cohortRoutes from './routes/cohort.routes';
+import assignmentRoutes from './routes/assignment.routes';
+import teachingCaseRoutes from './routes/teachingCase.routes';
+import careEpisodeRoutes from './routes/careEpisode.routes';
 
 import captchaRoutes from './routes/captcha.routes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
@@ -28,6 +33,8 @@ import { initRedis, stopRedis } from './utils/redis-starter';
 import { closeRedisClient } from './utils/redis-client';
 import { auditLog, AuditEventType } from './utils/auditLogger';
 import { startRotationScheduler, stopRotationScheduler } from './utils/auth-helpers';
+import { startKnowledgeWatcher, stopKnowledgeWatcher } from './services/knowledgeSync.service';
+import { backfillPatientBlindIndex } from './services/patient.service';
 import path from 'path';
 
 // 明确指定 .env 文件路径，确保 PM2 能正确加载
@@ -263,6 +270,7 @@ app.use(rateLimitStrategies.standard);
 // 特定路由限流
 app.use('/api/auth/login', rateLimitStrategies.strict);
 app.use('/api/auth/register', rateLimitStrategies.strict);
+app.use('/api/auth/password-reset', rateLimitStrategies.strict);
 app.use('/api/captcha', rateLimitStrategies.relaxed);
 app.use('/api/knowledge', rateLimitStrategies.knowledge);
 app.use('/api/diagnosis/suggest', rateLimitStrategies.diagnosis);
@@ -293,6 +301,11 @@ app.use('/api/auth', authRoutes);
 app.use('/api/captcha', captchaRoutes);
 app.use('/api/keys', keyRoutes);
 app.use('/api/security-questions', securityQuestionRoutes);
+app.use('/api/report-templates', reportTemplateRoutes);
+app.use('/api/cohorts', cohortRoutes);
+app.use('/api/assignments', assignmentRoutes);
+app.use('/api/teaching-cases', teachingCaseRoutes);
+app.use('/api/episodes', careEpisodeRoutes);
 
 /**
  * 健康检查接口
@@ -383,6 +396,14 @@ async function startServer() {
   // 启动审计日志轮换调度器
   startRotationScheduler();
 
+  // 同步知识库文件并监听目录变化
+  startKnowledgeWatcher();
+
+  // 为历史患者补建查重盲索引（不阻塞启动）
+  backfillPatientBlindIndex().catch((err) => {
+    secureLogger.error('补建患者查重索引失败', err instanceof Error ? err : undefined);
+  });
+
   // 记录系统启动审计日志
   await auditLog({
     eventType: AuditEventType.SYSTEM_START,
@@ -466,6 +487,9 @@ async function gracefulShutdown(signal: string) {
   
   // 停止JWT密钥轮换调度器
   stopRotationScheduler();
+
+  // 停止知识库目录监听
+  stopKnowledgeWatcher();
   
   // 关闭 Redis 客户端连接
   await closeRedisClient();
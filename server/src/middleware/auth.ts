@@ -1,61 +1,96 @@
 import { NextFunction, Request, Response } from 'express';
 import { authCookieConfig, serverConfig } from '../config';
-import { verifyToken } from '../utils/auth-helpers';
+import { verifyToken, type TokenScope } from '../utils/auth-helpers';
 import { secureLogger } from '../utils/secureLogger';
 import { parseCookieHeader } from '../utils/cookie';
 
-export type OperatorRole = 'admin' | 'doctor';
+export const OPERATOR_ROLES = ['admin', 'doctor', 'teacher', 'student'] as const;
+
+export type OperatorRole = (typeof OPERATOR_ROLES)[number];
+
+export const isOperatorRole = (value: unknown): value is OperatorRole =>
+  (OPERATOR_ROLES as readonly unknown[]).includes(value);
 
 export type OperatorPermission =
+  | 'assignment:read'
+  | 'auth:forceLogout'
   | 'auth:me'
+  | 'cohort:manage'
   | 'diagnosis:init'
   | 'diagnosis:read'
   | 'diagnosis:suggest'
+  | 'diagnosis:write'
   | 'knowledge:read'
+  | 'knowledge:review'
   | 'knowledge:write'
   | 'mapping:read'
   | 'nlp:use'
   | 'patient:create'
   | 'patient:delete'
   | 'patient:list'
+  | 'patient:merge'
+  | 'patient:update'
+  | 'reportTemplate:read'
+  | 'reportTemplate:write'
   | 'session:bulkDelete'
   | 'session:create'
   | 'session:export'
+  | 'session:grade'
   | 'session:list'
   | 'session:read'
   | 'session:report'
+  | 'session:review'
   | 'session:stats'
+  | 'session:submit'
   | 'session:update'
-  | 'session:delete';
+  | 'session:delete'
+  | 'sp:use'
+  | 'teachingCase:read'
+  | 'teachingCase:write';
 
 export interface OperatorIdentity {
   token: string;
   operatorId: number;
   role: OperatorRole;
+  scope?: TokenScope;
 }
 
 const ROLE_PERMISSIONS: Record<OperatorRole, OperatorPermission[]> = {
   admin: [
+    'assignment:read',
+    'auth:forceLogout',
     'auth:me',
+    'cohort:manage',
     'diagnosis:init',
     'diagnosis:read',
     'diagnosis:suggest',
+    'diagnosis:write',
     'knowledge:read',
+    'knowledge:review',
     'knowledge:write',
     'mapping:read',
     'nlp:use',
     'patient:create',
     'patient:delete',
     'patient:list',
+    'patient:merge',
+    'patient:update',
+    'reportTemplate:read',
+    'reportTemplate:write',
     'session:bulkDelete',
     'session:create',
     'session:delete',
     'session:export',
+    'session:grade',
     'session:list',
     'session:read',
     'session:report',
+    'session:review',
     'session:stats',
     'session:update',
+    'sp:use',
+    'teachingCase:read',
+    'teachingCase:write',
   ],
   doctor: [
     'auth:me',
@@ -66,6 +101,8 @@ const ROLE_PERMISSIONS: Record<OperatorRole, OperatorPermission[]> = {
     'nlp:use',
     'patient:create',
     'patient:list',
+    'patient:update',
+    'reportTemplate:read',
     'session:create',
     'session:delete',
     'session:export',
@@ -74,6 +111,59 @@ const ROLE_PERMISSIONS: Record<OperatorRole, OperatorPermission[]> = {
     'session:report',
     'session:stats',
     'session:update',
+    'sp:use',
+    'teachingCase:read',
+  ],
+  // 带教教师：审核学生提交的病历；可编写病例任务的参考病历
+  teacher: [
+    'assignment:read',
+    'auth:me',
+    'cohort:manage',
+    'diagnosis:read',
+    'diagnosis:suggest',
+    'knowledge:read',
+    'mapping:read',
+    'nlp:use',
+    'patient:create',
+    'patient:list',
+    'patient:update',
+    'reportTemplate:read',
+    'session:create',
+    'session:export',
+    'session:grade',
+    'session:list',
+    'session:read',
+    'session:report',
+    'session:review',
+    'session:stats',
+    'session:update',
+    'sp:use',
+    'teachingCase:read',
+    'teachingCase:write',
+  ],
+  // 医学生：采集病历并提交带教教师审核
+  student: [
+    'assignment:read',
+    'auth:me',
+    'diagnosis:read',
+    'diagnosis:suggest',
+    'knowledge:read',
+    'mapping:read',
+    'nlp:use',
+    'patient:create',
+    'patient:list',
+    'patient:update',
+    'reportTemplate:read',
+    'session:create',
+    'session:export',
+    'session:list',
+    'session:read',
+    'session:report',
+    'session:stats',
+    'session:submit',
+    'session:update',
+    'sp:use',
+    'teachingCase:read',
   ],
 };
 
@@ -131,6 +221,8 @@ function isDevTokenAllowed(): boolean {
 const DEV_TOKENS: Record<string, { operatorId: number; role: OperatorRole }> = {
   'dev-admin': { operatorId: 0, role: 'admin' },
   'dev-doctor': { operatorId: 0, role: 'doctor' },
+  'dev-teacher': { operatorId: 0, role: 'teacher' },
+  'dev-student': { operatorId: 0, role: 'student' },
 };
 
 export function loadOperatorFromToken(token: string): OperatorIdentity | null {
@@ -144,6 +236,7 @@ export function loadOperatorFromToken(token: string): OperatorIdentity | null {
       token: t,
       operatorId: jwtPayload.operatorId,
       role: jwtPayload.role as OperatorRole,
+      ...(jwtPayload.scope ? { scope: jwtPayload.scope } : {}),
     };
   }
 
@@ -166,7 +259,7 @@ export function loadOperatorFromToken(token: string): OperatorIdentity | null {
       if (hit && typeof hit === 'object') {
         const operatorId = Number(hit.operatorId);
         const roleRaw = String(hit.role || '').trim();
-        const role: OperatorRole = roleRaw === 'doctor' ? 'doctor' : 'admin';
+        const role: OperatorRole = isOperatorRole(roleRaw) ? roleRaw : 'admin';
         if (Number.isFinite(operatorId) && operatorId >= 0) {
           return { token: t, operatorId, role };
         }
@@ -194,6 +287,18 @@ export function loadOperatorFromToken(token: string): OperatorIdentity | null {
   return null;
 }
 
+/**
+ * 尚未完成两步验证绑定的受限令牌只能访问绑定相关接口，其余接口一律拒绝
+ */
+function rejectTotpSetupScope(operator: OperatorIdentity, res: Response): boolean {
+  if (operator.scope !== 'totp_setup') {return false;}
+  res.status(403).json({
+    success: false,
+    error: { code: 'TOTP_SETUP_REQUIRED', message: '请先完成两步验证绑定' },
+  });
+  return true;
+}
+
 export function requireOperator(req: Request, res: Response, next: NextFunction) {
   const token = parseOperatorToken(req);
   if (!token) {
@@ -212,12 +317,19 @@ export function requireOperator(req: Request, res: Response, next: NextFunction)
     });
     return;
   }
+  if (rejectTotpSetupScope(operator, res)) {return;}
 
   req.operator = operator;
   next();
 }
 
-export function requirePermission(perms: OperatorPermission | OperatorPermission[]) {
+/**
+ * 按权限校验操作人；allowTotpSetup 的接口同时接受两步验证绑定前的受限令牌
+ */
+export function requirePermission(
+  perms: OperatorPermission | OperatorPermission[],
+  options: { allowTotpSetup?: boolean } = {}
+) {
   const required = Array.isArray(perms) ? perms : [perms];
   return (req: Request, res: Response, next: NextFunction) => {
     const token = parseOperatorToken(req);
@@ -238,6 +350,8 @@ export function requirePermission(perms: OperatorPermission | OperatorPermission
       return;
     }
 
+    if (!options.allowTotpSetup && rejectTotpSetupScope(operator, res)) {return;}
+
     const allowed = new Set(ROLE_PERMISSIONS[operator.role] || []);
     const ok = required.every((p) => allowed.has(p));
     if (!ok) {
@@ -274,6 +388,8 @@ export function requireRoles(roles: OperatorRole | OperatorRole[]) {
       return;
     }
 
+    if (rejectTotpSetupScope(operator, res)) {return;}
+
     if (!allowed.includes(operator.role)) {
       res.status(403).json({
         success: false,
@@ -153,6 +153,7 @@ const PROTECTED_METHODS = ['POST', 'PUT', 'DELETE', 'PATCH'];
 const EXCLUDED_PATHS = [
   '/api/auth/login',
   '/api/auth/register',
+  '/api/auth/password-reset',
   '/api/captcha',
   '/health',
   '/health/detailed',
@@ -64,6 +64,19 @@ export const ErrorTypes = {
     new AppError(message, 500, 'INTERNAL_ERROR', false),
 };
 
+/**
+ * 服务层将 Prisma 记录不存在（P2025）、唯一约束冲突（P2002）转换为带业务提示的错误，其余错误原样抛出
+ */
+export const rethrowPrismaError = (
+  error: unknown,
+  messages: { notFound: string; conflict?: string }
+): never => {
+  const code = (error as { code?: string })?.code;
+  if (code === 'P2025') {throw ErrorTypes.NotFound(messages.notFound);}
+  if (code === 'P2002' && messages.conflict) {throw ErrorTypes.Conflict(messages.conflict);}
+  throw error;
+};
+
 /**
  * Prisma错误处理辅助函数
  */
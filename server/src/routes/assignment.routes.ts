@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import * as cohortController from '../controllers/cohort.controller';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody, validateParams } from '../middleware/validate';
+import { requirePermission } from '../middleware/auth';
+import { CohortSchemas, IdParamSchema } from '../validators';
+
+const router = Router();
+
+/**
+ * 病例任务路由
+ * 学生查看自己的任务；教师修改或删除所在班级的任务
+ */
+
+// 需放在 /:id 之前
+router.get('/mine', requirePermission('assignment:read'), asyncHandler(cohortController.listMyAssignments));
+
+router.get('/:id', requirePermission('assignment:read'), validateParams(IdParamSchema), asyncHandler(cohortController.getAssignment));
+router.patch(
+  '/:id',
+  requirePermission('cohort:manage'),
+  validateParams(IdParamSchema),
+  validateBody(CohortSchemas.assignmentUpdate),
+  asyncHandler(cohortController.updateAssignment)
+);
+router.delete('/:id', requirePermission('cohort:manage'), validateParams(IdParamSchema), asyncHandler(cohortController.deleteAssignment));
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import * as authController from '../controllers/auth.controller';
+import * as passwordResetController from '../controllers/passwordReset.controller';
+import { asyncHandler } from '../middleware/errorHandler';
 import { validateBody } from '../middleware/validate';
 import { AuthSchemas } from '../validators';
 import { requirePermission } from '../middleware/auth';
@@ -7,9 +9,29 @@ import { requirePermission } from '../middleware/auth';
 const router = Router();
 
 router.post('/login', validateBody(AuthSchemas.login), authController.login);
+router.post('/login/totp', validateBody(AuthSchemas.loginTotp), authController.loginTotp);
 router.post('/register', validateBody(AuthSchemas.register), authController.register);
 router.post('/refresh', authController.refresh);
 router.post('/logout', authController.logout);
-router.get('/me', requirePermission('auth:me'), authController.me);
+router.get('/me', requirePermission('auth:me', { allowTotpSetup: true }), authController.me);
+
+// TOTP 两步验证绑定与管理
+// 角色要求两步验证但尚未绑定时，登录只签发受限令牌，仅可访问以下绑定接口
+router.get('/totp', requirePermission('auth:me', { allowTotpSetup: true }), asyncHandler(authController.totpStatus));
+router.post('/totp/setup', requirePermission('auth:me', { allowTotpSetup: true }), asyncHandler(authController.totpSetup));
+router.post('/totp/enable', requirePermission('auth:me', { allowTotpSetup: true }), validateBody(AuthSchemas.totpCode), asyncHandler(authController.totpEnable));
+router.post('/totp/disable', requirePermission('auth:me'), validateBody(AuthSchemas.totpDisable), asyncHandler(authController.totpDisable));
+router.post('/totp/recovery-codes', requirePermission('auth:me'), validateBody(AuthSchemas.totpCode), asyncHandler(authController.totpRecoveryCodes));
+
+// 登录会话（设备）管理
+router.get('/sessions', requirePermission('auth:me'), authController.listSessions);
+router.delete('/sessions', requirePermission('auth:me'), authController.revokeOtherSessions);
+router.delete('/sessions/:sid', requirePermission('auth:me'), authController.revokeSession);
+router.delete('/operators/:operatorId/sessions', requirePermission('auth:forceLogout'), authController.forceLogoutOperator);
+
+// 自助重置密码（无需登录）
+router.post('/password-reset/request', validateBody(AuthSchemas.passwordResetRequest), asyncHandler(passwordResetController.requestReset));
+router.post('/password-reset/verify', validateBody(AuthSchemas.passwordResetVerify), asyncHandler(passwordResetController.verifyReset));
+router.post('/password-reset/confirm', validateBody(AuthSchemas.passwordResetConfirm), asyncHandler(passwordResetController.confirmReset));
 
 export default router;
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import * as careEpisodeController from '../controllers/careEpisode.controller';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate';
+import { requirePermission } from '../middleware/auth';
+import { EpisodeSchemas, IdParamSchema } from '../validators';
+
+const router = Router();
+
+/**
+ * 诊疗经过路由
+ * 将首次入院记录与其后的病程记录/复诊归组，并由上次就诊开始复诊会话
+ */
+
+router.get('/', requirePermission('session:read'), validateQuery(EpisodeSchemas.listQuery), asyncHandler(careEpisodeController.listEpisodes));
+router.post('/', requirePermission('session:update'), validateBody(EpisodeSchemas.create), asyncHandler(careEpisodeController.createEpisode));
+
+// 需放在 /:id 之前
+router.post('/follow-up', requirePermission('session:create'), validateBody(EpisodeSchemas.followUp), asyncHandler(careEpisodeController.startFollowUp));
+
+router.get('/:id', requirePermission('session:read'), validateParams(IdParamSchema), asyncHandler(careEpisodeController.getEpisode));
+router.patch(
+  '/:id',
+  requirePermission('session:update'),
+  validateParams(IdParamSchema),
+  validateBody(EpisodeSchemas.update),
+  asyncHandler(careEpisodeController.updateEpisode)
+);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import * as cohortController from '../controllers/cohort.controller';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody, validateParams } from '../middleware/validate';
+import { requirePermission } from '../middleware/auth';
+import { CohortSchemas, IdParamSchema } from '../validators';
+
+const router = Router();
+
+/**
+ * 班级路由：班级、学生名单与病例任务的管理（带教教师/管理员）
+ */
+
+router.get('/', requirePermission('cohort:manage'), asyncHandler(cohortController.listCohorts));
+router.post('/', requirePermission('cohort:manage'), validateBody(CohortSchemas.create), asyncHandler(cohortController.createCohort));
+router.get('/:id', requirePermission('cohort:manage'), validateParams(IdParamSchema), asyncHandler(cohortController.getCohort));
+router.patch(
+  '/:id',
+  requirePermission('cohort:manage'),
+  validateParams(IdParamSchema),
+  validateBody(CohortSchemas.update),
+  asyncHandler(cohortController.updateCohort)
+);
+router.delete('/:id', requirePermission('cohort:manage'), validateParams(IdParamSchema), asyncHandler(cohortController.deleteCohort));
+
+router.post(
+  '/:id/students',
+  requirePermission('cohort:manage'),
+  validateParams(IdParamSchema),
+  validateBody(CohortSchemas.enroll),
+  asyncHandler(cohortController.enrollStudents)
+);
+router.delete(
+  '/:id/students/:studentId',
+  requirePermission('cohort:manage'),
+  validateParams(CohortSchemas.studentParams),
+  asyncHandler(cohortController.removeStudent)
+);
+
+router.post(
+  '/:id/assignments',
+  requirePermission('cohort:manage'),
+  validateParams(IdParamSchema),
+  validateBody(CohortSchemas.assignment),
+  asyncHandler(cohortController.createAssignment)
+);
+
+export default router;
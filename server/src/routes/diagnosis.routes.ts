@@ -1,18 +1,57 @@
 import { Router } from 'express';
 import * as diagnosisController from '../controllers/diagnosis.controller';
-import { validateBody, validateParams } from '../middleware/validate';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate';
 import { DiagnosisSchemas, IdParamSchema } from '../validators';
 import { requirePermission } from '../middleware/auth';
 
 const router = Router();
 
-// 诊断建议接口 - 验证请求体
-router.post('/suggest', requirePermission('diagnosis:suggest'), validateBody(DiagnosisSchemas.suggest), diagnosisController.suggestDiagnosis);
-router.post('/enhanced-suggest', requirePermission('diagnosis:suggest'), validateBody(DiagnosisSchemas.enhancedSuggest), diagnosisController.suggestEnhancedDiagnosis);
+// 诊断建议接口 - 两个路径共用同一引擎与响应结构（enhanced-suggest 保留以兼容旧客户端）
+router.post('/suggest', requirePermission('diagnosis:suggest'), validateBody(DiagnosisSchemas.suggest), asyncHandler(diagnosisController.suggestDiagnosis));
+router.post('/enhanced-suggest', requirePermission('diagnosis:suggest'), validateBody(DiagnosisSchemas.suggest), asyncHandler(diagnosisController.suggestDiagnosis));
 
 // 诊断数据管理接口 - 注意：具体路由要放在参数路由之前
-router.get('/list', requirePermission('diagnosis:read'), diagnosisController.getAllDiagnoses);
-router.post('/init', requirePermission('diagnosis:init'), diagnosisController.initializeDiagnosisData);
-router.get('/:id', requirePermission('diagnosis:read'), validateParams(IdParamSchema), diagnosisController.getDiagnosisById);
+router.get('/list', requirePermission('diagnosis:read'), validateQuery(DiagnosisSchemas.listQuery), asyncHandler(diagnosisController.getAllDiagnoses));
+router.post('/init', requirePermission('diagnosis:init'), asyncHandler(diagnosisController.initializeDiagnosisData));
+router.post('/import', requirePermission('diagnosis:write'), validateBody(DiagnosisSchemas.import), asyncHandler(diagnosisController.importDiagnoses));
+router.post('/', requirePermission('diagnosis:write'), validateBody(DiagnosisSchemas.create), asyncHandler(diagnosisController.createDiagnosis));
+router.get('/:id', requirePermission('diagnosis:read'), validateParams(IdParamSchema), asyncHandler(diagnosisController.getDiagnosisById));
+router.patch(
+  '/:id',
+  requirePermission('diagnosis:write'),
+  validateParams(IdParamSchema),
+  validateBody(DiagnosisSchemas.update),
+  asyncHandler(diagnosisController.updateDiagnosis)
+);
+router.delete('/:id', requirePermission('diagnosis:write'), validateParams(IdParamSchema), asyncHandler(diagnosisController.deleteDiagnosis));
+
+// 症状关联与警惕征象（权重、必需/排除、严重度）
+router.put(
+  '/:id/symptoms',
+  requirePermission('diagnosis:write'),
+  validateParams(IdParamSchema),
+  validateBody(DiagnosisSchemas.symptom),
+  asyncHandler(diagnosisController.upsertDiagnosisSymptom)
+);
+router.delete(
+  '/:id/symptoms/:symptomKey',
+  requirePermission('diagnosis:write'),
+  validateParams(DiagnosisSchemas.symptomParams),
+  asyncHandler(diagnosisController.removeDiagnosisSymptom)
+);
+router.put(
+  '/:id/red-flags',
+  requirePermission('diagnosis:write'),
+  validateParams(IdParamSchema),
+  validateBody(DiagnosisSchemas.redFlag),
+  asyncHandler(diagnosisController.upsertDiagnosisRedFlag)
+);
+router.delete(
+  '/:id/red-flags/:redFlagName',
+  requirePermission('diagnosis:write'),
+  validateParams(DiagnosisSchemas.redFlagParams),
+  asyncHandler(diagnosisController.removeDiagnosisRedFlag)
+);
 
 export default router;
@@ -7,6 +7,7 @@ import { Router, Response, Request } from 'express';
 import { requireOperator, OperatorIdentity } from '../middleware/auth';
 import * as keyService from '../services/key.service';
 import { secureLogger } from '../utils/secureLogger';
+import { AppError } from '../middleware/errorHandler';
 
 interface KeyRequest extends Request {
   operator?: OperatorIdentity;
@@ -14,6 +15,49 @@ interface KeyRequest extends Request {
 
 const router = Router();
 
+const ROTATION_TYPES: readonly keyService.RotationRecordType[] = ['session', 'patient', 'sessionKey'];
+const MAX_ROTATION_BATCH = 100;
+
+/**
+ * 业务错误按其状态码返回，其余记录日志并返回 500
+ */
+const sendKeyError = (res: Response, err: unknown, message: string): void => {
+  if (err instanceof AppError) {
+    res.status(err.statusCode).json({
+      success: false,
+      error: { code: err.errorCode, message: err.message },
+    });
+    return;
+  }
+  secureLogger.error(`[KeyRoutes] ${message}`, err instanceof Error ? err : new Error(String(err)));
+  res.status(500).json({
+    success: false,
+    error: { code: 'INTERNAL_ERROR', message },
+  });
+};
+
+const sendUnauthorized = (res: Response): void => {
+  res.status(401).json({
+    success: false,
+    error: { code: 'UNAUTHORIZED', message: '未授权' },
+  });
+};
+
+const sendInvalid = (res: Response, message: string = '缺少必要参数'): void => {
+  res.status(400).json({
+    success: false,
+    error: { code: 'INVALID_REQUEST', message },
+  });
+};
+
+const parsePositiveInt = (value: unknown): number | null => {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : null;
+};
+
+const parseRotationType = (value: unknown): keyService.RotationRecordType | null =>
+  ROTATION_TYPES.includes(value as keyService.RotationRecordType) ? value as keyService.RotationRecordType : null;
+
 /**
  * 存储用户密钥到服务器
  * POST /api/keys/store
@@ -42,7 +86,7 @@ router.post(
         return;
       }
 
-      await keyService.storeUserKey(operatorId, {
+      const stored = await keyService.storeUserKey(operatorId, {
         publicKey,
         encryptedPrivateKey,
         keyFingerprint: keyFingerprint || '',
@@ -50,7 +94,7 @@ router.post(
 
       res.json({
         success: true,
-        data: { message: '密钥已同步到服务器' },
+        data: { message: '密钥已同步到服务器', ...stored },
       });
     } catch (err) {
       secureLogger.error('[KeyRoutes] 存储密钥失败', err instanceof Error ? err : new Error(String(err)));
@@ -138,6 +182,44 @@ router.get(
   }
 );
 
+/**
+ * 获取其他用户的当前公钥（为其包装会话数据密钥）
+ * GET /api/keys/public/:operatorId
+ */
+router.get(
+  '/public/:operatorId',
+  requireOperator,
+  async (req: KeyRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.operator?.operatorId) {
+        sendUnauthorized(res);
+        return;
+      }
+      const operatorId = parsePositiveInt(req.params.operatorId);
+      if (!operatorId) {
+        sendInvalid(res, '无效的用户ID');
+        return;
+      }
+
+      const publicKey = await keyService.getPublicKey(operatorId);
+      if (!publicKey) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'KEY_NOT_FOUND', message: '该用户尚未创建加密密钥' },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: publicKey,
+      });
+    } catch (err) {
+      sendKeyError(res, err, '获取公钥失败');
+    }
+  }
+);
+
 /**
  * 删除服务器密钥
  * DELETE /api/keys
@@ -172,4 +254,195 @@ router.delete(
   }
 );
 
+/**
+ * 密钥版本列表
+ * GET /api/keys/versions
+ */
+router.get(
+  '/versions',
+  requireOperator,
+  async (req: KeyRequest, res: Response): Promise<void> => {
+    try {
+      const operatorId = req.operator?.operatorId;
+      if (!operatorId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await keyService.listKeyVersions(operatorId),
+      });
+    } catch (err) {
+      sendKeyError(res, err, '获取密钥版本失败');
+    }
+  }
+);
+
+/**
+ * 获取旧版本密钥（轮换中断后在其他设备上继续时使用）
+ * GET /api/keys/versions/:version
+ */
+router.get(
+  '/versions/:version',
+  requireOperator,
+  async (req: KeyRequest, res: Response): Promise<void> => {
+    try {
+      const operatorId = req.operator?.operatorId;
+      if (!operatorId) {
+        sendUnauthorized(res);
+        return;
+      }
+      const version = parsePositiveInt(req.params.version);
+      if (!version) {
+        sendInvalid(res, '无效的密钥版本');
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await keyService.getKeyVersion(operatorId, version),
+      });
+    } catch (err) {
+      sendKeyError(res, err, '获取密钥版本失败');
+    }
+  }
+);
+
+/**
+ * 吊销旧密钥版本
+ * POST /api/keys/versions/:version/revoke
+ */
+router.post(
+  '/versions/:version/revoke',
+  requireOperator,
+  async (req: KeyRequest, res: Response): Promise<void> => {
+    try {
+      const operatorId = req.operator?.operatorId;
+      if (!operatorId) {
+        sendUnauthorized(res);
+        return;
+      }
+      const version = parsePositiveInt(req.params.version);
+      if (!version) {
+        sendInvalid(res, '无效的密钥版本');
+        return;
+      }
+
+      await keyService.revokeKeyVersion(operatorId, version);
+      res.json({
+        success: true,
+        data: { message: '密钥版本已吊销' },
+      });
+    } catch (err) {
+      sendKeyError(res, err, '吊销密钥版本失败');
+    }
+  }
+);
+
+/**
+ * 轮换密钥：登记新密钥为当前版本
+ * POST /api/keys/rotate
+ */
+router.post(
+  '/rotate',
+  requireOperator,
+  async (req: KeyRequest, res: Response): Promise<void> => {
+    try {
+      const operatorId = req.operator?.operatorId;
+      if (!operatorId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const { publicKey, encryptedPrivateKey, keyFingerprint } = req.body;
+      if (!publicKey || !encryptedPrivateKey) {
+        sendInvalid(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await keyService.rotateUserKey(operatorId, {
+          publicKey,
+          encryptedPrivateKey,
+          keyFingerprint: keyFingerprint || '',
+        }),
+      });
+    } catch (err) {
+      sendKeyError(res, err, '轮换密钥失败');
+    }
+  }
+);
+
+/**
+ * 取下一批待重新加密的记录
+ * GET /api/keys/rotation/batch?type=session&cursor=0&limit=20
+ */
+router.get(
+  '/rotation/batch',
+  requireOperator,
+  async (req: KeyRequest, res: Response): Promise<void> => {
+    try {
+      const operatorId = req.operator?.operatorId;
+      if (!operatorId) {
+        sendUnauthorized(res);
+        return;
+      }
+      const type = parseRotationType(req.query.type);
+      if (!type) {
+        sendInvalid(res, '无效的记录类型');
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await keyService.getRotationBatch(operatorId, {
+          type,
+          cursor: parsePositiveInt(req.query.cursor) ?? 0,
+          limit: Math.min(parsePositiveInt(req.query.limit) ?? 20, MAX_ROTATION_BATCH),
+        }),
+      });
+    } catch (err) {
+      sendKeyError(res, err, '获取待重新加密记录失败');
+    }
+  }
+);
+
+/**
+ * 提交一批重新加密后的记录
+ * POST /api/keys/rotation/batch
+ */
+router.post(
+  '/rotation/batch',
+  requireOperator,
+  async (req: KeyRequest, res: Response): Promise<void> => {
+    try {
+      const operatorId = req.operator?.operatorId;
+      if (!operatorId) {
+        sendUnauthorized(res);
+        return;
+      }
+
+      const { items } = req.body;
+      const type = parseRotationType(req.body.type);
+      const version = parsePositiveInt(req.body.version);
+      const validItems = Array.isArray(items) && items.length <= MAX_ROTATION_BATCH && items.every(
+        (i: { id?: unknown; fields?: unknown }) => parsePositiveInt(i?.id) !== null && !!i.fields && typeof i.fields === 'object'
+      );
+      if (!type || !version || !validItems) {
+        sendInvalid(res);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await keyService.submitRotationBatch(operatorId, { type, version, items }),
+      });
+    } catch (err) {
+      sendKeyError(res, err, '提交重新加密记录失败');
+    }
+  }
+);
+
 export default router;
@@ -7,7 +7,8 @@ const router = Router();
 /**
  * 知识库路由 - 权限控制
  * 读取接口：需要 knowledge:read 权限
- * 写入接口：需要 knowledge:write 权限（仅管理员）
+ * 写入接口：需要 knowledge:write 权限（仅管理员），修改以草稿形式提交
+ * 审核接口：需要 knowledge:review 权限，且审核人不能是草稿作者
  */
 
 // 读取接口 - 需要 knowledge:read 权限
@@ -17,10 +18,26 @@ router.get('/symptom-mappings', requirePermission('knowledge:read'), knowledgeCo
 router.get('/symptom-mapping/:symptomName', requirePermission('knowledge:read'), knowledgeController.getSymptomMappingByName);
 router.get('/diseases', requirePermission('knowledge:read'), knowledgeController.getDiseases);
 router.get('/disease/:diseaseName', requirePermission('knowledge:read'), knowledgeController.getDiseaseByName);
+
+// 知识库文件同步 - 需放在 /:key 之前
+router.get('/sources', requirePermission('knowledge:write'), knowledgeController.getKnowledgeSources);
+router.post('/sync', requirePermission('knowledge:write'), knowledgeController.syncKnowledgeFiles);
+
+// 草稿与审核 - 需放在 /:key 之前
+router.get('/drafts', requirePermission('knowledge:write'), knowledgeController.listKnowledgeDrafts);
+router.get('/drafts/:id', requirePermission('knowledge:write'), knowledgeController.getKnowledgeDraft);
+router.patch('/drafts/:id', requirePermission('knowledge:write'), knowledgeController.updateKnowledgeDraft);
+router.post('/drafts/:id/submit', requirePermission('knowledge:write'), knowledgeController.submitKnowledgeDraft);
+router.post('/drafts/:id/approve', requirePermission('knowledge:review'), knowledgeController.approveKnowledgeDraft);
+router.post('/drafts/:id/reject', requirePermission('knowledge:review'), knowledgeController.rejectKnowledgeDraft);
+
 router.get('/:key', requirePermission('knowledge:read'), knowledgeController.getKnowledgeByKey);
+router.get('/:key/versions', requirePermission('knowledge:read'), knowledgeController.getKnowledgeVersions);
+router.get('/:key/versions/:version', requirePermission('knowledge:read'), knowledgeController.getKnowledgeVersion);
 
 // 写入接口 - 需要 knowledge:write 权限（仅管理员）
-router.post('/', requirePermission('knowledge:write'), knowledgeController.upsertKnowledge);
+router.post('/', requirePermission('knowledge:write'), knowledgeController.createKnowledgeDraft);
+router.post('/:key/versions/:version/rollback', requirePermission('knowledge:write'), knowledgeController.rollbackKnowledge);
 router.delete('/:key', requirePermission('knowledge:write'), knowledgeController.deleteKnowledge);
 router.post('/bulk-delete', requirePermission('knowledge:write'), knowledgeController.deleteKnowledgeBulk);
 
@@ -11,5 +11,6 @@ const router = Router();
 
 router.post('/analyze', requirePermission('nlp:use'), nlpController.analyzeComplaint);
 router.post('/chief-complaint/parse', requirePermission('nlp:use'), nlpController.parseChiefComplaint);
+router.post('/hpi/extract', requirePermission('nlp:use'), nlpController.extractHpi);
 
 export default router;
@@ -1,18 +1,43 @@
 import { Router } from 'express';
 import * as patientController from '../controllers/patient.controller';
+import { asyncHandler } from '../middleware/errorHandler';
 import { validateBody, validateParams, validateQuery } from '../middleware/validate';
-import { PatientSchemas } from '../validators';
+import { PatientSchemas, IdParamSchema } from '../validators';
 import { requirePermission } from '../middleware/auth';
 
 const router = Router();
 
 // 获取患者列表 - 验证查询参数
-router.get('/', requirePermission('patient:list'), validateQuery(PatientSchemas.query), patientController.getPatients);
+router.get('/', requirePermission('patient:list'), validateQuery(PatientSchemas.query), asyncHandler(patientController.getPatients));
 
 // 创建患者 - 验证请求体
-router.post('/', requirePermission('patient:create'), validateBody(PatientSchemas.create), patientController.createPatient);
+router.post('/', requirePermission('patient:create'), validateBody(PatientSchemas.create), asyncHandler(patientController.createPatient));
+
+// 患者详情
+router.get('/:id', requirePermission('patient:list'), validateParams(IdParamSchema), asyncHandler(patientController.getPatient));
+
+// 更新患者
+router.patch(
+  '/:id',
+  requirePermission('patient:update'),
+  validateParams(IdParamSchema),
+  validateBody(PatientSchemas.update),
+  asyncHandler(patientController.updatePatient)
+);
+
+// 患者问诊时间线
+router.get('/:id/timeline', requirePermission('patient:list'), validateParams(IdParamSchema), asyncHandler(patientController.getPatientTimeline));
+
+// 合并重复患者
+router.post(
+  '/:id/merge',
+  requirePermission('patient:merge'),
+  validateParams(IdParamSchema),
+  validateBody(PatientSchemas.merge),
+  asyncHandler(patientController.mergePatients)
+);
 
 // 删除患者 - 验证路由参数
-router.delete('/:id', requirePermission('patient:delete'), validateParams(PatientSchemas.query), patientController.deletePatient);
+router.delete('/:id', requirePermission('patient:delete'), validateParams(PatientSchemas.query), asyncHandler(patientController.deletePatient));
 
 export default router;
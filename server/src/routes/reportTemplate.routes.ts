@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import * as reportTemplateController from '../controllers/reportTemplate.controller';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody, validateParams } from '../middleware/validate';
+import { requirePermission } from '../middleware/auth';
+import { ReportTemplateSchemas, IdParamSchema } from '../validators';
+
+const router = Router();
+
+/**
+ * 报告模板路由
+ * 读取接口：需要 reportTemplate:read 权限
+ * 写入接口：需要 reportTemplate:write 权限（仅管理员）
+ */
+
+router.get('/', requirePermission('reportTemplate:read'), asyncHandler(reportTemplateController.listTemplates));
+router.get('/:id', requirePermission('reportTemplate:read'), validateParams(IdParamSchema), asyncHandler(reportTemplateController.getTemplate));
+
+router.post('/', requirePermission('reportTemplate:write'), validateBody(ReportTemplateSchemas.create), asyncHandler(reportTemplateController.createTemplate));
+router.patch(
+  '/:id',
+  requirePermission('reportTemplate:write'),
+  validateParams(IdParamSchema),
+  validateBody(ReportTemplateSchemas.update),
+  asyncHandler(reportTemplateController.updateTemplate)
+);
+router.delete('/:id', requirePermission('reportTemplate:write'), validateParams(IdParamSchema), asyncHandler(reportTemplateController.deleteTemplate));
+
+export default router;
@@ -1,13 +1,25 @@
 import { Router } from 'express';
 import * as sessionController from '../controllers/session.controller';
-import { validateBody, validateParams } from '../middleware/validate';
+import * as sessionReviewController from '../controllers/sessionReview.controller';
+import * as virtualPatientController from '../controllers/virtualPatient.controller';
+import * as sessionRevisionController from '../controllers/sessionRevision.controller';
+import * as sessionKeyController from '../controllers/sessionKey.controller';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate';
 import { requirePermission } from '../middleware/auth';
-import { SessionSchemas, IdParamSchema } from '../validators';
+import { SessionSchemas, ReportTemplateSchemas, IdParamSchema } from '../validators';
 
 const router = Router();
 
 // 仪表盘统计
-router.get('/stats', requirePermission('session:stats'), sessionController.getDashboardStats);
+router.get('/stats', requirePermission('session:stats'), asyncHandler(sessionController.getDashboardStats));
+
+// 带教审核：教师审核列表与可选教师 - 需放在 /:id 之前
+router.get('/reviews', requirePermission('session:review'), validateQuery(SessionSchemas.reviewQueueQuery), asyncHandler(sessionReviewController.listReviewQueue));
+router.get('/reviewers', requirePermission('session:submit'), asyncHandler(sessionReviewController.listReviewers));
+
+// 虚拟病人病例列表 - 需放在 /:id 之前
+router.get('/sp-cases', requirePermission('sp:use'), asyncHandler(virtualPatientController.listCases));
 
 // 获取所有会话
 router.get('/', requirePermission('session:list'), sessionController.getAllSessions);
@@ -28,12 +40,54 @@ router.post('/bulk-delete', requirePermission('session:bulkDelete'), sessionCont
 router.patch('/:id', requirePermission('session:update'), validateParams(IdParamSchema), validateBody(SessionSchemas.update), sessionController.updateSession);
 
 // 生成报告 - 验证ID参数
-router.post('/:id/report', requirePermission('session:report'), validateParams(IdParamSchema), sessionController.generateReport);
+router.post('/:id/report', requirePermission('session:report'), validateParams(IdParamSchema), validateBody(ReportTemplateSchemas.reportBody), sessionController.generateReport);
+
+// 鉴别诊断（基于已保存的会话数据）
+router.get('/:id/differential', requirePermission('diagnosis:suggest'), validateParams(IdParamSchema), sessionController.getDifferential);
+
+// 带教审核：学生提交，教师批注、退回或通过
+router.get('/:id/review', requirePermission('session:read'), validateParams(IdParamSchema), asyncHandler(sessionReviewController.getReview));
+router.post('/:id/review/submit', requirePermission('session:submit'), validateParams(IdParamSchema), validateBody(SessionSchemas.reviewSubmit), asyncHandler(sessionReviewController.submitReview));
+router.post('/:id/review/comments', requirePermission('session:review'), validateParams(IdParamSchema), validateBody(SessionSchemas.reviewComment), asyncHandler(sessionReviewController.addReviewComment));
+router.post('/:id/review/return', requirePermission('session:review'), validateParams(IdParamSchema), validateBody(SessionSchemas.reviewDecision), asyncHandler(sessionReviewController.returnReview));
+router.post('/:id/review/approve', requirePermission('session:review'), validateParams(IdParamSchema), validateBody(SessionSchemas.reviewDecision), asyncHandler(sessionReviewController.approveReview));
+
+// 自动评分：与病例任务的参考病历比对
+router.get('/:id/grade', requirePermission('session:read'), validateParams(IdParamSchema), asyncHandler(sessionReviewController.getGrade));
+router.post('/:id/grade', requirePermission('session:grade'), validateParams(IdParamSchema), asyncHandler(sessionReviewController.gradeSession));
+
+// 修订历史：列出每次保存、比较任意两个修订、恢复单个章节或整份病历
+router.get('/:id/revisions', requirePermission('session:read'), validateParams(IdParamSchema), asyncHandler(sessionRevisionController.listRevisions));
+router.get('/:id/revisions/diff', requirePermission('session:read'), validateParams(IdParamSchema), validateQuery(SessionSchemas.revisionDiffQuery), asyncHandler(sessionRevisionController.diffRevisions));
+router.post(
+  '/:id/revisions/:revision/restore',
+  requirePermission('session:update'),
+  validateParams(SessionSchemas.revisionParams),
+  validateBody(SessionSchemas.revisionRestore),
+  asyncHandler(sessionRevisionController.restoreRevision)
+);
+
+// 信封加密：会话数据密钥按接收者公钥包装，授权与撤销不重新加密病历数据
+router.get('/:id/keys', requirePermission('session:read'), validateParams(IdParamSchema), asyncHandler(sessionKeyController.getSessionKeys));
+router.put(
+  '/:id/keys/:recipientId',
+  requirePermission('session:update'),
+  validateParams(SessionSchemas.sessionKeyParams),
+  validateBody(SessionSchemas.sessionKeyGrant),
+  asyncHandler(sessionKeyController.grantSessionKey)
+);
+router.delete('/:id/keys/:recipientId', requirePermission('session:update'), validateParams(SessionSchemas.sessionKeyParams), asyncHandler(sessionKeyController.revokeSessionKey));
+
+// 虚拟标准化病人问诊：开始、提问、结束时补入病历并统计提问覆盖
+router.get('/:id/sp', requirePermission('sp:use'), validateParams(IdParamSchema), asyncHandler(virtualPatientController.getConversation));
+router.post('/:id/sp/start', requirePermission('sp:use'), validateParams(IdParamSchema), validateBody(SessionSchemas.spStart), asyncHandler(virtualPatientController.startConversation));
+router.post('/:id/sp/messages', requirePermission('sp:use'), validateParams(IdParamSchema), validateBody(SessionSchemas.spQuestion), asyncHandler(virtualPatientController.askQuestion));
+router.post('/:id/sp/finish', requirePermission('sp:use'), validateParams(IdParamSchema), asyncHandler(virtualPatientController.finishConversation));
 
 // 导出PDF/Word - 验证ID参数
-router.get('/:id/export/pdf', requirePermission('session:export'), validateParams(IdParamSchema), sessionController.exportReportPdf);
-router.get('/:id/export/word', requirePermission('session:export'), validateParams(IdParamSchema), sessionController.exportReportDocx);
-router.get('/:id/export/markdown', requirePermission('session:export'), validateParams(IdParamSchema), sessionController.exportReportMarkdown);
-router.get('/:id/export/text', requirePermission('session:export'), validateParams(IdParamSchema), sessionController.exportReportText);
+router.get('/:id/export/pdf', requirePermission('session:export'), validateParams(IdParamSchema), validateQuery(ReportTemplateSchemas.exportQuery), sessionController.exportReportPdf);
+router.get('/:id/export/word', requirePermission('session:export'), validateParams(IdParamSchema), validateQuery(ReportTemplateSchemas.exportQuery), sessionController.exportReportDocx);
+router.get('/:id/export/markdown', requirePermission('session:export'), validateParams(IdParamSchema), validateQuery(ReportTemplateSchemas.exportQuery), sessionController.exportReportMarkdown);
+router.get('/:id/export/text', requirePermission('session:export'), validateParams(IdParamSchema), validateQuery(ReportTemplateSchemas.exportQuery), sessionController.exportReportText);
 
 export default router;
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import * as teachingCaseController from '../controllers/teachingCase.controller';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate';
+import { requirePermission } from '../middleware/auth';
+import { TeachingCaseSchemas, IdParamSchema } from '../validators';
+
+const router = Router();
+
+/**
+ * 教学病例库路由
+ * 教师维护病例并导入导出病例包；学生查看病例情景并由病例开始练习会话
+ */
+
+router.get('/', requirePermission('teachingCase:read'), validateQuery(TeachingCaseSchemas.listQuery), asyncHandler(teachingCaseController.listCases));
+router.post('/', requirePermission('teachingCase:write'), validateBody(TeachingCaseSchemas.create), asyncHandler(teachingCaseController.createCase));
+
+// 需放在 /:id 之前
+router.get('/export', requirePermission('teachingCase:write'), validateQuery(TeachingCaseSchemas.exportQuery), asyncHandler(teachingCaseController.exportCases));
+router.post('/import', requirePermission('teachingCase:write'), validateBody(TeachingCaseSchemas.import), asyncHandler(teachingCaseController.importCases));
+
+router.get('/:id', requirePermission('teachingCase:read'), validateParams(IdParamSchema), asyncHandler(teachingCaseController.getCase));
+router.patch(
+  '/:id',
+  requirePermission('teachingCase:write'),
+  validateParams(IdParamSchema),
+  validateBody(TeachingCaseSchemas.update),
+  asyncHandler(teachingCaseController.updateCase)
+);
+router.delete('/:id', requirePermission('teachingCase:write'), validateParams(IdParamSchema), asyncHandler(teachingCaseController.deleteCase));
+
+router.post('/:id/practice', requirePermission('session:create'), validateParams(IdParamSchema), asyncHandler(teachingCaseController.startPractice));
+
+export default router;
@@ -0,0 +1,275 @@
+/**
+ * 诊疗经过（episode of care）
+ * 将同一患者的首次入院记录与其后的病程记录/复诊会话归为一组；
+ * 复诊会话由上次就诊带入既往史、个人史与家族史，并保存带入时的快照以识别本次修改过的章节
+ */
+
+import { isDeepStrictEqual } from 'util';
+import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import { canAccessSession, type ReviewActor } from './sessionReview.service';
+import { chiefComplaintText, splitDiagnoses } from './patient.service';
+
+export type EpisodeActor = ReviewActor;
+
+export const VISIT_TYPES = ['initial', 'followup'] as const;
+export type VisitType = typeof VISIT_TYPES[number];
+
+// 复诊时由上次就诊带入的病史章节
+export const CARRY_FORWARD_SECTIONS = ['pastHistory', 'personalHistory', 'familyHistory'] as const;
+export type CarryForwardSection = typeof CARRY_FORWARD_SECTIONS[number];
+
+export const CARRY_FORWARD_LABELS: Record<CarryForwardSection, string> = {
+  pastHistory: '既往史',
+  personalHistory: '个人史',
+  familyHistory: '家族史',
+};
+
+/**
+ * 带入快照（保存在 InterviewSession.carriedForward）
+ */
+export interface CarriedForward {
+  fromSessionId: number;
+  carriedAt: string;
+  sections: Partial<Record<CarryForwardSection, Prisma.JsonValue>>;
+}
+
+// 各带入章节在本次就诊中是否被修改
+export type CarryForwardStatus = Partial<Record<CarryForwardSection, 'unchanged' | 'edited'>>;
+
+export interface EpisodeVisit {
+  sessionId: number;
+  visitType: string;
+  status: string;
+  createdAt: Date;
+  previousSessionId: number | null;
+  chiefComplaint: string | null;
+  carryForward: CarryForwardStatus;
+}
+
+/**
+ * 复诊报告中的间隔病史
+ */
+export interface IntervalHistory {
+  previousSessionId: number;
+  previousVisitAt: Date;
+  intervalDays: number;
+  previousChiefComplaint: string | null;
+  previousDiagnoses: string[];
+  carryForward: CarryForwardStatus;
+}
+
+type SectionValues = Partial<Record<CarryForwardSection, Prisma.JsonValue | null>>;
+
+const VISIT_SELECT = {
+  id: true,
+  visitType: true,
+  status: true,
+  createdAt: true,
+  previousSessionId: true,
+  doctorId: true,
+  reviewerId: true,
+  chiefComplaint: true,
+  pastHistory: true,
+  personalHistory: true,
+  familyHistory: true,
+  carriedForward: true,
+} satisfies Prisma.InterviewSessionSelect;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 由上次就诊生成复诊会话的带入数据与快照；上次为空的章节不带入
+ */
+export function buildCarryForward(
+  previous: { id: number } & SectionValues,
+  now: Date = new Date()
+): { data: Partial<Record<CarryForwardSection, Prisma.InputJsonValue>>; snapshot: CarriedForward } {
+  const data: Partial<Record<CarryForwardSection, Prisma.InputJsonValue>> = {};
+  for (const key of CARRY_FORWARD_SECTIONS) {
+    const value = previous[key];
+    if (value !== null && value !== undefined) {data[key] = value as Prisma.InputJsonValue;}
+  }
+  return {
+    data,
+    snapshot: { fromSessionId: previous.id, carriedAt: now.toISOString(), sections: data as CarriedForward['sections'] },
+  };
+}
+
+/**
+ * 比较当前病史与带入快照，得出各带入章节是否被修改；非复诊会话返回空对象
+ */
+export function carryForwardStatus(session: { carriedForward?: unknown } & SectionValues): CarryForwardStatus {
+  const snapshot = session.carriedForward as CarriedForward | null | undefined;
+  if (!snapshot || typeof snapshot !== 'object' || !snapshot.sections) {return {};}
+  const status: CarryForwardStatus = {};
+  for (const key of CARRY_FORWARD_SECTIONS) {
+    if (!(key in snapshot.sections)) {continue;}
+    status[key] = isDeepStrictEqual(snapshot.sections[key], session[key] ?? null) ? 'unchanged' : 'edited';
+  }
+  return status;
+}
+
+const toVisit = (session: Prisma.InterviewSessionGetPayload<{ select: typeof VISIT_SELECT }>): EpisodeVisit => ({
+  sessionId: session.id,
+  visitType: session.visitType,
+  status: session.status,
+  createdAt: session.createdAt,
+  previousSessionId: session.previousSessionId,
+  chiefComplaint: chiefComplaintText(session.chiefComplaint),
+  carryForward: carryForwardStatus(session),
+});
+
+const withVisits = <T extends { sessions: Prisma.InterviewSessionGetPayload<{ select: typeof VISIT_SELECT }>[] }>(
+  episode: T,
+  actor: EpisodeActor | undefined
+) => {
+  const { sessions, ...rest } = episode;
+  return { ...rest, visits: sessions.filter(s => canAccessSession(actor, s)).map(toVisit) };
+};
+
+const EPISODE_INCLUDE = {
+  sessions: { select: VISIT_SELECT, orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.CareEpisodeInclude;
+
+/**
+ * 患者的诊疗经过列表（含可访问的就诊）
+ */
+export const listEpisodes = async (patientId: number, actor?: EpisodeActor) => {
+  const episodes = await prisma.careEpisode.findMany({
+    where: { patientId },
+    include: EPISODE_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+  return episodes.map(e => withVisits(e, actor));
+};
+
+export const getEpisode = async (id: number, actor?: EpisodeActor) => {
+  const episode = await prisma.careEpisode.findUnique({ where: { id }, include: EPISODE_INCLUDE });
+  if (!episode) {throw ErrorTypes.NotFound('诊疗经过');}
+  return withVisits(episode, actor);
+};
+
+export const createEpisode = async (actor: EpisodeActor, input: { patientId: number; title: string }) => {
+  const patient = await prisma.patient.findUnique({ where: { id: input.patientId }, select: { id: true } });
+  if (!patient) {throw ErrorTypes.NotFound('患者');}
+  const episode = await prisma.careEpisode.create({
+    data: { patientId: input.patientId, title: input.title, createdBy: actor.operatorId > 0 ? actor.operatorId : null },
+  });
+  secureLogger.info('[CareEpisode] 创建诊疗经过', { episodeId: episode.id, patientId: input.patientId });
+  return episode;
+};
+
+/**
+ * 修改名称或结束/重新开启诊疗经过
+ */
+export const updateEpisode = async (
+  id: number,
+  input: { title?: string; status?: 'open' | 'closed' },
+  now: Date = new Date()
+) => {
+  const data: Prisma.CareEpisodeUpdateInput = { title: input.title };
+  if (input.status) {
+    data.status = input.status;
+    data.closedAt = input.status === 'closed' ? now : null;
+  }
+  try {
+    return await prisma.careEpisode.update({ where: { id }, data });
+  } catch (error) {
+    const err = error as { code?: string };
+    if (err?.code === 'P2025') {throw ErrorTypes.NotFound('诊疗经过');}
+    throw error;
+  }
+};
+
+/**
+ * 由上次就诊继续：在上次就诊所属的诊疗经过中创建复诊会话并带入病史。
+ * 上次就诊尚未归入诊疗经过时，新建诊疗经过并将其作为首次就诊
+ */
+export const startFollowUp = async (
+  actor: EpisodeActor,
+  input: { previousSessionId: number; title?: string },
+  now: Date = new Date()
+): Promise<{ sessionId: number; episodeId: number }> => {
+  const previous = await prisma.interviewSession.findUnique({
+    where: { id: input.previousSessionId },
+    select: {
+      id: true,
+      patientId: true,
+      doctorId: true,
+      reviewerId: true,
+      chiefComplaint: true,
+      pastHistory: true,
+      personalHistory: true,
+      familyHistory: true,
+      episode: { select: { id: true, status: true } },
+    },
+  });
+  if (!previous) {throw ErrorTypes.NotFound('会话');}
+  if (!canAccessSession(actor, previous)) {throw ErrorTypes.Forbidden('无权访问该会话');}
+  if (previous.episode?.status === 'closed') {throw ErrorTypes.Conflict('该诊疗经过已结束，请重新开启后再继续');}
+
+  const { data, snapshot } = buildCarryForward(previous, now);
+  const result = await prisma.$transaction(async (tx) => {
+    let episodeId = previous.episode?.id;
+    if (!episodeId) {
+      const episode = await tx.careEpisode.create({
+        data: {
+          patientId: previous.patientId,
+          title: input.title || chiefComplaintText(previous.chiefComplaint) || '诊疗经过',
+          createdBy: actor.operatorId > 0 ? actor.operatorId : null,
+        },
+      });
+      episodeId = episode.id;
+      await tx.interviewSession.update({ where: { id: previous.id }, data: { episodeId } });
+    }
+    const session = await tx.interviewSession.create({
+      data: {
+        patientId: previous.patientId,
+        doctorId: actor.operatorId > 0 ? actor.operatorId : null,
+        episodeId,
+        visitType: 'followup',
+        previousSessionId: previous.id,
+        status: 'draft',
+        generalInfo: { recordTime: now.toISOString() },
+        ...data,
+        carriedForward: snapshot as unknown as Prisma.InputJsonValue,
+      },
+      select: { id: true },
+    });
+    return { sessionId: session.id, episodeId };
+  });
+
+  secureLogger.info('[CareEpisode] 由上次就诊开始复诊', {
+    previousSessionId: previous.id,
+    sessionId: result.sessionId,
+    episodeId: result.episodeId,
+    operatorId: actor.operatorId,
+  });
+  return result;
+};
+
+/**
+ * 复诊会话的间隔病史（上次就诊时间、主诉与诊断及带入病史的变化）；非复诊会话返回 null
+ */
+export const getIntervalHistory = async (
+  session: { createdAt: Date; visitType?: string | null; previousSessionId?: number | null; carriedForward?: unknown } & SectionValues
+): Promise<IntervalHistory | null> => {
+  if (session.visitType !== 'followup' || !session.previousSessionId) {return null;}
+  const previous = await prisma.interviewSession.findUnique({
+    where: { id: session.previousSessionId },
+    select: { id: true, createdAt: true, chiefComplaint: true, presentIllness: true },
+  });
+  if (!previous) {return null;}
+  const presentIllness = previous.presentIllness as { admissionDiagnosis?: unknown } | null;
+  return {
+    previousSessionId: previous.id,
+    previousVisitAt: previous.createdAt,
+    intervalDays: Math.max(0, Math.round((session.createdAt.getTime() - previous.createdAt.getTime()) / DAY_MS)),
+    previousChiefComplaint: chiefComplaintText(previous.chiefComplaint),
+    previousDiagnoses: splitDiagnoses(presentIllness && typeof presentIllness === 'object' ? presentIllness.admissionDiagnosis : undefined),
+    carryForward: carryForwardStatus(session),
+  };
+};
@@ -2,6 +2,24 @@ export type DurationUnit = '分钟' | '小时' | '天' | '周' | '月' | '年';
 
 export type DurationValue = number | { min: number; max: number };
 
+/**
+ * 病程分段角色：primary 为主要病程，exacerbation 为加重/再发，concurrent 为并列出现的其他症状
+ */
+export type EpisodeRole = 'primary' | 'exacerbation' | 'concurrent';
+
+/**
+ * 主诉中的单个“症状-时长”病程段，如“反复咳嗽10年，加重伴气促3天”拆为两段
+ */
+export interface ChiefComplaintEpisode {
+  role: EpisodeRole;
+  segment_text: string;
+  complaint_text: string;
+  duration_value: DurationValue | null;
+  duration_unit: DurationUnit | null;
+  duration_raw: string | null;
+  recurrent: boolean;
+}
+
 export interface ChiefComplaintParseResult {
   complaint_text: string;
   duration_value: DurationValue | null;
@@ -10,6 +28,7 @@ export interface ChiefComplaintParseResult {
   normalized_text: string;
   confidence: number;
   failure_reason: string | null;
+  episodes: ChiefComplaintEpisode[];
 }
 
 type UnitMatch = {
@@ -311,6 +330,72 @@ function chooseBestCandidate(candidates: DurationCandidate[]) {
   return best;
 }
 
+const EXACERBATION_PATTERN = /加重|加剧|恶化|再发|复发|反复发作/u;
+const RECURRENT_PATTERN = /反复|间断|再发|复发/u;
+
+/**
+ * 按分句拆分主诉并识别每段的症状与时长
+ * 无时长的分句并入下一段（如“胸痛，伴出汗3小时”），末尾的无时长分句并入上一段（如“腹痛3天，伴恶心”）；
+ * 加重段未提及新症状时沿用上一段症状
+ */
+export function parseChiefComplaintEpisodes(
+  inputText: string,
+  options?: { synonyms?: Record<string, string>; knownSymptoms?: string[] }
+): ChiefComplaintEpisode[] {
+  const raw = normalizeText(inputText);
+  if (!raw) {return [];}
+
+  const segments = raw.split(/[，,；;。]/u).map(seg => seg.trim()).filter(Boolean);
+  const episodes: ChiefComplaintEpisode[] = [];
+  let pending = '';
+
+  const pushEpisode = (segment: string, candidate: DurationCandidate | null) => {
+    const isExacerbation = episodes.length > 0 && EXACERBATION_PATTERN.test(segment);
+    const body = candidate ? removeDurationSpan(segment, candidate) : segment;
+    const symptomText = isExacerbation
+      ? body.replace(EXACERBATION_PATTERN, '').replace(/^[\s再又]*/u, '').replace(/^(伴有|伴)/u, '').trim()
+      : body;
+    const extracted = symptomText ? extractCoreSymptom(symptomText, options) : '';
+    const previous = episodes[episodes.length - 1];
+
+    episodes.push({
+      role: episodes.length === 0 ? 'primary' : isExacerbation ? 'exacerbation' : 'concurrent',
+      segment_text: segment,
+      complaint_text: extracted || (isExacerbation && previous ? previous.complaint_text : ''),
+      duration_value: candidate?.value ?? null,
+      duration_unit: candidate?.unit ?? null,
+      duration_raw: candidate?.raw ?? null,
+      recurrent: RECURRENT_PATTERN.test(segment),
+    });
+  };
+
+  for (const seg of segments) {
+    const segment = pending ? `${pending}，${seg}` : seg;
+    const candidates = buildDurationCandidates(seg);
+    if (candidates.length === 0) {
+      pending = segment;
+      continue;
+    }
+    // 同一分句内多个时长时取最靠后者（紧邻症状描述的病程）
+    const last = candidates.reduce((a, b) => (b.start > a.start ? b : a));
+    const offset = segment.length - seg.length;
+    pushEpisode(segment, { ...last, start: last.start + offset, end: last.end + offset });
+    pending = '';
+  }
+
+  if (pending) {
+    const previous = episodes[episodes.length - 1];
+    if (previous) {
+      previous.segment_text = `${previous.segment_text}，${pending}`;
+      previous.recurrent = previous.recurrent || RECURRENT_PATTERN.test(pending);
+    } else {
+      pushEpisode(pending, null);
+    }
+  }
+
+  return episodes;
+}
+
 export function parseChiefComplaintText(
   inputText: string,
   options?: { synonyms?: Record<string, string>; knownSymptoms?: string[] }
@@ -325,11 +410,13 @@ export function parseChiefComplaintText(
       normalized_text: '',
       confidence: 0,
       failure_reason: '空文本',
+      episodes: [],
     };
   }
 
   const candidates = buildDurationCandidates(raw);
   const best = chooseBestCandidate(candidates);
+  const episodes = parseChiefComplaintEpisodes(raw, options);
 
   if (!best) {
     const complaint = extractCoreSymptom(raw, { synonyms: options?.synonyms, knownSymptoms: options?.knownSymptoms });
@@ -342,6 +429,7 @@ export function parseChiefComplaintText(
       normalized_text: complaint,
       confidence: clamp01(confidence),
       failure_reason: '未识别到持续时间',
+      episodes,
     };
   }
 
@@ -367,6 +455,7 @@ export function parseChiefComplaintText(
     normalized_text: normalized,
     confidence: clamp01(confidence),
     failure_reason: complaint ? null : '主诉核心描述为空',
+    episodes,
   };
 }
 
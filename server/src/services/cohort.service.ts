@@ -0,0 +1,328 @@
+/**
+ * 班级与病例任务
+ * 教师创建班级、维护学生名单，并向班级布置病例任务（患者情景 + 预期采集要点，含截止时间）；
+ * 学生按任务创建问诊会话，预期要点对学生不可见
+ */
+
+import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes, rethrowPrismaError } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import type { OperatorIdentity } from '../middleware/auth';
+
+export type CohortActor = Pick<OperatorIdentity, 'operatorId' | 'role'>;
+
+export interface CaseScenario {
+  patientName?: string;
+  gender?: '男' | '女';
+  age?: number;
+  chiefComplaint: string;
+  background?: string;
+}
+
+export interface AssignmentInput {
+  title: string;
+  scenario: CaseScenario;
+  expectedFindings: string[];
+  dueAt: string;
+  referenceSessionId?: number;
+}
+
+export type AssignmentUpdateInput = Partial<Omit<AssignmentInput, 'referenceSessionId'>> & {
+  referenceSessionId?: number | null;
+};
+
+export interface MyAssignment {
+  id: number;
+  title: string;
+  cohort: { id: number; name: string };
+  scenario: Prisma.JsonValue;
+  dueAt: Date;
+  overdue: boolean;
+  // 最近一次按该任务创建的会话，未开始时为 null
+  session: { id: number; status: string; gradeScore: number | null; updatedAt: Date } | null;
+}
+
+// 视为已交付的会话状态
+const DELIVERED_STATUSES: readonly string[] = ['completed', 'submitted', 'approved', 'archived'];
+
+const PRISMA_ERROR_MESSAGES = { notFound: '班级或任务' };
+
+/**
+ * 班级由其带教教师管理（管理员可管理全部）
+ */
+const assertCohortManager = (actor: CohortActor, cohort: { teacherId: number }): void => {
+  if (actor.role === 'admin') {return;}
+  if (actor.role !== 'teacher' || cohort.teacherId !== actor.operatorId) {
+    throw ErrorTypes.Forbidden('只能管理自己的班级');
+  }
+};
+
+const getCohortOrThrow = async (cohortId: number) => {
+  const cohort = await prisma.cohort.findUnique({ where: { id: cohortId }, select: { id: true, teacherId: true } });
+  if (!cohort) {throw ErrorTypes.NotFound('班级');}
+  return cohort;
+};
+
+const getAssignmentOrThrow = async (assignmentId: number) => {
+  const assignment = await prisma.caseAssignment.findUnique({
+    where: { id: assignmentId },
+    include: { cohort: { select: { id: true, name: true, teacherId: true } } },
+  });
+  if (!assignment) {throw ErrorTypes.NotFound('任务');}
+  return assignment;
+};
+
+const isEnrolled = async (cohortId: number, studentId: number): Promise<boolean> => {
+  const enrollment = await prisma.cohortEnrollment.findUnique({
+    where: { cohortId_studentId: { cohortId, studentId } },
+    select: { id: true },
+  });
+  return Boolean(enrollment);
+};
+
+/**
+ * 参考病历须存在，且由布置任务的教师本人编写（管理员不限）
+ */
+const assertReferenceSession = async (sessionId: number, actor: CohortActor): Promise<void> => {
+  const session = await prisma.interviewSession.findUnique({ where: { id: sessionId }, select: { doctorId: true } });
+  if (!session) {throw ErrorTypes.NotFound('参考病历');}
+  if (actor.role !== 'admin' && session.doctorId !== actor.operatorId) {
+    throw ErrorTypes.Forbidden('只能使用自己编写的病历作为参考病历');
+  }
+};
+
+/**
+ * 班级列表：教师为自己的班级，管理员为全部
+ */
+export const listCohorts = async (actor: CohortActor) => {
+  return await prisma.cohort.findMany({
+    where: actor.role === 'admin' ? {} : { teacherId: actor.operatorId },
+    include: { _count: { select: { enrollments: true, assignments: true } } },
+    orderBy: { createdAt: 'desc' },
+  });
+};
+
+/**
+ * 班级详情（含学生名单与任务）
+ */
+export const getCohort = async (cohortId: number, actor: CohortActor) => {
+  assertCohortManager(actor, await getCohortOrThrow(cohortId));
+  const cohort = await prisma.cohort.findUnique({
+    where: { id: cohortId },
+    include: {
+      enrollments: { orderBy: { enrolledAt: 'asc' } },
+      assignments: { orderBy: { dueAt: 'asc' } },
+    },
+  });
+  if (!cohort) {throw ErrorTypes.NotFound('班级');}
+
+  const students = await prisma.operator.findMany({
+    where: { id: { in: cohort.enrollments.map(e => e.studentId) } },
+    select: { id: true, name: true, username: true },
+  });
+  const byId = new Map(students.map(s => [s.id, s]));
+  return {
+    ...cohort,
+    enrollments: cohort.enrollments.map(e => ({ ...e, student: byId.get(e.studentId) ?? null })),
+  };
+};
+
+/**
+ * 创建班级：教师为自己创建；管理员须指定带教教师
+ */
+export const createCohort = async (
+  actor: CohortActor,
+  input: { name: string; description?: string; teacherId?: number }
+) => {
+  let teacherId = actor.operatorId;
+  if (actor.role === 'admin') {
+    if (!input.teacherId) {throw ErrorTypes.BadRequest('请指定带教教师');}
+    const teacher = await prisma.operator.findUnique({ where: { id: input.teacherId }, select: { role: true } });
+    if (teacher?.role !== 'teacher') {throw ErrorTypes.BadRequest('请选择有效的带教教师');}
+    teacherId = input.teacherId;
+  }
+  const cohort = await prisma.cohort.create({
+    data: { name: input.name, description: input.description, teacherId },
+  });
+  secureLogger.info('[Cohort] 班级已创建', { cohortId: cohort.id, teacherId });
+  return cohort;
+};
+
+export const updateCohort = async (
+  cohortId: number,
+  actor: CohortActor,
+  input: { name?: string; description?: string | null }
+) => {
+  assertCohortManager(actor, await getCohortOrThrow(cohortId));
+  try {
+    return await prisma.cohort.update({ where: { id: cohortId }, data: input });
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 删除班级（名单与任务级联删除，已创建的会话保留并解除任务关联）
+ */
+export const deleteCohort = async (cohortId: number, actor: CohortActor): Promise<void> => {
+  assertCohortManager(actor, await getCohortOrThrow(cohortId));
+  try {
+    await prisma.cohort.delete({ where: { id: cohortId } });
+  } catch (error) {
+    rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+  secureLogger.info('[Cohort] 班级已删除', { cohortId, operatorId: actor.operatorId });
+};
+
+/**
+ * 批量加入学生；已在班级中的学生忽略
+ */
+export const enrollStudents = async (
+  cohortId: number,
+  actor: CohortActor,
+  studentIds: number[]
+): Promise<{ enrolled: number }> => {
+  assertCohortManager(actor, await getCohortOrThrow(cohortId));
+  const unique = Array.from(new Set(studentIds));
+  const students = await prisma.operator.findMany({
+    where: { id: { in: unique }, role: 'student' },
+    select: { id: true },
+  });
+  const found = new Set(students.map(s => s.id));
+  const invalid = unique.filter(id => !found.has(id));
+  if (invalid.length > 0) {
+    throw ErrorTypes.ValidationError(`以下用户不存在或不是学生: ${invalid.join(', ')}`);
+  }
+
+  const result = await prisma.cohortEnrollment.createMany({
+    data: unique.map(studentId => ({ cohortId, studentId })),
+    skipDuplicates: true,
+  });
+  return { enrolled: result.count };
+};
+
+export const removeStudent = async (cohortId: number, actor: CohortActor, studentId: number): Promise<void> => {
+  assertCohortManager(actor, await getCohortOrThrow(cohortId));
+  const result = await prisma.cohortEnrollment.deleteMany({ where: { cohortId, studentId } });
+  if (result.count === 0) {throw ErrorTypes.NotFound('班级学生');}
+};
+
+/**
+ * 向班级布置病例任务
+ */
+export const createAssignment = async (cohortId: number, actor: CohortActor, input: AssignmentInput) => {
+  assertCohortManager(actor, await getCohortOrThrow(cohortId));
+  if (input.referenceSessionId) {await assertReferenceSession(input.referenceSessionId, actor);}
+  const assignment = await prisma.caseAssignment.create({
+    data: {
+      cohortId,
+      title: input.title,
+      scenario: input.scenario as unknown as Prisma.InputJsonValue,
+      expectedFindings: input.expectedFindings,
+      dueAt: new Date(input.dueAt),
+      referenceSessionId: input.referenceSessionId,
+      createdBy: actor.operatorId,
+    },
+  });
+  secureLogger.info('[Cohort] 病例任务已布置', { cohortId, assignmentId: assignment.id });
+  return assignment;
+};
+
+export const updateAssignment = async (assignmentId: number, actor: CohortActor, input: AssignmentUpdateInput) => {
+  const assignment = await getAssignmentOrThrow(assignmentId);
+  assertCohortManager(actor, assignment.cohort);
+  const data: Prisma.CaseAssignmentUpdateInput = {};
+  if (input.title !== undefined) {data.title = input.title;}
+  if (input.scenario !== undefined) {data.scenario = input.scenario as unknown as Prisma.InputJsonValue;}
+  if (input.expectedFindings !== undefined) {data.expectedFindings = input.expectedFindings;}
+  if (input.dueAt !== undefined) {data.dueAt = new Date(input.dueAt);}
+  if (input.referenceSessionId) {await assertReferenceSession(input.referenceSessionId, actor);}
+  if (input.referenceSessionId !== undefined) {data.referenceSessionId = input.referenceSessionId;}
+  try {
+    return await prisma.caseAssignment.update({ where: { id: assignmentId }, data });
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+export const deleteAssignment = async (assignmentId: number, actor: CohortActor): Promise<void> => {
+  const assignment = await getAssignmentOrThrow(assignmentId);
+  assertCohortManager(actor, assignment.cohort);
+  try {
+    await prisma.caseAssignment.delete({ where: { id: assignmentId } });
+  } catch (error) {
+    rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 任务详情：教师可见预期要点与全部学生会话；学生仅见情景与自己的会话
+ */
+export const getAssignment = async (assignmentId: number, actor: CohortActor) => {
+  const assignment = await getAssignmentOrThrow(assignmentId);
+
+  if (actor.role === 'student') {
+    if (!(await isEnrolled(assignment.cohortId, actor.operatorId))) {
+      throw ErrorTypes.Forbidden('未加入该任务所属班级');
+    }
+    const sessions = await prisma.interviewSession.findMany({
+      where: { assignmentId, doctorId: actor.operatorId },
+      select: { id: true, status: true, createdAt: true, updatedAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+    const { expectedFindings: _findings, referenceSessionId: _reference, ...visible } = assignment;
+    return { ...visible, sessions };
+  }
+
+  assertCohortManager(actor, assignment.cohort);
+  const sessions = await prisma.interviewSession.findMany({
+    where: { assignmentId },
+    select: { id: true, status: true, doctorId: true, submittedAt: true, createdAt: true, updatedAt: true },
+    orderBy: { createdAt: 'desc' },
+  });
+  return { ...assignment, sessions };
+};
+
+/**
+ * 学生的任务列表（按截止时间升序），附最近一次会话进度
+ */
+export const listMyAssignments = async (studentId: number, now: Date = new Date()): Promise<MyAssignment[]> => {
+  const assignments = await prisma.caseAssignment.findMany({
+    where: { cohort: { enrollments: { some: { studentId } } } },
+    select: {
+      id: true,
+      title: true,
+      scenario: true,
+      dueAt: true,
+      cohort: { select: { id: true, name: true } },
+      sessions: {
+        where: { doctorId: studentId },
+        select: { id: true, status: true, gradeScore: true, updatedAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+    },
+    orderBy: { dueAt: 'asc' },
+  });
+
+  return assignments.map(({ sessions, ...a }) => {
+    const session = sessions[0] ?? null;
+    const delivered = session !== null && DELIVERED_STATUSES.includes(session.status);
+    return { ...a, session, overdue: !delivered && a.dueAt.getTime() < now.getTime() };
+  });
+};
+
+/**
+ * 按任务创建会话前的校验：学生须在任务所属班级中，教师须为班级带教教师
+ */
+export const assertCanStartAssignment = async (assignmentId: number, actor: CohortActor): Promise<void> => {
+  const assignment = await getAssignmentOrThrow(assignmentId);
+  if (actor.role === 'student') {
+    if (!(await isEnrolled(assignment.cohortId, actor.operatorId))) {
+      throw ErrorTypes.Forbidden('未加入该任务所属班级');
+    }
+    return;
+  }
+  assertCohortManager(actor, assignment.cohort);
+};
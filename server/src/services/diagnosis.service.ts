@@ -1,17 +1,10 @@
 import prisma from '../prisma';
 import { secureLogger } from '../utils/secureLogger';
-
-/**
- * 诊断置信度计算参数
- */
-interface ConfidenceParams {
-  diagnosisId: number;
-  matchedSymptoms: number;
-  totalSymptoms: number;
-  matchedRedFlags: number;
-  patientAge?: number;
-  patientGender?: string;
-}
+import { ErrorTypes } from '../middleware/errorHandler';
+import * as sessionService from './session.service';
+import { canAccessSession, type ReviewActor } from './sessionReview.service';
+import { scoreDiagnoses, scoreDiagnosis, type EvidenceContribution, type ScoringFindings } from './diagnosisScoring';
+import { collectSessionFindings, type AdditionalFindings, type SessionFindings } from './sessionFindings';
 
 /**
  * 诊断建议结果
@@ -27,6 +20,20 @@ interface DiagnosisSuggestion {
   missingSymptoms: string[];
   redFlags: string[];
   recommendation: string;
+  explanation: EvidenceContribution[];
+}
+
+/**
+ * 单个诊断的置信度明细
+ */
+interface ConfidenceDetail {
+  diagnosis: string;
+  confidence: number;
+  supportingEvidence: string[];
+  conflictingEvidence: string[];
+  missingEvidence: string[];
+  redFlags: string[];
+  recommendation: string;
 }
 
 /**
@@ -77,130 +84,55 @@ export const getDiagnosesBySymptoms = async (symptomKeys: string[]) => {
 };
 
 /**
- * 计算诊断置信度
- * @param params 置信度计算参数
- * @returns 置信度分数 (0-1)
+ * 统一的诊断建议响应
  */
-export const calculateConfidence = (params: ConfidenceParams): number => {
-  const {
-    matchedSymptoms,
-    totalSymptoms,
-    matchedRedFlags,
-    patientAge,
-    patientGender,
-  } = params;
-
-  // 基础置信度
-  let confidence = 0.5;
-
-  // 症状匹配度计算 - 匹配的症状越多，置信度越高
-  if (totalSymptoms > 0) {
-    const symptomRatio = matchedSymptoms / totalSymptoms;
-    confidence += symptomRatio * 0.3;
-  }
-
-  // 警惕征象影响 - 每个匹配的警惕征象增加置信度
-  confidence += matchedRedFlags * 0.1;
-
-  // 年龄因素验证（如果提供了年龄）
-  if (patientAge !== undefined) {
-    // 这里可以添加更复杂的年龄匹配逻辑
-    // 暂时保持基础计算
-  }
-
-  // 性别因素验证（如果提供了性别）
-  if (patientGender) {
-    // 这里可以添加性别匹配逻辑
-  }
-
-  // 确保置信度在合理范围内
-  return Math.min(Math.max(confidence, 0), 0.95);
-};
+export interface DiagnosisSuggestionResult {
+  diagnoses: DiagnosisSuggestion[];
+  confidenceDetails: ConfidenceDetail[];
+  symptomAssociations: SymptomAssociation[];
+  findings: Omit<SessionFindings, 'evidence'> & { evidence?: SessionFindings['evidence'] };
+  /** 未列出诊断所占的剩余概率 */
+  residual: number;
+}
 
 /**
  * 生成诊断建议
- * @param sessionId 会话ID
- * @param currentSymptom 当前主要症状
- * @param associatedSymptoms 伴随症状列表
- * @param redFlags 警惕征象列表
- * @param patientAge 患者年龄
- * @param patientGender 患者性别
- * @returns 诊断建议列表和症状关联数据
+ * @param findings 已归一为症状 key 的临床发现
+ * @returns 诊断建议、置信度明细与症状关联数据
  */
 export const generateDiagnosisSuggestions = async (
-  sessionId: number,
-  currentSymptom: string,
-  associatedSymptoms: string[] = [],
-  redFlags: string[] = [],
-  patientAge?: number,
-  patientGender?: string
-): Promise<{
-  diagnoses: DiagnosisSuggestion[];
-  symptomAssociations: SymptomAssociation[];
-}> => {
-  // 合并所有症状
-  const allSymptoms = [currentSymptom, ...associatedSymptoms].filter(Boolean);
+  findings: ScoringFindings & { evidence?: SessionFindings['evidence'] }
+): Promise<DiagnosisSuggestionResult> => {
+  const allSymptoms = findings.presentSymptoms.filter(Boolean);
+  const summary = {
+    presentSymptoms: allSymptoms,
+    absentSymptoms: findings.absentSymptoms || [],
+    redFlags: findings.redFlags || [],
+    patientAge: findings.patientAge,
+    patientGender: findings.patientGender,
+    evidence: findings.evidence,
+  };
 
   if (allSymptoms.length === 0) {
-    return { diagnoses: [], symptomAssociations: [] };
+    return { diagnoses: [], confidenceDetails: [], symptomAssociations: [], findings: summary, residual: 1 };
   }
 
   // 从数据库获取相关诊断
   const diagnoses = await getDiagnosesBySymptoms(allSymptoms);
 
-  // 计算每个诊断的置信度
-  const suggestions: DiagnosisSuggestion[] = diagnoses.map((diagnosis) => {
-    // 获取该诊断关联的所有症状key
-    const diagnosisSymptomKeys = diagnosis.symptoms
-      .filter((s) => !s.isExcluding)
-      .map((s) => s.symptomKey);
-
-    // 计算匹配的症状
-    const matchedSymptoms = allSymptoms.filter((s) =>
-      diagnosisSymptomKeys.includes(s)
-    );
-
-    // 计算排除症状（有此症状应降低该诊断可能性）
-    const excludingSymptoms = diagnosis.symptoms
-      .filter((s) => s.isExcluding)
-      .map((s) => s.symptomKey);
-    const matchedExcluding = allSymptoms.filter((s) =>
-      excludingSymptoms.includes(s)
-    );
-
-    // 计算缺失的症状（该诊断应有但未提供的症状）
-    const missingSymptoms = diagnosisSymptomKeys.filter(
-      (s) => !allSymptoms.includes(s)
-    );
+  // 以似然比模型计算后验分数
+  const { scores, residual } = scoreDiagnoses(diagnoses, { ...summary, presentSymptoms: allSymptoms });
+  const byId = new Map(diagnoses.map((d) => [d.id, d]));
 
-    // 计算匹配的警惕征象
-    const matchedRedFlags = diagnosis.redFlags.filter((rf) =>
-      redFlags.includes(rf.redFlagName)
-    );
-
-    // 计算置信度
-    let confidence = calculateConfidence({
-      diagnosisId: diagnosis.id,
-      matchedSymptoms: matchedSymptoms.length,
-      totalSymptoms: diagnosisSymptomKeys.length,
-      matchedRedFlags: matchedRedFlags.length,
-      patientAge,
-      patientGender,
-    });
-
-    // 如果有排除症状，降低置信度
-    if (matchedExcluding.length > 0) {
-      confidence -= matchedExcluding.length * 0.15;
-    }
-
-    // 确保置信度在合理范围
-    confidence = Math.max(0.1, Math.min(0.95, confidence));
+  const suggestions: DiagnosisSuggestion[] = scores.map((score) => {
+    const diagnosis = byId.get(score.diagnosisId)!;
+    const confidence = score.posterior;
 
     // 生成推荐建议
     let recommendation: string;
-    if (confidence > 0.7) {
+    if (confidence > 0.5) {
       recommendation = '高度怀疑，建议进一步检查确认';
-    } else if (confidence > 0.4) {
+    } else if (confidence > 0.2) {
       recommendation = '可能性存在，需结合其他检查';
     } else {
       recommendation = '证据不足，需继续观察或排除其他诊断';
@@ -212,17 +144,15 @@ export const generateDiagnosisSuggestions = async (
       description: diagnosis.description,
       category: diagnosis.category,
       confidence,
-      supportingSymptoms: matchedSymptoms,
-      excludingSymptoms: matchedExcluding,
-      missingSymptoms,
-      redFlags: matchedRedFlags.map((rf) => rf.redFlagName),
+      supportingSymptoms: score.supportingSymptoms,
+      excludingSymptoms: score.excludingSymptoms,
+      missingSymptoms: score.missingSymptoms,
+      redFlags: score.redFlags,
       recommendation,
+      explanation: score.contributions,
     };
   });
 
-  // 按置信度排序
-  suggestions.sort((a, b) => b.confidence - a.confidence);
-
   // 生成症状关联数据
   const symptomAssociations: SymptomAssociation[] = allSymptoms.map(
     (symptom) => {
@@ -255,17 +185,49 @@ export const generateDiagnosisSuggestions = async (
 
   return {
     diagnoses: suggestions,
+    confidenceDetails: suggestions.map((d) => ({
+      diagnosis: d.name,
+      confidence: d.confidence,
+      supportingEvidence: d.supportingSymptoms,
+      conflictingEvidence: d.excludingSymptoms,
+      missingEvidence: d.missingSymptoms,
+      redFlags: d.redFlags,
+      recommendation: d.recommendation,
+    })),
     symptomAssociations,
+    findings: summary,
+    residual,
   };
 };
 
 /**
- * 获取诊断置信度详情
+ * 基于整份会话（主诉、现病史、系统回顾、生命体征、患者信息）生成诊断建议
+ * additional 中的症状与警惕征象与会话数据合并，年龄性别优先于患者档案；
+ * 传入 actor 时按会话访问规则校验权限
+ */
+export const suggestDiagnosesForSession = async (
+  sessionId: number,
+  additional: AdditionalFindings = {},
+  actor?: ReviewActor
+): Promise<DiagnosisSuggestionResult> => {
+  const session = await sessionService.getSessionById(sessionId);
+  if (!session) {
+    throw ErrorTypes.NotFound('会话');
+  }
+  if (!canAccessSession(actor, session)) {
+    throw ErrorTypes.Forbidden('无权访问该会话');
+  }
+  return generateDiagnosisSuggestions(collectSessionFindings(session, additional));
+};
+
+/**
+ * 获取诊断置信度详情（单个诊断的证据贡献明细）
  */
 export const getConfidenceDetails = async (
   diagnosisId: number,
   symptoms: string[],
-  redFlags: string[]
+  redFlags: string[],
+  patient: { age?: number; gender?: string; absentSymptoms?: string[] } = {}
 ) => {
   const diagnosis = await prisma.diagnosis.findUnique({
     where: { id: diagnosisId },
@@ -277,33 +239,27 @@ export const getConfidenceDetails = async (
 
   if (!diagnosis) {return null;}
 
-  const diagnosisSymptoms = diagnosis.symptoms.filter((s) => !s.isExcluding);
-  const supportingEvidence = symptoms.filter((s) =>
-    diagnosisSymptoms.some((ds) => ds.symptomKey === s)
-  );
-
-  const excludingSymptoms = diagnosis.symptoms.filter((s) => s.isExcluding);
-  const conflictingEvidence = symptoms.filter((s) =>
-    excludingSymptoms.some((ds) => ds.symptomKey === s)
-  );
-
-  const missingEvidence = diagnosisSymptoms
-    .filter((s) => !symptoms.includes(s.symptomKey))
-    .map((s) => s.symptomKey);
-
-  const matchedRedFlags = diagnosis.redFlags.filter((rf) =>
-    redFlags.includes(rf.redFlagName)
-  );
+  const score = scoreDiagnosis(diagnosis, {
+    presentSymptoms: symptoms,
+    absentSymptoms: patient.absentSymptoms,
+    redFlags,
+    patientAge: patient.age,
+    patientGender: patient.gender,
+  });
 
   return {
     diagnosis: diagnosis.name,
-    supportingEvidence,
-    conflictingEvidence,
-    missingEvidence,
-    redFlags: matchedRedFlags.map((rf) => ({
-      name: rf.redFlagName,
-      severity: rf.severityLevel,
-    })),
+    supportingEvidence: score.supportingSymptoms,
+    conflictingEvidence: score.excludingSymptoms,
+    missingEvidence: score.missingSymptoms,
+    redFlags: diagnosis.redFlags
+      .filter((rf) => score.redFlags.includes(rf.redFlagName))
+      .map((rf) => ({
+        name: rf.redFlagName,
+        severity: rf.severityLevel,
+      })),
+    logScore: score.logScore,
+    contributions: score.contributions,
   };
 };
 
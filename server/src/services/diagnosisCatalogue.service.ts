@@ -0,0 +1,440 @@
+/**
+ * 诊断目录管理
+ * 维护鉴别诊断引擎使用的诊断、症状关联（权重/必需/排除）与警惕征象（权重/严重度），
+ * 支持 JSON / CSV 批量导入；所有症状 key 必须能对应到症状知识库条目
+ */
+
+import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes, rethrowPrismaError } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import { DiagnosisSchemas } from '../validators';
+import { SYMPTOM_KEY_ALIASES } from './mapping.service';
+
+export interface DiagnosisSymptomInput {
+  symptomKey: string;
+  weight: number;
+  isRequired: boolean;
+  isExcluding: boolean;
+}
+
+export interface DiagnosisRedFlagInput {
+  redFlagName: string;
+  weight: number;
+  severityLevel: number;
+}
+
+export interface DiagnosisInput {
+  name: string;
+  description?: string | null;
+  category?: string | null;
+  minAge?: number | null;
+  maxAge?: number | null;
+  genderPreference?: 'male' | 'female' | null;
+  priority?: number;
+  isActive?: boolean;
+  symptoms: DiagnosisSymptomInput[];
+  redFlags: DiagnosisRedFlagInput[];
+}
+
+export type DiagnosisUpdateInput = Partial<Omit<DiagnosisInput, 'symptoms' | 'redFlags'>> & {
+  symptoms?: DiagnosisSymptomInput[];
+  redFlags?: DiagnosisRedFlagInput[];
+};
+
+export interface DiagnosisImportResult {
+  total: number;
+  created: string[];
+  updated: string[];
+  dryRun: boolean;
+}
+
+const DIAGNOSIS_INCLUDE = {
+  symptoms: { orderBy: { weight: 'desc' } },
+  redFlags: { orderBy: { severityLevel: 'desc' } },
+} satisfies Prisma.DiagnosisInclude;
+
+export type DiagnosisWithRelations = Prisma.DiagnosisGetPayload<{ include: typeof DIAGNOSIS_INCLUDE }>;
+
+type Tx = Prisma.TransactionClient;
+
+// 批量导入在单个事务中逐条写入，放宽默认 5 秒的交互式事务超时
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60_000;
+
+const PRISMA_ERROR_MESSAGES = { notFound: '诊断', conflict: '诊断名称已存在' };
+
+/**
+ * 校验症状 key 均存在于症状知识库（允许 cough → cough_and_expectoration 等拆分 key）
+ */
+export const assertKnownSymptomKeys = async (keys: string[]): Promise<void> => {
+  const unique = Array.from(new Set(keys));
+  if (unique.length === 0) {return;}
+  const candidates = Array.from(new Set(unique.flatMap(k => [k, SYMPTOM_KEY_ALIASES[k]].filter(Boolean) as string[])));
+  const rows = await prisma.symptomKnowledge.findMany({
+    where: { symptomKey: { in: candidates } },
+    select: { symptomKey: true },
+  });
+  const known = new Set(rows.map(r => r.symptomKey));
+  const unknown = unique.filter(k => !known.has(k) && !known.has(SYMPTOM_KEY_ALIASES[k]));
+  if (unknown.length > 0) {
+    throw ErrorTypes.ValidationError(`症状知识库中不存在以下症状: ${unknown.join(', ')}`);
+  }
+};
+
+const toDiagnosisData = (input: DiagnosisUpdateInput): Prisma.DiagnosisUncheckedUpdateInput => {
+  const data: Prisma.DiagnosisUncheckedUpdateInput = {};
+  if (input.name !== undefined) {data.name = input.name;}
+  if (input.description !== undefined) {data.description = input.description;}
+  if (input.category !== undefined) {data.category = input.category;}
+  if (input.minAge !== undefined) {data.minAge = input.minAge;}
+  if (input.maxAge !== undefined) {data.maxAge = input.maxAge;}
+  if (input.genderPreference !== undefined) {data.genderPreference = input.genderPreference;}
+  if (input.priority !== undefined) {data.priority = input.priority;}
+  if (input.isActive !== undefined) {data.isActive = input.isActive;}
+  return data;
+};
+
+/**
+ * 整体替换诊断的症状关联与警惕征象（未提供的部分保持不变）
+ */
+const replaceRelations = async (
+  tx: Tx,
+  diagnosisId: number,
+  symptoms?: DiagnosisSymptomInput[],
+  redFlags?: DiagnosisRedFlagInput[]
+): Promise<void> => {
+  if (symptoms) {
+    await tx.diagnosisSymptom.deleteMany({ where: { diagnosisId } });
+    if (symptoms.length > 0) {
+      await tx.diagnosisSymptom.createMany({ data: symptoms.map(s => ({ diagnosisId, ...s })) });
+    }
+  }
+  if (redFlags) {
+    await tx.diagnosisRedFlag.deleteMany({ where: { diagnosisId } });
+    if (redFlags.length > 0) {
+      await tx.diagnosisRedFlag.createMany({ data: redFlags.map(r => ({ diagnosisId, ...r })) });
+    }
+  }
+};
+
+/**
+ * 诊断列表（含症状与警惕征象），默认仅返回启用的诊断
+ */
+export const listDiagnoses = async (
+  filters: { category?: string; includeInactive?: boolean } = {}
+): Promise<DiagnosisWithRelations[]> => {
+  return await prisma.diagnosis.findMany({
+    where: {
+      ...(filters.includeInactive ? {} : { isActive: true }),
+      ...(filters.category ? { category: filters.category } : {}),
+    },
+    include: DIAGNOSIS_INCLUDE,
+    orderBy: [{ priority: 'desc' }, { name: 'asc' }],
+  });
+};
+
+/**
+ * 获取诊断详情，不存在时抛出 404
+ */
+export const getDiagnosis = async (id: number): Promise<DiagnosisWithRelations> => {
+  const diagnosis = await prisma.diagnosis.findUnique({ where: { id }, include: DIAGNOSIS_INCLUDE });
+  if (!diagnosis) {throw ErrorTypes.NotFound('诊断');}
+  return diagnosis;
+};
+
+/**
+ * 创建诊断及其症状关联与警惕征象
+ */
+export const createDiagnosis = async (input: DiagnosisInput): Promise<DiagnosisWithRelations> => {
+  await assertKnownSymptomKeys(input.symptoms.map(s => s.symptomKey));
+  try {
+    const diagnosis = await prisma.$transaction(async (tx) => {
+      const created = await tx.diagnosis.create({
+        data: toDiagnosisData(input) as Prisma.DiagnosisUncheckedCreateInput,
+      });
+      await replaceRelations(tx, created.id, input.symptoms, input.redFlags);
+      return await tx.diagnosis.findUniqueOrThrow({ where: { id: created.id }, include: DIAGNOSIS_INCLUDE });
+    });
+    secureLogger.info('[DiagnosisCatalogue] 诊断已创建', { diagnosisId: diagnosis.id, name: diagnosis.name });
+    return diagnosis;
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 更新诊断；提供 symptoms / redFlags 时整体替换对应关联
+ */
+export const updateDiagnosis = async (id: number, input: DiagnosisUpdateInput): Promise<DiagnosisWithRelations> => {
+  if (input.symptoms) {await assertKnownSymptomKeys(input.symptoms.map(s => s.symptomKey));}
+  try {
+    const diagnosis = await prisma.$transaction(async (tx) => {
+      const existing = await tx.diagnosis.findUnique({ where: { id } });
+      if (!existing) {throw ErrorTypes.NotFound('诊断');}
+      const minAge = input.minAge !== undefined ? input.minAge : existing.minAge;
+      const maxAge = input.maxAge !== undefined ? input.maxAge : existing.maxAge;
+      if (minAge != null && maxAge != null && minAge > maxAge) {
+        throw ErrorTypes.ValidationError('最小年龄不能大于最大年龄');
+      }
+      await tx.diagnosis.update({ where: { id }, data: toDiagnosisData(input) });
+      await replaceRelations(tx, id, input.symptoms, input.redFlags);
+      return await tx.diagnosis.findUniqueOrThrow({ where: { id }, include: DIAGNOSIS_INCLUDE });
+    });
+    secureLogger.info('[DiagnosisCatalogue] 诊断已更新', { diagnosisId: id });
+    return diagnosis;
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 删除诊断（症状关联与警惕征象级联删除）
+ */
+export const deleteDiagnosis = async (id: number): Promise<void> => {
+  try {
+    await prisma.diagnosis.delete({ where: { id } });
+    secureLogger.info('[DiagnosisCatalogue] 诊断已删除', { diagnosisId: id });
+  } catch (error) {
+    rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 新增或修改诊断的单个症状关联
+ */
+export const upsertDiagnosisSymptom = async (diagnosisId: number, input: DiagnosisSymptomInput) => {
+  await assertKnownSymptomKeys([input.symptomKey]);
+  try {
+    const { symptomKey, ...link } = input;
+    return await prisma.diagnosisSymptom.upsert({
+      where: { diagnosisId_symptomKey: { diagnosisId, symptomKey } },
+      update: link,
+      create: { diagnosisId, ...input },
+    });
+  } catch (error) {
+    // 外键不存在说明诊断不存在
+    if ((error as { code?: string })?.code === 'P2003') {throw ErrorTypes.NotFound('诊断');}
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 移除诊断的单个症状关联
+ */
+export const removeDiagnosisSymptom = async (diagnosisId: number, symptomKey: string): Promise<void> => {
+  const { count } = await prisma.diagnosisSymptom.deleteMany({ where: { diagnosisId, symptomKey } });
+  if (count === 0) {throw ErrorTypes.NotFound('症状关联');}
+};
+
+/**
+ * 新增或修改诊断的单个警惕征象
+ */
+export const upsertDiagnosisRedFlag = async (diagnosisId: number, input: DiagnosisRedFlagInput) => {
+  try {
+    const { redFlagName, ...flag } = input;
+    return await prisma.diagnosisRedFlag.upsert({
+      where: { diagnosisId_redFlagName: { diagnosisId, redFlagName } },
+      update: flag,
+      create: { diagnosisId, ...input },
+    });
+  } catch (error) {
+    if ((error as { code?: string })?.code === 'P2003') {throw ErrorTypes.NotFound('诊断');}
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 移除诊断的单个警惕征象
+ */
+export const removeDiagnosisRedFlag = async (diagnosisId: number, redFlagName: string): Promise<void> => {
+  const { count } = await prisma.diagnosisRedFlag.deleteMany({ where: { diagnosisId, redFlagName } });
+  if (count === 0) {throw ErrorTypes.NotFound('警惕征象');}
+};
+
+/**
+ * 解析 CSV 文本（支持双引号包裹与转义），返回二维数组
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') {i++;}
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+const CSV_DIAGNOSIS_COLUMNS = ['category', 'description', 'minAge', 'maxAge', 'genderPreference', 'priority'] as const;
+const CSV_INTEGER_COLUMNS = new Set(['minAge', 'maxAge', 'priority', 'severityLevel']);
+
+const parseCsvValue = (column: string, value: string): unknown => {
+  const v = value.trim();
+  if (v === '') {return undefined;}
+  if (CSV_INTEGER_COLUMNS.has(column) || column === 'weight') {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : v;
+  }
+  if (column === 'isRequired' || column === 'isExcluding' || column === 'isActive') {
+    return ['1', 'true', 'yes', 'y', '是'].includes(v.toLowerCase());
+  }
+  return v;
+};
+
+/**
+ * 将 CSV 行转换为诊断条目
+ * 每行描述一个诊断的一个症状（type=symptom）或警惕征象（type=redFlag），同名诊断的多行合并；
+ * 诊断字段取该诊断首个非空值
+ */
+const csvToEntries = (text: string): unknown[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {throw ErrorTypes.ValidationError('CSV 内容为空');}
+  const columns = header.map(h => h.trim());
+  if (!columns.includes('name')) {throw ErrorTypes.ValidationError('CSV 缺少 name 列');}
+
+  const entries = new Map<string, Record<string, unknown> & { symptoms: unknown[]; redFlags: unknown[] }>();
+  rows.forEach((cells, index) => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = parseCsvValue(column, cells[i] ?? '');
+      if (value !== undefined) {row[column] = value;}
+    });
+    const name = String(row.name || '');
+    if (!name) {throw ErrorTypes.ValidationError(`CSV 第 ${index + 2} 行缺少诊断名称`);}
+
+    const entry = entries.get(name) || { name, symptoms: [], redFlags: [] };
+    for (const column of [...CSV_DIAGNOSIS_COLUMNS, 'isActive']) {
+      if (entry[column] === undefined && row[column] !== undefined) {entry[column] = row[column];}
+    }
+
+    const type = String(row.type || '');
+    if (type === 'symptom') {
+      entry.symptoms.push({
+        symptomKey: row.key,
+        weight: row.weight,
+        isRequired: row.isRequired,
+        isExcluding: row.isExcluding,
+      });
+    } else if (type === 'redFlag') {
+      entry.redFlags.push({ redFlagName: row.key, weight: row.weight, severityLevel: row.severityLevel });
+    } else if (type) {
+      throw ErrorTypes.ValidationError(`CSV 第 ${index + 2} 行 type 只能为 symptom 或 redFlag`);
+    }
+    entries.set(name, entry);
+  });
+  return Array.from(entries.values());
+};
+
+/**
+ * 解析并校验导入内容
+ */
+export const parseDiagnosisImport = (format: 'json' | 'csv', content: string): DiagnosisInput[] => {
+  let raw: unknown;
+  if (format === 'csv') {
+    raw = csvToEntries(content);
+  } else {
+    try {
+      raw = JSON.parse(content);
+    } catch {
+      throw ErrorTypes.ValidationError('JSON 格式错误');
+    }
+    if (raw && typeof raw === 'object' && !Array.isArray(raw)) {raw = (raw as { diagnoses?: unknown }).diagnoses;}
+    if (!Array.isArray(raw)) {throw ErrorTypes.ValidationError('JSON 内容应为诊断数组');}
+  }
+
+  const entries = raw as unknown[];
+  if (entries.length === 0) {throw ErrorTypes.ValidationError('导入内容中没有诊断');}
+  const parsed = entries.map((entry, i) => {
+    const result = DiagnosisSchemas.create.safeParse(entry);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const label = (entry as { name?: unknown })?.name || `#${i + 1}`;
+      throw ErrorTypes.ValidationError(`诊断 ${String(label)}: ${issue.path.join('.') || '(root)'} ${issue.message}`);
+    }
+    return result.data as DiagnosisInput;
+  });
+
+  const names = parsed.map(d => d.name);
+  const duplicated = names.filter((n, i) => names.indexOf(n) !== i);
+  if (duplicated.length > 0) {
+    throw ErrorTypes.ValidationError(`导入内容中诊断重复: ${Array.from(new Set(duplicated)).join(', ')}`);
+  }
+  return parsed;
+};
+
+/**
+ * 批量导入诊断：按名称新增或覆盖（覆盖时整体替换症状与警惕征象），全部成功或全部回滚
+ * dryRun 时仅校验并返回将要新增/覆盖的诊断
+ */
+export const importDiagnoses = async (
+  format: 'json' | 'csv',
+  content: string,
+  dryRun = false
+): Promise<DiagnosisImportResult> => {
+  const entries = parseDiagnosisImport(format, content);
+  await assertKnownSymptomKeys(entries.flatMap(e => e.symptoms.map(s => s.symptomKey)));
+
+  const existing = await prisma.diagnosis.findMany({
+    where: { name: { in: entries.map(e => e.name) } },
+    select: { id: true, name: true },
+  });
+  const idByName = new Map(existing.map(d => [d.name, d.id]));
+  const result: DiagnosisImportResult = {
+    total: entries.length,
+    created: entries.filter(e => !idByName.has(e.name)).map(e => e.name),
+    updated: entries.filter(e => idByName.has(e.name)).map(e => e.name),
+    dryRun,
+  };
+  if (dryRun) {return result;}
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      for (const entry of entries) {
+        const { symptoms, redFlags, ...fields } = entry;
+        const id = idByName.get(entry.name);
+        const diagnosisId = id
+          ? (await tx.diagnosis.update({ where: { id }, data: toDiagnosisData(fields) })).id
+          : (await tx.diagnosis.create({ data: toDiagnosisData(fields) as Prisma.DiagnosisUncheckedCreateInput })).id;
+        await replaceRelations(tx, diagnosisId, symptoms, redFlags);
+      }
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+
+  secureLogger.info('[DiagnosisCatalogue] 诊断批量导入完成', {
+    format,
+    created: result.created.length,
+    updated: result.updated.length,
+  });
+  return result;
+};
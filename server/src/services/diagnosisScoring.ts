@@ -0,0 +1,235 @@
+/**
+ * 鉴别诊断评分引擎
+ * 以诊断优先级为先验、各项发现为似然比（LR），在对数几率空间累加后归一化为后验分数，
+ * 并逐项记录每个发现对分数的贡献，便于解释
+ */
+
+import type { Prisma } from '@prisma/client';
+
+type WeightValue = number | string | Prisma.Decimal;
+
+/**
+ * 参与评分的诊断（与 Prisma Diagnosis + symptoms/redFlags 结构兼容）
+ */
+export interface ScoringDiagnosis {
+  id: number;
+  name: string;
+  minAge?: number | null;
+  maxAge?: number | null;
+  genderPreference?: string | null;
+  priority?: number | null;
+  symptoms: Array<{
+    symptomKey: string;
+    weight: WeightValue;
+    isRequired: boolean;
+    isExcluding: boolean;
+  }>;
+  redFlags: Array<{
+    redFlagName: string;
+    weight: WeightValue;
+    severityLevel: number;
+  }>;
+}
+
+/**
+ * 患者发现：presentSymptoms 为阳性症状，absentSymptoms 为明确否认的症状；二者之外视为未知
+ */
+export interface ScoringFindings {
+  presentSymptoms: string[];
+  absentSymptoms?: string[];
+  redFlags?: string[];
+  patientAge?: number;
+  patientGender?: string;
+}
+
+export type EvidenceFactor =
+  | 'prior'
+  | 'symptom_present'
+  | 'symptom_absent'
+  | 'required_missing'
+  | 'required_absent'
+  | 'excluding_present'
+  | 'red_flag'
+  | 'age_mismatch'
+  | 'gender_mismatch';
+
+/**
+ * 单项证据对诊断分数的贡献
+ */
+export interface EvidenceContribution {
+  factor: EvidenceFactor;
+  finding: string;
+  likelihoodRatio: number;
+  logContribution: number;
+  description: string;
+}
+
+export interface DiagnosisScore {
+  diagnosisId: number;
+  name: string;
+  posterior: number;
+  logScore: number;
+  supportingSymptoms: string[];
+  excludingSymptoms: string[];
+  missingSymptoms: string[];
+  redFlags: string[];
+  contributions: EvidenceContribution[];
+}
+
+export interface DiagnosisScoringResult {
+  scores: DiagnosisScore[];
+  /** 未列出诊断所占的剩余概率 */
+  residual: number;
+}
+
+// 症状权重（0-1）到阳性似然比的换算：LR+ = 1 + weight × SYMPTOM_LR_SCALE
+const SYMPTOM_LR_SCALE = 20;
+// 明确否认的非必需症状按阳性证据强度的一半折算阴性似然比
+const ABSENT_LR_FRACTION = 0.5;
+const REQUIRED_MISSING_LR = 0.2;
+const REQUIRED_ABSENT_LR = 0.05;
+const EXCLUDING_PRESENT_LR = 0.05;
+const RED_FLAG_LR_SCALE = 10;
+const AGE_MISMATCH_LR = 0.1;
+const GENDER_MISMATCH_LR = 0.2;
+// 优先级每提升 1 级，先验几率乘以 e^0.1
+const PRIORITY_LOG_SCALE = 0.1;
+// “其他诊断”假设的对数分数（先验几率 1、无任何证据）
+const RESIDUAL_LOG_SCORE = 0;
+
+const toNumber = (value: WeightValue): number => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const round = (value: number, digits = 4): number => Number(value.toFixed(digits));
+
+/**
+ * 将 male/female/男/女/M/F 归一为 male/female，无法识别时返回 null
+ */
+export const normalizeGender = (gender: string | null | undefined): 'male' | 'female' | null => {
+  const g = String(gender || '').trim().toLowerCase();
+  if (['male', 'm', '男', '男性'].includes(g)) {return 'male';}
+  if (['female', 'f', '女', '女性'].includes(g)) {return 'female';}
+  return null;
+};
+
+const contribution = (
+  factor: EvidenceFactor,
+  finding: string,
+  likelihoodRatio: number,
+  description: string
+): EvidenceContribution => ({
+  factor,
+  finding,
+  likelihoodRatio: round(likelihoodRatio),
+  logContribution: round(Math.log(likelihoodRatio)),
+  description,
+});
+
+/**
+ * 计算单个诊断的对数分数及证据贡献（未归一化）
+ */
+export function scoreDiagnosis(
+  diagnosis: ScoringDiagnosis,
+  findings: ScoringFindings
+): Omit<DiagnosisScore, 'posterior'> {
+  const present = new Set(findings.presentSymptoms);
+  const absent = new Set((findings.absentSymptoms || []).filter(s => !present.has(s)));
+  const reportedRedFlags = new Set(findings.redFlags || []);
+  const contributions: EvidenceContribution[] = [];
+
+  const priority = diagnosis.priority || 0;
+  if (priority !== 0) {
+    contributions.push(contribution('prior', String(priority), Math.exp(priority * PRIORITY_LOG_SCALE), `诊断优先级 ${priority}`));
+  }
+
+  const supportingSymptoms: string[] = [];
+  const excludingSymptoms: string[] = [];
+  const missingSymptoms: string[] = [];
+
+  for (const symptom of diagnosis.symptoms) {
+    const key = symptom.symptomKey;
+    const weight = toNumber(symptom.weight);
+
+    if (symptom.isExcluding) {
+      if (present.has(key)) {
+        excludingSymptoms.push(key);
+        contributions.push(contribution('excluding_present', key, EXCLUDING_PRESENT_LR, `存在排除性症状 ${key}`));
+      }
+      continue;
+    }
+
+    if (present.has(key)) {
+      supportingSymptoms.push(key);
+      contributions.push(contribution('symptom_present', key, 1 + weight * SYMPTOM_LR_SCALE, `存在症状 ${key}（权重 ${weight}）`));
+      continue;
+    }
+
+    missingSymptoms.push(key);
+    if (symptom.isRequired) {
+      contributions.push(
+        absent.has(key)
+          ? contribution('required_absent', key, REQUIRED_ABSENT_LR, `明确否认必需症状 ${key}`)
+          : contribution('required_missing', key, REQUIRED_MISSING_LR, `未提及必需症状 ${key}`)
+      );
+    } else if (absent.has(key)) {
+      const lr = 1 / (1 + weight * SYMPTOM_LR_SCALE * ABSENT_LR_FRACTION);
+      contributions.push(contribution('symptom_absent', key, lr, `明确否认症状 ${key}`));
+    }
+  }
+
+  const matchedRedFlags = diagnosis.redFlags.filter(rf => reportedRedFlags.has(rf.redFlagName));
+  for (const rf of matchedRedFlags) {
+    const severity = Math.max(rf.severityLevel || 1, 1);
+    const lr = 1 + toNumber(rf.weight) * RED_FLAG_LR_SCALE * (severity / 3);
+    contributions.push(contribution('red_flag', rf.redFlagName, lr, `存在警惕征象 ${rf.redFlagName}（严重度 ${severity}）`));
+  }
+
+  const age = findings.patientAge;
+  if (typeof age === 'number' && Number.isFinite(age)) {
+    if (diagnosis.minAge != null && age < diagnosis.minAge) {
+      contributions.push(contribution('age_mismatch', String(age), AGE_MISMATCH_LR, `年龄 ${age} 岁低于好发年龄下限 ${diagnosis.minAge} 岁`));
+    } else if (diagnosis.maxAge != null && age > diagnosis.maxAge) {
+      contributions.push(contribution('age_mismatch', String(age), AGE_MISMATCH_LR, `年龄 ${age} 岁高于好发年龄上限 ${diagnosis.maxAge} 岁`));
+    }
+  }
+
+  const preferred = normalizeGender(diagnosis.genderPreference);
+  const gender = normalizeGender(findings.patientGender);
+  if (preferred && gender && preferred !== gender) {
+    contributions.push(contribution('gender_mismatch', findings.patientGender || '', GENDER_MISMATCH_LR, `性别与好发性别（${diagnosis.genderPreference}）不符`));
+  }
+
+  const logScore = contributions.reduce((sum, c) => sum + Math.log(c.likelihoodRatio), 0);
+  contributions.sort((a, b) => Math.abs(b.logContribution) - Math.abs(a.logContribution));
+
+  return {
+    diagnosisId: diagnosis.id,
+    name: diagnosis.name,
+    logScore: round(logScore),
+    supportingSymptoms,
+    excludingSymptoms,
+    missingSymptoms,
+    redFlags: matchedRedFlags.map(rf => rf.redFlagName),
+    contributions,
+  };
+}
+
+/**
+ * 对候选诊断评分并归一化
+ * 后验分数在候选诊断与“其他诊断”假设之间做 softmax，单一候选时也不会被抬升到 1
+ */
+export function scoreDiagnoses(diagnoses: ScoringDiagnosis[], findings: ScoringFindings): DiagnosisScoringResult {
+  const raw = diagnoses.map(d => scoreDiagnosis(d, findings));
+  const max = Math.max(RESIDUAL_LOG_SCORE, ...raw.map(r => r.logScore));
+  const residualMass = Math.exp(RESIDUAL_LOG_SCORE - max);
+  const masses = raw.map(r => Math.exp(r.logScore - max));
+  const total = residualMass + masses.reduce((sum, m) => sum + m, 0);
+
+  const scores = raw
+    .map((r, i) => ({ ...r, posterior: round(masses[i] / total) }))
+    .sort((a, b) => b.posterior - a.posterior);
+
+  return { scores, residual: round(residualMass / total) };
+}
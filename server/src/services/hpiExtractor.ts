@@ -0,0 +1,275 @@
+/**
+ * 现病史实体抽取
+ * 从自由文本现病史中抽取起病形式、部位（含侧别）、性质、程度、加重/缓解因素、伴随症状与重要阴性，
+ * 为结构化字段提供带原文区间的建议值
+ */
+
+import { SYMPTOM_KEY_ALIASES, SYMPTOM_NAME_TO_KEY } from './mapping.service';
+import {
+  isNegated,
+  matchSymptoms,
+  type SymptomKnowledgeEntry,
+  type SymptomMatchResult,
+  type SymptomSpan,
+} from './symptomMatcher';
+
+export type HpiProposalField =
+  | 'onsetMode'
+  | 'location'
+  | 'quality'
+  | 'severity'
+  | 'factors'
+  | 'associatedSymptoms'
+  | 'negativeSymptoms';
+
+export type Laterality = 'left' | 'right' | 'bilateral';
+
+/**
+ * 单个结构化字段的建议值
+ * value 与前端表单字段取值一致（如 onsetMode 为 sudden/gradual，associatedSymptoms 为症状 key 列表）
+ */
+export interface HpiFieldProposal {
+  field: HpiProposalField;
+  value: string | string[];
+  display: string;
+  spans: SymptomSpan[];
+  laterality?: Laterality | null;
+}
+
+export interface HpiExtractionResult {
+  proposals: HpiFieldProposal[];
+}
+
+type LexiconRule = { pattern: RegExp; value: string };
+
+const ONSET_RULES: LexiconRule[] = [
+  { pattern: /突然|突发|骤然|急性起病|急起/gu, value: 'sudden' },
+  { pattern: /缓慢起病|缓起|渐起|隐匿起病|慢性起病|逐渐出现/gu, value: 'gradual' },
+];
+
+const SEVERITY_RULES: LexiconRule[] = [
+  { pattern: /轻度|轻微|隐隐|尚可忍受/gu, value: 'mild' },
+  { pattern: /中度|中等程度|较重|较剧烈/gu, value: 'moderate' },
+  { pattern: /重度|剧烈|剧痛|严重|难以忍受|无法忍受/gu, value: 'severe' },
+];
+
+const QUALITY_RULES: LexiconRule[] = [
+  { pattern: /绞痛/gu, value: '绞痛' },
+  { pattern: /钝痛/gu, value: '钝痛' },
+  { pattern: /针刺样|刺痛/gu, value: '刺痛' },
+  { pattern: /胀痛/gu, value: '胀痛' },
+  { pattern: /烧灼(?:样|感)?(?:疼)?痛?|灼痛/gu, value: '烧灼痛' },
+  { pattern: /闷痛/gu, value: '闷痛' },
+  { pattern: /压榨(?:性|样)?(?:疼)?痛?/gu, value: '压榨痛' },
+  { pattern: /隐痛/gu, value: '隐痛' },
+  { pattern: /撕裂(?:样)?(?:疼)?痛/gu, value: '撕裂样痛' },
+  { pattern: /刀割样(?:疼)?痛?/gu, value: '刀割样痛' },
+];
+
+const SEVERITY_LABELS: Record<string, string> = { mild: '轻度', moderate: '中度', severe: '重度' };
+const ONSET_LABELS: Record<string, string> = { sudden: '突然', gradual: '缓慢' };
+
+// 部位词按长度降序，保证“左下腹”“胸骨后”优先于“腹”“胸”
+const BODY_SITES = [
+  '剑突下', '胸骨后', '心前区', '腹股沟', '中上腹', '季肋', '脐周', '上腹', '下腹', '中腹',
+  '肩胛', '腰骶', '腰背', '头顶', '咽喉', '胸', '腹', '头', '额', '颞', '枕', '颈', '肩', '背', '腰',
+  '肋', '膝', '髋', '踝', '咽',
+].sort((a, b) => b.length - a.length);
+
+const SITE_PATTERN = new RegExp(
+  `(左侧|右侧|双侧|两侧|左|右|双)?(${BODY_SITES.join('|')})(部|区|处)?`,
+  'gu'
+);
+const RADIATION_PATTERN = new RegExp(
+  `(?:向|放射至|放射到|牵涉至)((?:左侧|右侧|双侧|左|右|双)?(?:${BODY_SITES.join('|')})(?:部|区)?)(?:放射)?`,
+  'gu'
+);
+const SYMPTOM_CONTEXT = /^.{0,3}?(痛|疼|不适|压痛|胀|闷)/u;
+
+const NEGATION_CLAUSE = /(否认|未见|未诉|不伴|没有|无)([^，,。；;\n]+)/gu;
+const NEGATION_SKIP = /诱因|出现|伴有|伴|但|后|引起|导致|开始/u;
+
+const FACTOR_PATTERN = /([^，,。；;、\n]{1,12}?)(后|时)(可缓解|缓解|减轻|好转|加重|加剧|诱发)/gu;
+
+const lateralityOf = (prefix: string | undefined): Laterality | null => {
+  if (!prefix) {return null;}
+  if (prefix.startsWith('左')) {return 'left';}
+  if (prefix.startsWith('右')) {return 'right';}
+  return 'bilateral';
+};
+
+const spanOf = (text: string, start: number, end: number): SymptomSpan => ({ start, end, text: text.slice(start, end) });
+
+/**
+ * 按规则收集非否定命中，重叠时保留更长者
+ */
+function collectLexiconHits(text: string, rules: LexiconRule[]): Array<SymptomSpan & { value: string }> {
+  const hits: Array<SymptomSpan & { value: string }> = [];
+  for (const rule of rules) {
+    for (const m of text.matchAll(rule.pattern)) {
+      const start = m.index ?? 0;
+      if (isNegated(text, start)) {continue;}
+      hits.push({ ...spanOf(text, start, start + m[0].length), value: rule.value });
+    }
+  }
+  hits.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const kept: typeof hits = [];
+  for (const hit of hits) {
+    const prev = kept[kept.length - 1];
+    if (prev && hit.start < prev.end) {continue;}
+    kept.push(hit);
+  }
+  return kept;
+}
+
+function extractOnsetMode(text: string): HpiFieldProposal | null {
+  const [hit] = collectLexiconHits(text, ONSET_RULES);
+  if (!hit) {return null;}
+  return { field: 'onsetMode', value: hit.value, display: ONSET_LABELS[hit.value], spans: [spanOf(text, hit.start, hit.end)] };
+}
+
+function extractSeverity(text: string): HpiFieldProposal | null {
+  const [hit] = collectLexiconHits(text, SEVERITY_RULES);
+  if (!hit) {return null;}
+  return { field: 'severity', value: hit.value, display: SEVERITY_LABELS[hit.value], spans: [spanOf(text, hit.start, hit.end)] };
+}
+
+function extractQuality(text: string): HpiFieldProposal | null {
+  const hits = collectLexiconHits(text, QUALITY_RULES);
+  if (hits.length === 0) {return null;}
+  const values = Array.from(new Set(hits.map(h => h.value)));
+  return { field: 'quality', value: values, display: values.join('、'), spans: hits.map(h => spanOf(text, h.start, h.end)) };
+}
+
+/**
+ * 部位：优先带侧别、紧邻疼痛/不适描述的部位；放射部位追加在后
+ */
+function extractLocation(text: string): HpiFieldProposal | null {
+  const radiationSpans: SymptomSpan[] = [];
+  const radiationSites: string[] = [];
+  for (const m of text.matchAll(RADIATION_PATTERN)) {
+    const start = m.index ?? 0;
+    radiationSpans.push(spanOf(text, start, start + m[0].length));
+    radiationSites.push(m[1]);
+  }
+  const inRadiation = (pos: number) => radiationSpans.some(s => pos >= s.start && pos < s.end);
+
+  let best: { score: number; start: number; end: number; site: string; laterality: Laterality | null } | null = null;
+  for (const m of text.matchAll(SITE_PATTERN)) {
+    const start = m.index ?? 0;
+    const end = start + m[0].length;
+    if (inRadiation(start) || isNegated(text, start)) {continue;}
+    const laterality = lateralityOf(m[1]);
+    const score =
+      (laterality ? 2 : 0) +
+      (m[3] ? 1 : 0) +
+      (m[2].length > 1 ? 1 : 0) +
+      (SYMPTOM_CONTEXT.test(text.slice(end, end + 5)) ? 2 : 0);
+    if (!best || score > best.score) {
+      best = { score, start, end, site: m[0], laterality };
+    }
+  }
+  if (!best) {return null;}
+
+  const radiation = radiationSites.length > 0 ? `，放射至${Array.from(new Set(radiationSites)).join('、')}` : '';
+  const value = `${best.site}${radiation}`;
+  return {
+    field: 'location',
+    value,
+    display: value,
+    spans: [spanOf(text, best.start, best.end), ...radiationSpans],
+    laterality: best.laterality,
+  };
+}
+
+function extractFactors(text: string): HpiFieldProposal | null {
+  const spans: SymptomSpan[] = [];
+  const parts: string[] = [];
+  for (const m of text.matchAll(FACTOR_PATTERN)) {
+    // 去掉“腹痛于进食后加重”中的主语部分
+    const cause = m[1].replace(/^.*[于在每]/u, '').replace(/^(患者|并|且|常|多|可|均)/u, '');
+    if (!cause) {continue;}
+    const start = (m.index ?? 0) + m[0].length - (cause.length + m[2].length + m[3].length);
+    spans.push(spanOf(text, start, (m.index ?? 0) + m[0].length));
+    parts.push(`${cause}${m[2]}${m[3]}`);
+  }
+  if (parts.length === 0) {return null;}
+  const value = parts.join('，');
+  return { field: 'factors', value, display: value, spans };
+}
+
+/**
+ * 重要阴性：否定词后的并列项（“无发热、盗汗”“否认胸痛及咯血”）
+ */
+function extractNegatives(text: string, match: SymptomMatchResult): HpiFieldProposal | null {
+  const items: string[] = [];
+  const spans: SymptomSpan[] = [];
+  for (const m of text.matchAll(NEGATION_CLAUSE)) {
+    const cueStart = m.index ?? 0;
+    // “无尿”等以否定字开头的症状本身不是否定
+    if (match.mentions.some(x => !x.negated && cueStart >= x.start && cueStart < x.end)) {continue;}
+    const scope = m[2];
+    if (NEGATION_SKIP.test(scope)) {continue;}
+    const scopeStart = (m.index ?? 0) + m[1].length;
+    let cursor = 0;
+    for (const raw of scope.split(/[、及和]|或/u)) {
+      const offset = scope.indexOf(raw, cursor);
+      cursor = offset + raw.length;
+      const item = raw.replace(/^明显/u, '').replace(/等$/u, '').trim();
+      if (item.length < 1 || item.length > 8) {continue;}
+      if (!items.includes(item)) {items.push(item);}
+      const start = scopeStart + offset + (raw.length - raw.replace(/^明显/u, '').length);
+      spans.push(spanOf(text, start, start + item.length));
+    }
+  }
+  if (items.length === 0) {return null;}
+  const value = items.map(i => `无${i}`).join('、');
+  return { field: 'negativeSymptoms', value, display: value, spans };
+}
+
+/**
+ * 伴随症状：词典中阳性症状（排除主症状），取值与伴随症状勾选项 key 一致
+ */
+function extractAssociated(match: SymptomMatchResult, mainSymptom?: string): HpiFieldProposal | null {
+  const { matchedSymptoms } = match;
+  const main = String(mainSymptom || '').trim();
+  const picked = matchedSymptoms.filter(s => s.knowledge && s.name !== main && s.key !== main && s.knowledge.displayName !== main);
+  if (picked.length === 0) {return null;}
+
+  const values: string[] = [];
+  const names: string[] = [];
+  for (const s of picked) {
+    const independent = SYMPTOM_NAME_TO_KEY[s.name];
+    const key = independent && SYMPTOM_KEY_ALIASES[independent] === s.key ? independent : s.key;
+    if (!values.includes(key)) {values.push(key);}
+    if (!names.includes(s.name)) {names.push(s.name);}
+  }
+  return {
+    field: 'associatedSymptoms',
+    value: values,
+    display: names.join('、'),
+    spans: picked.flatMap(s => s.spans),
+  };
+}
+
+/**
+ * 从现病史叙述中抽取结构化字段建议
+ */
+export function extractHpiFields<K extends SymptomKnowledgeEntry>(
+  narrative: string,
+  knowledge: K[],
+  options: { mainSymptom?: string } = {}
+): HpiExtractionResult {
+  const text = String(narrative || '');
+  const match = matchSymptoms(text, knowledge);
+  const proposals = [
+    extractOnsetMode(text),
+    extractLocation(text),
+    extractQuality(text),
+    extractSeverity(text),
+    extractFactors(text),
+    extractAssociated(match, options.mainSymptom),
+    extractNegatives(text, match),
+  ].filter((p): p is HpiFieldProposal => p !== null);
+  return { proposals };
+}
@@ -0,0 +1,402 @@
+/**
+ * 现病史叙述生成
+ * 根据现病史结构化字段拼接标准病历格式的叙述文本
+ */
+
+/**
+ * 规范化文本：去除首尾空白，将“-”“—”“无”等占位值视为空
+ */
+export const normalizeText = (v: unknown): string => {
+  const t = String(v ?? '').trim();
+  if (!t) {return '';}
+  if (t === '-' || t === '—' || t === '无') {return '';}
+  return t;
+};
+
+/**
+ * 确保句子以中文句末标点结尾
+ */
+export const ensureSentenceEnd = (text: unknown): string => {
+  const t = String(text ?? '').trim();
+  if (!t) {return '';}
+  return /[。！？]$/u.test(t) ? t : `${t}。`;
+};
+
+/**
+ * 根据现病史字段生成叙述文本
+ * 返回两行：起病经过与诊疗经过、发病以来一般情况（不含缩进）
+ */
+export function buildHpiNarrative(values: Record<string, unknown>, mainSymptom: string): string {
+  const normalizeOnsetTime = (val: unknown): string => {
+    const t = normalizeText(val);
+    if (!t) {return '';}
+    if (/^\d+(天|周|月|小时|分钟)$/u.test(t) && !/前$/.test(t)) {return `${t}前`;}
+    return t;
+  };
+
+  const normalizeTrigger = (val: unknown): string => normalizeText(val) || '无明显诱因';
+
+  const normalizeOnsetMode = (val: unknown): string => {
+    const t = normalizeText(val);
+    if (t === 'sudden') {return '急';}
+    if (t === 'gradual') {return '缓';}
+    return '';
+  };
+
+  const normalizeNegative = (val: unknown): string => {
+    const raw = normalizeText(val).replace(/[。；，、]+$/u, '');
+    if (!raw) {return '';}
+    if (/^(无|否认)/u.test(raw)) {return raw;}
+    return `无${raw}`;
+  };
+
+  const normalizeDx = (val: unknown): string => {
+    return String(val ?? '')
+      .trim()
+      .replace(/[“”"']/gu, '')
+      .replace(/^门诊(拟)?/u, '')
+      .replace(/收入我科$/u, '')
+      .replace(/[。；，、]+$/u, '')
+      .trim();
+  };
+
+  const onsetTime = normalizeOnsetTime(values.onsetTime) || '不详时间';
+  const triggerText = normalizeTrigger(values.trigger);
+  const onsetModeText = normalizeOnsetMode(values.onsetMode);
+
+  const symptomCore = (() => {
+    const loc = normalizeText(values.location);
+    const sym = String(mainSymptom || '').trim() || '不适';
+    return loc ? `${loc}${sym}` : sym;
+  })();
+
+  const symptomFeatures = (() => {
+    const normalizeFeature = (val: unknown): string => {
+      const t = normalizeText(val).replace(/[。；，、]+$/u, '').trim();
+      if (!t) {return '';}
+      if (/^(无|未详|不详|无明显)$/u.test(t)) {return '';}
+      return t;
+    };
+
+    const segments: string[] = [];
+    const qualityRaw = values.quality as unknown;
+    if (Array.isArray(qualityRaw)) {
+      const q = qualityRaw.map(normalizeText).filter(Boolean).join('、');
+      if (q) {segments.push(`性质为${q}`);}
+    } else {
+      const q = normalizeText(qualityRaw);
+      if (q) {segments.push(`性质为${q}`);}
+    }
+
+    const severityRaw = normalizeText(values.severity);
+    if (severityRaw) {
+      const severityMap: Record<string, string> = { mild: '轻度', moderate: '中度', severe: '重度' };
+      const sev = severityMap[severityRaw] || severityRaw;
+      segments.push(severityMap[severityRaw] ? `程度为${sev}` : `程度${sev}`);
+    }
+
+    const durationDetails = normalizeFeature(values.durationDetails);
+    if (durationDetails) {segments.push(durationDetails);}
+
+    const factors = normalizeFeature(values.factors);
+    if (factors) {segments.push(factors);}
+
+    return segments.join('，');
+  })();
+
+  const evolutionText = normalizeText(values.hpi_evolution ?? values.evolution).replace(/[。；，、]+$/u, '');
+  const assocText = (() => {
+    const detail = normalizeText(values.associatedSymptomsDetails).replace(/[。；，、]+$/u, '');
+    if (detail) {return detail.replace(/^伴有/u, '').trim();}
+    const assoc = (values.associatedSymptoms as unknown) as string[] | undefined;
+    if (!Array.isArray(assoc) || assoc.length === 0) {return '';}
+    const labels = assoc.map(a => normalizeText(a)).filter(Boolean);
+    return labels.join('、');
+  })();
+  const negativeText = normalizeNegative(values.negativeSymptoms);
+
+  const treatmentText = (() => {
+    const raw = normalizeText(values.treatmentHistory);
+    if (!raw) {return '';}
+
+    const datePattern = /(\d{4})(?:\/|-|\.|年)(\d{1,2})(?:\/|-|\.|月)(\d{1,2})/u;
+
+    const splitLines = (text: string): string[] => {
+      const byLine = text
+        .split('\n')
+        .map(l => String(l || '').trim())
+        .filter(Boolean);
+      if (byLine.length > 1) {return byLine;}
+      const single = byLine[0] || '';
+      const sep = single.includes(',') ? ',' : single.includes('，') ? '，' : '';
+      if (!sep) {return byLine;}
+      return single
+        .split(sep)
+        .map(l => String(l || '').trim())
+        .filter(Boolean);
+    };
+
+    const normalizeDateText = (y: string, m: string, d: string): string => {
+      const mm = String(Number(m)).padStart(2, '0');
+      const dd = String(Number(d)).padStart(2, '0');
+      return `${y}-${mm}-${dd}`;
+    };
+
+    const extractDate = (line: string): { dateText: string; ts: number } => {
+      const m = line.match(datePattern);
+      if (!m) {return { dateText: '', ts: Number.POSITIVE_INFINITY };}
+      const dateText = normalizeDateText(m[1], m[2], m[3]);
+      const ts = new Date(dateText).getTime();
+      return { dateText, ts: Number.isFinite(ts) ? ts : Number.POSITIVE_INFINITY };
+    };
+
+    const normalizeLine = (input: string): { line: string; ts: number } => {
+      const trimmed = String(input || '').trim();
+      if (!trimmed) {return { line: '', ts: Number.POSITIVE_INFINITY };}
+
+      const stripped = trimmed.replace(/^记录\s*\d+\s*/u, '').replace(/^记录\d+\s*/u, '').trim();
+
+      const bracket = stripped.match(/^\[(.*?)\]/u);
+      if (bracket) {
+        const date = String(bracket[1] || '').trim();
+        const dateText = /^\d{4}-\d{1,2}-\d{1,2}/u.test(date)
+          ? date.replace(/^(\d{4})-(\d{1,2})-(\d{1,2}).*$/u, (_, y, m, d) => normalizeDateText(y, m, d))
+          : date;
+        const content = stripped.substring(bracket[0].length).trim();
+        const ts = dateText && /^\d{4}-\d{2}-\d{2}/u.test(dateText) ? new Date(dateText).getTime() : Number.POSITIVE_INFINITY;
+        const line = `${dateText}${content ? ` ${content}` : ''}`.trim();
+        return { line, ts: Number.isFinite(ts) ? ts : Number.POSITIVE_INFINITY };
+      }
+
+      const match = stripped.match(datePattern);
+      if (!match || match.index == null) {
+        return { line: stripped.replace(/[。；，、]+$/u, ''), ts: Number.POSITIVE_INFINITY };
+      }
+
+      const { dateText, ts } = extractDate(stripped);
+      const rest = stripped.slice(match.index + match[0].length).trim();
+      const normalized = `${dateText}${rest}`.trim().replace(/^[，、；;]+/u, '').trim();
+      return { line: normalized.replace(/[。；，、]+$/u, ''), ts };
+    };
+
+    const inputs = splitLines(raw);
+    const normalizedItems = inputs
+      .map((line, idx) => ({ ...normalizeLine(line), idx }))
+      .filter(it => Boolean(it.line));
+
+    const stripPlanLabel = (text: string): string => {
+      return String(text || '')
+        .replace(/治疗\/方案[:：]\s*/gu, '')
+        .replace(/治疗方案[:：]\s*/gu, '')
+        .trim();
+    };
+
+    const buildSentence = (line: string, prefixCengYu: boolean): string => {
+      const cleaned = stripPlanLabel(String(line || '').trim()).replace(/[。；，、]+$/u, '');
+      if (!cleaned) {return '';}
+
+      const m = cleaned.match(/^(\d{4}-\d{2}-\d{2})\s*(.*)$/u);
+      const dateText = m ? m[1] : '';
+      let rest = (m ? m[2] : cleaned).trim();
+      rest = rest.replace(/\s+/gu, ' ');
+
+      const instMatch =
+        rest.match(/(?:^|[，,；;]\s*)于([^，,；;]+?)(?=([，,；;]|$))/u) ||
+        rest.match(/(?:^|[，,；;]\s*)在([^，,；;]+?)(?=([，,；;]|$))/u);
+      const inst = instMatch ? String(instMatch[1] || '').trim() : '';
+      if (inst) {
+        const instEsc = inst.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        rest = rest
+          .replace(new RegExp(`(?:^|[，,；;]\\s*)(?:于|在)${instEsc}(?=([，,；;]|$))`, 'u'), '')
+          .trim();
+      }
+
+      const outcomeMatch = rest.match(
+        /(效果不佳|疗效不佳|无明显缓解|未见明显缓解|无缓解|稍缓解|明显缓解|好转|缓解|减轻|加重)/u
+      );
+      const outcome = outcomeMatch ? String(outcomeMatch[1] || '').trim() : '';
+      if (outcome) {
+        rest = rest.replace(outcome, '').replace(/[，,；;]\s*$/u, '').trim();
+      }
+
+      const actionRaw = rest.replace(/^[，,；;]+/u, '').trim().replace(/[，,；;]\s*$/u, '').trim();
+      const action = (() => {
+        const a = stripPlanLabel(actionRaw);
+        if (!a) {return '';}
+        if (/^(予以|予|给予|行)/u.test(a)) {return a;}
+        if (/^(检查|检验|彩超|B超|CT|MRI|X线|血常规|尿常规|心电图|胸片)/u.test(a)) {return `行${a}`;}
+        return `予${a}`;
+      })();
+
+      const head = `${prefixCengYu ? '曾于' : ''}${dateText || '不详时间'}${inst ? `在${inst}` : ''}就诊`;
+
+      const tail = (() => {
+        if (!outcome) {return '';}
+        const core = outcome.replace(/^症状/u, '').trim();
+        if (!core) {return '';}
+        const isGood = /(好转|缓解|减轻)/u.test(core) && !/(无|未见)/u.test(core);
+        return isGood ? `，后症状${core}` : `，但症状${core}`;
+      })();
+
+      return ensureSentenceEnd([head, action ? `，${action}` : '', tail].join('').replace(/[，,；;]\s*$/u, '').trim());
+    };
+
+    const sentences = normalizedItems.map((it, idx) => buildSentence(it.line, idx === 0)).filter(Boolean);
+    return sentences.join('');
+  })();
+
+  const generalSentence = (() => {
+    const normalizeField = (
+      val: unknown,
+      field: 'spirit' | 'sleep' | 'appetite' | 'strength' | 'weight' | 'urine_stool'
+    ): string => {
+      const raw = normalizeText(val);
+      if (!raw) {return '';}
+      const map: Record<string, Record<string, string>> = {
+        spirit: { good: '好', bad: '差', poor: '差', normal: '一般' },
+        appetite: { normal: '正常', increased: '增加', decreased: '减退', poor: '差' },
+        sleep: { normal: '正常', bad: '差', poor: '差' },
+        strength: { normal: '正常', good: '好', bad: '差', poor: '差', weak: '减弱', decreased: '减弱', '正常': '正常', '尚可': '尚可', '减弱': '减弱' },
+        weight: { no_change: '无变化', loss: '下降', decreased: '下降', gain: '增加', increased: '增加' },
+        urine_stool: { normal: '正常', 'no abnormal': '无异常' },
+      };
+      return map[field]?.[raw] || raw;
+    };
+
+    const formatUrineStool = (val: unknown): string => {
+      const raw = normalizeField(val, 'urine_stool').trim().replace(/。$/u, '');
+      if (!raw) {return '';}
+      if (/^(正常|无异常)$/u.test(raw)) {return '无异常';}
+      if (/^大小便/u.test(raw)) {return raw.replace(/^大小便/u, '').trim();}
+      return raw;
+    };
+
+    const generalLineRaw = normalizeText(values.general_line).replace(/[。；，、]+$/u, '');
+    const base = (() => {
+      if (!generalLineRaw) {return '';}
+      if (/^一般情况[:：]/u.test(generalLineRaw)) {return generalLineRaw.replace(/^一般情况[:：]\s*/u, '').trim();}
+      if (/^起病以来[，、]?/u.test(generalLineRaw)) {return generalLineRaw.replace(/^起病以来[，、]?/u, '').trim();}
+      if (/^病程中[，、]?/u.test(generalLineRaw)) {return generalLineRaw.replace(/^病程中[，、]?/u, '').trim();}
+      if (/^患者/u.test(generalLineRaw)) {return generalLineRaw.replace(/^患者/u, '').replace(/^，/u, '').trim();}
+      return generalLineRaw.trim();
+    })();
+    if (base) {
+      const spiritVal = normalizeField(values.spirit, 'spirit');
+      const appetiteVal = normalizeField(values.appetite, 'appetite');
+      const sleepVal = normalizeField(values.sleep, 'sleep');
+      const strengthVal = normalizeField(values.strength, 'strength');
+      const excretionRaw = formatUrineStool(values.urine_stool);
+      const excretionVal = (() => {
+        if (!excretionRaw) {return '';}
+        const cleaned = String(excretionRaw).trim().replace(/^大小便/u, '').trim().replace(/^[:：]/u, '').trim();
+        if (!cleaned) {return '';}
+        if (/^(小便|大便|二便)/u.test(cleaned)) {return cleaned;}
+        return `二便${cleaned}`;
+      })();
+
+      const weightRaw = normalizeField(values.weight, 'weight');
+      const weightNorm = (weightRaw === '无变化' ? '无明显变化' : weightRaw) || '';
+      const weightJinRaw = normalizeText((values as Record<string, unknown>).weight_change_jin);
+      const weightJin = Number(weightJinRaw);
+      const weightVal = (() => {
+        if (!weightNorm) {return '';}
+        if (/斤/u.test(weightNorm)) {return weightNorm;}
+        if ((weightNorm === '下降' || weightNorm === '增加') && Number.isFinite(weightJin) && weightJin > 0) {return `${weightNorm}${weightJin}斤`;}
+        return weightNorm;
+      })();
+
+      const normalizedBase = base
+        .replace(/大小便[:：]\s*/gu, '')
+        .replace(/体重变化/gu, '体重')
+        .trim()
+        .replace(/[。；，、]+$/u, '');
+
+      const withWeightJin = (() => {
+        if (!(Number.isFinite(weightJin) && weightJin > 0)) {return normalizedBase;}
+        if (/体重(?:下降|增加)\d+斤/u.test(normalizedBase)) {return normalizedBase;}
+        return normalizedBase.replace(/体重(下降|增加)(?!\d+斤)/u, (_m, dir) => `体重${dir}${weightJin}斤`);
+      })();
+
+      const extraParts: string[] = [];
+      if (spiritVal && !/精神/u.test(withWeightJin)) {extraParts.push(`精神${spiritVal}`);}
+      if (appetiteVal && !/食欲/u.test(withWeightJin)) {extraParts.push(`食欲${appetiteVal}`);}
+      if (sleepVal && !/睡眠/u.test(withWeightJin)) {extraParts.push(`睡眠${sleepVal}`);}
+      if (strengthVal && !/体力/u.test(withWeightJin)) {extraParts.push(`体力${strengthVal}`);}
+      if (excretionVal && !/(小便|大便|二便|大小便)/u.test(withWeightJin)) {extraParts.push(excretionVal);}
+      if (weightVal && !/体重/u.test(withWeightJin)) {extraParts.push(`体重${weightVal}`);}
+
+      const merged = [withWeightJin, ...extraParts].filter(Boolean).join('、').replace(/[。；，、]+$/u, '');
+      return `发病以来，患者${merged}。`.replace(/患者患者/gu, '患者');
+    }
+
+    const spirit = normalizeField(values.spirit, 'spirit') || '未详';
+    const appetite = normalizeField(values.appetite, 'appetite') || '未详';
+    const sleep = normalizeField(values.sleep, 'sleep') || '未详';
+    const strength = normalizeField(values.strength, 'strength') || '未详';
+    const excretionRaw = formatUrineStool(values.urine_stool);
+    const excretion = (() => {
+      if (!excretionRaw) {return '二便未详';}
+      const cleaned = String(excretionRaw).trim().replace(/^大小便/u, '').trim().replace(/^[:：]/u, '').trim();
+      if (!cleaned) {return '二便未详';}
+      if (/^(小便|大便|二便)/u.test(cleaned)) {return cleaned;}
+      return `二便${cleaned}`;
+    })();
+    const weightRaw = normalizeField(values.weight, 'weight');
+    const weight = (weightRaw === '无变化' ? '无明显变化' : weightRaw) || '未详';
+    const weightJinRaw = normalizeText((values as Record<string, unknown>).weight_change_jin);
+    const weightJin = Number(weightJinRaw);
+    const weightText = (() => {
+      if (!weight || weight === '未详') {return weight;}
+      if (/斤/u.test(weight)) {return weight;}
+      if ((weight === '下降' || weight === '增加') && Number.isFinite(weightJin) && weightJin > 0) {return `${weight}${weightJin}斤`;}
+      return weight;
+    })();
+    return `发病以来，患者精神${spirit}、体力${strength}、食欲${appetite}、睡眠${sleep}、${excretion}、体重${weightText}。`;
+  })();
+
+  const hpiLine1 = (() => {
+    const modeClause = onsetModeText ? `${onsetModeText}性` : '';
+    const symptomClause = symptomFeatures ? `${symptomCore}，${symptomFeatures}` : symptomCore;
+    const triggerClause = triggerText ? (triggerText.endsWith('后') ? triggerText : `${triggerText}后`) : '无明显诱因后';
+    const head = `患者${onsetTime}，在${triggerClause}${modeClause}起病，初起表现为${symptomClause}。`.replace(/，，/gu, '，');
+
+    const evolutionClause = (() => {
+      const ev = evolutionText;
+      const assoc = assocText ? assocText.replace(/^并出现/u, '').replace(/^出现/u, '').trim() : '';
+      const neg = negativeText ? negativeText.replace(/[。；，、]+$/u, '') : '';
+      if (!ev && !assoc && !neg) {return '';}
+      if (ev) {
+        const cleanedEv = ev.replace(/[。；，、]+$/u, '');
+        const filteredAssoc = (() => {
+          if (!assoc) {return '';}
+          const tokens = assoc
+            .replace(/[。！？]+$/u, '')
+            .split(/[、，,；;]+/u)
+            .map(s => String(s || '').trim())
+            .filter(Boolean);
+          if (tokens.length <= 1) {
+            const t = tokens[0] || assoc;
+            return t && cleanedEv.includes(t) ? '' : assoc;
+          }
+          const kept = tokens.filter(t => t && !cleanedEv.includes(t));
+          return kept.join('、');
+        })();
+        const evLooksComplete = /[，,。；;：:\n]/u.test(cleanedEv) || /出现|伴有|伴随|并发|加重|减轻|缓解/u.test(cleanedEv);
+        const baseEv = evLooksComplete ? `随后，${cleanedEv}` : `随后，病情逐渐${cleanedEv}`;
+        const tailParts = [filteredAssoc ? `并出现${filteredAssoc}` : undefined, neg || undefined].filter(Boolean);
+        const tail = tailParts.length > 0 ? `，${tailParts.join('，')}` : '';
+        return ensureSentenceEnd(`${baseEv}${tail}`.replace(/[。；，、]+$/u, ''));
+      }
+      const tailParts = [assoc ? `出现${assoc}` : undefined, neg || undefined].filter(Boolean);
+      if (tailParts.length === 0) {return '';}
+      return ensureSentenceEnd(`随后，${tailParts.join('，')}`.replace(/[。；，、]+$/u, ''));
+    })();
+
+    const arrive = '为求进一步诊治，遂来我院就诊。';
+    const dx = normalizeDx(values.admissionDiagnosis);
+    const admit = dx ? `门诊以“${dx}”收入我科。` : '';
+    return [head, evolutionClause, treatmentText, arrive, admit].filter(Boolean).join('');
+  })();
+
+  return `${hpiLine1}\n${generalSentence}`;
+}
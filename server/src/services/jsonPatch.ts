@@ -0,0 +1,60 @@
+/**
+ * JSON Patch（RFC 6902）差异计算
+ * 对象按键递归比较；数组按下标比较，尾部增删分别生成 add/remove；类型不同或标量变化生成 replace
+ */
+
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown };
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * JSON Pointer（RFC 6901）路径片段转义
+ */
+const escapePointer = (key: string): string => key.replace(/~/g, '~0').replace(/\//g, '~1');
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+function diffInto(before: unknown, after: unknown, path: string, ops: JsonPatchOperation[]): void {
+  if (isEqual(before, after)) {return;}
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(before)) {
+      const child = `${path}/${escapePointer(key)}`;
+      if (!(key in after) || after[key] === undefined) {
+        if (before[key] !== undefined) {ops.push({ op: 'remove', path: child });}
+      } else {
+        diffInto(before[key], after[key], child, ops);
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (after[key] !== undefined && (!(key in before) || before[key] === undefined)) {
+        ops.push({ op: 'add', path: `${path}/${escapePointer(key)}`, value: after[key] });
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const shared = Math.min(before.length, after.length);
+    for (let i = 0; i < shared; i++) {diffInto(before[i], after[i], `${path}/${i}`, ops);}
+    for (let i = shared; i < after.length; i++) {ops.push({ op: 'add', path: `${path}/${i}`, value: after[i] });}
+    // 从尾部删除，保证后续操作的下标不受影响
+    for (let i = before.length - 1; i >= shared; i--) {ops.push({ op: 'remove', path: `${path}/${i}` });}
+    return;
+  }
+
+  ops.push({ op: 'replace', path, value: after });
+}
+
+/**
+ * 计算由 before 变为 after 的 JSON Patch；整体由空变为有值时为根路径的 replace
+ */
+export function diffJson(before: unknown, after: unknown): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+  diffInto(before ?? null, after ?? null, '', ops);
+  return ops;
+}
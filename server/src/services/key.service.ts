@@ -1,10 +1,15 @@
 /**
  * 用户密钥服务
- * 处理用户密钥的服务器端存储和同步
+ * 处理用户密钥的服务器端存储和同步；每个公钥登记为一个密钥版本，密文记录标记所用版本。
+ * 轮换时由客户端用旧私钥解密、新公钥加密，服务器只校验并写回密文（修订历史中的快照保留原密文）
  */
 
 import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { ENCRYPTED_PREFIX, isEnvelopeEncrypted } from '../utils/cryptoService';
 import { secureLogger } from '../utils/secureLogger';
+import { REVISION_SECTIONS } from './sessionRevision.service';
 
 /**
  * 密钥数据接口
@@ -15,24 +20,161 @@ export interface KeyData {
   keyFingerprint: string;
 }
 
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface StoredKeyVersion {
+  version: number;
+  // 是否由旧密钥轮换而来（需重新加密旧密文）
+  rotated: boolean;
+}
+
+export interface KeyVersionSummary {
+  version: number;
+  keyFingerprint: string;
+  isCurrent: boolean;
+  isRevoked: boolean;
+  createdAt: Date;
+  revokedAt: Date | null;
+  // 仍使用该版本密文的记录数
+  sessionCount: number;
+  patientCount: number;
+  // 用该版本公钥包装的会话数据密钥数
+  grantCount: number;
+}
+
+export type RotationRecordType = 'session' | 'patient' | 'sessionKey';
+
+export interface RotationItem {
+  id: number;
+  version: number;
+  // 仅包含含密文的字段
+  fields: Record<string, unknown>;
+}
+
+export interface RotationBatch {
+  version: number;
+  items: RotationItem[];
+  nextCursor: number;
+  done: boolean;
+}
+
 /**
- * 存储用户密钥到服务器
+ * 轮换时交由客户端重新加密的字段
  */
-export async function storeUserKey(
+export const ROTATION_FIELDS: Record<RotationRecordType, readonly string[]> = {
+  session: REVISION_SECTIONS,
+  patient: ['name', 'address', 'contactInfo', 'nativePlace', 'placeOfBirth', 'occupation', 'employer'],
+  // 信封加密的会话只需重新包装数据密钥
+  sessionKey: ['wrappedKey'],
+};
+
+/**
+ * 值中是否含有以用户公钥加密的客户端密文（递归检查对象与数组）。
+ * 信封加密的密文由会话数据密钥加密，不随用户密钥轮换，不计入
+ */
+export function containsCiphertext(value: unknown): boolean {
+  if (typeof value === 'string') {return value.startsWith(ENCRYPTED_PREFIX) && !isEnvelopeEncrypted(value);}
+  if (Array.isArray(value)) {return value.some(containsCiphertext);}
+  if (value && typeof value === 'object') {return Object.values(value).some(containsCiphertext);}
+  return false;
+}
+
+/**
+ * after 是否只是 before 的重新加密：结构与明文部分不变，原密文位置仍为密文
+ */
+export function isReencryptionOf(before: unknown, after: unknown): boolean {
+  if (typeof before === 'string' && before.startsWith(ENCRYPTED_PREFIX)) {
+    return typeof after === 'string' && after.startsWith(ENCRYPTED_PREFIX);
+  }
+  if (Array.isArray(before)) {
+    return Array.isArray(after) && before.length === after.length && before.every((v, i) => isReencryptionOf(v, after[i]));
+  }
+  if (before && typeof before === 'object') {
+    if (!after || typeof after !== 'object' || Array.isArray(after)) {return false;}
+    const keys = Object.keys(before);
+    const afterObj = after as Record<string, unknown>;
+    return keys.length === Object.keys(afterObj).length &&
+      keys.every(k => k in afterObj && isReencryptionOf((before as Record<string, unknown>)[k], afterObj[k]));
+  }
+  return before === after;
+}
+
+const findCurrentVersion = (db: Db, operatorId: number) =>
+  db.keyVersion.findFirst({ where: { operatorId }, orderBy: { version: 'desc' } });
+
+/**
+ * 当前密钥版本 ID，用于标记新写入的密文；未登记密钥时为 null
+ */
+export async function currentKeyVersionId(operatorId: number, db: Db = prisma): Promise<number | null> {
+  const current = await findCurrentVersion(db, operatorId);
+  return current?.id ?? null;
+}
+
+/**
+ * 写入密文时应标记的密钥版本：记录尚未标记时取写入者的当前版本；
+ * 已标记的记录保留原标记（可能仍含旧版本密文），由轮换统一迁移
+ */
+export async function keyVersionForWrite(
+  db: Db,
+  operatorId: number | undefined,
+  existingKeyVersionId: number | null | undefined,
+  values: unknown[]
+): Promise<number | undefined> {
+  if (!operatorId || existingKeyVersionId || !containsCiphertext(values)) {return undefined;}
+  return (await currentKeyVersionId(operatorId, db)) ?? undefined;
+}
+
+async function saveKeyVersion(
+  tx: Prisma.TransactionClient,
   operatorId: number,
+  current: { id: number; version: number; publicKey: string } | null,
   keyData: KeyData
-): Promise<void> {
-  await prisma.operator.update({
-    where: { id: operatorId },
+): Promise<StoredKeyVersion> {
+  if (current && current.publicKey === keyData.publicKey) {
+    await tx.keyVersion.update({
+      where: { id: current.id },
+      data: { encryptedPrivateKey: keyData.encryptedPrivateKey },
+    });
+    return { version: current.version, rotated: false };
+  }
+  const version = (current?.version ?? 0) + 1;
+  await tx.keyVersion.create({
     data: {
+      operatorId,
+      version,
       publicKey: keyData.publicKey,
       encryptedPrivateKey: keyData.encryptedPrivateKey,
       keyFingerprint: keyData.keyFingerprint,
-      keyCreatedAt: new Date(),
     },
   });
+  return { version, rotated: current !== null };
+}
 
-  secureLogger.info('[KeyService] 用户密钥已存储到服务器', { operatorId });
+/**
+ * 存储用户密钥到服务器
+ * 公钥不变时仅更新加密私钥（更改密码）；公钥变化时登记为新的密钥版本，旧版本保留供轮换时解密
+ */
+export async function storeUserKey(
+  operatorId: number,
+  keyData: KeyData
+): Promise<StoredKeyVersion> {
+  const stored = await prisma.$transaction(async (tx) => {
+    const current = await findCurrentVersion(tx, operatorId);
+    const stored = await saveKeyVersion(tx, operatorId, current, keyData);
+    await tx.operator.update({
+      where: { id: operatorId },
+      data: {
+        publicKey: keyData.publicKey,
+        encryptedPrivateKey: keyData.encryptedPrivateKey,
+        keyFingerprint: keyData.keyFingerprint,
+        keyCreatedAt: new Date(),
+      },
+    });
+    return stored;
+  });
+
+  secureLogger.info('[KeyService] 用户密钥已存储到服务器', { operatorId, ...stored });
+  return stored;
 }
 
 /**
@@ -61,6 +203,22 @@ export async function getUserKey(
   };
 }
 
+/**
+ * 获取用户当前公钥（公开信息，用于为其包装会话数据密钥）
+ */
+export async function getPublicKey(
+  operatorId: number
+): Promise<{ operatorId: number; version: number; publicKey: string; keyFingerprint: string } | null> {
+  const current = await findCurrentVersion(prisma, operatorId);
+  if (!current) {return null;}
+  return {
+    operatorId,
+    version: current.version,
+    publicKey: current.publicKey,
+    keyFingerprint: current.keyFingerprint,
+  };
+}
+
 /**
  * 检查用户是否有服务器密钥
  */
@@ -92,3 +250,188 @@ export async function deleteUserKey(operatorId: number): Promise<void> {
 
   secureLogger.info('[KeyService] 用户密钥已从服务器删除', { operatorId });
 }
+
+/**
+ * 轮换密钥：登记新的密钥版本并设为当前密钥，旧版本密文由客户端分批重新加密
+ */
+export async function rotateUserKey(operatorId: number, keyData: KeyData): Promise<StoredKeyVersion> {
+  const current = await findCurrentVersion(prisma, operatorId);
+  if (!current) {throw ErrorTypes.Conflict('尚未创建密钥，无法轮换');}
+  if (current.publicKey === keyData.publicKey) {throw ErrorTypes.BadRequest('新密钥与当前密钥相同');}
+  return await storeUserKey(operatorId, keyData);
+}
+
+/**
+ * 密钥版本列表（新的在前）
+ */
+export async function listKeyVersions(operatorId: number): Promise<KeyVersionSummary[]> {
+  const versions = await prisma.keyVersion.findMany({
+    where: { operatorId },
+    orderBy: { version: 'desc' },
+    include: { _count: { select: { sessions: true, patients: true, sessionKeyGrants: true } } },
+  });
+  return versions.map((v, index) => ({
+    version: v.version,
+    keyFingerprint: v.keyFingerprint,
+    isCurrent: index === 0,
+    isRevoked: v.isRevoked,
+    createdAt: v.createdAt,
+    revokedAt: v.revokedAt,
+    sessionCount: v._count.sessions,
+    patientCount: v._count.patients,
+    grantCount: v._count.sessionKeyGrants,
+  }));
+}
+
+const findVersion = async (operatorId: number, version: number) => {
+  const found = await prisma.keyVersion.findFirst({ where: { operatorId, version } });
+  if (!found) {throw ErrorTypes.NotFound('密钥版本');}
+  return found;
+};
+
+/**
+ * 获取旧版本密钥，供客户端解密该版本的密文（已吊销的版本不再提供私钥）
+ */
+export async function getKeyVersion(operatorId: number, version: number): Promise<KeyData & { version: number }> {
+  const found = await findVersion(operatorId, version);
+  if (found.isRevoked || !found.encryptedPrivateKey) {throw ErrorTypes.Conflict('该密钥版本已吊销');}
+  return {
+    version: found.version,
+    publicKey: found.publicKey,
+    encryptedPrivateKey: found.encryptedPrivateKey,
+    keyFingerprint: found.keyFingerprint,
+  };
+}
+
+const rotationSelect = (type: RotationRecordType) => ({
+  id: true,
+  keyVersion: { select: { version: true } },
+  ...Object.fromEntries(ROTATION_FIELDS[type].map(f => [f, true])),
+});
+
+const findRotationRecords = (type: RotationRecordType, where: Record<string, unknown>, take?: number) => {
+  const args = { where, select: rotationSelect(type), orderBy: { id: 'asc' as const }, take };
+  const query = {
+    session: () => prisma.interviewSession.findMany(args as Prisma.InterviewSessionFindManyArgs),
+    patient: () => prisma.patient.findMany(args as Prisma.PatientFindManyArgs),
+    sessionKey: () => prisma.sessionKeyGrant.findMany(args as Prisma.SessionKeyGrantFindManyArgs),
+  }[type];
+  return query() as unknown as Promise<Array<Record<string, unknown> & { id: number; keyVersion: { version: number } | null }>>;
+};
+
+const ciphertextFields = (type: RotationRecordType, record: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(ROTATION_FIELDS[type].filter(f => containsCiphertext(record[f])).map(f => [f, record[f]]));
+
+/**
+ * 取下一批仍使用旧版本密钥的记录，按 ID 递增，客户端以 nextCursor 续取；
+ * 已迁移的记录不再返回，因此中断后从任意游标重新开始均可
+ */
+export async function getRotationBatch(
+  operatorId: number,
+  options: { type: RotationRecordType; cursor: number; limit: number }
+): Promise<RotationBatch> {
+  const current = await findCurrentVersion(prisma, operatorId);
+  if (!current) {throw ErrorTypes.NotFound('密钥');}
+
+  const records = await findRotationRecords(options.type, {
+    id: { gt: options.cursor },
+    keyVersion: { operatorId, version: { lt: current.version } },
+  }, options.limit);
+
+  return {
+    version: current.version,
+    items: records
+      .map(r => ({ id: r.id, version: r.keyVersion?.version ?? 0, fields: ciphertextFields(options.type, r) }))
+      .filter(item => Object.keys(item.fields).length > 0),
+    nextCursor: records.length > 0 ? records[records.length - 1].id : options.cursor,
+    done: records.length < options.limit,
+  };
+}
+
+/**
+ * 写回客户端重新加密的一批记录并标记为当前版本。
+ * 仅接受对原密文的重新加密（结构与明文不变）；不符合的记录跳过，保留旧版本待下次处理
+ */
+export async function submitRotationBatch(
+  operatorId: number,
+  input: { type: RotationRecordType; version: number; items: Array<{ id: number; fields: Record<string, unknown> }> }
+): Promise<{ updated: number[]; skipped: number[] }> {
+  const current = await findCurrentVersion(prisma, operatorId);
+  if (!current) {throw ErrorTypes.NotFound('密钥');}
+  if (input.version !== current.version) {throw ErrorTypes.Conflict('密钥已再次轮换，请使用最新密钥重新加密');}
+
+  const records = await findRotationRecords(input.type, {
+    id: { in: input.items.map(i => i.id) },
+    keyVersion: { operatorId, version: { lt: current.version } },
+  });
+  const byId = new Map(records.map(r => [r.id, r]));
+
+  const updated: number[] = [];
+  const skipped: number[] = [];
+  await prisma.$transaction(async (tx) => {
+    for (const item of input.items) {
+      const record = byId.get(item.id);
+      const expected = record ? ciphertextFields(input.type, record) : null;
+      const valid = expected !== null &&
+        Object.keys(expected).length === Object.keys(item.fields).length &&
+        Object.entries(expected).every(([f, before]) => f in item.fields && isReencryptionOf(before, item.fields[f]));
+      if (!valid) {
+        skipped.push(item.id);
+        continue;
+      }
+      // 重新加密不改变病历内容，不记入修订历史
+      const data = { ...item.fields, keyVersionId: current.id };
+      if (input.type === 'session') {
+        await tx.interviewSession.update({ where: { id: item.id }, data: data as Prisma.InterviewSessionUncheckedUpdateInput });
+      } else if (input.type === 'patient') {
+        await tx.patient.update({ where: { id: item.id }, data: data as Prisma.PatientUncheckedUpdateInput });
+      } else {
+        await tx.sessionKeyGrant.update({ where: { id: item.id }, data: data as Prisma.SessionKeyGrantUncheckedUpdateInput });
+      }
+      updated.push(item.id);
+    }
+  });
+
+  secureLogger.info('[KeyService] 密钥轮换批次已写入', {
+    operatorId,
+    type: input.type,
+    version: current.version,
+    updated: updated.length,
+    skipped: skipped.length,
+  });
+  return { updated, skipped };
+}
+
+/**
+ * 吊销旧密钥版本并删除其私钥。
+ * 不含密文的记录直接解除标记；仍有记录使用该版本密文时拒绝吊销。
+ * 修订快照不参与轮换，吊销后引用该版本的快照不能再恢复
+ */
+export async function revokeKeyVersion(operatorId: number, version: number): Promise<void> {
+  const found = await findVersion(operatorId, version);
+  const current = await findCurrentVersion(prisma, operatorId);
+  if (current?.id === found.id) {throw ErrorTypes.Conflict('不能吊销当前密钥');}
+  if (found.isRevoked) {return;}
+
+  const where = { keyVersionId: found.id };
+  const [sessions, patients, grants] = await Promise.all([
+    findRotationRecords('session', where),
+    findRotationRecords('patient', where),
+    findRotationRecords('sessionKey', where),
+  ]);
+  const inUse = sessions.filter(r => Object.keys(ciphertextFields('session', r)).length > 0).length +
+    patients.filter(r => Object.keys(ciphertextFields('patient', r)).length > 0).length +
+    grants.length;
+  if (inUse > 0) {throw ErrorTypes.Conflict(`仍有 ${inUse} 条记录使用该版本密钥，请先完成重新加密`);}
+
+  await prisma.$transaction(async (tx) => {
+    await tx.interviewSession.updateMany({ where, data: { keyVersionId: null } });
+    await tx.patient.updateMany({ where, data: { keyVersionId: null } });
+    await tx.keyVersion.update({
+      where: { id: found.id },
+      data: { isRevoked: true, revokedAt: new Date(), encryptedPrivateKey: null },
+    });
+  });
+
+  secureLogger.info('[KeyService] 密钥版本已吊销', { operatorId, version });
+}
@@ -2,6 +2,7 @@ import prisma from '../prisma';
 import { Prisma } from '@prisma/client';
 import { cache } from '../utils/cache';
 import { secureLogger } from '../utils/secureLogger';
+import { SYMPTOM_KEY_ALIASES } from './mapping.service';
 
 // 症状知识库数据类型
 export interface SymptomKnowledgeData {
@@ -62,20 +63,6 @@ export const getKnowledgeSince = async (since: Date): Promise<Prisma.SymptomKnow
   });
 };
 
-/**
- * 症状 key 别名映射
- * 用于将拆分后的症状 key 映射到统一的知识库
- */
-const SYMPTOM_KEY_ALIASES: Record<string, string> = {
-  'oliguria': 'oliguria_anuria_polyuria',
-  'anuria': 'oliguria_anuria_polyuria',
-  'polyuria': 'oliguria_anuria_polyuria',
-  'expectoration': 'cough_and_expectoration',
-  'cough': 'cough_and_expectoration',
-  'nausea': 'nausea_vomiting',
-  'vomiting': 'nausea_vomiting',
-};
-
 /**
  * 根据 Key 或 DisplayName 获取症状知识（带缓存）
  * 支持通过 symptomKey、displayName 或模糊匹配查询
@@ -180,16 +167,21 @@ export const upsertKnowledge = async (data: SymptomKnowledgeData): Promise<Prism
     },
   });
 
-  // 清除相关缓存（测试环境跳过）
-  if (process.env.NODE_ENV !== 'test') {
-    await cache.delete(`knowledge:key:${data.symptomKey}`);
-    await cache.deleteByTag('knowledge');
-    secureLogger.debug('[KnowledgeService] 清除知识库缓存', { key: data.symptomKey });
-  }
+  await invalidateKnowledgeCache(data.symptomKey);
 
   return result;
 };
 
+/**
+ * 清除知识库相关缓存（测试环境跳过）
+ */
+export const invalidateKnowledgeCache = async (symptomKey: string): Promise<void> => {
+  if (process.env.NODE_ENV === 'test') {return;}
+  await cache.delete(`knowledge:key:${symptomKey}`);
+  await cache.deleteByTag('knowledge');
+  secureLogger.debug('[KnowledgeService] 清除知识库缓存', { key: symptomKey });
+};
+
 /**
  * 统计知识库条目数量
  */
@@ -0,0 +1,225 @@
+/**
+ * 知识库文件同步
+ * 扫描 knowledge_base 目录下的 JSON 文件，按内容哈希增量生成待审核的知识草稿（不直接改动线上条目），
+ * 并在 knowledge_sources 中记录每个文件的处理状态；可监听目录变化自动同步
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { z } from 'zod';
+import prisma from '../prisma';
+import { fileConfig, knowledgeSyncConfig } from '../config';
+import { secureLogger } from '../utils/secureLogger';
+import { eventBus } from './eventBus.service';
+import { proposeDraftFromSource } from './knowledgeWorkflow.service';
+
+/**
+ * 知识库文件结构
+ */
+export const KnowledgeFileSchema = z.object({
+  symptomKey: z.string().regex(/^[a-z][a-z0-9_]*$/, 'symptomKey 只能包含小写字母、数字和下划线'),
+  displayName: z.string().min(1, 'displayName 不能为空'),
+  requiredQuestions: z.array(z.string()).default([]),
+  associatedSymptoms: z.array(z.string()).default([]),
+  redFlags: z.array(z.string()).default([]),
+  physicalSigns: z.array(z.string()).default([]),
+});
+
+export type KnowledgeFileData = z.infer<typeof KnowledgeFileSchema>;
+
+export interface KnowledgeSyncResult {
+  scanned: number;
+  // 与线上内容不同、已生成待审核草稿的文件
+  drafted: Array<{ file: string; symptomKey: string; draftId: number }>;
+  unchanged: number;
+  errors: Array<{ file: string; message: string }>;
+  removed: string[];
+}
+
+/**
+ * 解析并校验单个文件内容，失败时抛出带可读信息的错误
+ */
+export function parseKnowledgeFile(raw: string): KnowledgeFileData {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (e) {
+    throw new Error(`JSON 解析失败: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const parsed = KnowledgeFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; '));
+  }
+  return parsed.data;
+}
+
+const hashContent = (raw: string): string => crypto.createHash('md5').update(raw).digest('hex');
+
+export const resolveKnowledgeBaseDir = (): string => path.resolve(fileConfig.knowledgeBaseDir);
+
+/**
+ * 处理单个文件：哈希未变化时跳过，否则校验并提交待审核草稿
+ * 返回生成的草稿，文件未变化或内容与线上一致时返回 null
+ */
+const syncFile = async (filePath: string, force: boolean): Promise<{ symptomKey: string; draftId: number } | null> => {
+  const raw = await fs.promises.readFile(filePath, 'utf-8');
+  const hash = hashContent(raw);
+  const source = await prisma.knowledgeSource.findUnique({ where: { filePath } });
+  if (!force && source?.status === 'processed' && source.hash === hash) {return null;}
+
+  const data = parseKnowledgeFile(raw);
+  const draft = await proposeDraftFromSource({ ...data, note: `文件同步：${path.basename(filePath)}` });
+
+  const record = {
+    fileName: path.basename(filePath),
+    fileType: 'json',
+    hash,
+    status: 'processed',
+    errorMessage: null,
+    metadata: { symptomKey: data.symptomKey, displayName: data.displayName },
+    lastProcessedAt: new Date(),
+  };
+  await prisma.knowledgeSource.upsert({ where: { filePath }, update: record, create: { filePath, ...record } });
+  return draft ? { symptomKey: data.symptomKey, draftId: draft.id } : null;
+};
+
+const recordError = async (filePath: string, message: string): Promise<void> => {
+  const record = {
+    fileName: path.basename(filePath),
+    fileType: 'json',
+    status: 'error',
+    errorMessage: message,
+    lastProcessedAt: new Date(),
+  };
+  await prisma.knowledgeSource.upsert({ where: { filePath }, update: record, create: { filePath, ...record } });
+};
+
+/**
+ * 同步目录下全部 JSON 文件
+ * 已删除的文件标记为 error，对应的知识条目保留（需通过审核流程删除）
+ */
+export const syncKnowledgeBase = async (
+  options: { dir?: string; force?: boolean } = {}
+): Promise<KnowledgeSyncResult> => {
+  const dir = options.dir ? path.resolve(options.dir) : resolveKnowledgeBaseDir();
+  const files = (await fs.promises.readdir(dir))
+    .filter(f => f.endsWith('.json'))
+    .sort()
+    .map(f => path.join(dir, f));
+
+  const result: KnowledgeSyncResult = { scanned: files.length, drafted: [], unchanged: 0, errors: [], removed: [] };
+
+  for (const filePath of files) {
+    const file = path.basename(filePath);
+    try {
+      const drafted = await syncFile(filePath, Boolean(options.force));
+      if (drafted) {
+        result.drafted.push({ file, ...drafted });
+      } else {
+        result.unchanged++;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push({ file, message });
+      secureLogger.warn('[KnowledgeSync] 文件同步失败', { file, error: message });
+      await recordError(filePath, message);
+    }
+  }
+
+  const stale = await prisma.knowledgeSource.findMany({
+    where: { fileType: 'json', filePath: { startsWith: dir + path.sep, notIn: files } },
+  });
+  for (const source of stale.filter(s => s.status !== 'error' || s.errorMessage !== '文件已删除')) {
+    await recordError(source.filePath, '文件已删除');
+    result.removed.push(source.fileName);
+  }
+
+  // 仅通知有新的待审核草稿，线上内容的变更在审核发布时广播 knowledge_published
+  if (result.drafted.length > 0) {
+    eventBus.broadcast('knowledge_drafts_pending', {
+      drafts: result.drafted.map(({ symptomKey, draftId }) => ({ symptomKey, draftId })),
+    });
+  }
+  secureLogger.info('[KnowledgeSync] 同步完成', {
+    scanned: result.scanned,
+    drafted: result.drafted.length,
+    errors: result.errors.length,
+    removed: result.removed.length,
+  });
+  return result;
+};
+
+/**
+ * 知识库文件处理记录
+ */
+export const listKnowledgeSources = async () => {
+  return await prisma.knowledgeSource.findMany({ orderBy: { filePath: 'asc' } });
+};
+
+let watcher: fs.FSWatcher | null = null;
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+let running: Promise<unknown> | null = null;
+let rerunRequested = false;
+
+/**
+ * 执行一次同步；同步进行中再次触发时，在当前同步结束后补跑一次
+ */
+const runScheduledSync = (): void => {
+  if (running) {
+    rerunRequested = true;
+    return;
+  }
+  running = syncKnowledgeBase()
+    .catch((error: unknown) => {
+      secureLogger.error('[KnowledgeSync] 自动同步失败', error instanceof Error ? error : undefined);
+    })
+    .finally(() => {
+      running = null;
+      if (rerunRequested) {
+        rerunRequested = false;
+        runScheduledSync();
+      }
+    });
+};
+
+/**
+ * 启动目录监听：启动时先同步一次，之后文件变化经防抖后增量同步
+ */
+export function startKnowledgeWatcher(): void {
+  if (watcher || !knowledgeSyncConfig.watch) {return;}
+  const dir = resolveKnowledgeBaseDir();
+  try {
+    watcher = fs.watch(dir, (_event, filename) => {
+      if (filename && !String(filename).endsWith('.json')) {return;}
+      if (debounceTimer) {clearTimeout(debounceTimer);}
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        runScheduledSync();
+      }, knowledgeSyncConfig.debounceMs);
+    });
+  } catch (error) {
+    secureLogger.warn('[KnowledgeSync] 无法监听知识库目录', { dir, error: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  watcher.on('error', (error) => {
+    secureLogger.error('[KnowledgeSync] 目录监听出错', error);
+  });
+  secureLogger.info('[KnowledgeSync] 知识库目录监听已启动', { dir });
+  runScheduledSync();
+}
+
+/**
+ * 停止目录监听
+ */
+export function stopKnowledgeWatcher(): void {
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+    debounceTimer = null;
+  }
+  if (watcher) {
+    watcher.close();
+    watcher = null;
+    secureLogger.info('[KnowledgeSync] 知识库目录监听已停止');
+  }
+}
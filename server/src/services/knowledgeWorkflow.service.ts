@@ -0,0 +1,339 @@
+/**
+ * 知识库审核发布流程
+ * 修改先保存为草稿，提交后由另一位管理员审核；通过后写入线上条目并记录不可变的版本历史（含字段级差异），
+ * 仅已发布的版本通过 SSE 广播
+ */
+
+import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import { eventBus } from './eventBus.service';
+import { invalidateKnowledgeCache, type SymptomKnowledgeData } from './knowledge.service';
+
+export type KnowledgeDraftStatus = 'draft' | 'pending_review' | 'approved' | 'rejected';
+
+export type KnowledgeDraftRecord = Prisma.KnowledgeDraftGetPayload<object>;
+export type KnowledgeVersionRecord = Prisma.KnowledgeVersionGetPayload<object>;
+
+/**
+ * 参与草稿与版本管理的知识内容字段（symptomKey 为条目标识，不属于内容）
+ */
+export const KNOWLEDGE_CONTENT_FIELDS = [
+  'displayName',
+  'requiredQuestions',
+  'associatedSymptoms',
+  'redFlags',
+  'physicalSigns',
+  'category',
+  'priority',
+  'questions',
+  'physicalExamination',
+  'differentialPoints',
+  'description',
+  'commonCauses',
+  'onsetPatterns',
+  'severityScale',
+  'relatedExams',
+  'imageUrl',
+  'bodySystems',
+  'ageGroups',
+  'prevalence',
+] as const;
+
+export type KnowledgeContentField = (typeof KNOWLEDGE_CONTENT_FIELDS)[number];
+export type KnowledgeContent = Partial<Record<KnowledgeContentField, unknown>>;
+
+export interface KnowledgeFieldChange {
+  field: KnowledgeContentField;
+  before: unknown;
+  after: unknown;
+}
+
+export interface KnowledgeDraftInput extends SymptomKnowledgeData {
+  note?: string;
+}
+
+/**
+ * 从任意对象中提取知识内容字段（忽略 undefined）
+ */
+export function pickKnowledgeContent(source: object | null | undefined): KnowledgeContent {
+  const record = (source || {}) as Record<string, unknown>;
+  const content: KnowledgeContent = {};
+  for (const field of KNOWLEDGE_CONTENT_FIELDS) {
+    if (record[field] !== undefined) {content[field] = record[field];}
+  }
+  return content;
+}
+
+/**
+ * 计算两份知识内容的字段级差异
+ */
+export function diffKnowledgeContent(before: KnowledgeContent | null, after: KnowledgeContent): KnowledgeFieldChange[] {
+  const prev = before || {};
+  const changes: KnowledgeFieldChange[] = [];
+  for (const field of KNOWLEDGE_CONTENT_FIELDS) {
+    const a = prev[field] ?? null;
+    const b = after[field] ?? null;
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+const toJson = (value: unknown): Prisma.InputJsonValue => value as Prisma.InputJsonValue;
+
+// 线上条目中的可空 JSON 列：写入 null 时需使用 Prisma.DbNull
+const NULLABLE_JSON_FIELDS: ReadonlySet<KnowledgeContentField> = new Set([
+  'associatedSymptoms', 'redFlags', 'physicalSigns', 'questions', 'physicalExamination', 'differentialPoints',
+  'commonCauses', 'onsetPatterns', 'severityScale', 'relatedExams', 'bodySystems', 'ageGroups',
+]);
+
+/**
+ * 将知识内容转换为线上条目的写入数据
+ */
+const toKnowledgeWriteData = (symptomKey: string, content: KnowledgeContent, version: number): Prisma.SymptomKnowledgeUncheckedCreateInput => {
+  const data: Record<string, unknown> = { symptomKey, version, requiredQuestions: [] };
+  for (const [field, value] of Object.entries(content) as Array<[KnowledgeContentField, unknown]>) {
+    if (value === null && field === 'requiredQuestions') {continue;}
+    data[field] = value === null && NULLABLE_JSON_FIELDS.has(field) ? Prisma.DbNull : value;
+  }
+  return data as unknown as Prisma.SymptomKnowledgeUncheckedCreateInput;
+};
+
+const getDraftOrThrow = async (id: number): Promise<KnowledgeDraftRecord> => {
+  const draft = await prisma.knowledgeDraft.findUnique({ where: { id } });
+  if (!draft) {throw ErrorTypes.NotFound('知识草稿');}
+  return draft;
+};
+
+/**
+ * 仅草稿作者可修改或提交，避免他人改写后由自己审核通过
+ */
+const assertAuthor = (draft: KnowledgeDraftRecord, operatorId: number | undefined): void => {
+  if (!operatorId || draft.authorId !== operatorId) {throw ErrorTypes.Forbidden('仅草稿作者可修改或提交草稿');}
+};
+
+const assertStatus = (draft: KnowledgeDraftRecord, allowed: KnowledgeDraftStatus[], message: string): void => {
+  if (!allowed.includes(draft.status as KnowledgeDraftStatus)) {throw ErrorTypes.Conflict(message);}
+};
+
+/**
+ * 新建草稿；baseVersion 记录起草时的线上版本，用于发布时检测并发修改
+ */
+export const createDraft = async (input: KnowledgeDraftInput, authorId?: number): Promise<KnowledgeDraftRecord> => {
+  const live = await prisma.symptomKnowledge.findUnique({ where: { symptomKey: input.symptomKey } });
+  const content = { ...pickKnowledgeContent(live), ...pickKnowledgeContent(input) };
+  if (!content.displayName) {throw ErrorTypes.BadRequest('displayName 不能为空');}
+
+  const draft = await prisma.knowledgeDraft.create({
+    data: {
+      symptomKey: input.symptomKey,
+      baseVersion: live?.version ?? null,
+      content: toJson(content),
+      note: input.note ?? null,
+      authorId: authorId && authorId > 0 ? authorId : null,
+    },
+  });
+  secureLogger.info('[KnowledgeWorkflow] 草稿已创建', { draftId: draft.id, symptomKey: draft.symptomKey });
+  return draft;
+};
+
+/**
+ * 外部来源（如 knowledge_base 文件）提出的变更：内容与线上一致时返回 null；
+ * 同一来源尚未审核的草稿直接更新，否则新建待审核草稿，均需管理员审核后才会发布
+ */
+export const proposeDraftFromSource = async (
+  input: KnowledgeDraftInput & { note: string }
+): Promise<KnowledgeDraftRecord | null> => {
+  const live = await prisma.symptomKnowledge.findUnique({ where: { symptomKey: input.symptomKey } });
+  const content = { ...pickKnowledgeContent(live), ...pickKnowledgeContent(input) };
+  if (live && diffKnowledgeContent(pickKnowledgeContent(live), content).length === 0) {return null;}
+
+  const pending = {
+    baseVersion: live?.version ?? null,
+    content: toJson(content),
+    status: 'pending_review',
+    submittedAt: new Date(),
+  };
+  const existing = await prisma.knowledgeDraft.findFirst({
+    where: { symptomKey: input.symptomKey, note: input.note, authorId: null, status: { in: ['draft', 'pending_review'] } },
+  });
+  const draft = existing
+    ? await prisma.knowledgeDraft.update({ where: { id: existing.id }, data: pending })
+    : await prisma.knowledgeDraft.create({ data: { symptomKey: input.symptomKey, note: input.note, ...pending } });
+  secureLogger.info('[KnowledgeWorkflow] 外部来源变更已提交审核', { draftId: draft.id, symptomKey: draft.symptomKey });
+  return draft;
+};
+
+/**
+ * 草稿列表
+ */
+export const listDrafts = async (filters: { status?: KnowledgeDraftStatus; symptomKey?: string } = {}): Promise<KnowledgeDraftRecord[]> => {
+  return await prisma.knowledgeDraft.findMany({
+    where: {
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.symptomKey ? { symptomKey: filters.symptomKey } : {}),
+    },
+    orderBy: { updatedAt: 'desc' },
+  });
+};
+
+/**
+ * 草稿详情，附带相对当前线上内容的字段差异
+ */
+export const getDraftWithChanges = async (id: number): Promise<{
+  draft: KnowledgeDraftRecord;
+  liveVersion: number | null;
+  changes: KnowledgeFieldChange[];
+}> => {
+  const draft = await getDraftOrThrow(id);
+  const live = await prisma.symptomKnowledge.findUnique({ where: { symptomKey: draft.symptomKey } });
+  return {
+    draft,
+    liveVersion: live?.version ?? null,
+    changes: diffKnowledgeContent(live ? pickKnowledgeContent(live) : null, draft.content as KnowledgeContent),
+  };
+};
+
+/**
+ * 修改草稿内容（仅作者，且仅草稿或已驳回状态；已驳回的草稿修改后回到草稿状态）
+ */
+export const updateDraft = async (
+  id: number,
+  input: Partial<KnowledgeDraftInput>,
+  operatorId: number | undefined
+): Promise<KnowledgeDraftRecord> => {
+  const draft = await getDraftOrThrow(id);
+  assertAuthor(draft, operatorId);
+  assertStatus(draft, ['draft', 'rejected'], '仅草稿或已驳回的草稿可修改');
+  const content = { ...(draft.content as KnowledgeContent), ...pickKnowledgeContent(input) };
+  return await prisma.knowledgeDraft.update({
+    where: { id },
+    data: {
+      content: toJson(content),
+      status: 'draft',
+      ...(input.note !== undefined ? { note: input.note } : {}),
+    },
+  });
+};
+
+/**
+ * 提交审核（仅作者）
+ */
+export const submitDraft = async (id: number, operatorId: number | undefined): Promise<KnowledgeDraftRecord> => {
+  const draft = await getDraftOrThrow(id);
+  assertAuthor(draft, operatorId);
+  assertStatus(draft, ['draft', 'rejected'], '该草稿已提交或已审核');
+  return await prisma.knowledgeDraft.update({
+    where: { id },
+    data: { status: 'pending_review', submittedAt: new Date(), reviewerId: null, reviewComment: null, reviewedAt: null },
+  });
+};
+
+/**
+ * 驳回草稿
+ */
+export const rejectDraft = async (id: number, reviewerId: number | undefined, comment?: string): Promise<KnowledgeDraftRecord> => {
+  const draft = await getDraftOrThrow(id);
+  assertStatus(draft, ['pending_review'], '仅待审核的草稿可驳回');
+  return await prisma.knowledgeDraft.update({
+    where: { id },
+    data: { status: 'rejected', reviewerId: reviewerId ?? null, reviewComment: comment ?? null, reviewedAt: new Date() },
+  });
+};
+
+/**
+ * 审核通过并发布：写入线上条目、生成新版本并广播
+ * 审核人不能是草稿作者；起草后线上版本已变化时拒绝发布
+ */
+export const approveDraft = async (id: number, reviewerId: number | undefined, comment?: string): Promise<KnowledgeVersionRecord> => {
+  const draft = await getDraftOrThrow(id);
+  assertStatus(draft, ['pending_review'], '仅待审核的草稿可审核通过');
+  if (!reviewerId || reviewerId === draft.authorId) {
+    throw ErrorTypes.Forbidden('草稿需由作者以外的管理员审核');
+  }
+
+  const content = draft.content as KnowledgeContent;
+  const published = await prisma.$transaction(async (tx) => {
+    const live = await tx.symptomKnowledge.findUnique({ where: { symptomKey: draft.symptomKey } });
+    if ((live?.version ?? null) !== draft.baseVersion) {
+      throw ErrorTypes.Conflict('知识条目在起草后已被更新，请基于最新版本重新起草');
+    }
+
+    const nextVersion = (live?.version ?? 0) + 1;
+    const data = toKnowledgeWriteData(draft.symptomKey, content, nextVersion);
+    await tx.symptomKnowledge.upsert({
+      where: { symptomKey: draft.symptomKey },
+      update: data,
+      create: data,
+    });
+
+    const version = await tx.knowledgeVersion.create({
+      data: {
+        symptomKey: draft.symptomKey,
+        version: nextVersion,
+        content: toJson(content),
+        changes: toJson(diffKnowledgeContent(live ? pickKnowledgeContent(live) : null, content)),
+        draftId: draft.id,
+        authorId: draft.authorId,
+        approvedBy: reviewerId,
+        note: draft.note,
+      },
+    });
+
+    await tx.knowledgeDraft.update({
+      where: { id: draft.id },
+      data: { status: 'approved', reviewerId, reviewComment: comment ?? null, reviewedAt: new Date() },
+    });
+    return version;
+  });
+
+  await invalidateKnowledgeCache(draft.symptomKey);
+  eventBus.broadcast('knowledge_published', {
+    symptomKey: published.symptomKey,
+    version: published.version,
+    changes: published.changes,
+  });
+  secureLogger.info('[KnowledgeWorkflow] 知识条目已发布', { symptomKey: published.symptomKey, version: published.version });
+  return published;
+};
+
+/**
+ * 条目的已发布版本历史（新版本在前）
+ */
+export const listVersions = async (symptomKey: string): Promise<KnowledgeVersionRecord[]> => {
+  return await prisma.knowledgeVersion.findMany({
+    where: { symptomKey },
+    orderBy: { version: 'desc' },
+  });
+};
+
+/**
+ * 获取指定版本
+ */
+export const getVersion = async (symptomKey: string, version: number): Promise<KnowledgeVersionRecord> => {
+  const record = await prisma.knowledgeVersion.findUnique({ where: { symptomKey_version: { symptomKey, version } } });
+  if (!record) {throw ErrorTypes.NotFound('知识版本');}
+  return record;
+};
+
+/**
+ * 回滚到历史版本：以该版本内容生成待审核草稿，审核通过后作为新版本发布（历史版本保持不变）
+ */
+export const rollbackToVersion = async (symptomKey: string, version: number, operatorId?: number): Promise<KnowledgeDraftRecord> => {
+  const target = await getVersion(symptomKey, version);
+  const live = await prisma.symptomKnowledge.findUnique({ where: { symptomKey } });
+  return await prisma.knowledgeDraft.create({
+    data: {
+      symptomKey,
+      baseVersion: live?.version ?? null,
+      content: toJson(target.content),
+      status: 'pending_review',
+      note: `回滚至版本 v${version}`,
+      authorId: operatorId && operatorId > 0 ? operatorId : null,
+      submittedAt: new Date(),
+    },
+  });
+};
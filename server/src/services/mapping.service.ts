@@ -62,3 +62,17 @@ export const SYMPTOM_NAME_TO_KEY: Record<string, string> = {
   "无尿": "anuria",
   "多尿": "polyuria",
 };
+
+/**
+ * 症状 key 别名映射
+ * 用于将拆分后的症状 key 映射到统一的知识库
+ */
+export const SYMPTOM_KEY_ALIASES: Record<string, string> = {
+  'oliguria': 'oliguria_anuria_polyuria',
+  'anuria': 'oliguria_anuria_polyuria',
+  'polyuria': 'oliguria_anuria_polyuria',
+  'expectoration': 'cough_and_expectoration',
+  'cough': 'cough_and_expectoration',
+  'nausea': 'nausea_vomiting',
+  'vomiting': 'nausea_vomiting',
+};
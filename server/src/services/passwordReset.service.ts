@@ -0,0 +1,289 @@
+/**
+ * 自助重置密码
+ * 流程：发起（下发邮箱验证码并返回可用的验证方式）→ 验证邮箱验证码或安全问题 →
+ * 换取短期一次性重置凭证 → 设置新密码并吊销该用户的全部刷新会话。
+ * 加密私钥由旧密码包装，服务器无法代为重新包装，需提示用户处理
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import prisma from '../prisma';
+import { passwordResetConfig } from '../config';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { hashPassword } from '../utils/auth-helpers';
+import { canDeliverMail, sendMail } from '../utils/mailer';
+import { getRedisClient, incrWithExpire } from '../utils/redis-client';
+import { secureLogger } from '../utils/secureLogger';
+import { revokeOperatorRefreshSessions } from './refreshSession.service';
+
+export const PASSWORD_RESET_CODE_TYPE = 'password_reset';
+
+export type PasswordResetMethod = 'email' | 'security_questions';
+
+export interface PasswordResetOptions {
+  methods: PasswordResetMethod[];
+  // 脱敏后的邮箱，仅在可通过邮箱验证时返回
+  maskedEmail: string | null;
+  questions: Array<{ id: number; question: string }>;
+}
+
+export type PasswordResetVerification =
+  | { method: 'email'; code: string }
+  | { method: 'security_questions'; answers: Array<{ questionId: number; answer: string }> };
+
+export interface PasswordResetResult {
+  revokedSessions: number;
+  // 账号已创建加密密钥时为 true，需用旧密码解锁后以新密码重新包装私钥
+  keyRewrapRequired: boolean;
+}
+
+type StoredResetToken = { operatorId: number; method: PasswordResetMethod };
+
+const resetTokenByHash = new Map<string, StoredResetToken & { expiresAt: number }>();
+const verifyFailsByUser = new Map<string, { count: number; windowStart: number }>();
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+// 与登录、注册一致：用户名区分大小写，仅去除首尾空白
+const normalizeUsername = (username: string) => username.trim();
+
+export const maskEmail = (email: string): string => {
+  const [local, domain] = email.split('@');
+  if (!domain) {return '***';}
+  const visible = local.length <= 2 ? local.slice(0, 1) : local.slice(0, 2);
+  return `${visible}***@${domain}`;
+};
+
+const findOperator = (username: string) =>
+  prisma.operator.findUnique({
+    where: { username: normalizeUsername(username) },
+    select: { id: true, email: true, emailVerified: true, encryptedPrivateKey: true },
+  });
+
+/**
+ * 记录一次验证失败，返回窗口内的失败次数
+ */
+async function bumpVerifyFails(username: string): Promise<number> {
+  const ttlSeconds = Math.max(1, Math.ceil(passwordResetConfig.verifyWindowMs / 1000));
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      return await incrWithExpire(redis, `auth:pwreset:fail:${username}`, ttlSeconds);
+    } catch {
+      secureLogger.warn('[PasswordReset] Redis 计数失败，将使用内存兜底');
+    }
+  }
+  const now = Date.now();
+  const prev = verifyFailsByUser.get(username);
+  const next = !prev || now - prev.windowStart >= passwordResetConfig.verifyWindowMs
+    ? { count: 1, windowStart: now }
+    : { count: prev.count + 1, windowStart: prev.windowStart };
+  verifyFailsByUser.set(username, next);
+  return next.count;
+}
+
+async function getVerifyFails(username: string): Promise<number> {
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      return Number(await redis.get(`auth:pwreset:fail:${username}`)) || 0;
+    } catch {
+      secureLogger.warn('[PasswordReset] Redis 读取失败，将使用内存兜底');
+    }
+  }
+  const prev = verifyFailsByUser.get(username);
+  if (!prev || Date.now() - prev.windowStart >= passwordResetConfig.verifyWindowMs) {return 0;}
+  return prev.count;
+}
+
+async function clearVerifyFails(username: string): Promise<void> {
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      await redis.del(`auth:pwreset:fail:${username}`);
+    } catch {
+      secureLogger.warn('[PasswordReset] Redis 删除失败，将继续清理内存兜底');
+    }
+  }
+  verifyFailsByUser.delete(username);
+}
+
+async function issueResetToken(payload: StoredResetToken): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const key = sha256(token);
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      await redis.set(`auth:pwreset:token:${key}`, JSON.stringify(payload), {
+        PX: passwordResetConfig.tokenTtlMs,
+      });
+      return token;
+    } catch {
+      secureLogger.warn('[PasswordReset] Redis 写入失败，将使用内存兜底');
+    }
+  }
+  resetTokenByHash.set(key, { ...payload, expiresAt: Date.now() + passwordResetConfig.tokenTtlMs });
+  return token;
+}
+
+/**
+ * 取出并作废重置凭证（一次性）
+ */
+async function consumeResetToken(token: string): Promise<StoredResetToken | null> {
+  const key = sha256(token);
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      const raw = await redis.get(`auth:pwreset:token:${key}`);
+      if (raw) {
+        await redis.del(`auth:pwreset:token:${key}`);
+        return JSON.parse(raw) as StoredResetToken;
+      }
+    } catch {
+      secureLogger.warn('[PasswordReset] Redis 读取失败，将尝试内存兜底');
+    }
+  }
+  const mem = resetTokenByHash.get(key);
+  resetTokenByHash.delete(key);
+  if (!mem || Date.now() >= mem.expiresAt) {return null;}
+  return { operatorId: mem.operatorId, method: mem.method };
+}
+
+/**
+ * 发起重置：已验证邮箱的账号下发验证码（未配置可送达的邮件传输时不提供），设置了安全问题的账号返回问题列表。
+ * 用户不存在时与未设置任何验证方式的账号返回相同结果
+ */
+export async function startPasswordReset(username: string): Promise<PasswordResetOptions> {
+  const operator = await findOperator(username);
+  const options: PasswordResetOptions = { methods: [], maskedEmail: null, questions: [] };
+  if (!operator) {return options;}
+
+  if (operator.email && operator.emailVerified && canDeliverMail()) {
+    const code = String(crypto.randomInt(0, 1_000_000)).padStart(6, '0');
+    // 新验证码下发后旧验证码作废
+    await prisma.emailVerificationCode.updateMany({
+      where: { operatorId: operator.id, type: PASSWORD_RESET_CODE_TYPE, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    await prisma.emailVerificationCode.create({
+      data: {
+        email: operator.email,
+        code,
+        type: PASSWORD_RESET_CODE_TYPE,
+        operatorId: operator.id,
+        expiresAt: new Date(Date.now() + passwordResetConfig.codeTtlMs),
+      },
+    });
+    await sendMail({
+      to: operator.email,
+      subject: '重置密码验证码',
+      text: `您正在重置密码，验证码为 ${code}，${Math.round(passwordResetConfig.codeTtlMs / 60000)} 分钟内有效。如非本人操作，请忽略本邮件。`,
+    });
+    options.methods.push('email');
+    options.maskedEmail = maskEmail(operator.email);
+  }
+
+  const questions = await prisma.securityQuestion.findMany({
+    where: { operatorId: operator.id },
+    select: { id: true, question: true },
+    orderBy: { id: 'asc' },
+  });
+  if (questions.length > 0) {
+    options.methods.push('security_questions');
+    options.questions = questions;
+  }
+
+  secureLogger.info('[PasswordReset] 发起重置密码', { operatorId: operator.id, methods: options.methods });
+  return options;
+}
+
+async function verifyEmailCode(operatorId: number, code: string): Promise<boolean> {
+  const record = await prisma.emailVerificationCode.findFirst({
+    where: { operatorId, type: PASSWORD_RESET_CODE_TYPE, usedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { createdAt: 'desc' },
+  });
+  if (!record) {return false;}
+  const expected = Buffer.from(record.code);
+  const actual = Buffer.from(code.trim());
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {return false;}
+  await prisma.emailVerificationCode.update({ where: { id: record.id }, data: { usedAt: new Date() } });
+  return true;
+}
+
+/**
+ * 须回答该账号设置的全部安全问题
+ */
+async function verifySecurityAnswers(
+  operatorId: number,
+  answers: Array<{ questionId: number; answer: string }>
+): Promise<boolean> {
+  const questions = await prisma.securityQuestion.findMany({
+    where: { operatorId },
+    select: { id: true, answer: true },
+  });
+  if (questions.length === 0) {return false;}
+  const byId = new Map(answers.map(a => [a.questionId, a.answer]));
+  for (const q of questions) {
+    const answer = byId.get(q.id);
+    if (!answer || !(await bcrypt.compare(answer.trim().toLowerCase(), q.answer))) {return false;}
+  }
+  return true;
+}
+
+/**
+ * 校验邮箱验证码或安全问题，成功后签发短期重置凭证
+ */
+export async function verifyPasswordReset(
+  username: string,
+  verification: PasswordResetVerification
+): Promise<{ resetToken: string; expiresInMs: number }> {
+  const key = normalizeUsername(username);
+  if ((await getVerifyFails(key)) >= passwordResetConfig.maxVerifyFails) {
+    throw ErrorTypes.TooManyRequests('验证失败次数过多，请稍后再试');
+  }
+
+  const operator = await findOperator(username);
+  const ok = operator
+    ? verification.method === 'email'
+      ? await verifyEmailCode(operator.id, verification.code)
+      : await verifySecurityAnswers(operator.id, verification.answers)
+    : false;
+
+  if (!operator || !ok) {
+    const fails = await bumpVerifyFails(key);
+    secureLogger.warn('[PasswordReset] 重置密码验证失败', { method: verification.method, fails });
+    throw ErrorTypes.BadRequest(verification.method === 'email' ? '验证码错误或已过期' : '安全问题回答错误');
+  }
+
+  await clearVerifyFails(key);
+  const resetToken = await issueResetToken({ operatorId: operator.id, method: verification.method });
+  secureLogger.info('[PasswordReset] 重置密码验证通过', { operatorId: operator.id, method: verification.method });
+  return { resetToken, expiresInMs: passwordResetConfig.tokenTtlMs };
+}
+
+/**
+ * 使用重置凭证设置新密码，并吊销该用户的全部刷新会话
+ */
+export async function resetPassword(resetToken: string, newPassword: string): Promise<PasswordResetResult> {
+  const stored = await consumeResetToken(resetToken);
+  if (!stored) {throw ErrorTypes.Unauthorized('重置凭证无效或已过期，请重新验证');}
+
+  const operator = await prisma.operator.findUnique({
+    where: { id: stored.operatorId },
+    select: { id: true, encryptedPrivateKey: true },
+  });
+  if (!operator) {throw ErrorTypes.NotFound('用户');}
+
+  await prisma.operator.update({
+    where: { id: operator.id },
+    data: { password: await hashPassword(newPassword) },
+  });
+  await prisma.emailVerificationCode.updateMany({
+    where: { operatorId: operator.id, type: PASSWORD_RESET_CODE_TYPE, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  const revokedSessions = await revokeOperatorRefreshSessions(operator.id);
+
+  secureLogger.logSecurity('PASSWORD_RESET', { operatorId: operator.id, method: stored.method, revokedSessions });
+  return { revokedSessions, keyRewrapRequired: Boolean(operator.encryptedPrivateKey) };
+}
@@ -8,10 +8,20 @@ import { Prisma } from '@prisma/client';
 import { 
   validateEncryptedFields, 
   getEncryptionSummary,
+  ENCRYPTED_PREFIX,
   SENSITIVE_FIELDS as _SENSITIVE_FIELDS,
   SensitiveField 
 } from '../utils/cryptoService';
 import { secureLogger } from '../utils/secureLogger';
+import { ErrorTypes, rethrowPrismaError } from '../middleware/errorHandler';
+import { canAccessSession, type ReviewActor } from './sessionReview.service';
+import { ROTATION_FIELDS, containsCiphertext, keyVersionForWrite } from './key.service';
+import {
+  DUPLICATE_SCORE_THRESHOLD,
+  buildBlindIndex,
+  scoreDuplicate,
+  type DuplicateMatchField,
+} from './patientDuplicates';
 
 /**
  * 患者数据类型（支持加密字段）
@@ -29,6 +39,49 @@ export interface PatientData {
   contactInfo?: Prisma.InputJsonValue;
 }
 
+/**
+ * 患者更新数据（姓名/住址由客户端重新加密时附带加密版本）
+ */
+export interface PatientUpdateData extends Partial<PatientData> {
+  encryptionVersion?: string;
+}
+
+/**
+ * 患者时间线条目（每次问诊会话）
+ */
+export interface PatientTimelineEntry {
+  sessionId: number;
+  status: string;
+  createdAt: Date;
+  updatedAt: Date;
+  chiefComplaint: string | null;
+  diagnoses: string[];
+  // 病史为客户端密文时无法在服务端提取主诉与诊断
+  encrypted: boolean;
+  episodeId: number | null;
+  visitType: string;
+}
+
+/**
+ * 疑似重复患者
+ */
+export interface DuplicatePatientCandidate {
+  id: number;
+  name: string;
+  gender: string | null;
+  birthDate: Date | null;
+  createdAt: Date;
+  sessionCount: number;
+  score: number;
+  matchedOn: DuplicateMatchField[];
+}
+
+export interface PatientMergeResult {
+  patient: Prisma.PatientGetPayload<object>;
+  movedSessions: number;
+  mergedPatientIds: number[];
+}
+
 /**
  * 患者数据类型（包含公钥）
  */
@@ -64,13 +117,30 @@ export function validatePatientEncryption(data: PatientData): {
   };
 }
 
+const phoneOf = (contactInfo: unknown): string | null => {
+  const phone = (contactInfo as { phone?: unknown } | null | undefined)?.phone;
+  return typeof phone === 'string' ? phone : null;
+};
+
+const toBirthDate = (value?: string | Date | null): Date | null => {
+  if (!value) {return null;}
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const encryptableValues = (data: object): unknown[] =>
+  ROTATION_FIELDS.patient.map(f => (data as Record<string, unknown>)[f]);
+
+const PRISMA_ERROR_MESSAGES = { notFound: '患者' };
+
 /**
  * 创建新患者（加密数据）
  * @param data 患者数据（敏感字段应已加密）
  * @param publicKey 用户公钥
  */
 export const createPatientWithEncryption = async (
-  data: PatientDataWithKey
+  data: PatientDataWithKey,
+  operatorId?: number
 ): Promise<Prisma.PatientGetPayload<object>> => {
   const { publicKey: _publicKey, keyFingerprint: _keyFingerprint, ...patientData } = data;
 
@@ -82,8 +152,12 @@ export const createPatientWithEncryption = async (
     });
   }
 
+  const keyVersionId = await keyVersionForWrite(prisma, operatorId, null, encryptableValues(patientData));
+
   const patient = await prisma.patient.create({
     data: {
+      ...buildBlindIndex({ name: patientData.name, phone: phoneOf(patientData.contactInfo) }),
+      keyVersionId,
       name: patientData.name,
       gender: patientData.gender,
       birthDate: patientData.birthDate ? new Date(patientData.birthDate) : undefined,
@@ -110,7 +184,9 @@ export const createPatientWithEncryption = async (
  */
 export const updatePatientWithEncryption = async (
   id: number,
-  data: Partial<PatientData>
+  data: PatientUpdateData,
+  now: Date = new Date(),
+  operatorId?: number
 ): Promise<Prisma.PatientGetPayload<object>> => {
   const validation = validatePatientEncryption(data as PatientData);
 
@@ -134,10 +210,37 @@ export const updatePatientWithEncryption = async (
   if (data.employer !== undefined) {updateData.employer = data.employer;}
   if (data.contactInfo !== undefined) {updateData.contactInfo = data.contactInfo;}
 
-  const patient = await prisma.patient.update({
-    where: { id },
-    data: updateData,
-  });
+  if (data.name !== undefined) {
+    const { nameIndex, namePinyinIndex } = buildBlindIndex({ name: data.name });
+    updateData.nameIndex = nameIndex;
+    updateData.namePinyinIndex = namePinyinIndex;
+  }
+  if (data.contactInfo !== undefined) {
+    updateData.phoneIndex = buildBlindIndex({ phone: phoneOf(data.contactInfo) }).phoneIndex;
+  }
+
+  // 敏感字段以新密文写入时刷新加密元数据
+  if (validation.summary.allEncrypted) {
+    updateData.encryptionVersion = data.encryptionVersion || '1.0';
+    updateData.encryptedAt = now;
+  }
+
+  const written = encryptableValues(data);
+  if (operatorId && containsCiphertext(written)) {
+    const existing = await prisma.patient.findUnique({ where: { id }, select: { keyVersionId: true } });
+    const keyVersionId = await keyVersionForWrite(prisma, operatorId, existing?.keyVersionId, written);
+    if (keyVersionId) {updateData.keyVersion = { connect: { id: keyVersionId } };}
+  }
+
+  let patient: Prisma.PatientGetPayload<object>;
+  try {
+    patient = await prisma.patient.update({
+      where: { id },
+      data: updateData,
+    });
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
 
   secureLogger.info('[PatientService] 患者更新成功', {
     patientId: id,
@@ -152,6 +255,7 @@ export const updatePatientWithEncryption = async (
  */
 export const getAllPatients = async (): Promise<Prisma.PatientGetPayload<object>[]> => {
   return await prisma.patient.findMany({
+    where: { isSimulated: false },
     orderBy: { createdAt: 'desc' },
   });
 };
@@ -159,8 +263,77 @@ export const getAllPatients = async (): Promise<Prisma.PatientGetPayload<object>
 /**
  * 创建患者（兼容旧接口）
  */
-export const createPatient = async (data: PatientData): Promise<Prisma.PatientGetPayload<object>> => {
-  return createPatientWithEncryption(data);
+export const createPatient = async (data: PatientData, operatorId?: number): Promise<Prisma.PatientGetPayload<object>> => {
+  return createPatientWithEncryption(data, operatorId);
+};
+
+/**
+ * 查找疑似重复患者：按姓名/拼音/电话盲索引召回，相似度达到阈值的按相似度降序返回
+ */
+export const findDuplicatePatients = async (
+  data: Pick<PatientData, 'name' | 'gender' | 'birthDate' | 'contactInfo'>
+): Promise<DuplicatePatientCandidate[]> => {
+  const index = buildBlindIndex({ name: data.name, phone: phoneOf(data.contactInfo) });
+  const recall: Prisma.PatientWhereInput[] = [];
+  if (index.nameIndex) {recall.push({ nameIndex: index.nameIndex });}
+  if (index.namePinyinIndex) {recall.push({ namePinyinIndex: index.namePinyinIndex });}
+  if (index.phoneIndex) {recall.push({ phoneIndex: index.phoneIndex });}
+  if (recall.length === 0) {return [];}
+
+  const patients = await prisma.patient.findMany({
+    where: { isSimulated: false, OR: recall },
+    include: { _count: { select: { sessions: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+  });
+
+  const probe = { ...index, gender: data.gender, birthDate: toBirthDate(data.birthDate) };
+  return patients
+    .map(patient => {
+      const { score, matchedOn } = scoreDuplicate(probe, patient);
+      return {
+        id: patient.id,
+        name: patient.name,
+        gender: patient.gender,
+        birthDate: patient.birthDate,
+        createdAt: patient.createdAt,
+        sessionCount: patient._count.sessions,
+        score,
+        matchedOn,
+      };
+    })
+    .filter(candidate => candidate.score >= DUPLICATE_SCORE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 10);
+};
+
+/**
+ * 为盲索引上线前建档的患者补建索引（启动时执行；姓名为密文的患者无法补建）。
+ * 按 ID 游标分页，姓名归一化后为空等无法建索引的患者跳过，不会被重复选中
+ */
+export const backfillPatientBlindIndex = async (batchSize = 200): Promise<number> => {
+  let updated = 0;
+  let cursor = 0;
+  for (;;) {
+    const patients = await prisma.patient.findMany({
+      where: { id: { gt: cursor }, isSimulated: false, nameIndex: null, NOT: { name: { startsWith: ENCRYPTED_PREFIX } } },
+      select: { id: true, name: true, contactInfo: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    });
+    if (patients.length === 0) {break;}
+    for (const patient of patients) {
+      const index = buildBlindIndex({ name: patient.name, phone: phoneOf(patient.contactInfo) });
+      if (!index.nameIndex && !index.namePinyinIndex && !index.phoneIndex) {continue;}
+      await prisma.patient.update({ where: { id: patient.id }, data: index });
+      updated += 1;
+    }
+    cursor = patients[patients.length - 1].id;
+  }
+  if (updated > 0) {
+    secureLogger.info('[PatientService] 已补建患者查重索引', { updated });
+  }
+  return updated;
 };
 
 /**
@@ -172,6 +345,151 @@ export const getPatientById = async (id: number): Promise<Prisma.PatientGetPaylo
   });
 };
 
+/**
+ * 患者详情（含会话数）
+ */
+export const getPatientDetail = async (id: number) => {
+  const patient = await prisma.patient.findUnique({
+    where: { id },
+    include: { _count: { select: { sessions: true } } },
+  });
+  if (!patient) {throw ErrorTypes.NotFound('患者');}
+  const { _count, ...rest } = patient;
+  return { ...rest, sessionCount: _count.sessions };
+};
+
+const toRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+/**
+ * 主诉摘要：优先使用主诉文本，否则由主要症状与时长拼接
+ */
+export const chiefComplaintText = (value: unknown): string | null => {
+  const cc = toRecord(value);
+  if (typeof cc.text === 'string' && cc.text.trim()) {return cc.text.trim();}
+  if (typeof cc.symptom !== 'string' || !cc.symptom.trim()) {return null;}
+  const duration = cc.durationNum !== undefined && cc.durationNum !== null && cc.durationUnit
+    ? `${String(cc.durationNum)}${String(cc.durationUnit)}`
+    : '';
+  return `${cc.symptom.trim()}${duration}`;
+};
+
+/**
+ * 拆分入院诊断（可为“1.急性胆囊炎；2.胆囊结石”等多条）
+ */
+export const splitDiagnoses = (value: unknown): string[] => {
+  if (typeof value !== 'string') {return [];}
+  return value
+    .split(/[\n;；,，、]+/)
+    .map(item => item.replace(/^\s*\d+[.、)）]\s*/, '').trim())
+    .filter(Boolean);
+};
+
+/**
+ * 患者时间线：该患者的全部问诊会话（按时间倒序），仅包含操作者有权访问的会话
+ */
+export const getPatientTimeline = async (id: number, actor?: ReviewActor): Promise<PatientTimelineEntry[]> => {
+  const patient = await prisma.patient.findUnique({ where: { id }, select: { id: true } });
+  if (!patient) {throw ErrorTypes.NotFound('患者');}
+
+  const sessions = await prisma.interviewSession.findMany({
+    where: { patientId: id },
+    select: {
+      id: true,
+      status: true,
+      doctorId: true,
+      reviewerId: true,
+      createdAt: true,
+      updatedAt: true,
+      chiefComplaint: true,
+      presentIllness: true,
+      episodeId: true,
+      visitType: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return sessions
+    .filter(session => canAccessSession(actor, session))
+    .map(session => ({
+      sessionId: session.id,
+      status: session.status,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      chiefComplaint: chiefComplaintText(session.chiefComplaint),
+      diagnoses: splitDiagnoses(toRecord(session.presentIllness).admissionDiagnosis),
+      encrypted: typeof session.chiefComplaint === 'string' || typeof session.presentIllness === 'string',
+      episodeId: session.episodeId,
+      visitType: session.visitType,
+    }));
+};
+
+// 合并时由来源患者补全的基本信息字段（仅补全目标患者为空的字段）
+const MERGE_FILL_FIELDS = [
+  'gender',
+  'birthDate',
+  'nativePlace',
+  'placeOfBirth',
+  'ethnicity',
+  'address',
+  'occupation',
+  'employer',
+  'contactInfo',
+  'phoneIndex',
+] as const;
+
+/**
+ * 合并重复患者：来源患者的会话与诊疗经过转入目标患者，补全目标患者为空的基本信息后删除来源患者
+ */
+export const mergePatients = async (targetId: number, sourceIds: number[]): Promise<PatientMergeResult> => {
+  const uniqueSourceIds = Array.from(new Set(sourceIds));
+  if (uniqueSourceIds.includes(targetId)) {
+    throw ErrorTypes.BadRequest('不能将患者与自身合并');
+  }
+
+  const patients = await prisma.patient.findMany({ where: { id: { in: [targetId, ...uniqueSourceIds] } } });
+  const target = patients.find(p => p.id === targetId);
+  const sources = uniqueSourceIds.map(sourceId => patients.find(p => p.id === sourceId));
+  if (!target || sources.some(p => !p)) {throw ErrorTypes.NotFound('患者');}
+  if (patients.some(p => p.isSimulated)) {
+    throw ErrorTypes.BadRequest('教学练习生成的模拟患者不能合并');
+  }
+
+  const fill: Prisma.PatientUpdateInput = {};
+  for (const field of MERGE_FILL_FIELDS) {
+    if (target[field] !== null) {continue;}
+    const source = sources.find(p => p?.[field] !== null && p?.[field] !== undefined);
+    if (source) {
+      (fill as Record<string, unknown>)[field] = source[field];
+    }
+  }
+
+  try {
+    const { patient, moved } = await prisma.$transaction(async (tx) => {
+      const moved = await tx.interviewSession.updateMany({
+        where: { patientId: { in: uniqueSourceIds } },
+        data: { patientId: targetId },
+      });
+      await tx.careEpisode.updateMany({
+        where: { patientId: { in: uniqueSourceIds } },
+        data: { patientId: targetId },
+      });
+      await tx.patient.deleteMany({ where: { id: { in: uniqueSourceIds } } });
+      const patient = await tx.patient.update({ where: { id: targetId }, data: fill });
+      return { patient, moved };
+    });
+
+    secureLogger.info('[PatientService] 合并患者', {
+      patientId: targetId,
+      mergedPatientIds: uniqueSourceIds,
+      movedSessions: moved.count,
+    });
+    return { patient, movedSessions: moved.count, mergedPatientIds: uniqueSourceIds };
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
 /**
  * 删除患者
  */
@@ -189,7 +507,7 @@ export const searchPatients = async (query: {
   startDate?: Date;
   endDate?: Date;
 }): Promise<Prisma.PatientGetPayload<object>[]> => {
-  const where: Prisma.PatientWhereInput = {};
+  const where: Prisma.PatientWhereInput = { isSimulated: false };
 
   if (query.gender) {
     where.gender = query.gender;
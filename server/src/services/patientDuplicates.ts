@@ -0,0 +1,132 @@
+/**
+ * 患者查重
+ * 以盲索引（规范化姓名、姓名拼音、联系电话的 HMAC）召回疑似重复患者，再结合出生日期与性别计算相似度。
+ * 盲索引在服务端由明文生成后与密文一并保存；客户端已加密的姓名无法生成索引，此时仅按电话召回
+ */
+
+import { pinyin } from 'pinyin-pro';
+import { hash } from '../utils/encryption';
+import { ENCRYPTED_PREFIX } from '../utils/cryptoService';
+
+export interface PatientBlindIndex {
+  nameIndex: string | null;
+  namePinyinIndex: string | null;
+  phoneIndex: string | null;
+}
+
+export type DuplicateMatchField = 'name' | 'pinyin' | 'birthDate' | 'gender' | 'phone';
+
+export interface DuplicateProbe extends PatientBlindIndex {
+  gender?: string | null;
+  birthDate?: Date | null;
+}
+
+export interface DuplicateScore {
+  score: number;
+  matchedOn: DuplicateMatchField[];
+}
+
+// 达到该相似度才视为疑似重复；同名同性别（55）不足以提示，需再有出生日期或电话佐证
+export const DUPLICATE_SCORE_THRESHOLD = 60;
+
+const WEIGHTS = {
+  name: 45,
+  pinyin: 35,
+  birthDate: 30,
+  birthYear: 10,
+  gender: 10,
+  // 性别明确不同时扣分
+  genderMismatch: -30,
+  phone: 25,
+} as const;
+
+const isEncrypted = (value: string): boolean => value.startsWith(ENCRYPTED_PREFIX);
+
+/**
+ * 规范化姓名：全角转半角、忽略大小写、空白与间隔号（如“阿依古丽·买买提”）
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s·•・．.\-_']/g, '');
+}
+
+/**
+ * 姓名拼音键：汉字转无声调拼音（繁简、同音字归为同一键），拉丁字母输入的拼音姓名原样保留
+ */
+export function namePinyinKey(name: string): string {
+  const normalized = normalizeName(name);
+  if (!normalized) {return '';}
+  return pinyin(normalized, { toneType: 'none', type: 'array', nonZh: 'consecutive', v: true })
+    .join('')
+    .replace(/[^a-z]/g, '');
+}
+
+/**
+ * 规范化电话：仅保留数字并去掉 +86 国家码，过短的号码不参与查重
+ */
+export function normalizePhone(phone: string): string {
+  let digits = phone.replace(/\D/g, '');
+  if (digits.length === 13 && digits.startsWith('86')) {digits = digits.slice(2);}
+  return digits.length >= 7 ? digits : '';
+}
+
+const blindIndex = (kind: string, value: string): string | null =>
+  value ? hash.hmac(`patient:${kind}:${value}`) : null;
+
+/**
+ * 由明文姓名与电话生成盲索引；密文或缺失的字段对应索引为 null
+ */
+export function buildBlindIndex(input: { name?: string | null; phone?: string | null }): PatientBlindIndex {
+  const name = input.name && !isEncrypted(input.name) ? input.name : '';
+  const phone = input.phone && !isEncrypted(input.phone) ? input.phone : '';
+  return {
+    nameIndex: blindIndex('name', normalizeName(name)),
+    namePinyinIndex: blindIndex('pinyin', name ? namePinyinKey(name) : ''),
+    phoneIndex: blindIndex('phone', normalizePhone(phone)),
+  };
+}
+
+const dateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * 计算待建患者与已有患者的相似度（0-100）及命中的字段
+ */
+export function scoreDuplicate(probe: DuplicateProbe, candidate: DuplicateProbe): DuplicateScore {
+  const matchedOn: DuplicateMatchField[] = [];
+  let score = 0;
+
+  if (probe.nameIndex && probe.nameIndex === candidate.nameIndex) {
+    score += WEIGHTS.name;
+    matchedOn.push('name');
+  } else if (probe.namePinyinIndex && probe.namePinyinIndex === candidate.namePinyinIndex) {
+    score += WEIGHTS.pinyin;
+    matchedOn.push('pinyin');
+  }
+
+  if (probe.birthDate && candidate.birthDate) {
+    if (dateKey(probe.birthDate) === dateKey(candidate.birthDate)) {
+      score += WEIGHTS.birthDate;
+      matchedOn.push('birthDate');
+    } else if (probe.birthDate.getUTCFullYear() === candidate.birthDate.getUTCFullYear()) {
+      score += WEIGHTS.birthYear;
+    }
+  }
+
+  if (probe.gender && candidate.gender) {
+    if (probe.gender === candidate.gender) {
+      score += WEIGHTS.gender;
+      matchedOn.push('gender');
+    } else {
+      score += WEIGHTS.genderMismatch;
+    }
+  }
+
+  if (probe.phoneIndex && probe.phoneIndex === candidate.phoneIndex) {
+    score += WEIGHTS.phone;
+    matchedOn.push('phone');
+  }
+
+  return { score: Math.max(0, Math.min(100, score)), matchedOn };
+}
@@ -0,0 +1,227 @@
+/**
+ * 刷新会话存储
+ * 以 sid 为键保存刷新令牌的当前 jti 及登录设备信息（Redis 优先，不可用时使用内存兜底），
+ * 并按操作员维护 sid 索引，用于会话列表、设备下线与重置密码后吊销全部会话。
+ * 同一 sid 下轮换出的刷新令牌视为一个会话家族，旧令牌被再次使用时吊销整个家族。
+ * 会话有效期自登录起计算，刷新不续期（AUTH_REFRESH_SLIDING_TTL 开启时每次写入重新计时）
+ */
+
+import { authSessionConfig } from '../config';
+import type { TokenScope } from '../utils/auth-helpers';
+import { getRedisClient } from '../utils/redis-client';
+import { secureLogger } from '../utils/secureLogger';
+
+export interface RefreshSessionMeta {
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface RefreshSession extends RefreshSessionMeta {
+  operatorId: number;
+  role: string;
+  jti: string;
+  // 会话绝对过期时间（毫秒时间戳）
+  expiresAt: number;
+  // 两步验证绑定前签发的会话，刷新时仍只签发受限令牌
+  scope?: TokenScope;
+}
+
+export type RefreshSessionInput = Omit<RefreshSession, keyof RefreshSessionMeta | 'expiresAt'> &
+  Partial<RefreshSessionMeta> & { sid: string; expiresAt?: number };
+
+export interface ActiveRefreshSession extends RefreshSessionMeta {
+  sid: string;
+}
+
+const refreshSessionBySid = new Map<string, RefreshSession>();
+
+const sessionKey = (sid: string) => `auth:refresh:${sid}`;
+const operatorIndexKey = (operatorId: number) => `auth:refresh:operator:${operatorId}`;
+
+function cleanupExpired(now: number) {
+  for (const [k, v] of refreshSessionBySid.entries()) {
+    if (now >= v.expiresAt) {refreshSessionBySid.delete(k);}
+  }
+}
+
+/**
+ * 解析 Redis 中的会话记录；旧记录缺少设备信息时以空值补齐，缺少过期时间时按创建时间推算
+ */
+function parseSession(raw: string): RefreshSession | null {
+  const parsed = JSON.parse(raw) as Record<string, unknown>;
+  const operatorId = Number(parsed.operatorId);
+  const role = String(parsed.role || '').trim();
+  const jti = String(parsed.jti || '').trim();
+  if (!Number.isFinite(operatorId) || !role || !jti) {return null;}
+  const createdAt = Number(parsed.createdAt) || 0;
+  return {
+    operatorId,
+    role,
+    jti,
+    userAgent: typeof parsed.userAgent === 'string' ? parsed.userAgent : null,
+    ip: typeof parsed.ip === 'string' ? parsed.ip : null,
+    createdAt,
+    lastUsedAt: Number(parsed.lastUsedAt) || createdAt,
+    expiresAt: Number(parsed.expiresAt) || createdAt + authSessionConfig.refreshStoreTtlMs,
+    ...(parsed.scope === 'totp_setup' ? { scope: 'totp_setup' as const } : {}),
+  };
+}
+
+const toActive = (sid: string, s: RefreshSession): ActiveRefreshSession => ({
+  sid,
+  userAgent: s.userAgent,
+  ip: s.ip,
+  createdAt: s.createdAt,
+  lastUsedAt: s.lastUsedAt,
+});
+
+/**
+ * 写入刷新会话；已有会话沿用原过期时间，仅新会话或开启滑动续期时按当前时间计算
+ */
+export async function putRefreshSession(input: RefreshSessionInput): Promise<void> {
+  const now = Date.now();
+  const expiresAt = input.expiresAt && !authSessionConfig.refreshSlidingTtl
+    ? input.expiresAt
+    : now + authSessionConfig.refreshStoreTtlMs;
+  if (expiresAt <= now) {return;}
+  const session: RefreshSession = {
+    operatorId: input.operatorId,
+    role: input.role,
+    jti: input.jti,
+    userAgent: input.userAgent ?? null,
+    ip: input.ip ?? null,
+    createdAt: input.createdAt ?? now,
+    lastUsedAt: input.lastUsedAt ?? now,
+    expiresAt,
+    ...(input.scope ? { scope: input.scope } : {}),
+  };
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      await redis.set(sessionKey(input.sid), JSON.stringify(session), { PXAT: expiresAt });
+      await redis.sAdd(operatorIndexKey(input.operatorId), input.sid);
+      // 索引覆盖该操作员所有会话的最长剩余有效期
+      await redis.expire(operatorIndexKey(input.operatorId), Math.ceil(authSessionConfig.refreshStoreTtlMs / 1000));
+      return;
+    } catch {
+      secureLogger.warn('[auth.refresh] Redis 写入失败，将使用内存兜底');
+    }
+  }
+  refreshSessionBySid.set(input.sid, session);
+}
+
+export async function getRefreshSession(sid: string): Promise<RefreshSession | null> {
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      const raw = await redis.get(sessionKey(sid));
+      if (!raw) {return null;}
+      return parseSession(raw);
+    } catch {
+      secureLogger.warn('[auth.refresh] Redis 读取失败，将尝试内存兜底');
+    }
+  }
+  const now = Date.now();
+  cleanupExpired(now);
+  const mem = refreshSessionBySid.get(sid);
+  if (!mem || now >= mem.expiresAt) {return null;}
+  return mem;
+}
+
+export async function deleteRefreshSession(sid: string): Promise<void> {
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      await redis.del(sessionKey(sid));
+    } catch {
+      secureLogger.warn('[auth.refresh] Redis 删除失败，将继续清理内存兜底');
+    }
+  }
+  refreshSessionBySid.delete(sid);
+}
+
+/**
+ * 列出操作员的有效刷新会话（按最近使用时间倒序），顺带清理索引中已过期的 sid
+ */
+export async function listOperatorRefreshSessions(operatorId: number): Promise<ActiveRefreshSession[]> {
+  const sessions: ActiveRefreshSession[] = [];
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      const sids = await redis.sMembers(operatorIndexKey(operatorId));
+      const stale: string[] = [];
+      for (const sid of sids) {
+        const raw = await redis.get(sessionKey(sid));
+        const session = raw ? parseSession(raw) : null;
+        if (session && session.operatorId === operatorId) {
+          sessions.push(toActive(sid, session));
+        } else {
+          stale.push(sid);
+        }
+      }
+      if (stale.length > 0) {await redis.sRem(operatorIndexKey(operatorId), stale);}
+    } catch {
+      secureLogger.warn('[auth.refresh] Redis 读取会话列表失败，将使用内存兜底', { operatorId });
+    }
+  }
+  const now = Date.now();
+  cleanupExpired(now);
+  for (const [sid, session] of refreshSessionBySid.entries()) {
+    if (session.operatorId === operatorId) {sessions.push(toActive(sid, session));}
+  }
+  return sessions.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+/**
+ * 吊销操作员名下的单个会话；会话不存在或不属于该操作员时返回 false
+ */
+export async function revokeRefreshSession(operatorId: number, sid: string): Promise<boolean> {
+  const session = await getRefreshSession(sid);
+  if (!session || session.operatorId !== operatorId) {return false;}
+  await deleteRefreshSession(sid);
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      await redis.sRem(operatorIndexKey(operatorId), sid);
+    } catch {
+      secureLogger.warn('[auth.refresh] Redis 清理会话索引失败', { operatorId });
+    }
+  }
+  return true;
+}
+
+/**
+ * 吊销操作员的全部刷新会话（可保留当前会话），返回吊销数量
+ */
+export async function revokeOperatorRefreshSessions(
+  operatorId: number,
+  options: { exceptSid?: string } = {}
+): Promise<number> {
+  const { exceptSid } = options;
+  let revoked = 0;
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      const sids = (await redis.sMembers(operatorIndexKey(operatorId))).filter(sid => sid !== exceptSid);
+      if (sids.length > 0) {
+        revoked += await redis.del(sids.map(sessionKey));
+      }
+      if (exceptSid) {
+        if (sids.length > 0) {await redis.sRem(operatorIndexKey(operatorId), sids);}
+      } else {
+        await redis.del(operatorIndexKey(operatorId));
+      }
+    } catch {
+      secureLogger.warn('[auth.refresh] Redis 批量吊销失败，将继续清理内存兜底', { operatorId });
+    }
+  }
+  for (const [sid, session] of refreshSessionBySid.entries()) {
+    if (session.operatorId === operatorId && sid !== exceptSid) {
+      refreshSessionBySid.delete(sid);
+      revoked += 1;
+    }
+  }
+  return revoked;
+}
@@ -0,0 +1,1009 @@
+/**
+ * 病历报告服务
+ * 将会话数据构建为结构化病历文档模型（章节、段落、键值条目及来源字段路径），
+ * 具体输出格式由 reportRenderer 负责
+ */
+
+import * as sessionService from './session.service';
+import * as reportTemplateService from './reportTemplate.service';
+import { CARRY_FORWARD_LABELS, getIntervalHistory, type IntervalHistory } from './careEpisode.service';
+import { buildHpiNarrative, ensureSentenceEnd, normalizeText } from './hpiNarrative';
+import type {
+  FamilyHistory,
+  FertilityHistory,
+  MaritalHistory,
+  MenstrualHistory,
+  PhysicalExam,
+  ReportBlock,
+  ReportDocument,
+  ReportItemBlock,
+  ReportParagraphBlock,
+  ReportSection,
+  ReportSectionKey,
+  ReportTemplateDefinition,
+} from '../types';
+
+type JsonData = Record<string, unknown>;
+
+/**
+ * 报告所需的患者字段
+ */
+export interface ReportPatientInput {
+  name?: string | null;
+  gender?: string | null;
+  birthDate?: Date | string | null;
+  nativePlace?: string | null;
+  placeOfBirth?: string | null;
+  ethnicity?: string | null;
+  address?: string | null;
+  occupation?: string | null;
+  employer?: string | null;
+}
+
+/**
+ * 报告所需的会话字段（与 Prisma 查询结果兼容）
+ */
+export interface ReportSessionInput {
+  id?: number;
+  createdAt: Date | string;
+  historian?: string | null;
+  reliability?: string | null;
+  historianRelationship?: string | null;
+  chiefComplaint?: unknown;
+  presentIllness?: unknown;
+  pastHistory?: unknown;
+  personalHistory?: unknown;
+  maritalHistory?: unknown;
+  menstrualHistory?: unknown;
+  fertilityHistory?: unknown;
+  familyHistory?: unknown;
+  physicalExam?: unknown;
+  auxiliaryExams?: unknown;
+  reviewOfSystems?: unknown;
+  visitType?: string | null;
+  previousSessionId?: number | null;
+  carriedForward?: unknown;
+  patient: ReportPatientInput;
+}
+
+export interface BuildReportOptions {
+  /** 生成时间（影响年龄与记录日期），默认当前时间 */
+  now?: Date;
+  /** 应用的报告模板，缺省为内置住院病历格式 */
+  template?: { id: number; definition: ReportTemplateDefinition } | null;
+  /** 复诊会话的间隔病史，缺省时不输出该章节 */
+  interval?: IntervalHistory | null;
+}
+
+// 辅助函数：安全转换为 Record
+const toRecord = (v: unknown): JsonData => {
+  if (typeof v === 'object' && v !== null && !Array.isArray(v)) {
+    return v as JsonData;
+  }
+  return {};
+};
+
+/** 无记录占位段落的 key，模板可通过 emptyText 改写其措辞 */
+export const EMPTY_BLOCK_KEY = 'empty';
+
+/** 默认的未记录措辞 */
+export const NOT_RECORDED_TEXT = '未记录';
+
+const item = (key: string, label: string, value: string, sources: string[], indent = 0): ReportItemBlock => ({
+  type: 'item',
+  key,
+  label,
+  value,
+  sources,
+  indent,
+});
+
+const paragraph = (key: string, text: string, sources: string[], indent = 0): ReportParagraphBlock => ({
+  type: 'paragraph',
+  key,
+  text,
+  sources,
+  indent,
+});
+
+const placeholder = (text: string, sources: string[], indent = 0): ReportParagraphBlock =>
+  paragraph(EMPTY_BLOCK_KEY, text, sources, indent);
+
+const section = (key: ReportSectionKey, title: string, blocks: ReportBlock[]): ReportSection => ({ key, title, blocks });
+
+const formatDate = (v: unknown, fallback: string): string => {
+  if (!v) {return fallback;}
+  const d = new Date(String(v));
+  if (Number.isNaN(d.getTime())) {return fallback;}
+  return `${d.getFullYear()}年${d.getMonth() + 1}月${d.getDate()}日`;
+};
+
+const formatMonth = (v: unknown, fallback: string): string => {
+  if (!v) {return fallback;}
+  const d = new Date(String(v));
+  if (Number.isNaN(d.getTime())) {return fallback;}
+  return `${d.getFullYear()}年${d.getMonth() + 1}月`;
+};
+
+const HISTORIAN_RELATION_MAP: Record<string, string> = {
+  'self': '本人',
+  'spouse': '配偶',
+  'parent': '父母',
+  'child': '子女',
+  'sibling': '兄弟姐妹',
+  'other': '其他'
+};
+
+/**
+ * 【基本信息】
+ */
+export function buildGeneralSection(session: ReportSessionInput, now: Date): ReportSection {
+  const patient = session.patient;
+  const ageText = patient.birthDate
+    ? Math.floor((now.getTime() - new Date(patient.birthDate).getTime()) / (365.25 * 24 * 60 * 60 * 1000)) + '岁'
+    : '未知';
+  const marital = session.maritalHistory as MaritalHistory | undefined;
+  const I = 2;
+  const blocks: ReportBlock[] = [
+    item('name', '姓名', patient.name || '未记录', ['patient.name'], I),
+    item('gender', '性别', patient.gender || '未知', ['patient.gender'], I),
+    item('age', '年龄', ageText, ['patient.birthDate'], I),
+    item('ethnicity', '民族', patient.ethnicity || '未记录', ['patient.ethnicity'], I),
+    item('maritalStatus', '婚况', marital?.status || '未记录', ['maritalHistory.status'], I),
+    item('placeOfBirth', '出生地', patient.placeOfBirth || '未记录', ['patient.placeOfBirth'], I),
+    item('nativePlace', '籍贯', patient.nativePlace || '未记录', ['patient.nativePlace'], I),
+    item('occupation', '职业', patient.occupation || '未记录', ['patient.occupation'], I),
+    item('address', '住址', patient.address || '未记录', ['patient.address'], I),
+    item('admissionDate', '入院日期', new Date(session.createdAt).toLocaleDateString(), ['createdAt'], I),
+    item('recordDate', '记录日期', now.toLocaleDateString(), [], I),
+    item('historian', '病史陈述者', session.historian || '本人', ['historian'], I),
+  ];
+  if (session.historianRelationship) {
+    const relation = HISTORIAN_RELATION_MAP[session.historianRelationship] || session.historianRelationship;
+    blocks.push(item('historianRelationship', '关系', relation, ['historianRelationship'], I));
+  }
+  blocks.push(item('reliability', '可靠程度', session.reliability || '可靠', ['reliability'], I));
+  return section('general', '基本信息', blocks);
+}
+
+/**
+ * 【主诉】
+ */
+export function buildChiefComplaintSection(session: ReportSessionInput): ReportSection {
+  const cp = toRecord(session.chiefComplaint);
+  return section('chiefComplaint', '主诉', [
+    paragraph('chiefComplaint', ensureSentenceEnd(cp.text || '未记录'), ['chiefComplaint.text'], 2),
+  ]);
+}
+
+/**
+ * 【现病史】
+ * 默认使用医生编辑的叙述文本，narrativeSource 为 auto 时按结构化字段重新生成
+ */
+export function buildPresentIllnessSection(session: ReportSessionInput): ReportSection {
+  const cp = toRecord(session.chiefComplaint);
+  const pi = toRecord(session.presentIllness);
+
+  const mainSymptomForHpi =
+    normalizeText(cp.symptom) ||
+    normalizeText(cp.symptomName) ||
+    (normalizeText(cp.text) ? normalizeText(cp.text).replace(/[。！？]+$/u, '') : '') ||
+    '不适';
+
+  const narrativeSource = normalizeText(pi.narrativeSource);
+  const builtPiText = buildHpiNarrative(pi, mainSymptomForHpi);
+  const manualText = String(pi.narrative || '').trimEnd();
+  const useManual = narrativeSource !== 'auto' && Boolean(manualText);
+  const normalizedPiText = (useManual ? manualText : builtPiText).trimEnd();
+  const sources = useManual ? ['presentIllness.narrative'] : ['presentIllness', 'chiefComplaint.symptom'];
+
+  if (!normalizedPiText) {
+    return section('presentIllness', '现病史', [placeholder('未记录。', [], 2)]);
+  }
+
+  const blocks: ReportBlock[] = [];
+  const hpiLines = normalizedPiText.replace(/\r\n/g, '\n').split('\n').map(l => l.replace(/\r/g, ''));
+  for (const line of hpiLines) {
+    const t = String(line || '');
+    if (!t.trim()) {continue;}
+    if (t.startsWith('  ')) {
+      const lead = (t.match(/^ +/u) || [''])[0].length;
+      blocks.push(paragraph('narrative', t.slice(lead), sources, lead));
+    } else {
+      blocks.push(paragraph('narrative', t.replace(/^\s+/u, ''), sources, 2));
+    }
+  }
+  return section('presentIllness', '现病史', blocks);
+}
+
+const isTraumaName = (name: string): boolean =>
+  /外伤|创伤|骨折|车祸|跌倒|扭伤|撞伤|砸伤|刀伤|刺伤|烧伤|烫伤/u.test(name);
+
+/**
+ * 【既往史】
+ */
+export function buildPastHistorySection(session: ReportSessionInput): ReportSection {
+  const pmh = toRecord(session.pastHistory);
+  const I = 2;
+  const blocks: ReportBlock[] = [];
+
+  const surgeries = pmh.surgeries as unknown[] | undefined;
+  const surgeryItems: string[] = [];
+  const traumaItems: string[] = [];
+  if (Array.isArray(surgeries) && surgeries.length > 0) {
+    surgeries.forEach((s: unknown) => {
+      const r = toRecord(s);
+      const dateText = normalizeText(r.date) ? formatMonth(r.date, '时间不详') : '时间不详';
+      const location = normalizeText(r.location ?? r.hospital) || '外院';
+      const name = normalizeText(r.name) || '不详';
+      const outcome = normalizeText(r.outcome ?? r.note);
+      const base = `${dateText}于${location}行“${name}”${outcome ? `，${outcome}` : ''}`.replace(/。$/u, '');
+      if (isTraumaName(name)) {traumaItems.push(base);}
+      else {surgeryItems.push(base);}
+    });
+  }
+  blocks.push(item('surgery', '手术史', surgeryItems.length > 0 ? ensureSentenceEnd(surgeryItems.join('；')) : '否认手术史。', ['pastHistory.surgeries'], I));
+  blocks.push(item('trauma', '外伤史', traumaItems.length > 0 ? ensureSentenceEnd(traumaItems.join('；')) : '否认外伤史。', ['pastHistory.surgeries'], I));
+
+  const transfusions = pmh.transfusions as unknown[] | undefined;
+  if (Array.isArray(transfusions) && transfusions.length > 0) {
+    const trans = transfusions
+      .map((t: unknown) => {
+        const r = toRecord(t);
+        const dateText = normalizeText(r.date) ? formatDate(r.date, '时间不详') : '时间不详';
+        const reason = normalizeText(r.reason);
+        const amount = normalizeText(r.amount);
+        const reaction = normalizeText(r.reaction) || '无不良反应';
+        const reasonPart = reason ? `因${reason}` : '';
+        const amountPart = amount ? `输${amount}` : '输血';
+        return `${dateText}${reasonPart}${amountPart}，${reaction}`.replace(/。$/u, '');
+      })
+      .join('；');
+    blocks.push(item('transfusion', '输血史', ensureSentenceEnd(trans), ['pastHistory.transfusions'], I));
+  } else {
+    blocks.push(item('transfusion', '输血史', '否认输血史。', ['pastHistory.transfusions'], I));
+  }
+
+  const allergies = pmh.allergies as unknown[] | undefined;
+  if (Array.isArray(allergies) && allergies.length > 0) {
+    const severityMap: Record<string, string> = { mild: '轻度', moderate: '中度', severe: '重度' };
+    const algs = allergies
+      .map((a: unknown) => {
+        const r = toRecord(a);
+        const allergen = normalizeText(r.allergen ?? r.substance) || '过敏原不详';
+        const reaction = normalizeText(r.reaction);
+        const severityRaw = normalizeText(r.severity);
+        const severity = severityMap[severityRaw] || severityRaw;
+        const extra = [reaction, severity].filter(Boolean).join('，');
+        return extra ? `${allergen}（${extra}）` : allergen;
+      })
+      .join('、');
+    blocks.push(item('allergy', '过敏史', ensureSentenceEnd(algs), ['pastHistory.allergies'], I));
+  } else {
+    blocks.push(item('allergy', '过敏史', '否认药物及食物过敏史。', ['pastHistory.allergies', 'pastHistory.noAllergies'], I));
+  }
+
+  const infectiousRaw = normalizeText(pmh.infectiousHistory ?? pmh.pmh_infectious);
+  blocks.push(item(
+    'infectious',
+    '传染病史',
+    infectiousRaw ? ensureSentenceEnd(infectiousRaw) : '否认肝炎、结核、梅毒、艾滋病等传染病史。',
+    ['pastHistory.infectiousHistory', 'pastHistory.pmh_infectious'],
+    I
+  ));
+
+  const diseases: string[] = Array.isArray(pmh.pmh_diseases) ? pmh.pmh_diseases as string[] : [];
+  const diseaseDetails = (pmh.diseaseDetails || {}) as Record<string, { year?: number; control?: string; medication?: string }>;
+  const systemic = ((): { text: string; sources: string[] } => {
+    if (diseases.length > 0) {
+      const diseaseTexts = diseases.map((d: string) => {
+        const dd = diseaseDetails?.[d];
+        const info: string[] = [];
+        if (dd?.year) {info.push(`确诊${dd.year}年`);}
+        if (dd?.control) {info.push(`控制${dd.control}`);}
+        if (dd?.medication) {info.push(`平日服用${dd.medication}`);}
+        return info.length > 0 ? `${d}（${info.join('，')}）` : d;
+      });
+      return { text: ensureSentenceEnd(`既往患有${diseaseTexts.join('；')}`), sources: ['pastHistory.pmh_diseases', 'pastHistory.diseaseDetails'] };
+    }
+    const illnessHistory = normalizeText(pmh.illnessHistory);
+    if (illnessHistory) {
+      return { text: ensureSentenceEnd(illnessHistory.replace(/\n+/g, '；')), sources: ['pastHistory.illnessHistory'] };
+    }
+    return { text: '否认高血压、糖尿病、冠心病等慢性病史。', sources: ['pastHistory.pmh_diseases'] };
+  })();
+  blocks.push(item('systemicDisease', '系统性疾病', systemic.text, systemic.sources, I));
+
+  const vaccination = normalizeText(pmh.vaccinationHistory);
+  if (vaccination) {blocks.push(item('vaccination', '预防接种史', ensureSentenceEnd(vaccination), ['pastHistory.vaccinationHistory'], I));}
+
+  return section('pastHistory', '既往史', blocks);
+}
+
+/**
+ * 系统回顾症状英文到中文的映射
+ */
+const ROS_SYMPTOM_NAME_MAP: Record<string, string> = {
+  // 呼吸系统
+  'chest_pain': '胸痛',
+  'chest pain': '胸痛',
+  'chestPain': '胸痛',
+  'cough': '咳嗽',
+  'dyspnea': '呼吸困难',
+  'shortness_of_breath': '呼吸困难',
+  'shortness of breath': '呼吸困难',
+  'hemoptysis': '咯血',
+  'wheezing': '喘息',
+  'sputum': '咳痰',
+  // 循环系统
+  'palpitation': '心悸',
+  'edema': '水肿',
+  'syncope': '晕厥',
+  'chest_tightness': '胸闷',
+  'chest tightness': '胸闷',
+  // 消化系统
+  'abdominal_pain': '腹痛',
+  'abdominal pain': '腹痛',
+  'nausea': '恶心',
+  'vomiting': '呕吐',
+  'diarrhea': '腹泻',
+  'constipation': '便秘',
+  'melena': '黑便',
+  'hematemesis': '呕血',
+  'jaundice': '黄疸',
+  'bloating': '腹胀',
+  'poor_appetite': '食欲不振',
+  'poor appetite': '食欲不振',
+  // 泌尿系统
+  'dysuria': '排尿困难',
+  'frequency': '尿频',
+  'urgency': '尿急',
+  'hematuria': '血尿',
+  'oliguria': '少尿',
+  'polyuria': '多尿',
+  'urinary_incontinence': '尿失禁',
+  'urinary incontinence': '尿失禁',
+  // 血液系统
+  'anemia': '贫血',
+  'bleeding': '出血',
+  'bruising': '瘀斑',
+  // 内分泌及代谢
+  'polydipsia': '多饮',
+  'polyphagia': '多食',
+  'weight_loss': '体重下降',
+  'weight loss': '体重下降',
+  'weight_gain': '体重增加',
+  'weight gain': '体重增加',
+  'fever': '发热',
+  'night_sweats': '盗汗',
+  'night sweats': '盗汗',
+  // 神经精神
+  'headache': '头痛',
+  'dizziness': '头晕',
+  'insomnia': '失眠',
+  'anxiety': '焦虑',
+  'depression': '抑郁',
+  'seizure': '抽搐',
+  'weakness': '乏力',
+  'numbness': '麻木',
+  // 肌肉骨骼
+  'joint_pain': '关节痛',
+  'joint pain': '关节痛',
+  'muscle_pain': '肌肉痛',
+  'muscle pain': '肌肉痛',
+  'back_pain': '背痛',
+  'back pain': '背痛',
+  'neck_pain': '颈痛',
+  'neck pain': '颈痛',
+  'limb_pain': '肢体痛',
+  'limb pain': '肢体痛',
+  'arthritis': '关节炎',
+  'fracture': '骨折',
+  // 其他常见症状
+  'fatigue': '疲劳',
+  'malaise': '不适',
+  'chills': '寒战',
+  'rash': '皮疹',
+  'itching': '瘙痒',
+};
+
+const translateRosSymptom = (symptom: string): string => {
+  const normalized = symptom.toLowerCase().trim();
+  return ROS_SYMPTOM_NAME_MAP[normalized] || ROS_SYMPTOM_NAME_MAP[symptom] || symptom;
+};
+
+const ROS_SYSTEMS = [
+  { key: 'respiratory', label: '1. 呼吸系统' },
+  { key: 'cardiovascular', label: '2. 循环系统' },
+  { key: 'digestive', label: '3. 消化系统' },
+  { key: 'urinary', label: '4. 泌尿系统' },
+  { key: 'hematologic', label: '5. 血液系统' },
+  { key: 'endocrine', label: '6. 内分泌及代谢系统' },
+  { key: 'neurological', label: '7. 神经精神系统' },
+  { key: 'musculoskeletal', label: '8. 肌肉骨骼系统' }
+];
+
+/**
+ * 【系统回顾】
+ */
+export function buildReviewOfSystemsSection(session: ReportSessionInput): ReportSection {
+  const ros = session.reviewOfSystems;
+  if (!ros || typeof ros !== 'object') {
+    return section('reviewOfSystems', '系统回顾', [placeholder('未记录', ['reviewOfSystems'])]);
+  }
+
+  const rosData = ros as JsonData;
+  const blocks: ReportBlock[] = [];
+  for (const system of ROS_SYSTEMS) {
+    const data = rosData[system.key];
+    if (!data) {continue;}
+
+    let content = '';
+    // 新结构 { symptoms: [], details: '' }
+    if (typeof data === 'object' && !Array.isArray(data)) {
+      const dataObj = data as JsonData;
+      const parts = [];
+      if (dataObj.symptoms && Array.isArray(dataObj.symptoms) && dataObj.symptoms.length > 0) {
+        const translatedSymptoms = (dataObj.symptoms as string[]).map((s: string) => translateRosSymptom(s));
+        parts.push(`症状：${translatedSymptoms.join('、')}`);
+      }
+      if (dataObj.details) {
+        parts.push(`详情：${dataObj.details}`);
+      }
+      if (parts.length > 0) {
+        content = parts.join('；');
+      }
+    }
+    // 旧结构 string[]
+    else if (Array.isArray(data) && data.length > 0) {
+      content = data.map((s: string) => translateRosSymptom(s)).join('、');
+    }
+
+    if (content) {
+      blocks.push(item(system.key, system.label, content, [`reviewOfSystems.${system.key}`]));
+    }
+  }
+
+  if (blocks.length === 0) {blocks.push(placeholder('无特殊异常', ['reviewOfSystems']));}
+  return section('reviewOfSystems', '系统回顾', blocks);
+}
+
+/**
+ * 【个人史】
+ */
+export function buildPersonalHistorySection(session: ReportSessionInput): ReportSection {
+  const personal = session.personalHistory as JsonData | undefined;
+  if (!personal || typeof personal !== 'object') {
+    return section('personalHistory', '个人史', [placeholder('未记录', ['personalHistory'])]);
+  }
+
+  const blocks: ReportBlock[] = [];
+
+  // 1. 社会经历
+  if (personal.social) {
+    blocks.push(item('social', '1. 社会经历', String(personal.social), ['personalHistory.social']));
+  }
+
+  // 2. 职业及工作条件
+  const occupation = session.patient.occupation || '未记录';
+  const employer = session.patient.employer || '未记录';
+  if (personal.work_cond || occupation !== '未记录' || employer !== '未记录') {
+    blocks.push(item('workCondition', '2. 职业及工作条件', '', []));
+    const parts: string[] = [];
+    if (occupation !== '未记录') {parts.push(`职业：${occupation}  `);}
+    if (employer !== '未记录') {parts.push(`单位：${employer}`);}
+    if (parts.length > 0) {
+      blocks.push(paragraph('occupationEmployer', parts.join(''), ['patient.occupation', 'patient.employer'], 3));
+    }
+    if (personal.work_cond) {
+      blocks.push(item('workEnvironment', '工作环境/接触史', String(personal.work_cond), ['personalHistory.work_cond'], 3));
+    }
+  }
+
+  // 3. 习惯与嗜好
+  const habits: ReportItemBlock[] = [];
+  if (personal.living_habits) {
+    habits.push(item('livingHabits', '起居饮食', String(personal.living_habits), ['personalHistory.living_habits'], 3));
+  }
+  const smokingStatus = personal.smoking_status || personal.smoking;
+  if (smokingStatus) {
+    const details = personal.smoking_details ? ` (${personal.smoking_details})` : '';
+    habits.push(item('smoking', '吸烟', `${smokingStatus}${details}`, ['personalHistory.smoking_status', 'personalHistory.smoking_details'], 3));
+  }
+  const alcoholStatus = personal.alcohol_status || personal.alcohol;
+  if (alcoholStatus) {
+    const details = personal.alcohol_details ? ` (${personal.alcohol_details})` : '';
+    habits.push(item('alcohol', '饮酒', `${alcoholStatus}${details}`, ['personalHistory.alcohol_status', 'personalHistory.alcohol_details'], 3));
+  }
+  if (personal.substances) {
+    habits.push(item('substances', '其他嗜好', String(personal.substances), ['personalHistory.substances'], 3));
+  }
+  if (habits.length > 0) {
+    blocks.push(item('habits', '3. 习惯与嗜好', '', []), ...habits);
+  }
+
+  // 4. 冶游史
+  if (personal.sexual_history) {
+    blocks.push(item('sexualHistory', '4. 冶游史', String(personal.sexual_history), ['personalHistory.sexual_history']));
+  }
+
+  // 兼容旧版 other 字段
+  if (personal.other && !personal.work_cond && !personal.living_habits) {
+    blocks.push(item('legacyOther', '其他说明(旧)', String(personal.other), ['personalHistory.other']));
+  }
+
+  return section('personalHistory', '个人史', blocks);
+}
+
+/**
+ * 【婚姻史】
+ */
+export function buildMaritalHistorySection(session: ReportSessionInput): ReportSection {
+  const marital = session.maritalHistory as MaritalHistory | undefined;
+  if (!marital) {
+    return section('maritalHistory', '婚姻史', [placeholder('未记录', ['maritalHistory'])]);
+  }
+
+  let mContent = `${marital.status || '未记录'}`;
+  if (marital.marriage_age) {mContent += `，结婚年龄：${marital.marriage_age}岁`;}
+  if (marital.spouse_health) {mContent += `，配偶健康状况：${marital.spouse_health}`;}
+  if (marital.children) {mContent += `，子女情况：${marital.children}`;}
+  const blocks: ReportBlock[] = [
+    item('maritalStatus', '婚姻状况', mContent, ['maritalHistory.status', 'maritalHistory.marriage_age', 'maritalHistory.spouse_health', 'maritalHistory.children']),
+  ];
+  if (marital.other) {blocks.push(item('maritalNote', '说明', marital.other, ['maritalHistory.other']));}
+  return section('maritalHistory', '婚姻史', blocks);
+}
+
+/**
+ * 【月经与生育史】，两者均无记录时返回 null（不输出该章节）
+ */
+export function buildMenstrualFertilitySection(session: ReportSessionInput): ReportSection | null {
+  const menstrual = session.menstrualHistory as MenstrualHistory | undefined;
+  const fertility = session.fertilityHistory as FertilityHistory | undefined;
+  if (!menstrual && !fertility) {return null;}
+
+  const blocks: ReportBlock[] = [];
+  if (menstrual) {
+    // 公式格式：初潮年龄 经期/周期 末次月经或绝经年龄
+    const age = menstrual.age || '?';
+    const duration = menstrual.duration || '?';
+    const cycle = menstrual.cycle || '?';
+    const lmpOrMenopause = menstrual.menopause_age
+      ? `${menstrual.menopause_age}岁(绝经)`
+      : (menstrual.lmp || '未知');
+    blocks.push(item('menstrual', '月经史', `${age}  ${duration}/${cycle}  ${lmpOrMenopause}`, [
+      'menstrualHistory.age',
+      'menstrualHistory.duration',
+      'menstrualHistory.cycle',
+      'menstrualHistory.lmp',
+      'menstrualHistory.menopause_age',
+    ]));
+
+    const details = [];
+    if (menstrual.flow) {details.push(`经量：${menstrual.flow}`);}
+    if (menstrual.color) {details.push(`经色：${menstrual.color}`);}
+    if (menstrual.pain) {details.push(`痛经/白带：${menstrual.pain}`);}
+    if (details.length > 0) {
+      blocks.push(paragraph('menstrualDetails', details.join('，'), ['menstrualHistory.flow', 'menstrualHistory.color', 'menstrualHistory.pain'], 6));
+    }
+  }
+
+  if (fertility) {
+    let fLine = `G${fertility.gravida || '0'}P${fertility.para || '0'}`;
+    if (fertility.abortion_artificial) {fLine += `，人工流产${fertility.abortion_artificial}次`;}
+    if (fertility.abortion_natural) {fLine += `，自然流产${fertility.abortion_natural}次`;}
+    blocks.push(item('fertility', '生育史', fLine, [
+      'fertilityHistory.gravida',
+      'fertilityHistory.para',
+      'fertilityHistory.abortion_artificial',
+      'fertilityHistory.abortion_natural',
+    ]));
+
+    if (fertility.stillbirth) {blocks.push(item('stillbirth', '死产/早产', String(fertility.stillbirth), ['fertilityHistory.stillbirth'], 6));}
+    if (fertility.premature) {blocks.push(item('premature', '早产', String(fertility.premature), ['fertilityHistory.premature'], 6));}
+    if (fertility.contraception) {blocks.push(item('contraception', '避孕措施', fertility.contraception, ['fertilityHistory.contraception'], 6));}
+  }
+
+  return section('menstrualFertility', '月经与生育史', blocks);
+}
+
+const FAMILY_FIELDS: Array<{ key: keyof FamilyHistory; label: string }> = [
+  { key: 'father_health', label: '父亲健康状况' },
+  { key: 'mother_health', label: '母亲健康状况' },
+  { key: 'siblings_health', label: '兄弟姐妹健康状况' },
+  { key: 'children_health', label: '子女健康状况' },
+  { key: 'genetic_disease', label: '家族遗传病史' },
+  { key: 'similar_disease', label: '类似疾病史' },
+  // 旧版字段
+  { key: 'parents', label: '父母' },
+  { key: 'siblings', label: '兄弟姐妹' },
+  { key: 'children', label: '子女' },
+];
+
+/**
+ * 【家族史】
+ */
+export function buildFamilyHistorySection(session: ReportSessionInput): ReportSection {
+  const family = session.familyHistory as FamilyHistory | undefined;
+  if (!family) {
+    return section('familyHistory', '家族史', [placeholder('未记录', ['familyHistory'])]);
+  }
+
+  const blocks: ReportBlock[] = [];
+  for (const field of FAMILY_FIELDS) {
+    const value = family[field.key];
+    if (value) {blocks.push(item(String(field.key), field.label, String(value), [`familyHistory.${String(field.key)}`]));}
+  }
+
+  if (family.conditions && Array.isArray(family.conditions) && family.conditions.length > 0) {
+    blocks.push(item('conditions', '家族遗传病史(旧)', family.conditions.join('；'), ['familyHistory.conditions']));
+  }
+  if (family.deceased) {blocks.push(item('deceased', '已故亲属', family.deceased, ['familyHistory.deceased']));}
+  if (family.other) {blocks.push(item('familyNote', '说明', family.other, ['familyHistory.other']));}
+
+  if (blocks.length === 0) {blocks.push(placeholder('未记录', ['familyHistory']));}
+  return section('familyHistory', '家族史', blocks);
+}
+
+const PHYSICAL_EXAM_REGIONS: Array<{ key: string; label: string }> = [
+  { key: 'skin', label: '皮肤黏膜' },
+  { key: 'lymphNodes', label: '淋巴结' },
+  { key: 'head', label: '头部' },
+  { key: 'neck', label: '颈部' },
+  { key: 'chest', label: '胸部' },
+  { key: 'heart', label: '心脏' },
+  { key: 'lungs', label: '肺部' },
+  { key: 'abdomen', label: '腹部' },
+  { key: 'extremities', label: '四肢' },
+  { key: 'nervousSystem', label: '神经系统' },
+  { key: 'other', label: '其他' },
+];
+
+/**
+ * 汇总生命体征（兼容多种字段别名）
+ */
+const buildVitalSignItems = (v: Record<string, unknown>): string[] => {
+  const items: string[] = [];
+
+  const temp = v.temperature || v.temp || v.t;
+  if (temp) {items.push(`体温：${temp}°C`);}
+
+  const pulse = v.pulse || v.heartRate || v.heart_rate || v.hr || v.p;
+  if (pulse) {items.push(`脉搏：${pulse}次/分`);}
+
+  const resp = v.respiration || v.respiratoryRate || v.respiratory_rate || v.rr || v.r;
+  if (resp) {items.push(`呼吸：${resp}次/分`);}
+
+  // 血压：无直接字段时尝试组合收缩压和舒张压
+  let bp = v.bloodPressure || v.bp || v.blood_pressure;
+  if (!bp && (v.systolic || v.diastolic || v.sbp || v.dbp || v.systolicBP || v.diastolicBP)) {
+    const systolic = v.systolic || v.sbp || v.systolicBP;
+    const diastolic = v.diastolic || v.dbp || v.diastolicBP;
+    if (systolic && diastolic) {
+      bp = `${systolic}/${diastolic}`;
+    } else if (systolic) {
+      bp = `${systolic}/`;
+    } else if (diastolic) {
+      bp = `/${diastolic}`;
+    }
+  }
+  if (bp) {items.push(`血压：${bp}mmHg`);}
+
+  const weight = v.weight || v.wt;
+  if (weight) {items.push(`体重：${weight}kg`);}
+
+  const height = v.height || v.ht;
+  if (height) {items.push(`身高：${height}cm`);}
+
+  const bmi = v.BMI || v.bmi;
+  if (bmi) {items.push(`BMI：${bmi}`);}
+
+  const spo2 = v.spo2 || v.SpO2 || v.oxygenSaturation || v.oxygen_saturation || v.o2sat;
+  if (spo2) {items.push(`血氧饱和度：${spo2}%`);}
+
+  const painScore = v.painScore !== undefined ? v.painScore : (v.pain_score !== undefined ? v.pain_score : v.pain);
+  if (painScore !== undefined && painScore !== null) {items.push(`疼痛评分：${painScore}分`);}
+
+  return items;
+};
+
+/**
+ * 【体格检查】
+ */
+export function buildPhysicalExamSection(session: ReportSessionInput): ReportSection {
+  const physicalExam = session.physicalExam as (PhysicalExam & { vitalSigns?: Record<string, unknown>; general?: Record<string, unknown> }) | undefined;
+  if (!physicalExam) {
+    return section('physicalExam', '体格检查', [placeholder('未记录', ['physicalExam'])]);
+  }
+
+  const blocks: ReportBlock[] = [];
+  const vitalKey = physicalExam.vitalSigns ? 'vitalSigns' : 'general';
+  const vitalSigns = physicalExam.vitalSigns || physicalExam.general;
+  if (vitalSigns) {
+    const items = buildVitalSignItems(vitalSigns);
+    if (items.length > 0) {
+      blocks.push(item('vitalSigns', '生命体征', items.join('，'), [`physicalExam.${vitalKey}`]));
+    }
+    const generalCondition = vitalSigns.generalAppearance || vitalSigns.consciousness || vitalSigns.conscious || vitalSigns.general_condition || vitalSigns.status;
+    if (generalCondition) {
+      blocks.push(item('generalCondition', '一般情况', String(generalCondition), [`physicalExam.${vitalKey}.generalAppearance`]));
+    }
+  }
+
+  for (const region of PHYSICAL_EXAM_REGIONS) {
+    const value = physicalExam[region.key];
+    if (value && typeof value === 'string') {
+      blocks.push(item(region.key, region.label, value, [`physicalExam.${region.key}`]));
+    }
+  }
+
+  if (blocks.length === 0) {blocks.push(placeholder('未记录', ['physicalExam']));}
+  return section('physicalExam', '体格检查', blocks);
+}
+
+/**
+ * 辅助检查类型中文映射
+ */
+const EXAM_TYPE_MAP: Record<string, string> = {
+  'blood_routine': '血常规',
+  'bloodRoutine': '血常规',
+  'blood': '血常规',
+  'urine_routine': '尿常规',
+  'urineRoutine': '尿常规',
+  'urine': '尿常规',
+  'stool': '大便常规',
+  'stool_routine': '大便常规',
+  'liver_function': '肝功能',
+  'liverFunction': '肝功能',
+  'renal_function': '肾功能',
+  'renalFunction': '肾功能',
+  'electrolyte': '电解质',
+  'blood_lipid': '血脂',
+  'bloodLipid': '血脂',
+  'blood_sugar': '血糖',
+  'bloodSugar': '血糖',
+  'coagulation': '凝血功能',
+  'cardiac_marker': '心肌标志物',
+  'cardiacMarker': '心肌标志物',
+  'inflammation': '炎症指标',
+  'tumor_marker': '肿瘤标志物',
+  'tumorMarker': '肿瘤标志物',
+  'thyroid': '甲状腺功能',
+  'ecg': '心电图',
+  'EKG': '心电图',
+  'chest_xray': '胸部X线',
+  'chestXray': '胸部X线',
+  'xray': 'X线',
+  'ct': 'CT',
+  'CT': 'CT',
+  'mri': 'MRI',
+  'MRI': 'MRI',
+  'ultrasound': '超声',
+  'B超': '超声',
+  'gastroscopy': '胃镜',
+  'colonoscopy': '肠镜',
+  'bronchoscopy': '支气管镜',
+  'pathology': '病理检查',
+  'biopsy': '活检',
+  'culture': '细菌培养',
+  'virus': '病毒检测',
+  'autoimmune': '自身免疫指标',
+  'allergy_test': '过敏原检测',
+  'drug_level': '药物浓度',
+  'blood_gas': '血气分析',
+  'bone_marrow': '骨髓穿刺',
+  'lp': '腰椎穿刺',
+  'lumbar_puncture': '腰椎穿刺',
+};
+
+const translateExamType = (type: string): string => EXAM_TYPE_MAP[type] || type;
+
+/**
+ * 辅助检查项目
+ */
+interface ExamItem {
+  type?: string;
+  examType?: string;
+  name?: string;
+  category?: string;
+  result?: unknown;
+  date?: string;
+  examDate?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * 格式化辅助检查结果，避免显示 [object Object]
+ */
+export const formatExamResult = (value: unknown): string => {
+  if (value === null || value === undefined) {return '未记录结果';}
+  if (typeof value === 'string') {return value;}
+  if (typeof value === 'number' || typeof value === 'boolean') {return String(value);}
+  if (Array.isArray(value)) {
+    return value.map(entry => formatExamResult(entry)).join('；');
+  }
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    // 优先提取标准字段
+    const parts: string[] = [];
+    for (const key of ['result', 'value', 'content', 'description', 'finding', 'conclusion', 'diagnosis']) {
+      if (obj[key] !== undefined) {parts.push(formatExamResult(obj[key]));}
+    }
+    if (parts.length > 0) {return parts.join('；');}
+    // 没有标准字段时提取所有非空值
+    const entries = Object.entries(obj)
+      .filter(([k, v]) => v !== null && v !== undefined && v !== '' && k !== 'id' && k !== 'createdAt' && k !== 'updatedAt')
+      .map(([k, v]) => `${k}: ${formatExamResult(v)}`);
+    if (entries.length > 0) {return entries.join('；');}
+    return '已检查';
+  }
+  return String(value);
+};
+
+/**
+ * 【辅助检查】
+ */
+export function buildAuxiliaryExamsSection(session: ReportSessionInput): ReportSection {
+  const auxiliaryExams = session.auxiliaryExams;
+  const blocks: ReportBlock[] = [];
+
+  if (auxiliaryExams && Array.isArray(auxiliaryExams) && auxiliaryExams.length > 0) {
+    auxiliaryExams.forEach((exam: unknown, index: number) => {
+      const source = `auxiliaryExams.${index}`;
+      if (typeof exam === 'string') {
+        blocks.push(paragraph('exam', `${index + 1}. ${exam}`, [source]));
+      } else if (exam && typeof exam === 'object') {
+        const examItem = exam as ExamItem;
+        const examType = examItem.type || examItem.examType || examItem.name || examItem.category || `检查${index + 1}`;
+        const examDate = examItem.date || examItem.examDate ? `(${(examItem.date || examItem.examDate)})` : '';
+        const examResult = formatExamResult(examItem.result !== undefined ? examItem.result : exam);
+        blocks.push(item('exam', `${index + 1}. ${translateExamType(examType)}${examDate}`, examResult, [source]));
+      }
+    });
+  } else if (auxiliaryExams && typeof auxiliaryExams === 'object') {
+    // 对象格式：{ 检查类型: 结果 }
+    let index = 0;
+    for (const [key, value] of Object.entries(auxiliaryExams as Record<string, unknown>)) {
+      // 过滤无意义的键
+      if (key === 'none' || key === 'exams' || key === 'id' || key === 'createdAt' || key === 'updatedAt') {continue;}
+      if (value === null || value === undefined || value === '') {continue;}
+      const examName = translateExamType(key);
+      if (value === true) {
+        index++;
+        blocks.push(item('exam', `${index}. ${examName}`, '已检查', [`auxiliaryExams.${key}`]));
+        continue;
+      }
+      const examResult = formatExamResult(value);
+      if (examResult && examResult !== '未记录结果' && examResult !== 'true') {
+        index++;
+        blocks.push(item('exam', `${index}. ${examName}`, examResult, [`auxiliaryExams.${key}`]));
+      }
+    }
+  }
+
+  if (blocks.length === 0) {blocks.push(placeholder('未记录', ['auxiliaryExams']));}
+  return section('auxiliaryExams', '辅助检查', blocks);
+}
+
+/**
+ * 【间隔病史】
+ * 复诊时列出上次就诊的时间、主诉与诊断，以及由上次带入的病史本次是否有修改
+ */
+export function buildIntervalHistorySection(interval: IntervalHistory | null | undefined): ReportSection | null {
+  if (!interval) {return null;}
+  const I = 2;
+  const changes = Object.entries(interval.carryForward)
+    .map(([key, state]) => `${CARRY_FORWARD_LABELS[key as keyof typeof CARRY_FORWARD_LABELS]}${state === 'edited' ? '有更新' : '同前'}`);
+  const blocks: ReportBlock[] = [
+    item(
+      'previousVisit',
+      '上次就诊',
+      `${formatDate(interval.previousVisitAt, NOT_RECORDED_TEXT)}（距本次${interval.intervalDays}天）`,
+      ['previousSessionId'],
+      I
+    ),
+    item('previousChiefComplaint', '上次主诉', interval.previousChiefComplaint || NOT_RECORDED_TEXT, ['previousSessionId'], I),
+    item('previousDiagnosis', '上次诊断', interval.previousDiagnoses.join('；') || NOT_RECORDED_TEXT, ['previousSessionId'], I),
+  ];
+  if (changes.length > 0) {
+    blocks.push(item('historyChanges', '病史变化', changes.join('，'), ['carriedForward'], I));
+  }
+  return section('intervalHistory', '间隔病史', blocks);
+}
+
+/**
+ * 【初步建议】
+ */
+export function buildRecommendationSection(): ReportSection {
+  return section('recommendation', '初步建议', [paragraph('recommendation', '建议进行进一步体格检查及相关辅助检查。', [])]);
+}
+
+/**
+ * 按模板调整章节顺序、标题、字段与兜底措辞
+ * 模板未列出的章节不输出；模板列出但无数据的章节（如月经与生育史）同样跳过
+ */
+export function applyReportTemplate(doc: ReportDocument, definition: ReportTemplateDefinition): ReportDocument {
+  const byKey = new Map(doc.sections.map(s => [s.key, s]));
+  const notRecorded = String(definition.notRecordedText || '').trim();
+  const replaceNotRecorded = (text: string): string =>
+    notRecorded && /^未记录。?$/u.test(text) ? text.replace(NOT_RECORDED_TEXT, notRecorded) : text;
+
+  const sections: ReportSection[] = [];
+  for (const config of definition.sections) {
+    const source = byKey.get(config.key);
+    if (!source) {continue;}
+
+    const allowed = config.fields && config.fields.length > 0 ? new Set(config.fields) : null;
+    const blocks: ReportBlock[] = source.blocks
+      .filter(b => !allowed || b.key === EMPTY_BLOCK_KEY || allowed.has(b.key))
+      .map((b): ReportBlock => {
+        if (b.type === 'item') {
+          return { ...b, label: config.labels?.[b.key] || b.label, value: replaceNotRecorded(b.value) };
+        }
+        if (b.key === EMPTY_BLOCK_KEY && config.emptyText) {return { ...b, text: config.emptyText };}
+        return { ...b, text: replaceNotRecorded(b.text) };
+      });
+
+    if (blocks.length === 0) {
+      blocks.push(placeholder(config.emptyText || notRecorded || NOT_RECORDED_TEXT, []));
+    }
+    sections.push(section(config.key, config.title || source.title, blocks));
+  }
+
+  return { ...doc, title: definition.documentTitle || doc.title, sections };
+}
+
+/**
+ * 根据会话数据构建完整的病历文档模型
+ */
+export function buildReportDocument(session: ReportSessionInput, options: BuildReportOptions = {}): ReportDocument {
+  const now = options.now ?? new Date();
+  const sections = [
+    buildGeneralSection(session, now),
+    buildChiefComplaintSection(session),
+    buildPresentIllnessSection(session),
+    buildIntervalHistorySection(options.interval),
+    buildPastHistorySection(session),
+    buildReviewOfSystemsSection(session),
+    buildPersonalHistorySection(session),
+    buildMaritalHistorySection(session),
+    buildMenstrualFertilitySection(session),
+    buildFamilyHistorySection(session),
+    buildPhysicalExamSection(session),
+    buildAuxiliaryExamsSection(session),
+    buildRecommendationSection(),
+  ].filter((s): s is ReportSection => s !== null);
+
+  const doc: ReportDocument = {
+    sessionId: session.id ?? null,
+    title: '病历',
+    templateId: null,
+    patientName: String(session.patient.name || '').trim() || '未命名',
+    generatedAt: now.toISOString(),
+    sections,
+  };
+
+  if (!options.template) {return doc;}
+  return { ...applyReportTemplate(doc, options.template.definition), templateId: options.template.id };
+}
+
+export interface GetReportDocumentOptions {
+  now?: Date;
+  /** 指定模板ID；缺省时使用默认模板，无默认模板则使用内置格式 */
+  templateId?: number;
+}
+
+/**
+ * 加载会话并构建病历文档，会话或患者不存在时返回 null
+ * 指定的模板不存在时抛出 404 错误
+ */
+export const getReportDocument = async (sessionId: number, options: GetReportDocumentOptions = {}): Promise<ReportDocument | null> => {
+  const session = await sessionService.getSessionById(sessionId);
+  if (!session || !session.patient) {return null;}
+  const template = options.templateId !== undefined
+    ? await reportTemplateService.getTemplateDefinitionOrThrow(options.templateId)
+    : await reportTemplateService.getDefaultTemplateDefinition();
+  const interval = await getIntervalHistory(session);
+  return buildReportDocument(session, { now: options.now, template, interval });
+};
@@ -0,0 +1,224 @@
+/**
+ * 病历报告渲染
+ * 将结构化病历文档模型渲染为纯文本、Markdown、PDF、Word(docx)
+ */
+
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { Document, Packer, Paragraph, TextRun } from 'docx';
+import { secureLogger } from '../utils/secureLogger';
+import type { ReportBlock, ReportDocument } from '../types';
+
+/**
+ * 单个内容块的纯文本（不含缩进）
+ */
+export const blockToText = (block: ReportBlock): string =>
+  block.type === 'item' ? `${block.label}：${block.value}` : block.text;
+
+/**
+ * 渲染为纯文本病历（章节标题以【】包裹，章节间空一行）
+ */
+export function renderReportText(doc: ReportDocument): string {
+  return doc.sections
+    .map(section => {
+      const lines = section.blocks.map(block => `${' '.repeat(block.indent)}${blockToText(block)}`);
+      return [`【${section.title}】`, ...lines].join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * 渲染为 Markdown 病历
+ */
+export function renderReportMarkdown(doc: ReportDocument, title: string): string {
+  const parts: string[] = [`# ${title}`];
+  for (const section of doc.sections) {
+    const lines: string[] = [];
+    let prevType: ReportBlock['type'] | null = null;
+    for (const block of section.blocks) {
+      // 缩进超过两格的内容块视为上一条目的子项
+      const bullet = block.indent > 2 ? '  - ' : '- ';
+      if (block.type === 'item') {
+        lines.push(block.value ? `${bullet}**${block.label}**：${block.value.trimEnd()}` : `${bullet}**${block.label}**`);
+      } else if (block.indent > 2) {
+        lines.push(`${bullet}${block.text.trimEnd()}`);
+      } else {
+        if (prevType) {lines.push('');}
+        lines.push(block.text);
+      }
+      prevType = block.type;
+    }
+    parts.push(`## ${section.title}\n\n${lines.join('\n')}`);
+  }
+  return parts.join('\n\n');
+}
+
+/**
+ * resolvePdfFontPath
+ * 在不同操作系统上尝试找到可用的中文字体文件路径，供PDF生成使用
+ */
+function resolvePdfFontPath(): string | null {
+  const candidates = [
+    // 优先使用 TTF，避免部分库不支持 TTC
+    'C:/Windows/Fonts/simhei.ttf',
+    'C:/Windows/Fonts/msyh.ttf',
+    'C:/Windows/Fonts/simkai.ttf',
+    'C:/Windows/Fonts/simfang.ttf',
+    'C:/Windows/Fonts/msyh.ttc',
+    'C:/Windows/Fonts/simsun.ttc',
+    '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc',
+    '/usr/share/fonts/truetype/noto/NotoSansCJK-Regular.ttc',
+    '/usr/share/fonts/truetype/arphic/ukai.ttc',
+    '/System/Library/Fonts/PingFang.ttc',
+  ];
+  for (const p of candidates) {
+    try {
+      if (fs.existsSync(p)) {return p;}
+    } catch {
+      // ignore
+    }
+  }
+  return null;
+}
+
+/**
+ * renderReportPdf
+ * 将病历文档渲染为PDF并返回Buffer（服务端内存生成，不落盘）
+ * 使用嵌入中文字体确保中文正确显示
+ */
+export async function renderReportPdf(doc: ReportDocument, title: string): Promise<Buffer> {
+  return await new Promise<Buffer>((resolve, reject) => {
+    const pdf = new PDFDocument({
+      size: 'A4',
+      margin: 48,
+      info: { Title: title },
+    });
+
+    const chunks: Buffer[] = [];
+    pdf.on('data', (c) => chunks.push(Buffer.isBuffer(c) ? c : Buffer.from(c)));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    // 注册中文字体
+    const fontPath = resolvePdfFontPath();
+    let fontRegistered = false;
+    if (fontPath) {
+      try {
+        pdf.registerFont('ChineseFont', fontPath);
+        fontRegistered = true;
+        secureLogger.info('[export.pdf] 中文字体注册成功', { fontPath });
+      } catch (e) {
+        secureLogger.warn('[export.pdf] 字体注册失败，将使用默认字体', { fontPath, error: e instanceof Error ? e.message : String(e) });
+      }
+    } else {
+      secureLogger.warn('[export.pdf] 未找到可用中文字体，可能导致中文无法正常显示');
+    }
+
+    const applyFont = (size: number) => {
+      if (fontRegistered) {pdf.font('ChineseFont');}
+      pdf.fontSize(size).fillColor('#111');
+    };
+
+    applyFont(18);
+    pdf.text(title, { align: 'center' });
+    pdf.moveDown(1);
+
+    doc.sections.forEach((section, index) => {
+      if (index > 0) {pdf.moveDown(0.5);}
+      applyFont(13);
+      pdf.text(`【${section.title}】`, { align: 'left', lineGap: 4 });
+      applyFont(11);
+      for (const block of section.blocks) {
+        pdf.text(blockToText(block), {
+          align: 'left',
+          lineGap: 4,
+          indent: block.indent * 5,
+          continued: false,
+        });
+      }
+    });
+
+    pdf.end();
+  });
+}
+
+/**
+ * renderReportDocx
+ * 将病历文档渲染为Word(docx)并返回Buffer（服务端内存生成，不落盘）
+ */
+export async function renderReportDocx(doc: ReportDocument, title: string): Promise<Buffer> {
+  const paragraphs: Paragraph[] = [];
+
+  // 标题
+  paragraphs.push(
+    new Paragraph({
+      children: [new TextRun({ text: title, bold: true, size: 36 })],
+      spacing: { after: 200 },
+      alignment: 'center',
+    })
+  );
+
+  // 分隔线
+  paragraphs.push(
+    new Paragraph({
+      children: [],
+      border: {
+        bottom: {
+          color: '999999',
+          space: 1,
+          style: 'single',
+          size: 6,
+        },
+      },
+      spacing: { after: 200 },
+    })
+  );
+
+  for (const section of doc.sections) {
+    paragraphs.push(
+      new Paragraph({
+        children: [new TextRun({ text: `【${section.title}】`, bold: true, size: 26 })],
+        spacing: { before: 200, after: 100 },
+      })
+    );
+
+    for (const block of section.blocks) {
+      // 子项在基础缩进上再缩进一级
+      const indent = { left: block.indent > 2 ? 400 : 200 };
+      if (block.type === 'item') {
+        const children = [new TextRun({ text: `${block.label}：`, bold: true, size: 22 })];
+        if (block.value) {children.push(new TextRun({ text: block.value, size: 22 }));}
+        paragraphs.push(new Paragraph({ children, spacing: { after: 50 }, indent }));
+      } else {
+        paragraphs.push(
+          new Paragraph({
+            children: [new TextRun({ text: block.text, size: 22 })],
+            spacing: { after: 50 },
+            indent,
+          })
+        );
+      }
+    }
+  }
+
+  const docx = new Document({
+    sections: [
+      {
+        properties: {
+          page: {
+            margin: {
+              top: 1440,    // 1 inch = 1440 twips
+              right: 1440,
+              bottom: 1440,
+              left: 1440,
+            },
+          },
+        },
+        children: paragraphs,
+      },
+    ],
+  });
+
+  const buf = await Packer.toBuffer(docx);
+  return Buffer.from(buf);
+}
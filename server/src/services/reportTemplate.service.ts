@@ -0,0 +1,117 @@
+/**
+ * 报告模板服务
+ * 管理按医院/科室定制的病历报告模板（门诊病历、入院记录、专科病历等）
+ */
+
+import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes, rethrowPrismaError } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import type { ReportTemplateDefinition } from '../types';
+
+export interface ReportTemplateInput {
+  name: string;
+  description?: string | null;
+  definition: ReportTemplateDefinition;
+  isDefault?: boolean;
+}
+
+export type ReportTemplateRecord = Prisma.ReportTemplateGetPayload<object>;
+
+const PRISMA_ERROR_MESSAGES = { notFound: '报告模板', conflict: '模板名称已存在' };
+
+/**
+ * 获取模板列表（默认模板优先）
+ */
+export const listTemplates = async (): Promise<ReportTemplateRecord[]> => {
+  return await prisma.reportTemplate.findMany({
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+  });
+};
+
+/**
+ * 根据ID获取模板
+ */
+export const getTemplateById = async (id: number): Promise<ReportTemplateRecord | null> => {
+  return await prisma.reportTemplate.findUnique({ where: { id } });
+};
+
+/**
+ * 创建模板；设为默认时取消其他模板的默认标记
+ */
+export const createTemplate = async (input: ReportTemplateInput, operatorId?: number): Promise<ReportTemplateRecord> => {
+  try {
+    const template = await prisma.$transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.reportTemplate.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+      return await tx.reportTemplate.create({
+        data: {
+          name: input.name,
+          description: input.description ?? null,
+          definition: input.definition as unknown as Prisma.InputJsonValue,
+          isDefault: Boolean(input.isDefault),
+          createdBy: operatorId && operatorId > 0 ? operatorId : null,
+        },
+      });
+    });
+    secureLogger.info('[ReportTemplateService] 模板创建成功', { templateId: template.id, isDefault: template.isDefault });
+    return template;
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 更新模板
+ */
+export const updateTemplate = async (id: number, input: Partial<ReportTemplateInput>): Promise<ReportTemplateRecord> => {
+  const data: Prisma.ReportTemplateUpdateInput = {};
+  if (input.name !== undefined) {data.name = input.name;}
+  if (input.description !== undefined) {data.description = input.description;}
+  if (input.definition !== undefined) {data.definition = input.definition as unknown as Prisma.InputJsonValue;}
+  if (input.isDefault !== undefined) {data.isDefault = input.isDefault;}
+
+  try {
+    const template = await prisma.$transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.reportTemplate.updateMany({ where: { isDefault: true, id: { not: id } }, data: { isDefault: false } });
+      }
+      return await tx.reportTemplate.update({ where: { id }, data });
+    });
+    secureLogger.info('[ReportTemplateService] 模板更新成功', { templateId: id });
+    return template;
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 删除模板
+ */
+export const deleteTemplate = async (id: number): Promise<void> => {
+  try {
+    await prisma.reportTemplate.delete({ where: { id } });
+    secureLogger.info('[ReportTemplateService] 模板已删除', { templateId: id });
+  } catch (error) {
+    rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 获取指定模板定义，不存在时抛出 404
+ */
+export const getTemplateDefinitionOrThrow = async (id: number): Promise<{ id: number; definition: ReportTemplateDefinition }> => {
+  const template = await getTemplateById(id);
+  if (!template) {throw ErrorTypes.NotFound('报告模板');}
+  return { id: template.id, definition: template.definition as unknown as ReportTemplateDefinition };
+};
+
+/**
+ * 获取默认模板定义，未配置时返回 null（使用内置格式）
+ */
+export const getDefaultTemplateDefinition = async (): Promise<{ id: number; definition: ReportTemplateDefinition } | null> => {
+  const template = await prisma.reportTemplate.findFirst({ where: { isDefault: true } });
+  if (!template) {return null;}
+  return { id: template.id, definition: template.definition as unknown as ReportTemplateDefinition };
+};
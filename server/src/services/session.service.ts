@@ -10,6 +10,8 @@ import {
   maskEncryptedObject,
 } from '../utils/cryptoService';
 import { secureLogger } from '../utils/secureLogger';
+import { REVISION_SECTIONS, buildRevisionChange, lockSession, recordRevision } from './sessionRevision.service';
+import { keyVersionForWrite } from './key.service';
 
 /**
  * 会话敏感字段配置
@@ -33,6 +35,7 @@ const SESSION_SENSITIVE_FIELDS: readonly SensitiveField[] = [
 export interface SessionCreateData {
   patientId: number;
   doctorId?: number;
+  assignmentId?: number;
   status?: string;
   historian?: string;
   reliability?: string;
@@ -129,10 +132,14 @@ export const createSessionWithEncryption = async (
     });
   }
 
+  const keyVersionId = await keyVersionForWrite(prisma, data.doctorId, null, REVISION_SECTIONS.map(key => data[key]));
+
   const session = await prisma.interviewSession.create({
     data: {
       patientId: data.patientId,
       doctorId: data.doctorId,
+      keyVersionId,
+      assignmentId: data.assignmentId,
       status: data.status || 'draft',
       historian: data.historian,
       reliability: data.reliability,
@@ -164,10 +171,12 @@ export const createSessionWithEncryption = async (
 
 /**
  * 更新问诊会话（加密数据）
+ * 涉及病历章节的保存同时写入修订历史
  */
 export const updateSessionWithEncryption = async (
   id: number,
-  data: Partial<SessionCreateData>
+  data: Partial<SessionCreateData>,
+  operatorId?: number
 ): Promise<Prisma.InterviewSessionGetPayload<object>> => {
   const validation = validateSessionEncryption(data as SessionCreateData);
 
@@ -200,13 +209,26 @@ export const updateSessionWithEncryption = async (
   if (data.auxiliaryExams !== undefined) {updateData.auxiliaryExams = data.auxiliaryExams;}
   if (data.reviewOfSystems !== undefined) {updateData.reviewOfSystems = data.reviewOfSystems;}
 
-  const session = await prisma.interviewSession.update({
-    where: { id },
-    data: updateData,
+  const revisionKeys = REVISION_SECTIONS.filter(key => data[key] !== undefined);
+  const { session, revision } = await prisma.$transaction(async (tx) => {
+    // 先锁定会话行再读取修改前内容，避免并发保存基于过期内容计算修订
+    if (revisionKeys.length > 0) {await lockSession(tx, id);}
+    const before = revisionKeys.length > 0 ? await tx.interviewSession.findUnique({ where: { id } }) : null;
+    const keyVersionId = before
+      ? await keyVersionForWrite(tx, operatorId, before.keyVersionId, revisionKeys.map(key => data[key]))
+      : undefined;
+    const session = await tx.interviewSession.update({
+      where: { id },
+      data: keyVersionId ? { ...updateData, keyVersion: { connect: { id: keyVersionId } } } : updateData,
+    });
+    const change = before ? buildRevisionChange(before, session, revisionKeys) : null;
+    const revision = change ? await recordRevision(tx, id, change, { operatorId, keyVersionId: session.keyVersionId }) : null;
+    return { session, revision };
   });
 
   secureLogger.info('[SessionService] 会话更新成功', {
     sessionId: id,
+    revision,
     hasUnencryptedFields: !validation.valid,
   });
 
@@ -321,9 +343,10 @@ export const createSession = async (
  */
 export const updateSession = async (
   id: number,
-  data: Record<string, unknown>
+  data: Record<string, unknown>,
+  operatorId?: number
 ): Promise<Prisma.InterviewSessionGetPayload<object>> => {
-  return updateSessionWithEncryption(id, data as Partial<SessionCreateData>);
+  return updateSessionWithEncryption(id, data as Partial<SessionCreateData>, operatorId);
 };
 
 /**
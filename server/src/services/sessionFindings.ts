@@ -0,0 +1,262 @@
+/**
+ * 会话临床发现汇总
+ * 从主诉、现病史、既往史、个人史、家族史、系统回顾、体格检查（生命体征）与患者信息中
+ * 提取阳性/阴性发现 key、警惕征象与年龄性别，作为鉴别诊断评分的统一输入
+ */
+
+import { SYMPTOM_KEY_ALIASES, SYMPTOM_NAME_TO_KEY, SYMPTOM_SYNONYMS } from './mapping.service';
+import { matchSymptoms } from './symptomMatcher';
+
+/**
+ * 会话中参与汇总的字段（与 InterviewSession + patient 结构兼容）
+ */
+export interface FindingsSessionInput {
+  chiefComplaint?: unknown;
+  presentIllness?: unknown;
+  pastHistory?: unknown;
+  personalHistory?: unknown;
+  familyHistory?: unknown;
+  reviewOfSystems?: unknown;
+  physicalExam?: unknown;
+  patient?: { birthDate?: Date | string | null; gender?: string | null } | null;
+}
+
+export type FindingSource =
+  | 'request'
+  | 'chiefComplaint'
+  | 'presentIllness'
+  | 'pastHistory'
+  | 'personalHistory'
+  | 'familyHistory'
+  | 'reviewOfSystems'
+  | 'vitalSigns';
+
+/**
+ * 单项发现及其来源分节；kind 区分症状、危险因素（既往/个人/家族史）与警惕征象
+ */
+export interface FindingEvidence {
+  key: string;
+  kind: 'symptom' | 'riskFactor' | 'redFlag';
+  status: 'present' | 'absent';
+  sources: FindingSource[];
+}
+
+export interface SessionFindings {
+  /** 阳性症状与危险因素 key */
+  presentSymptoms: string[];
+  /** 明确否认的症状 key（重要阴性） */
+  absentSymptoms: string[];
+  redFlags: string[];
+  patientAge?: number;
+  patientGender?: string;
+  evidence: FindingEvidence[];
+}
+
+/**
+ * 请求中附加的发现（症状可为中文名或 key）
+ */
+export interface AdditionalFindings {
+  symptoms?: string[];
+  redFlags?: string[];
+  age?: number;
+  gender?: string;
+}
+
+// 诊断目录中使用、但不在知识库症状表中的常见症状
+const FINDING_NAME_TO_KEY: Record<string, string> = {
+  '咳嗽': 'cough',
+  '咳痰': 'sputum',
+  '恶心': 'nausea',
+  '呕吐': 'vomiting',
+  '喘息': 'wheezing',
+  '哮喘': 'wheezing',
+  '胸闷': 'chest_tightness',
+  '心悸': 'palpitation',
+  '头晕': 'vertigo',
+  '眩晕': 'vertigo',
+  '盗汗': 'night_sweats',
+  '咽痛': 'sore_throat',
+  '流涕': 'runny_nose',
+  '鼻塞': 'nasal_congestion',
+  '黑便': 'melena',
+  '偏瘫': 'hemiplegia',
+  '言语不清': 'slurred_speech',
+  '畏光': 'photophobia',
+  '乏力': 'fatigue',
+  '消瘦': 'weight_loss',
+  '气短': 'dyspnea',
+};
+
+// 既往疾病 / 家族病史关键词 → 危险因素 key 后缀（history_xxx / family_history_xxx）
+const CONDITION_KEYS: Array<[RegExp, string]> = [
+  [/高血压/u, 'hypertension'],
+  [/糖尿病/u, 'diabetes'],
+  [/冠心病/u, 'coronary_heart_disease'],
+  [/心脏病/u, 'heart_disease'],
+  [/脑卒中|脑血管病|中风/u, 'cerebrovascular_disease'],
+  [/COPD|慢性阻塞性肺疾病|慢阻肺/iu, 'copd'],
+  [/哮喘/u, 'asthma'],
+  [/肝炎|肝病/u, 'liver_disease'],
+  [/结核/u, 'tuberculosis'],
+  [/肾/u, 'kidney_disease'],
+  [/肿瘤|癌/u, 'malignancy'],
+  [/精神疾病/u, 'mental_illness'],
+];
+
+const FAMILY_MEMBER_FIELDS = ['father', 'mother', 'siblings', 'children'] as const;
+
+// 系统回顾中按系统区分的 key 后缀（如 chest_pain_resp、syncope_cardio）
+const ROS_KEY_SUFFIX = /_(resp|cardio|hematologic|endocrine|neurological)$/u;
+
+const NEGATIVE_ITEM_PREFIX = /^(否认|没有|未诉|未见|不伴|无|未)/u;
+const DENIAL = /^(否认|无|体健|已故$)/u;
+
+const FEVER_THRESHOLD = 37.3;
+const HIGH_FEVER_THRESHOLD = 39;
+const SHOCK_SYSTOLIC = 90;
+const HYPERTENSIVE_CRISIS_SYSTOLIC = 180;
+const TACHYPNEA_RATE = 30;
+
+const toRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * 将症状名称或 key 归一为诊断目录使用的 key 列表
+ * 合并 key（如 nausea_vomiting）同时展开为各拆分 key，便于与目录中的细分症状匹配
+ */
+export function toFindingKeys(value: string): string[] {
+  const raw = String(value || '').trim();
+  if (!raw) {return [];}
+  const canonical = SYMPTOM_SYNONYMS[raw] || raw;
+  const key = FINDING_NAME_TO_KEY[raw] || SYMPTOM_NAME_TO_KEY[canonical] || FINDING_NAME_TO_KEY[canonical] || canonical;
+  const base = key.replace(ROS_KEY_SUFFIX, '');
+  const keys = new Set([base]);
+  for (const [split, merged] of Object.entries(SYMPTOM_KEY_ALIASES)) {
+    if (merged === base) {keys.add(split);}
+  }
+  return Array.from(keys);
+}
+
+const conditionKeysOf = (text: string): string[] =>
+  CONDITION_KEYS.filter(([pattern]) => pattern.test(text)).map(([, key]) => key);
+
+const ageFrom = (birthDate: Date | string | null | undefined, now: Date): number | undefined => {
+  if (!birthDate) {return undefined;}
+  const time = new Date(birthDate).getTime();
+  if (!Number.isFinite(time)) {return undefined;}
+  return Math.floor((now.getTime() - time) / (365.25 * 24 * 60 * 60 * 1000));
+};
+
+/**
+ * 汇总会话中的临床发现；additional 为请求中附加的症状、警惕征象与年龄性别（优先于会话数据）
+ */
+export function collectSessionFindings(
+  session: FindingsSessionInput,
+  additional: AdditionalFindings = {},
+  now: Date = new Date()
+): SessionFindings {
+  const evidence = new Map<string, FindingEvidence>();
+  const record = (key: string, kind: FindingEvidence['kind'], status: FindingEvidence['status'], source: FindingSource) => {
+    const id = `${status}:${key}`;
+    const entry = evidence.get(id) || { key, kind, status, sources: [] };
+    if (!entry.sources.includes(source)) {entry.sources.push(source);}
+    evidence.set(id, entry);
+  };
+  const addPresent = (value: string, source: FindingSource) => {
+    toFindingKeys(value).forEach(k => record(k, 'symptom', 'present', source));
+  };
+  const addAbsent = (value: string, source: FindingSource) => {
+    toFindingKeys(value).forEach(k => record(k, 'symptom', 'absent', source));
+  };
+  const addFromText = (text: unknown, source: FindingSource) => {
+    const { matchedSymptoms, negatedSymptoms } = matchSymptoms(String(text || ''), []);
+    matchedSymptoms.forEach(s => addPresent(s.name, source));
+    negatedSymptoms.forEach(s => addAbsent(s.name, source));
+  };
+
+  (additional.symptoms || []).forEach(s => addPresent(s, 'request'));
+  (additional.redFlags || []).forEach(rf => record(rf, 'redFlag', 'present', 'request'));
+
+  const cc = toRecord(session.chiefComplaint);
+  if (typeof cc.symptom === 'string') {addPresent(cc.symptom, 'chiefComplaint');}
+  addFromText(cc.text, 'chiefComplaint');
+
+  const pi = toRecord(session.presentIllness);
+  if (Array.isArray(pi.associatedSymptoms)) {
+    pi.associatedSymptoms.forEach(s => addPresent(String(s), 'presentIllness'));
+  }
+  addFromText(pi.narrative, 'presentIllness');
+  // 重要阴性如“无发热、无盗汗”，逐项去掉否定词后归一
+  String(pi.negativeSymptoms || '')
+    .split(/[、，,；;。\s]+/u)
+    .map(item => item.replace(NEGATIVE_ITEM_PREFIX, '').trim())
+    .forEach(item => addAbsent(item, 'presentIllness'));
+
+  const past = toRecord(session.pastHistory);
+  const pastConditions = [
+    ...(Array.isArray(past.pmh_diseases) ? past.pmh_diseases.map(String) : []),
+    String(past.illnessHistory || ''),
+    String(past.infectiousHistory || ''),
+  ].filter(text => text && !DENIAL.test(text));
+  pastConditions.flatMap(conditionKeysOf).forEach(k => record(`history_${k}`, 'riskFactor', 'present', 'pastHistory'));
+
+  const personal = toRecord(session.personalHistory);
+  const smoking = String(personal.smoking_status || '');
+  if (smoking === '吸烟') {record('smoking', 'riskFactor', 'present', 'personalHistory');}
+  if (smoking === '已戒烟') {record('former_smoking', 'riskFactor', 'present', 'personalHistory');}
+  if (smoking === '从不') {record('smoking', 'riskFactor', 'absent', 'personalHistory');}
+  const alcohol = String(personal.alcohol_status || '');
+  if (alcohol === '饮酒') {record('alcohol_use', 'riskFactor', 'present', 'personalHistory');}
+  if (alcohol === '已戒酒') {record('former_alcohol_use', 'riskFactor', 'present', 'personalHistory');}
+  if (alcohol === '从不') {record('alcohol_use', 'riskFactor', 'absent', 'personalHistory');}
+
+  const family = toRecord(session.familyHistory);
+  const familyTexts = [
+    ...FAMILY_MEMBER_FIELDS.flatMap(field => [family[field], family[`${field}Detail`]]),
+    family.genetic,
+    family.geneticDetail,
+  ].map(v => String(v || '')).filter(text => text && !DENIAL.test(text));
+  familyTexts.flatMap(conditionKeysOf).forEach(k => record(`family_history_${k}`, 'riskFactor', 'present', 'familyHistory'));
+  const similar = String(family.similar || '');
+  if (similar && !DENIAL.test(similar)) {record('family_history_similar', 'riskFactor', 'present', 'familyHistory');}
+
+  const ros = toRecord(session.reviewOfSystems);
+  for (const system of Object.values(ros)) {
+    const symptoms = toRecord(system).symptoms;
+    if (Array.isArray(symptoms)) {symptoms.forEach(s => addPresent(String(s), 'reviewOfSystems'));}
+  }
+
+  const pe = toRecord(session.physicalExam);
+  const vitals = toRecord(pe.vitalSigns);
+  const temperature = toNumber(vitals.temperature);
+  if (temperature !== null && temperature >= FEVER_THRESHOLD) {
+    addPresent('fever', 'vitalSigns');
+    if (temperature >= HIGH_FEVER_THRESHOLD) {record('高热', 'redFlag', 'present', 'vitalSigns');}
+  }
+  const systolic = toNumber(vitals.systolicBP);
+  if (systolic !== null && systolic < SHOCK_SYSTOLIC) {record('休克', 'redFlag', 'present', 'vitalSigns');}
+  if (systolic !== null && systolic >= HYPERTENSIVE_CRISIS_SYSTOLIC) {record('血压急剧升高', 'redFlag', 'present', 'vitalSigns');}
+  const respiration = toNumber(vitals.respiration);
+  if (respiration !== null && respiration >= TACHYPNEA_RATE) {record('呼吸困难', 'redFlag', 'present', 'vitalSigns');}
+
+  // 同一 key 同时有阳性与阴性记录时以阳性为准
+  const entries = Array.from(evidence.values());
+  const presentKeys = new Set(entries.filter(e => e.status === 'present').map(e => e.key));
+  const kept = entries.filter(e => e.status === 'present' || !presentKeys.has(e.key));
+  const keysOf = (kinds: FindingEvidence['kind'][], status: FindingEvidence['status']) =>
+    kept.filter(e => kinds.includes(e.kind) && e.status === status).map(e => e.key);
+
+  return {
+    presentSymptoms: keysOf(['symptom', 'riskFactor'], 'present'),
+    absentSymptoms: keysOf(['symptom', 'riskFactor'], 'absent'),
+    redFlags: keysOf(['redFlag'], 'present'),
+    patientAge: additional.age ?? ageFrom(session.patient?.birthDate, now),
+    patientGender: additional.gender || session.patient?.gender || undefined,
+    evidence: kept,
+  };
+}
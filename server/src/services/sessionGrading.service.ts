@@ -0,0 +1,159 @@
+/**
+ * 病历评分服务
+ * 加载学生病历、任务参考病历与主症状知识库条目，调用评分引擎并将结果保存到会话
+ */
+
+import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import type { OperatorIdentity } from '../middleware/auth';
+import { SYMPTOM_KEY_ALIASES } from './mapping.service';
+import { gradeSession, mainSymptomOf, type GradingKnowledge, type GradingResult } from './sessionGrading';
+
+export type GradingActor = Pick<OperatorIdentity, 'operatorId' | 'role'>;
+
+// 学生只能看到总分与分节得分，逐项反馈含参考病历与任务预期要点
+export type GradingSummary = Pick<GradingResult, 'score' | 'maxScore' | 'sections'>;
+
+export interface SessionGrade {
+  sessionId: number;
+  score: number | null;
+  result: GradingResult | GradingSummary | null;
+  gradedAt: Date | null;
+}
+
+const GRADING_SESSION_SELECT = {
+  chiefComplaint: true,
+  presentIllness: true,
+  pastHistory: true,
+  personalHistory: true,
+  familyHistory: true,
+  reviewOfSystems: true,
+  physicalExam: true,
+} satisfies Prisma.InterviewSessionSelect;
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const loadSession = async (sessionId: number) => {
+  const session = await prisma.interviewSession.findUnique({
+    where: { id: sessionId },
+    select: {
+      ...GRADING_SESSION_SELECT,
+      id: true,
+      doctorId: true,
+      reviewerId: true,
+      gradeScore: true,
+      gradeResult: true,
+      gradedAt: true,
+      assignment: {
+        select: { id: true, referenceSessionId: true, expectedFindings: true, cohort: { select: { teacherId: true } } },
+      },
+    },
+  });
+  if (!session) {throw ErrorTypes.NotFound('会话');}
+  return session;
+};
+
+/**
+ * 评分查看权限：学生为自己的病历（学生仅在提交审核时自动评分），教师为所带班级或指定审核的病历，管理员全部
+ */
+const assertCanGrade = (
+  actor: GradingActor,
+  session: { doctorId: number | null; reviewerId: number | null; assignment: { cohort: { teacherId: number } } | null }
+): void => {
+  if (actor.role === 'admin') {return;}
+  if (actor.role === 'teacher'
+    && (session.assignment?.cohort.teacherId === actor.operatorId || session.reviewerId === actor.operatorId)) {return;}
+  if (actor.role !== 'teacher' && session.doctorId === actor.operatorId) {return;}
+  throw ErrorTypes.Forbidden('无权查看该病历的评分');
+};
+
+const resultForActor = (actor: GradingActor, result: GradingResult | null): GradingResult | GradingSummary | null => {
+  if (!result || actor.role !== 'student') {return result;}
+  return { score: result.score, maxScore: result.maxScore, sections: result.sections };
+};
+
+/**
+ * 主症状的知识库条目（允许 cough → cough_and_expectoration 等合并 key），同时返回症状词典
+ */
+export const loadSymptomKnowledge = async (mainKey: string | undefined) => {
+  const rows = await prisma.symptomKnowledge.findMany({
+    select: { symptomKey: true, displayName: true, requiredQuestions: true, redFlags: true },
+  });
+  const dictionary = rows.map(r => ({ symptomKey: r.symptomKey, displayName: r.displayName }));
+  const row = mainKey
+    ? rows.find(r => r.symptomKey === mainKey) || rows.find(r => r.symptomKey === SYMPTOM_KEY_ALIASES[mainKey])
+    : undefined;
+  const knowledge: GradingKnowledge | null = row
+    ? {
+        symptomKey: row.symptomKey,
+        displayName: row.displayName,
+        requiredQuestions: toStringArray(row.requiredQuestions),
+        redFlags: toStringArray(row.redFlags),
+      }
+    : null;
+  return { knowledge, dictionary };
+};
+
+/**
+ * 按任务参考病历为学生病历评分并保存结果
+ */
+export const gradeSessionById = async (sessionId: number, actor: GradingActor): Promise<SessionGrade> => {
+  const session = await loadSession(sessionId);
+  assertCanGrade(actor, session);
+  if (!session.assignment) {throw ErrorTypes.BadRequest('该病历未关联病例任务，无法自动评分');}
+  const { referenceSessionId } = session.assignment;
+  if (!referenceSessionId) {throw ErrorTypes.Conflict('该任务尚未设置参考病历');}
+  if (referenceSessionId === sessionId) {throw ErrorTypes.BadRequest('参考病历无需评分');}
+
+  const reference = await prisma.interviewSession.findUnique({
+    where: { id: referenceSessionId },
+    select: GRADING_SESSION_SELECT,
+  });
+  if (!reference) {throw ErrorTypes.NotFound('参考病历');}
+
+  const { knowledge, dictionary } = await loadSymptomKnowledge(mainSymptomOf(reference.chiefComplaint)?.key);
+  const result = gradeSession(session, reference, {
+    knowledge,
+    dictionary,
+    expectedFindings: toStringArray(session.assignment.expectedFindings),
+  });
+
+  const gradedAt = new Date();
+  await prisma.interviewSession.update({
+    where: { id: sessionId },
+    data: { gradeScore: result.score, gradeResult: result as unknown as Prisma.InputJsonValue, gradedAt },
+  });
+  secureLogger.info('[SessionGrading] 病历评分完成', { sessionId, score: result.score, operatorId: actor.operatorId });
+  return { sessionId, score: result.score, result: resultForActor(actor, result), gradedAt };
+};
+
+/**
+ * 已保存的评分结果
+ */
+export const getSessionGrade = async (sessionId: number, actor: GradingActor): Promise<SessionGrade> => {
+  const session = await loadSession(sessionId);
+  assertCanGrade(actor, session);
+  return {
+    sessionId,
+    score: session.gradeScore,
+    result: resultForActor(actor, session.gradeResult as unknown as GradingResult | null),
+    gradedAt: session.gradedAt,
+  };
+};
+
+/**
+ * 学生提交审核时自动评分；任务未设置参考病历等情况只记录日志，不影响提交
+ */
+export const gradeOnSubmit = async (sessionId: number, actor: GradingActor): Promise<void> => {
+  try {
+    await gradeSessionById(sessionId, actor);
+  } catch (error) {
+    secureLogger.warn('[SessionGrading] 提交时自动评分未完成', {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
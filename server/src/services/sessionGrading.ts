@@ -0,0 +1,303 @@
+/**
+ * 病历自动评分
+ * 以教师的参考病历为标准逐节比对学生病历：主诉症状与病程、主症状知识库必问问题与警惕征象的覆盖、
+ * 参考病历中的重要阴性，以及任务预期采集要点；输出百分制得分与逐项反馈
+ */
+
+import { parseChiefComplaintText, type DurationUnit, type DurationValue } from './chiefComplaintParser';
+import { SYMPTOM_NAME_TO_KEY, SYMPTOM_SYNONYMS } from './mapping.service';
+import { collectSessionFindings, toFindingKeys, type FindingsSessionInput } from './sessionFindings';
+import { matchSymptoms, type SymptomKnowledgeEntry } from './symptomMatcher';
+
+export interface GradingSessionInput extends FindingsSessionInput {
+  maritalHistory?: unknown;
+  specialistExam?: unknown;
+  auxiliaryExams?: unknown;
+}
+
+/**
+ * 主症状对应的知识库条目
+ */
+export interface GradingKnowledge extends SymptomKnowledgeEntry {
+  requiredQuestions: string[];
+  redFlags: string[];
+}
+
+export type RubricSection = 'chiefComplaint' | 'requiredQuestions' | 'redFlags' | 'pertinentNegatives' | 'expectedFindings';
+
+export interface RubricItem {
+  section: RubricSection;
+  item: string;
+  passed: boolean;
+  points: number;
+  maxPoints: number;
+  feedback: string;
+}
+
+export interface RubricSectionScore {
+  section: RubricSection;
+  label: string;
+  points: number;
+  maxPoints: number;
+}
+
+export interface GradingResult {
+  score: number;
+  maxScore: number;
+  mainSymptom: { name: string; key: string } | null;
+  sections: RubricSectionScore[];
+  items: RubricItem[];
+}
+
+export interface GradingOptions {
+  knowledge?: GradingKnowledge | null;
+  expectedFindings?: string[];
+  // 参与症状识别的知识库词典（symptomKey / displayName）
+  dictionary?: SymptomKnowledgeEntry[];
+}
+
+// 各分节满分权重；某分节没有可评分项时，其余分节按比例折算为百分制
+const SECTION_WEIGHTS: Record<RubricSection, number> = {
+  chiefComplaint: 25,
+  requiredQuestions: 30,
+  redFlags: 15,
+  pertinentNegatives: 15,
+  expectedFindings: 15,
+};
+
+const SECTION_LABELS: Record<RubricSection, string> = {
+  chiefComplaint: '主诉',
+  requiredQuestions: '必问问题',
+  redFlags: '警惕征象',
+  pertinentNegatives: '重要阴性',
+  expectedFindings: '预期要点',
+};
+
+const HOURS_PER_UNIT: Record<DurationUnit, number> = {
+  '分钟': 1 / 60,
+  '小时': 1,
+  '天': 24,
+  '周': 24 * 7,
+  '月': 24 * 30,
+  '年': 24 * 365,
+};
+
+// 病程与参考值的相对误差在此范围内视为正确
+const DURATION_TOLERANCE = 0.25;
+
+// 必问问题的主题 → 现病史中对应的结构化字段
+const QUESTION_TOPICS: Array<[RegExp, string[]]> = [
+  [/起病|急性|慢性|发作/u, ['onsetMode', 'onsetTime']],
+  [/部位|位置/u, ['location']],
+  [/性质|程度|严重/u, ['quality', 'severity']],
+  [/持续|阵发|间歇|频率/u, ['durationDetails', 'evolution']],
+  [/诱因|诱发|加重/u, ['trigger', 'factors']],
+  [/缓解/u, ['factors']],
+  [/治疗|用药|就诊|服药/u, ['treatmentHistory']],
+];
+
+const toRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const hasValue = (value: unknown): boolean => {
+  if (Array.isArray(value)) {return value.length > 0;}
+  if (value && typeof value === 'object') {return Object.values(value).some(hasValue);}
+  return String(value ?? '').trim() !== '';
+};
+
+/**
+ * 拼接病历各分节中的全部文本，用于关键词覆盖判断
+ */
+const collectText = (session: GradingSessionInput): string => {
+  const parts: string[] = [];
+  const walk = (value: unknown) => {
+    if (typeof value === 'string') {parts.push(value);}
+    else if (Array.isArray(value)) {value.forEach(walk);}
+    else if (value && typeof value === 'object') {Object.values(value).forEach(walk);}
+  };
+  [
+    session.chiefComplaint,
+    session.presentIllness,
+    session.pastHistory,
+    session.personalHistory,
+    session.familyHistory,
+    session.reviewOfSystems,
+    session.physicalExam,
+  ].forEach(walk);
+  return parts.join('。');
+};
+
+const toHours = (value: DurationValue | null, unit: DurationUnit | null): { min: number; max: number } | null => {
+  if (value === null || !unit) {return null;}
+  const factor = HOURS_PER_UNIT[unit];
+  return typeof value === 'number'
+    ? { min: value * factor, max: value * factor }
+    : { min: value.min * factor, max: value.max * factor };
+};
+
+const formatDuration = (value: DurationValue | null, unit: DurationUnit | null): string => {
+  if (value === null || !unit) {return '未记录';}
+  return typeof value === 'number' ? `${value}${unit}` : `${value.min}-${value.max}${unit}`;
+};
+
+/**
+ * 解析主诉：优先使用结构化的症状与病程，缺失时从主诉文本解析
+ */
+const parseChiefComplaint = (chiefComplaint: unknown) => {
+  const cc = toRecord(chiefComplaint);
+  const parsed = parseChiefComplaintText(String(cc.text || ''), {
+    synonyms: SYMPTOM_SYNONYMS,
+    knownSymptoms: Object.keys(SYMPTOM_NAME_TO_KEY),
+  });
+  const symptom = String(cc.symptom || parsed.complaint_text || '').trim();
+  const num = Number(cc.durationNum);
+  const max = Number(cc.durationNumMax);
+  const unit = typeof cc.durationUnit === 'string' && cc.durationUnit in HOURS_PER_UNIT
+    ? (cc.durationUnit as DurationUnit)
+    : null;
+  const structured: DurationValue | null = Number.isFinite(num) && num > 0
+    ? (Number.isFinite(max) && max > num ? { min: num, max } : num)
+    : null;
+  return structured !== null && unit
+    ? { symptom, durationValue: structured, durationUnit: unit }
+    : { symptom, durationValue: parsed.duration_value, durationUnit: parsed.duration_unit };
+};
+
+const durationMatches = (actual: { min: number; max: number }, expected: { min: number; max: number }): boolean => {
+  const low = expected.min * (1 - DURATION_TOLERANCE);
+  const high = expected.max * (1 + DURATION_TOLERANCE);
+  return actual.max >= low && actual.min <= high;
+};
+
+/**
+ * 参考病历主诉中的主症状（用于查找知识库条目）
+ */
+export function mainSymptomOf(chiefComplaint: unknown): { name: string; key: string } | null {
+  const { symptom } = parseChiefComplaint(chiefComplaint);
+  const keys = symptom ? toFindingKeys(symptom) : [];
+  return keys.length > 0 ? { name: symptom, key: keys[0] } : null;
+}
+
+/**
+ * 对学生病历评分
+ */
+export function gradeSession(
+  student: GradingSessionInput,
+  reference: GradingSessionInput,
+  options: GradingOptions = {}
+): GradingResult {
+  const dictionary = options.dictionary || [];
+  const items: RubricItem[] = [];
+  const add = (section: RubricSection, item: string, passed: boolean, feedback: string) => {
+    items.push({ section, item, passed, points: 0, maxPoints: 0, feedback });
+  };
+
+  const studentFindings = collectSessionFindings(student);
+  const referenceFindings = collectSessionFindings(reference);
+  const studentText = collectText(student);
+  const pi = toRecord(student.presentIllness);
+
+  // 学生病历中问及（阳性或否认）的全部症状 key
+  const askedKeys = new Set<string>([
+    ...studentFindings.evidence.map(e => e.key),
+    ...matchSymptoms(studentText, dictionary).mentions.flatMap(m => toFindingKeys(m.name)),
+  ]);
+  const isAsked = (name: string) => toFindingKeys(name).some(k => askedKeys.has(k));
+
+  // 1. 主诉
+  const studentCc = parseChiefComplaint(student.chiefComplaint);
+  const referenceCc = parseChiefComplaint(reference.chiefComplaint);
+  const mainKeys = referenceCc.symptom ? toFindingKeys(referenceCc.symptom) : [];
+  const mainSymptom = mainKeys.length > 0 ? { name: referenceCc.symptom, key: mainKeys[0] } : null;
+  if (mainSymptom) {
+    const studentKeys = studentCc.symptom ? toFindingKeys(studentCc.symptom) : [];
+    const passed = studentKeys.some(k => mainKeys.includes(k));
+    add('chiefComplaint', '主诉症状', passed, passed
+      ? `主诉症状正确：${studentCc.symptom}`
+      : `主诉症状应为“${referenceCc.symptom}”，记录为“${studentCc.symptom || '未记录'}”`);
+  }
+  const expectedDuration = toHours(referenceCc.durationValue, referenceCc.durationUnit);
+  if (expectedDuration) {
+    const actual = toHours(studentCc.durationValue, studentCc.durationUnit);
+    const passed = actual !== null && durationMatches(actual, expectedDuration);
+    const expectedText = formatDuration(referenceCc.durationValue, referenceCc.durationUnit);
+    add('chiefComplaint', '病程时长', passed, passed
+      ? `病程时长正确：${formatDuration(studentCc.durationValue, studentCc.durationUnit)}`
+      : `病程应为${expectedText}，记录为${formatDuration(studentCc.durationValue, studentCc.durationUnit)}`);
+  }
+
+  const mainKeySet = new Set(mainKeys);
+  const symptomTermsOf = (text: string): string[] =>
+    Array.from(new Set(matchSymptoms(text, dictionary).mentions.map(m => m.name)))
+      .filter(name => !toFindingKeys(name).some(k => mainKeySet.has(k)));
+
+  // 2. 必问问题：对应结构化字段已填写、问及其中的伴随症状或记录了括号中的选项之一即视为覆盖
+  for (const question of options.knowledge?.requiredQuestions || []) {
+    const fields = QUESTION_TOPICS.filter(([pattern]) => pattern.test(question)).flatMap(([, f]) => f);
+    const terms = symptomTermsOf(question);
+    const choices = Array.from(question.matchAll(/[（(]([^）)]+)[）)]/gu))
+      .flatMap(m => m[1].split(/[/、，,]/u))
+      .map(c => c.replace(/^如/u, '').trim())
+      .filter(c => c.length >= 2);
+    if (fields.length === 0 && terms.length === 0 && choices.length === 0) {continue;}
+
+    const passed = fields.some(f => hasValue(pi[f]))
+      || terms.some(isAsked)
+      || choices.some(c => studentText.includes(c));
+    add('requiredQuestions', question, passed, passed ? '已问及' : `未问及：${question}`);
+  }
+
+  // 3. 警惕征象：问及其中任一关键症状（阳性或否认）即视为已排查
+  for (const redFlag of options.knowledge?.redFlags || []) {
+    const summary = redFlag.split(/[（(]/u)[0].trim();
+    const terms = symptomTermsOf(summary);
+    if (terms.length === 0) {continue;}
+    const passed = terms.some(isAsked);
+    add('redFlags', summary, passed, passed ? '已排查' : `未排查警惕征象：${summary}（${terms.join('、')}）`);
+  }
+
+  // 4. 重要阴性：参考病历中明确否认的症状
+  const studentAbsent = new Set(studentFindings.absentSymptoms);
+  const studentPresent = new Set(studentFindings.presentSymptoms);
+  for (const key of referenceFindings.absentSymptoms) {
+    const passed = studentAbsent.has(key);
+    add('pertinentNegatives', key, passed, passed
+      ? '已记录为阴性'
+      : studentPresent.has(key) ? `参考病历为阴性，记录为阳性：${key}` : `未记录重要阴性：${key}`);
+  }
+
+  // 5. 任务预期要点
+  for (const finding of options.expectedFindings || []) {
+    const passed = isAsked(finding) || studentText.includes(finding);
+    add('expectedFindings', finding, passed, passed ? '已采集' : `未采集：${finding}`);
+  }
+
+  // 按分节权重分配分值
+  const sections: RubricSectionScore[] = [];
+  for (const section of Object.keys(SECTION_WEIGHTS) as RubricSection[]) {
+    const sectionItems = items.filter(i => i.section === section);
+    if (sectionItems.length === 0) {continue;}
+    const each = SECTION_WEIGHTS[section] / sectionItems.length;
+    sectionItems.forEach(i => {
+      i.maxPoints = each;
+      i.points = i.passed ? each : 0;
+    });
+    sections.push({
+      section,
+      label: SECTION_LABELS[section],
+      points: sectionItems.reduce((sum, i) => sum + i.points, 0),
+      maxPoints: SECTION_WEIGHTS[section],
+    });
+  }
+
+  const total = sections.reduce((sum, s) => sum + s.maxPoints, 0);
+  const earned = sections.reduce((sum, s) => sum + s.points, 0);
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return {
+    score: total > 0 ? round((earned / total) * 100) : 0,
+    maxScore: 100,
+    mainSymptom,
+    sections: sections.map(s => ({ ...s, points: round(s.points) })),
+    items: items.map(i => ({ ...i, points: round(i.points), maxPoints: round(i.maxPoints) })),
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * 会话数据密钥授权（信封加密）
+ * 病历字段由客户端以会话数据密钥加密，数据密钥分别用各接收者公钥包装后保存；
+ * 授权与撤销只增删包装副本，不重新加密病历数据。服务器不接触明文数据密钥
+ */
+
+import prisma from '../prisma';
+import { ErrorTypes } from '../middleware/errorHandler';
+import type { OperatorRole } from '../middleware/auth';
+import { ENCRYPTED_PREFIX } from '../utils/cryptoService';
+import { secureLogger } from '../utils/secureLogger';
+import { canAccessSession, type ReviewActor } from './sessionReview.service';
+import { currentKeyVersionId } from './key.service';
+
+export interface SessionKeyRecipient {
+  recipientId: number;
+  name: string | null;
+  role: string;
+  // 病历作者的授权不可撤销
+  isAuthor: boolean;
+  keyVersion: number | null;
+  grantedBy: number | null;
+  updatedAt: Date;
+}
+
+export interface SessionKeys {
+  // 当前用户 ID，客户端为自己包装首个数据密钥时使用
+  operatorId: number;
+  // 当前用户的包装密钥，未获授权时为 null
+  wrappedKey: string | null;
+  recipients: SessionKeyRecipient[];
+}
+
+const loadSession = async (sessionId: number, actor: ReviewActor) => {
+  const session = await prisma.interviewSession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, doctorId: true, reviewerId: true },
+  });
+  if (!session) {throw ErrorTypes.NotFound('会话');}
+  if (!canAccessSession(actor, session)) {throw ErrorTypes.Forbidden('无权访问该会话');}
+  return session;
+};
+
+/**
+ * 会话的授权列表及当前用户的包装密钥
+ */
+export const getSessionKeys = async (sessionId: number, actor: ReviewActor): Promise<SessionKeys> => {
+  const session = await loadSession(sessionId, actor);
+  const grants = await prisma.sessionKeyGrant.findMany({
+    where: { sessionId },
+    select: {
+      recipientId: true,
+      wrappedKey: true,
+      grantedBy: true,
+      updatedAt: true,
+      recipient: { select: { name: true, username: true, role: true } },
+      keyVersion: { select: { version: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return {
+    operatorId: actor.operatorId,
+    wrappedKey: grants.find(g => g.recipientId === actor.operatorId)?.wrappedKey ?? null,
+    recipients: grants.map(g => ({
+      recipientId: g.recipientId,
+      name: g.recipient.name || g.recipient.username,
+      role: g.recipient.role,
+      isAuthor: g.recipientId === session.doctorId,
+      keyVersion: g.keyVersion?.version ?? null,
+      grantedBy: g.grantedBy,
+      updatedAt: g.updatedAt,
+    })),
+  };
+};
+
+/**
+ * 为接收者保存（或重新包装）会话数据密钥。
+ * 授权人须已持有该会话的密钥；会话尚无任何授权时，仅病历作者可创建首个密钥。
+ * 覆盖已有授权只限本人重新包装或由病历作者、管理员操作。
+ * 接收者须有权查看该会话且已登记公钥
+ */
+export const grantSessionKey = async (
+  sessionId: number,
+  actor: ReviewActor,
+  recipientId: number,
+  wrappedKey: string
+): Promise<SessionKeyRecipient> => {
+  const session = await loadSession(sessionId, actor);
+  if (!wrappedKey.startsWith(ENCRYPTED_PREFIX)) {throw ErrorTypes.BadRequest('包装密钥格式无效');}
+
+  const grants = await prisma.sessionKeyGrant.findMany({ where: { sessionId }, select: { recipientId: true } });
+  const holdsKey = grants.some(g => g.recipientId === actor.operatorId);
+  const isFirstKey = grants.length === 0 && session.doctorId === actor.operatorId;
+  if (!holdsKey && !isFirstKey) {throw ErrorTypes.Forbidden('未持有该会话的数据密钥，无法授权');}
+  const isRewrap = grants.some(g => g.recipientId === recipientId);
+  if (isRewrap && recipientId !== actor.operatorId && actor.role !== 'admin' && session.doctorId !== actor.operatorId) {
+    throw ErrorTypes.Forbidden('仅接收者本人、病历作者或管理员可重新包装已有授权');
+  }
+
+  const recipient = await prisma.operator.findUnique({
+    where: { id: recipientId },
+    select: { id: true, name: true, username: true, role: true },
+  });
+  if (!recipient) {throw ErrorTypes.NotFound('接收者');}
+  if (!canAccessSession({ operatorId: recipient.id, role: recipient.role as OperatorRole }, session)) {
+    throw ErrorTypes.Conflict('接收者无权查看该会话');
+  }
+  const keyVersionId = await currentKeyVersionId(recipientId);
+  if (!keyVersionId) {throw ErrorTypes.Conflict('接收者尚未创建加密密钥');}
+
+  const grant = await prisma.sessionKeyGrant.upsert({
+    where: { sessionId_recipientId: { sessionId, recipientId } },
+    create: { sessionId, recipientId, wrappedKey, keyVersionId, grantedBy: actor.operatorId },
+    update: { wrappedKey, keyVersionId, grantedBy: actor.operatorId },
+    select: { grantedBy: true, updatedAt: true, keyVersion: { select: { version: true } } },
+  });
+
+  secureLogger.info('[SessionKeyService] 已授权会话数据密钥', { sessionId, recipientId, operatorId: actor.operatorId });
+  return {
+    recipientId,
+    name: recipient.name || recipient.username,
+    role: recipient.role,
+    isAuthor: recipientId === session.doctorId,
+    keyVersion: grant.keyVersion?.version ?? null,
+    grantedBy: grant.grantedBy,
+    updatedAt: grant.updatedAt,
+  };
+};
+
+/**
+ * 撤销接收者的包装密钥（病历作者或管理员可操作，作者本人的授权不可撤销）
+ */
+export const revokeSessionKey = async (sessionId: number, actor: ReviewActor, recipientId: number): Promise<void> => {
+  const session = await loadSession(sessionId, actor);
+  if (actor.role !== 'admin' && session.doctorId !== actor.operatorId) {throw ErrorTypes.Forbidden('仅病历作者或管理员可撤销授权');}
+  if (recipientId === session.doctorId) {throw ErrorTypes.Conflict('不能撤销病历作者的数据密钥');}
+
+  const { count } = await prisma.sessionKeyGrant.deleteMany({ where: { sessionId, recipientId } });
+  if (count === 0) {throw ErrorTypes.NotFound('授权');}
+
+  secureLogger.info('[SessionKeyService] 已撤销会话数据密钥', { sessionId, recipientId, operatorId: actor.operatorId });
+};
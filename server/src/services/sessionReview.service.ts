@@ -0,0 +1,230 @@
+/**
+ * 病历带教审核
+ * 学生提交病历给带教教师，教师按字段路径批注并退回或通过；
+ * 已提交/已通过的病历对学生只读
+ */
+
+import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import type { OperatorRole } from '../middleware/auth';
+import { gradeOnSubmit } from './sessionGrading.service';
+
+export const REVIEW_STATUSES = ['submitted', 'returned', 'approved'] as const;
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+// 学生不可编辑的状态
+const LOCKED_STATUSES: readonly string[] = ['submitted', 'approved'];
+// 允许提交审核的状态
+const SUBMITTABLE_STATUSES: readonly string[] = ['draft', 'completed', 'returned'];
+
+// 可批注的病历分节（与 InterviewSession 的 JSON 字段一致）
+const REVIEWABLE_SECTIONS = [
+  'generalInfo',
+  'chiefComplaint',
+  'presentIllness',
+  'pastHistory',
+  'personalHistory',
+  'maritalHistory',
+  'menstrualHistory',
+  'fertilityHistory',
+  'familyHistory',
+  'physicalExam',
+  'specialistExam',
+  'auxiliaryExams',
+  'reviewOfSystems',
+] as const;
+
+const FIELD_PATH_PATTERN = new RegExp(`^(${REVIEWABLE_SECTIONS.join('|')})(\\.[A-Za-z0-9_]+)*$`, 'u');
+
+export interface ReviewActor {
+  operatorId: number;
+  role: OperatorRole;
+}
+
+export type ReviewCommentRecord = Prisma.SessionReviewCommentGetPayload<object>;
+
+export interface SessionReviewState {
+  sessionId: number;
+  status: string;
+  doctorId: number | null;
+  reviewerId: number | null;
+  submittedAt: Date | null;
+  reviewedAt: Date | null;
+  comments: ReviewCommentRecord[];
+}
+
+type SessionAccessFields = { doctorId: number | null; reviewerId?: number | null };
+
+/**
+ * 校验批注锚定的字段路径（如 presentIllness.onsetTime）
+ */
+export const isValidFieldPath = (fieldPath: string): boolean => FIELD_PATH_PATTERN.test(fieldPath);
+
+export const isReviewStatus = (status: unknown): status is ReviewStatus =>
+  (REVIEW_STATUSES as readonly unknown[]).includes(status);
+
+/**
+ * 会话访问规则：管理员全部；医生/学生为自己创建或未关联的会话；教师为提交给自己审核的会话
+ */
+export const canAccessSession = (actor: ReviewActor | undefined, session: SessionAccessFields): boolean => {
+  if (!actor || actor.role === 'admin') {return true;}
+  if (actor.role === 'teacher') {
+    return session.reviewerId === actor.operatorId || session.doctorId === actor.operatorId;
+  }
+  return session.doctorId === null || session.doctorId === actor.operatorId;
+};
+
+/**
+ * 学生编辑已提交或已通过的病历时返回 true
+ */
+export const isLockedForActor = (actor: ReviewActor | undefined, status: string): boolean =>
+  actor?.role === 'student' && LOCKED_STATUSES.includes(status);
+
+const getSessionOrThrow = async (sessionId: number) => {
+  const session = await prisma.interviewSession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, status: true, doctorId: true, reviewerId: true, assignmentId: true, submittedAt: true, reviewedAt: true },
+  });
+  if (!session) {throw ErrorTypes.NotFound('会话');}
+  return session;
+};
+
+/**
+ * 审核人须为该会话的指定教师（管理员可代为审核）
+ */
+const assertReviewer = (actor: ReviewActor, session: { reviewerId: number | null }): void => {
+  if (actor.role === 'admin') {return;}
+  if (session.reviewerId !== actor.operatorId) {
+    throw ErrorTypes.Forbidden('仅指定的带教教师可以审核该病历');
+  }
+};
+
+const assertSubmitted = (session: { status: string }): void => {
+  if (session.status !== 'submitted') {throw ErrorTypes.Conflict('该病历未处于待审核状态');}
+};
+
+/**
+ * 可选的带教教师列表（供学生提交时选择）
+ */
+export const listReviewers = async (): Promise<Array<{ id: number; name: string | null; username: string | null }>> => {
+  return await prisma.operator.findMany({
+    where: { role: 'teacher' },
+    select: { id: true, name: true, username: true },
+    orderBy: { id: 'asc' },
+  });
+};
+
+/**
+ * 获取会话审核状态与全部批注
+ */
+export const getReview = async (sessionId: number, actor?: ReviewActor): Promise<SessionReviewState> => {
+  const session = await getSessionOrThrow(sessionId);
+  if (!canAccessSession(actor, session)) {throw ErrorTypes.Forbidden('无权访问该会话');}
+  const comments = await prisma.sessionReviewComment.findMany({
+    where: { sessionId },
+    orderBy: { createdAt: 'asc' },
+  });
+  return {
+    sessionId: session.id,
+    status: session.status,
+    doctorId: session.doctorId,
+    reviewerId: session.reviewerId,
+    submittedAt: session.submittedAt,
+    reviewedAt: session.reviewedAt,
+    comments,
+  };
+};
+
+/**
+ * 教师的待审核/已审核病历列表（管理员查看全部）
+ */
+export const listReviewQueue = async (actor: ReviewActor, status: ReviewStatus = 'submitted') => {
+  return await prisma.interviewSession.findMany({
+    where: {
+      status,
+      ...(actor.role === 'admin' ? {} : { reviewerId: actor.operatorId }),
+    },
+    select: {
+      id: true,
+      status: true,
+      doctorId: true,
+      reviewerId: true,
+      submittedAt: true,
+      reviewedAt: true,
+      patient: { select: { id: true, name: true } },
+    },
+    orderBy: { submittedAt: 'asc' },
+  });
+};
+
+/**
+ * 学生提交病历给指定教师审核
+ */
+export const submitForReview = async (sessionId: number, actor: ReviewActor, teacherId: number): Promise<SessionReviewState> => {
+  const session = await getSessionOrThrow(sessionId);
+  if (session.doctorId !== actor.operatorId) {throw ErrorTypes.Forbidden('只能提交自己的病历');}
+  if (!SUBMITTABLE_STATUSES.includes(session.status)) {throw ErrorTypes.Conflict('该病历已提交或已通过审核');}
+
+  const teacher = await prisma.operator.findUnique({ where: { id: teacherId }, select: { id: true, role: true } });
+  if (!teacher || teacher.role !== 'teacher') {throw ErrorTypes.BadRequest('请选择有效的带教教师');}
+
+  await prisma.interviewSession.update({
+    where: { id: sessionId },
+    data: { status: 'submitted', reviewerId: teacherId, submittedAt: new Date(), reviewedAt: null },
+  });
+  secureLogger.info('[SessionReview] 病历已提交审核', { sessionId, studentId: actor.operatorId, teacherId });
+  if (session.assignmentId) {await gradeOnSubmit(sessionId, actor);}
+  return await getReview(sessionId, actor);
+};
+
+/**
+ * 教师按字段路径添加批注
+ */
+export const addComment = async (
+  sessionId: number,
+  actor: ReviewActor,
+  input: { fieldPath?: string | null; comment: string }
+): Promise<ReviewCommentRecord> => {
+  const session = await getSessionOrThrow(sessionId);
+  assertReviewer(actor, session);
+  assertSubmitted(session);
+  const fieldPath = input.fieldPath ? input.fieldPath.trim() : null;
+  if (fieldPath && !isValidFieldPath(fieldPath)) {throw ErrorTypes.BadRequest('批注字段路径无效');}
+
+  return await prisma.sessionReviewComment.create({
+    data: { sessionId, authorId: actor.operatorId, fieldPath, comment: input.comment, action: 'comment' },
+  });
+};
+
+/**
+ * 完成审核：退回（returned）或通过（approved），可附整体意见
+ */
+const completeReview = async (
+  sessionId: number,
+  actor: ReviewActor,
+  status: 'returned' | 'approved',
+  comment?: string
+): Promise<SessionReviewState> => {
+  const session = await getSessionOrThrow(sessionId);
+  assertReviewer(actor, session);
+  assertSubmitted(session);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.interviewSession.update({ where: { id: sessionId }, data: { status, reviewedAt: new Date() } });
+    if (comment) {
+      await tx.sessionReviewComment.create({
+        data: { sessionId, authorId: actor.operatorId, fieldPath: null, comment, action: status === 'returned' ? 'return' : 'approve' },
+      });
+    }
+  });
+  secureLogger.info('[SessionReview] 病历审核完成', { sessionId, reviewerId: actor.operatorId, status });
+  return await getReview(sessionId, actor);
+};
+
+export const returnSession = async (sessionId: number, actor: ReviewActor, comment?: string) =>
+  completeReview(sessionId, actor, 'returned', comment);
+
+export const approveSession = async (sessionId: number, actor: ReviewActor, comment?: string) =>
+  completeReview(sessionId, actor, 'approved', comment);
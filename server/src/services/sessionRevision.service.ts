@@ -0,0 +1,343 @@
+/**
+ * 问诊会话修订历史
+ * 每次保存记录变更章节的修改前后内容与 JSON Patch 差异；可比较任意两个修订，并将单个章节或整份病历恢复到某一修订。
+ * 病史为客户端密文时差异为整段替换，由前端解密后再比较
+ */
+
+import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import { canAccessSession, isLockedForActor, type ReviewActor } from './sessionReview.service';
+import { diffJson, type JsonPatchOperation } from './jsonPatch';
+
+/**
+ * 纳入修订历史的会话字段（病历各章节及病史陈述信息；状态变更由审核流程记录）
+ */
+export const REVISION_SECTIONS = [
+  'historian',
+  'reliability',
+  'historianRelationship',
+  'generalInfo',
+  'chiefComplaint',
+  'presentIllness',
+  'pastHistory',
+  'personalHistory',
+  'maritalHistory',
+  'menstrualHistory',
+  'fertilityHistory',
+  'familyHistory',
+  'physicalExam',
+  'specialistExam',
+  'auxiliaryExams',
+  'reviewOfSystems',
+] as const;
+
+export type RevisionSection = typeof REVISION_SECTIONS[number];
+export type SectionValues = Partial<Record<RevisionSection, unknown>>;
+
+// 字符串列，其余为可空 JSON 列
+const SCALAR_SECTIONS: ReadonlySet<RevisionSection> = new Set(['historian', 'reliability', 'historianRelationship']);
+
+const SECTION_SELECT = Object.fromEntries(REVISION_SECTIONS.map(s => [s, true])) as Record<RevisionSection, true>;
+
+export type RevisionAction = 'update' | 'restore';
+
+/**
+ * 一次保存产生的变更
+ */
+export interface RevisionChange {
+  sections: RevisionSection[];
+  before: SectionValues;
+  after: SectionValues;
+  patch: Partial<Record<RevisionSection, JsonPatchOperation[]>>;
+}
+
+export interface RevisionSummary {
+  revision: number;
+  action: string;
+  restoredFrom: number | null;
+  operatorId: number | null;
+  operatorName: string | null;
+  sections: RevisionSection[];
+  // 各章节的 Patch 操作数
+  changeCounts: Partial<Record<RevisionSection, number>>;
+  createdAt: Date;
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  sections: Partial<Record<RevisionSection, JsonPatchOperation[]>>;
+}
+
+export const isRevisionSection = (key: string): key is RevisionSection =>
+  (REVISION_SECTIONS as readonly string[]).includes(key);
+
+/**
+ * 比较保存前后的章节内容，仅 keys 中列出的章节参与比较；无变化时返回 null
+ */
+export function buildRevisionChange(
+  before: SectionValues,
+  after: SectionValues,
+  keys: readonly RevisionSection[] = REVISION_SECTIONS
+): RevisionChange | null {
+  const change: RevisionChange = { sections: [], before: {}, after: {}, patch: {} };
+  for (const key of keys) {
+    const ops = diffJson(before[key], after[key]);
+    if (ops.length === 0) {continue;}
+    change.sections.push(key);
+    change.before[key] = before[key] ?? null;
+    change.after[key] = after[key] ?? null;
+    change.patch[key] = ops;
+  }
+  return change.sections.length > 0 ? change : null;
+}
+
+type StoredRevision = { revision: number; sections: unknown; before: unknown; after: unknown; keyVersionId?: number | null };
+
+const sectionsOf = (r: { sections: unknown }): RevisionSection[] =>
+  Array.isArray(r.sections) ? (r.sections as string[]).filter(isRevisionSection) : [];
+
+/**
+ * 重建某一修订保存后的病历内容（revision 为 0 表示首次保存前）。
+ * 章节取该修订及之前最后一次修改后的内容；之前未修改过的章节取之后首次修改前的内容，从未修改过的取当前内容
+ */
+export function stateAtRevision(revisions: StoredRevision[], current: SectionValues, revision: number): SectionValues {
+  const ordered = [...revisions].sort((a, b) => a.revision - b.revision);
+  const state: SectionValues = {};
+  for (const key of REVISION_SECTIONS) {
+    const touching = ordered.filter(r => sectionsOf(r).includes(key));
+    const last = touching.filter(r => r.revision <= revision).pop();
+    const next = touching.find(r => r.revision > revision);
+    if (last) {
+      state[key] = (last.after as SectionValues)[key] ?? null;
+    } else if (next) {
+      state[key] = (next.before as SectionValues)[key] ?? null;
+    } else {
+      state[key] = current[key] ?? null;
+    }
+  }
+  return state;
+}
+
+/**
+ * 恢复到某一修订时，各章节内容所取自的修订快照标记的密钥版本（规则同 stateAtRevision；取当前内容的章节不计）
+ */
+export function snapshotKeyVersionIds(
+  revisions: StoredRevision[],
+  revision: number,
+  sections: readonly RevisionSection[]
+): number[] {
+  const ordered = [...revisions].sort((a, b) => a.revision - b.revision);
+  const ids = new Set<number>();
+  for (const key of sections) {
+    const touching = ordered.filter(r => sectionsOf(r).includes(key));
+    const source = touching.filter(r => r.revision <= revision).pop() ?? touching.find(r => r.revision > revision);
+    if (source?.keyVersionId) {ids.add(source.keyVersionId);}
+  }
+  return Array.from(ids);
+}
+
+/**
+ * 将章节内容转换为会话写入数据（JSON 列写入 null 时需使用 Prisma.DbNull）
+ */
+export const toSessionWriteData = (values: SectionValues): Prisma.InterviewSessionUpdateInput => {
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values) as Array<[RevisionSection, unknown]>) {
+    data[key] = value === null && !SCALAR_SECTIONS.has(key) ? Prisma.DbNull : value;
+  }
+  return data as Prisma.InterviewSessionUpdateInput;
+};
+
+const toJson = (value: unknown): Prisma.InputJsonValue => value as Prisma.InputJsonValue;
+
+/**
+ * 在事务中锁定会话行；须在读取修改前内容之前调用，并发保存或恢复同一会话时依次执行，
+ * 修订的修改前内容与修订号均不会基于过期数据
+ */
+export const lockSession = async (tx: Prisma.TransactionClient, sessionId: number): Promise<void> => {
+  await tx.$queryRaw`SELECT id FROM interview_sessions WHERE id = ${sessionId} FOR UPDATE`;
+};
+
+/**
+ * 在事务中写入一条修订，修订号为该会话当前最大修订号加一。
+ * 调用方须已在同一事务中通过 lockSession 锁定会话行
+ */
+export const recordRevision = async (
+  tx: Prisma.TransactionClient,
+  sessionId: number,
+  change: RevisionChange,
+  options: { operatorId?: number | null; action?: RevisionAction; restoredFrom?: number; keyVersionId?: number | null } = {}
+): Promise<number> => {
+  const latest = await tx.sessionRevision.findFirst({
+    where: { sessionId },
+    orderBy: { revision: 'desc' },
+    select: { revision: true },
+  });
+  const revision = (latest?.revision ?? 0) + 1;
+  await tx.sessionRevision.create({
+    data: {
+      sessionId,
+      revision,
+      operatorId: options.operatorId || null,
+      action: options.action ?? 'update',
+      restoredFrom: options.restoredFrom ?? null,
+      keyVersionId: options.keyVersionId ?? null,
+      sections: change.sections,
+      before: toJson(change.before),
+      after: toJson(change.after),
+      patch: toJson(change.patch),
+    },
+  });
+  return revision;
+};
+
+const loadSessionForActor = async (
+  sessionId: number,
+  actor: ReviewActor,
+  options: { write: boolean },
+  client: Prisma.TransactionClient = prisma
+) => {
+  const session = await client.interviewSession.findUnique({
+    where: { id: sessionId },
+    select: { id: true, status: true, doctorId: true, reviewerId: true, keyVersionId: true, ...SECTION_SELECT },
+  });
+  if (!session) {throw ErrorTypes.NotFound('会话');}
+  if (!canAccessSession(actor, session)) {throw ErrorTypes.Forbidden('无权访问该会话');}
+  if (options.write) {
+    if (isLockedForActor(actor, session.status)) {throw ErrorTypes.Conflict('病历已提交审核或已通过，不能修改');}
+    // 教师只能修改自己编写的参考病历
+    if (actor.role === 'teacher' && session.doctorId !== actor.operatorId) {throw ErrorTypes.Forbidden('无权修改该会话');}
+  }
+  return session;
+};
+
+const loadRevisions = (sessionId: number, client: Prisma.TransactionClient = prisma) =>
+  client.sessionRevision.findMany({
+    where: { sessionId },
+    select: { revision: true, sections: true, before: true, after: true, keyVersionId: true },
+    orderBy: { revision: 'asc' },
+  });
+
+const assertRevision = (revisions: StoredRevision[], revision: number): void => {
+  if (revision !== 0 && !revisions.some(r => r.revision === revision)) {throw ErrorTypes.NotFound('修订');}
+};
+
+/**
+ * 修订列表（新的在前）
+ */
+export const listRevisions = async (sessionId: number, actor: ReviewActor): Promise<RevisionSummary[]> => {
+  await loadSessionForActor(sessionId, actor, { write: false });
+  const revisions = await prisma.sessionRevision.findMany({
+    where: { sessionId },
+    select: { revision: true, action: true, restoredFrom: true, operatorId: true, sections: true, patch: true, createdAt: true },
+    orderBy: { revision: 'desc' },
+  });
+
+  const operatorIds = Array.from(new Set(revisions.map(r => r.operatorId).filter((id): id is number => id !== null)));
+  const operators = operatorIds.length > 0
+    ? await prisma.operator.findMany({ where: { id: { in: operatorIds } }, select: { id: true, name: true, username: true } })
+    : [];
+  const nameOf = new Map(operators.map(o => [o.id, o.name || o.username]));
+
+  return revisions.map(r => {
+    const patch = (r.patch || {}) as Partial<Record<RevisionSection, JsonPatchOperation[]>>;
+    return {
+      revision: r.revision,
+      action: r.action,
+      restoredFrom: r.restoredFrom,
+      operatorId: r.operatorId,
+      operatorName: r.operatorId !== null ? nameOf.get(r.operatorId) ?? null : null,
+      sections: sectionsOf(r),
+      changeCounts: Object.fromEntries(Object.entries(patch).map(([key, ops]) => [key, ops.length])),
+      createdAt: r.createdAt,
+    };
+  });
+};
+
+/**
+ * 比较两个修订保存后的病历（from 为 0 表示首次保存前），仅返回有差异的章节
+ */
+export const diffRevisions = async (sessionId: number, actor: ReviewActor, from: number, to: number): Promise<RevisionDiff> => {
+  const session = await loadSessionForActor(sessionId, actor, { write: false });
+  const revisions = await loadRevisions(sessionId);
+  assertRevision(revisions, from);
+  assertRevision(revisions, to);
+
+  const change = buildRevisionChange(stateAtRevision(revisions, session, from), stateAtRevision(revisions, session, to));
+  return { from, to, sections: change?.patch ?? {} };
+};
+
+/**
+ * 恢复后会话应标记的密钥版本：快照中的密文未随轮换重新加密，会话改标记为其中最旧的版本以便再次轮换；
+ * 快照所用版本已吊销时密文无法解密，拒绝恢复
+ */
+const keyVersionForRestore = async (
+  tx: Prisma.TransactionClient,
+  currentId: number | null,
+  sourceIds: number[]
+): Promise<number | null> => {
+  if (sourceIds.length === 0) {return currentId;}
+  const ids = currentId ? [currentId, ...sourceIds] : sourceIds;
+  const versions = await tx.keyVersion.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, version: true, isRevoked: true },
+  });
+  if (versions.some(v => v.isRevoked && sourceIds.includes(v.id))) {
+    throw ErrorTypes.Conflict('该修订的密文所用密钥版本已吊销，无法恢复');
+  }
+  const oldest = versions.reduce<typeof versions[number] | null>((min, v) => (!min || v.version < min.version ? v : min), null);
+  return oldest?.id ?? currentId;
+};
+
+/**
+ * 将单个章节或整份病历恢复到某一修订保存后的内容，恢复本身也记录为一条修订。
+ * 锁定会话后在同一事务中读取当前内容与修订并写入
+ */
+export const restoreRevision = async (
+  sessionId: number,
+  actor: ReviewActor,
+  revision: number,
+  section?: RevisionSection
+): Promise<{ revision: number | null; sections: RevisionSection[] }> => {
+  const { recorded, change } = await prisma.$transaction(async (tx) => {
+    await lockSession(tx, sessionId);
+    const session = await loadSessionForActor(sessionId, actor, { write: true }, tx);
+    const revisions = await loadRevisions(sessionId, tx);
+    assertRevision(revisions, revision);
+
+    const target = stateAtRevision(revisions, session, revision);
+    const change = buildRevisionChange(session, target, section ? [section] : REVISION_SECTIONS);
+    if (!change) {return { recorded: null, change: null };}
+    const keyVersionId = await keyVersionForRestore(
+      tx,
+      session.keyVersionId,
+      snapshotKeyVersionIds(revisions, revision, change.sections)
+    );
+
+    await tx.interviewSession.update({
+      where: { id: sessionId },
+      data: keyVersionId && keyVersionId !== session.keyVersionId
+        ? { ...toSessionWriteData(change.after), keyVersion: { connect: { id: keyVersionId } } }
+        : toSessionWriteData(change.after),
+    });
+    const recorded = await recordRevision(tx, sessionId, change, {
+      operatorId: actor.operatorId,
+      action: 'restore',
+      restoredFrom: revision,
+      keyVersionId,
+    });
+    return { recorded, change };
+  });
+  if (!change) {return { revision: null, sections: [] };}
+
+  secureLogger.info('[SessionRevision] 恢复修订', {
+    sessionId,
+    restoredFrom: revision,
+    revision: recorded,
+    sections: change.sections,
+    operatorId: actor.operatorId,
+  });
+  return { revision: recorded, sections: change.sections };
+};
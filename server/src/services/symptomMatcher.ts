@@ -0,0 +1,248 @@
+/**
+ * 症状词典匹配
+ * 基于知识库显示名、symptomKey 与同义词表构建字典树，从主诉/病史文本中抽取症状并识别否定
+ */
+
+import { SYMPTOM_KEY_ALIASES, SYMPTOM_NAME_TO_KEY, SYMPTOM_SYNONYMS } from './mapping.service';
+
+/**
+ * 参与匹配的知识库记录（仅要求 symptomKey / displayName，其余字段原样返回）
+ */
+export interface SymptomKnowledgeEntry {
+  symptomKey: string;
+  displayName: string;
+}
+
+/**
+ * 词典词条：命中 term 时归一为 name，并关联知识库记录
+ */
+export interface SymptomDictionaryEntry<K extends SymptomKnowledgeEntry = SymptomKnowledgeEntry> {
+  term: string;
+  name: string;
+  key: string;
+  knowledge: K | null;
+}
+
+export interface SymptomSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * 文本中的单次症状提及
+ */
+export interface SymptomMention<K extends SymptomKnowledgeEntry = SymptomKnowledgeEntry> extends SymptomSpan {
+  name: string;
+  key: string;
+  negated: boolean;
+  knowledge: K | null;
+}
+
+/**
+ * 按症状名合并后的匹配结果
+ */
+export interface MatchedSymptom<K extends SymptomKnowledgeEntry = SymptomKnowledgeEntry> {
+  name: string;
+  key: string;
+  knowledge: K | null;
+  spans: SymptomSpan[];
+}
+
+export interface SymptomMatchResult<K extends SymptomKnowledgeEntry = SymptomKnowledgeEntry> {
+  mentions: SymptomMention<K>[];
+  matchedSymptoms: MatchedSymptom<K>[];
+  negatedSymptoms: MatchedSymptom<K>[];
+}
+
+type TrieNode<K extends SymptomKnowledgeEntry> = {
+  children: Map<string, TrieNode<K>>;
+  entry?: SymptomDictionaryEntry<K>;
+};
+
+/**
+ * 知识库之外的常见全身/一般症状，保证无知识库条目时仍可识别
+ */
+export const GENERAL_SYMPTOM_TERMS = [
+  '发热', '咳嗽', '头痛', '头晕', '恶心', '呕吐', '腹痛', '腹泻',
+  '胸闷', '胸痛', '心悸', '气短', '乏力', '出汗', '失眠', '食欲减退',
+] as const;
+
+const NEGATION_CUES = ['否认', '没有', '未诉', '未见', '不伴', '无', '未'] as const;
+
+// 否定词与症状之间出现这些词时，否定作用域终止（如“无明显诱因出现腹痛”）
+const NEGATION_BREAKERS = ['诱因', '出现', '伴有', '伴', '但', '后', '感', '诉', '引起', '导致', '开始'] as const;
+
+const CLAUSE_DELIMITER = /[，,。；;！!？?\n]/u;
+
+const isAsciiWordChar = (ch: string | undefined): boolean => !!ch && /[a-z0-9_]/iu.test(ch);
+
+/**
+ * 将复合显示名拆分为独立症状词，如“咳嗽与咳痰”“尿频、尿急、尿痛”
+ */
+export function splitDisplayName(displayName: string): string[] {
+  return String(displayName || '')
+    .split(/[、，,/]|与|和|及/u)
+    .map(s => s.trim())
+    .filter(s => s.length >= 2);
+}
+
+/**
+ * 由知识库记录与同义词表构建词典
+ * 同一词条出现多次时，先登记者优先（知识库显示名 > 拆分词 > 同义词 > 一般症状）
+ */
+export function buildSymptomDictionary<K extends SymptomKnowledgeEntry>(knowledge: K[]): SymptomDictionaryEntry<K>[] {
+  const byKey = new Map(knowledge.map(k => [k.symptomKey, k]));
+  const findKnowledge = (key: string | undefined): K | null => {
+    if (!key) {return null;}
+    return byKey.get(SYMPTOM_KEY_ALIASES[key] || key) || byKey.get(key) || null;
+  };
+
+  const entries = new Map<string, SymptomDictionaryEntry<K>>();
+  const add = (term: string, name: string, record: K | null) => {
+    const t = String(term || '').trim().toLowerCase();
+    if (!t || entries.has(t)) {return;}
+    entries.set(t, { term: t, name, key: record?.symptomKey || name, knowledge: record });
+  };
+
+  for (const record of knowledge) {
+    add(record.displayName, record.displayName, record);
+    add(record.symptomKey, record.displayName, record);
+  }
+  for (const record of knowledge) {
+    for (const part of splitDisplayName(record.displayName)) {
+      add(part, part, record);
+    }
+  }
+  for (const [name, key] of Object.entries(SYMPTOM_NAME_TO_KEY)) {
+    add(name, name, findKnowledge(key));
+  }
+  for (const [term, canonical] of Object.entries(SYMPTOM_SYNONYMS)) {
+    const canonicalName = SYMPTOM_NAME_TO_KEY[canonical] ? canonical : term;
+    add(term, canonicalName, findKnowledge(SYMPTOM_NAME_TO_KEY[canonical] || canonical));
+  }
+  for (const term of GENERAL_SYMPTOM_TERMS) {
+    const record = knowledge.find(k => splitDisplayName(k.displayName).includes(term)) || null;
+    add(term, term, record);
+  }
+
+  return Array.from(entries.values());
+}
+
+/**
+ * 构建字典树
+ */
+export function buildSymptomTrie<K extends SymptomKnowledgeEntry>(entries: SymptomDictionaryEntry<K>[]): TrieNode<K> {
+  const root: TrieNode<K> = { children: new Map() };
+  for (const entry of entries) {
+    let node = root;
+    for (const ch of entry.term) {
+      let next = node.children.get(ch);
+      if (!next) {
+        next = { children: new Map() };
+        node.children.set(ch, next);
+      }
+      node = next;
+    }
+    node.entry = entry;
+  }
+  return root;
+}
+
+/**
+ * 判断 start 处的症状是否处于否定作用域内（同一分句内、否定词之后且未被转折/肯定词打断）
+ * occupied 为已识别的症状区间，其中的字符不视为否定词（如“无尿”中的“无”）
+ */
+export function isNegated(text: string, start: number, occupied: SymptomSpan[] = []): boolean {
+  let clauseStart = start;
+  while (clauseStart > 0 && !CLAUSE_DELIMITER.test(text[clauseStart - 1])) {clauseStart -= 1;}
+  let clause = text.slice(clauseStart, start);
+  for (const span of occupied) {
+    if (span.end <= clauseStart || span.start >= start) {continue;}
+    const from = Math.max(span.start, clauseStart) - clauseStart;
+    const to = Math.min(span.end, start) - clauseStart;
+    clause = clause.slice(0, from) + '\u0000'.repeat(to - from) + clause.slice(to);
+  }
+
+  let cueEnd = -1;
+  for (const cue of NEGATION_CUES) {
+    const idx = clause.lastIndexOf(cue);
+    if (idx >= 0 && idx + cue.length > cueEnd) {cueEnd = idx + cue.length;}
+  }
+  if (cueEnd < 0) {return false;}
+
+  const between = clause.slice(cueEnd);
+  return !NEGATION_BREAKERS.some(b => between.includes(b));
+}
+
+/**
+ * 在文本中查找所有症状提及
+ * 重叠命中按“最左最长”消解（如“偏头痛”优先于“头痛”，“恶心呕吐”优先于“恶心”）
+ */
+export function findSymptomMentions<K extends SymptomKnowledgeEntry>(text: string, trie: TrieNode<K>): SymptomMention<K>[] {
+  const source = String(text || '');
+  const lower = source.toLowerCase();
+  const mentions: SymptomMention<K>[] = [];
+
+  let i = 0;
+  while (i < lower.length) {
+    let node: TrieNode<K> | undefined = trie;
+    let best: { end: number; entry: SymptomDictionaryEntry<K> } | null = null;
+    for (let j = i; j < lower.length; j += 1) {
+      node = node.children.get(lower[j]);
+      if (!node) {break;}
+      if (node.entry) {
+        const ascii = /^[a-z0-9_]+$/u.test(node.entry.term);
+        // 英文 symptomKey 需完整单词命中，避免 "fever" 命中 "feverish"
+        if (!ascii || (!isAsciiWordChar(lower[i - 1]) && !isAsciiWordChar(lower[j + 1]))) {
+          best = { end: j + 1, entry: node.entry };
+        }
+      }
+    }
+
+    if (!best) {
+      i += 1;
+      continue;
+    }
+
+    mentions.push({
+      start: i,
+      end: best.end,
+      text: source.slice(i, best.end),
+      name: best.entry.name,
+      key: best.entry.key,
+      negated: isNegated(source, i, mentions),
+      knowledge: best.entry.knowledge,
+    });
+    i = best.end;
+  }
+
+  return mentions;
+}
+
+const groupMentions = <K extends SymptomKnowledgeEntry>(mentions: SymptomMention<K>[]): MatchedSymptom<K>[] => {
+  const grouped = new Map<string, MatchedSymptom<K>>();
+  for (const m of mentions) {
+    const span = { start: m.start, end: m.end, text: m.text };
+    const existing = grouped.get(m.name);
+    if (existing) {
+      existing.spans.push(span);
+    } else {
+      grouped.set(m.name, { name: m.name, key: m.key, knowledge: m.knowledge, spans: [span] });
+    }
+  }
+  return Array.from(grouped.values());
+};
+
+/**
+ * 从文本中抽取症状：返回全部提及，以及按症状合并后的阳性/阴性症状
+ * 同一症状既有阳性又有阴性提及时，以阳性为准
+ */
+export function matchSymptoms<K extends SymptomKnowledgeEntry>(text: string, knowledge: K[]): SymptomMatchResult<K> {
+  const trie = buildSymptomTrie(buildSymptomDictionary(knowledge));
+  const mentions = findSymptomMentions(text, trie);
+  const matchedSymptoms = groupMentions(mentions.filter(m => !m.negated));
+  const positive = new Set(matchedSymptoms.map(s => s.name));
+  const negatedSymptoms = groupMentions(mentions.filter(m => m.negated && !positive.has(m.name)));
+  return { mentions, matchedSymptoms, negatedSymptoms };
+}
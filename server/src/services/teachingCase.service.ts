@@ -0,0 +1,292 @@
+/**
+ * 教学病例库
+ * 独立于真实患者的标准病例（情景、患者基本信息、标准病史、预期诊断与教学要点），
+ * 教师维护并以带版本的 JSON 病例包在院校间导入导出；学生可由病例开始练习会话
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import prisma from '../prisma';
+import { Prisma } from '@prisma/client';
+import { ErrorTypes, rethrowPrismaError } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import type { OperatorIdentity } from '../middleware/auth';
+import { TeachingCaseSchemas } from '../validators';
+
+export type TeachingCaseActor = Pick<OperatorIdentity, 'operatorId' | 'role'>;
+
+export type TeachingCaseInput = z.infer<typeof TeachingCaseSchemas.create>;
+export type TeachingCaseUpdateInput = z.infer<typeof TeachingCaseSchemas.update>;
+export type TeachingCaseBundleItem = z.infer<typeof TeachingCaseSchemas.bundleCase>;
+
+export const TEACHING_CASE_BUNDLE_FORMAT = 'msia-teaching-cases';
+// 病例包结构版本；结构变化时递增，导入时拒绝更高版本的包
+export const TEACHING_CASE_BUNDLE_VERSION = 1;
+
+export interface TeachingCaseBundle {
+  format: typeof TEACHING_CASE_BUNDLE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  cases: TeachingCaseBundleItem[];
+}
+
+export interface TeachingCaseImportResult {
+  total: number;
+  created: string[];
+  updated: string[];
+  // 本地版本不低于病例包中版本而未覆盖的病例
+  skipped: string[];
+  dryRun: boolean;
+}
+
+const SUMMARY_SELECT = {
+  id: true,
+  code: true,
+  title: true,
+  scenario: true,
+  demographics: true,
+  version: true,
+  createdBy: true,
+  updatedAt: true,
+} satisfies Prisma.TeachingCaseSelect;
+
+const PRISMA_ERROR_MESSAGES = { notFound: '教学病例', conflict: '病例编码已存在' };
+
+const canEditCases = (actor: TeachingCaseActor): boolean => actor.role === 'admin' || actor.role === 'teacher';
+
+/**
+ * 教师只能修改自己创建的病例（管理员不限）
+ */
+const assertCaseEditor = (actor: TeachingCaseActor, teachingCase: { createdBy: number | null }): void => {
+  if (actor.role === 'admin') {return;}
+  if (actor.role !== 'teacher' || teachingCase.createdBy !== actor.operatorId) {
+    throw ErrorTypes.Forbidden('只能修改自己创建的教学病例');
+  }
+};
+
+const getCaseOrThrow = async (id: number) => {
+  const teachingCase = await prisma.teachingCase.findUnique({ where: { id } });
+  if (!teachingCase) {throw ErrorTypes.NotFound('教学病例');}
+  return teachingCase;
+};
+
+/**
+ * 病例列表（不含标准病史与预期诊断）
+ */
+export const listCases = async (query: { keyword?: string } = {}) => {
+  return await prisma.teachingCase.findMany({
+    where: query.keyword ? { title: { contains: query.keyword, mode: 'insensitive' } } : {},
+    select: SUMMARY_SELECT,
+    orderBy: { updatedAt: 'desc' },
+  });
+};
+
+/**
+ * 病例详情；标准病史、预期诊断与教学要点仅教师和管理员可见
+ */
+export const getCase = async (id: number, actor: TeachingCaseActor) => {
+  const teachingCase = await getCaseOrThrow(id);
+  if (canEditCases(actor)) {return teachingCase;}
+  const { history: _history, expectedDiagnosis: _diagnosis, teachingPoints: _points, ...visible } = teachingCase;
+  return visible;
+};
+
+export const createCase = async (actor: TeachingCaseActor, input: TeachingCaseInput) => {
+  try {
+    const teachingCase = await prisma.teachingCase.create({
+      data: {
+        ...input,
+        code: input.code || `tc-${crypto.randomUUID().slice(0, 8)}`,
+        history: input.history as Prisma.InputJsonValue,
+        createdBy: actor.operatorId || null,
+      },
+    });
+    secureLogger.info('[TeachingCase] 创建教学病例', { id: teachingCase.id, operatorId: actor.operatorId });
+    return teachingCase;
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 更新病例，版本号递增
+ */
+export const updateCase = async (id: number, actor: TeachingCaseActor, input: TeachingCaseUpdateInput) => {
+  assertCaseEditor(actor, await getCaseOrThrow(id));
+  try {
+    return await prisma.teachingCase.update({
+      where: { id },
+      data: {
+        ...input,
+        history: input.history as Prisma.InputJsonValue | undefined,
+        version: { increment: 1 },
+      },
+    });
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 删除病例；已开始的练习会话保留，仅解除关联
+ */
+export const deleteCase = async (id: number, actor: TeachingCaseActor): Promise<void> => {
+  assertCaseEditor(actor, await getCaseOrThrow(id));
+  try {
+    await prisma.teachingCase.delete({ where: { id } });
+  } catch (error) {
+    rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+};
+
+/**
+ * 导出病例包；ids 为空时导出全部
+ */
+export const exportCases = async (ids?: number[], now: Date = new Date()): Promise<TeachingCaseBundle> => {
+  const cases = await prisma.teachingCase.findMany({
+    where: ids && ids.length > 0 ? { id: { in: ids } } : {},
+    orderBy: { code: 'asc' },
+  });
+  return {
+    format: TEACHING_CASE_BUNDLE_FORMAT,
+    formatVersion: TEACHING_CASE_BUNDLE_VERSION,
+    exportedAt: now.toISOString(),
+    cases: cases.map(c => ({
+      code: c.code,
+      title: c.title,
+      scenario: c.scenario,
+      demographics: c.demographics as TeachingCaseBundleItem['demographics'],
+      history: c.history as TeachingCaseBundleItem['history'],
+      expectedDiagnosis: c.expectedDiagnosis,
+      teachingPoints: Array.isArray(c.teachingPoints) ? c.teachingPoints.map(String) : [],
+      version: c.version,
+    })),
+  };
+};
+
+/**
+ * 解析并校验病例包
+ */
+export const parseBundle = (content: string): TeachingCaseBundleItem[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw ErrorTypes.ValidationError('JSON 格式错误');
+  }
+  const bundle = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof TeachingCaseBundle, unknown>>;
+  if (bundle.format !== TEACHING_CASE_BUNDLE_FORMAT) {throw ErrorTypes.ValidationError('不是教学病例包');}
+  const formatVersion = Number(bundle.formatVersion);
+  if (!Number.isInteger(formatVersion) || formatVersion < 1 || formatVersion > TEACHING_CASE_BUNDLE_VERSION) {
+    throw ErrorTypes.ValidationError(`不支持的病例包版本: ${String(bundle.formatVersion)}`);
+  }
+  if (!Array.isArray(bundle.cases) || bundle.cases.length === 0) {
+    throw ErrorTypes.ValidationError('病例包中没有病例');
+  }
+
+  const cases = bundle.cases.map((entry, i) => {
+    const result = TeachingCaseSchemas.bundleCase.safeParse(entry);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const label = (entry as { code?: unknown })?.code || `#${i + 1}`;
+      throw ErrorTypes.ValidationError(`病例 ${String(label)}: ${issue.path.join('.') || '(root)'} ${issue.message}`);
+    }
+    return result.data;
+  });
+
+  const codes = cases.map(c => c.code);
+  const duplicated = codes.filter((c, i) => codes.indexOf(c) !== i);
+  if (duplicated.length > 0) {
+    throw ErrorTypes.ValidationError(`病例包中病例编码重复: ${Array.from(new Set(duplicated)).join(', ')}`);
+  }
+  return cases;
+};
+
+/**
+ * 导入病例包：按编码新增，本地已有且病例包版本更新时覆盖，全部成功或全部回滚
+ * dryRun 时仅校验并返回将要新增/覆盖/跳过的病例
+ */
+export const importCases = async (
+  actor: TeachingCaseActor,
+  content: string,
+  dryRun = false
+): Promise<TeachingCaseImportResult> => {
+  const cases = parseBundle(content);
+  const existing = await prisma.teachingCase.findMany({
+    where: { code: { in: cases.map(c => c.code) } },
+    select: { id: true, code: true, version: true, createdBy: true },
+  });
+  const byCode = new Map(existing.map(c => [c.code, c]));
+
+  const result: TeachingCaseImportResult = { total: cases.length, created: [], updated: [], skipped: [], dryRun };
+  for (const c of cases) {
+    const local = byCode.get(c.code);
+    if (!local) {result.created.push(c.code);}
+    else if (c.version > local.version) {
+      assertCaseEditor(actor, local);
+      result.updated.push(c.code);
+    } else {result.skipped.push(c.code);}
+  }
+  if (dryRun) {return result;}
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      for (const c of cases) {
+        const data = { ...c, history: c.history as Prisma.InputJsonValue };
+        if (result.created.includes(c.code)) {
+          await tx.teachingCase.create({ data: { ...data, createdBy: actor.operatorId || null } });
+        } else if (result.updated.includes(c.code)) {
+          await tx.teachingCase.update({ where: { code: c.code }, data });
+        }
+      }
+    });
+  } catch (error) {
+    return rethrowPrismaError(error, PRISMA_ERROR_MESSAGES);
+  }
+  secureLogger.info('[TeachingCase] 导入教学病例包', {
+    created: result.created.length,
+    updated: result.updated.length,
+    skipped: result.skipped.length,
+    operatorId: actor.operatorId,
+  });
+  return result;
+};
+
+/**
+ * 以病例开始练习会话：按病例患者信息创建模拟患者（不计入患者列表），会话病史留空由学生采集
+ */
+export const startPractice = async (
+  id: number,
+  actor: TeachingCaseActor,
+  now: Date = new Date()
+): Promise<{ sessionId: number; patientId: number }> => {
+  const teachingCase = await getCaseOrThrow(id);
+  const demographics = TeachingCaseSchemas.create.shape.demographics.parse(teachingCase.demographics);
+  const birthDate = new Date(Date.UTC(now.getUTCFullYear() - demographics.age, now.getUTCMonth(), now.getUTCDate()));
+
+  const session = await prisma.$transaction(async (tx) => {
+    const patient = await tx.patient.create({
+      data: {
+        name: demographics.name,
+        gender: demographics.gender,
+        birthDate,
+        ethnicity: demographics.ethnicity,
+        occupation: demographics.occupation,
+        nativePlace: demographics.nativePlace,
+        isSimulated: true,
+      },
+    });
+    return await tx.interviewSession.create({
+      data: {
+        patientId: patient.id,
+        doctorId: actor.operatorId > 0 ? actor.operatorId : null,
+        teachingCaseId: teachingCase.id,
+        status: 'draft',
+        generalInfo: { recordTime: now.toISOString() },
+      },
+      select: { id: true, patientId: true },
+    });
+  });
+  secureLogger.info('[TeachingCase] 由教学病例开始练习', { caseId: id, sessionId: session.id, operatorId: actor.operatorId });
+  return { sessionId: session.id, patientId: session.patientId };
+};
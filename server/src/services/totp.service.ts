@@ -0,0 +1,221 @@
+/**
+ * TOTP 两步验证
+ * 绑定：生成密钥（待验证）→ 校验首个动态码后启用并下发恢复码；
+ * 登录：密码通过后签发短期挑战凭证，凭动态码或恢复码换取登录会话
+ */
+
+import crypto from 'crypto';
+import prisma from '../prisma';
+import { totpConfig } from '../config';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { decrypt, encrypt } from '../utils/encryption';
+import { getRedisClient } from '../utils/redis-client';
+import { secureLogger } from '../utils/secureLogger';
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+export interface TotpStatus {
+  enabled: boolean;
+  // 已生成密钥但尚未校验首个动态码
+  pending: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export type SecondFactor = { code?: string; recoveryCode?: string };
+
+export interface TotpChallenge {
+  operatorId: number;
+  role: string;
+  username: string;
+}
+
+const challengeByHash = new Map<string, TotpChallenge & { expiresAt: number }>();
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toUpperCase();
+
+const sealSecret = (secret: string) => JSON.stringify(encrypt(secret));
+const openSecret = (sealed: string) => decrypt(JSON.parse(sealed) as Parameters<typeof decrypt>[0]);
+
+const loadTotp = async (operatorId: number) => {
+  const operator = await prisma.operator.findUnique({
+    where: { id: operatorId },
+    select: { id: true, username: true, totpSecret: true, totpEnabledAt: true, totpLastStep: true },
+  });
+  if (!operator) {throw ErrorTypes.NotFound('用户');}
+  return operator;
+};
+
+/**
+ * 生成一组新的恢复码并替换旧恢复码，明文仅在此返回一次
+ */
+const replaceRecoveryCodes = async (operatorId: number): Promise<string[]> => {
+  const codes = Array.from({ length: totpConfig.recoveryCodeCount }, () => {
+    const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  await prisma.$transaction([
+    prisma.totpRecoveryCode.deleteMany({ where: { operatorId } }),
+    prisma.totpRecoveryCode.createMany({
+      data: codes.map(code => ({ operatorId, codeHash: sha256(normalizeRecoveryCode(code)) })),
+    }),
+  ]);
+  return codes;
+};
+
+export async function getTotpStatus(operatorId: number): Promise<TotpStatus> {
+  const operator = await loadTotp(operatorId);
+  const recoveryCodesRemaining = operator.totpEnabledAt
+    ? await prisma.totpRecoveryCode.count({ where: { operatorId, usedAt: null } })
+    : 0;
+  return {
+    enabled: Boolean(operator.totpEnabledAt),
+    pending: Boolean(operator.totpSecret) && !operator.totpEnabledAt,
+    enabledAt: operator.totpEnabledAt,
+    recoveryCodesRemaining,
+  };
+}
+
+/**
+ * 生成待验证的密钥；已启用时需先停用
+ */
+export async function beginTotpSetup(operatorId: number): Promise<TotpSetup> {
+  const operator = await loadTotp(operatorId);
+  if (operator.totpEnabledAt) {throw ErrorTypes.Conflict('两步验证已启用，如需更换请先停用');}
+
+  const secret = generateTotpSecret();
+  await prisma.operator.update({
+    where: { id: operatorId },
+    data: { totpSecret: sealSecret(secret), totpLastStep: null },
+  });
+  return { secret, otpauthUri: buildOtpauthUri(secret, operator.username || String(operatorId), totpConfig.issuer) };
+}
+
+/**
+ * 校验首个动态码后启用，返回恢复码
+ */
+export async function enableTotp(operatorId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+  const operator = await loadTotp(operatorId);
+  if (operator.totpEnabledAt) {throw ErrorTypes.Conflict('两步验证已启用');}
+  if (!operator.totpSecret) {throw ErrorTypes.Conflict('请先生成两步验证密钥');}
+
+  const step = verifyTotp(openSecret(operator.totpSecret), code);
+  if (step === null) {throw ErrorTypes.BadRequest('动态验证码错误');}
+
+  await prisma.operator.update({
+    where: { id: operatorId },
+    data: { totpEnabledAt: new Date(), totpLastStep: step },
+  });
+  const recoveryCodes = await replaceRecoveryCodes(operatorId);
+  secureLogger.logSecurity('TOTP_ENABLED', { operatorId });
+  return { recoveryCodes };
+}
+
+/**
+ * 校验动态码或恢复码，返回通过的方式；同一时间步的动态码与已用恢复码不能重复使用
+ */
+export async function verifySecondFactor(
+  operatorId: number,
+  factor: SecondFactor
+): Promise<'totp' | 'recovery_code' | null> {
+  const operator = await loadTotp(operatorId);
+  if (!operator.totpEnabledAt || !operator.totpSecret) {return null;}
+
+  if (factor.code) {
+    const step = verifyTotp(openSecret(operator.totpSecret), factor.code);
+    if (step === null || (operator.totpLastStep !== null && step <= operator.totpLastStep)) {return null;}
+    // 条件更新：并发提交同一动态码时只有一个请求能推进时间步
+    const { count } = await prisma.operator.updateMany({
+      where: { id: operatorId, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step },
+    });
+    if (count === 0) {return null;}
+    return 'totp';
+  }
+
+  if (factor.recoveryCode) {
+    const { count } = await prisma.totpRecoveryCode.updateMany({
+      where: { operatorId, codeHash: sha256(normalizeRecoveryCode(factor.recoveryCode)), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count === 0) {return null;}
+    secureLogger.logSecurity('TOTP_RECOVERY_CODE_USED', { operatorId });
+    return 'recovery_code';
+  }
+
+  return null;
+}
+
+export async function disableTotp(operatorId: number, factor: SecondFactor): Promise<void> {
+  if (!(await verifySecondFactor(operatorId, factor))) {throw ErrorTypes.BadRequest('动态验证码或恢复码错误');}
+  await prisma.$transaction([
+    prisma.operator.update({
+      where: { id: operatorId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    }),
+    prisma.totpRecoveryCode.deleteMany({ where: { operatorId } }),
+  ]);
+  secureLogger.logSecurity('TOTP_DISABLED', { operatorId });
+}
+
+export async function regenerateRecoveryCodes(operatorId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+  if ((await verifySecondFactor(operatorId, { code })) !== 'totp') {throw ErrorTypes.BadRequest('动态验证码错误');}
+  return { recoveryCodes: await replaceRecoveryCodes(operatorId) };
+}
+
+/**
+ * 密码验证通过后签发登录挑战凭证
+ */
+export async function issueTotpChallenge(challenge: TotpChallenge): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const key = sha256(token);
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      await redis.set(`auth:totp:challenge:${key}`, JSON.stringify(challenge), { PX: totpConfig.challengeTtlMs });
+      return token;
+    } catch {
+      secureLogger.warn('[TotpService] Redis 写入失败，将使用内存兜底');
+    }
+  }
+  challengeByHash.set(key, { ...challenge, expiresAt: Date.now() + totpConfig.challengeTtlMs });
+  return token;
+}
+
+export async function getTotpChallenge(token: string): Promise<TotpChallenge | null> {
+  const key = sha256(token);
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      const raw = await redis.get(`auth:totp:challenge:${key}`);
+      if (raw) {return JSON.parse(raw) as TotpChallenge;}
+    } catch {
+      secureLogger.warn('[TotpService] Redis 读取失败，将尝试内存兜底');
+    }
+  }
+  const mem = challengeByHash.get(key);
+  if (!mem || Date.now() >= mem.expiresAt) {
+    challengeByHash.delete(key);
+    return null;
+  }
+  return { operatorId: mem.operatorId, role: mem.role, username: mem.username };
+}
+
+export async function deleteTotpChallenge(token: string): Promise<void> {
+  const key = sha256(token);
+  const redis = await getRedisClient();
+  if (redis) {
+    try {
+      await redis.del(`auth:totp:challenge:${key}`);
+    } catch {
+      secureLogger.warn('[TotpService] Redis 删除失败，将继续清理内存兜底');
+    }
+  }
+  challengeByHash.delete(key);
+}
@@ -0,0 +1,289 @@
+/**
+ * 虚拟标准化病人问诊服务
+ * 读取 sp_cases 目录下的病例文件，记录学生与虚拟病人的问答，
+ * 结束时将问到的内容补入会话病历并保存必问问题的提问覆盖得分
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import prisma from '../prisma';
+import { fileConfig } from '../config';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { secureLogger } from '../utils/secureLogger';
+import { canAccessSession, isLockedForActor, type ReviewActor } from './sessionReview.service';
+import { loadSymptomKnowledge } from './sessionGrading.service';
+import { mainSymptomOf } from './sessionGrading';
+import * as sessionService from './session.service';
+import {
+  SpCaseSchema,
+  answerQuestion,
+  buildSessionPatch,
+  scoreCoverage,
+  type SpCase,
+  type SpCoverage,
+  type SpIntent,
+  type SpSessionPatch,
+  type SpTurn,
+} from './virtualPatient';
+
+export interface SpCaseSummary {
+  id: string;
+  title: string;
+  patient: { name: string; gender: string; age: number };
+  chiefComplaint: string;
+}
+
+export interface SpConversationState {
+  id: number;
+  sessionId: number;
+  caseId: string;
+  status: string;
+  opening: string;
+  score: number | null;
+  result: SpFinishResult | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+  messages: Array<{ id: number; question: string; answer: string; createdAt: Date }>;
+}
+
+export interface SpFinishResult {
+  coverage: SpCoverage;
+  // 本次补入病历的字段路径（原本已有内容的字段不覆盖）
+  filledFields: string[];
+}
+
+const resolveCaseDir = (): string => path.resolve(fileConfig.spCaseDir);
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const isEmptyValue = (value: unknown): boolean => {
+  if (Array.isArray(value)) {return value.length === 0;}
+  if (value && typeof value === 'object') {return Object.values(value).every(isEmptyValue);}
+  return String(value ?? '').trim() === '';
+};
+
+/**
+ * 读取全部病例文件；格式错误的文件记录日志后跳过
+ */
+const loadCases = async (): Promise<SpCase[]> => {
+  const dir = resolveCaseDir();
+  let files: string[];
+  try {
+    files = (await fs.promises.readdir(dir)).filter(f => f.endsWith('.json')).sort();
+  } catch (error) {
+    secureLogger.warn('[VirtualPatient] 病例目录不可读', { dir, error: error instanceof Error ? error.message : String(error) });
+    return [];
+  }
+
+  const cases: SpCase[] = [];
+  for (const file of files) {
+    try {
+      const raw = await fs.promises.readFile(path.join(dir, file), 'utf-8');
+      const parsed = SpCaseSchema.safeParse(JSON.parse(raw));
+      if (!parsed.success) {
+        throw new Error(parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; '));
+      }
+      cases.push(parsed.data);
+    } catch (error) {
+      secureLogger.warn('[VirtualPatient] 病例文件无效', { file, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return cases;
+};
+
+const getCaseOrThrow = async (caseId: string): Promise<SpCase> => {
+  const spCase = (await loadCases()).find(c => c.id === caseId);
+  if (!spCase) {throw ErrorTypes.NotFound('病例');}
+  return spCase;
+};
+
+/**
+ * 病例列表（不含病人事实）
+ */
+export const listCases = async (): Promise<SpCaseSummary[]> =>
+  (await loadCases()).map(c => ({
+    id: c.id,
+    title: c.title,
+    patient: { name: c.patient.name, gender: c.patient.gender, age: c.patient.age },
+    chiefComplaint: c.chiefComplaint.text,
+  }));
+
+const loadSessionForActor = async (sessionId: number, actor: ReviewActor, options: { write: boolean }) => {
+  const session = await prisma.interviewSession.findUnique({
+    where: { id: sessionId },
+    select: {
+      id: true,
+      status: true,
+      doctorId: true,
+      reviewerId: true,
+      chiefComplaint: true,
+      presentIllness: true,
+      pastHistory: true,
+      personalHistory: true,
+      familyHistory: true,
+    },
+  });
+  if (!session) {throw ErrorTypes.NotFound('会话');}
+  if (!canAccessSession(actor, session)) {throw ErrorTypes.Forbidden('无权访问该会话');}
+  if (options.write && isLockedForActor(actor, session.status)) {
+    throw ErrorTypes.Conflict('病历已提交审核，不能继续问诊');
+  }
+  return session;
+};
+
+const toState = (
+  conversation: Prisma.SpConversationGetPayload<{ include: { messages: true } }>,
+  spCase: SpCase | null
+): SpConversationState => ({
+  id: conversation.id,
+  sessionId: conversation.sessionId,
+  caseId: conversation.caseId,
+  status: conversation.status,
+  opening: spCase?.opening ?? '',
+  score: conversation.score,
+  result: conversation.result as unknown as SpFinishResult | null,
+  startedAt: conversation.startedAt,
+  finishedAt: conversation.finishedAt,
+  messages: conversation.messages.map(m => ({ id: m.id, question: m.question, answer: m.answer, createdAt: m.createdAt })),
+});
+
+const findActiveConversation = (sessionId: number) =>
+  prisma.spConversation.findFirst({
+    where: { sessionId, status: 'active' },
+    include: { messages: { orderBy: { createdAt: 'asc' } } },
+  });
+
+/**
+ * 开始虚拟病人问诊；同一会话同时只能有一个进行中的对话
+ */
+export const startConversation = async (sessionId: number, actor: ReviewActor, caseId: string): Promise<SpConversationState> => {
+  await loadSessionForActor(sessionId, actor, { write: true });
+  const spCase = await getCaseOrThrow(caseId);
+  if (await findActiveConversation(sessionId)) {throw ErrorTypes.Conflict('该会话已有进行中的虚拟病人问诊');}
+
+  const conversation = await prisma.spConversation.create({
+    data: { sessionId, caseId, operatorId: actor.operatorId || null },
+    include: { messages: true },
+  });
+  secureLogger.info('[VirtualPatient] 开始虚拟病人问诊', { sessionId, caseId, operatorId: actor.operatorId });
+  return toState(conversation, spCase);
+};
+
+/**
+ * 会话最近一次虚拟病人问诊，没有时返回 null
+ */
+export const getConversation = async (sessionId: number, actor: ReviewActor): Promise<SpConversationState | null> => {
+  await loadSessionForActor(sessionId, actor, { write: false });
+  const conversation = await prisma.spConversation.findFirst({
+    where: { sessionId },
+    orderBy: { startedAt: 'desc' },
+    include: { messages: { orderBy: { createdAt: 'asc' } } },
+  });
+  if (!conversation) {return null;}
+  const spCase = (await loadCases()).find(c => c.id === conversation.caseId) ?? null;
+  return toState(conversation, spCase);
+};
+
+const loadCaseKnowledge = async (spCase: SpCase) => {
+  const { knowledge, dictionary } = await loadSymptomKnowledge(mainSymptomOf(spCase.chiefComplaint)?.key);
+  return { requiredQuestions: knowledge?.requiredQuestions ?? [], dictionary };
+};
+
+const getActiveOrThrow = async (sessionId: number) => {
+  const conversation = await findActiveConversation(sessionId);
+  if (!conversation) {throw ErrorTypes.Conflict('该会话没有进行中的虚拟病人问诊');}
+  return conversation;
+};
+
+/**
+ * 向虚拟病人提问并记录问答
+ */
+export const askQuestion = async (sessionId: number, actor: ReviewActor, question: string) => {
+  await loadSessionForActor(sessionId, actor, { write: true });
+  const conversation = await getActiveOrThrow(sessionId);
+  const spCase = await getCaseOrThrow(conversation.caseId);
+  const reply = answerQuestion(question, spCase, await loadCaseKnowledge(spCase));
+
+  const message = await prisma.spMessage.create({
+    data: {
+      conversationId: conversation.id,
+      question,
+      answer: reply.answer,
+      intents: reply.intents,
+      symptoms: reply.symptoms,
+    },
+  });
+  return { id: message.id, question: message.question, answer: message.answer, createdAt: message.createdAt };
+};
+
+/**
+ * 只补入会话中仍为空的字段，返回合并后的分节与补入的字段路径
+ */
+const mergePatch = (
+  session: Record<keyof SpSessionPatch, unknown>,
+  patch: SpSessionPatch
+): { data: Record<string, Prisma.InputJsonValue>; filledFields: string[] } => {
+  const data: Record<string, Prisma.InputJsonValue> = {};
+  const filledFields: string[] = [];
+  for (const section of Object.keys(patch) as Array<keyof SpSessionPatch>) {
+    const current = session[section] && typeof session[section] === 'object' && !Array.isArray(session[section])
+      ? (session[section] as Record<string, unknown>)
+      : {};
+    // 主诉整体补入，避免与已有主诉文本拼出不一致的病程
+    if (section === 'chiefComplaint') {
+      if (isEmptyValue(current.text)) {
+        data[section] = { ...current, ...patch[section] } as Prisma.InputJsonValue;
+        filledFields.push(section);
+      }
+      continue;
+    }
+    const merged = { ...current };
+    for (const [key, value] of Object.entries(patch[section])) {
+      if (!isEmptyValue(current[key])) {continue;}
+      merged[key] = value;
+      if (key !== 'narrativeSource') {filledFields.push(`${section}.${key}`);}
+    }
+    if (filledFields.some(f => f.startsWith(`${section}.`))) {data[section] = merged as Prisma.InputJsonValue;}
+  }
+  return { data, filledFields };
+};
+
+/**
+ * 结束问诊：将问到的内容补入病历，统计必问问题覆盖并保存
+ */
+export const finishConversation = async (sessionId: number, actor: ReviewActor): Promise<SpConversationState> => {
+  const session = await loadSessionForActor(sessionId, actor, { write: true });
+  const conversation = await getActiveOrThrow(sessionId);
+  const spCase = await getCaseOrThrow(conversation.caseId);
+  const { requiredQuestions, dictionary } = await loadCaseKnowledge(spCase);
+
+  const turns: SpTurn[] = conversation.messages.map(m => ({
+    question: m.question,
+    intents: toStringArray(m.intents) as SpIntent[],
+    symptoms: toStringArray(m.symptoms),
+  }));
+  const { data, filledFields } = mergePatch(session, buildSessionPatch(spCase, turns));
+  if (Object.keys(data).length > 0) {await sessionService.updateSession(sessionId, data, actor.operatorId);}
+
+  const coverage = scoreCoverage(spCase, turns, requiredQuestions, dictionary);
+  const result: SpFinishResult = { coverage, filledFields };
+  const finished = await prisma.spConversation.update({
+    where: { id: conversation.id },
+    data: {
+      status: 'finished',
+      score: coverage.score,
+      result: result as unknown as Prisma.InputJsonValue,
+      finishedAt: new Date(),
+    },
+    include: { messages: { orderBy: { createdAt: 'asc' } } },
+  });
+  secureLogger.info('[VirtualPatient] 虚拟病人问诊结束', {
+    sessionId,
+    caseId: conversation.caseId,
+    score: coverage.score,
+    filled: filledFields.length,
+  });
+  return toState(finished, spCase);
+};
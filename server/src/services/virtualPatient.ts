@@ -0,0 +1,308 @@
+/**
+ * 虚拟标准化病人
+ * 按病例文件中的病人事实回答学生的问诊提问：先识别提问涉及的症状，再按问诊意图规则匹配，
+ * 均未命中时与主症状知识库必问问题做相似度匹配并沿用该问题的意图；
+ * 结束时由已问到的事实生成病历内容，并统计必问问题的提问覆盖
+ */
+
+import { z } from 'zod';
+import { ensureSentenceEnd } from './hpiNarrative';
+import { toFindingKeys } from './sessionFindings';
+import { matchSymptoms, type SymptomKnowledgeEntry } from './symptomMatcher';
+
+export const SP_INTENTS = [
+  'identity',
+  'onset',
+  'location',
+  'radiation',
+  'quality',
+  'pattern',
+  'trigger',
+  'relief',
+  'treatment',
+  'general',
+  'pastHistory',
+  'allergy',
+  'personalHistory',
+  'familyHistory',
+  'menstrualHistory',
+] as const;
+export type SpIntent = (typeof SP_INTENTS)[number];
+
+const SpFactSchema = z.object({
+  // 病人口吻的回答
+  answer: z.string().min(1),
+  // 写入病历时使用的书面表述，缺省时不参与自动填写
+  record: z.string().optional(),
+});
+
+/**
+ * 病例文件结构
+ */
+export const SpCaseSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'id 只能包含小写字母、数字、下划线和连字符'),
+  title: z.string().min(1, 'title 不能为空'),
+  patient: z.object({
+    name: z.string().min(1),
+    gender: z.enum(['男', '女']),
+    age: z.number().int().min(0).max(150),
+    occupation: z.string().optional(),
+  }),
+  chiefComplaint: z.object({
+    symptom: z.string().min(1),
+    text: z.string().min(1),
+    durationNum: z.number().positive(),
+    durationUnit: z.enum(['分钟', '小时', '天', '周', '月', '年']),
+  }),
+  // 开始问诊时病人的第一句话
+  opening: z.string().min(1),
+  facts: z.partialRecord(z.enum(SP_INTENTS), SpFactSchema).default({}),
+  symptoms: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        present: z.boolean(),
+        answer: z.string().optional(),
+        record: z.string().optional(),
+      })
+    )
+    .default([]),
+  fallback: z.string().default('这个我说不太清楚。'),
+});
+
+export type SpCase = z.infer<typeof SpCaseSchema>;
+
+export interface SpClassification {
+  intents: SpIntent[];
+  // 提问涉及的症状名（不含主症状）
+  symptoms: string[];
+}
+
+export interface SpReply extends SpClassification {
+  answer: string;
+}
+
+/**
+ * 已记录的一问一答（结束时用于生成病历与统计覆盖）
+ */
+export interface SpTurn extends SpClassification {
+  question: string;
+}
+
+export interface SpCoverageItem {
+  question: string;
+  asked: boolean;
+}
+
+export interface SpCoverage {
+  score: number | null;
+  asked: number;
+  total: number;
+  items: SpCoverageItem[];
+}
+
+export interface SpSessionPatch {
+  chiefComplaint: Record<string, unknown>;
+  presentIllness: Record<string, unknown>;
+  pastHistory: Record<string, unknown>;
+  personalHistory: Record<string, unknown>;
+  familyHistory: Record<string, unknown>;
+}
+
+// 问诊意图规则；同一提问可命中多条（如“哪里痛，会不会往别处跑”）
+const INTENT_RULES: Array<[SpIntent, RegExp]> = [
+  ['identity', /名字|姓名|叫什么|多大|几岁|年龄|职业|做什么工作/u],
+  ['allergy', /过敏/u],
+  ['familyHistory', /家族|家里人|家人|父亲|母亲|父母|兄弟|姐妹|遗传/u],
+  ['menstrualHistory', /月经|例假|经期|末次/u],
+  ['personalHistory', /吸烟|抽烟|饮酒|喝酒|烟酒|生活习惯|疫区|居住/u],
+  ['pastHistory', /以前|既往|过去|得过|病史|手术|外伤|住过院|高血压|糖尿病|心脏病/u],
+  ['treatment', /治疗|用药|用过|吃过.{0,2}药|吃.{0,2}什么药|服药|看过医生|就诊|打针|输液/u],
+  ['radiation', /放射|牵涉|传到|窜到|串到|别的地方|蔓延/u],
+  ['relief', /缓解|减轻|好转|好一点|好些|舒服一点/u],
+  ['trigger', /诱因|诱发|加重|引起|什么情况下|进食|进餐|吃饭|饭后|餐后|油腻|喝酒后/u],
+  ['onset', /什么时候|多久|多长时间|几天|开始|起病|突然|慢慢/u],
+  ['location', /部位|位置|哪里|哪儿|哪个地方|什么地方|哪边/u],
+  ['quality', /性质|什么样|怎么个|感觉|程度|多厉害|严重|绞痛|胀痛|刺痛|隐痛|钝痛/u],
+  ['pattern', /持续|阵发|一阵|间歇|一直|频率|反复|发作/u],
+  ['general', /精神|睡眠|睡得|食欲|胃口|大小便|大便|小便|体重|力气/u],
+];
+
+// 病历叙述中现病史各意图的先后顺序
+const NARRATIVE_ORDER: SpIntent[] = ['onset', 'trigger', 'location', 'radiation', 'quality', 'pattern', 'relief'];
+
+// 提问的字符二元组在必问问题中出现的比例达到此值时视为同一问题
+const SIMILARITY_THRESHOLD = 0.5;
+
+const bigramsOf = (text: string): Set<string> => {
+  const chars = Array.from(text.replace(/[^\p{Script=Han}a-z0-9]/giu, ''));
+  const grams = new Set<string>();
+  for (let i = 0; i < chars.length - 1; i++) {grams.add(chars[i] + chars[i + 1]);}
+  return grams;
+};
+
+/**
+ * 提问与必问问题的相似度：提问的字符二元组被必问问题包含的比例
+ */
+export const textSimilarity = (question: string, reference: string): number => {
+  const gq = bigramsOf(question);
+  const gr = bigramsOf(reference);
+  if (gq.size === 0 || gr.size === 0) {return 0;}
+  let shared = 0;
+  gq.forEach(g => { if (gr.has(g)) {shared++;} });
+  return shared / gq.size;
+};
+
+/**
+ * 按意图规则识别问诊意图
+ */
+export const intentsOf = (text: string): SpIntent[] =>
+  INTENT_RULES.filter(([, pattern]) => pattern.test(text)).map(([intent]) => intent);
+
+const sameSymptom = (a: string, b: string): boolean => {
+  if (a === b) {return true;}
+  const kb = toFindingKeys(b);
+  return toFindingKeys(a).some(k => kb.includes(k));
+};
+
+/**
+ * 提问中涉及的症状：知识库词典与病例症状表中的名称，排除主症状
+ */
+const symptomsIn = (text: string, spCase: SpCase, dictionary: SymptomKnowledgeEntry[]): string[] => {
+  const main = spCase.chiefComplaint.symptom;
+  const names: string[] = [];
+  const add = (name: string) => {
+    if (sameSymptom(name, main) || names.some(n => sameSymptom(n, name))) {return;}
+    names.push(name);
+  };
+  matchSymptoms(text, dictionary).mentions.forEach(m => add(m.name));
+  spCase.symptoms.filter(s => text.includes(s.name)).forEach(s => add(s.name));
+  return names;
+};
+
+/**
+ * 识别提问的意图与涉及的症状；规则未命中时与必问问题做相似度匹配
+ */
+export function classifyQuestion(
+  question: string,
+  spCase: SpCase,
+  options: { requiredQuestions?: string[]; dictionary?: SymptomKnowledgeEntry[] } = {}
+): SpClassification {
+  const dictionary = options.dictionary ?? [];
+  const symptoms = symptomsIn(question, spCase, dictionary);
+  let intents = intentsOf(question);
+
+  if (intents.length === 0 && symptoms.length === 0) {
+    let best: { question: string; similarity: number } | null = null;
+    for (const rq of options.requiredQuestions ?? []) {
+      const similarity = textSimilarity(question, rq);
+      if (similarity >= SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { question: rq, similarity };
+      }
+    }
+    if (best) {intents = intentsOf(best.question);}
+  }
+  return { intents, symptoms };
+}
+
+const answerSymptom = (spCase: SpCase, name: string): string => {
+  const entry = spCase.symptoms.find(s => sameSymptom(s.name, name));
+  if (!entry) {return `没有${name}。`;}
+  return entry.answer || (entry.present ? `有${entry.name}。` : `没有${entry.name}。`);
+};
+
+const answerIntent = (spCase: SpCase, intent: SpIntent): string | null => {
+  if (intent === 'identity') {
+    const { name, age, occupation } = spCase.patient;
+    return `我叫${name}，今年${age}岁${occupation ? `，${occupation}` : ''}。`;
+  }
+  return spCase.facts[intent]?.answer ?? null;
+};
+
+/**
+ * 按病例事实回答一个提问
+ */
+export function answerQuestion(
+  question: string,
+  spCase: SpCase,
+  options: { requiredQuestions?: string[]; dictionary?: SymptomKnowledgeEntry[] } = {}
+): SpReply {
+  const classification = classifyQuestion(question, spCase, options);
+  const parts = [
+    ...classification.intents.map(intent => answerIntent(spCase, intent)).filter((a): a is string => Boolean(a)),
+    ...classification.symptoms.map(name => answerSymptom(spCase, name)),
+  ];
+  const answer = Array.from(new Set(parts)).join('') || spCase.fallback;
+  return { ...classification, answer };
+}
+
+const askedIntentsOf = (turns: SpTurn[]): Set<SpIntent> => new Set(turns.flatMap(t => t.intents));
+
+const askedSymptomsOf = (turns: SpTurn[]): string[] => {
+  const names: string[] = [];
+  turns.flatMap(t => t.symptoms).forEach(name => {
+    if (!names.some(n => sameSymptom(n, name))) {names.push(name);}
+  });
+  return names;
+};
+
+const recordOf = (spCase: SpCase, intent: SpIntent): string => spCase.facts[intent]?.record?.trim() ?? '';
+
+/**
+ * 由已问到的事实生成病历内容；未问到的事实不写入
+ */
+export function buildSessionPatch(spCase: SpCase, turns: SpTurn[]): SpSessionPatch {
+  const asked = askedIntentsOf(turns);
+  const askedSymptoms = askedSymptomsOf(turns);
+  const recordIf = (intent: SpIntent): string => (asked.has(intent) ? recordOf(spCase, intent) : '');
+
+  const caseSymptomOf = (name: string) => spCase.symptoms.find(s => sameSymptom(s.name, name));
+  const positives = askedSymptoms.map(caseSymptomOf).filter(s => s?.present);
+  const negatives = askedSymptoms.filter(name => !caseSymptomOf(name)?.present);
+
+  const sentences = [
+    ...NARRATIVE_ORDER.map(recordIf),
+    ...positives.map(s => s?.record || `伴${s?.name}`),
+    negatives.length > 0 ? `无${negatives.join('、')}` : '',
+    recordIf('treatment'),
+    recordIf('general'),
+  ].filter(Boolean);
+
+  const { symptom, text, durationNum, durationUnit } = spCase.chiefComplaint;
+  return {
+    chiefComplaint: { symptom, text, durationNum, durationUnit },
+    presentIllness: sentences.length > 0
+      ? { narrative: sentences.map(ensureSentenceEnd).join(''), narrativeSource: 'manual' }
+      : {},
+    pastHistory: recordIf('pastHistory') ? { illnessHistory: recordIf('pastHistory') } : {},
+    personalHistory: recordIf('personalHistory') ? { social: recordIf('personalHistory') } : {},
+    familyHistory: recordIf('familyHistory') ? { summary: recordIf('familyHistory') } : {},
+  };
+}
+
+/**
+ * 必问问题的提问覆盖：问到同一意图、问到其中列出的症状，或提问与其足够相似均视为已问
+ */
+export function scoreCoverage(
+  spCase: SpCase,
+  turns: SpTurn[],
+  requiredQuestions: string[],
+  dictionary: SymptomKnowledgeEntry[] = []
+): SpCoverage {
+  const asked = askedIntentsOf(turns);
+  const askedSymptoms = askedSymptomsOf(turns);
+  const items = requiredQuestions.map(question => {
+    const covered =
+      intentsOf(question).some(intent => asked.has(intent))
+      || symptomsIn(question, spCase, dictionary).some(name => askedSymptoms.some(n => sameSymptom(n, name)))
+      || turns.some(t => textSimilarity(t.question, question) >= SIMILARITY_THRESHOLD);
+    return { question, asked: covered };
+  });
+  const askedCount = items.filter(i => i.asked).length;
+  return {
+    score: items.length > 0 ? Math.round((askedCount / items.length) * 1000) / 10 : null,
+    asked: askedCount,
+    total: items.length,
+    items,
+  };
+}
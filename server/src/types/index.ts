@@ -281,6 +281,99 @@ export interface DiagnosisSuggestion {
   recommendations: string[];
 }
 
+/**
+ * 病历报告章节标识
+ */
+export type ReportSectionKey =
+  | 'general'
+  | 'chiefComplaint'
+  | 'presentIllness'
+  | 'pastHistory'
+  | 'reviewOfSystems'
+  | 'personalHistory'
+  | 'maritalHistory'
+  | 'menstrualFertility'
+  | 'familyHistory'
+  | 'physicalExam'
+  | 'auxiliaryExams'
+  | 'intervalHistory'
+  | 'recommendation';
+
+/**
+ * 病历报告键值条目（如“姓名：张三”）
+ */
+export interface ReportItemBlock {
+  type: 'item';
+  /** 字段标识，供报告模板筛选字段与改写标签 */
+  key: string;
+  label: string;
+  value: string;
+  /** 数据来源字段路径，如 patient.name、pastHistory.surgeries */
+  sources: string[];
+  /** 纯文本渲染时的缩进空格数 */
+  indent: number;
+}
+
+/**
+ * 病历报告段落
+ */
+export interface ReportParagraphBlock {
+  type: 'paragraph';
+  key: string;
+  text: string;
+  sources: string[];
+  indent: number;
+}
+
+export type ReportBlock = ReportItemBlock | ReportParagraphBlock;
+
+/**
+ * 病历报告章节
+ */
+export interface ReportSection {
+  key: ReportSectionKey;
+  title: string;
+  blocks: ReportBlock[];
+}
+
+/**
+ * 结构化病历文档模型，Text/Markdown/PDF/DOCX 均由此渲染
+ */
+export interface ReportDocument {
+  sessionId: number | null;
+  /** 文书名称，如“病历”“入院记录” */
+  title: string;
+  templateId: number | null;
+  patientName: string;
+  generatedAt: string;
+  sections: ReportSection[];
+}
+
+/**
+ * 报告模板中的章节配置
+ */
+export interface ReportTemplateSectionConfig {
+  key: ReportSectionKey;
+  /** 覆盖默认章节标题 */
+  title?: string;
+  /** 仅保留列出的字段（按内容块 key），缺省时保留全部 */
+  fields?: string[];
+  /** 字段标签改写，如 { admissionDate: '就诊日期' } */
+  labels?: Record<string, string>;
+  /** 章节无内容时的兜底措辞 */
+  emptyText?: string;
+}
+
+/**
+ * 报告模板定义（章节顺序即输出顺序，未列出的章节不输出）
+ */
+export interface ReportTemplateDefinition {
+  documentTitle?: string;
+  /** 替换默认的“未记录”措辞 */
+  notRecordedText?: string;
+  sections: ReportTemplateSectionConfig[];
+}
+
 /**
  * 查询过滤器
  */
@@ -17,6 +17,8 @@ export enum AuditEventType {
   LOGOUT = 'LOGOUT',
   TOKEN_REFRESH = 'TOKEN_REFRESH',
   TOKEN_EXPIRED = 'TOKEN_EXPIRED',
+  REFRESH_TOKEN_REUSE = 'REFRESH_TOKEN_REUSE',
+  FORCE_LOGOUT = 'FORCE_LOGOUT',
   
   // 密钥管理
   JWT_KEY_ROTATION = 'JWT_KEY_ROTATION',
@@ -76,9 +76,15 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 }
 
+/**
+ * 令牌作用域：totp_setup 表示角色要求两步验证但尚未绑定，仅可访问绑定相关接口
+ */
+export type TokenScope = 'totp_setup';
+
 export interface JwtPayload {
   operatorId: number;
   role: string;
+  scope?: TokenScope;
 }
 
 export interface AccessJwtPayload extends JwtPayload {
@@ -175,7 +181,9 @@ export function verifyToken(token: string): JwtPayload | null {
     secureLogger.info('[JWT] 使用旧密钥验证Token，建议客户端刷新', { operatorId: p.operatorId });
   }
 
-  return { operatorId: p.operatorId, role: p.role };
+  return p.scope === 'totp_setup'
+    ? { operatorId: p.operatorId, role: p.role, scope: p.scope }
+    : { operatorId: p.operatorId, role: p.role };
 }
 
 /**
@@ -14,6 +14,11 @@ import { secureLogger } from './secureLogger';
  */
 export const ENCRYPTED_PREFIX = 'enc:';
 
+/**
+ * 信封加密（会话数据密钥）使用的算法标识
+ */
+const ENVELOPE_ALGORITHM = 'AES-GCM';
+
 /**
  * 敏感字段列表
  */
@@ -97,6 +102,23 @@ export function validateEncryptedFields<T extends Record<string, unknown>>(
   };
 }
 
+/**
+ * 是否为信封加密的密文（以会话数据密钥加密，与用户密钥版本无关）
+ */
+export function isEnvelopeEncrypted(value: string): boolean {
+  if (!value.startsWith(ENCRYPTED_PREFIX)) {
+    return false;
+  }
+
+  try {
+    const jsonStr = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64').toString('utf-8');
+    const data: EncryptedData = JSON.parse(jsonStr);
+    return data.algorithm === ENVELOPE_ALGORITHM;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * 确保敏感字段已加密（中间件使用）
  */
@@ -66,6 +66,20 @@ function getEncryptionConfig(): EncryptionConfig {
   };
 }
 
+/**
+ * 获取 HMAC 密钥（盲索引等依赖其稳定不变，生产环境未配置时直接报错）
+ */
+function getHmacSecret(): string {
+  const secret = process.env.HMAC_SECRET || '';
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('生产环境必须设置 HMAC_SECRET 环境变量');
+    }
+    return 'default-secret';
+  }
+  return secret;
+}
+
 /**
  * 加密文本
  * @param text 要加密的文本
@@ -281,7 +295,7 @@ export const hash = {
    * HMAC 哈希
    */
   hmac(value: string, secret?: string): string {
-    const key = secret || process.env.HMAC_SECRET || 'default-secret';
+    const key = secret || getHmacSecret();
     return crypto.createHmac('sha256', key).update(value).digest('hex');
   },
 
@@ -0,0 +1,109 @@
+/**
+ * 邮件发送
+ * 通过可替换的传输层发送邮件；内置 smtp 传输用于真实投递，log / file 两种传输供离线开发使用，
+ * 接入其他服务时在启动阶段调用 setMailTransport 注册即可
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { mailConfig, serverConfig } from '../config';
+import { secureLogger } from './secureLogger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  // 能否真正送达收件人（log / file 只落在服务器本地）
+  deliverable: boolean;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * 写入日志（生产环境不输出正文，避免验证码进入日志）
+ */
+export const logTransport: MailTransport = {
+  name: 'log',
+  deliverable: false,
+  async send(message) {
+    secureLogger.info('[mailer] 邮件（log 传输）', {
+      to: message.to,
+      subject: message.subject,
+      ...(serverConfig.isProduction ? {} : { text: message.text }),
+    });
+  },
+};
+
+/**
+ * 每封邮件写入 outbox 目录下的一个 .eml 文件
+ */
+export const createFileTransport = (outboxDir: string): MailTransport => ({
+  name: 'file',
+  deliverable: false,
+  async send(message) {
+    await fs.mkdir(outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID()}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      '',
+    ].join('\r\n');
+    await fs.writeFile(path.join(outboxDir, fileName), content, 'utf8');
+  },
+});
+
+/**
+ * 通过 SMTP 服务器投递
+ */
+export const createSmtpTransport = (options: typeof mailConfig.smtp): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+  return {
+    name: 'smtp',
+    deliverable: true,
+    async send(message) {
+      await transporter.sendMail({ from: message.from, to: message.to, subject: message.subject, text: message.text });
+    },
+  };
+};
+
+const createConfiguredTransport = (): MailTransport => {
+  if (mailConfig.transport === 'smtp') {
+    if (mailConfig.smtp.host) {return createSmtpTransport(mailConfig.smtp);}
+    secureLogger.warn('[mailer] MAIL_TRANSPORT=smtp 但未配置 SMTP_HOST，改用 log 传输');
+    return logTransport;
+  }
+  return mailConfig.transport === 'file' ? createFileTransport(mailConfig.outboxDir) : logTransport;
+};
+
+let transport: MailTransport = createConfiguredTransport();
+
+export const setMailTransport = (next: MailTransport): void => {
+  transport = next;
+  secureLogger.info('[mailer] 已切换邮件传输', { transport: next.name });
+};
+
+export const getMailTransport = (): MailTransport => transport;
+
+/**
+ * 邮件能否送达用户：生产环境须配置可投递的传输；开发环境可在日志或 outbox 中查看
+ */
+export const canDeliverMail = (): boolean => transport.deliverable || !serverConfig.isProduction;
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transport.send({ ...message, from: mailConfig.from });
+};
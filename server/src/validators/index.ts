@@ -25,6 +25,8 @@ export const PatientSchemas = {
         ),
       })
       .optional(),
+    // 已确认不是疑似重复患者时跳过查重
+    ignoreDuplicates: z.boolean().optional(),
   }),
 
   // 更新患者
@@ -34,7 +36,9 @@ export const PatientSchemas = {
     birthDate: z.string().datetime().optional(),
     ethnicity: z.string().max(50).optional(),
     nativePlace: z.string().max(100).optional(),
+    placeOfBirth: z.string().max(100).optional(),
     occupation: z.string().max(50).optional(),
+    employer: z.string().max(100).optional(),
     address: z.string().max(200).optional(),
     phone: z.preprocess(
       (v) => (typeof v === 'string' && v.trim() === '' ? undefined : v),
@@ -48,6 +52,16 @@ export const PatientSchemas = {
         ),
       })
       .optional(),
+    // 客户端重新加密姓名/住址时附带的加密版本
+    encryptionVersion: z.string().max(20).optional(),
+  }),
+
+  // 合并重复患者：将来源患者的会话并入当前患者后删除来源患者
+  merge: z.object({
+    sourceIds: z
+      .array(z.number().int().positive('患者ID必须是正整数'))
+      .min(1, '请选择要合并的患者')
+      .max(20, '一次最多合并20名患者'),
   }),
 
   // 查询参数
@@ -71,6 +85,11 @@ export const SessionSchemas = {
     historian: z.string().max(50).optional(),
     reliability: z.string().max(50).optional(),
     historianRelationship: z.string().max(50).optional(),
+    // 按教学任务采集时关联的任务ID
+    assignmentId: z.preprocess(
+      (v) => (typeof v === 'string' && v.trim() !== '' ? Number(v) : v),
+      z.number().int().positive('任务ID必须是正整数').optional()
+    ),
   }),
 
   // 更新会话
@@ -249,8 +268,100 @@ export const SessionSchemas = {
   params: z.object({
     id: z.string().regex(/^\d+$/, 'ID必须是数字'),
   }),
+
+  // 提交带教审核
+  reviewSubmit: z.object({
+    teacherId: z.preprocess(
+      (v) => (typeof v === 'string' && v.trim() !== '' ? Number(v) : v),
+      z.number().int().positive('教师ID必须是正整数')
+    ),
+  }),
+
+  // 审核批注（fieldPath 锚定到字段，如 presentIllness.onsetTime）
+  reviewComment: z.object({
+    fieldPath: z.string().max(100).nullable().optional(),
+    comment: z.string().trim().min(1, '批注内容不能为空').max(2000, '批注内容过长'),
+  }),
+
+  // 退回/通过时的整体意见
+  reviewDecision: z.preprocess(
+    (v) => (v === null || v === undefined ? {} : v),
+    z.object({
+      comment: z.string().trim().max(2000, '意见内容过长').optional(),
+    })
+  ),
+
+  // 审核列表查询参数
+  reviewQueueQuery: z.object({
+    status: z.enum(['submitted', 'returned', 'approved']).optional(),
+  }),
+
+  // 开始虚拟病人问诊
+  spStart: z.object({
+    caseId: z.string().trim().min(1, '请选择病例').max(100),
+  }),
+
+  // 向虚拟病人提问
+  spQuestion: z.object({
+    question: z.string().trim().min(1, '问题不能为空').max(500, '问题过长'),
+  }),
+
+  // 修订历史
+  revisionParams: z.object({
+    id: z.string().regex(/^\d+$/, 'ID必须是数字'),
+    revision: z.string().regex(/^\d+$/, '修订号必须是数字'),
+  }),
+
+  // 会话数据密钥授权
+  sessionKeyParams: z.object({
+    id: z.string().regex(/^\d+$/, 'ID必须是数字'),
+    recipientId: z.string().regex(/^\d+$/, '接收者ID必须是数字'),
+  }),
+
+  // 用接收者公钥包装的数据密钥
+  sessionKeyGrant: z.object({
+    wrappedKey: z.string().min(1, '包装密钥不能为空').max(4096),
+  }),
+
+  // 比较两个修订，0 表示首次保存前
+  revisionDiffQuery: z.object({
+    from: z.string().regex(/^\d+$/, '修订号必须是数字'),
+    to: z.string().regex(/^\d+$/, '修订号必须是数字'),
+  }),
+
+  // 恢复修订：指定 section 时仅恢复该章节
+  revisionRestore: z.object({
+    section: z
+      .enum([
+        'historian',
+        'reliability',
+        'historianRelationship',
+        'generalInfo',
+        'chiefComplaint',
+        'presentIllness',
+        'pastHistory',
+        'personalHistory',
+        'maritalHistory',
+        'menstrualHistory',
+        'fertilityHistory',
+        'familyHistory',
+        'physicalExam',
+        'specialistExam',
+        'auxiliaryExams',
+        'reviewOfSystems',
+      ])
+      .optional(),
+  }),
 };
 
+const passwordSchema = z
+  .string()
+  .min(8, '密码至少8个字符')
+  .max(100, '密码过长')
+  .refine((v) => /[A-Za-z]/u.test(v) && /\d/u.test(v), '密码需包含字母和数字');
+
+const totpCodeSchema = z.string().regex(/^\d{6}$/u, '动态验证码为6位数字');
+
 export const AuthSchemas = {
   login: z.object({
     token: z.string().max(200).optional(),
@@ -264,40 +375,165 @@ export const AuthSchemas = {
 
   register: z.object({
     username: z.string().min(3, '用户名至少3个字符').max(50, '用户名过长'),
-    password: z
-      .string()
-      .min(8, '密码至少8个字符')
-      .max(100, '密码过长')
-      .refine((v) => /[A-Za-z]/u.test(v) && /\d/u.test(v), '密码需包含字母和数字'),
+    password: passwordSchema,
     name: z.string().max(100).optional(),
-    role: z.enum(['admin', 'doctor']).default('doctor'),
+    role: z.enum(['admin', 'doctor', 'teacher', 'student']).default('doctor'),
+    captchaId: z.string().min(10, '验证码ID缺失'),
+    captcha: z.string().min(4, '验证码格式错误').max(6),
+  }),
+
+  passwordResetRequest: z.object({
+    username: z.string().min(1, '请输入用户名').max(50),
     captchaId: z.string().min(10, '验证码ID缺失'),
     captcha: z.string().min(4, '验证码格式错误').max(6),
   }),
+
+  passwordResetVerify: z.discriminatedUnion('method', [
+    z.object({
+      username: z.string().min(1, '请输入用户名').max(50),
+      method: z.literal('email'),
+      code: z.string().regex(/^\d{6}$/u, '验证码为6位数字'),
+    }),
+    z.object({
+      username: z.string().min(1, '请输入用户名').max(50),
+      method: z.literal('security_questions'),
+      answers: z
+        .array(z.object({ questionId: z.number().int().positive(), answer: z.string().min(1, '请填写答案').max(200) }))
+        .min(1, '请回答安全问题')
+        .max(10),
+    }),
+  ]),
+
+  loginTotp: z
+    .object({
+      challengeToken: z.string().min(20, '登录凭证无效').max(200),
+      code: totpCodeSchema.optional(),
+      recoveryCode: z.string().min(10, '恢复码格式错误').max(20).optional(),
+    })
+    .refine((d) => !!d.code !== !!d.recoveryCode, { message: '请提供动态验证码或恢复码' }),
+
+  totpCode: z.object({ code: totpCodeSchema }),
+
+  totpDisable: z
+    .object({
+      code: totpCodeSchema.optional(),
+      recoveryCode: z.string().min(10, '恢复码格式错误').max(20).optional(),
+    })
+    .refine((d) => !!d.code !== !!d.recoveryCode, { message: '请提供动态验证码或恢复码' }),
+
+  passwordResetConfirm: z.object({
+    resetToken: z.string().min(20, '重置凭证无效').max(200),
+    password: passwordSchema,
+  }),
 };
 
 /**
  * 诊断相关验证模式
  */
+const diagnosisWeightSchema = z.number().min(0, '权重不能小于0').max(1, '权重不能大于1');
+
+const diagnosisSymptomSchema = z
+  .object({
+    symptomKey: z.string().min(1, '症状键不能为空').max(50),
+    weight: diagnosisWeightSchema.default(0.1),
+    isRequired: z.boolean().default(false),
+    isExcluding: z.boolean().default(false),
+  })
+  .refine((s) => !(s.isRequired && s.isExcluding), { message: '症状不能同时为必需与排除' });
+
+const diagnosisRedFlagSchema = z.object({
+  redFlagName: z.string().min(1, '警惕征象不能为空').max(100),
+  weight: diagnosisWeightSchema.default(0.15),
+  severityLevel: z.number().int().min(1).max(3).default(1),
+});
+
+const diagnosisFields = {
+  name: z.string().min(1, '诊断名称不能为空').max(100),
+  description: z.string().max(1000).nullable().optional(),
+  category: z.string().max(50).nullable().optional(),
+  minAge: z.number().int().min(0).max(150).nullable().optional(),
+  maxAge: z.number().int().min(0).max(150).nullable().optional(),
+  genderPreference: z.enum(['male', 'female']).nullable().optional(),
+  priority: z.number().int().min(0).max(20).optional(),
+  isActive: z.boolean().optional(),
+};
+
+const ageRangeValid = (d: { minAge?: number | null; maxAge?: number | null }) =>
+  d.minAge == null || d.maxAge == null || d.minAge <= d.maxAge;
+
+const uniqueBy = <T>(items: T[] | undefined, key: (item: T) => string) =>
+  !items || new Set(items.map(key)).size === items.length;
+
+const diagnosisEntrySchema = z
+  .object({
+    ...diagnosisFields,
+    symptoms: z.array(diagnosisSymptomSchema).default([]),
+    redFlags: z.array(diagnosisRedFlagSchema).default([]),
+  })
+  .refine(ageRangeValid, { message: '最小年龄不能大于最大年龄' })
+  .refine((d) => uniqueBy(d.symptoms, (s) => s.symptomKey), { message: '症状不能重复' })
+  .refine((d) => uniqueBy(d.redFlags, (r) => r.redFlagName), { message: '警惕征象不能重复' });
+
 export const DiagnosisSchemas = {
-  // 诊断建议请求
-  suggest: z.object({
-    sessionId: z.preprocess(
-      (v) => (typeof v === 'string' && v.trim() !== '' ? Number(v) : v),
-      z.number().int().positive('会话ID必须是正整数')
-    ),
-    symptoms: z.array(z.string()).min(1, '至少需要一个症状'),
-    gender: z.string().max(10).optional(),
-    age: z.number().int().min(0).max(150).optional(),
+  // 诊断目录条目（创建与批量导入共用）
+  create: diagnosisEntrySchema,
+
+  // 更新诊断；提供 symptoms / redFlags 时整体替换
+  update: z
+    .object({
+      name: diagnosisFields.name.optional(),
+      description: diagnosisFields.description,
+      category: diagnosisFields.category,
+      minAge: diagnosisFields.minAge,
+      maxAge: diagnosisFields.maxAge,
+      genderPreference: diagnosisFields.genderPreference,
+      priority: diagnosisFields.priority,
+      isActive: diagnosisFields.isActive,
+      symptoms: z.array(diagnosisSymptomSchema).optional(),
+      redFlags: z.array(diagnosisRedFlagSchema).optional(),
+    })
+    .refine(ageRangeValid, { message: '最小年龄不能大于最大年龄' })
+    .refine((d) => uniqueBy(d.symptoms, (s) => s.symptomKey), { message: '症状不能重复' })
+    .refine((d) => uniqueBy(d.redFlags, (r) => r.redFlagName), { message: '警惕征象不能重复' }),
+
+  // 新增或修改单个症状关联
+  symptom: diagnosisSymptomSchema,
+
+  // 新增或修改单个警惕征象
+  redFlag: diagnosisRedFlagSchema,
+
+  symptomParams: z.object({
+    id: z.string().regex(/^\d+$/, 'ID必须是数字'),
+    symptomKey: z.string().min(1).max(50),
+  }),
+
+  redFlagParams: z.object({
+    id: z.string().regex(/^\d+$/, 'ID必须是数字'),
+    redFlagName: z.string().min(1).max(100),
+  }),
+
+  // 批量导入：content 为 JSON 数组或 CSV 文本
+  import: z.object({
+    format: z.enum(['json', 'csv']),
+    content: z.string().min(1, '导入内容不能为空').max(2_000_000, '导入内容过大'),
+    dryRun: z.boolean().default(false),
+  }),
+
+  // 列表查询参数
+  listQuery: z.object({
+    category: z.string().max(50).optional(),
+    includeInactive: z.enum(['true', 'false']).optional(),
   }),
 
-  // 增强诊断建议请求
-  enhancedSuggest: z.object({
+
+  // 诊断建议请求（症状可为中文名或 key，作为会话数据之外的补充）
+  suggest: z.object({
     sessionId: z.preprocess(
       (v) => (typeof v === 'string' && v.trim() !== '' ? Number(v) : v),
       z.number().int().positive('会话ID必须是正整数')
     ),
-    currentSymptom: z.string().min(1, '当前症状不能为空'),
+    symptoms: z.array(z.string()).default([]),
+    currentSymptom: z.string().optional(),
     associatedSymptoms: z.array(z.string()).default([]),
     redFlags: z.array(z.string()).default([]),
     age: z.number().int().min(0).max(150).optional(),
@@ -344,6 +580,266 @@ export const KnowledgeSchemas = {
   }),
 };
 
+const positiveIntId = (message: string) =>
+  z.preprocess(
+    (v) => (typeof v === 'string' && v.trim() !== '' ? Number(v) : v),
+    z.number().int().positive(message)
+  );
+
+// 病例情景：学生可见的患者基本情况与就诊背景
+const caseScenarioSchema = z.object({
+  patientName: z.string().trim().max(50).optional(),
+  gender: z.enum(['男', '女']).optional(),
+  age: z.number().int().min(0).max(150).optional(),
+  chiefComplaint: z.string().trim().min(1, '主诉不能为空').max(200),
+  background: z.string().trim().max(5000).optional(),
+});
+
+// 预期采集要点（仅教师可见），如症状键或关键阳性/阴性发现
+const expectedFindingsSchema = z
+  .array(z.string().trim().min(1).max(100))
+  .max(200, '预期要点过多')
+  .refine((items) => new Set(items).size === items.length, { message: '预期要点不能重复' });
+
+/**
+ * 班级与病例任务相关验证模式
+ */
+export const CohortSchemas = {
+  // 创建班级；管理员可指定带教教师
+  create: z.object({
+    name: z.string().trim().min(1, '班级名称不能为空').max(100),
+    description: z.string().trim().max(500).optional(),
+    teacherId: positiveIntId('教师ID必须是正整数').optional(),
+  }),
+
+  update: z
+    .object({
+      name: z.string().trim().min(1, '班级名称不能为空').max(100).optional(),
+      description: z.string().trim().max(500).nullable().optional(),
+    })
+    .refine((d) => Object.keys(d).length > 0, { message: '至少需要更新一个字段' }),
+
+  // 批量加入学生
+  enroll: z.object({
+    studentIds: z.array(positiveIntId('学生ID必须是正整数')).min(1, '至少需要一名学生').max(500),
+  }),
+
+  studentParams: z.object({
+    id: z.string().regex(/^\d+$/, 'ID必须是数字'),
+    studentId: z.string().regex(/^\d+$/, '学生ID必须是数字'),
+  }),
+
+  // 布置病例任务
+  assignment: z.object({
+    title: z.string().trim().min(1, '任务标题不能为空').max(200),
+    scenario: caseScenarioSchema,
+    expectedFindings: expectedFindingsSchema.default([]),
+    dueAt: z.string().datetime({ offset: true, message: '截止时间格式错误' }),
+    // 自动评分使用的参考病历
+    referenceSessionId: positiveIntId('参考病历ID必须是正整数').optional(),
+  }),
+
+  assignmentUpdate: z
+    .object({
+      title: z.string().trim().min(1, '任务标题不能为空').max(200).optional(),
+      scenario: caseScenarioSchema.optional(),
+      expectedFindings: expectedFindingsSchema.optional(),
+      dueAt: z.string().datetime({ offset: true, message: '截止时间格式错误' }).optional(),
+      referenceSessionId: positiveIntId('参考病历ID必须是正整数').nullable().optional(),
+    })
+    .refine((d) => Object.keys(d).length > 0, { message: '至少需要更新一个字段' }),
+};
+
+// 教学病例的标准病史：各分节与 InterviewSession 对应 JSON 字段结构一致
+const sessionSectionSchema = z.record(z.string(), z.unknown());
+const teachingCaseHistorySchema = z.object({
+  generalInfo: sessionSectionSchema.optional(),
+  chiefComplaint: sessionSectionSchema.optional(),
+  presentIllness: sessionSectionSchema.optional(),
+  pastHistory: sessionSectionSchema.optional(),
+  personalHistory: sessionSectionSchema.optional(),
+  maritalHistory: sessionSectionSchema.optional(),
+  menstrualHistory: sessionSectionSchema.optional(),
+  fertilityHistory: sessionSectionSchema.optional(),
+  familyHistory: sessionSectionSchema.optional(),
+  physicalExam: sessionSectionSchema.optional(),
+  specialistExam: sessionSectionSchema.optional(),
+  auxiliaryExams: sessionSectionSchema.optional(),
+  reviewOfSystems: sessionSectionSchema.optional(),
+});
+
+const teachingCaseDemographicsSchema = z.object({
+  name: z.string().trim().min(1, '患者姓名不能为空').max(50),
+  gender: z.enum(['男', '女']),
+  age: z.number().int().min(0).max(150),
+  ethnicity: z.string().trim().max(20).optional(),
+  occupation: z.string().trim().max(50).optional(),
+  nativePlace: z.string().trim().max(50).optional(),
+});
+
+const teachingCaseFields = {
+  code: z.string().trim().regex(/^[a-z0-9][a-z0-9_-]*$/, '病例编码只能包含小写字母、数字、下划线和连字符').max(100),
+  title: z.string().trim().min(1, '病例标题不能为空').max(200),
+  scenario: z.string().trim().max(5000),
+  demographics: teachingCaseDemographicsSchema,
+  history: teachingCaseHistorySchema,
+  expectedDiagnosis: z.string().trim().max(200),
+  teachingPoints: z.array(z.string().trim().min(1).max(500)).max(100, '教学要点过多'),
+};
+
+/**
+ * 教学病例库相关验证模式
+ */
+export const TeachingCaseSchemas = {
+  create: z.object({
+    code: teachingCaseFields.code.optional(),
+    title: teachingCaseFields.title,
+    scenario: teachingCaseFields.scenario.optional(),
+    demographics: teachingCaseFields.demographics,
+    history: teachingCaseFields.history.default({}),
+    expectedDiagnosis: teachingCaseFields.expectedDiagnosis.optional(),
+    teachingPoints: teachingCaseFields.teachingPoints.default([]),
+  }),
+
+  update: z
+    .object({
+      title: teachingCaseFields.title.optional(),
+      scenario: teachingCaseFields.scenario.nullable().optional(),
+      demographics: teachingCaseFields.demographics.optional(),
+      history: teachingCaseFields.history.optional(),
+      expectedDiagnosis: teachingCaseFields.expectedDiagnosis.nullable().optional(),
+      teachingPoints: teachingCaseFields.teachingPoints.optional(),
+    })
+    .refine((d) => Object.keys(d).length > 0, { message: '至少需要更新一个字段' }),
+
+  // 病例包中的单个病例（version 用于判断是否比本地版本新）
+  bundleCase: z.object({
+    code: teachingCaseFields.code,
+    title: teachingCaseFields.title,
+    scenario: teachingCaseFields.scenario.nullable().optional(),
+    demographics: teachingCaseFields.demographics,
+    history: teachingCaseFields.history.default({}),
+    expectedDiagnosis: teachingCaseFields.expectedDiagnosis.nullable().optional(),
+    teachingPoints: teachingCaseFields.teachingPoints.default([]),
+    version: z.number().int().positive().default(1),
+  }),
+
+  // 导入：content 为导出的 JSON 病例包
+  import: z.object({
+    content: z.string().min(1, '导入内容不能为空').max(2_000_000, '导入内容过大'),
+    dryRun: z.boolean().default(false),
+  }),
+
+  listQuery: z.object({
+    keyword: z.string().trim().max(100).optional(),
+  }),
+
+  // 导出指定病例，缺省时导出全部
+  exportQuery: z.object({
+    ids: z
+      .string()
+      .regex(/^\d+(,\d+)*$/, 'ids 应为逗号分隔的病例ID')
+      .optional(),
+  }),
+};
+
+/**
+ * 报告模板相关验证模式
+ */
+const reportTemplateIdSchema = z.preprocess(
+  (v) => (typeof v === 'string' && v.trim() !== '' ? Number(v) : v),
+  z.number().int().positive('模板ID必须是正整数')
+);
+
+const reportTemplateDefinitionSchema = z.object({
+  documentTitle: z.string().min(1).max(50).optional(),
+  notRecordedText: z.string().max(20).optional(),
+  sections: z
+    .array(
+      z.object({
+        key: z.enum([
+          'general',
+          'chiefComplaint',
+          'presentIllness',
+          'pastHistory',
+          'reviewOfSystems',
+          'personalHistory',
+          'maritalHistory',
+          'menstrualFertility',
+          'familyHistory',
+          'physicalExam',
+          'auxiliaryExams',
+          'intervalHistory',
+          'recommendation',
+        ]),
+        title: z.string().min(1).max(50).optional(),
+        fields: z.array(z.string().min(1).max(50)).optional(),
+        labels: z.record(z.string(), z.string().min(1).max(50)).optional(),
+        emptyText: z.string().max(200).optional(),
+      })
+    )
+    .min(1, '至少需要一个章节')
+    .refine((sections) => new Set(sections.map((s) => s.key)).size === sections.length, {
+      message: '章节不能重复',
+    }),
+});
+
+export const ReportTemplateSchemas = {
+  create: z.object({
+    name: z.string().min(1, '模板名称不能为空').max(100),
+    description: z.string().max(500).nullable().optional(),
+    definition: reportTemplateDefinitionSchema,
+    isDefault: z.boolean().optional(),
+  }),
+
+  update: z.object({
+    name: z.string().min(1, '模板名称不能为空').max(100).optional(),
+    description: z.string().max(500).nullable().optional(),
+    definition: reportTemplateDefinitionSchema.optional(),
+    isDefault: z.boolean().optional(),
+  }),
+
+  // 生成报告请求体（POST /sessions/:id/report）
+  reportBody: z.preprocess(
+    (v) => (v === null || v === undefined ? {} : v),
+    z.object({
+      templateId: reportTemplateIdSchema.optional(),
+    }).passthrough()
+  ),
+
+  // 导出查询参数（GET /sessions/:id/export/*）
+  exportQuery: z.object({
+    templateId: reportTemplateIdSchema.optional(),
+  }),
+};
+
+/**
+ * 诊疗经过（复诊）相关验证模式
+ */
+export const EpisodeSchemas = {
+  create: z.object({
+    patientId: positiveIntId('患者ID必须是正整数'),
+    title: z.string().trim().min(1, '诊疗经过名称不能为空').max(200),
+  }),
+
+  update: z
+    .object({
+      title: z.string().trim().min(1, '诊疗经过名称不能为空').max(200).optional(),
+      status: z.enum(['open', 'closed']).optional(),
+    })
+    .refine((d) => Object.keys(d).length > 0, { message: '至少需要更新一个字段' }),
+
+  listQuery: z.object({
+    patientId: z.string().regex(/^\d+$/, '患者ID必须是数字'),
+  }),
+
+  // 由上次就诊继续：上次就诊未归入诊疗经过时以 title 新建
+  followUp: z.object({
+    previousSessionId: positiveIntId('上次就诊ID必须是正整数'),
+    title: z.string().trim().min(1).max(200).optional(),
+  }),
+};
+
 /**
  * 通用ID参数验证
  */